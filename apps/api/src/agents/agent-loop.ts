@@ -14,14 +14,26 @@ import { normalizePairForDex } from '../lib/pairs.js';
 import { createLogger } from '../lib/logger.js';
 import { migrateAgentConfig } from '../lib/agent-config-migration.js';
 import { AgentConfigSchema, DEFAULT_FREE_AGENT_MODEL } from '@something-in-loop/shared';
-import type { CachedAgentRow } from './trading-agent.js';
+import type { CachedAgentRow, CachedConfigVersion } from './trading-agent.js';
 import { fetchAgentMarketContext } from './agent-loop/market.js';
 import { executeTradeDecision, persistTrade } from './agent-loop/execution.js';
-import { resolveLlmCredentials } from './agent-loop/llm-config.js';
+import { resolveEnsembleMembers, resolveLlmCredentials, resolveTeamMembers } from './agent-loop/llm-config.js';
 import { runInitiaPerpPath } from './agent-loop/initia-perp.js';
-import { runRiskControls } from './agent-loop/risk-controls.js';
+import { fillPendingOrders, runRiskControls } from './agent-loop/risk-controls.js';
+import { riskLimitsFromConfig } from './agent-loop/portfolio-risk.js';
+import { regimeGateFromConfig } from './agent-loop/regime-gate.js';
+import { sizingFromConfig } from './agent-loop/position-sizing.js';
 import { enqueueLlmJob } from './agent-loop/queue.js';
-import { buildBaseTradeRequest, checkBaseRateLimitOrHold, runBaseSyncDecision } from './agent-loop/base-flow.js';
+import { evaluateDueSelfModifications } from '../services/self-modification.js';
+import { resolveConfigVersionId } from '../services/config-versions.js';
+import {
+  buildBaseTradeRequest,
+  checkBaseRateLimitOrHold,
+  checkLlmCallBudgetOrHold,
+  runBaseSyncDecision,
+} from './agent-loop/base-flow.js';
+import { ensembleModelLabel, TEAM_LLM_CALLS, teamModelLabel } from '../services/llm-router.js';
+import type { EnsembleMember, TeamMembers } from '../services/llm-router.js';
 import type { ExecuteDecisionParams } from './agent-loop/execution.js';
 import type { MarketDataItem, PendingLlmContext, RecentDecision } from './agent-loop/types.js';
 
@@ -98,6 +110,19 @@ export async function runAgentLoop(
     }
   }
 
+  // Close out self-modification A/B windows; a revert applies from this tick on.
+  try {
+    const revertedConfig = await evaluateDueSelfModifications(env, db, agentId);
+    if (revertedConfig) {
+      agentRow = { ...agentRow, config: revertedConfig };
+      const cached = await ctx.storage.get<CachedAgentRow>('cachedAgentRow');
+      if (cached) await ctx.storage.put('cachedAgentRow', { ...cached, config: revertedConfig });
+      log.info('self_modification_reverted', { agentId });
+    }
+  } catch (evalErr) {
+    console.warn(`[agent-loop] ${agentId}: self-modification evaluation failed:`, evalErr);
+  }
+
   let config: ReturnType<typeof AgentConfigSchema.parse>;
   try {
     const rawConfig = { name: agentRow.name, ...JSON.parse(agentRow.config) };
@@ -108,13 +133,39 @@ export async function runAgentLoop(
     throw configErr;
   }
 
+  // Tag this tick's decisions with the config version they were made under.
+  // The id is cached in DO storage against the config it was resolved for, so
+  // D1 is only asked again after the config changes.
+  let configVersionId: string | null = null;
+  try {
+    const cachedVersion = await ctx.storage.get<CachedConfigVersion>('configVersion');
+    if (cachedVersion?.config === agentRow.config) {
+      configVersionId = cachedVersion.id;
+    } else {
+      configVersionId = await resolveConfigVersionId(db, agentId, agentRow.config);
+      if (configVersionId) {
+        await ctx.storage.put('configVersion', { config: agentRow.config, id: configVersionId } satisfies CachedConfigVersion);
+      }
+    }
+  } catch (versionErr) {
+    console.warn(`[agent-loop] ${agentId}: failed to resolve config version:`, versionErr);
+  }
+
   try {
     await ctx.storage.put('analysisInterval', config.analysisInterval);
   } catch (err) {
     console.warn(`[agent-loop] ${agentId}: failed to persist analysisInterval to DO storage:`, err);
   }
 
-  const effectiveLlmModel = agentRow.llmModel?.trim() || config.llmModel || DEFAULT_FREE_AGENT_MODEL;
+  // Ensembles and teams only drive the Base buy/sell flow; Initia perps stay single-model.
+  const ensemble = config.chain !== 'initia' ? config.ensemble ?? null : null;
+  const team = config.chain !== 'initia' && !ensemble ? config.team ?? null : null;
+  const agentLlmModel = agentRow.llmModel?.trim() || config.llmModel || DEFAULT_FREE_AGENT_MODEL;
+  const effectiveLlmModel = ensemble
+    ? ensembleModelLabel(ensemble.policy)
+    : team
+      ? teamModelLabel(team.executor?.model?.trim() || agentLlmModel)
+      : agentLlmModel;
   const effectiveLlmFallback = config.llmFallback?.trim() || DEFAULT_FREE_AGENT_MODEL;
   const allowFallback = config.allowFallback === true;
 
@@ -145,9 +196,14 @@ export async function runAgentLoop(
     pairsToFetch,
     log,
     bypassCache,
+    indicatorPeriods: config.indicatorPeriods,
+    customRules: config.customRules,
+    strategies: config.strategies,
   });
   doneMarketFetch();
 
+  await fillPendingOrders({ agentId, engine, env, db, ctx, config, marketData });
+
   if (marketData.length === 0) {
     console.warn(
       `[agent-loop] ${agentId}: No market data available — DexScreener returned no Base chain pairs for configured pairs: ${pairsToFetch.join(', ')}`,
@@ -161,6 +217,7 @@ export async function runAgentLoop(
       llmModel: effectiveLlmModel,
       llmLatencyMs: 0,
       marketDataSnapshot: '[]',
+      configVersionId,
       createdAt: nowIso(),
     });
     return;
@@ -168,16 +225,50 @@ export async function runAgentLoop(
 
   console.log(`[agent-loop] ${agentId}: Got market data for ${marketData.map((m) => m.pair).join(', ')}`);
 
-  const llmCredentials = await resolveLlmCredentials({
-    env,
-    db,
-    agentId,
-    agentRow,
-    effectiveLlmModel,
-    marketData,
-  });
-  if (!llmCredentials) return;
-  const { llmApiKey, llmProvider } = llmCredentials;
+  let llmApiKey = '';
+  let llmProvider: 'openrouter' | 'anthropic' = 'openrouter';
+  let ensembleMembers: EnsembleMember[] | null = null;
+  let teamMembers: TeamMembers | null = null;
+  if (ensemble) {
+    ensembleMembers = await resolveEnsembleMembers({
+      env,
+      db,
+      agentId,
+      agentRow,
+      models: ensemble.models,
+      effectiveLlmModel,
+      marketData,
+      configVersionId,
+      temperature: config.temperature,
+    });
+    if (!ensembleMembers) return;
+  } else if (team) {
+    teamMembers = await resolveTeamMembers({
+      env,
+      db,
+      agentId,
+      agentRow,
+      team,
+      defaultModel: agentLlmModel,
+      effectiveLlmModel,
+      marketData,
+      configVersionId,
+      temperature: config.temperature,
+    });
+    if (!teamMembers) return;
+  } else {
+    const llmCredentials = await resolveLlmCredentials({
+      env,
+      db,
+      agentId,
+      agentRow,
+      effectiveLlmModel,
+      marketData,
+      configVersionId,
+    });
+    if (!llmCredentials) return;
+    ({ llmApiKey, llmProvider } = llmCredentials);
+  }
 
   // For Initia agents: use perp decision + execution planner instead of Base buy/sell flow.
   if (config.chain === 'initia') {
@@ -199,6 +290,7 @@ export async function runAgentLoop(
       allowFallback,
       llmProvider,
       llmApiKey,
+      configVersionId,
     });
     return;
   }
@@ -211,6 +303,10 @@ export async function runAgentLoop(
     agentRow,
   });
 
+  const ensembleRun = ensemble && ensembleMembers ? { policy: ensemble.policy, members: ensembleMembers } : null;
+  const llmCalls = ensembleMembers
+    ? ensembleMembers.filter((member) => 'config' in member).length
+    : teamMembers ? TEAM_LLM_CALLS : 1;
   const canContinueAfterRateLimit = await checkBaseRateLimitOrHold({
     env,
     db,
@@ -219,9 +315,26 @@ export async function runAgentLoop(
     ownerAddress: agentRow.ownerAddress,
     effectiveLlmModel,
     marketData,
+    configVersionId,
+    calls: llmCalls,
   });
   if (!canContinueAfterRateLimit) return;
 
+  // Charged only once the rate limit has let the tick through, so a
+  // rate-limited tick does not spend the agent's hourly budget.
+  const canContinueAfterBudget = await checkLlmCallBudgetOrHold({
+    ctx,
+    db,
+    log,
+    agentId,
+    maxLlmCallsPerHour: config.maxLlmCallsPerHour,
+    calls: llmCalls,
+    effectiveLlmModel,
+    marketData,
+    configVersionId,
+  });
+  if (!canContinueAfterBudget) return;
+
   const jobHandled = await enqueueLlmJob({
     agentId,
     ownerAddress: agentRow.ownerAddress ?? null,
@@ -237,6 +350,9 @@ export async function runAgentLoop(
     minConfidence,
     tradeRequest,
     config,
+    configVersionId,
+    ensemble: ensembleRun,
+    team: teamMembers,
   });
   if (jobHandled) return;
 
@@ -253,6 +369,9 @@ export async function runAgentLoop(
     tradeRequest,
     marketData,
     temperature: config.temperature,
+    configVersionId,
+    ensemble: ensembleRun,
+    team: teamMembers,
   });
   if (!decision) return;
 
@@ -269,8 +388,17 @@ export async function runAgentLoop(
     dexes: config.dexes,
     strategies: config.strategies,
     slippageSimulation: config.slippageSimulation,
+    fillModel: config.fillModel,
+    maxLeverage: config.maxLeverage,
+    riskLimits: riskLimitsFromConfig(config),
+    regimeGate: regimeGateFromConfig(config),
+    sizing: sizingFromConfig(config),
+    stopLossPct: config.stopLossPct,
+    exitStrategy: config.behavior?.exitStrategy,
+    averageDown: config.behavior?.averageDown === true,
     chain: agentRow.chain ?? null,
     isPaper: agentRow.isPaper ?? null,
+    configVersionId,
     env,
     db,
     ctx,
@@ -1,17 +1,21 @@
 import { drizzle } from 'drizzle-orm/d1';
 import { AgentBehaviorConfigSchema, AgentConfigSchema } from '@something-in-loop/shared';
+import type { EnsemblePolicy } from '@something-in-loop/shared';
 import { agentDecisions } from '../../db/schema.js';
 import type { Env } from '../../types/env.js';
 import { generateId, nowIso } from '../../lib/utils.js';
 import { checkLlmRateLimit } from '../../lib/global-rate-limiter.js';
 import { resolveAgentPersonaMd } from '../resolve-agent-persona.js';
-import { getTradeDecision } from '../../services/llm-router.js';
+import { getEnsembleTradeDecision, getTeamTradeDecision, getTradeDecision } from '../../services/llm-router.js';
 import { logStructuredError } from '../../lib/agent-errors.js';
 import { createLogger } from '../../lib/logger.js';
 import { PaperEngine } from '../../services/paper-engine.js';
+import { computePositionSizePct, sizingFromConfig } from './position-sizing.js';
+import { consumeLlmCallBudget } from './llm-budget.js';
+import { regimeGateFromConfig } from './regime-gate.js';
 import type { MarketDataItem, RecentDecision } from './types.js';
 import type { CachedAgentRow } from '../trading-agent.js';
-import type { TradeDecisionRequest } from '../../services/llm-router.js';
+import type { EnsembleMember, TeamMembers, TradeDecisionRequest } from '../../services/llm-router.js';
 
 type BuildTradeRequestParams = {
   engine: PaperEngine;
@@ -32,9 +36,9 @@ export function buildBaseTradeRequest(params: BuildTradeRequestParams): {
     const currentPriceData = marketData.find((m) => m.pair === pos.pair);
     const currentPrice = currentPriceData?.priceUsd ?? pos.entryPrice;
     const unrealizedPct =
-      pos.side === 'buy'
+      (pos.side === 'buy'
         ? ((currentPrice - pos.entryPrice) / pos.entryPrice) * 100
-        : ((pos.entryPrice - currentPrice) / pos.entryPrice) * 100;
+        : ((pos.entryPrice - currentPrice) / pos.entryPrice) * 100) * (pos.leverage ?? 1);
     return {
       pair: pos.pair,
       side: pos.side,
@@ -45,9 +49,38 @@ export function buildBaseTradeRequest(params: BuildTradeRequestParams): {
       openedAt: pos.openedAt,
       slPct: config.stopLossPct,
       tpPct: config.takeProfitPct,
+      trailingStopPrice: pos.trailingStop?.stopPrice,
+      leverage: pos.leverage,
+      liquidationPrice: pos.liquidationPrice,
     };
   });
 
+  const pendingOrdersSummary = engine.pendingOrders.map((order) => ({
+    pair: order.pair,
+    side: order.side,
+    type: order.type,
+    triggerPrice: order.triggerPrice,
+    expiresAt: order.expiresAt,
+  }));
+
+  const sizing = config.sizingMode === 'fixed'
+    ? undefined
+    : {
+      mode: config.sizingMode,
+      notes: marketData.map((m) => ({
+        pair: m.pair,
+        note: computePositionSizePct({
+          sizing: sizingFromConfig(config),
+          suggestedPct: null,
+          maxPositionSizePct: config.maxPositionSizePct,
+          priceUsd: m.priceUsd,
+          atr: m.atr,
+          stopLossPct: config.stopLossPct,
+          closedPositions: engine.closedPositions,
+        }).note,
+      })),
+    };
+
   const effectiveBehavior = AgentBehaviorConfigSchema.parse(config.behavior ?? {});
   const minConfidence = effectiveBehavior.confidenceThreshold / 100;
 
@@ -60,6 +93,7 @@ export function buildBaseTradeRequest(params: BuildTradeRequestParams): {
         totalPnlPct: engine.getTotalPnlPct(),
       },
       openPositions: openPositionsSummary,
+      pendingOrders: pendingOrdersSummary,
       marketData,
       lastDecisions: recentDecisions,
       config: {
@@ -68,6 +102,9 @@ export function buildBaseTradeRequest(params: BuildTradeRequestParams): {
         maxOpenPositions: config.maxOpenPositions,
         stopLossPct: config.stopLossPct,
         takeProfitPct: config.takeProfitPct,
+        maxLeverage: config.maxLeverage,
+        sizing,
+        regimeGate: regimeGateFromConfig(config),
       },
       behavior: config.behavior,
       personaMd: resolveAgentPersonaMd({
@@ -91,17 +128,21 @@ type CheckBaseRateLimitParams = {
   ownerAddress: string | null;
   effectiveLlmModel: string;
   marketData: MarketDataItem[];
+  /** agent_config_versions.id the tick runs under; stored on every decision row. */
+  configVersionId?: string | null;
+  /** LLM calls this tick makes (ensemble size, or one per team role); defaults to 1. */
+  calls?: number;
 };
 
 /**
  * Returns true when analysis can continue; false if rate-limited and handled.
  */
 export async function checkBaseRateLimitOrHold(params: CheckBaseRateLimitParams): Promise<boolean> {
-  const { env, db, log, agentId, ownerAddress, effectiveLlmModel, marketData } = params;
+  const { env, db, log, agentId, ownerAddress, effectiveLlmModel, marketData, configVersionId, calls = 1 } = params;
   const rateLimitKey = ownerAddress?.toLowerCase();
   if (!rateLimitKey || !env.RATE_LIMITER) return true;
 
-  const rl = await checkLlmRateLimit(env, rateLimitKey);
+  const rl = await checkLlmRateLimit(env, rateLimitKey, calls);
   if (rl.allowed) return true;
 
   log.warn('llm_rate_limited', {
@@ -118,6 +159,44 @@ export async function checkBaseRateLimitOrHold(params: CheckBaseRateLimitParams)
     llmModel: effectiveLlmModel,
     llmLatencyMs: 0,
     marketDataSnapshot: JSON.stringify(marketData),
+    configVersionId: configVersionId ?? null,
+    createdAt: nowIso(),
+  });
+  return false;
+}
+
+type CheckLlmCallBudgetParams = {
+  ctx: DurableObjectState;
+  db: ReturnType<typeof drizzle>;
+  log: ReturnType<typeof createLogger>;
+  agentId: string;
+  maxLlmCallsPerHour: number;
+  calls: number;
+  effectiveLlmModel: string;
+  marketData: MarketDataItem[];
+  configVersionId?: string | null;
+};
+
+/**
+ * Charge this tick's calls to the agent's hourly budget.
+ * Returns true when analysis can continue; false if over budget and handled.
+ */
+export async function checkLlmCallBudgetOrHold(params: CheckLlmCallBudgetParams): Promise<boolean> {
+  const { ctx, db, log, agentId, maxLlmCallsPerHour, calls, effectiveLlmModel, marketData, configVersionId } = params;
+  const budget = await consumeLlmCallBudget(ctx.storage, { calls, maxPerHour: maxLlmCallsPerHour });
+  if (budget.allowed) return true;
+
+  log.warn('llm_call_budget_exhausted', { used: budget.used, calls, maxLlmCallsPerHour });
+  await db.insert(agentDecisions).values({
+    id: generateId('dec'),
+    agentId,
+    decision: 'hold',
+    confidence: 0,
+    reasoning: `Hourly LLM call budget reached (${budget.used}/${maxLlmCallsPerHour} used, this tick needs ${calls}). Resets in ${Math.ceil((budget.resetAt - Date.now()) / 60_000)}m.`,
+    llmModel: effectiveLlmModel,
+    llmLatencyMs: 0,
+    marketDataSnapshot: JSON.stringify(marketData),
+    configVersionId: configVersionId ?? null,
     createdAt: nowIso(),
   });
   return false;
@@ -136,6 +215,12 @@ type RunBaseSyncDecisionParams = {
   tradeRequest: TradeDecisionRequest;
   marketData: MarketDataItem[];
   temperature: number;
+  /** agent_config_versions.id the tick runs under; stored on every decision row. */
+  configVersionId?: string | null;
+  /** Multi-model consensus; replaces the single-model call when set. */
+  ensemble?: { policy: EnsemblePolicy; members: EnsembleMember[] } | null;
+  /** Analyst → risk officer → executor; replaces the single-model call when set. */
+  team?: TeamMembers | null;
 };
 
 export async function runBaseSyncDecision(
@@ -154,23 +239,30 @@ export async function runBaseSyncDecision(
     tradeRequest,
     marketData,
     temperature,
+    configVersionId,
+    ensemble,
+    team,
   } = params;
 
   const doneLlm = log.time('llm_call', { model: effectiveLlmModel });
   try {
-    const decision = await getTradeDecision(
-      {
-        apiKey: llmApiKey,
-        model: effectiveLlmModel,
-        fallbackModel: effectiveLlmFallback,
-        allowFallback,
-        temperature,
-        timeoutMs: 90_000,
-        provider: llmProvider,
-        debugLogging: env.LOG_LLM_DEBUG === 'true',
-      },
-      tradeRequest,
-    );
+    const decision = ensemble
+      ? await getEnsembleTradeDecision(ensemble.members, tradeRequest, ensemble.policy)
+      : team
+        ? await getTeamTradeDecision(team, tradeRequest)
+        : await getTradeDecision(
+          {
+            apiKey: llmApiKey,
+            model: effectiveLlmModel,
+            fallbackModel: effectiveLlmFallback,
+            allowFallback,
+            temperature,
+            timeoutMs: 90_000,
+            provider: llmProvider,
+            debugLogging: env.LOG_LLM_DEBUG === 'true',
+          },
+          tradeRequest,
+        );
     doneLlm();
     return decision;
   } catch (err) {
@@ -187,6 +279,7 @@ export async function runBaseSyncDecision(
       llmModel: effectiveLlmModel,
       llmLatencyMs: 0,
       marketDataSnapshot: JSON.stringify(marketData),
+      configVersionId: configVersionId ?? null,
       createdAt: nowIso(),
     });
     return null;
@@ -7,8 +7,19 @@ import { createLogger } from '../../lib/logger.js';
 import { getTradeDecision } from '../../services/llm-router.js';
 import { tryExecuteInitiaTick } from '../../services/initia-executor.js';
 import { PaperEngine, type Position } from '../../services/paper-engine.js';
+import { quoteFill, type FillModel } from '../../services/fill-model.js';
+import type { MarketRegime } from '../../services/market-regime.js';
 import { resolveCurrentPriceUsd } from '../../services/price-resolver.js';
+import { emitWebhookEvent, tradeEventData } from '../../services/webhooks.js';
+import { processAlertSignal } from '../../services/alerts.js';
 import type { Env } from '../../types/env.js';
+import { isRestingOrder, resolveOrderExpiry, resolveTrailingStopConfig } from './orders.js';
+import { DEFAULT_REDUCE_PCT, findScalablePosition, scaleInBlockReason } from './position-scaling.js';
+import { computePositionSizePct, computeScaleInSizePct, type PositionSizingConfig } from './position-sizing.js';
+import { evaluateEntryRisk, type PortfolioRiskLimits, type RiskCandidate } from './portfolio-risk.js';
+import { MANAGER_ENTRY_GUARD_KEY, managerGuardVeto, type ManagerEntryGuard } from './manager-guard.js';
+import { regimeGateVeto } from './regime-gate.js';
+import { hourlyClosesByPair, snapshotMarketData } from './market.js';
 import type { MarketDataItem, RecentDecision } from './types.js';
 
 export type ExecuteDecisionParams = {
@@ -24,10 +35,27 @@ export type ExecuteDecisionParams = {
   dexes: string[];
   strategies: string[];
   slippageSimulation: number;
+  /** config.fillModel — 'liquidity' quotes impact from pool TVL and charges DEX fees. */
+  fillModel?: FillModel;
+  /** config.maxLeverage — caps the leverage a buy/sell may request (default 1). */
+  maxLeverage?: number;
+  /** Portfolio exposure/correlation/VaR limits; entries are not risk-checked when omitted. */
+  riskLimits?: PortfolioRiskLimits;
+  /** Entries only execute when the pair's 1h regime is this one; omitted = ungated. */
+  regimeGate?: MarketRegime;
+  /** Entry sizing policy; omitted = the LLM's suggested size. */
+  sizing?: PositionSizingConfig;
+  /** Default trailing-stop distance when exitStrategy is 'trailing'. */
+  stopLossPct: number;
+  exitStrategy?: string;
+  /** behavior.averageDown — allows `add` on a losing position. */
+  averageDown?: boolean;
   /** Agent chain — passed from cached agent row to avoid an extra D1 query. */
   chain?: string | null;
   /** Whether agent is in paper mode — passed from cached agent row to avoid an extra D1 query. */
   isPaper?: boolean | null;
+  /** agent_config_versions.id the decision was made under. */
+  configVersionId?: string | null;
   env: Env;
   db: ReturnType<typeof drizzle>;
   ctx: DurableObjectState;
@@ -35,12 +63,6 @@ export type ExecuteDecisionParams = {
   log: ReturnType<typeof createLogger>;
 };
 
-const SNAPSHOT_MAX_BYTES = 8192;
-function snapshotMarketData(data: unknown): string {
-  const full = JSON.stringify(data);
-  return full.length > SNAPSHOT_MAX_BYTES ? full.slice(0, SNAPSHOT_MAX_BYTES) : full;
-}
-
 function parseInitiaSyncState(raw: string | null): Record<string, unknown> | null {
   if (!raw) return null;
   try {
@@ -66,14 +88,24 @@ export async function executeTradeDecision(
     marketData,
     pairsToFetch,
     recentDecisions,
+    effectiveLlmModel,
     minConfidence,
     maxOpenPositions,
-    maxPositionSizePct,
+    maxPositionSizePct: configMaxPositionSizePct,
     dexes,
     strategies,
     slippageSimulation,
+    fillModel = 'flat',
+    maxLeverage = 1,
+    riskLimits,
+    regimeGate,
+    sizing,
+    stopLossPct,
+    exitStrategy,
+    averageDown = false,
     chain,
     isPaper,
+    configVersionId,
     env,
     db,
     ctx,
@@ -81,15 +113,77 @@ export async function executeTradeDecision(
     log,
   } = params;
 
+  // An agent team's risk officer may cap entries below the configured size.
+  const maxPositionSizePct = decision.riskSizeCapPct !== undefined
+    ? Math.min(configMaxPositionSizePct, decision.riskSizeCapPct)
+    : configMaxPositionSizePct;
   const wantsTrade = decision.action === 'buy' || decision.action === 'sell';
+  const wantsScale = decision.action === 'add' || decision.action === 'reduce';
   const hasCapacity = engine.openPositions.length < maxOpenPositions;
   const meetsConfidence = decision.confidence >= minConfidence;
+  const scaleTarget = wantsScale ? findScalablePosition(engine, decision.targetPair) : undefined;
+  const scaleTargetPrice = scaleTarget ? marketData.find((m) => m.pair === scaleTarget.pair)?.priceUsd ?? 0 : 0;
+  const scaleInBlocked = decision.action === 'add' && scaleTarget && scaleTargetPrice > 0
+    ? scaleInBlockReason(scaleTarget, scaleTargetPrice, averageDown)
+    : null;
+  const leverage = Math.max(1, Math.min(decision.leverage ?? 1, maxLeverage));
+  const entryPair = normalizePairForDex(decision.targetPair ?? pairsToFetch[0]);
+  const entryPairData = marketData.find((m) => m.pair === entryPair);
+  const entrySize = computePositionSizePct({
+    sizing,
+    suggestedPct: decision.suggestedPositionSizePct,
+    maxPositionSizePct,
+    priceUsd: entryPairData?.priceUsd ?? 0,
+    atr: entryPairData?.atr,
+    stopLossPct,
+    leverage,
+    closedPositions: engine.closedPositions,
+  });
+  const addSize = decision.action === 'add' && scaleTarget
+    ? computeScaleInSizePct({
+      sizing,
+      suggestedPct: decision.suggestedPositionSizePct,
+      maxPositionSizePct,
+      priceUsd: scaleTargetPrice,
+      atr: marketData.find((m) => m.pair === scaleTarget.pair)?.atr,
+      stopLossPct,
+      leverage: scaleTarget.leverage ?? 1,
+      closedPositions: engine.closedPositions,
+      balance: engine.balance,
+      positionAmountUsd: scaleTarget.amountUsd,
+    })
+    : null;
+  const managerGuard = await ctx.storage.get<ManagerEntryGuard>(MANAGER_ENTRY_GUARD_KEY);
+  const riskVeto = (riskLimits || managerGuard || regimeGate) && meetsConfidence
+    ? checkEntryRisk(engine, decision, {
+      pair: entryPair,
+      entrySizePct: entrySize.sizePct,
+      addSizePct: addSize?.sizePct ?? 0,
+      hasCapacity,
+      scaleTarget: scaleInBlocked ? undefined : scaleTarget,
+      leverage,
+      marketData,
+      riskLimits,
+      managerGuard,
+      regimeGate,
+    })
+    : null;
 
   let executionNote: string | null = null;
-  if (wantsTrade && !meetsConfidence) {
+  if ((wantsTrade || decision.action === 'add') && !meetsConfidence) {
     executionNote = `Execution: skipped (confidence ${(decision.confidence * 100).toFixed(0)}% < threshold ${(minConfidence * 100).toFixed(0)}%).`;
   } else if (wantsTrade && !hasCapacity) {
     executionNote = `Execution: skipped (already at max open positions: ${engine.openPositions.length}/${maxOpenPositions}).`;
+  } else if (wantsScale && !scaleTarget) {
+    executionNote = `Execution: skipped (no open position${decision.targetPair ? ` on ${decision.targetPair}` : ''} to ${decision.action}).`;
+  } else if (scaleInBlocked) {
+    executionNote = `Execution: skipped (${scaleInBlocked}).`;
+  } else if (wantsTrade && entrySize.sizePct <= 0) {
+    executionNote = `Execution: skipped (sizing: ${entrySize.note}).`;
+  } else if (addSize && addSize.sizePct <= 0) {
+    executionNote = `Execution: skipped (sizing: ${addSize.note}).`;
+  } else if (riskVeto) {
+    executionNote = `Execution: risk veto (${riskVeto}).`;
   }
 
   // Only fetch initiaSyncState from D1 when running an Initia onchain agent.
@@ -121,6 +215,9 @@ export async function executeTradeDecision(
     marketDataSnapshot: snapshotMarketData(marketData),
     llmPromptText: decision.llmPromptText ?? null,
     llmRawResponse: decision.llmRawResponse ?? null,
+    configVersionId: configVersionId ?? null,
+    ensembleVotes: decision.ensembleVotes ? JSON.stringify(decision.ensembleVotes) : null,
+    teamTranscript: decision.teamTranscript ? JSON.stringify(decision.teamTranscript) : null,
     createdAt: nowIso(),
   });
 
@@ -157,16 +254,85 @@ export async function executeTradeDecision(
     tokens_out: decision.tokensOut,
     execution_note: executionNote ?? undefined,
   });
+  if (riskVeto) log.info('risk_veto', { action: decision.action, reason: riskVeto });
+  if (decision.modelUsed !== effectiveLlmModel) {
+    await processAlertSignal(env, {
+      agentId,
+      signal: { type: 'llm_fallback', configuredModel: effectiveLlmModel, modelUsed: decision.modelUsed },
+    });
+  }
   console.log(`[agent-loop] ${agentId}: Decision=${decision.action} confidence=${decision.confidence.toFixed(2)}`);
 
-  if ((decision.action === 'buy' || decision.action === 'sell') && meetsConfidence && hasCapacity) {
-    const targetPairName = normalizePairForDex(decision.targetPair ?? pairsToFetch[0]);
-    const pairData = marketData.find((m) => m.pair === targetPairName);
+  if (wantsTrade && meetsConfidence && hasCapacity && entrySize.sizePct > 0 && !riskVeto) {
+    const targetPairName = entryPair;
+    const pairData = entryPairData;
     if (!pairData || pairData.priceUsd === 0) {
       console.warn(`[agent-loop] ${agentId}: No price data for ${targetPairName}`);
       return;
     }
 
+    const positionSizePct = entrySize.sizePct;
+    const trailingStop = resolveTrailingStopConfig(decision.order, pairData.atr, { exitStrategy, stopLossPct });
+    const dex = dexes[0] ?? 'aerodrome';
+    const fill = quoteFill({
+      model: fillModel,
+      dex,
+      pair: targetPairName,
+      amountUsd: ((engine.balance * positionSizePct) / 100) * leverage,
+      liquidityUsd: pairData.liquidity,
+      flatSlippagePct: slippageSimulation,
+    });
+
+    if (isRestingOrder(decision.order)) {
+      try {
+        const order = engine.placeOrder({
+          agentId,
+          pair: targetPairName,
+          dex,
+          side: decision.action as 'buy' | 'sell',
+          type: decision.order.type as 'limit' | 'stop',
+          triggerPrice: decision.order.triggerPrice,
+          positionSizePct,
+          maxPositionSizePct,
+          confidence: decision.confidence,
+          reasoning: decision.reasoning,
+          strategyUsed: strategies[0] ?? 'combined',
+          slippagePct: fill.slippagePct,
+          feePct: fill.feePct,
+          leverage,
+          trailingStop,
+          expiresAt: resolveOrderExpiry(decision.order, Date.now()),
+        });
+        log.info('order_placed', {
+          pair: targetPairName,
+          side: order.side,
+          type: order.type,
+          trigger_price_usd: order.triggerPrice,
+          quoted_price_usd: pairData.priceUsd,
+          position_size_pct: positionSizePct,
+          expires_at: order.expiresAt,
+        });
+        broadcastAgentEvent(ctx, {
+          type: 'order',
+          event: 'placed',
+          agentId,
+          orderId: order.id,
+          pair: targetPairName,
+          side: order.side,
+          orderType: order.type,
+          triggerPrice: order.triggerPrice,
+          expiresAt: order.expiresAt,
+        });
+        console.log(
+          `[agent-loop] ${agentId}: Placed ${order.type} ${order.side} ${targetPairName} @ $${order.triggerPrice} (now $${pairData.priceUsd})`,
+        );
+      } catch (err) {
+        console.error(`[agent-loop] ${agentId}: Failed to place order:`, err);
+        log.error('order_place_failed', { pair: targetPairName, side: decision.action, error: String(err) });
+      }
+      return;
+    }
+
     // The marketData snapshot may be up to 1h old (KV cache) or up to 5 min
     // frozen inside pendingLlmContext on the queued /receive-decision path.
     // Re-resolve at open-time so entryPrice reflects the true current price.
@@ -184,14 +350,13 @@ export async function executeTradeDecision(
       return;
     }
 
-    const positionSizePct = Math.min(decision.suggestedPositionSizePct ?? 10, maxPositionSizePct);
     const amountUsd = (engine.balance * positionSizePct) / 100;
 
     try {
       const position = engine.openPosition({
         agentId,
         pair: targetPairName,
-        dex: dexes[0] ?? 'aerodrome',
+        dex,
         side: decision.action as 'buy' | 'sell',
         price: entryPriceUsd,
         amountUsd,
@@ -200,7 +365,10 @@ export async function executeTradeDecision(
         confidence: decision.confidence,
         reasoning: decision.reasoning,
         strategyUsed: strategies[0] ?? 'combined',
-        slippagePct: slippageSimulation,
+        slippagePct: fill.slippagePct,
+        feePct: fill.feePct,
+        leverage,
+        trailingStop,
       });
       await ctx.storage.put('pendingTrade', position);
       await persistTrade(db, position);
@@ -212,7 +380,12 @@ export async function executeTradeDecision(
         price_usd: entryPriceUsd,
         quoted_price_usd: pairData.priceUsd,
         position_size_pct: positionSizePct,
+        sizing: entrySize.note,
         confidence: decision.confidence,
+        slippage_pct: fill.slippagePct,
+        fee_pct: fill.feePct,
+        leverage,
+        liquidation_price_usd: position.liquidationPrice,
       });
       executedPaperTrade = true;
       broadcastAgentEvent(ctx, {
@@ -227,10 +400,115 @@ export async function executeTradeDecision(
         openPositions: engine.openPositions.length,
       });
       console.log(`[agent-loop] ${agentId}: Opened ${decision.action} ${targetPairName} $${amountUsd.toFixed(2)} @ $${entryPriceUsd}`);
+      await emitWebhookEvent(env, { type: 'trade.opened', agentId, data: tradeEventData(position) });
     } catch (err) {
       console.error(`[agent-loop] ${agentId}: Failed to open position:`, err);
       log.error('trade_open_failed', { pair: targetPairName, side: decision.action, error: String(err) });
     }
+  } else if (decision.action === 'add' && scaleTarget && addSize && addSize.sizePct > 0 && meetsConfidence && !scaleInBlocked && !riskVeto) {
+    let addPriceUsd = 0;
+    try {
+      addPriceUsd = await resolveCurrentPriceUsd(env, scaleTarget.pair, { bypassCache: true });
+    } catch (err) {
+      console.warn(`[agent-loop] ${agentId}: Fresh price resolve threw for ${scaleTarget.pair}:`, err);
+    }
+    if (addPriceUsd <= 0) {
+      log.info('trade_add_skipped', { pair: scaleTarget.pair, reason: 'fresh_price_unavailable' });
+      return;
+    }
+    const addBlocked = scaleInBlockReason(scaleTarget, addPriceUsd, averageDown);
+    if (addBlocked) {
+      log.info('trade_add_skipped', { pair: scaleTarget.pair, reason: addBlocked });
+      return;
+    }
+
+    const amountUsd = (engine.balance * addSize.sizePct) / 100;
+    const fill = quoteFill({
+      model: fillModel,
+      dex: scaleTarget.dex,
+      pair: scaleTarget.pair,
+      amountUsd: amountUsd * (scaleTarget.leverage ?? 1),
+      liquidityUsd: marketData.find((m) => m.pair === scaleTarget.pair)?.liquidity,
+      flatSlippagePct: slippageSimulation,
+    });
+    try {
+      const lot = engine.addToPosition(scaleTarget.id, {
+        price: addPriceUsd,
+        amountUsd,
+        maxPositionSizePct,
+        confidence: decision.confidence,
+        reasoning: decision.reasoning,
+        slippagePct: fill.slippagePct,
+        feePct: fill.feePct,
+      });
+      await ctx.storage.put('pendingTrade', lot);
+      await persistTrade(db, lot);
+      await persistTrade(db, scaleTarget);
+      await ctx.storage.delete('pendingTrade');
+      log.info('trade_add', {
+        pair: scaleTarget.pair,
+        side: scaleTarget.side,
+        amount_usd: amountUsd,
+        price_usd: addPriceUsd,
+        avg_entry_usd: scaleTarget.entryPrice,
+        position_amount_usd: scaleTarget.amountUsd,
+      });
+      executedPaperTrade = true;
+      broadcastAgentEvent(ctx, {
+        type: 'trade',
+        event: 'add',
+        agentId,
+        pair: scaleTarget.pair,
+        side: scaleTarget.side,
+        amountUsd,
+        priceUsd: addPriceUsd,
+        balance: engine.balance,
+        openPositions: engine.openPositions.length,
+      });
+      console.log(`[agent-loop] ${agentId}: Added $${amountUsd.toFixed(2)} to ${scaleTarget.pair} @ $${addPriceUsd}`);
+    } catch (err) {
+      console.error(`[agent-loop] ${agentId}: Failed to add to position:`, err);
+      log.error('trade_add_failed', { pair: scaleTarget.pair, error: String(err) });
+    }
+  } else if (decision.action === 'reduce' && scaleTarget && scaleTargetPrice > 0) {
+    const reducePct = decision.reducePct ?? DEFAULT_REDUCE_PCT;
+    try {
+      const closed = engine.reducePosition(scaleTarget.id, {
+        pct: reducePct,
+        price: scaleTargetPrice,
+        confidence: decision.confidence,
+        closeReason: 'llm_decision',
+      });
+      await ctx.storage.put('pendingTrade', closed);
+      await persistTrade(db, closed);
+      if (closed.id !== scaleTarget.id) await persistTrade(db, scaleTarget);
+      await ctx.storage.delete('pendingTrade');
+      log.info('trade_reduce', {
+        pair: scaleTarget.pair,
+        side: scaleTarget.side,
+        reduce_pct: reducePct,
+        pnl_pct: closed.pnlPct,
+        pnl_usd: closed.pnlUsd,
+        price_usd: scaleTargetPrice,
+      });
+      executedPaperTrade = true;
+      broadcastAgentEvent(ctx, {
+        type: 'trade',
+        event: 'reduce',
+        agentId,
+        pair: scaleTarget.pair,
+        side: scaleTarget.side,
+        pnlPct: closed.pnlPct,
+        pnlUsd: closed.pnlUsd,
+        priceUsd: scaleTargetPrice,
+        balance: engine.balance,
+        openPositions: engine.openPositions.length,
+      });
+      console.log(`[agent-loop] ${agentId}: Reduced ${scaleTarget.pair} by ${reducePct}% PnL=${closed.pnlPct?.toFixed(2)}%`);
+      await emitWebhookEvent(env, { type: 'trade.closed', agentId, data: tradeEventData(closed) });
+    } catch (err) {
+      console.warn(`[agent-loop] ${agentId}: Failed to reduce position:`, err);
+    }
   } else if (decision.action === 'close' && engine.openPositions.length > 0) {
     let closedAnyPosition = false;
     for (const position of engine.openPositions) {
@@ -267,6 +545,7 @@ export async function executeTradeDecision(
           openPositions: engine.openPositions.length,
         });
         console.log(`[agent-loop] ${agentId}: Closed ${position.pair} PnL=${closed.pnlPct?.toFixed(2)}%`);
+        await emitWebhookEvent(env, { type: 'trade.closed', agentId, data: tradeEventData(closed) });
         closedAnyPosition = true;
       } catch (err) {
         console.warn(`[agent-loop] ${agentId}: Failed to close position:`, err);
@@ -297,6 +576,45 @@ export async function executeTradeDecision(
   }
 }
 
+/**
+ * Portfolio risk veto for a buy/sell entry or an add, or null when the
+ * decision opens nothing (or passes). Sized the same way execution sizes it.
+ * The manager's entry guard and the regime gate are checked before the
+ * agent's own limits.
+ */
+function checkEntryRisk(
+  engine: PaperEngine,
+  decision: Awaited<ReturnType<typeof getTradeDecision>>,
+  params: {
+    pair: string;
+    entrySizePct: number;
+    addSizePct: number;
+    hasCapacity: boolean;
+    scaleTarget: Position | undefined;
+    leverage: number;
+    marketData: MarketDataItem[];
+    riskLimits?: PortfolioRiskLimits;
+    managerGuard?: ManagerEntryGuard;
+    regimeGate?: MarketRegime;
+  },
+): string | null {
+  let candidate: RiskCandidate;
+  if ((decision.action === 'buy' || decision.action === 'sell') && params.hasCapacity && params.entrySizePct > 0) {
+    const marginUsd = (engine.balance * params.entrySizePct) / 100;
+    candidate = { pair: params.pair, side: decision.action, notionalUsd: marginUsd * params.leverage };
+  } else if (decision.action === 'add' && params.scaleTarget && params.addSizePct > 0) {
+    const target = params.scaleTarget;
+    const marginUsd = (engine.balance * params.addSizePct) / 100;
+    candidate = { pair: target.pair, side: target.side, notionalUsd: marginUsd * (target.leverage ?? 1) };
+  } else {
+    return null;
+  }
+  const guardVeto = managerGuardVeto(params.managerGuard, candidate)
+    ?? regimeGateVeto(params.regimeGate, candidate.pair, params.marketData);
+  if (guardVeto || !params.riskLimits) return guardVeto;
+  return evaluateEntryRisk(engine, candidate, hourlyClosesByPair(params.marketData), params.riskLimits);
+}
+
 /** Upsert a trade record to D1 */
 export async function persistTrade(db: ReturnType<typeof drizzle>, position: Position): Promise<void> {
   await db
@@ -317,14 +635,26 @@ export async function persistTrade(db: ReturnType<typeof drizzle>, position: Pos
       reasoning: position.reasoning,
       strategyUsed: position.strategyUsed,
       slippageSimulated: position.slippageSimulated,
+      feeUsd: position.feeUsd ?? null,
+      leverage: position.leverage ?? null,
+      liquidationPrice: position.liquidationPrice ?? null,
+      fundingUsd: position.fundingUsd ?? null,
       status: position.status,
       closeReason: position.closeReason ?? null,
+      parentTradeId: position.parentPositionId ?? null,
+      fillType: position.fillType ?? null,
       openedAt: position.openedAt,
       closedAt: position.closedAt ?? null,
     })
     .onConflictDoUpdate({
       target: trades.id,
       set: {
+        // Scaling in/out rewrites the parent position's size and average entry.
+        entryPrice: position.entryPrice,
+        amountUsd: position.amountUsd,
+        feeUsd: position.feeUsd ?? null,
+        liquidationPrice: position.liquidationPrice ?? null,
+        fundingUsd: position.fundingUsd ?? null,
         exitPrice: position.exitPrice ?? null,
         pnlPct: position.pnlPct ?? null,
         pnlUsd: position.pnlUsd ?? null,
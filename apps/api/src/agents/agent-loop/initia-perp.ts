@@ -13,12 +13,8 @@ import type { Env } from '../../types/env.js';
 import { normalizePairForDex } from '../../lib/pairs.js';
 import type { MarketDataItem, RecentDecision } from './types.js';
 import { persistTrade } from './execution.js';
+import { snapshotMarketData } from './market.js';
 
-const SNAPSHOT_MAX_BYTES = 8192;
-function snapshotMarketData(data: unknown): string {
-  const full = JSON.stringify(data);
-  return full.length > SNAPSHOT_MAX_BYTES ? full.slice(0, SNAPSHOT_MAX_BYTES) : full;
-}
 import { createLogger } from '../../lib/logger.js';
 import { AgentConfigSchema } from '@something-in-loop/shared';
 import { logStructuredError } from '../../lib/agent-errors.js';
@@ -42,6 +38,8 @@ export type RunInitiaPerpPathParams = {
   allowFallback: boolean;
   llmProvider: 'openrouter' | 'anthropic';
   llmApiKey: string;
+  /** agent_config_versions.id the tick runs under; stored on every decision row. */
+  configVersionId?: string | null;
 };
 
 export async function runInitiaPerpPath(params: RunInitiaPerpPathParams): Promise<void> {
@@ -63,6 +61,7 @@ export async function runInitiaPerpPath(params: RunInitiaPerpPathParams): Promis
     allowFallback,
     llmProvider,
     llmApiKey,
+    configVersionId,
   } = params;
 
   let initiaSyncState: Record<string, unknown> | null = null;
@@ -140,6 +139,7 @@ export async function runInitiaPerpPath(params: RunInitiaPerpPathParams): Promis
       llmModel: effectiveLlmModel,
       llmLatencyMs: 0,
       marketDataSnapshot: snapshotMarketData(marketData),
+      configVersionId: configVersionId ?? null,
       createdAt: nowIso(),
     });
     return;
@@ -250,6 +250,7 @@ export async function runInitiaPerpPath(params: RunInitiaPerpPathParams): Promis
     marketDataSnapshot: JSON.stringify(marketData),
     llmPromptText: perpDecision.llmPromptText ?? null,
     llmRawResponse: perpDecision.llmRawResponse ?? null,
+    configVersionId: configVersionId ?? null,
     createdAt: nowIso(),
   });
 
@@ -0,0 +1,41 @@
+/**
+ * Per-agent LLM call budget (config.maxLlmCallsPerHour), counted in DO storage
+ * over clock-aligned hourly windows. A tick charges one call per model it asks,
+ * so an ensemble tick costs as many calls as it has members and a team tick
+ * one per role.
+ */
+
+const LLM_CALL_BUDGET_KEY = 'llmCallBudget';
+const HOUR_MS = 3_600_000;
+
+export type LlmCallWindow = { windowStart: number; count: number };
+
+export type LlmCallBudgetResult = {
+  allowed: boolean;
+  /** Calls charged in the current window, including this tick's when allowed. */
+  used: number;
+  resetAt: number;
+};
+
+/** Pure window arithmetic: the updated window and whether `calls` more fit under `maxPerHour`. */
+export function chargeLlmCallWindow(
+  stored: LlmCallWindow | undefined,
+  calls: number,
+  maxPerHour: number,
+  nowMs: number,
+): { window: LlmCallWindow; allowed: boolean } {
+  const windowStart = Math.floor(nowMs / HOUR_MS) * HOUR_MS;
+  const current = stored && stored.windowStart === windowStart ? stored : { windowStart, count: 0 };
+  if (current.count + calls > maxPerHour) return { window: current, allowed: false };
+  return { window: { windowStart, count: current.count + calls }, allowed: true };
+}
+
+export async function consumeLlmCallBudget(
+  storage: DurableObjectStorage,
+  params: { calls: number; maxPerHour: number; nowMs?: number },
+): Promise<LlmCallBudgetResult> {
+  const stored = await storage.get<LlmCallWindow>(LLM_CALL_BUDGET_KEY);
+  const { window, allowed } = chargeLlmCallWindow(stored, params.calls, params.maxPerHour, params.nowMs ?? Date.now());
+  if (allowed) await storage.put(LLM_CALL_BUDGET_KEY, window);
+  return { allowed, used: window.count, resetAt: window.windowStart + HOUR_MS };
+}
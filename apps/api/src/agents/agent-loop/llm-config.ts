@@ -3,7 +3,12 @@ import { eq } from 'drizzle-orm';
 import type { Env } from '../../types/env.js';
 import { agentDecisions, users } from '../../db/schema.js';
 import { resolveStoredOpenRouterKey } from '../../lib/openrouter-key.js';
+import { checkLlmRateLimit } from '../../lib/global-rate-limiter.js';
+import { consumeTradingAgentLlmBudgetDo } from '../../lib/do-clients.js';
 import { generateId, nowIso } from '../../lib/utils.js';
+import type { AgentTeamConfig } from '@something-in-loop/shared';
+import { TEAM_ROLES } from '@something-in-loop/shared';
+import type { EnsembleMember, TeamMembers } from '../../services/llm-router.js';
 import type { CachedAgentRow } from '../trading-agent.js';
 import type { MarketDataItem } from './types.js';
 
@@ -19,6 +24,10 @@ type ResolveLlmCredentialsParams = {
   agentRow: Pick<CachedAgentRow, 'ownerAddress'>;
   effectiveLlmModel: string;
   marketData: MarketDataItem[];
+  /** agent_config_versions.id the tick runs under; stored on every decision row. */
+  configVersionId?: string | null;
+  /** When false, an unavailable provider returns null without logging a hold decision (backtests). */
+  recordHoldDecisions?: boolean;
 };
 
 async function insertHoldDecision(
@@ -27,6 +36,7 @@ async function insertHoldDecision(
     agentId: string;
     effectiveLlmModel: string;
     marketData: MarketDataItem[];
+    configVersionId?: string | null;
     reasoning: string;
   },
 ): Promise<void> {
@@ -39,12 +49,17 @@ async function insertHoldDecision(
     llmModel: params.effectiveLlmModel,
     llmLatencyMs: 0,
     marketDataSnapshot: JSON.stringify(params.marketData),
+    configVersionId: params.configVersionId ?? null,
     createdAt: nowIso(),
   });
 }
 
 export async function resolveLlmCredentials(params: ResolveLlmCredentialsParams): Promise<ResolvedLlmCredentials | null> {
-  const { env, db, agentId, agentRow, effectiveLlmModel, marketData } = params;
+  const { env, db, agentId, agentRow, effectiveLlmModel, marketData, configVersionId, recordHoldDecisions = true } = params;
+  const recordHold = async (reasoning: string): Promise<void> => {
+    if (!recordHoldDecisions) return;
+    await insertHoldDecision(db, { agentId, effectiveLlmModel, marketData, configVersionId, reasoning });
+  };
   const isAnthropicModel = effectiveLlmModel.startsWith('claude-');
   console.log(
     `[agent-loop] ${agentId}: LLM routing - model=${effectiveLlmModel} isAnthropic=${isAnthropicModel} hasAnthropicKey=${!!env.ANTHROPIC_API_KEY}`,
@@ -53,12 +68,7 @@ export async function resolveLlmCredentials(params: ResolveLlmCredentialsParams)
   if (isAnthropicModel) {
     if (!env.ANTHROPIC_API_KEY) {
       console.error(`[agent-loop] ${agentId}: ANTHROPIC_API_KEY is not set. Cannot use Claude model.`);
-      await insertHoldDecision(db, {
-        agentId,
-        effectiveLlmModel,
-        marketData,
-        reasoning: 'ANTHROPIC_API_KEY is not configured. Add it to .dev.vars (local) or Cloudflare secrets (production).',
-      });
+      await recordHold('ANTHROPIC_API_KEY is not configured. Add it to .dev.vars (local) or Cloudflare secrets (production).');
       return null;
     }
 
@@ -67,12 +77,7 @@ export async function resolveLlmCredentials(params: ResolveLlmCredentialsParams)
       const [ownerUser] = await db.select({ role: users.role }).from(users).where(eq(users.walletAddress, ownerAddress));
       if (ownerUser?.role !== 'tester') {
         console.warn(`[agent-loop] ${agentId}: owner ${ownerAddress} is not a tester. Anthropic models restricted.`);
-        await insertHoldDecision(db, {
-          agentId,
-          effectiveLlmModel,
-          marketData,
-          reasoning: 'Claude models are restricted to tester accounts. Contact the admin to enable access.',
-        });
+        await recordHold('Claude models are restricted to tester accounts. Contact the admin to enable access.');
         return null;
       }
     }
@@ -87,13 +92,9 @@ export async function resolveLlmCredentials(params: ResolveLlmCredentialsParams)
     console.error(
       `[agent-loop] ${agentId}: OPENROUTER_API_KEY is not set. Cannot call LLM. Add it to .dev.vars (local) or Cloudflare secrets (production).`,
     );
-    await insertHoldDecision(db, {
-      agentId,
-      effectiveLlmModel,
-      marketData,
-      reasoning:
-        'OPENROUTER_API_KEY is not configured. Please set it in .dev.vars (local) or Cloudflare secrets (production) - get a free key at openrouter.ai',
-    });
+    await recordHold(
+      'OPENROUTER_API_KEY is not configured. Please set it in .dev.vars (local) or Cloudflare secrets (production) - get a free key at openrouter.ai',
+    );
     return null;
   }
 
@@ -123,3 +124,136 @@ export async function resolveLlmCredentials(params: ResolveLlmCredentialsParams)
     llmProvider: 'openrouter',
   };
 }
+
+type ResolveEnsembleMembersParams = Omit<ResolveLlmCredentialsParams, 'effectiveLlmModel' | 'recordHoldDecisions'> & {
+  models: string[];
+  /** Ensemble label recorded on the hold decision when no member can run. */
+  effectiveLlmModel: string;
+  temperature: number;
+};
+
+/**
+ * Resolve credentials per ensemble model. Members that cannot run this tick are
+ * kept as unavailable votes; returns null (after logging a hold) when none can.
+ */
+export async function resolveEnsembleMembers(params: ResolveEnsembleMembersParams): Promise<EnsembleMember[] | null> {
+  const { env, db, agentId, agentRow, models, effectiveLlmModel, marketData, configVersionId, temperature } = params;
+  const members: EnsembleMember[] = [];
+  for (const model of models) {
+    const credentials = await resolveLlmCredentials({
+      env,
+      db,
+      agentId,
+      agentRow,
+      effectiveLlmModel: model,
+      marketData,
+      recordHoldDecisions: false,
+    });
+    if (!credentials) {
+      members.push({ model, unavailable: 'No API key or access for this model' });
+      continue;
+    }
+    members.push({
+      model,
+      config: {
+        apiKey: credentials.llmApiKey,
+        model,
+        allowFallback: false,
+        temperature,
+        timeoutMs: 90_000,
+        provider: credentials.llmProvider,
+        debugLogging: env.LOG_LLM_DEBUG === 'true',
+      },
+    });
+  }
+
+  if (members.some((member) => 'config' in member)) return members;
+  await insertHoldDecision(db, {
+    agentId,
+    effectiveLlmModel,
+    marketData,
+    configVersionId,
+    reasoning: `No ensemble model can run: ${models.join(', ')} lack an API key or access.`,
+  });
+  return null;
+}
+
+type ResolveTeamMembersParams = Omit<ResolveLlmCredentialsParams, 'effectiveLlmModel' | 'recordHoldDecisions'> & {
+  team: AgentTeamConfig;
+  /** Model for roles without their own (the agent's llmModel). */
+  defaultModel: string;
+  /** Team label recorded on the hold decision when a role cannot run. */
+  effectiveLlmModel: string;
+  temperature: number;
+};
+
+/**
+ * Resolve credentials per team role. Every role must run, so returns null
+ * (after logging a hold) when any role's model lacks a key or access.
+ */
+export async function resolveTeamMembers(params: ResolveTeamMembersParams): Promise<TeamMembers | null> {
+  const { env, db, agentId, agentRow, team, defaultModel, effectiveLlmModel, marketData, configVersionId, temperature } = params;
+  const members = {} as TeamMembers;
+  for (const role of TEAM_ROLES) {
+    const model = team[role]?.model?.trim() || defaultModel;
+    const credentials = await resolveLlmCredentials({
+      env,
+      db,
+      agentId,
+      agentRow,
+      effectiveLlmModel: model,
+      marketData,
+      recordHoldDecisions: false,
+    });
+    if (!credentials) {
+      await insertHoldDecision(db, {
+        agentId,
+        effectiveLlmModel,
+        marketData,
+        configVersionId,
+        reasoning: `Team ${role} cannot run: ${model} lacks an API key or access.`,
+      });
+      return null;
+    }
+    members[role] = {
+      model,
+      roleMd: team[role]?.roleMd?.trim() || null,
+      config: {
+        apiKey: credentials.llmApiKey,
+        model,
+        allowFallback: false,
+        temperature,
+        timeoutMs: 90_000,
+        provider: credentials.llmProvider,
+        debugLogging: env.LOG_LLM_DEBUG === 'true',
+      },
+    };
+  }
+  return members;
+}
+
+/**
+ * Reserve one LLM call made outside the agent's tick (a decision replay or a
+ * backtest bar) against the owner's global rate limit and the agent's hourly
+ * call budget. Returns why the call cannot be made, or null.
+ */
+export async function reserveAgentLlmCall(
+  env: Env,
+  agentId: string,
+  ownerAddress: string | null,
+  maxLlmCallsPerHour: number,
+): Promise<string | null> {
+  const rateLimitKey = ownerAddress?.toLowerCase();
+  if (rateLimitKey && env.RATE_LIMITER) {
+    const rl = await checkLlmRateLimit(env, rateLimitKey);
+    if (!rl.allowed) {
+      const resetAt = rl.limitedBy === 'minute' ? rl.minuteResetAt : rl.hourResetAt;
+      return `LLM rate limit reached (${rl.limitedBy} limit). Resets in ${Math.ceil(resetAt - Date.now() / 1000)}s.`;
+    }
+  }
+  const budget = await consumeTradingAgentLlmBudgetDo(env, agentId, { calls: 1, maxPerHour: maxLlmCallsPerHour });
+  if (!budget.allowed) {
+    return `Hourly LLM call budget reached (${budget.used}/${maxLlmCallsPerHour} used). Resets in ${Math.ceil((budget.resetAt - Date.now()) / 60_000)}m.`;
+  }
+  return null;
+}
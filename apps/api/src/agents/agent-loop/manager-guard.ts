@@ -0,0 +1,29 @@
+import { exposureKeys } from './portfolio-risk.js';
+
+/** DO storage key for the entry block pushed by the agent's manager. */
+export const MANAGER_ENTRY_GUARD_KEY = 'managerEntryGuard';
+
+/**
+ * Exposures the manager's risk guard has closed to new entries because the
+ * managed agents together already hold maxCorrelatedPositions in them.
+ */
+export type ManagerEntryGuard = {
+  managerId: string;
+  maxCorrelatedPositions: number;
+  /** `ASSET:long|short` keys with the number of open positions across the managed agents. */
+  blocked: Array<{ exposure: string; positions: number }>;
+  updatedAt: string;
+};
+
+/** Why the manager guard refuses an entry on `pair`/`side`, or null when it is allowed. */
+export function managerGuardVeto(
+  guard: ManagerEntryGuard | null | undefined,
+  candidate: { pair: string; side: 'buy' | 'sell' },
+): string | null {
+  if (!guard || guard.blocked.length === 0) return null;
+  const keys = new Set(exposureKeys(candidate.pair, candidate.side));
+  const hit = guard.blocked.find((b) => keys.has(b.exposure));
+  if (!hit) return null;
+  const [asset, direction] = hit.exposure.split(':');
+  return `manager risk guard: ${hit.positions} ${direction} ${asset} positions open across managed agents (max ${guard.maxCorrelatedPositions})`;
+}
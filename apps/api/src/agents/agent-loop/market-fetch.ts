@@ -13,7 +13,12 @@ import {
   resolveDemoMarketContextForPair,
   selectSaneSpotPriceUsd,
 } from '../../services/coingecko-price.js';
-import { combineSignals, computeIndicators, evaluateSignals } from '../../services/indicators.js';
+import { INDICATOR_HISTORY_BARS } from '@something-in-loop/shared';
+import type { CustomRule, IndicatorPeriods } from '@something-in-loop/shared';
+import { combineSignals, computeIndicators, dropUnlistedOhlcvSignals, evaluateSignals } from '../../services/indicators.js';
+import type { IndicatorBar } from '../../services/indicators.js';
+import type { CustomRuleContext } from '../../services/custom-rules.js';
+import { classifyPairRegimes } from '../../services/market-regime.js';
 import { classifyApiError, logStructuredError } from '../../lib/agent-errors.js';
 import { createLogger } from '../../lib/logger.js';
 import type { MarketDataItem } from './types.js';
@@ -43,11 +48,14 @@ function poolMatchesPair(poolName: string, pairName: string): boolean {
 }
 
 /** Build a human-readable indicator summary string from computed indicator set. */
-function buildIndicatorText(
+export function buildIndicatorText(
   indicators: ReturnType<typeof computeIndicators> | null,
   currentPrice: number,
   noDataMsg: string,
   includeSignalVerdict: boolean,
+  customRules?: CustomRuleContext,
+  /** The agent's strategies; OHLCV-indicator signals join the verdict only when listed. */
+  strategies?: readonly string[],
 ): string {
   if (!indicators) return noDataMsg;
   const lastRsi = indicators.rsi?.at(-1);
@@ -55,6 +63,12 @@ function buildIndicatorText(
   const lastEma21 = indicators.ema21?.at(-1);
   const lastMacd = indicators.macd?.at(-1);
   const lastBb = indicators.bollingerBands?.at(-1);
+  const lastAtr = indicators.atr?.at(-1);
+  const lastStoch = indicators.stochastic?.at(-1);
+  const lastAdx = indicators.adx?.at(-1);
+  const lastVwap = indicators.vwap?.at(-1);
+  const lastKeltner = indicators.keltner?.at(-1);
+  const lastIchimoku = indicators.ichimoku?.at(-1);
   const parts: string[] = [];
 
   if (lastRsi !== undefined) {
@@ -77,8 +91,42 @@ function buildIndicatorText(
       parts.push(`Bollinger %B: ${pb.toFixed(2)} (${bbLabel})`);
     }
   }
+  if (lastAtr !== undefined && currentPrice > 0) {
+    parts.push(`ATR: ${lastAtr.toFixed(4)} (${((lastAtr / currentPrice) * 100).toFixed(2)}% of price)`);
+  }
+  if (lastStoch !== undefined) {
+    const stochLabel = lastStoch.k < 20 ? 'oversold' : lastStoch.k > 80 ? 'overbought' : 'neutral';
+    parts.push(`Stochastic %K/%D: ${lastStoch.k.toFixed(1)} / ${lastStoch.d.toFixed(1)} (${stochLabel})`);
+  }
+  if (lastAdx !== undefined) {
+    const strength = lastAdx.adx >= 25 ? 'trending' : 'ranging';
+    const direction = lastAdx.pdi > lastAdx.mdi ? 'bullish' : 'bearish';
+    parts.push(`ADX: ${lastAdx.adx.toFixed(1)} (${strength}, ${direction} +DI ${lastAdx.pdi.toFixed(1)} / -DI ${lastAdx.mdi.toFixed(1)})`);
+  }
+  if (lastVwap !== undefined && lastVwap > 0) {
+    const dev = ((currentPrice - lastVwap) / lastVwap) * 100;
+    parts.push(`VWAP: ${lastVwap.toFixed(4)} (price ${dev >= 0 ? '+' : ''}${dev.toFixed(2)}%)`);
+  }
+  if (indicators.obv && indicators.obv.length >= 10) {
+    const obvNow = indicators.obv[indicators.obv.length - 1];
+    const obvThen = indicators.obv[indicators.obv.length - 10];
+    parts.push(`OBV: ${obvNow >= obvThen ? 'rising' : 'falling'} over 10 bars`);
+  }
+  if (lastKeltner !== undefined) {
+    const kcLabel = currentPrice > lastKeltner.upper ? 'above upper band' : currentPrice < lastKeltner.lower ? 'below lower band' : 'inside channel';
+    parts.push(`Keltner: ${kcLabel} (${lastKeltner.lower.toFixed(4)} - ${lastKeltner.upper.toFixed(4)})`);
+  }
+  if (lastIchimoku !== undefined) {
+    const cloudTop = Math.max(lastIchimoku.spanA, lastIchimoku.spanB);
+    const cloudBottom = Math.min(lastIchimoku.spanA, lastIchimoku.spanB);
+    const cloudLabel = currentPrice > cloudTop ? 'above cloud' : currentPrice < cloudBottom ? 'below cloud' : 'inside cloud';
+    parts.push(`Ichimoku: ${cloudLabel}, conversion ${lastIchimoku.conversion > lastIchimoku.base ? '>' : '<='} base`);
+  }
   if (includeSignalVerdict) {
-    const signals = evaluateSignals(indicators, currentPrice);
+    const signals = dropUnlistedOhlcvSignals(evaluateSignals(indicators, currentPrice, customRules), strategies);
+    for (const signal of signals.filter((s) => s.strategy.startsWith('custom:'))) {
+      parts.push(`Custom rule ${signal.strategy.slice('custom:'.length)}: ${signal.signal === 'hold' ? signal.reason : `${signal.signal.toUpperCase()} — ${signal.reason}`}`);
+    }
     const combined = combineSignals(signals);
     parts.push(
       `Signal verdict: ${combined.signal.toUpperCase()} (${(combined.confidence * 100).toFixed(0)}% conf) - ${combined.reason}`,
@@ -95,8 +143,11 @@ export async function fetchOnePair(params: {
   geckoSvc: ReturnType<typeof createGeckoTerminalService>;
   dexSvc: ReturnType<typeof createDexDataService>;
   log: ReturnType<typeof createLogger>;
+  indicatorPeriods?: Partial<IndicatorPeriods>;
+  customRules?: CustomRule[];
+  strategies?: readonly string[];
 }): Promise<MarketDataItem | null> {
-  const { env, pairName, agentId, geckoSvc, dexSvc, log } = params;
+  const { env, pairName, agentId, geckoSvc, dexSvc, log, indicatorPeriods, customRules = [], strategies } = params;
   const query = pairToSearchQuery(pairName);
   const skipDexDiscovery = hasIndexedSpotPriceProvider(pairName);
   const demoSpot = resolveDemoFallbackSpotUsdForPair(pairName);
@@ -107,6 +158,9 @@ export async function fetchOnePair(params: {
   let liquidity: number | undefined;
   let prices: number[] = [];
   let dailyPrices: number[] = [];
+  /** Full candles when the pool OHLCV is available; fallback sources only give closes. */
+  let hourlyBars: IndicatorBar[] | null = null;
+  let dailyBars: IndicatorBar[] | null = null;
   let coinGeckoSpot = 0;
   let coinPaprikaSpot = 0;
 
@@ -134,17 +188,19 @@ export async function fetchOnePair(params: {
         );
 
         const [hourlyResult, dailyResult] = await Promise.allSettled([
-          geckoSvc.getPoolPriceSeries(pool.address, 48, 'hour'),
-          geckoSvc.getPoolPriceSeries(pool.address, 30, 'day'),
+          geckoSvc.getPoolCandles(pool.address, INDICATOR_HISTORY_BARS, 'hour'),
+          geckoSvc.getPoolCandles(pool.address, 30, 'day'),
         ]);
         if (hourlyResult.status === 'fulfilled') {
-          prices = hourlyResult.value;
+          hourlyBars = hourlyResult.value;
+          prices = hourlyBars.map((bar) => bar.c);
           console.log(`[agent-loop] ${agentId}: Got ${prices.length} hourly candles`);
         } else {
           logStructuredError('agent-loop', agentId, classifyApiError(hourlyResult.reason, { pair: pairName, source: 'gecko-ohlcv-hourly' }));
         }
         if (dailyResult.status === 'fulfilled') {
-          dailyPrices = dailyResult.value;
+          dailyBars = dailyResult.value;
+          dailyPrices = dailyBars.map((bar) => bar.c);
           console.log(`[agent-loop] ${agentId}: Got ${dailyPrices.length} daily candles`);
         } else {
           logStructuredError('agent-loop', agentId, classifyApiError(dailyResult.reason, { pair: pairName, source: 'gecko-ohlcv-daily' }));
@@ -335,12 +391,17 @@ export async function fetchOnePair(params: {
   }
 
   const doneIndicators = log.time('indicator_compute', { pair: pairName, candles: prices.length });
-  const indicators = prices.length >= 14 ? computeIndicators(prices) : null;
+  const indicators = prices.length >= 14 ? computeIndicators(hourlyBars ?? prices, indicatorPeriods) : null;
   doneIndicators();
 
-  const indicatorText = buildIndicatorText(indicators, priceUsd, 'No OHLCV data available - indicators skipped', true);
-  const dailyIndicators = dailyPrices.length >= 14 ? computeIndicators(dailyPrices) : null;
+  const indicatorText = buildIndicatorText(indicators, priceUsd, 'No OHLCV data available - indicators skipped', true, {
+    rules: customRules,
+    bars: hourlyBars ?? prices.map((c) => ({ h: c, l: c, c })),
+  }, strategies);
+  const dailyIndicators = dailyPrices.length >= 14 ? computeIndicators(dailyBars ?? dailyPrices, indicatorPeriods) : null;
   const dailyIndicatorText = buildIndicatorText(dailyIndicators, priceUsd, 'No daily OHLCV data - daily trend skipped', false);
+  const atr = indicators?.atr?.at(-1);
+  const regimes = classifyPairRegimes({ '1h': hourlyBars ?? prices, '1d': dailyBars ?? dailyPrices });
 
   return {
     pair: pairName,
@@ -350,7 +411,10 @@ export async function fetchOnePair(params: {
     priceChange,
     volume24h,
     liquidity,
+    atr,
+    hourlyCloses: prices,
     indicatorText,
     dailyIndicatorText,
+    regimes,
   };
 }
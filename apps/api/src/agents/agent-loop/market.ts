@@ -1,5 +1,6 @@
 import { drizzle } from 'drizzle-orm/d1';
 import { desc, eq } from 'drizzle-orm';
+import type { CustomRule, IndicatorPeriods } from '@something-in-loop/shared';
 import type { Env } from '../../types/env.js';
 import { agentDecisions } from '../../db/schema.js';
 import { createDexDataService } from '../../services/dex-data.js';
@@ -8,6 +9,24 @@ import { createLogger } from '../../lib/logger.js';
 import type { MarketDataItem, RecentDecision } from './types.js';
 import { fetchOnePair } from './market-fetch.js';
 
+const SNAPSHOT_MAX_BYTES = 8192;
+
+/** Market data as stored on a decision row, truncated to SNAPSHOT_MAX_BYTES. */
+export function snapshotMarketData(data: unknown): string {
+  // Close series are only needed for portfolio risk maths; keep them out of the stored snapshot.
+  const full = JSON.stringify(data, (key, value) => (key === 'hourlyCloses' ? undefined : value));
+  return full.length > SNAPSHOT_MAX_BYTES ? full.slice(0, SNAPSHOT_MAX_BYTES) : full;
+}
+
+/** Hourly closes per pair, as the portfolio risk checks take them. */
+export function hourlyClosesByPair(marketData: MarketDataItem[]): Map<string, number[]> {
+  const closesByPair = new Map<string, number[]>();
+  for (const item of marketData) {
+    if (item.hourlyCloses?.length) closesByPair.set(item.pair, item.hourlyCloses);
+  }
+  return closesByPair;
+}
+
 export async function fetchAgentMarketContext(params: {
   agentId: string;
   env: Env;
@@ -16,8 +35,11 @@ export async function fetchAgentMarketContext(params: {
   pairsToFetch: string[];
   log: ReturnType<typeof createLogger>;
   bypassCache?: boolean;
+  indicatorPeriods?: Partial<IndicatorPeriods>;
+  customRules?: CustomRule[];
+  strategies?: readonly string[];
 }): Promise<{ marketData: MarketDataItem[]; recentDecisions: RecentDecision[] }> {
-  const { agentId, env, ctx, db, pairsToFetch, log, bypassCache = false } = params;
+  const { agentId, env, ctx, db, pairsToFetch, log, bypassCache = false, indicatorPeriods, customRules, strategies } = params;
   const geckoSvc = createGeckoTerminalService(env.CACHE, { bypassCache });
   const dexSvc = createDexDataService(env.CACHE, { bypassCache });
 
@@ -29,14 +51,14 @@ export async function fetchAgentMarketContext(params: {
   if (cachedRecentDecisions !== undefined) {
     recentDecisions = cachedRecentDecisions;
     pairResults = await Promise.allSettled(
-      pairsToFetch.map((pairName) => fetchOnePair({ env, pairName, agentId, geckoSvc, dexSvc, log })),
+      pairsToFetch.map((pairName) => fetchOnePair({ env, pairName, agentId, geckoSvc, dexSvc, log, indicatorPeriods, customRules, strategies })),
     )
       .then((r) => ({ status: 'fulfilled' as const, value: r }))
       .catch((e) => ({ status: 'rejected' as const, reason: e }));
   } else {
     log.info('recent_decisions_cache_miss', { agentId });
     const [pairResultsRaw, dbDecisions] = await Promise.allSettled([
-      Promise.allSettled(pairsToFetch.map((pairName) => fetchOnePair({ env, pairName, agentId, geckoSvc, dexSvc, log }))),
+      Promise.allSettled(pairsToFetch.map((pairName) => fetchOnePair({ env, pairName, agentId, geckoSvc, dexSvc, log, indicatorPeriods, customRules, strategies }))),
       db
         .select({
           decision: agentDecisions.decision,
@@ -0,0 +1,91 @@
+import type { TradeOrder } from '@something-in-loop/shared';
+import { isOrderTriggered } from '../../services/paper-engine.js';
+import type { PaperEngine, PendingOrder, Position, TrailingStopConfig } from '../../services/paper-engine.js';
+import type { RiskCandidate } from './portfolio-risk.js';
+
+export const DEFAULT_ORDER_TTL_HOURS = 24;
+
+type TrailingDefaults = {
+  /** behavior.exitStrategy — 'trailing' backs the strategy with a % trailing stop when the LLM names none. */
+  exitStrategy?: string;
+  stopLossPct: number;
+};
+
+/**
+ * Pick the trailing stop for a new entry: explicit ATR multiple (when the pair
+ * has an ATR) → explicit % → exitStrategy 'trailing' default at stopLossPct.
+ */
+export function resolveTrailingStopConfig(
+  order: TradeOrder | null | undefined,
+  atr: number | undefined,
+  defaults: TrailingDefaults,
+): TrailingStopConfig | undefined {
+  if (order?.trailingStopAtr && atr && atr > 0) {
+    return { type: 'atr', atrMultiple: order.trailingStopAtr, atr };
+  }
+  if (order?.trailingStopPct) {
+    return { type: 'pct', distancePct: order.trailingStopPct };
+  }
+  if (defaults.exitStrategy === 'trailing' && defaults.stopLossPct > 0) {
+    return { type: 'pct', distancePct: defaults.stopLossPct };
+  }
+  return undefined;
+}
+
+/** Resting-order expiry as an ISO timestamp. */
+export function resolveOrderExpiry(order: TradeOrder | null | undefined, nowMs: number): string {
+  const hours = order?.expiresInHours ?? DEFAULT_ORDER_TTL_HOURS;
+  return new Date(nowMs + hours * 3_600_000).toISOString();
+}
+
+/** True when the decision asks for a resting limit/stop entry instead of a market fill. */
+export function isRestingOrder(order: TradeOrder | null | undefined): order is TradeOrder & { triggerPrice: number } {
+  return (order?.type === 'limit' || order?.type === 'stop') && (order.triggerPrice ?? 0) > 0;
+}
+
+/** The entry a resting order would open if it filled now; sized like PaperEngine.fillOrder. */
+export function pendingOrderCandidate(engine: PaperEngine, order: PendingOrder): RiskCandidate {
+  const marginUsd = (engine.balance * Math.min(order.positionSizePct, order.maxPositionSizePct)) / 100;
+  return { pair: order.pair, side: order.side, notionalUsd: marginUsd * (order.leverage ?? 1) };
+}
+
+export type PendingOrderOutcome = {
+  filled: Position[];
+  expired: PendingOrder[];
+  rejected: Array<{ order: PendingOrder; error: string }>;
+};
+
+/**
+ * Expire stale orders, then fill every order whose trigger is met at the
+ * current price while there is open-position capacity. Orders without a
+ * price this tick, or blocked by capacity, keep resting. A triggered order
+ * `vetoFill` refuses is cancelled and reported as rejected: the entry checks
+ * run when it fills, not only when it was placed.
+ */
+export function processPendingOrders(
+  engine: PaperEngine,
+  priceFor: (pair: string) => number | undefined,
+  maxOpenPositions: number,
+  vetoFill?: (order: PendingOrder) => string | null,
+): PendingOrderOutcome {
+  const outcome: PendingOrderOutcome = { filled: [], expired: engine.expireOrders(), rejected: [] };
+
+  for (const order of engine.pendingOrders) {
+    const price = priceFor(order.pair);
+    if (!price || !isOrderTriggered(order, price)) continue;
+    if (engine.openPositions.length >= maxOpenPositions) continue;
+    const veto = vetoFill?.(order);
+    if (veto) {
+      engine.cancelOrder(order.id);
+      outcome.rejected.push({ order, error: veto });
+      continue;
+    }
+    try {
+      outcome.filled.push(engine.fillOrder(order.id, price));
+    } catch (err) {
+      outcome.rejected.push({ order, error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+
+  return outcome;
+}
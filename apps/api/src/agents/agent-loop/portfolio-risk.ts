@@ -0,0 +1,219 @@
+import type { PaperEngine, Position } from '../../services/paper-engine.js';
+
+/** Stablecoins are the numeraire: exposure to them is not risk. */
+const STABLE_SYMBOLS = new Set(['USD', 'USDC', 'USDBC', 'USDT', 'DAI', 'EURC']);
+const ASSET_ALIASES: Record<string, string> = { ETH: 'WETH' };
+
+/** Confidence level for historical VaR. */
+export const VAR_CONFIDENCE = 0.95;
+/** Fewer aligned returns than this and correlation/VaR are not computed. */
+const MIN_RETURN_SAMPLES = 12;
+
+/** Each limit is enforced only when set. */
+export type PortfolioRiskLimits = {
+  /** Gross exposure (both directions summed) to any single asset, % of equity. */
+  maxAssetGrossExposurePct?: number;
+  /** Net (long minus short) exposure to any single asset, % of equity. */
+  maxAssetNetExposurePct?: number;
+  /** Direction-adjusted return correlation allowed between a new entry and an open position on another pair. */
+  maxPairCorrelation?: number;
+  /** Historical VaR of the portfolio over one bar at VAR_CONFIDENCE, % of equity. */
+  maxPortfolioVarPct?: number;
+};
+
+/** Pick the portfolio limits out of a parsed agent config; undefined when none is set. */
+export function riskLimitsFromConfig(config: PortfolioRiskLimits): PortfolioRiskLimits | undefined {
+  const limits: PortfolioRiskLimits = {
+    maxAssetGrossExposurePct: config.maxAssetGrossExposurePct,
+    maxAssetNetExposurePct: config.maxAssetNetExposurePct,
+    maxPairCorrelation: config.maxPairCorrelation,
+    maxPortfolioVarPct: config.maxPortfolioVarPct,
+  };
+  return Object.values(limits).some((limit) => limit !== undefined) ? limits : undefined;
+}
+
+/** A prospective entry (or scale-in) to check against the limits. */
+export type RiskCandidate = {
+  pair: string;
+  side: 'buy' | 'sell';
+  /** Notional in USD — margin × leverage. */
+  notionalUsd: number;
+};
+
+export type AssetExposure = { asset: string; grossUsd: number; netUsd: number };
+
+type ExposureLeg = Pick<RiskCandidate, 'pair' | 'side' | 'notionalUsd'>;
+
+function pairAssets(pair: string): [string, string] | null {
+  const [base, quote, ...rest] = pair.split('/').map((s) => s.trim().toUpperCase());
+  if (!base || !quote || rest.length > 0) return null;
+  return [ASSET_ALIASES[base] ?? base, ASSET_ALIASES[quote] ?? quote];
+}
+
+function positionLeg(position: Position): ExposureLeg {
+  return { pair: position.pair, side: position.side, notionalUsd: position.amountUsd * (position.leverage ?? 1) };
+}
+
+/**
+ * Gross and net USD exposure per non-stable asset. A long on WETH/USDC is
+ * long WETH; a long on cbBTC/WETH is long cbBTC and short WETH.
+ */
+export function computeAssetExposure(legs: ExposureLeg[]): AssetExposure[] {
+  const byAsset = new Map<string, AssetExposure>();
+  for (const leg of legs) {
+    const assets = pairAssets(leg.pair);
+    if (!assets) continue;
+    const direction = leg.side === 'buy' ? 1 : -1;
+    const signed: Array<[string, number]> = [
+      [assets[0], direction * leg.notionalUsd],
+      [assets[1], -direction * leg.notionalUsd],
+    ];
+    for (const [asset, usd] of signed) {
+      if (STABLE_SYMBOLS.has(asset)) continue;
+      const entry = byAsset.get(asset) ?? { asset, grossUsd: 0, netUsd: 0 };
+      entry.grossUsd += Math.abs(usd);
+      entry.netUsd += usd;
+      byAsset.set(asset, entry);
+    }
+  }
+  return Array.from(byAsset.values());
+}
+
+/**
+ * Directional exposures a position on `pair` takes, as `ASSET:long|short`
+ * keys (stables skipped). Two positions sharing a key move together.
+ */
+export function exposureKeys(pair: string, side: 'buy' | 'sell'): string[] {
+  const assets = pairAssets(pair);
+  if (!assets) return [];
+  const [baseDir, quoteDir] = side === 'buy' ? ['long', 'short'] : ['short', 'long'];
+  return [`${assets[0]}:${baseDir}`, `${assets[1]}:${quoteDir}`].filter(
+    (key) => !STABLE_SYMBOLS.has(key.split(':')[0]),
+  );
+}
+
+/** Simple returns between consecutive closes. */
+export function toReturns(closes: number[]): number[] {
+  const returns: number[] = [];
+  for (let i = 1; i < closes.length; i++) {
+    if (closes[i - 1] > 0) returns.push(closes[i] / closes[i - 1] - 1);
+  }
+  return returns;
+}
+
+/** Pearson correlation over the most recent overlapping returns; null when there is too little data. */
+export function computeReturnCorrelation(a: number[], b: number[]): number | null {
+  const n = Math.min(a.length, b.length);
+  if (n < MIN_RETURN_SAMPLES) return null;
+  const xs = a.slice(-n);
+  const ys = b.slice(-n);
+  const meanX = xs.reduce((sum, v) => sum + v, 0) / n;
+  const meanY = ys.reduce((sum, v) => sum + v, 0) / n;
+  let cov = 0;
+  let varX = 0;
+  let varY = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = xs[i] - meanX;
+    const dy = ys[i] - meanY;
+    cov += dx * dy;
+    varX += dx * dx;
+    varY += dy * dy;
+  }
+  if (varX === 0 || varY === 0) return null;
+  return cov / Math.sqrt(varX * varY);
+}
+
+/**
+ * Historical VaR (USD, positive = loss) of the given legs: replays each past
+ * bar's returns against today's notionals and takes the loss at VAR_CONFIDENCE.
+ * Legs without a return series are left out; null when nothing can be priced.
+ */
+export function computeHistoricalVarUsd(
+  legs: ExposureLeg[],
+  returnsByPair: Map<string, number[]>,
+): number | null {
+  const priced = legs.filter((leg) => (returnsByPair.get(leg.pair)?.length ?? 0) >= MIN_RETURN_SAMPLES);
+  if (priced.length === 0) return null;
+  const n = Math.min(...priced.map((leg) => returnsByPair.get(leg.pair)!.length));
+  const pnl: number[] = [];
+  for (let i = 0; i < n; i++) {
+    let total = 0;
+    for (const leg of priced) {
+      const returns = returnsByPair.get(leg.pair)!;
+      const r = returns[returns.length - n + i];
+      total += (leg.side === 'buy' ? 1 : -1) * leg.notionalUsd * r;
+    }
+    pnl.push(total);
+  }
+  pnl.sort((x, y) => x - y);
+  const index = Math.min(pnl.length - 1, Math.floor((1 - VAR_CONFIDENCE) * pnl.length));
+  return Math.max(0, -pnl[index]);
+}
+
+/**
+ * Why a new entry must be vetoed under the portfolio limits, or null when it
+ * may proceed. Checks per-asset exposure, correlation with open positions on
+ * other pairs, then portfolio VaR including the candidate. Equity marks open
+ * positions to each pair's latest close, so unrealized P&L counts.
+ */
+export function evaluateEntryRisk(
+  engine: PaperEngine,
+  candidate: RiskCandidate,
+  closesByPair: Map<string, number[]>,
+  limits: PortfolioRiskLimits,
+): string | null {
+  const open = engine.openPositions;
+  const marks = new Map<string, number>();
+  for (const [pair, closes] of closesByPair) {
+    const last = closes[closes.length - 1];
+    if (last !== undefined) marks.set(pair, last);
+  }
+  const equityUsd = engine.markToMarket(marks).equity;
+  if (!(equityUsd > 0)) return null;
+  const legs = [...open.map(positionLeg), candidate];
+
+  const candidateAssets: string[] = pairAssets(candidate.pair) ?? [];
+  for (const exposure of computeAssetExposure(legs)) {
+    if (!candidateAssets.includes(exposure.asset)) continue;
+    const grossPct = (exposure.grossUsd / equityUsd) * 100;
+    if (limits.maxAssetGrossExposurePct !== undefined && grossPct > limits.maxAssetGrossExposurePct) {
+      return `gross ${exposure.asset} exposure ${grossPct.toFixed(1)}% of equity would exceed ${limits.maxAssetGrossExposurePct}%`;
+    }
+    const netPct = (Math.abs(exposure.netUsd) / equityUsd) * 100;
+    if (limits.maxAssetNetExposurePct !== undefined && netPct > limits.maxAssetNetExposurePct) {
+      return `net ${exposure.asset} exposure ${netPct.toFixed(1)}% of equity would exceed ${limits.maxAssetNetExposurePct}%`;
+    }
+  }
+
+  const returnsByPair = new Map<string, number[]>();
+  for (const pair of new Set(legs.map((leg) => leg.pair))) {
+    const closes = closesByPair.get(pair);
+    if (closes) returnsByPair.set(pair, toReturns(closes));
+  }
+
+  const candidateReturns = returnsByPair.get(candidate.pair);
+  if (candidateReturns && limits.maxPairCorrelation !== undefined) {
+    for (const position of open) {
+      if (position.pair === candidate.pair) continue;
+      const other = returnsByPair.get(position.pair);
+      const correlation = other ? computeReturnCorrelation(candidateReturns, other) : null;
+      if (correlation === null) continue;
+      const sameDirection = position.side === candidate.side ? 1 : -1;
+      const effective = correlation * sameDirection;
+      if (effective > limits.maxPairCorrelation) {
+        return `return correlation ${effective.toFixed(2)} with open ${position.side} on ${position.pair} exceeds ${limits.maxPairCorrelation}`;
+      }
+    }
+  }
+
+  const maxVarPct = limits.maxPortfolioVarPct;
+  const varUsd = maxVarPct !== undefined ? computeHistoricalVarUsd(legs, returnsByPair) : null;
+  if (maxVarPct !== undefined && varUsd !== null) {
+    const varPct = (varUsd / equityUsd) * 100;
+    if (varPct > maxVarPct) {
+      return `portfolio ${Math.round(VAR_CONFIDENCE * 100)}% VaR ${varPct.toFixed(2)}% of equity would exceed ${maxVarPct}%`;
+    }
+  }
+
+  return null;
+}
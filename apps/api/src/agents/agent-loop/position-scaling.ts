@@ -0,0 +1,29 @@
+import { normalizePairForDex } from '../../lib/pairs.js';
+import type { PaperEngine, Position } from '../../services/paper-engine.js';
+
+export const DEFAULT_REDUCE_PCT = 50;
+
+/** The open position an add/reduce decision targets: targetPair, or the only open position when omitted. */
+export function findScalablePosition(
+  engine: PaperEngine,
+  targetPair: string | null | undefined,
+): Position | undefined {
+  const open = engine.openPositions;
+  if (!targetPair) return open.length === 1 ? open[0] : undefined;
+  const pair = normalizePairForDex(targetPair);
+  return open.find((p) => p.pair === pair);
+}
+
+/**
+ * Why a scale-in must be skipped, or null when it may proceed.
+ * Adding to a position that is under water is averaging down and needs behavior.averageDown.
+ */
+export function scaleInBlockReason(position: Position, currentPrice: number, averageDown: boolean): string | null {
+  const underWater = position.side === 'buy'
+    ? currentPrice < position.entryPrice
+    : currentPrice > position.entryPrice;
+  if (underWater && !averageDown) {
+    return `position on ${position.pair} is losing and averageDown is disabled`;
+  }
+  return null;
+}
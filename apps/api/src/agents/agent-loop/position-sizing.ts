@@ -0,0 +1,132 @@
+import type { SizingMode } from '@something-in-loop/shared';
+import type { Position } from '../../services/paper-engine.js';
+
+export type PositionSizingConfig = {
+  sizingMode: SizingMode;
+  /** volatility: equity % that a one-ATR move of the position should represent. */
+  targetVolatilityPct: number;
+  /** kelly: share of the full Kelly fraction to bet. */
+  kellyFraction: number;
+  /** fixed_risk: equity % lost if the stop loss is hit. */
+  riskPerTradePct: number;
+};
+
+/** Kelly sizing needs this many closed trades; below it entries fall back to the fixed size. */
+export const MIN_KELLY_TRADES = 10;
+const DEFAULT_SUGGESTED_SIZE_PCT = 10;
+
+export type PositionSizeResult = {
+  /** % of balance to commit as margin; 0 means the policy declines the entry. */
+  sizePct: number;
+  /** One-line explanation for logs and the prompt. */
+  note: string;
+};
+
+/** Pick the sizing fields out of a parsed agent config. */
+export function sizingFromConfig(config: PositionSizingConfig): PositionSizingConfig {
+  return {
+    sizingMode: config.sizingMode,
+    targetVolatilityPct: config.targetVolatilityPct,
+    kellyFraction: config.kellyFraction,
+    riskPerTradePct: config.riskPerTradePct,
+  };
+}
+
+/** Full Kelly fraction from closed trades' % returns: W − (1 − W) / (avg win / avg loss). */
+export function computeKellyFraction(closed: Array<Pick<Position, 'pnlPct'>>): number | null {
+  if (closed.length < MIN_KELLY_TRADES) return null;
+  const wins = closed.map((p) => p.pnlPct ?? 0).filter((pnl) => pnl > 0);
+  const losses = closed.map((p) => p.pnlPct ?? 0).filter((pnl) => pnl < 0);
+  const winRate = wins.length / closed.length;
+  if (losses.length === 0) return winRate > 0 ? 1 : null;
+  if (wins.length === 0) return 0;
+  const avgWin = wins.reduce((sum, v) => sum + v, 0) / wins.length;
+  const avgLoss = -losses.reduce((sum, v) => sum + v, 0) / losses.length;
+  return winRate - (1 - winRate) / (avgWin / avgLoss);
+}
+
+/**
+ * Entry size under the agent's sizing policy, always capped at maxPositionSizePct.
+ * `fixed` uses the LLM's suggestion; the other modes ignore it and fall back to
+ * it only when their inputs (ATR, trade history) are missing.
+ */
+export function computePositionSizePct(params: {
+  /** Omitted (e.g. a context queued before sizing modes existed) = fixed. */
+  sizing?: PositionSizingConfig;
+  suggestedPct: number | null | undefined;
+  maxPositionSizePct: number;
+  priceUsd: number;
+  atr?: number;
+  stopLossPct: number;
+  leverage?: number;
+  closedPositions: Array<Pick<Position, 'pnlPct' | 'status'>>;
+}): PositionSizeResult {
+  const { sizing, maxPositionSizePct } = params;
+  const leverage = params.leverage ?? 1;
+  const cap = (pct: number) => Math.max(0, Math.min(pct, maxPositionSizePct));
+  const fixedPct = cap(params.suggestedPct ?? DEFAULT_SUGGESTED_SIZE_PCT);
+  const fallback = (why: string): PositionSizeResult => ({
+    sizePct: fixedPct,
+    note: `${why}; using suggested size ${fixedPct.toFixed(1)}%`,
+  });
+
+  if (!sizing) return { sizePct: fixedPct, note: `suggested size ${fixedPct.toFixed(1)}%` };
+
+  switch (sizing.sizingMode) {
+    case 'volatility': {
+      if (!params.atr || !(params.priceUsd > 0)) return fallback('volatility sizing: no ATR');
+      const atrPct = (params.atr / params.priceUsd) * 100;
+      const sizePct = cap((sizing.targetVolatilityPct / (atrPct * leverage)) * 100);
+      return {
+        sizePct,
+        note: `volatility target ${sizing.targetVolatilityPct}% of equity per ATR; ATR ${atrPct.toFixed(2)}% → ${sizePct.toFixed(1)}%`,
+      };
+    }
+    case 'kelly': {
+      const closed = params.closedPositions.filter((p) => p.status === 'closed');
+      const kelly = computeKellyFraction(closed);
+      if (kelly === null) {
+        return fallback(`Kelly sizing: ${closed.length}/${MIN_KELLY_TRADES} closed trades`);
+      }
+      const sizePct = cap(kelly * sizing.kellyFraction * 100);
+      return {
+        sizePct,
+        note: kelly <= 0
+          ? `Kelly ${(kelly * 100).toFixed(1)}% from ${closed.length} trades — no edge, entry declined`
+          : `${sizing.kellyFraction}× Kelly (${(kelly * 100).toFixed(1)}% from ${closed.length} trades) → ${sizePct.toFixed(1)}%`,
+      };
+    }
+    case 'fixed_risk': {
+      const sizePct = cap((sizing.riskPerTradePct / (params.stopLossPct * leverage)) * 100);
+      return {
+        sizePct,
+        note: `risk ${sizing.riskPerTradePct}% of equity at the ${params.stopLossPct}% stop → ${sizePct.toFixed(1)}%`,
+      };
+    }
+    default:
+      return { sizePct: fixedPct, note: `suggested size ${fixedPct.toFixed(1)}%` };
+  }
+}
+
+/**
+ * Scale-in size under the same policy as a new entry. `fixed` adds the capped
+ * suggested size, as before; the other modes treat the policy size as the
+ * whole position's, measured on balance plus the position's margin the way
+ * PaperEngine.addToPosition caps it, and add only what tops it up. Opening
+ * small and adding therefore never ends above what one entry would have been.
+ */
+export function computeScaleInSizePct(
+  params: Parameters<typeof computePositionSizePct>[0] & { balance: number; positionAmountUsd: number },
+): PositionSizeResult {
+  const policy = computePositionSizePct(params);
+  if (!params.sizing || params.sizing.sizingMode === 'fixed' || policy.sizePct <= 0) return policy;
+  const { balance, positionAmountUsd } = params;
+  if (!(balance > 0)) return { sizePct: 0, note: `${policy.note}; no balance to add` };
+  const targetUsd = ((balance + positionAmountUsd) * policy.sizePct) / 100;
+  const addUsd = Math.max(0, targetUsd - positionAmountUsd);
+  if (addUsd <= 0) {
+    return { sizePct: 0, note: `${policy.note}; position already at the policy size` };
+  }
+  const sizePct = (addUsd / balance) * 100;
+  return { sizePct, note: `${policy.note}; add ${sizePct.toFixed(1)}% to reach it` };
+}
@@ -1,10 +1,14 @@
 import { AgentConfigSchema } from '@something-in-loop/shared';
-import type { TradeDecisionRequest } from '../../services/llm-router.js';
+import type { EnsemblePolicy } from '@something-in-loop/shared';
+import type { EnsembleMember, TeamMembers, TradeDecisionRequest } from '../../services/llm-router.js';
 import type { LlmJobMessage } from '../../types/queue-types.js';
 import { generateId } from '../../lib/utils.js';
 import { createLogger } from '../../lib/logger.js';
 import type { Env } from '../../types/env.js';
 import type { MarketDataItem, PendingLlmContext } from './types.js';
+import { riskLimitsFromConfig } from './portfolio-risk.js';
+import { regimeGateFromConfig } from './regime-gate.js';
+import { sizingFromConfig } from './position-sizing.js';
 
 type EnqueueLlmJobParams = {
   agentId: string;
@@ -21,8 +25,15 @@ type EnqueueLlmJobParams = {
   minConfidence: number;
   tradeRequest: TradeDecisionRequest;
   config: ReturnType<typeof AgentConfigSchema.parse>;
+  configVersionId?: string | null;
+  ensemble?: { policy: EnsemblePolicy; members: EnsembleMember[] } | null;
+  team?: TeamMembers | null;
 };
 
+function toQueuedTeamMember(member: TeamMembers[keyof TeamMembers]) {
+  return { model: member.model, provider: member.config.provider ?? 'openrouter', roleMd: member.roleMd };
+}
+
 /**
  * Enqueues async LLM work and stores context for /receive-decision.
  * Returns true when a job was enqueued or skipped due to an in-flight job.
@@ -44,6 +55,9 @@ export async function enqueueLlmJob(params: EnqueueLlmJobParams): Promise<boolea
     minConfidence,
     tradeRequest,
     config,
+    configVersionId = null,
+    ensemble = null,
+    team = null,
   } = params;
 
   if (!env.LLM_QUEUE) return false;
@@ -72,10 +86,18 @@ export async function enqueueLlmJob(params: EnqueueLlmJobParams): Promise<boolea
     maxPositionSizePct: config.maxPositionSizePct,
     stopLossPct: config.stopLossPct,
     takeProfitPct: config.takeProfitPct,
+    exitStrategy: config.behavior?.exitStrategy,
+    averageDown: config.behavior?.averageDown === true,
     minConfidence,
     dexes: config.dexes,
     strategies: config.strategies,
     slippageSimulation: config.slippageSimulation,
+    fillModel: config.fillModel,
+    maxLeverage: config.maxLeverage,
+    riskLimits: riskLimitsFromConfig(config),
+    regimeGate: regimeGateFromConfig(config),
+    sizing: sizingFromConfig(config),
+    configVersionId,
   };
   await ctx.storage.put('pendingLlmContext', pendingCtx);
   await ctx.storage.put('pendingLlmJobId', jobId);
@@ -96,6 +118,18 @@ export async function enqueueLlmJob(params: EnqueueLlmJobParams): Promise<boolea
       debugLogging: env.LOG_LLM_DEBUG === 'true',
     },
     tradeRequest,
+    configVersionId,
+    ensemble: ensemble && {
+      policy: ensemble.policy,
+      members: ensemble.members.map((member) =>
+        'config' in member ? { model: member.model, provider: member.config.provider ?? 'openrouter' } : member,
+      ),
+    },
+    team: team && {
+      analyst: toQueuedTeamMember(team.analyst),
+      riskOfficer: toQueuedTeamMember(team.riskOfficer),
+      executor: toQueuedTeamMember(team.executor),
+    },
   };
 
   try {
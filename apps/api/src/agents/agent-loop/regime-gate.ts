@@ -0,0 +1,29 @@
+import type { AgentBehaviorConfig } from '@something-in-loop/shared';
+import type { MarketRegime } from '../../services/market-regime.js';
+import type { MarketDataItem } from './types.js';
+
+/**
+ * The regime an agent's entries are restricted to: its preferredConditions
+ * when config.regimeGate is on, undefined when ungated (including 'any').
+ */
+export function regimeGateFromConfig(config: {
+  regimeGate?: boolean;
+  behavior?: Partial<AgentBehaviorConfig>;
+}): MarketRegime | undefined {
+  const preferred = config.behavior?.preferredConditions;
+  if (!config.regimeGate || !preferred || preferred === 'any') return undefined;
+  return preferred;
+}
+
+/**
+ * Why the regime gate refuses an entry on `pair`, or null when it is allowed.
+ * Gates on the hourly regime; a pair without one is refused, since the gate
+ * cannot confirm the preferred regime.
+ */
+export function regimeGateVeto(gate: MarketRegime | undefined, pair: string, marketData: MarketDataItem[]): string | null {
+  if (!gate) return null;
+  const hourly = marketData.find((m) => m.pair === pair)?.regimes?.['1h'];
+  if (!hourly) return `regime gate: no 1h regime for ${pair} (agent trades only in ${gate} markets)`;
+  if (hourly.regime === gate) return null;
+  return `regime gate: ${pair} is ${hourly.regime} on 1h, agent trades only in ${gate} markets — ${hourly.reasoning}`;
+}
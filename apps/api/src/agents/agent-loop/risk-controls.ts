@@ -5,9 +5,21 @@ import { agents } from '../../db/schema.js';
 import { nowIso } from '../../lib/utils.js';
 import { resolveCurrentPriceUsd } from '../../services/price-resolver.js';
 import { PaperEngine, isPositionPricingSaneForMarket } from '../../services/paper-engine.js';
+import { emitWebhookEvent, tradeEventData } from '../../services/webhooks.js';
+import { processAlertSignal } from '../../services/alerts.js';
+import type { PendingOrder, Position } from '../../services/paper-engine.js';
 import type { Env } from '../../types/env.js';
 import type { CachedAgentRow } from '../trading-agent.js';
 import { persistTrade } from './execution.js';
+import { hourlyClosesByPair } from './market.js';
+import { pendingOrderCandidate, processPendingOrders } from './orders.js';
+import { evaluateEntryRisk, riskLimitsFromConfig } from './portfolio-risk.js';
+import type { PortfolioRiskLimits } from './portfolio-risk.js';
+import { MANAGER_ENTRY_GUARD_KEY, managerGuardVeto } from './manager-guard.js';
+import type { ManagerEntryGuard } from './manager-guard.js';
+import { regimeGateFromConfig, regimeGateVeto } from './regime-gate.js';
+import type { MarketRegime } from '../../services/market-regime.js';
+import type { MarketDataItem } from './types.js';
 
 type RunRiskControlsParams = {
   agentId: string;
@@ -18,11 +30,54 @@ type RunRiskControlsParams = {
   config: ReturnType<typeof AgentConfigSchema.parse>;
 };
 
+export type PositionRiskVerdict =
+  | 'invalid_pricing'
+  | 'liquidation'
+  | 'stop_loss'
+  | 'trailing_stop'
+  | 'take_profit'
+  | null;
+
+/** True when today's P&L has breached the configured daily loss limit. Call after resetDailyTrackingIfNeeded(). */
+export function isDailyLossLimitReached(engine: PaperEngine, maxDailyLossPct: number): boolean {
+  return engine.getDailyPnlPct() <= -maxDailyLossPct;
+}
+
+/** True while the post-stop-out cooldown window is still open at `nowMs`. */
+export function isInStopOutCooldown(
+  lastStopOutAt: number | undefined,
+  nowMs: number,
+  cooldownAfterLossMinutes: number,
+): boolean {
+  if (cooldownAfterLossMinutes <= 0 || !lastStopOutAt) return false;
+  return nowMs - lastStopOutAt < cooldownAfterLossMinutes * 60_000;
+}
+
+/**
+ * Decide what the guardrails should do with one open position at `currentPrice`.
+ * Shared by the live loop and the backtest replay so both apply identical rules.
+ * Ratchets the position's trailing stop as a side effect, so call once per tick.
+ */
+export function evaluatePositionRisk(
+  engine: PaperEngine,
+  position: Position,
+  currentPrice: number,
+  config: { stopLossPct: number; takeProfitPct: number },
+): PositionRiskVerdict {
+  if (!isPositionPricingSaneForMarket(position, currentPrice)) return 'invalid_pricing';
+  if (engine.checkLiquidation(position, currentPrice)) return 'liquidation';
+  if (engine.checkStopLoss(position, currentPrice, config.stopLossPct)) return 'stop_loss';
+  if (engine.updateTrailingStop(position, currentPrice)) return 'trailing_stop';
+  if (engine.checkTakeProfit(position, currentPrice, config.takeProfitPct)) return 'take_profit';
+  return null;
+}
+
 /**
  * Applies guardrails before LLM analysis:
  * - daily loss stop
  * - cooldown after stop-out
- * - per-position SL/TP checks
+ * - funding accrual on margin positions
+ * - per-position liquidation/SL/trailing/TP checks
  *
  * Returns false when tick processing should stop.
  */
@@ -30,7 +85,7 @@ export async function runRiskControls(params: RunRiskControlsParams): Promise<bo
   const { agentId, engine, env, db, ctx, config } = params;
   engine.resetDailyTrackingIfNeeded();
   const dailyPnl = engine.getDailyPnlPct();
-  if (dailyPnl <= -config.maxDailyLossPct) {
+  if (isDailyLossLimitReached(engine, config.maxDailyLossPct)) {
     console.log(`[agent-loop] ${agentId}: Daily loss limit reached (${dailyPnl.toFixed(2)}%), pausing`);
     await db.update(agents).set({ status: 'paused', updatedAt: nowIso() }).where(eq(agents.id, agentId));
     try {
@@ -40,18 +95,30 @@ export async function runRiskControls(params: RunRiskControlsParams): Promise<bo
     } catch {
       // non-fatal
     }
+    await emitWebhookEvent(env, {
+      type: 'agent.daily_loss_paused',
+      agentId,
+      data: { dailyPnlPct: dailyPnl, maxDailyLossPct: config.maxDailyLossPct, balance: engine.balance },
+    });
     return false;
   }
 
   if (config.cooldownAfterLossMinutes > 0) {
-    const cooldownMs = config.cooldownAfterLossMinutes * 60_000;
     const lastStopOut = await ctx.storage.get<number>('lastStopOutAt');
-    if (lastStopOut && Date.now() - lastStopOut < cooldownMs) {
+    if (isInStopOutCooldown(lastStopOut, Date.now(), config.cooldownAfterLossMinutes)) {
       console.log(`[agent-loop] ${agentId}: In cooldown, skipping tick`);
       return false;
     }
   }
 
+  for (const position of engine.accrueFunding(config.fundingRatePct)) {
+    try {
+      await persistTrade(db, position);
+    } catch (err) {
+      console.warn(`[agent-loop] ${agentId}: Failed to persist funding for ${position.pair}:`, err);
+    }
+  }
+
   for (const position of engine.openPositions) {
     const currentPrice = await resolveCurrentPriceUsd(env, position.pair);
     if (currentPrice === 0) {
@@ -67,11 +134,16 @@ export async function runRiskControls(params: RunRiskControlsParams): Promise<bo
           `[agent-loop] ${agentId}: Price resolution returned 0 for ${position.pair} (miss #${misses}). Skipping SL/TP check this tick.`,
         );
       }
+      await processAlertSignal(env, {
+        agentId,
+        signal: { type: 'price_miss', positionId: position.id, pair: position.pair, misses },
+      });
       continue;
     }
     await ctx.storage.delete(`priceMiss:${position.id}`);
 
-    if (!isPositionPricingSaneForMarket(position, currentPrice)) {
+    const verdict = evaluatePositionRisk(engine, position, currentPrice, config);
+    if (verdict === 'invalid_pricing') {
       try {
         const closed = engine.closePosition(position.id, {
           price: currentPrice,
@@ -83,13 +155,32 @@ export async function runRiskControls(params: RunRiskControlsParams): Promise<bo
         console.warn(
           `[agent-loop] ${agentId}: Closed invalid open position ${position.id} (${position.pair}) with flat repair at $${currentPrice}`,
         );
+        await emitWebhookEvent(env, { type: 'trade.closed', agentId, data: tradeEventData(closed) });
       } catch (err) {
         console.warn(`[agent-loop] ${agentId}: Failed to repair invalid position ${position.id}:`, err);
       }
       continue;
     }
 
-    if (engine.checkStopLoss(position, currentPrice, config.stopLossPct)) {
+    if (verdict === 'liquidation') {
+      try {
+        const closed = engine.liquidatePosition(position.id, currentPrice);
+        await ctx.storage.put('pendingTrade', closed);
+        await persistTrade(db, closed);
+        await ctx.storage.delete('pendingTrade');
+        await ctx.storage.delete(`priceMiss:${position.id}`);
+        await ctx.storage.put('lastStopOutAt', Date.now());
+        console.log(
+          `[agent-loop] ${agentId}: Liquidated ${position.leverage}x ${position.side} ${position.pair} at $${currentPrice} (liq $${position.liquidationPrice})`,
+        );
+        await emitWebhookEvent(env, { type: 'trade.closed', agentId, data: tradeEventData(closed) });
+      } catch (err) {
+        console.warn(`[agent-loop] ${agentId}: Failed to persist liquidation for ${position.pair}:`, err);
+      }
+      continue;
+    }
+
+    if (verdict === 'stop_loss') {
       try {
         const closed = engine.stopOutPosition(position.id, currentPrice);
         await ctx.storage.put('pendingTrade', closed);
@@ -98,13 +189,36 @@ export async function runRiskControls(params: RunRiskControlsParams): Promise<bo
         await ctx.storage.delete(`priceMiss:${position.id}`);
         await ctx.storage.put('lastStopOutAt', Date.now());
         console.log(`[agent-loop] ${agentId}: Stop loss triggered for ${position.pair} at $${currentPrice}`);
+        await emitWebhookEvent(env, { type: 'trade.stop_loss', agentId, data: tradeEventData(closed) });
+        await emitWebhookEvent(env, { type: 'trade.closed', agentId, data: tradeEventData(closed) });
       } catch (err) {
         console.warn(`[agent-loop] ${agentId}: Failed to persist stop-loss for ${position.pair}:`, err);
       }
       continue;
     }
 
-    if (engine.checkTakeProfit(position, currentPrice, config.takeProfitPct)) {
+    if (verdict === 'trailing_stop') {
+      try {
+        const closed = engine.closePosition(position.id, {
+          price: currentPrice,
+          reason: 'Trailing stop triggered',
+          closeReason: 'trailing_stop',
+        });
+        await ctx.storage.put('pendingTrade', closed);
+        await persistTrade(db, closed);
+        await ctx.storage.delete('pendingTrade');
+        await ctx.storage.delete(`priceMiss:${position.id}`);
+        console.log(
+          `[agent-loop] ${agentId}: Trailing stop triggered for ${position.pair} at $${currentPrice} (stop $${position.trailingStop?.stopPrice})`,
+        );
+        await emitWebhookEvent(env, { type: 'trade.closed', agentId, data: tradeEventData(closed) });
+      } catch (err) {
+        console.warn(`[agent-loop] ${agentId}: Failed to persist trailing stop for ${position.pair}:`, err);
+      }
+      continue;
+    }
+
+    if (verdict === 'take_profit') {
       try {
         const closed = engine.closePosition(position.id, {
           price: currentPrice,
@@ -116,6 +230,7 @@ export async function runRiskControls(params: RunRiskControlsParams): Promise<bo
         await ctx.storage.delete('pendingTrade');
         await ctx.storage.delete(`priceMiss:${position.id}`);
         console.log(`[agent-loop] ${agentId}: Take profit triggered for ${position.pair} at $${currentPrice}`);
+        await emitWebhookEvent(env, { type: 'trade.closed', agentId, data: tradeEventData(closed) });
       } catch (err) {
         console.warn(`[agent-loop] ${agentId}: Failed to persist take-profit for ${position.pair}:`, err);
       }
@@ -124,3 +239,67 @@ export async function runRiskControls(params: RunRiskControlsParams): Promise<bo
 
   return true;
 }
+
+/**
+ * Why a triggered resting order must not fill now, or null when it may: the
+ * manager's entry guard, the regime gate on this tick's market data, then the
+ * portfolio limits, all as they stand at the fill rather than when the order
+ * was placed.
+ */
+export function pendingOrderFillVeto(
+  engine: PaperEngine,
+  order: PendingOrder,
+  params: {
+    marketData: MarketDataItem[];
+    riskLimits?: PortfolioRiskLimits;
+    managerGuard?: ManagerEntryGuard | null;
+    regimeGate?: MarketRegime;
+  },
+): string | null {
+  const candidate = pendingOrderCandidate(engine, order);
+  const guardVeto = managerGuardVeto(params.managerGuard, candidate)
+    ?? regimeGateVeto(params.regimeGate, candidate.pair, params.marketData);
+  if (guardVeto || !params.riskLimits) return guardVeto;
+  return evaluateEntryRisk(engine, candidate, hourlyClosesByPair(params.marketData), params.riskLimits);
+}
+
+/**
+ * Expire resting limit/stop orders and fill the triggered ones. Runs once the
+ * tick's market data is in, so a fill passes the same entry checks a market
+ * entry does; an order they refuse is cancelled.
+ */
+export async function fillPendingOrders(params: RunRiskControlsParams & { marketData: MarketDataItem[] }): Promise<void> {
+  const { agentId, engine, env, db, ctx, config, marketData } = params;
+  if (engine.pendingOrders.length === 0) return;
+
+  const orderPrices = new Map<string, number>();
+  for (const pair of new Set(engine.pendingOrders.map((o) => o.pair))) {
+    orderPrices.set(pair, await resolveCurrentPriceUsd(env, pair));
+  }
+  const riskLimits = riskLimitsFromConfig(config);
+  const managerGuard = await ctx.storage.get<ManagerEntryGuard>(MANAGER_ENTRY_GUARD_KEY);
+  const regimeGate = regimeGateFromConfig(config);
+  const { filled, expired, rejected } = processPendingOrders(
+    engine,
+    (pair) => orderPrices.get(pair),
+    config.maxOpenPositions,
+    (order) => pendingOrderFillVeto(engine, order, { marketData, riskLimits, managerGuard, regimeGate }),
+  );
+  for (const order of expired) {
+    console.log(`[agent-loop] ${agentId}: ${order.type} ${order.side} order for ${order.pair} expired unfilled`);
+  }
+  for (const { order, error } of rejected) {
+    console.warn(`[agent-loop] ${agentId}: ${order.type} order for ${order.pair} triggered but could not fill: ${error}`);
+  }
+  for (const position of filled) {
+    try {
+      await ctx.storage.put('pendingTrade', position);
+      await persistTrade(db, position);
+      await ctx.storage.delete('pendingTrade');
+      console.log(`[agent-loop] ${agentId}: Order filled ${position.side} ${position.pair} @ $${position.entryPrice}`);
+      await emitWebhookEvent(env, { type: 'trade.opened', agentId, data: tradeEventData(position) });
+    } catch (err) {
+      console.warn(`[agent-loop] ${agentId}: Failed to persist order fill for ${position.pair}:`, err);
+    }
+  }
+}
@@ -1,3 +1,8 @@
+import type { FillModel } from '../../services/fill-model.js';
+import type { MarketRegime, PairRegimes } from '../../services/market-regime.js';
+import type { PortfolioRiskLimits } from './portfolio-risk.js';
+import type { PositionSizingConfig } from './position-sizing.js';
+
 export type MarketDataItem = {
   pair: string;
   pairAddress: string;
@@ -6,8 +11,14 @@ export type MarketDataItem = {
   priceChange: Record<string, number | undefined>;
   volume24h?: number;
   liquidity?: number;
+  /** Hourly ATR in USD; sizes ATR-based trailing stops. */
+  atr?: number;
+  /** Hourly closes (oldest first) for portfolio correlation/VaR; not kept in decision snapshots. */
+  hourlyCloses?: number[];
   indicatorText: string;
   dailyIndicatorText: string;
+  /** Deterministic regime per timeframe, from the same candles as the indicators. */
+  regimes?: PairRegimes;
 };
 
 export type RecentDecision = {
@@ -30,8 +41,19 @@ export type PendingLlmContext = {
   maxPositionSizePct: number;
   stopLossPct: number;
   takeProfitPct: number;
+  exitStrategy?: string;
+  averageDown?: boolean;
   minConfidence: number;
   dexes: string[];
   strategies: string[];
   slippageSimulation: number;
+  /** Absent on contexts saved before fill models existed — treated as flat. */
+  fillModel?: FillModel;
+  maxLeverage?: number;
+  /** Absent on contexts saved before portfolio limits existed — entries are not risk-checked. */
+  riskLimits?: PortfolioRiskLimits;
+  /** Absent on contexts saved before regime gating existed — entries are ungated. */
+  regimeGate?: MarketRegime;
+  sizing?: PositionSizingConfig;
+  configVersionId?: string | null;
 };
@@ -1,6 +1,7 @@
 import { DurableObject } from 'cloudflare:workers';
+import { drizzle } from 'drizzle-orm/d1';
 import type { Env } from '../types/env.js';
-import { runManagerLoop } from './manager-loop.js';
+import { runManagerLoop, runManagerRiskGuard } from './manager-loop.js';
 import { TRADING_INTERVALS, intervalToMs, normalizeTradingInterval } from '@something-in-loop/shared';
 
 const VALID_DECISION_INTERVALS = new Set<string>(TRADING_INTERVALS);
@@ -34,7 +35,6 @@ export class AgentManagerDO extends DurableObject<Env> {
       const deciding = (await this.ctx.storage.get<boolean>('deciding')) ?? false;
       const lastDecisionAt = (await this.ctx.storage.get<number>('lastDecisionAt')) ?? null;
       const lastDecisionMs = (await this.ctx.storage.get<number>('lastDecisionMs')) ?? null;
-      const memory = await this.ctx.storage.get('memory');
 
       // Auto-heal: if running but the alarm is more than 10s overdue and not currently
       // deciding, the alarm was likely lost (e.g. Wrangler restart in dev, or DO eviction).
@@ -56,7 +56,6 @@ export class AgentManagerDO extends DurableObject<Env> {
         deciding,
         lastDecisionAt,
         lastDecisionMs,
-        hasMemory: !!memory,
       });
     }
 
@@ -143,6 +142,22 @@ export class AgentManagerDO extends DurableObject<Env> {
       return Response.json({ ok: true });
     }
 
+    if (url.pathname === '/risk-check' && request.method === 'POST') {
+      const managerId = await this.ctx.storage.get<string>('managerId');
+      const status = (await this.ctx.storage.get<string>('status')) ?? 'stopped';
+      if (!managerId || status !== 'running') {
+        return Response.json({ ok: true, skipped: true });
+      }
+      const outcome = await runManagerRiskGuard({
+        env: this.env,
+        db: drizzle(this.env.DB),
+        storage: this.ctx.storage,
+        managerId,
+        trigger: 'trade',
+      });
+      return Response.json({ ok: true, skipped: false, outcome });
+    }
+
     // ── Scheduler endpoints (used by cron handler + agent lifecycle routes) ──
 
     if (url.pathname === '/scheduler/register' && request.method === 'POST') {
@@ -0,0 +1,142 @@
+/**
+ * Historical backtesting.
+ * Replays an agent's config over GeckoTerminal OHLCV candles through the same
+ * PaperEngine, risk-control rules and indicator signals the live loop uses.
+ * `rules` mode is deterministic; `llm` mode asks the agent's model per bar and
+ * records every prompt/response so re-runs replay without calling the provider.
+ */
+import { drizzle } from 'drizzle-orm/d1';
+import { AgentConfigSchema, DEFAULT_FREE_AGENT_MODEL } from '@something-in-loop/shared';
+import type { BacktestRequest } from '@something-in-loop/shared';
+import type { Env } from '../types/env.js';
+import { migrateAgentConfig } from '../lib/agent-config-migration.js';
+import { normalizePairForDex } from '../lib/pairs.js';
+import type { CachedAgentRow } from './trading-agent.js';
+import { reserveAgentLlmCall, resolveLlmCredentials } from './agent-loop/llm-config.js';
+import { loadBacktestCandles } from './backtest/candles.js';
+import { createD1DecisionCache, createMemoryDecisionCache, hashBacktestPrompt } from './backtest/decision-cache.js';
+import { BacktestLlmLimitError, buildBacktestMarketData, createLlmDecisionProvider } from './backtest/llm-decisions.js';
+import { replayBacktest } from './backtest/replay.js';
+import { createRuleDecisionProvider } from './backtest/rule-decisions.js';
+import type { BacktestAgentConfig, BacktestResult } from './backtest/types.js';
+
+export {
+  BacktestLlmLimitError,
+  buildBacktestMarketData,
+  createD1DecisionCache,
+  createLlmDecisionProvider,
+  createMemoryDecisionCache,
+  createRuleDecisionProvider,
+  hashBacktestPrompt,
+  replayBacktest,
+};
+export type { BacktestDecisionCache, CachedLlmDecision } from './backtest/decision-cache.js';
+export type { BacktestLlmCaller } from './backtest/llm-decisions.js';
+export type {
+  BacktestAgentConfig,
+  BacktestCandleSet,
+  BacktestDecisionContext,
+  BacktestDecisionProvider,
+  BacktestLlmStats,
+  BacktestMode,
+  BacktestResult,
+} from './backtest/types.js';
+
+type RunAgentBacktestParams = {
+  env: Env;
+  agentId: string;
+  agentRow: Pick<CachedAgentRow, 'name' | 'personaMd' | 'profileId' | 'ownerAddress' | 'llmModel'>;
+  config: BacktestAgentConfig;
+  request: BacktestRequest;
+};
+
+/** Parse a stored agent config the same way runAgentLoop does. */
+export function parseBacktestAgentConfig(name: string, rawConfig: Record<string, unknown>): BacktestAgentConfig {
+  return AgentConfigSchema.parse(migrateAgentConfig({ name, ...rawConfig }));
+}
+
+/**
+ * Load candles for the agent's pairs and replay them.
+ * Returns `{ error }` when the run cannot start (no candles, no LLM credentials),
+ * with `status: 429` when an LLM run hits the owner's rate limit or the agent's
+ * hourly call budget. Every uncached bar is one reserved call, as in a tick.
+ */
+export async function runAgentBacktest(
+  params: RunAgentBacktestParams,
+): Promise<{ result: BacktestResult } | { error: string; status?: 429 }> {
+  const { env, agentId, agentRow, request } = params;
+  const pairs = (request.pairs ?? params.config.pairs).map(normalizePairForDex);
+  const config: BacktestAgentConfig = {
+    ...params.config,
+    pairs,
+    behavior: request.behavior ?? params.config.behavior,
+    profileId: request.profileId ?? params.config.profileId,
+    fillModel: request.fillModel ?? params.config.fillModel,
+  };
+
+  const { candles, liquidity } = await loadBacktestCandles(env, pairs, { timeframe: request.timeframe, limit: request.limit });
+  if (Object.keys(candles).length === 0) {
+    return { error: 'No historical candles available for the requested pairs' };
+  }
+
+  if (request.mode === 'rules') {
+    const result = await replayBacktest({
+      config,
+      candles,
+      liquidity,
+      decide: createRuleDecisionProvider(),
+      mode: 'rules',
+      closeOpenAtEnd: request.closeOpenAtEnd,
+    });
+    return { result };
+  }
+
+  const db = drizzle(env.DB);
+  const llmModel = request.llmModel?.trim() || agentRow.llmModel?.trim() || config.llmModel || DEFAULT_FREE_AGENT_MODEL;
+  const credentials = await resolveLlmCredentials({
+    env,
+    db,
+    agentId,
+    agentRow,
+    effectiveLlmModel: llmModel,
+    marketData: [],
+    recordHoldDecisions: false,
+  });
+  if (!credentials) {
+    return { error: `No LLM credentials available for model ${llmModel}` };
+  }
+
+  const { decide, stats } = createLlmDecisionProvider({
+    llmConfig: {
+      apiKey: credentials.llmApiKey,
+      model: llmModel,
+      fallbackModel: config.llmFallback?.trim() || DEFAULT_FREE_AGENT_MODEL,
+      allowFallback: config.allowFallback === true,
+      temperature: config.temperature,
+      timeoutMs: 90_000,
+      provider: credentials.llmProvider,
+    },
+    agentRow: {
+      name: agentRow.name,
+      personaMd: request.personaMd ?? agentRow.personaMd,
+      profileId: request.profileId ?? agentRow.profileId,
+    },
+    cache: createD1DecisionCache(db),
+    reserveLlmCall: () => reserveAgentLlmCall(env, agentId, agentRow.ownerAddress, config.maxLlmCallsPerHour),
+  });
+
+  try {
+    const result = await replayBacktest({
+      config,
+      candles,
+      liquidity,
+      decide,
+      mode: 'llm',
+      closeOpenAtEnd: request.closeOpenAtEnd,
+    });
+    return { result: { ...result, llm: stats } };
+  } catch (err) {
+    if (err instanceof BacktestLlmLimitError) return { error: err.message, status: 429 };
+    throw err;
+  }
+}
@@ -0,0 +1,44 @@
+import type { Env } from '../../types/env.js';
+import { createGeckoTerminalService } from '../../services/gecko-terminal.js';
+import type { BacktestCandleSet, BacktestLiquiditySet } from './types.js';
+
+export type BacktestTimeframe = 'minute' | 'hour' | 'day';
+
+/** Returns true when pool name contains all symbols from the configured pair. */
+function poolMatchesPair(poolName: string, pairName: string): boolean {
+  const tokens = pairName.split('/').map((token) => token.trim().toUpperCase());
+  const name = poolName.toUpperCase();
+  return tokens.every((token) => name.includes(token));
+}
+
+/**
+ * Load historical OHLCV candles for each pair from GeckoTerminal, plus each
+ * matched pool's current TVL for the liquidity fill model.
+ * Pairs without a matching pool or candle history are omitted from the result.
+ */
+export async function loadBacktestCandles(
+  env: Env,
+  pairs: string[],
+  options: { timeframe: BacktestTimeframe; limit: number },
+): Promise<{ candles: BacktestCandleSet; liquidity: BacktestLiquiditySet }> {
+  const geckoSvc = createGeckoTerminalService(env.CACHE);
+  const candles: BacktestCandleSet = {};
+  const liquidity: BacktestLiquiditySet = {};
+
+  await Promise.all(
+    pairs.map(async (pairName) => {
+      try {
+        const pools = await geckoSvc.searchPools(pairName.replace('/', ' '));
+        const pool = pools.find((entry) => poolMatchesPair(entry.name, pairName));
+        if (!pool) return;
+        const series = await geckoSvc.getPoolOHLCV(pool.address, options.limit, options.timeframe);
+        if (series.length > 0) candles[pairName] = series;
+        if (pool.liquidityUsd && pool.liquidityUsd > 0) liquidity[pairName] = pool.liquidityUsd;
+      } catch (err) {
+        console.warn(`[backtest] Failed to load candles for ${pairName}:`, err);
+      }
+    }),
+  );
+
+  return { candles, liquidity };
+}
@@ -0,0 +1,79 @@
+import { drizzle } from 'drizzle-orm/d1';
+import { eq } from 'drizzle-orm';
+import type { TradeDecision } from '@something-in-loop/shared';
+import { backtestLlmCache } from '../../db/schema.js';
+import { parseJsonRequired } from '../../lib/json.js';
+import { nowIso } from '../../lib/utils.js';
+
+export type CachedLlmDecision = {
+  promptHash: string;
+  model: string;
+  promptText: string;
+  rawResponse: string;
+  decision: TradeDecision;
+};
+
+/** Prompt-hash → recorded LLM decision store used to replay LLM backtests offline. */
+export interface BacktestDecisionCache {
+  get(promptHash: string): Promise<CachedLlmDecision | null>;
+  put(entry: CachedLlmDecision): Promise<void>;
+}
+
+/**
+ * sha256 hex of the requested model, its sampling temperature and the full
+ * prompt sent to it. An unset temperature (provider default) hashes apart from
+ * every explicit one.
+ */
+export async function hashBacktestPrompt(model: string, temperature: number | undefined, fullPrompt: string): Promise<string> {
+  const bytes = new TextEncoder().encode(`${model}\n${temperature ?? 'default'}\n${fullPrompt}`);
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/** D1-backed cache shared across backtest runs and agents. */
+export function createD1DecisionCache(db: ReturnType<typeof drizzle>): BacktestDecisionCache {
+  return {
+    async get(promptHash) {
+      const [row] = await db.select().from(backtestLlmCache).where(eq(backtestLlmCache.promptHash, promptHash));
+      if (!row) return null;
+      return {
+        promptHash: row.promptHash,
+        model: row.model,
+        promptText: row.promptText,
+        rawResponse: row.rawResponse,
+        decision: parseJsonRequired<TradeDecision>(row.decision),
+      };
+    },
+    async put(entry) {
+      await db
+        .insert(backtestLlmCache)
+        .values({
+          promptHash: entry.promptHash,
+          model: entry.model,
+          promptText: entry.promptText,
+          rawResponse: entry.rawResponse,
+          decision: JSON.stringify(entry.decision),
+          createdAt: nowIso(),
+        })
+        .onConflictDoNothing();
+    },
+  };
+}
+
+/** Process-local cache; useful for a single run or for offline tests. */
+export function createMemoryDecisionCache(): BacktestDecisionCache & { size(): number } {
+  const entries = new Map<string, CachedLlmDecision>();
+  return {
+    async get(promptHash) {
+      return entries.get(promptHash) ?? null;
+    },
+    async put(entry) {
+      if (!entries.has(entry.promptHash)) entries.set(entry.promptHash, entry);
+    },
+    size() {
+      return entries.size;
+    },
+  };
+}
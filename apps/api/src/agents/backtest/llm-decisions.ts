@@ -0,0 +1,156 @@
+import { INDICATOR_HISTORY_BARS } from '@something-in-loop/shared';
+import type { CustomRule, IndicatorPeriods, TradeDecision } from '@something-in-loop/shared';
+import { computeIndicators } from '../../services/indicators.js';
+import { getTradeDecision } from '../../services/llm-router.js';
+import type { LLMRouterConfig, TradeDecisionRequest } from '../../services/llm-router.js';
+import { buildTradeDecisionPrompt } from '../../services/llm-router/request-builders.js';
+import { buildBaseTradeRequest } from '../agent-loop/base-flow.js';
+import { buildIndicatorText } from '../agent-loop/market-fetch.js';
+import type { MarketDataItem, RecentDecision } from '../agent-loop/types.js';
+import type { CachedAgentRow } from '../trading-agent.js';
+import { hashBacktestPrompt } from './decision-cache.js';
+import type { BacktestDecisionCache } from './decision-cache.js';
+import type { BacktestDecisionProvider, BacktestLlmStats, BacktestPairBar } from './types.js';
+
+const HOUR_MS = 60 * 60_000;
+const MAX_RECENT_DECISIONS = 10;
+
+export type BacktestLlmCaller = (
+  config: LLMRouterConfig,
+  request: TradeDecisionRequest,
+) => ReturnType<typeof getTradeDecision>;
+
+type CreateLlmDecisionProviderParams = {
+  llmConfig: LLMRouterConfig;
+  agentRow: Pick<CachedAgentRow, 'name' | 'personaMd' | 'profileId'>;
+  cache: BacktestDecisionCache;
+  /** Defaults to the llm-router; tests and offline CI pass a stub. */
+  callLlm?: BacktestLlmCaller;
+  /**
+   * Reserves each cache miss before it reaches the LLM; returns why the call
+   * cannot be made, or null. Omitted in offline runs.
+   */
+  reserveLlmCall?: () => Promise<string | null>;
+};
+
+/** Thrown by the LLM provider when a cache miss cannot be reserved; ends the run. */
+export class BacktestLlmLimitError extends Error {}
+
+/** % change between the latest close and the close `hours` ago, when the series reaches back that far. */
+function pctChangeOver(closes: number[], hours: number, barIntervalMs: number): number | undefined {
+  const lookback = Math.round((hours * HOUR_MS) / barIntervalMs);
+  if (lookback < 1 || closes.length <= lookback) return undefined;
+  const then = closes[closes.length - 1 - lookback];
+  const now = closes[closes.length - 1];
+  return then > 0 ? ((now - then) / then) * 100 : undefined;
+}
+
+/** Rebuild the live loop's MarketDataItem for a historical bar. */
+export function buildBacktestMarketData(
+  bars: BacktestPairBar[],
+  barIntervalMs: number,
+  indicatorConfig: { indicatorPeriods?: Partial<IndicatorPeriods>; customRules?: CustomRule[]; strategies?: readonly string[] } = {},
+): MarketDataItem[] {
+  return bars.map((bar) => {
+    const candles = bar.candles.slice(-INDICATOR_HISTORY_BARS);
+    const indicators = candles.length >= 14 ? computeIndicators(candles, indicatorConfig.indicatorPeriods) : null;
+    return {
+      pair: bar.pair,
+      pairAddress: '',
+      dexScreenerUrl: '',
+      priceUsd: bar.candle.c,
+      priceChange: {
+        h1: pctChangeOver(bar.closes, 1, barIntervalMs),
+        h24: pctChangeOver(bar.closes, 24, barIntervalMs),
+      },
+      atr: bar.atr,
+      indicatorText: buildIndicatorText(indicators, bar.candle.c, 'No OHLCV data available - indicators skipped', true, {
+        rules: indicatorConfig.customRules ?? [],
+        bars: candles,
+      }, indicatorConfig.strategies),
+      dailyIndicatorText: '',
+    };
+  });
+}
+
+/**
+ * LLM-in-the-loop decision provider.
+ *
+ * Builds the same TradeDecisionRequest as the live base flow for every bar and
+ * looks the resulting prompt up in the decision cache first; only cache misses
+ * reach the LLM, and their responses are recorded for the next run. A miss that
+ * `reserveLlmCall` turns down throws BacktestLlmLimitError.
+ */
+export function createLlmDecisionProvider(params: CreateLlmDecisionProviderParams): {
+  decide: BacktestDecisionProvider;
+  stats: BacktestLlmStats;
+} {
+  const { llmConfig, agentRow, cache, callLlm = getTradeDecision, reserveLlmCall } = params;
+  const stats: BacktestLlmStats = { llmCalls: 0, cacheHits: 0, failures: 0 };
+  let recentDecisions: RecentDecision[] = [];
+
+  const decide: BacktestDecisionProvider = async ({ timestamp, engine, config, bars, barIntervalMs }) => {
+    const marketData = buildBacktestMarketData(bars, barIntervalMs, config);
+    const { tradeRequest } = buildBaseTradeRequest({
+      engine,
+      pairsToFetch: config.pairs,
+      marketData,
+      recentDecisions,
+      config,
+      agentRow,
+    });
+    tradeRequest.asOf = timestamp;
+    const { fullPrompt } = buildTradeDecisionPrompt(tradeRequest);
+    const promptHash = await hashBacktestPrompt(llmConfig.model, llmConfig.temperature, fullPrompt);
+
+    let decision: TradeDecision;
+    let rawResponse: string | null = null;
+    const cached = await cache.get(promptHash);
+    if (cached) {
+      stats.cacheHits++;
+      decision = cached.decision;
+    } else {
+      const limited = await reserveLlmCall?.();
+      if (limited) throw new BacktestLlmLimitError(limited);
+      try {
+        stats.llmCalls++;
+        const result = await callLlm(llmConfig, tradeRequest);
+        decision = {
+          action: result.action,
+          confidence: result.confidence,
+          reasoning: result.reasoning,
+          targetPair: result.targetPair ?? null,
+          suggestedPositionSizePct: result.suggestedPositionSizePct ?? null,
+          reducePct: result.reducePct ?? null,
+          leverage: result.leverage ?? null,
+          order: result.order ?? null,
+        };
+        rawResponse = result.llmRawResponse;
+      } catch (err) {
+        // Failed calls are not recorded, so the next run retries this bar.
+        stats.failures++;
+        decision = {
+          action: 'hold',
+          confidence: 0,
+          reasoning: `LLM error: ${err instanceof Error ? err.message : String(err)}`,
+        };
+      }
+    }
+
+    if (rawResponse !== null) {
+      try {
+        await cache.put({ promptHash, model: llmConfig.model, promptText: fullPrompt, rawResponse, decision });
+      } catch (err) {
+        console.warn('[backtest] Failed to record LLM decision:', err);
+      }
+    }
+
+    recentDecisions = [
+      { decision: decision.action, confidence: decision.confidence, createdAt: timestamp },
+      ...recentDecisions,
+    ].slice(0, MAX_RECENT_DECISIONS);
+    return decision;
+  };
+
+  return { decide, stats };
+}
@@ -0,0 +1,350 @@
+import { AgentBehaviorConfigSchema } from '@something-in-loop/shared';
+import type { TradeDecision } from '@something-in-loop/shared';
+import { normalizePairForDex } from '../../lib/pairs.js';
+import type { OHLCVCandle } from '../../services/gecko-terminal.js';
+import { computeAtr } from '../../services/indicators.js';
+import { quoteFill } from '../../services/fill-model.js';
+import { PaperEngine } from '../../services/paper-engine.js';
+import type { Position } from '../../services/paper-engine.js';
+import {
+  isRestingOrder,
+  pendingOrderCandidate,
+  processPendingOrders,
+  resolveOrderExpiry,
+  resolveTrailingStopConfig,
+} from '../agent-loop/orders.js';
+import { DEFAULT_REDUCE_PCT, findScalablePosition, scaleInBlockReason } from '../agent-loop/position-scaling.js';
+import { evaluateEntryRisk, riskLimitsFromConfig } from '../agent-loop/portfolio-risk.js';
+import { computePositionSizePct, computeScaleInSizePct, sizingFromConfig } from '../agent-loop/position-sizing.js';
+import { computeMetrics } from '../../services/snapshot.js';
+import {
+  evaluatePositionRisk,
+  isDailyLossLimitReached,
+  isInStopOutCooldown,
+} from '../agent-loop/risk-controls.js';
+import type {
+  BacktestAgentConfig,
+  BacktestCandleSet,
+  BacktestDecisionProvider,
+  BacktestLiquiditySet,
+  BacktestMode,
+  BacktestPairBar,
+  BacktestResult,
+} from './types.js';
+
+export const BACKTEST_AGENT_ID = 'backtest';
+const DEFAULT_BAR_INTERVAL_MS = 60 * 60_000;
+const ATR_LOOKBACK_BARS = 48;
+/** Same window the live loop fetches for correlation/VaR (48 hourly closes). */
+const RISK_LOOKBACK_BARS = 48;
+
+type ReplayBacktestParams = {
+  config: BacktestAgentConfig;
+  candles: BacktestCandleSet;
+  /** Pool TVL per pair; pairs without one fall back to flat impact under the liquidity model. */
+  liquidity?: BacktestLiquiditySet;
+  decide: BacktestDecisionProvider;
+  mode?: BacktestMode;
+  /** Close whatever is still open at the final bar's close (default true). */
+  closeOpenAtEnd?: boolean;
+};
+
+/** Union of all candle timestamps across pairs, ascending. */
+function buildTimeline(candles: BacktestCandleSet): number[] {
+  const stamps = new Set<number>();
+  for (const series of Object.values(candles)) {
+    for (const candle of series) stamps.add(candle.t);
+  }
+  return Array.from(stamps).sort((a, b) => a - b);
+}
+
+/**
+ * Mirrors executeTradeDecision() for a replayed bar: buy/sell opens at the bar
+ * close (or rests a limit/stop order), sized by the agent's sizing mode, when
+ * confidence, capacity and the portfolio risk limits allow, add/reduce scale the targeted position (adds
+ * sized by the same policy), close
+ * exits every open position.
+ */
+function applyDecision(
+  engine: PaperEngine,
+  decision: TradeDecision,
+  config: BacktestAgentConfig,
+  bars: BacktestPairBar[],
+  lastClose: Map<string, number>,
+  minConfidence: number,
+  nowMs: number,
+  liquidity: BacktestLiquiditySet,
+): void {
+  const dex = config.dexes[0] ?? 'aerodrome';
+  const closesByPair = new Map(bars.map((bar) => [bar.pair, bar.closes.slice(-RISK_LOOKBACK_BARS)]));
+  const riskLimits = riskLimitsFromConfig(config);
+  const quote = (pair: string, amountUsd: number) => quoteFill({
+    model: config.fillModel ?? 'flat',
+    dex,
+    pair,
+    amountUsd,
+    liquidityUsd: liquidity[pair],
+    flatSlippagePct: config.slippageSimulation,
+  });
+
+  const hasCapacity = engine.openPositions.length < config.maxOpenPositions;
+  const meetsConfidence = decision.confidence >= minConfidence;
+
+  if ((decision.action === 'buy' || decision.action === 'sell') && meetsConfidence && hasCapacity) {
+    const pair = normalizePairForDex(decision.targetPair ?? config.pairs[0]);
+    const price = lastClose.get(pair);
+    if (!price) return;
+    const atr = bars.find((b) => b.pair === pair)?.atr;
+    const leverage = Math.max(1, Math.min(decision.leverage ?? 1, config.maxLeverage));
+    const positionSizePct = computePositionSizePct({
+      sizing: sizingFromConfig(config),
+      suggestedPct: decision.suggestedPositionSizePct,
+      maxPositionSizePct: config.maxPositionSizePct,
+      priceUsd: price,
+      atr,
+      stopLossPct: config.stopLossPct,
+      leverage,
+      closedPositions: engine.closedPositions,
+    }).sizePct;
+    if (positionSizePct <= 0) return;
+    const trailingStop = resolveTrailingStopConfig(decision.order, atr, {
+      exitStrategy: config.behavior?.exitStrategy,
+      stopLossPct: config.stopLossPct,
+    });
+    const amountUsd = (engine.balance * positionSizePct) / 100;
+    if (riskLimits && evaluateEntryRisk(engine, { pair, side: decision.action, notionalUsd: amountUsd * leverage }, closesByPair, riskLimits)) {
+      return;
+    }
+    const fill = quote(pair, amountUsd * leverage);
+    try {
+      if (isRestingOrder(decision.order)) {
+        engine.placeOrder({
+          agentId: BACKTEST_AGENT_ID,
+          pair,
+          dex,
+          side: decision.action,
+          type: decision.order.type as 'limit' | 'stop',
+          triggerPrice: decision.order.triggerPrice,
+          positionSizePct,
+          maxPositionSizePct: config.maxPositionSizePct,
+          confidence: decision.confidence,
+          reasoning: decision.reasoning,
+          strategyUsed: config.strategies[0] ?? 'combined',
+          slippagePct: fill.slippagePct,
+          feePct: fill.feePct,
+          leverage,
+          trailingStop,
+          expiresAt: resolveOrderExpiry(decision.order, nowMs),
+        });
+        return;
+      }
+      engine.openPosition({
+        agentId: BACKTEST_AGENT_ID,
+        pair,
+        dex,
+        side: decision.action,
+        price,
+        amountUsd,
+        maxPositionSizePct: config.maxPositionSizePct,
+        balance: engine.balance,
+        confidence: decision.confidence,
+        reasoning: decision.reasoning,
+        strategyUsed: config.strategies[0] ?? 'combined',
+        slippagePct: fill.slippagePct,
+        feePct: fill.feePct,
+        leverage,
+        trailingStop,
+      });
+    } catch {
+      // Same as live: an order the engine rejects is simply not opened.
+    }
+  } else if (decision.action === 'add' || decision.action === 'reduce') {
+    const position = findScalablePosition(engine, decision.targetPair);
+    const price = position ? lastClose.get(position.pair) : undefined;
+    if (!position || !price) return;
+    try {
+      if (decision.action === 'reduce') {
+        engine.reducePosition(position.id, {
+          pct: decision.reducePct ?? DEFAULT_REDUCE_PCT,
+          price,
+          confidence: decision.confidence,
+          closeReason: 'llm_decision',
+        });
+        return;
+      }
+      if (!meetsConfidence || scaleInBlockReason(position, price, config.behavior?.averageDown === true)) return;
+      const positionSizePct = computeScaleInSizePct({
+        sizing: sizingFromConfig(config),
+        suggestedPct: decision.suggestedPositionSizePct,
+        maxPositionSizePct: config.maxPositionSizePct,
+        priceUsd: price,
+        atr: bars.find((b) => b.pair === position.pair)?.atr,
+        stopLossPct: config.stopLossPct,
+        leverage: position.leverage ?? 1,
+        closedPositions: engine.closedPositions,
+        balance: engine.balance,
+        positionAmountUsd: position.amountUsd,
+      }).sizePct;
+      if (positionSizePct <= 0) return;
+      const amountUsd = (engine.balance * positionSizePct) / 100;
+      const notionalUsd = amountUsd * (position.leverage ?? 1);
+      if (riskLimits && evaluateEntryRisk(engine, { pair: position.pair, side: position.side, notionalUsd }, closesByPair, riskLimits)) {
+        return;
+      }
+      const fill = quote(position.pair, notionalUsd);
+      engine.addToPosition(position.id, {
+        price,
+        amountUsd,
+        maxPositionSizePct: config.maxPositionSizePct,
+        confidence: decision.confidence,
+        reasoning: decision.reasoning,
+        slippagePct: fill.slippagePct,
+        feePct: fill.feePct,
+      });
+    } catch {
+      // Rejected by the engine (size cap, balance) — same as live.
+    }
+  } else if (decision.action === 'close') {
+    for (const position of engine.openPositions) {
+      const price = lastClose.get(position.pair);
+      if (!price) continue;
+      engine.closePosition(position.id, {
+        price,
+        confidence: decision.confidence,
+        closeReason: 'llm_decision',
+      });
+    }
+  }
+}
+
+/**
+ * Replay an agent config bar-by-bar over historical candles.
+ *
+ * Each bar follows the live tick order: daily-loss gate → stop-out cooldown →
+ * resting order fills → funding → per-position liquidation/SL/trailing/TP at
+ * the bar close → one decision → execution. The engine clock is pinned to the
+ * bar time so trade timestamps, funding and daily resets follow the replayed
+ * history rather than wall-clock time.
+ */
+export async function replayBacktest(params: ReplayBacktestParams): Promise<BacktestResult> {
+  const { config, candles, liquidity = {}, decide, mode = 'rules', closeOpenAtEnd = true } = params;
+  const timeline = buildTimeline(candles);
+  const barIntervalMs = timeline.length > 1 ? timeline[1] - timeline[0] : DEFAULT_BAR_INTERVAL_MS;
+  let clockIso = new Date(timeline[0] ?? 0).toISOString();
+  const engine = new PaperEngine({
+    balance: config.paperBalance,
+    slippage: config.slippageSimulation,
+    clock: () => clockIso,
+  });
+  const minConfidence = AgentBehaviorConfigSchema.parse(config.behavior ?? {}).confidenceThreshold / 100;
+  const riskLimits = riskLimitsFromConfig(config);
+
+  const cursor = new Map<string, number>();
+  const history = new Map<string, OHLCVCandle[]>();
+  const lastClose = new Map<string, number>();
+  let lastStopOutAt: number | undefined;
+  let halted: BacktestResult['halted'] = null;
+
+  for (let barIndex = 0; barIndex < timeline.length; barIndex++) {
+    const t = timeline[barIndex];
+    clockIso = new Date(t).toISOString();
+
+    const bars: BacktestPairBar[] = [];
+    for (const pair of config.pairs) {
+      const series = candles[pair] ?? [];
+      const idx = cursor.get(pair) ?? 0;
+      const candle = series[idx];
+      if (!candle || candle.t !== t) continue;
+      cursor.set(pair, idx + 1);
+      const seen = history.get(pair) ?? [];
+      seen.push(candle);
+      history.set(pair, seen);
+      lastClose.set(pair, candle.c);
+      bars.push({
+        pair,
+        candle,
+        closes: seen.map((c) => c.c),
+        candles: seen.slice(),
+        atr: computeAtr(seen.slice(-ATR_LOOKBACK_BARS)),
+      });
+    }
+
+    engine.resetDailyTrackingIfNeeded();
+    if (isDailyLossLimitReached(engine, config.maxDailyLossPct)) {
+      halted = { reason: 'daily_loss_limit', at: clockIso };
+      break;
+    }
+
+    if (isInStopOutCooldown(lastStopOutAt, t, config.cooldownAfterLossMinutes)) continue;
+
+    const closesByPair = new Map(bars.map((bar) => [bar.pair, bar.closes.slice(-RISK_LOOKBACK_BARS)]));
+    processPendingOrders(
+      engine,
+      (pair) => lastClose.get(pair),
+      config.maxOpenPositions,
+      (order) => (riskLimits ? evaluateEntryRisk(engine, pendingOrderCandidate(engine, order), closesByPair, riskLimits) : null),
+    );
+    engine.accrueFunding(config.fundingRatePct);
+
+    for (const position of engine.openPositions) {
+      const price = lastClose.get(position.pair);
+      if (!price) continue;
+      const verdict = evaluatePositionRisk(engine, position, price, config);
+      if (verdict === 'invalid_pricing') {
+        engine.closePosition(position.id, {
+          price,
+          reason: 'Closed automatically due to invalid entry pricing data',
+        });
+      } else if (verdict === 'liquidation') {
+        engine.liquidatePosition(position.id, price);
+        lastStopOutAt = t;
+      } else if (verdict === 'stop_loss') {
+        engine.stopOutPosition(position.id, price);
+        lastStopOutAt = t;
+      } else if (verdict === 'trailing_stop') {
+        engine.closePosition(position.id, {
+          price,
+          reason: 'Trailing stop triggered',
+          closeReason: 'trailing_stop',
+        });
+      } else if (verdict === 'take_profit') {
+        engine.closePosition(position.id, {
+          price,
+          reason: 'Take profit triggered',
+          closeReason: 'take_profit',
+        });
+      }
+    }
+
+    if (bars.length === 0) continue;
+    const decision = await decide({ barIndex, timestamp: clockIso, barIntervalMs, engine, config, bars });
+    applyDecision(engine, decision, config, bars, lastClose, minConfidence, t, liquidity);
+  }
+
+  if (closeOpenAtEnd && !halted) {
+    for (const position of engine.openPositions) {
+      const price = lastClose.get(position.pair);
+      if (!price) continue;
+      engine.closePosition(position.id, { price, reason: 'Backtest ended', closeReason: 'manual' });
+    }
+  }
+
+  const trades: Position[] = [...engine.closedPositions];
+  const closedPnl = trades.reduce((acc, t) => acc + (t.pnlUsd ?? 0), 0);
+  const metrics = computeMetrics(
+    trades.map((t) => ({ pnlPct: t.pnlPct ?? null, pnlUsd: t.pnlUsd ?? null })),
+    config.paperBalance,
+    config.paperBalance + closedPnl,
+  );
+
+  return {
+    mode,
+    bars: timeline.length,
+    startedAt: timeline.length > 0 ? new Date(timeline[0]).toISOString() : null,
+    endedAt: timeline.length > 0 ? new Date(timeline[timeline.length - 1]).toISOString() : null,
+    trades,
+    openPositions: engine.openPositions,
+    metrics,
+    halted,
+  };
+}
@@ -0,0 +1,69 @@
+import { INDICATOR_HISTORY_BARS } from '@something-in-loop/shared';
+import type { TradeDecision } from '@something-in-loop/shared';
+import { combineSignals, computeIndicators, dropUnlistedOhlcvSignals, evaluateSignals } from '../../services/indicators.js';
+import type { SignalResult } from '../../services/indicators.js';
+import type { BacktestAgentConfig, BacktestDecisionProvider } from './types.js';
+
+/** Bars a pair needs before its indicators are ready; matches the LLM provider's market data. */
+const RULE_MIN_BARS = 14;
+
+/**
+ * Keep only the signals for strategies the agent has enabled; `combined`
+ * enables the original indicator set, OHLCV-indicator strategies need listing
+ * by name. Custom rules are always on — defining one opts in.
+ */
+function filterSignalsForStrategies(signals: SignalResult[], strategies: BacktestAgentConfig['strategies']): SignalResult[] {
+  if (strategies.includes('combined')) return dropUnlistedOhlcvSignals(signals, strategies);
+  const enabled = new Set<string>(strategies);
+  return signals.filter((signal) => enabled.has(signal.strategy) || signal.strategy.startsWith('custom:'));
+}
+
+/**
+ * Deterministic decision provider for rule-only backtests (no LLM).
+ *
+ * Per pair with at least RULE_MIN_BARS of history: combine the enabled
+ * indicator signals. An open position whose side disagrees with the combined
+ * signal is exited with a 100% `reduce` on that pair (`close` would flatten
+ * every pair); otherwise the strongest buy/sell signal among pairs without an
+ * open position becomes the decision.
+ */
+export function createRuleDecisionProvider(): BacktestDecisionProvider {
+  return async ({ engine, config, bars }) => {
+    let best: TradeDecision | null = null;
+
+    for (const bar of bars) {
+      if (bar.candles.length < RULE_MIN_BARS) continue;
+      const candles = bar.candles.slice(-INDICATOR_HISTORY_BARS);
+      const indicators = computeIndicators(candles, config.indicatorPeriods);
+      const signals = filterSignalsForStrategies(
+        evaluateSignals(indicators, bar.candle.c, { rules: config.customRules, bars: candles }),
+        config.strategies,
+      );
+      const combined = combineSignals(signals);
+      if (combined.signal === 'hold') continue;
+
+      const state = engine.getCurrentPositionState(bar.pair);
+      if ((state === 'LONG' && combined.signal === 'sell') || (state === 'SHORT' && combined.signal === 'buy')) {
+        return {
+          action: 'reduce',
+          reducePct: 100,
+          confidence: combined.confidence,
+          reasoning: `${bar.pair}: ${combined.reason}`,
+          targetPair: bar.pair,
+        };
+      }
+      if (state !== 'FLAT') continue;
+
+      if (!best || combined.confidence > best.confidence) {
+        best = {
+          action: combined.signal,
+          confidence: combined.confidence,
+          reasoning: `${bar.pair}: ${combined.reason}`,
+          targetPair: bar.pair,
+        };
+      }
+    }
+
+    return best ?? { action: 'hold', confidence: 0.5, reasoning: 'No actionable rule signal' };
+  };
+}
@@ -0,0 +1,67 @@
+import type { AgentConfigSchema, TradeDecision } from '@something-in-loop/shared';
+import type { OHLCVCandle } from '../../services/gecko-terminal.js';
+import type { PaperEngine, Position } from '../../services/paper-engine.js';
+import type { AgentPerformanceMetrics } from '../../services/snapshot.js';
+
+export type BacktestAgentConfig = ReturnType<typeof AgentConfigSchema.parse>;
+
+/** Oldest-first candles per configured pair. */
+export type BacktestCandleSet = Record<string, OHLCVCandle[]>;
+
+/**
+ * Pool TVL (USD) per pair for the liquidity fill model. GeckoTerminal has no
+ * liquidity history, so this is the pool's current TVL applied to every bar.
+ */
+export type BacktestLiquiditySet = Record<string, number>;
+
+/** One pair's view of the market at the bar being replayed. */
+export type BacktestPairBar = {
+  pair: string;
+  candle: OHLCVCandle;
+  /** Close prices up to and including this bar, oldest first. */
+  closes: number[];
+  /** Candles up to and including this bar, oldest first (feeds the OHLCV indicators). */
+  candles: OHLCVCandle[];
+  /** ATR over the trailing window of candles, when there are enough bars. */
+  atr?: number;
+};
+
+/** Everything a decision provider may look at for one replayed bar. */
+export type BacktestDecisionContext = {
+  barIndex: number;
+  timestamp: string;
+  /** Spacing between replayed bars (e.g. one hour for hourly candles). */
+  barIntervalMs: number;
+  engine: PaperEngine;
+  config: BacktestAgentConfig;
+  bars: BacktestPairBar[];
+};
+
+/** Produces one trade decision per bar — indicator rules or an LLM persona. */
+export type BacktestDecisionProvider = (context: BacktestDecisionContext) => Promise<TradeDecision>;
+
+export type BacktestMode = 'rules' | 'llm';
+
+export type BacktestLlmStats = {
+  llmCalls: number;
+  cacheHits: number;
+  failures: number;
+};
+
+export type BacktestHaltReason = 'daily_loss_limit';
+
+export type BacktestResult = {
+  mode: BacktestMode;
+  bars: number;
+  startedAt: string | null;
+  endedAt: string | null;
+  /** Closed positions in close order, timestamped with replayed bar times. */
+  trades: Position[];
+  /** Positions still open after the last bar (empty when closeOpenAtEnd is set). */
+  openPositions: Position[];
+  metrics: AgentPerformanceMetrics;
+  /** Set when the live loop would have paused the agent part-way through. */
+  halted: { reason: BacktestHaltReason; at: string } | null;
+  /** LLM mode only: how many bars hit the decision cache vs. called the model. */
+  llm?: BacktestLlmStats;
+};
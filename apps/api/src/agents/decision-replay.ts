@@ -0,0 +1,287 @@
+/**
+ * Decision replay.
+ * Re-runs the exact prompt a stored decision was made with against a different
+ * model, temperature or persona, and lines the new answer up with the original
+ * decision and the trades the original actually produced.
+ */
+import { drizzle } from 'drizzle-orm/d1';
+import { and, asc, eq, gt, gte, lt, or } from 'drizzle-orm';
+import { TradeDecisionSchema } from '@something-in-loop/shared';
+import type { ReplayDecisionRequest, TradeDecision } from '@something-in-loop/shared';
+import type { Env } from '../types/env.js';
+import { agentDecisions, trades } from '../db/schema.js';
+import { ENSEMBLE_MODEL_PREFIX, replayTradeDecisionPrompt, TEAM_MODEL_PREFIX } from '../services/llm-router.js';
+import type { LLMRouterConfig } from '../services/llm-router.js';
+import { parseTradeDecisionResponse } from '../services/llm-router/response-parsers.js';
+import type { CachedAgentRow } from './trading-agent.js';
+import { reserveAgentLlmCall, resolveLlmCredentials } from './agent-loop/llm-config.js';
+
+type DecisionRow = typeof agentDecisions.$inferSelect;
+type TradeRow = typeof trades.$inferSelect;
+
+/** How long after a decision its trades may be stamped; the next decision closes the window earlier. */
+export const DECISION_TRADE_WINDOW_MS = 5 * 60_000;
+
+const PERSONA_HEADING = '\n## Your Persona\n';
+const CONSTRAINTS_HEADING = '\n## Constraints\n';
+const SPOT_ACTIONS: ReadonlySet<string> = new Set(TradeDecisionSchema.shape.action.options);
+
+export type DecisionReplayCaller = (config: LLMRouterConfig, fullPrompt: string) => ReturnType<typeof replayTradeDecisionPrompt>;
+
+export type DecisionOutcome = {
+  /** Positions the decision opened, added to, reduced or closed. */
+  trades: Array<Pick<TradeRow, 'id' | 'pair' | 'side' | 'entryPrice' | 'exitPrice' | 'amountUsd' | 'pnlPct' | 'pnlUsd' | 'status' | 'closeReason' | 'fillType' | 'openedAt' | 'closedAt'>>;
+  /** Summed over closed trades; null until one of them has closed. */
+  realizedPnlUsd: number | null;
+  openTrades: number;
+};
+
+export type DecisionReplayResult = {
+  original: {
+    id: string;
+    action: string;
+    confidence: number;
+    reasoning: string;
+    targetPair: string | null;
+    model: string;
+    createdAt: string;
+  };
+  replayed: Pick<TradeDecision, 'action' | 'confidence' | 'reasoning'> & {
+    targetPair: string | null;
+    suggestedPositionSizePct: number | null;
+    model: string;
+    temperature: number;
+    latencyMs: number;
+    tokensUsed: number | null;
+    rawResponse: string;
+  };
+  overrides: { model: boolean; temperature: boolean; persona: boolean };
+  sameAction: boolean;
+  outcome: DecisionOutcome;
+};
+
+type RunDecisionReplayParams = {
+  env: Env;
+  agentId: string;
+  agentRow: Pick<CachedAgentRow, 'ownerAddress'>;
+  decision: DecisionRow;
+  /** The agent's configured temperature, used when the request does not override it. */
+  temperature: number;
+  /** The agent's maxLlmCallsPerHour; a replay is charged against it like a tick. */
+  maxLlmCallsPerHour: number;
+  request: ReplayDecisionRequest;
+  /** Defaults to the llm-router; tests pass a stub. */
+  callLlm?: DecisionReplayCaller;
+};
+
+/** Whether a stored prompt came from the spot analysis prompt (perp prompts cannot be replayed). */
+export function isReplayableDecision(decision: Pick<DecisionRow, 'decision' | 'llmPromptText'>): boolean {
+  return SPOT_ACTIONS.has(decision.decision) && (decision.llmPromptText ?? '').includes(CONSTRAINTS_HEADING);
+}
+
+/**
+ * Swap the persona section of a stored analysis prompt. The persona always sits
+ * directly before "## Constraints"; an empty persona drops the section.
+ * Returns null when the prompt has no constraints section to anchor on.
+ */
+export function replacePersonaSection(prompt: string, personaMd: string): string | null {
+  const constraintsAt = prompt.lastIndexOf(CONSTRAINTS_HEADING);
+  if (constraintsAt === -1) return null;
+  const head = prompt.slice(0, constraintsAt + 1);
+  const tail = prompt.slice(constraintsAt + 1);
+  const personaAt = head.indexOf(PERSONA_HEADING);
+  const before = personaAt === -1 ? head : head.slice(0, personaAt + 1);
+  const persona = personaMd.trim() ? `${PERSONA_HEADING.slice(1)}${personaMd}\n\n` : '';
+  return before + persona + tail;
+}
+
+/**
+ * Pick the trades a decision produced from the agent's trades stamped inside
+ * its window. `add` lots resolve to their parent position in loadDecisionOutcome.
+ */
+export function selectDecisionTrades(action: string, rows: TradeRow[], window: { from: string; to: string }): TradeRow[] {
+  const inWindow = (at: string | null) => at !== null && at >= window.from && at < window.to;
+  switch (action) {
+    case 'buy':
+    case 'sell':
+      return rows.filter((t) => inWindow(t.openedAt) && t.parentTradeId === null && t.side === action);
+    case 'add':
+      return rows.filter((t) => inWindow(t.openedAt) && t.fillType === 'add');
+    case 'reduce':
+      return rows.filter((t) => inWindow(t.closedAt) && t.fillType === 'reduce');
+    case 'close':
+      return rows.filter((t) => inWindow(t.closedAt) && t.fillType === null && t.closeReason === 'llm_decision');
+    default:
+      return [];
+  }
+}
+
+export function summarizeDecisionOutcome(rows: TradeRow[]): DecisionOutcome {
+  const closed = rows.filter((t) => t.status === 'closed');
+  return {
+    trades: rows.map((t) => ({
+      id: t.id,
+      pair: t.pair,
+      side: t.side,
+      entryPrice: t.entryPrice,
+      exitPrice: t.exitPrice,
+      amountUsd: t.amountUsd,
+      pnlPct: t.pnlPct,
+      pnlUsd: t.pnlUsd,
+      status: t.status,
+      closeReason: t.closeReason,
+      fillType: t.fillType,
+      openedAt: t.openedAt,
+      closedAt: t.closedAt,
+    })),
+    realizedPnlUsd: closed.length > 0 ? closed.reduce((sum, t) => sum + (t.pnlUsd ?? 0), 0) : null,
+    openTrades: rows.filter((t) => t.status === 'open').length,
+  };
+}
+
+/** Trades carry no decision id, so match on what the agent recorded right after the decision. */
+export async function loadDecisionOutcome(db: ReturnType<typeof drizzle>, decision: DecisionRow): Promise<DecisionOutcome> {
+  const [next] = await db
+    .select({ createdAt: agentDecisions.createdAt })
+    .from(agentDecisions)
+    .where(and(eq(agentDecisions.agentId, decision.agentId), gt(agentDecisions.createdAt, decision.createdAt)))
+    .orderBy(asc(agentDecisions.createdAt))
+    .limit(1);
+  const windowEnd = new Date(Date.parse(decision.createdAt) + DECISION_TRADE_WINDOW_MS).toISOString();
+  const window = { from: decision.createdAt, to: next && next.createdAt < windowEnd ? next.createdAt : windowEnd };
+
+  const rows = await db
+    .select()
+    .from(trades)
+    .where(
+      and(
+        eq(trades.agentId, decision.agentId),
+        or(
+          and(gte(trades.openedAt, window.from), lt(trades.openedAt, window.to)),
+          and(gte(trades.closedAt, window.from), lt(trades.closedAt, window.to)),
+        ),
+      ),
+    );
+  let matched = selectDecisionTrades(decision.decision, rows, window);
+
+  if (decision.decision === 'add') {
+    const parentIds = [...new Set(matched.map((t) => t.parentTradeId).filter((id): id is string => id !== null))];
+    const parents = await Promise.all(
+      parentIds.map(async (id) => (await db.select().from(trades).where(eq(trades.id, id)))[0]),
+    );
+    matched = parents.filter((t): t is TradeRow => t !== undefined);
+  }
+  return summarizeDecisionOutcome(matched);
+}
+
+function parseStoredDecision(raw: string | null): TradeDecision | null {
+  if (!raw) return null;
+  try {
+    return parseTradeDecisionResponse(raw);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Replay one stored decision. Fallback models are disabled so the answer comes
+ * from the requested model or not at all.
+ * Returns `{ error }` when the decision cannot be replayed or the model fails,
+ * with `status: 429` when the rate limit or call budget leaves no room.
+ */
+export async function runDecisionReplay(
+  params: RunDecisionReplayParams,
+): Promise<{ result: DecisionReplayResult } | { error: string; status?: 429 }> {
+  const { env, agentId, agentRow, decision, request, callLlm = replayTradeDecisionPrompt } = params;
+  if (!decision.llmPromptText) {
+    return { error: 'Decision has no stored prompt to replay' };
+  }
+  if (!isReplayableDecision(decision)) {
+    return { error: 'Only spot trade decisions can be replayed' };
+  }
+
+  let prompt = decision.llmPromptText;
+  if (request.personaMd !== undefined) {
+    const edited = replacePersonaSection(prompt, request.personaMd);
+    if (edited === null) return { error: 'Stored prompt has no persona section to edit' };
+    prompt = edited;
+  }
+
+  if (!request.model && decision.llmModel.startsWith(ENSEMBLE_MODEL_PREFIX)) {
+    return { error: 'Ensemble decisions need a model to replay against' };
+  }
+
+  // Team decisions store the executor's prompt (deliberation included), so they replay against the executor model.
+  const recordedModel = decision.llmModel.startsWith(TEAM_MODEL_PREFIX)
+    ? decision.llmModel.slice(TEAM_MODEL_PREFIX.length)
+    : decision.llmModel;
+  const model = request.model ?? recordedModel;
+  const temperature = request.temperature ?? params.temperature;
+  const db = drizzle(env.DB);
+  const credentials = await resolveLlmCredentials({
+    env,
+    db,
+    agentId,
+    agentRow,
+    effectiveLlmModel: model,
+    marketData: [],
+    recordHoldDecisions: false,
+  });
+  if (!credentials) {
+    return { error: `No LLM credentials available for model ${model}` };
+  }
+
+  const limited = await reserveAgentLlmCall(env, agentId, agentRow.ownerAddress, params.maxLlmCallsPerHour);
+  if (limited) return { error: limited, status: 429 };
+
+  let replayed: Awaited<ReturnType<DecisionReplayCaller>>;
+  try {
+    replayed = await callLlm(
+      {
+        apiKey: credentials.llmApiKey,
+        model,
+        allowFallback: false,
+        temperature,
+        timeoutMs: 90_000,
+        provider: credentials.llmProvider,
+      },
+      prompt,
+    );
+  } catch (err) {
+    return { error: `Replay failed: ${err instanceof Error ? err.message : String(err)}` };
+  }
+
+  const original = parseStoredDecision(decision.llmRawResponse);
+  return {
+    result: {
+      original: {
+        id: decision.id,
+        action: decision.decision,
+        confidence: decision.confidence,
+        reasoning: decision.reasoning,
+        targetPair: original?.targetPair ?? null,
+        model: decision.llmModel,
+        createdAt: decision.createdAt,
+      },
+      replayed: {
+        action: replayed.action,
+        confidence: replayed.confidence,
+        reasoning: replayed.reasoning,
+        targetPair: replayed.targetPair ?? null,
+        suggestedPositionSizePct: replayed.suggestedPositionSizePct ?? null,
+        model: replayed.modelUsed,
+        temperature,
+        latencyMs: replayed.latencyMs,
+        tokensUsed: replayed.tokensUsed ?? null,
+        rawResponse: replayed.llmRawResponse,
+      },
+      overrides: {
+        model: model !== recordedModel,
+        temperature: request.temperature !== undefined,
+        persona: request.personaMd !== undefined,
+      },
+      sameAction: replayed.action === decision.decision,
+      outcome: await loadDecisionOutcome(db, decision),
+    },
+  };
+}
@@ -3,3 +3,4 @@ export { parseManagerDecisions } from './manager-loop/parsing.js';
 export { buildManagerPrompt } from './manager-loop/prompt.js';
 export { executeManagerAction, normalizeManagerAnalysisInterval } from './manager-loop/actions.js';
 export { runManagerLoop } from './manager-loop/runner.js';
+export { runManagerRiskGuard } from './manager-loop/risk-guard.js';
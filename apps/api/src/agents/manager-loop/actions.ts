@@ -7,6 +7,7 @@ import { getDefaultManagerMaxAgents, getMaxAgentsPerUser } from '../../lib/entit
 import { generateId, nowIso } from '../../lib/utils.js';
 import { normalizePairsForDex } from '../../lib/pairs.js';
 import {
+  getTradingAgentEngineStateDo,
   pauseTradingAgentDo,
   setTradingAgentIntervalDo,
   startTradingAgentDo,
@@ -23,7 +24,19 @@ import {
   normalizeTradingInterval,
 } from '@something-in-loop/shared';
 import type { ManagerDecision } from './types.js';
+import {
+  checkCapitalAllocation,
+  executeCapitalTransfers,
+  holdingFromEngineState,
+  managerCapitalLimits,
+  planRebalance,
+  totalManagedCapital,
+} from './capital.js';
+import type { AgentHolding, CapitalMoveLog, ManagerCapitalLimits } from './capital.js';
 import { verifyModelHealth } from '../../services/llm-router/index.js';
+import { recordConfigVersion } from '../../services/config-versions.js';
+import { recordManagerParameterChange } from './memory.js';
+import { resolveOpenPositionPrices } from './risk-guard.js';
 
 const MANAGER_DISALLOWED_AGENT_PARAMS = new Set([
   'chain',
@@ -77,6 +90,61 @@ function isManagerControlledAgent(
   return agent.ownerAddress === ownerAddress && agent.managerId === managerId;
 }
 
+type ManagerActionResult = {
+  success: boolean;
+  detail?: string;
+  error?: string;
+  /** Pool and per-agent balances before/after, for allocate_capital and rebalance. */
+  capital?: CapitalMoveLog;
+};
+
+type CapitalContext = {
+  poolUsd: number;
+  holdings: AgentHolding[];
+  totalCapitalUsd: number;
+  limits: ManagerCapitalLimits;
+};
+
+/** Pool, limits and the engines of the manager's started paper agents. */
+async function loadCapitalContext(
+  db: ReturnType<typeof drizzle>,
+  env: Env,
+  managerId: string,
+  ownerAddress: string,
+): Promise<CapitalContext | { error: string }> {
+  const [manager] = await db.select().from(agentManagers).where(eq(agentManagers.id, managerId));
+  if (!manager) return { error: `Manager ${managerId} not found` };
+  if (manager.ownerAddress !== ownerAddress) {
+    return { error: `Manager ${managerId} does not belong to owner ${ownerAddress}` };
+  }
+  const managerConfig = JSON.parse(manager.config) as { riskParams?: unknown };
+
+  const managedRows = await db.select().from(agents).where(eq(agents.managerId, managerId));
+  const holdings: AgentHolding[] = [];
+  const priceCache = new Map<string, number>();
+  for (const agent of managedRows) {
+    if (!isManagerControlledAgent(agent, ownerAddress, managerId) || !isPaperAgentRow(agent)) continue;
+    if (agent.status !== 'running' && agent.status !== 'paused') continue;
+    try {
+      const state = await getTradingAgentEngineStateDo(env, agent.id);
+      if (state) {
+        const prices = await resolveOpenPositionPrices(env, state.positions, priceCache);
+        holdings.push(holdingFromEngineState(agent.id, state, prices));
+      }
+    } catch (err) {
+      console.warn(`[manager-loop] failed to read engine state for ${agent.id}:`, err);
+    }
+  }
+
+  const poolUsd = manager.capitalPoolUsd ?? 0;
+  return {
+    poolUsd,
+    holdings,
+    totalCapitalUsd: totalManagedCapital(poolUsd, holdings),
+    limits: managerCapitalLimits(managerConfig.riskParams),
+  };
+}
+
 /** Execute a single manager decision against D1 + DO stubs */
 export async function executeManagerAction(
   decision: ManagerDecision,
@@ -86,7 +154,7 @@ export async function executeManagerAction(
   ownerAddress: string,
   hasUserOpenRouterKey = false,
   llmApiKey?: string,
-): Promise<{ success: boolean; detail?: string; error?: string }> {
+): Promise<ManagerActionResult> {
   const { action, agentId, params } = decision;
   const allowedModels = buildAllowedAgentModels(hasUserOpenRouterKey);
 
@@ -199,10 +267,11 @@ export async function executeManagerAction(
       delete mergedConfig.initiaMetadataVersion;
       mergedConfig.analysisInterval = nextAnalysisInterval;
       const analysisIntervalChanged = nextAnalysisInterval !== previousAnalysisInterval;
+      const nextConfig = JSON.stringify(mergedConfig);
       const updates: Partial<typeof agents.$inferInsert> = {
         chain: 'base',
         isPaper: true,
-        config: JSON.stringify(mergedConfig),
+        config: nextConfig,
         llmModel: (mergedConfig.llmModel ?? agent.llmModel) || DEFAULT_FREE_AGENT_MODEL,
         updatedAt: nowIso(),
       };
@@ -210,6 +279,23 @@ export async function executeManagerAction(
         updates.personaMd = typeof paramsPersona === 'string' ? paramsPersona : null;
       }
       await db.update(agents).set(updates).where(eq(agents.id, agentId));
+      const configVersion = await recordConfigVersion(db, {
+        agentId,
+        config: nextConfig,
+        author: 'manager',
+        authorRef: managerId,
+        note: decision.reasoning || null,
+      });
+      try {
+        await recordManagerParameterChange(db, {
+          managerId,
+          agent,
+          changes: { ...patch, ...(paramsPersona !== undefined && { personaMd: updates.personaMd }) },
+          configVersionId: configVersion.id,
+        });
+      } catch (err) {
+        console.warn(`[manager-loop] ${managerId}: failed to record parameter change for ${agentId}:`, err);
+      }
       const [updatedAgent] = await db.select().from(agents).where(eq(agents.id, agentId));
 
       if (agent.status === 'running' && updatedAgent) {
@@ -332,6 +418,7 @@ export async function executeManagerAction(
         updatedAt: now,
       };
       await db.insert(agents).values(agentRow);
+      await recordConfigVersion(db, { agentId: id, config: agentRow.config, author: 'manager', authorRef: managerId, note: 'created' });
       await startTradingAgentDo(env, {
         agentId: id,
         paperBalance,
@@ -342,6 +429,46 @@ export async function executeManagerAction(
       return { success: true, detail: `Agent ${id} created and started` };
     }
 
+    case 'allocate_capital': {
+      if (!agentId) return { success: false, error: 'allocate_capital requires agentId' };
+      const capitalCtx = await loadCapitalContext(db, env, managerId, ownerAddress);
+      if ('error' in capitalCtx) return { success: false, error: capitalCtx.error };
+      const holding = capitalCtx.holdings.find((h) => h.agentId === agentId);
+      if (!holding) {
+        return { success: false, error: `Agent ${agentId} is not a started paper agent of manager ${managerId}` };
+      }
+      const amountUsd = Math.round(Number(params?.amountUsd) * 100) / 100;
+      const violation = checkCapitalAllocation({ ...capitalCtx, holding, amountUsd });
+      if (violation) return { success: false, error: violation };
+
+      const capital = await executeCapitalTransfers({
+        env,
+        db,
+        managerId,
+        poolUsd: capitalCtx.poolUsd,
+        transfers: [{ agentId, deltaUsd: amountUsd }],
+      });
+      const [transfer] = capital.transfers;
+      if (transfer.error) return { success: false, error: `Capital move failed: ${transfer.error}`, capital };
+      const direction = amountUsd > 0 ? `to ${agentId} from the pool` : `from ${agentId} to the pool`;
+      return { success: true, detail: `Moved $${Math.abs(amountUsd).toFixed(2)} ${direction}`, capital };
+    }
+
+    case 'rebalance': {
+      const capitalCtx = await loadCapitalContext(db, env, managerId, ownerAddress);
+      if ('error' in capitalCtx) return { success: false, error: capitalCtx.error };
+      const transfers = planRebalance(capitalCtx.holdings, capitalCtx.totalCapitalUsd, capitalCtx.limits);
+      if (transfers.length === 0) return { success: true, detail: 'Capital already balanced, nothing moved' };
+
+      const capital = await executeCapitalTransfers({ env, db, managerId, poolUsd: capitalCtx.poolUsd, transfers });
+      const applied = capital.transfers.filter((t) => !t.error);
+      if (applied.length === 0) {
+        return { success: false, error: `No capital moved: ${capital.transfers.map((t) => `${t.agentId}: ${t.error}`).join('; ')}`, capital };
+      }
+      const movedUsd = applied.filter((t) => t.deltaUsd > 0).reduce((sum, t) => sum + t.deltaUsd, 0);
+      return { success: true, detail: `Rebalanced $${movedUsd.toFixed(2)} across ${applied.length} agents`, capital };
+    }
+
     default:
       return { success: false, error: `Unknown action: ${String(action)}` };
   }
@@ -0,0 +1,272 @@
+import { drizzle } from 'drizzle-orm/d1';
+import { and, eq, gte, sql } from 'drizzle-orm';
+import { ManagerRiskParamsSchema } from '@something-in-loop/shared';
+import type { Env } from '../../types/env.js';
+import { agentManagers, agents } from '../../db/schema.js';
+import { adjustTradingAgentCapitalDo, syncTradingAgentConfigDo } from '../../lib/do-clients.js';
+import { nowIso } from '../../lib/utils.js';
+import { PaperEngine } from '../../services/paper-engine.js';
+import { recordConfigVersion } from '../../services/config-versions.js';
+
+export type ManagerCapitalLimits = {
+  maxAgentAllocation: number;
+  maxRebalanceShare: number;
+  minAgentBalanceUsd: number;
+};
+
+/** A managed agent's paper account: cash that can move, and equity with open positions marked to market. */
+export type AgentHolding = {
+  agentId: string;
+  cashUsd: number;
+  equityUsd: number;
+  /** Return on starting capital; transfers shift the baseline, so this is performance only. */
+  totalPnlPct: number;
+};
+
+/** Positive deltas fund the agent, negative ones return cash to the pool. */
+export type CapitalTransfer = { agentId: string; deltaUsd: number };
+
+export type CapitalTransferLog = CapitalTransfer & {
+  balanceBefore: number | null;
+  balanceAfter: number | null;
+  error?: string;
+};
+
+/** Logged on the manager action result. */
+export type CapitalMoveLog = {
+  poolBefore: number;
+  poolAfter: number;
+  transfers: CapitalTransferLog[];
+};
+
+/** Weight floor so a losing agent is drained gradually rather than emptied in one rebalance. */
+const MIN_REBALANCE_WEIGHT = 0.25;
+/** Rebalances moving less than this are skipped. */
+const MIN_REBALANCE_USD = 1;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/** Capital limits from stored risk params; configs saved before the limits existed get the defaults. */
+export function managerCapitalLimits(riskParams: unknown): ManagerCapitalLimits {
+  const parsed = ManagerRiskParamsSchema.safeParse(riskParams ?? {});
+  const params = parsed.success ? parsed.data : ManagerRiskParamsSchema.parse({});
+  return {
+    maxAgentAllocation: params.maxAgentAllocation,
+    maxRebalanceShare: params.maxRebalanceShare,
+    minAgentBalanceUsd: params.minAgentBalanceUsd,
+  };
+}
+
+/** `prices` marks open positions by pair; a pair without a price stays at cost. */
+export function holdingFromEngineState(
+  agentId: string,
+  state: ReturnType<PaperEngine['serialize']>,
+  prices: Map<string, number> = new Map(),
+): AgentHolding {
+  const equityUsd = PaperEngine.deserialize(state).markToMarket(prices).equity;
+  return {
+    agentId,
+    cashUsd: state.balance,
+    equityUsd,
+    totalPnlPct: state.initialBalance > 0 ? ((equityUsd - state.initialBalance) / state.initialBalance) * 100 : 0,
+  };
+}
+
+/** Pool plus every managed agent's equity. */
+export function totalManagedCapital(poolUsd: number, holdings: AgentHolding[]): number {
+  return poolUsd + holdings.reduce((sum, h) => sum + h.equityUsd, 0);
+}
+
+/** Why an allocate_capital of `amountUsd` breaks the limits, or null when allowed. */
+export function checkCapitalAllocation(params: {
+  holding: AgentHolding;
+  amountUsd: number;
+  poolUsd: number;
+  totalCapitalUsd: number;
+  limits: ManagerCapitalLimits;
+}): string | null {
+  const { holding, amountUsd, poolUsd, totalCapitalUsd, limits } = params;
+  if (!Number.isFinite(amountUsd) || round2(amountUsd) === 0) return 'allocate_capital requires a non-zero params.amountUsd';
+
+  const maxMove = totalCapitalUsd * limits.maxRebalanceShare;
+  if (Math.abs(amountUsd) > maxMove) {
+    return `Moving $${Math.abs(amountUsd).toFixed(2)} exceeds the per-action limit of $${maxMove.toFixed(2)} (${(limits.maxRebalanceShare * 100).toFixed(0)}% of managed capital)`;
+  }
+
+  if (amountUsd > 0) {
+    if (amountUsd > poolUsd) return `Capital pool has $${poolUsd.toFixed(2)}, cannot allocate $${amountUsd.toFixed(2)}`;
+    const maxHolding = totalCapitalUsd * limits.maxAgentAllocation;
+    if (holding.equityUsd + amountUsd > maxHolding) {
+      return `Agent ${holding.agentId} would hold $${(holding.equityUsd + amountUsd).toFixed(2)}, above the $${maxHolding.toFixed(2)} cap (${(limits.maxAgentAllocation * 100).toFixed(0)}% of managed capital)`;
+    }
+    return null;
+  }
+
+  const withdrawable = Math.max(0, holding.cashUsd - limits.minAgentBalanceUsd);
+  if (-amountUsd > withdrawable) {
+    return `Agent ${holding.agentId} can release at most $${withdrawable.toFixed(2)} (cash $${holding.cashUsd.toFixed(2)}, keeps $${limits.minAgentBalanceUsd.toFixed(2)})`;
+  }
+  return null;
+}
+
+/**
+ * Performance-weighted rebalance between agents (the pool is untouched).
+ * Targets split the agents' combined equity by `1 + return`, floored at
+ * MIN_REBALANCE_WEIGHT and capped at maxAgentAllocation of managed capital.
+ * Donors only give free cash above minAgentBalanceUsd, and the total moved is
+ * capped at maxRebalanceShare. Withdrawals come first; deltas sum to zero.
+ */
+export function planRebalance(
+  holdings: AgentHolding[],
+  totalCapitalUsd: number,
+  limits: ManagerCapitalLimits,
+): CapitalTransfer[] {
+  if (holdings.length < 2) return [];
+  const equity = holdings.reduce((sum, h) => sum + h.equityUsd, 0);
+  const weights = holdings.map((h) => Math.max(MIN_REBALANCE_WEIGHT, 1 + h.totalPnlPct / 100));
+  const weightSum = weights.reduce((sum, w) => sum + w, 0);
+  const maxHolding = totalCapitalUsd * limits.maxAgentAllocation;
+
+  const gives = new Map<string, number>();
+  const needs = new Map<string, number>();
+  holdings.forEach((h, i) => {
+    const target = Math.min((equity * weights[i]) / weightSum, maxHolding);
+    const delta = target - h.equityUsd;
+    if (delta > 0) needs.set(h.agentId, delta);
+    const give = Math.min(-delta, h.cashUsd - limits.minAgentBalanceUsd);
+    if (delta < 0 && give > 0) gives.set(h.agentId, give);
+  });
+
+  const totalGive = [...gives.values()].reduce((sum, v) => sum + v, 0);
+  const totalNeed = [...needs.values()].reduce((sum, v) => sum + v, 0);
+  const moved = round2(Math.min(totalGive, totalNeed, totalCapitalUsd * limits.maxRebalanceShare));
+  if (moved < MIN_REBALANCE_USD) return [];
+
+  const withdrawals = [...gives].map(([agentId, give]) => ({ agentId, deltaUsd: -round2((give * moved) / totalGive) }));
+  const deposits = [...needs].map(([agentId, need]) => ({ agentId, deltaUsd: round2((need * moved) / totalNeed) }));
+  // Absorb rounding drift in the largest deposit so the agents' total is unchanged.
+  const drift = round2(withdrawals.reduce((sum, t) => sum + t.deltaUsd, 0) + deposits.reduce((sum, t) => sum + t.deltaUsd, 0));
+  const largest = deposits.reduce((best, t) => (t.deltaUsd > best.deltaUsd ? t : best));
+  largest.deltaUsd = round2(largest.deltaUsd - drift);
+
+  return [...withdrawals, ...deposits].filter((t) => t.deltaUsd !== 0);
+}
+
+/**
+ * Add `deltaUsd` to the manager's pool in one statement, so a concurrent
+ * PATCH of capitalPoolUsd is built on rather than overwritten. A debit only
+ * applies while the pool still covers it. Returns the new pool, or null when
+ * the debit did not fit.
+ */
+async function adjustCapitalPool(
+  db: ReturnType<typeof drizzle>,
+  managerId: string,
+  deltaUsd: number,
+): Promise<number | null> {
+  const [row] = await db
+    .update(agentManagers)
+    .set({ capitalPoolUsd: sql`round(${agentManagers.capitalPoolUsd} + ${deltaUsd}, 2)`, updatedAt: nowIso() })
+    .where(and(eq(agentManagers.id, managerId), ...(deltaUsd < 0 ? [gte(agentManagers.capitalPoolUsd, -deltaUsd)] : [])))
+    .returning({ capitalPoolUsd: agentManagers.capitalPoolUsd });
+  return row ? row.capitalPoolUsd : null;
+}
+
+/**
+ * Shift the agent's configured paperBalance by a transfer, as the engine's
+ * initialBalance already was. Snapshots, analytics and comparisons measure
+ * returns against paperBalance, so otherwise a deposit reads as profit and a
+ * withdrawal as a loss. The new config is versioned and, while the agent
+ * runs, pushed to its DO.
+ */
+async function shiftPaperBalance(params: {
+  env: Env;
+  db: ReturnType<typeof drizzle>;
+  managerId: string;
+  agentId: string;
+  deltaUsd: number;
+}): Promise<void> {
+  const { env, db, managerId, agentId, deltaUsd } = params;
+  const [agent] = await db
+    .update(agents)
+    .set({
+      config: sql`json_set(${agents.config}, '$.paperBalance', round(coalesce(json_extract(${agents.config}, '$.paperBalance'), 10000) + ${deltaUsd}, 2))`,
+      updatedAt: nowIso(),
+    })
+    .where(eq(agents.id, agentId))
+    .returning();
+  if (!agent) return;
+  await recordConfigVersion(db, {
+    agentId,
+    config: agent.config,
+    author: 'manager',
+    authorRef: managerId,
+    note: `capital transfer ${deltaUsd > 0 ? '+' : '-'}$${Math.abs(deltaUsd).toFixed(2)}`,
+  });
+  if (agent.status !== 'running') return;
+  await syncTradingAgentConfigDo(env, agentId, {
+    id: agent.id,
+    name: agent.name,
+    status: agent.status,
+    config: agent.config,
+    ownerAddress: agent.ownerAddress ?? null,
+    llmModel: agent.llmModel ?? null,
+    profileId: agent.profileId ?? null,
+    personaMd: agent.personaMd ?? null,
+    chain: agent.chain ?? null,
+    isPaper: agent.isPaper ?? null,
+  });
+}
+
+/**
+ * Apply transfers through the agents' DOs and settle each one with the pool.
+ * A deposit is debited from the pool before the agent is funded and refunded
+ * if funding fails; a withdrawal is credited once the agent has released it.
+ * A deposit never exceeds what the pool holds at that point, so a failed
+ * withdrawal shrinks later deposits instead of overdrawing the pool.
+ */
+export async function executeCapitalTransfers(params: {
+  env: Env;
+  db: ReturnType<typeof drizzle>;
+  managerId: string;
+  poolUsd: number;
+  transfers: CapitalTransfer[];
+}): Promise<CapitalMoveLog> {
+  const { env, db, managerId, poolUsd, transfers } = params;
+  let pool = poolUsd;
+  const logs: CapitalTransferLog[] = [];
+
+  for (const transfer of transfers) {
+    const deltaUsd = transfer.deltaUsd > 0 ? round2(Math.min(transfer.deltaUsd, pool)) : transfer.deltaUsd;
+    if (deltaUsd === 0) {
+      logs.push({ ...transfer, balanceBefore: null, balanceAfter: null, error: 'Capital pool is empty' });
+      continue;
+    }
+    if (deltaUsd > 0) {
+      const debited = await adjustCapitalPool(db, managerId, -deltaUsd);
+      if (debited === null) {
+        logs.push({ ...transfer, balanceBefore: null, balanceAfter: null, error: `Capital pool no longer holds $${deltaUsd.toFixed(2)}` });
+        continue;
+      }
+      pool = debited;
+    }
+
+    let balances: { balanceBefore: number; balanceAfter: number };
+    try {
+      balances = await adjustTradingAgentCapitalDo(env, transfer.agentId, deltaUsd);
+    } catch (err) {
+      if (deltaUsd > 0) pool = (await adjustCapitalPool(db, managerId, deltaUsd)) ?? pool;
+      logs.push({ ...transfer, balanceBefore: null, balanceAfter: null, error: err instanceof Error ? err.message : String(err) });
+      continue;
+    }
+    if (deltaUsd < 0) pool = (await adjustCapitalPool(db, managerId, -deltaUsd)) ?? pool;
+    logs.push({ agentId: transfer.agentId, deltaUsd, ...balances });
+
+    try {
+      await shiftPaperBalance({ env, db, managerId, agentId: transfer.agentId, deltaUsd });
+    } catch (err) {
+      console.warn(`[manager-loop] ${managerId}: failed to shift paperBalance for ${transfer.agentId}:`, err);
+    }
+  }
+
+  return { poolBefore: poolUsd, poolAfter: pool, transfers: logs };
+}
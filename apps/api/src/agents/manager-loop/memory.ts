@@ -0,0 +1,205 @@
+/**
+ * Manager memory in D1: hypotheses, the parameter history of modify_agent
+ * changes, and the market regime.
+ *
+ * Parameter changes are measured the way self-modifications are: closed-trade
+ * metrics over PARAMETER_OUTCOME_CYCLES analysis cycles before the change are
+ * the baseline, and once the agent has logged that many decisions after it,
+ * the metrics up to the last of them become the outcome_after_n_cycles the
+ * prompt shows. Counting decisions rather than elapsed time keeps a paused or
+ * stopped agent's idle stretch out of the outcome.
+ */
+import { drizzle } from 'drizzle-orm/d1';
+import { and, desc, eq, gt, isNull, lte } from 'drizzle-orm';
+import { intervalToMs } from '@something-in-loop/shared';
+import { agentDecisions, agents, managerHypotheses, managerParameterChanges } from '../../db/schema.js';
+import { parseJsonRequired } from '../../lib/json.js';
+import { generateId, nowIso } from '../../lib/utils.js';
+import { parseStoredJsonOr } from '../../routes/_shared/parse-stored-json.js';
+import {
+  evaluationSettingsFromConfig,
+  loadWindowMetrics,
+  pickPreviousValues,
+} from '../../services/self-modification.js';
+import type { SelfModWindowMetrics } from '../../services/self-modification.js';
+import type { ManagerMemory } from './types.js';
+
+type Db = ReturnType<typeof drizzle>;
+
+/** Agent analysis cycles in each side of a parameter change's measurement window. */
+export const PARAMETER_OUTCOME_CYCLES = 10;
+/** Most recent entries of each kind the prompt carries. */
+const PROMPT_HYPOTHESES_LIMIT = 20;
+const PROMPT_PARAMETER_HISTORY_LIMIT = 10;
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return 'unset';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+/** Only the keys whose value actually changes. */
+export function changedParams(config: Record<string, unknown>, changes: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(changes).filter(([key, value]) => JSON.stringify(config[key] ?? null) !== JSON.stringify(value ?? null)),
+  );
+}
+
+/** "stopLossPct 5 → 3; pairs ["WETH/USDC"] → [...]" */
+export function describeParameterChange(previous: Record<string, unknown>, changes: Record<string, unknown>): string {
+  return Object.entries(changes)
+    .map(([key, value]) => (key === 'personaMd' ? 'personaMd rewritten' : `${key} ${formatValue(previous[key])} → ${formatValue(value)}`))
+    .join('; ');
+}
+
+function formatWindow(metrics: SelfModWindowMetrics): string {
+  const pnl = `${metrics.totalPnlPct >= 0 ? '+' : ''}${metrics.totalPnlPct.toFixed(2)}%`;
+  return `${metrics.totalTrades} trades, win rate ${(metrics.winRate * 100).toFixed(0)}%, P&L ${pnl}`;
+}
+
+/** The outcome line stored on the change, from measured metrics only. */
+export function describeParameterOutcome(
+  baseline: SelfModWindowMetrics,
+  after: SelfModWindowMetrics,
+  cycles: number,
+): string {
+  if (after.totalTrades === 0) {
+    return `No trades closed in ${cycles} cycles (before: ${formatWindow(baseline)})`;
+  }
+  return `After ${cycles} cycles: ${formatWindow(after)} (before: ${formatWindow(baseline)})`;
+}
+
+/**
+ * Record a modify_agent change with the baseline window before it. `agent` is
+ * the row as it was before the change (personaMd lives on the row, not in the
+ * config); a change that sets every key to its current value is not recorded.
+ */
+export async function recordManagerParameterChange(
+  db: Db,
+  params: {
+    managerId: string;
+    agent: { id: string; config: string; personaMd: string | null };
+    changes: Record<string, unknown>;
+    configVersionId?: string | null;
+    now?: Date;
+  },
+): Promise<void> {
+  const now = params.now ?? new Date();
+  const previousConfig = {
+    ...parseJsonRequired<Record<string, unknown>>(params.agent.config),
+    personaMd: params.agent.personaMd,
+  };
+  const changes = changedParams(previousConfig, params.changes);
+  if (Object.keys(changes).length === 0) return;
+
+  const settings = evaluationSettingsFromConfig({ ...previousConfig, ...changes });
+  const windowMs = PARAMETER_OUTCOME_CYCLES * intervalToMs(settings.analysisInterval);
+  const changeAt = now.toISOString();
+  const baseline = await loadWindowMetrics(db, params.agent.id, settings.paperBalance, {
+    from: new Date(now.getTime() - windowMs).toISOString(),
+    to: changeAt,
+  });
+
+  await db.insert(managerParameterChanges).values({
+    id: generateId('mpc'),
+    managerId: params.managerId,
+    agentId: params.agent.id,
+    change: describeParameterChange(previousConfig, changes),
+    changes: JSON.stringify(changes),
+    previousValues: JSON.stringify(pickPreviousValues(previousConfig, changes)),
+    configVersionId: params.configVersionId ?? null,
+    evaluationCycles: PARAMETER_OUTCOME_CYCLES,
+    baselineMetrics: JSON.stringify(baseline),
+    evaluateAfter: new Date(now.getTime() + windowMs).toISOString(),
+    changeAt,
+  });
+}
+
+/**
+ * Fill the outcome of every change the agent has run its evaluation cycles
+ * since. evaluateAfter is only the earliest such time; a change whose agent
+ * has made fewer decisions stays pending. Returns how many were evaluated.
+ */
+export async function evaluateDueParameterChanges(db: Db, managerId: string, now = new Date()): Promise<number> {
+  const due = await db
+    .select()
+    .from(managerParameterChanges)
+    .where(and(
+      eq(managerParameterChanges.managerId, managerId),
+      isNull(managerParameterChanges.evaluatedAt),
+      lte(managerParameterChanges.evaluateAfter, now.toISOString()),
+    ))
+    .orderBy(managerParameterChanges.changeAt);
+
+  let evaluated = 0;
+  for (const row of due) {
+    const [agent] = await db.select({ config: agents.config }).from(agents).where(eq(agents.id, row.agentId));
+    let outcome: string;
+    let metrics: SelfModWindowMetrics | null = null;
+    if (!agent) {
+      outcome = 'Agent was deleted before the change could be measured';
+    } else {
+      const cycles = await db
+        .select({ createdAt: agentDecisions.createdAt })
+        .from(agentDecisions)
+        .where(and(eq(agentDecisions.agentId, row.agentId), gt(agentDecisions.createdAt, row.changeAt)))
+        .orderBy(agentDecisions.createdAt)
+        .limit(row.evaluationCycles);
+      if (cycles.length < row.evaluationCycles) continue;
+
+      const settings = evaluationSettingsFromConfig(parseStoredJsonOr<Record<string, unknown>>(agent.config, {}));
+      metrics = await loadWindowMetrics(db, row.agentId, settings.paperBalance, {
+        from: row.changeAt,
+        to: cycles[cycles.length - 1].createdAt,
+      });
+      const baseline = parseJsonRequired<SelfModWindowMetrics>(row.baselineMetrics);
+      outcome = describeParameterOutcome(baseline, metrics, row.evaluationCycles);
+    }
+    await db
+      .update(managerParameterChanges)
+      .set({
+        outcomeAfterNCycles: outcome,
+        outcomeMetrics: metrics ? JSON.stringify(metrics) : null,
+        evaluatedAt: nowIso(),
+      })
+      .where(eq(managerParameterChanges.id, row.id));
+    evaluated++;
+  }
+  return evaluated;
+}
+
+/** The memory the prompt renders, read from D1. */
+export async function loadManagerMemory(
+  db: Db,
+  manager: { id: string; marketRegime: string | null; lastEvaluationAt: string | null },
+): Promise<ManagerMemory> {
+  const hypotheses = await db
+    .select()
+    .from(managerHypotheses)
+    .where(eq(managerHypotheses.managerId, manager.id))
+    .orderBy(desc(managerHypotheses.createdAt))
+    .limit(PROMPT_HYPOTHESES_LIMIT);
+  const changes = await db
+    .select()
+    .from(managerParameterChanges)
+    .where(eq(managerParameterChanges.managerId, manager.id))
+    .orderBy(desc(managerParameterChanges.changeAt))
+    .limit(PROMPT_PARAMETER_HISTORY_LIMIT);
+
+  return {
+    hypotheses: hypotheses.map((h) => ({
+      description: h.description,
+      tested_at: h.testedAt ?? 'untested',
+      outcome: h.outcome ?? 'pending',
+      still_valid: h.stillValid,
+    })),
+    parameter_history: changes.map((c) => ({
+      agent_id: c.agentId,
+      change: c.change,
+      change_at: c.changeAt,
+      outcome_after_n_cycles: c.outcomeAfterNCycles,
+    })),
+    market_regime: parseStoredJsonOr<ManagerMemory['market_regime']>(manager.marketRegime ?? 'null', null),
+    last_evaluation_at: manager.lastEvaluationAt ?? '',
+  };
+}
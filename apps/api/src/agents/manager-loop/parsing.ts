@@ -6,6 +6,8 @@ const VALID_ACTIONS: ManagerAction[] = [
   'pause_agent',
   'modify_agent',
   'terminate_agent',
+  'allocate_capital',
+  'rebalance',
   'hold',
 ];
 
@@ -6,6 +6,9 @@ import {
   getManagerAllowedAgentModelIds,
 } from '@something-in-loop/shared';
 import type { ManagedAgentSnapshot, ManagerMemory } from './types.js';
+import { managerCapitalLimits } from './capital.js';
+import type { ManagerRiskEvaluation } from './risk-guard.js';
+import { formatPairRegimes, type PairRegimes } from '../../services/market-regime.js';
 
 export type BuildManagerPromptParams = {
   agents: ManagedAgentSnapshot[];
@@ -14,11 +17,16 @@ export type BuildManagerPromptParams = {
     priceUsd: number;
     priceChange: Record<string, number | undefined>;
     indicators?: Record<string, unknown>;
+    regimes?: PairRegimes;
   }>;
   memory: ManagerMemory;
   managerConfig: ManagerConfig;
   managerPersonaMd?: string | null;
   hasUserOpenRouterKey?: boolean;
+  /** Unallocated paper cash in the manager's capital pool. */
+  capitalPoolUsd?: number;
+  /** This cycle's risk guard result; enforced automatically, shown so the plan respects it. */
+  riskGuard?: Pick<ManagerRiskEvaluation, 'drawdown' | 'drawdownBreached' | 'correlated'> | null;
 };
 
 export function buildManagerPrompt(ctx: BuildManagerPromptParams): string {
@@ -40,9 +48,15 @@ export function buildManagerPrompt(ctx: BuildManagerPromptParams): string {
   const marketSummary =
     marketData.length > 0
       ? marketData
-        .map((m) => `${m.pair}: $${m.priceUsd} (1h: ${m.priceChange.h1 ?? 'N/A'}%, 24h: ${m.priceChange.h24 ?? 'N/A'}%)`)
+        .map((m) => {
+          const line = `${m.pair}: $${m.priceUsd} (1h: ${m.priceChange.h1 ?? 'N/A'}%, 24h: ${m.priceChange.h24 ?? 'N/A'}%)`;
+          const regimes = formatPairRegimes(m.regimes);
+          return regimes ? `${line}\n  Regime: ${regimes}` : line;
+        })
         .join('\n')
       : 'No market data available';
+  const regime = memory.market_regime;
+  const regimeSummary = regime ? `\nPrevailing regime (deterministic, ${regime.detected_at}): ${regime.regime} — ${regime.reasoning}` : '';
 
   const memorySummary =
     memory.hypotheses.length > 0
@@ -50,8 +64,21 @@ export function buildManagerPrompt(ctx: BuildManagerPromptParams): string {
         .map((h) => `- "${h.description}" (tested: ${h.tested_at}, outcome: ${h.outcome}, valid: ${h.still_valid})`)
         .join('\n')
       : 'No prior hypotheses.';
+  const parameterHistory =
+    memory.parameter_history.length > 0
+      ? memory.parameter_history
+        .map((p) => `- ${p.change_at} ${p.agent_id}: ${p.change} → ${p.outcome_after_n_cycles ?? 'outcome pending'}`)
+        .join('\n')
+      : 'No parameter changes recorded.';
 
   const riskSummary = `MaxDrawdown: ${(managerConfig.riskParams.maxTotalDrawdown * 100).toFixed(0)}%, MaxAgents: ${managerConfig.riskParams.maxAgents}, MaxCorrelated: ${managerConfig.riskParams.maxCorrelatedPositions}`;
+  const guard = ctx.riskGuard;
+  const guardSummary = guard
+    ? `\nEnforced automatically: combined drawdown is ${(guard.drawdown * 100).toFixed(2)}%${guard.drawdownBreached ? ' — LIMIT BREACHED, agents are paused and start_agent/create_agent are refused' : ''}. ${guard.correlated.length > 0 ? `New entries blocked in: ${guard.correlated.map((c) => `${c.exposure} (${c.positions} positions)`).join(', ')}.` : 'No correlated-exposure blocks.'}`
+    : '';
+  const capitalLimits = managerCapitalLimits(managerConfig.riskParams);
+  const capitalSummary = `Unallocated pool: $${(ctx.capitalPoolUsd ?? 0).toFixed(2)}
+Limits: one agent may hold at most ${(capitalLimits.maxAgentAllocation * 100).toFixed(0)}% of managed capital (pool + agents); one action may move at most ${(capitalLimits.maxRebalanceShare * 100).toFixed(0)}%; agents keep at least $${capitalLimits.minAgentBalanceUsd.toFixed(2)} cash when capital is withdrawn.`;
 
   const b = managerConfig.behavior;
   const behaviorSection = b
@@ -71,13 +98,19 @@ Managers are paper-only in this product: you may create and manage paper agents
 ${agentSummaries || 'No agents yet.'}
 
 ## Current Market Conditions
-${marketSummary}
+${marketSummary}${regimeSummary}
 
 ## Memory & Hypotheses
 ${memorySummary}
 
+Parameter changes you made and their measured outcomes (newest first):
+${parameterHistory}
+
 ## Risk Limits
-${riskSummary}
+${riskSummary}${guardSummary}
+
+## Capital Pool
+${capitalSummary}
 ${behaviorSection ? '\n' + behaviorSection : ''}
 ## Allowed Trading Pairs
 When creating or modifying agents, you MUST choose pairs only from this allowlist:
@@ -108,8 +141,10 @@ Valid actions:
 - "create_agent": spawn a new paper agent. Params: name, pairs, llmModel, temperature, analysisInterval (1h|4h|1d), strategies, paperBalance; optional: profileId (from the list above — sets the agent's persona), personaMd (custom markdown persona, overrides profileId), stopLossPct, takeProfitPct, maxPositionSizePct, maxOpenPositions, maxDailyLossPct, cooldownAfterLossMinutes. Never include live/onchain fields such as chain overrides, isPaper=false, Initia metadata, or wallet addresses.
 - "start_agent": start a stopped or paused paper agent (provide agentId)
 - "pause_agent": pause an underperforming paper agent (provide agentId)
-- "modify_agent": change paper-agent parameters (provide agentId + params). Params can include: name, pairs, llmModel, temperature, analysisInterval (1h|4h|1d), strategies, paperBalance, stopLossPct, takeProfitPct, maxPositionSizePct, maxOpenPositions, personaMd (markdown), profileId, etc. Never include live/onchain fields or any non-paper transition.
+- "modify_agent": change paper-agent parameters (provide agentId + params). Params can include: name, pairs, llmModel, temperature, analysisInterval (1h|4h|1d), strategies, paperBalance, stopLossPct, takeProfitPct, maxPositionSizePct, maxOpenPositions, regimeGate (true restricts new entries to the agent's behavior.preferredConditions regime), personaMd (markdown), profileId, etc. Never include live/onchain fields or any non-paper transition.
 - "terminate_agent": permanently stop a paper agent (provide agentId)
+- "allocate_capital": move paper cash between the capital pool and a running or paused agent (provide agentId + params.amountUsd; positive funds the agent from the pool, negative returns its cash to the pool)
+- "rebalance": shift cash from weaker to stronger managed agents by performance (no params)
 - "hold": no action needed (provide agentId, or omit for portfolio-level hold)
 
 IMPORTANT: Respond with ONLY a valid JSON array — no markdown, no explanation.
@@ -0,0 +1,279 @@
+/**
+ * Manager risk guard: mechanical enforcement of riskParams.maxTotalDrawdown and
+ * maxCorrelatedPositions across the managed agents. Runs before every manager
+ * cycle and after a managed agent trades; no LLM is involved.
+ *
+ * - Drawdown is measured on a combined return index (equity / capital base over
+ *   the pool and every agent), so capital transfers never read as drawdown.
+ *   A breach pauses every running managed agent.
+ * - Open positions are grouped by directional exposure (e.g. long WETH); once a
+ *   group holds maxCorrelatedPositions, new entries into it are blocked on every
+ *   managed agent through its DO.
+ */
+import { drizzle } from 'drizzle-orm/d1';
+import { eq } from 'drizzle-orm';
+import { ManagerRiskParamsSchema } from '@something-in-loop/shared';
+import type { Env } from '../../types/env.js';
+import { agentManagerLogs, agentManagers, agents } from '../../db/schema.js';
+import {
+  getTradingAgentEngineStateDo,
+  pauseTradingAgentDo,
+  setTradingAgentManagerGuardDo,
+} from '../../lib/do-clients.js';
+import { generateId, nowIso } from '../../lib/utils.js';
+import { PaperEngine } from '../../services/paper-engine.js';
+import { resolveCurrentPriceUsd } from '../../services/price-resolver.js';
+import { exposureKeys } from '../agent-loop/portfolio-risk.js';
+import type { ManagerEntryGuard } from '../agent-loop/manager-guard.js';
+
+/** Manager DO storage key for ManagerRiskGuardState. */
+export const RISK_GUARD_STATE_KEY = 'riskGuard';
+
+export type ManagerRiskGuardState = {
+  /** Highest combined return index seen; inception is 1. */
+  peakIndex: number;
+  drawdownBreached: boolean;
+  /** Exposure keys currently closed to new entries. */
+  blockedExposures: string[];
+};
+
+export type ManagerRiskLimits = { maxTotalDrawdown: number; maxCorrelatedPositions: number };
+
+export type GuardedAgent = {
+  agentId: string;
+  status: string;
+  /** Cash plus open positions marked to market. */
+  equityUsd: number;
+  /** The engine's initialBalance: starting capital plus net transfers. */
+  capitalBaseUsd: number;
+  positions: Array<{ pair: string; side: 'buy' | 'sell' }>;
+};
+
+export type ManagerRiskEvaluation = {
+  equityUsd: number;
+  capitalBaseUsd: number;
+  peakIndex: number;
+  /** Fraction below the peak index, 0 at or above it. */
+  drawdown: number;
+  drawdownBreached: boolean;
+  /** Exposures at or over maxCorrelatedPositions, most crowded first. */
+  correlated: ManagerEntryGuard['blocked'];
+};
+
+export type ManagerRiskGuardTrigger = 'cycle' | 'trade';
+
+export type ManagerRiskGuardOutcome = ManagerRiskEvaluation & {
+  pausedAgentIds: string[];
+  /** Set when the guard wrote a manager log entry. */
+  logged: boolean;
+};
+
+const round4 = (value: number) => Math.round(value * 10_000) / 10_000;
+
+/** Drawdown and correlated-exposure limits from stored risk params, with schema defaults. */
+export function managerRiskLimits(riskParams: unknown): ManagerRiskLimits {
+  const parsed = ManagerRiskParamsSchema.safeParse(riskParams ?? {});
+  const params = parsed.success ? parsed.data : ManagerRiskParamsSchema.parse({});
+  return { maxTotalDrawdown: params.maxTotalDrawdown, maxCorrelatedPositions: params.maxCorrelatedPositions };
+}
+
+/** Pure limit check over the managed agents and the unallocated pool. */
+export function evaluateManagerRisk(params: {
+  agents: GuardedAgent[];
+  poolUsd: number;
+  limits: ManagerRiskLimits;
+  previous?: ManagerRiskGuardState | null;
+}): ManagerRiskEvaluation {
+  const { agents: guarded, poolUsd, limits, previous } = params;
+  const equityUsd = poolUsd + guarded.reduce((sum, a) => sum + a.equityUsd, 0);
+  const capitalBaseUsd = poolUsd + guarded.reduce((sum, a) => sum + a.capitalBaseUsd, 0);
+  const index = capitalBaseUsd > 0 ? equityUsd / capitalBaseUsd : 1;
+  const peakIndex = Math.max(previous?.peakIndex ?? 1, index);
+  const drawdown = Math.max(0, 1 - index / peakIndex);
+
+  const counts = new Map<string, number>();
+  for (const agent of guarded) {
+    for (const position of agent.positions) {
+      for (const key of exposureKeys(position.pair, position.side)) {
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+      }
+    }
+  }
+  const correlated = [...counts]
+    .filter(([, positions]) => positions >= limits.maxCorrelatedPositions)
+    .map(([exposure, positions]) => ({ exposure, positions }))
+    .sort((a, b) => b.positions - a.positions || a.exposure.localeCompare(b.exposure));
+
+  return {
+    equityUsd,
+    capitalBaseUsd,
+    peakIndex: round4(peakIndex),
+    drawdown: round4(drawdown),
+    drawdownBreached: drawdown >= limits.maxTotalDrawdown,
+    correlated,
+  };
+}
+
+/** Current prices for the pairs of open positions, through a cache shared across agents. Unpriced pairs are left out. */
+export async function resolveOpenPositionPrices(
+  env: Env,
+  positions: Array<{ pair: string }>,
+  priceCache: Map<string, number>,
+): Promise<Map<string, number>> {
+  const prices = new Map<string, number>();
+  for (const pair of new Set(positions.map((p) => p.pair))) {
+    if (!priceCache.has(pair)) priceCache.set(pair, await resolveCurrentPriceUsd(env, pair));
+    const price = priceCache.get(pair) ?? 0;
+    if (price > 0) prices.set(pair, price);
+  }
+  return prices;
+}
+
+/** Value a managed agent's engine with a price cache shared across the agents. */
+async function loadGuardedAgent(
+  env: Env,
+  agent: { id: string; status: string },
+  priceCache: Map<string, number>,
+): Promise<GuardedAgent | null> {
+  const state = await getTradingAgentEngineStateDo(env, agent.id);
+  if (!state) return null;
+  const engine = PaperEngine.deserialize(state);
+  const prices = await resolveOpenPositionPrices(env, engine.openPositions, priceCache);
+  return {
+    agentId: agent.id,
+    status: agent.status,
+    equityUsd: engine.markToMarket(prices).equity,
+    capitalBaseUsd: state.initialBalance,
+    positions: engine.openPositions.map((p) => ({ pair: p.pair, side: p.side })),
+  };
+}
+
+function describeGuardRun(
+  evaluation: ManagerRiskEvaluation,
+  limits: ManagerRiskLimits,
+  changes: { pausedAgentIds: string[]; recovered: boolean; blocksChanged: boolean },
+): string {
+  const parts: string[] = [];
+  const drawdownText = `combined drawdown ${(evaluation.drawdown * 100).toFixed(2)}% (limit ${(limits.maxTotalDrawdown * 100).toFixed(0)}%)`;
+  if (changes.pausedAgentIds.length > 0) {
+    parts.push(`Paused ${changes.pausedAgentIds.length} agent(s): ${drawdownText}`);
+  } else if (changes.recovered) {
+    parts.push(`Drawdown back within limit: ${drawdownText}; paused agents stay paused`);
+  }
+  if (changes.blocksChanged) {
+    parts.push(
+      evaluation.correlated.length > 0
+        ? `Blocked new entries in ${evaluation.correlated.map((c) => `${c.exposure} (${c.positions})`).join(', ')} at max ${limits.maxCorrelatedPositions} correlated positions`
+        : 'Lifted correlated-position entry blocks',
+    );
+  }
+  return `Automatic risk guard (no LLM). ${parts.join('. ')}.`;
+}
+
+/**
+ * Evaluate the limits, pause or block as needed, and log an automatic
+ * `risk_guard` action whenever the guard changes something. Returns null when
+ * the manager no longer exists.
+ */
+export async function runManagerRiskGuard(params: {
+  env: Env;
+  db: ReturnType<typeof drizzle>;
+  storage: DurableObjectStorage;
+  managerId: string;
+  trigger: ManagerRiskGuardTrigger;
+}): Promise<ManagerRiskGuardOutcome | null> {
+  const { env, db, storage, managerId, trigger } = params;
+  const [manager] = await db.select().from(agentManagers).where(eq(agentManagers.id, managerId));
+  if (!manager) return null;
+  const managerConfig = JSON.parse(manager.config) as { riskParams?: unknown };
+  const limits = managerRiskLimits(managerConfig.riskParams);
+
+  const managedRows = await db.select().from(agents).where(eq(agents.managerId, managerId));
+  const priceCache = new Map<string, number>();
+  const guarded: GuardedAgent[] = [];
+  for (const row of managedRows) {
+    if (row.ownerAddress !== manager.ownerAddress) continue;
+    if (row.status !== 'running' && row.status !== 'paused') continue;
+    try {
+      const agent = await loadGuardedAgent(env, row, priceCache);
+      if (agent) guarded.push(agent);
+    } catch (err) {
+      console.warn(`[manager-risk-guard] ${managerId}: failed to value agent ${row.id}:`, err);
+    }
+  }
+
+  const previous = await storage.get<ManagerRiskGuardState>(RISK_GUARD_STATE_KEY);
+  const evaluation = evaluateManagerRisk({ agents: guarded, poolUsd: manager.capitalPoolUsd ?? 0, limits, previous });
+
+  const pausedAgentIds: string[] = [];
+  if (evaluation.drawdownBreached) {
+    for (const agent of guarded) {
+      if (agent.status !== 'running') continue;
+      try {
+        await pauseTradingAgentDo(env, agent.agentId);
+        await db.update(agents).set({ status: 'paused', updatedAt: nowIso() }).where(eq(agents.id, agent.agentId));
+        pausedAgentIds.push(agent.agentId);
+      } catch (err) {
+        console.warn(`[manager-risk-guard] ${managerId}: failed to pause agent ${agent.agentId}:`, err);
+      }
+    }
+  }
+
+  const blockedExposures = evaluation.correlated.map((c) => c.exposure);
+  const previousBlocks = previous?.blockedExposures ?? [];
+  const blocksChanged = blockedExposures.join(',') !== previousBlocks.join(',');
+  // Cycles re-push the block so agents started since the last change pick it up.
+  if (blocksChanged || trigger === 'cycle') {
+    const guard: ManagerEntryGuard | null = evaluation.correlated.length > 0
+      ? {
+        managerId,
+        maxCorrelatedPositions: limits.maxCorrelatedPositions,
+        blocked: evaluation.correlated,
+        updatedAt: nowIso(),
+      }
+      : null;
+    for (const agent of guarded) {
+      try {
+        await setTradingAgentManagerGuardDo(env, agent.agentId, guard);
+      } catch (err) {
+        console.warn(`[manager-risk-guard] ${managerId}: failed to update entry guard on ${agent.agentId}:`, err);
+      }
+    }
+  }
+
+  const recovered = previous?.drawdownBreached === true && !evaluation.drawdownBreached;
+  const logged = pausedAgentIds.length > 0 || recovered || blocksChanged;
+  if (logged) {
+    const reasoning = describeGuardRun(evaluation, limits, { pausedAgentIds, recovered, blocksChanged });
+    await db.insert(agentManagerLogs).values({
+      id: generateId('mlog'),
+      managerId,
+      action: 'risk_guard',
+      reasoning,
+      result: JSON.stringify({
+        success: true,
+        automatic: true,
+        trigger,
+        detail: reasoning,
+        limits,
+        equityUsd: evaluation.equityUsd,
+        capitalBaseUsd: evaluation.capitalBaseUsd,
+        drawdown: evaluation.drawdown,
+        pausedAgentIds,
+        blockedExposures: evaluation.correlated,
+      }),
+      llmPromptTokens: null,
+      llmCompletionTokens: null,
+      createdAt: nowIso(),
+    });
+    console.log(`[manager-risk-guard] ${managerId}: ${reasoning}`);
+  }
+
+  await storage.put<ManagerRiskGuardState>(RISK_GUARD_STATE_KEY, {
+    peakIndex: evaluation.peakIndex,
+    drawdownBreached: evaluation.drawdownBreached,
+    blockedExposures,
+  });
+
+  return { ...evaluation, pausedAgentIds, logged };
+}
@@ -15,12 +15,16 @@ import {
   resolveDemoMarketContextForPair,
 } from '../../services/coingecko-price.js';
 import { generateId, nowIso } from '../../lib/utils.js';
+import { emitWebhookEvent } from '../../services/webhooks.js';
 import { normalizeManagerDecisionInterval } from '../../lib/manager-interval-sync.js';
 import type { ManagerConfig } from '@something-in-loop/shared';
+import { classifyPairRegimes, dominantRegime, type PairRegimes } from '../../services/market-regime.js';
 import { buildManagerPrompt } from './prompt.js';
 import { parseManagerDecisions } from './parsing.js';
 import { executeManagerAction } from './actions.js';
-import type { ManagedAgentSnapshot, ManagerMemory } from './types.js';
+import { runManagerRiskGuard } from './risk-guard.js';
+import { evaluateDueParameterChanges, loadManagerMemory } from './memory.js';
+import type { ManagedAgentSnapshot } from './types.js';
 
 const MANAGER_LLM_TIMEOUT_MS = 60_000; // generous for manager's larger prompt
 
@@ -54,6 +58,14 @@ export async function runManagerLoop(managerId: string, env: Env, ctx: DurableOb
     console.warn(`[manager-loop] ${managerId}: failed to sync decisionInterval into DO storage:`, err);
   }
 
+  // Enforce the hard limits before the LLM sees the portfolio; a breach pauses agents here.
+  let riskGuard: Awaited<ReturnType<typeof runManagerRiskGuard>> = null;
+  try {
+    riskGuard = await runManagerRiskGuard({ env, db, storage: ctx.storage, managerId, trigger: 'cycle' });
+  } catch (err) {
+    console.error(`[manager-loop] ${managerId}: risk guard failed:`, err);
+  }
+
   const managedRows = await db.select().from(agents).where(eq(agents.managerId, managerId));
 
   const agentSnapshots: ManagedAgentSnapshot[] = [];
@@ -129,7 +141,12 @@ export async function runManagerLoop(managerId: string, env: Env, ctx: DurableOb
 
   const geckoSvc = createGeckoTerminalService(env.CACHE, { bypassCache });
   const dexSvc = createDexDataService(env.CACHE, { bypassCache });
-  const marketData: Array<{ pair: string; priceUsd: number; priceChange: Record<string, number | undefined> }> = [];
+  const marketData: Array<{
+    pair: string;
+    priceUsd: number;
+    priceChange: Record<string, number | undefined>;
+    regimes?: PairRegimes;
+  }> = [];
 
   for (const pairName of allPairs) {
     const query = pairName.replace('/', ' ');
@@ -174,6 +191,7 @@ export async function runManagerLoop(managerId: string, env: Env, ctx: DurableOb
         pair: pairName,
         priceUsd: indexedGeckoCtx.spotUsd,
         priceChange: indexedGeckoCtx.priceChange,
+        regimes: classifyPairRegimes({ '1h': indexedGeckoCtx.hourlyPrices, '1d': indexedGeckoCtx.dailyPrices }),
       });
       continue;
     }
@@ -184,6 +202,7 @@ export async function runManagerLoop(managerId: string, env: Env, ctx: DurableOb
         pair: pairName,
         priceUsd: coinGeckoCtx.spotUsd,
         priceChange: coinGeckoCtx.priceChange,
+        regimes: classifyPairRegimes({ '1h': coinGeckoCtx.hourlyPrices, '1d': coinGeckoCtx.dailyPrices }),
       });
       continue;
     }
@@ -194,6 +213,7 @@ export async function runManagerLoop(managerId: string, env: Env, ctx: DurableOb
         pair: pairName,
         priceUsd: coinPaprikaCtx.spotUsd,
         priceChange: coinPaprikaCtx.priceChange,
+        regimes: classifyPairRegimes({ '1h': coinPaprikaCtx.hourlyPrices, '1d': coinPaprikaCtx.dailyPrices }),
       });
       continue;
     }
@@ -204,17 +224,27 @@ export async function runManagerLoop(managerId: string, env: Env, ctx: DurableOb
         pair: pairName,
         priceUsd: demoCtx.spotUsd,
         priceChange: demoCtx.priceChange,
+        regimes: classifyPairRegimes({ '1h': demoCtx.hourlyPrices, '1d': demoCtx.dailyPrices }),
       });
     }
   }
 
-  const memory =
-    (await ctx.storage.get<ManagerMemory>('memory')) ?? {
-      hypotheses: [],
-      parameter_history: [],
-      market_regime: null,
-      last_evaluation_at: '',
-    };
+  try {
+    await evaluateDueParameterChanges(db, managerId);
+  } catch (err) {
+    console.warn(`[manager-loop] ${managerId}: failed to evaluate parameter changes:`, err);
+  }
+  // Pools found via DEX search carry no candles; the regime covers the pairs that do.
+  const regime = dominantRegime(marketData, '1h');
+  const marketRegime = regime ? JSON.stringify({ detected_at: nowIso(), ...regime }) : managerRow.marketRegime;
+  if (regime) {
+    try {
+      await db.update(agentManagers).set({ marketRegime }).where(eq(agentManagers.id, managerId));
+    } catch (err) {
+      console.warn(`[manager-loop] ${managerId}: failed to store market regime:`, err);
+    }
+  }
+  const memory = await loadManagerMemory(db, { ...managerRow, marketRegime });
 
   const ownerAddr = managerRow.ownerAddress?.toLowerCase();
   const [ownerUser] = ownerAddr
@@ -229,6 +259,8 @@ export async function runManagerLoop(managerId: string, env: Env, ctx: DurableOb
     managerConfig: config,
     managerPersonaMd: managerRow.personaMd,
     hasUserOpenRouterKey,
+    capitalPoolUsd: managerRow.capitalPoolUsd,
+    riskGuard,
   });
 
   console.log('[manager-loop] === FULL PROMPT SENT TO MANAGER LLM ===');
@@ -302,15 +334,21 @@ export async function runManagerLoop(managerId: string, env: Env, ctx: DurableOb
   }
 
   for (const decision of decisions) {
-    const actionResult = await executeManagerAction(
-      decision,
-      db,
-      env,
-      managerId,
-      managerRow.ownerAddress,
-      hasUserOpenRouterKey,
-      actionLlmApiKey,
-    );
+    const guardRefusal =
+      riskGuard?.drawdownBreached && (decision.action === 'start_agent' || decision.action === 'create_agent')
+        ? `Refused by risk guard: combined drawdown ${(riskGuard.drawdown * 100).toFixed(2)}% breaches maxTotalDrawdown`
+        : null;
+    const actionResult = guardRefusal
+      ? { success: false, error: guardRefusal }
+      : await executeManagerAction(
+        decision,
+        db,
+        env,
+        managerId,
+        managerRow.ownerAddress,
+        hasUserOpenRouterKey,
+        actionLlmApiKey,
+      );
     const result = {
       ...actionResult,
       llmPromptText: prompt,
@@ -327,10 +365,18 @@ export async function runManagerLoop(managerId: string, env: Env, ctx: DurableOb
       createdAt: nowIso(),
     });
     console.log(`[manager-loop] ${managerId}: ${decision.action} → ${JSON.stringify(result)}`);
+    if (decision.action !== 'hold' && actionResult.success) {
+      await emitWebhookEvent(env, {
+        type: 'manager.action_executed',
+        ownerAddress: managerRow.ownerAddress,
+        managerId,
+        agentId: decision.agentId ?? null,
+        data: { action: decision.action, reasoning: decision.reasoning, params: decision.params ?? null, result: actionResult },
+      });
+    }
   }
 
-  const updatedMemory: ManagerMemory = { ...memory, last_evaluation_at: nowIso() };
-  await ctx.storage.put('memory', updatedMemory);
+  await db.update(agentManagers).set({ lastEvaluationAt: nowIso() }).where(eq(agentManagers.id, managerId));
 
   console.log(`[manager-loop] ${managerId}: Cycle complete. ${decisions.length} decisions.`);
 }
@@ -4,6 +4,8 @@ export type ManagerAction =
   | 'pause_agent'
   | 'modify_agent'
   | 'terminate_agent'
+  | 'allocate_capital'
+  | 'rebalance'
   | 'hold';
 
 export interface ManagerDecision {
@@ -2,10 +2,91 @@
  * System prompts for trading agents and managers.
  */
 import type { AgentBehaviorConfig } from '@something-in-loop/shared';
-import { BASE_AGENT_PROMPT, AGENT_ROLE_SECTION, buildBehaviorSection, buildConstraintsSection } from '@something-in-loop/shared';
+import {
+  BASE_AGENT_PROMPT,
+  AGENT_ROLE_SECTION,
+  TEAM_ROLE_SECTIONS,
+  buildBehaviorSection,
+  buildConstraintsSection,
+} from '@something-in-loop/shared';
+import { MAINTENANCE_MARGIN_PCT } from '../services/paper-engine.js';
+import { formatPairRegimes } from '../services/market-regime.js';
+import type { MarketRegime, PairRegimes } from '../services/market-regime.js';
 
 export { BASE_AGENT_PROMPT, AGENT_ROLE_SECTION };
 
+function formatRegimeLine(regimes: PairRegimes | undefined): string {
+  const text = formatPairRegimes(regimes);
+  return text ? `Regime (deterministic): ${text}\n` : '';
+}
+
+function fmtPrice(p: number): string {
+  return p < 0.01 ? p.toFixed(6) : p.toFixed(2);
+}
+
+/** One `### PAIR` block per pair: price, changes, regime and indicator text. */
+function formatMarketData(marketData: Array<{
+  pair: string;
+  priceUsd: number;
+  priceChange: Record<string, number | undefined>;
+  volume24h?: number;
+  liquidity?: number;
+  atr?: number;
+  indicatorText: string;
+  dailyIndicatorText?: string;
+  regimes?: PairRegimes;
+}>): string {
+  return marketData
+    .map(
+      (m) => `### ${m.pair}
+Price: $${fmtPrice(m.priceUsd)}
+5m change: ${m.priceChange.m5 !== undefined ? `${m.priceChange.m5 >= 0 ? '+' : ''}${m.priceChange.m5.toFixed(2)}%` : 'N/A'}
+1h change: ${m.priceChange.h1 !== undefined ? `${m.priceChange.h1 >= 0 ? '+' : ''}${m.priceChange.h1.toFixed(2)}%` : 'N/A'}
+6h change: ${m.priceChange.h6 !== undefined ? `${m.priceChange.h6 >= 0 ? '+' : ''}${m.priceChange.h6.toFixed(2)}%` : 'N/A'}
+24h change: ${m.priceChange.h24 !== undefined ? `${m.priceChange.h24 >= 0 ? '+' : ''}${m.priceChange.h24.toFixed(2)}%` : 'N/A'}
+Volume 24h: ${m.volume24h !== undefined ? `$${(m.volume24h / 1_000).toFixed(1)}K` : 'N/A'}
+Liquidity: ${m.liquidity !== undefined ? `$${(m.liquidity / 1_000_000).toFixed(2)}M` : 'N/A'}${m.atr !== undefined ? `\nATR (14h): $${fmtPrice(m.atr)}` : ''}
+${formatRegimeLine(m.regimes)}Short-term (48h hourly):
+${m.indicatorText}${m.dailyIndicatorText ? `\nDaily trend (30d):\n${m.dailyIndicatorText}` : ''}`,
+    )
+    .join('\n\n');
+}
+
+type AnalysisPromptParams = Parameters<typeof buildAnalysisPrompt>[0];
+
+function formatPortfolioState(
+  portfolioState: AnalysisPromptParams['portfolioState'],
+  config: Pick<AnalysisPromptParams['config'], 'maxOpenPositions' | 'maxPositionSizePct'>,
+): string {
+  const maxPerTrade = (portfolioState.balance * config.maxPositionSizePct) / 100;
+  return `## Portfolio State
+Balance: $${portfolioState.balance.toFixed(2)} USDC
+Open positions: ${portfolioState.openPositions} of ${config.maxOpenPositions} max
+Max per trade: ${config.maxPositionSizePct}% ($${maxPerTrade.toFixed(0)})
+Daily P&L: ${portfolioState.dailyPnlPct >= 0 ? '+' : ''}${portfolioState.dailyPnlPct.toFixed(2)}%
+Total P&L: ${portfolioState.totalPnlPct >= 0 ? '+' : ''}${portfolioState.totalPnlPct.toFixed(2)}%`;
+}
+
+/** `## Open Positions` with SL/TP levels, or '' when flat. `nowMs` dates "hours open". */
+function formatOpenPositions(openPositions: AnalysisPromptParams['openPositions'], nowMs: number): string {
+  return openPositions.length > 0
+    ? `\n## Open Positions\n${openPositions.map((p) => {
+        const slPrice = p.side === 'buy'
+          ? p.entryPrice * (1 - p.slPct / 100)
+          : p.entryPrice * (1 + p.slPct / 100);
+        const tpPrice = p.side === 'buy'
+          ? p.entryPrice * (1 + p.tpPct / 100)
+          : p.entryPrice * (1 - p.tpPct / 100);
+        const pnlSign = p.unrealizedPct >= 0 ? '+' : '';
+        const hoursOpen = Math.round((nowMs - new Date(p.openedAt).getTime()) / 3_600_000);
+        const trailing = p.trailingStopPrice !== undefined ? ` | Trailing stop at $${fmtPrice(p.trailingStopPrice)}` : '';
+        const liquidation = p.liquidationPrice !== undefined ? ` | Liquidation at $${fmtPrice(p.liquidationPrice)}` : '';
+        const leverage = p.leverage !== undefined && p.leverage > 1 ? ` ${p.leverage}x` : '';
+        return `- ${p.pair} ${p.side.toUpperCase()}${leverage} · entry $${fmtPrice(p.entryPrice)} → now $${fmtPrice(p.currentPrice)} · unrealized ${pnlSign}${p.unrealizedPct.toFixed(2)}% · $${p.amountUsd.toFixed(0)} · ${hoursOpen}h open\n  SL at $${fmtPrice(slPrice)} | TP at $${fmtPrice(tpPrice)}${trailing}${liquidation}`;
+      }).join('\n')}\n`
+    : '';
+}
+
 /** Build a complete analysis prompt for the LLM */
 export function buildAnalysisPrompt(params: {
   portfolioState: {
@@ -24,6 +105,17 @@ export function buildAnalysisPrompt(params: {
     openedAt: string;
     slPct: number;
     tpPct: number;
+    trailingStopPrice?: number;
+    /** Margin positions only. */
+    leverage?: number;
+    liquidationPrice?: number;
+  }>;
+  pendingOrders?: Array<{
+    pair: string;
+    side: 'buy' | 'sell';
+    type: 'limit' | 'stop';
+    triggerPrice: number;
+    expiresAt: string;
   }>;
   marketData: {
     pair: string;
@@ -31,8 +123,10 @@ export function buildAnalysisPrompt(params: {
     priceChange: Record<string, number | undefined>;
     volume24h?: number;
     liquidity?: number;
+    atr?: number;
     indicatorText: string;
     dailyIndicatorText?: string;
+    regimes?: PairRegimes;
   }[];
   lastDecisions: Array<{
     decision: string;
@@ -45,53 +139,36 @@ export function buildAnalysisPrompt(params: {
     maxOpenPositions: number;
     stopLossPct: number;
     takeProfitPct: number;
+    maxLeverage?: number;
+    /** Set when a non-fixed sizing mode overrides suggestedPositionSizePct: mode plus per-pair size notes. */
+    sizing?: { mode: string; notes: Array<{ pair: string; note: string }> };
+    /** Entries only execute when the pair's 1h regime is this one. */
+    regimeGate?: MarketRegime;
   };
   behavior?: Partial<AgentBehaviorConfig>;
   personaMd?: string | null;
   behaviorMd?: string | null;
   roleMd?: string | null;
+  /** Reference time for "hours open"; defaults to now (backtests pass the replayed bar time). */
+  asOf?: string;
 }): string {
   const { portfolioState, openPositions, marketData, lastDecisions, config, behavior, personaMd, behaviorMd, roleMd } = params;
+  const nowMs = params.asOf ? new Date(params.asOf).getTime() : Date.now();
 
-  const maxPerTrade = (portfolioState.balance * config.maxPositionSizePct) / 100;
-  const fmtPrice = (p: number) => p < 0.01 ? p.toFixed(6) : p.toFixed(2);
+  const openPositionsSection = formatOpenPositions(openPositions, nowMs);
 
-  const openPositionsSection = openPositions.length > 0
-    ? `\n## Open Positions\n${openPositions.map((p) => {
-        const slPrice = p.side === 'buy'
-          ? p.entryPrice * (1 - p.slPct / 100)
-          : p.entryPrice * (1 + p.slPct / 100);
-        const tpPrice = p.side === 'buy'
-          ? p.entryPrice * (1 + p.tpPct / 100)
-          : p.entryPrice * (1 - p.tpPct / 100);
-        const pnlSign = p.unrealizedPct >= 0 ? '+' : '';
-        const hoursOpen = Math.round((Date.now() - new Date(p.openedAt).getTime()) / 3_600_000);
-        return `- ${p.pair} ${p.side.toUpperCase()} · entry $${fmtPrice(p.entryPrice)} → now $${fmtPrice(p.currentPrice)} · unrealized ${pnlSign}${p.unrealizedPct.toFixed(2)}% · $${p.amountUsd.toFixed(0)} · ${hoursOpen}h open\n  SL at $${fmtPrice(slPrice)} | TP at $${fmtPrice(tpPrice)}`;
+  const pendingOrders = params.pendingOrders ?? [];
+  const pendingOrdersSection = pendingOrders.length > 0
+    ? `\n## Resting Orders\n${pendingOrders.map((o) => {
+        const hoursLeft = Math.max(0, Math.round((new Date(o.expiresAt).getTime() - nowMs) / 3_600_000));
+        return `- ${o.pair} ${o.type.toUpperCase()} ${o.side.toUpperCase()} @ $${fmtPrice(o.triggerPrice)} · expires in ${hoursLeft}h`;
       }).join('\n')}\n`
     : '';
 
-  return `## Portfolio State
-Balance: $${portfolioState.balance.toFixed(2)} USDC
-Open positions: ${portfolioState.openPositions} of ${config.maxOpenPositions} max
-Max per trade: ${config.maxPositionSizePct}% ($${maxPerTrade.toFixed(0)})
-Daily P&L: ${portfolioState.dailyPnlPct >= 0 ? '+' : ''}${portfolioState.dailyPnlPct.toFixed(2)}%
-Total P&L: ${portfolioState.totalPnlPct >= 0 ? '+' : ''}${portfolioState.totalPnlPct.toFixed(2)}%
-${openPositionsSection}
+  return `${formatPortfolioState(portfolioState, config)}
+${openPositionsSection}${pendingOrdersSection}
 ## Market Data
-${marketData
-  .map(
-    (m) => `### ${m.pair}
-Price: $${fmtPrice(m.priceUsd)}
-5m change: ${m.priceChange.m5 !== undefined ? `${m.priceChange.m5 >= 0 ? '+' : ''}${m.priceChange.m5.toFixed(2)}%` : 'N/A'}
-1h change: ${m.priceChange.h1 !== undefined ? `${m.priceChange.h1 >= 0 ? '+' : ''}${m.priceChange.h1.toFixed(2)}%` : 'N/A'}
-6h change: ${m.priceChange.h6 !== undefined ? `${m.priceChange.h6 >= 0 ? '+' : ''}${m.priceChange.h6.toFixed(2)}%` : 'N/A'}
-24h change: ${m.priceChange.h24 !== undefined ? `${m.priceChange.h24 >= 0 ? '+' : ''}${m.priceChange.h24.toFixed(2)}%` : 'N/A'}
-Volume 24h: ${m.volume24h !== undefined ? `$${(m.volume24h / 1_000).toFixed(1)}K` : 'N/A'}
-Liquidity: ${m.liquidity !== undefined ? `$${(m.liquidity / 1_000_000).toFixed(2)}M` : 'N/A'}
-Short-term (48h hourly):
-${m.indicatorText}${m.dailyIndicatorText ? `\nDaily trend (30d):\n${m.dailyIndicatorText}` : ''}`
-  )
-  .join('\n\n')}
+${formatMarketData(marketData)}
 
 ## Recent Decisions (last ${lastDecisions.length})
 ${lastDecisions
@@ -105,7 +182,7 @@ Allowed pairs: ${config.pairs.join(', ')}
 Max position size: ${config.maxPositionSizePct}% of balance
 Max open positions: ${config.maxOpenPositions}
 Stop loss: ${config.stopLossPct}%
-Take profit: ${config.takeProfitPct}%
+Take profit: ${config.takeProfitPct}%${config.maxLeverage && config.maxLeverage > 1 ? `\nMax leverage: ${config.maxLeverage}x (margin positions are liquidated at ${100 - MAINTENANCE_MARGIN_PCT}% margin loss)` : ''}${config.sizing ? `\nPosition sizing: ${config.sizing.mode} mode sets entry size (your suggestedPositionSizePct is ignored for buy/sell)\n${config.sizing.notes.map((n) => `- ${n.pair}: ${n.note}`).join('\n')}` : ''}${config.regimeGate ? `\nRegime gate: new entries (buy/sell/add) only execute on pairs whose 1h regime is ${config.regimeGate}` : ''}
 
 Based on the above data, what is your trading decision?`;
 }
@@ -133,6 +210,7 @@ export function buildPerpAnalysisPrompt(params: {
     liquidity?: number;
     indicatorText: string;
     dailyIndicatorText?: string;
+    regimes?: PairRegimes;
   }[];
   lastDecisions: Array<{
     decision: string;
@@ -179,7 +257,7 @@ Price: $${fmtPrice(m.priceUsd)}
 24h change: ${m.priceChange.h24 !== undefined ? `${m.priceChange.h24 >= 0 ? '+' : ''}${m.priceChange.h24.toFixed(2)}%` : 'N/A'}
 Volume 24h: ${m.volume24h !== undefined ? `$${(m.volume24h / 1_000).toFixed(1)}K` : 'N/A'}
 Liquidity: ${m.liquidity !== undefined ? `$${(m.liquidity / 1_000_000).toFixed(2)}M` : 'N/A'}
-Short-term (48h hourly):
+${formatRegimeLine(m.regimes)}Short-term (48h hourly):
 ${m.indicatorText}${m.dailyIndicatorText ? `\nDaily trend (30d):\n${m.dailyIndicatorText}` : ''}`
   )
   .join('\n\n')}
@@ -214,3 +292,65 @@ Max position size: ${config.maxPositionSizePct}% of balance
 
 Based on the above data, what is your perpetual trading decision?`;
 }
+
+/**
+ * Agent team, first call: the technical analyst sees the indicators and open
+ * positions but no sizing or limits — those belong to the risk officer.
+ */
+export function buildAnalystThesisPrompt(
+  params: Pick<AnalysisPromptParams, 'openPositions' | 'marketData' | 'behavior' | 'personaMd' | 'behaviorMd' | 'asOf'> & {
+    pairs: string[];
+    roleMd?: string | null;
+  },
+): string {
+  const { openPositions, marketData, behavior, personaMd, behaviorMd, roleMd } = params;
+  const nowMs = params.asOf ? new Date(params.asOf).getTime() : Date.now();
+
+  return `## Market Data
+${formatMarketData(marketData)}
+${formatOpenPositions(openPositions, nowMs)}
+${roleMd || TEAM_ROLE_SECTIONS.analyst}
+
+${behaviorMd ? behaviorMd + '\n\n' : (behavior ? buildBehaviorSection(behavior) + '\n\n' : '')}${personaMd ? '## Your Persona\n' + personaMd + '\n\n' : ''}## Scope
+Allowed pairs: ${params.pairs.join(', ')}
+
+What is your thesis?`;
+}
+
+/**
+ * Agent team, second call: the risk officer reviews the analyst's thesis
+ * against the portfolio and the agent's risk config.
+ */
+export function buildRiskReviewPrompt(
+  params: Pick<AnalysisPromptParams, 'portfolioState' | 'openPositions' | 'config' | 'asOf'> & {
+    /** The analyst's thesis, already formatted. */
+    thesis: string;
+    roleMd?: string | null;
+  },
+): string {
+  const { portfolioState, openPositions, config, thesis, roleMd } = params;
+  const nowMs = params.asOf ? new Date(params.asOf).getTime() : Date.now();
+
+  return `${formatPortfolioState(portfolioState, config)}
+${formatOpenPositions(openPositions, nowMs)}
+## Analyst Thesis
+${thesis}
+
+${roleMd || TEAM_ROLE_SECTIONS.riskOfficer}
+
+## Risk Limits
+Max position size: ${config.maxPositionSizePct}% of balance
+Max open positions: ${config.maxOpenPositions}
+Stop loss: ${config.stopLossPct}%
+Take profit: ${config.takeProfitPct}%${config.maxLeverage && config.maxLeverage > 1 ? `\nMax leverage: ${config.maxLeverage}x` : ''}${config.regimeGate ? `\nRegime gate: new entries only on pairs whose 1h regime is ${config.regimeGate}` : ''}
+
+Approve the thesis, resize (cap the size of a new entry), or veto new entries this tick?`;
+}
+
+/** Agent team, third call: appended to the executor's role so it decides with both earlier turns in view. */
+export function buildTeamDeliberationSection(thesis: string, verdict: string): string {
+  return `## Team Deliberation
+Analyst thesis: ${thesis}
+Risk officer verdict: ${verdict}
+The risk officer's verdict is enforced: a vetoed entry becomes a hold, and a resized entry is capped.`;
+}
@@ -1,2 +1,2 @@
 export { TradingAgentDO } from './trading-agent/index.js';
-export type { CachedAgentRow } from './trading-agent/index.js';
+export type { CachedAgentRow, CachedConfigVersion } from './trading-agent/index.js';
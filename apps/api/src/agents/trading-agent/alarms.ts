@@ -1,6 +1,6 @@
 import { intervalToMs } from '@something-in-loop/shared';
 import { runAgentLoop } from '../agent-loop.js';
-import { savePerformanceSnapshot } from './persistence.js';
+import { notifyManagerOfTrades, savePerformanceSnapshot, tradeActivityMark } from './persistence.js';
 import { LOOP_LOCK_TTL_MS, PENDING_LLM_TTL_MS, loadEngine, persistEngineState } from './state.js';
 import type { TradingAgentRuntime } from './types.js';
 
@@ -41,14 +41,17 @@ export async function handleAlarm(runtime: TradingAgentRuntime): Promise<void> {
   }
   await runtime.ctx.storage.put('isLoopRunning', Date.now());
 
+  let traded = false;
   try {
     const engine = await loadEngine(runtime.ctx.storage);
+    const markBefore = tradeActivityMark(engine);
 
     try {
       await runAgentLoop(agentId, engine, runtime.env, runtime.ctx);
     } catch (err) {
       console.error(`[TradingAgentDO] alarm error for ${agentId}:`, err);
     }
+    traded = tradeActivityMark(engine) !== markBefore;
 
     await persistEngineState(runtime.ctx.storage, engine, `failed to persist engine state for ${agentId}`);
 
@@ -74,4 +77,7 @@ export async function handleAlarm(runtime: TradingAgentRuntime): Promise<void> {
       console.error(`[TradingAgentDO] CRITICAL: failed to reschedule alarm for ${agentId}:`, rescheduleErr);
     }
   }
+
+  // After the lock is released: the manager's guard reads (and may pause) this agent.
+  if (traded) await notifyManagerOfTrades(runtime.env, agentId);
 }
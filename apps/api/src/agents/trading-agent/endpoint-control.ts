@@ -1,5 +1,7 @@
 import { intervalToMs, normalizeTradingInterval } from '@something-in-loop/shared';
 import { runAgentLoop } from '../agent-loop.js';
+import { consumeLlmCallBudget } from '../agent-loop/llm-budget.js';
+import { MANAGER_ENTRY_GUARD_KEY, type ManagerEntryGuard } from '../agent-loop/manager-guard.js';
 import { clearPriceMisses, syncCachedAgentRow, updateCachedAgentStatus } from './cache.js';
 import {
   DEFAULT_BALANCE,
@@ -197,3 +199,53 @@ export async function handleSyncConfig(runtime: TradingAgentRuntime, request: Re
 
   return Response.json({ ok: true });
 }
+
+/** Manager capital moves: deposit (+) or withdraw (−) paper cash without touching positions. */
+export async function handleAdjustCapital(runtime: TradingAgentRuntime, request: Request): Promise<Response> {
+  const body = (await request.json().catch(() => ({}))) as { deltaUsd?: unknown };
+  if (typeof body.deltaUsd !== 'number' || !Number.isFinite(body.deltaUsd) || body.deltaUsd === 0) {
+    return Response.json({ error: 'deltaUsd must be a non-zero number' }, { status: 400 });
+  }
+  if (!(await runtime.ctx.storage.get<string>('agentId'))) {
+    return Response.json({ error: 'Agent not initialized. Start the agent first.' }, { status: 400 });
+  }
+
+  // The tick persists its own engine copy when it finishes and would drop the transfer.
+  const lockAt = await runtime.ctx.storage.get<number>('isLoopRunning');
+  if (lockAt && Date.now() - lockAt < LOOP_LOCK_TTL_MS) {
+    return Response.json({ error: 'Analysis in progress' }, { status: 409 });
+  }
+
+  const engine = await loadEngine(runtime.ctx.storage);
+  const balanceBefore = engine.balance;
+  try {
+    engine.adjustCapital(body.deltaUsd);
+  } catch (err) {
+    return Response.json({ error: err instanceof Error ? err.message : String(err) }, { status: 422 });
+  }
+  await runtime.ctx.storage.put('engineState', engine.serialize());
+  return Response.json({ ok: true, balanceBefore, balanceAfter: engine.balance });
+}
+
+export async function handleSetManagerGuard(runtime: TradingAgentRuntime, request: Request): Promise<Response> {
+  const body = (await request.json().catch(() => ({}))) as { guard?: ManagerEntryGuard | null };
+  if (body.guard === undefined) {
+    return Response.json({ error: 'guard is required (null clears it)' }, { status: 400 });
+  }
+  if (body.guard === null || !Array.isArray(body.guard.blocked) || body.guard.blocked.length === 0) {
+    await runtime.ctx.storage.delete(MANAGER_ENTRY_GUARD_KEY);
+  } else {
+    await runtime.ctx.storage.put(MANAGER_ENTRY_GUARD_KEY, body.guard);
+  }
+  return Response.json({ ok: true });
+}
+
+/** Charge LLM calls made outside a tick (decision replays) to the agent's hourly budget. */
+export async function handleConsumeLlmBudget(runtime: TradingAgentRuntime, request: Request): Promise<Response> {
+  const body = (await request.json().catch(() => ({}))) as { calls?: unknown; maxPerHour?: unknown };
+  const { calls, maxPerHour } = body;
+  if (typeof calls !== 'number' || !Number.isInteger(calls) || calls < 1 || typeof maxPerHour !== 'number' || maxPerHour < 1) {
+    return Response.json({ error: 'calls and maxPerHour must be positive numbers' }, { status: 400 });
+  }
+  return Response.json(await consumeLlmCallBudget(runtime.ctx.storage, { calls, maxPerHour }));
+}
@@ -55,6 +55,7 @@ export async function handleDebug(runtime: TradingAgentRuntime): Promise<Respons
     initialBalance: number;
     positions: unknown[];
     closedPositions?: unknown[];
+    pendingOrders?: unknown[];
   }>('engineState');
 
   const priceMissMap: Record<string, number> = {};
@@ -79,6 +80,7 @@ export async function handleDebug(runtime: TradingAgentRuntime): Promise<Respons
           initialBalance: engineState.initialBalance,
           openPositions: engineState.positions.length,
           closedPositions: engineState.closedPositions?.length ?? 0,
+          pendingOrders: engineState.pendingOrders?.length ?? 0,
         }
       : null,
     generatedAt: new Date().toISOString(),
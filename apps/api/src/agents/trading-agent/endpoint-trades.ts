@@ -1,7 +1,8 @@
 import { drizzle } from 'drizzle-orm/d1';
 import { executeTradeDecision, type PendingLlmContext, type RecentDecision } from '../agent-loop.js';
-import { persistTrade } from './persistence.js';
+import { notifyManagerOfTrades, persistTrade, tradeActivityMark } from './persistence.js';
 import { resolveCurrentPriceUsd } from '../../services/price-resolver.js';
+import { emitWebhookEvent, tradeEventData } from '../../services/webhooks.js';
 import { loadEngine, persistEngineState } from './state.js';
 import type { TradingAgentRuntime } from './types.js';
 
@@ -38,6 +39,8 @@ export async function handleClosePosition(runtime: TradingAgentRuntime, request:
   }
 
   await persistEngineState(runtime.ctx.storage, engine, `failed to persist engine state after manual close for ${agentId}`);
+  await emitWebhookEvent(runtime.env, { type: 'trade.closed', agentId, data: tradeEventData(closed) });
+  await notifyManagerOfTrades(runtime.env, agentId);
   return Response.json({ ok: true, trade: closed });
 }
 
@@ -65,6 +68,7 @@ export async function handleReceiveDecision(runtime: TradingAgentRuntime, reques
 
   const engine = await loadEngine(runtime.ctx.storage);
   const recentDecisions = (await runtime.ctx.storage.get<RecentDecision[]>('recentDecisions')) ?? [];
+  const markBefore = tradeActivityMark(engine);
 
   const db = drizzle(runtime.env.DB);
   const { createLogger } = await import('../../lib/logger.js');
@@ -84,6 +88,15 @@ export async function handleReceiveDecision(runtime: TradingAgentRuntime, reques
       dexes: pendingCtx.dexes,
       strategies: pendingCtx.strategies,
       slippageSimulation: pendingCtx.slippageSimulation,
+      fillModel: pendingCtx.fillModel,
+      maxLeverage: pendingCtx.maxLeverage,
+      riskLimits: pendingCtx.riskLimits,
+      regimeGate: pendingCtx.regimeGate,
+      sizing: pendingCtx.sizing,
+      configVersionId: pendingCtx.configVersionId ?? null,
+      stopLossPct: pendingCtx.stopLossPct,
+      exitStrategy: pendingCtx.exitStrategy,
+      averageDown: pendingCtx.averageDown,
       env: runtime.env,
       db,
       ctx: runtime.ctx,
@@ -101,6 +114,7 @@ export async function handleReceiveDecision(runtime: TradingAgentRuntime, reques
   await runtime.ctx.storage.delete('pendingLlmJobId');
   await runtime.ctx.storage.delete('pendingLlmJobAt');
   await runtime.ctx.storage.delete('pendingLlmContext');
+  if (tradeActivityMark(engine) !== markBefore) await notifyManagerOfTrades(runtime.env, agentId);
 
   return Response.json({ ok: true });
 }
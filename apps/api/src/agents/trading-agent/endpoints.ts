@@ -1,5 +1,16 @@
 import { handleWebSocketUpgrade } from './websocket.js';
-import { handleAnalyze, handleClearHistory, handleReset, handleSetInterval, handleSetStatus, handleStart, handleSyncConfig } from './endpoint-control.js';
+import {
+  handleAdjustCapital,
+  handleAnalyze,
+  handleClearHistory,
+  handleConsumeLlmBudget,
+  handleReset,
+  handleSetInterval,
+  handleSetManagerGuard,
+  handleSetStatus,
+  handleStart,
+  handleSyncConfig,
+} from './endpoint-control.js';
 import { handleDebug, handleEngineState, handleStatus } from './endpoint-inspection.js';
 import { handleClosePosition, handleReceiveDecision } from './endpoint-trades.js';
 import type { TradingAgentRuntime } from './types.js';
@@ -23,6 +34,9 @@ export async function handleTradingAgentRequest(
   if (url.pathname === '/debug') return handleDebug(runtime);
   if (url.pathname === '/receive-decision' && request.method === 'POST') return handleReceiveDecision(runtime, request);
   if (url.pathname === '/sync-config' && request.method === 'POST') return handleSyncConfig(runtime, request);
+  if (url.pathname === '/adjust-capital' && request.method === 'POST') return handleAdjustCapital(runtime, request);
+  if (url.pathname === '/manager-guard' && request.method === 'POST') return handleSetManagerGuard(runtime, request);
+  if (url.pathname === '/llm-budget' && request.method === 'POST') return handleConsumeLlmBudget(runtime, request);
   if (url.pathname === '/ws' && request.headers.get('Upgrade') === 'websocket') return handleWebSocketUpgrade(runtime);
 
   return null;
@@ -6,7 +6,7 @@ import { handleTradingAgentRequest } from './endpoints.js';
 import { broadcastToSockets, handleWebSocketClose, handleWebSocketError, handleWebSocketMessage } from './websocket.js';
 import type { TradingAgentRuntime } from './types.js';
 
-export type { CachedAgentRow } from './types.js';
+export type { CachedAgentRow, CachedConfigVersion } from './types.js';
 
 export class TradingAgentDO extends DurableObject<Env> {
   constructor(state: DurableObjectState, env: Env) {
@@ -1,5 +1,7 @@
 import { drizzle } from 'drizzle-orm/d1';
-import { performanceSnapshots, trades } from '../../db/schema.js';
+import { eq } from 'drizzle-orm';
+import { agents, performanceSnapshots, trades } from '../../db/schema.js';
+import { runManagerRiskCheckDo } from '../../lib/do-clients.js';
 import { generateId, nowIso } from '../../lib/utils.js';
 import type { Env } from '../../types/env.js';
 import { PaperEngine, type Position } from '../../services/paper-engine.js';
@@ -76,14 +78,26 @@ export async function persistTrade(env: Env, position: Position): Promise<void>
       reasoning: position.reasoning,
       strategyUsed: position.strategyUsed,
       slippageSimulated: position.slippageSimulated,
+      feeUsd: position.feeUsd ?? null,
+      leverage: position.leverage ?? null,
+      liquidationPrice: position.liquidationPrice ?? null,
+      fundingUsd: position.fundingUsd ?? null,
       status: position.status,
       closeReason: position.closeReason ?? null,
+      parentTradeId: position.parentPositionId ?? null,
+      fillType: position.fillType ?? null,
       openedAt: position.openedAt,
       closedAt: position.closedAt ?? null,
     })
     .onConflictDoUpdate({
       target: trades.id,
       set: {
+        // Scaling in/out rewrites the parent position's size and average entry.
+        entryPrice: position.entryPrice,
+        amountUsd: position.amountUsd,
+        feeUsd: position.feeUsd ?? null,
+        liquidationPrice: position.liquidationPrice ?? null,
+        fundingUsd: position.fundingUsd ?? null,
         exitPrice: position.exitPrice ?? null,
         pnlPct: position.pnlPct ?? null,
         pnlUsd: position.pnlUsd ?? null,
@@ -94,3 +108,19 @@ export async function persistTrade(env: Env, position: Position): Promise<void>
       },
     });
 }
+
+/** Fingerprint of the engine's positions; changes on any entry, exit, fill or scale. */
+export function tradeActivityMark(engine: PaperEngine): string {
+  return `${engine.closedPositions.length}|${engine.openPositions.map((p) => `${p.id}@${p.amountUsd}`).join(',')}`;
+}
+
+/** Ask the agent's manager, if any, to re-run its risk guard after this agent traded. Best effort. */
+export async function notifyManagerOfTrades(env: Env, agentId: string): Promise<void> {
+  try {
+    const db = drizzle(env.DB);
+    const [row] = await db.select({ managerId: agents.managerId }).from(agents).where(eq(agents.id, agentId));
+    if (row?.managerId) await runManagerRiskCheckDo(env, row.managerId);
+  } catch (err) {
+    console.warn(`[TradingAgentDO] ${agentId}: manager risk check failed:`, err);
+  }
+}
@@ -18,6 +18,12 @@ export type CachedAgentRow = {
   isPaper: boolean | null;
 };
 
+/** Config version id resolved for a stored config, so agent-loop only looks it up in D1 after a change. */
+export type CachedConfigVersion = {
+  config: string;
+  id: string;
+};
+
 export type SerializedEngineState = ReturnType<PaperEngine['serialize']>;
 
 export type TradingAgentRuntime = {
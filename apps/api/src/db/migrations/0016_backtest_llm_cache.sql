@@ -0,0 +1,11 @@
+-- Migration: 0016_backtest_llm_cache
+-- Recorded LLM decisions for backtests, keyed by a hash of model + full prompt.
+-- Re-running a backtest over the same history replays these instead of calling the LLM.
+CREATE TABLE IF NOT EXISTS backtest_llm_cache (
+  prompt_hash TEXT PRIMARY KEY,
+  model TEXT NOT NULL,
+  prompt_text TEXT NOT NULL,
+  raw_response TEXT NOT NULL,
+  decision TEXT NOT NULL,
+  created_at TEXT NOT NULL
+);
@@ -0,0 +1,7 @@
+-- Migration: 0017_trade_scaling
+-- Partial closes and scale-ins. A `reduce` row is the closed slice of a position,
+-- an `add` row (status 'merged') is a lot folded into it; both point at the parent trade.
+ALTER TABLE trades ADD COLUMN parent_trade_id TEXT;
+ALTER TABLE trades ADD COLUMN fill_type TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_trades_parent_trade_id ON trades(parent_trade_id);
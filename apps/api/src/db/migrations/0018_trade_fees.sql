@@ -0,0 +1,3 @@
+-- Migration: 0018_trade_fees
+-- Swap fees charged by the liquidity fill model (entry + exit, USD). Null under the flat model.
+ALTER TABLE trades ADD COLUMN fee_usd REAL;
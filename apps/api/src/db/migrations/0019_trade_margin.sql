@@ -0,0 +1,6 @@
+-- Migration: 0019_trade_margin
+-- Paper margin positions (shorts and leveraged longs): leverage, liquidation mark price
+-- and net funding paid. Null on spot longs.
+ALTER TABLE trades ADD COLUMN leverage REAL;
+ALTER TABLE trades ADD COLUMN liquidation_price REAL;
+ALTER TABLE trades ADD COLUMN funding_usd REAL;
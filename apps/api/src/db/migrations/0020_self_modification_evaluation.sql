@@ -0,0 +1,12 @@
+-- Migration: 0020_self_modification_evaluation
+-- A/B evaluation of applied self-modifications: the config values they replaced,
+-- metrics before and after, when to evaluate, and the revert outcome.
+ALTER TABLE agent_self_modifications ADD COLUMN previous_values TEXT;
+ALTER TABLE agent_self_modifications ADD COLUMN baseline_metrics TEXT;
+ALTER TABLE agent_self_modifications ADD COLUMN evaluation_metrics TEXT;
+ALTER TABLE agent_self_modifications ADD COLUMN evaluate_after TEXT;
+ALTER TABLE agent_self_modifications ADD COLUMN evaluated_at TEXT;
+ALTER TABLE agent_self_modifications ADD COLUMN reverted_at TEXT;
+ALTER TABLE agent_self_modifications ADD COLUMN revert_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_self_mods_evaluate_after ON agent_self_modifications(agent_id, status, evaluate_after);
@@ -0,0 +1,22 @@
+-- Migration: 0021_agent_config_versions
+-- Append-only history of agent configs. A version is written on every config
+-- change (user PATCH/restore, manager modify_agent, self-modification apply or
+-- revert) and each decision records the version it was made under.
+CREATE TABLE IF NOT EXISTS agent_config_versions (
+  id TEXT PRIMARY KEY,
+  agent_id TEXT NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  config TEXT NOT NULL,
+  author TEXT NOT NULL,
+  author_ref TEXT,
+  note TEXT,
+  created_at TEXT NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_agent_config_versions_agent_version ON agent_config_versions(agent_id, version);
+
+-- Existing agents start their history at version 1 with their current config.
+INSERT OR IGNORE INTO agent_config_versions (id, agent_id, version, config, author, author_ref, note, created_at)
+SELECT 'cfgv_' || id, id, 1, config, 'user', NULL, 'initial', updated_at FROM agents;
+
+ALTER TABLE agent_decisions ADD COLUMN config_version_id TEXT;
@@ -0,0 +1,6 @@
+-- Migration: 0022_snapshot_equity
+-- Mark-to-market performance snapshots: equity (cash + open positions at
+-- current prices), unrealized P&L and open notional. Null on older rows.
+ALTER TABLE performance_snapshots ADD COLUMN equity REAL;
+ALTER TABLE performance_snapshots ADD COLUMN unrealized_pnl_usd REAL;
+ALTER TABLE performance_snapshots ADD COLUMN exposure_usd REAL;
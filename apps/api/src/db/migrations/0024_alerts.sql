@@ -0,0 +1,48 @@
+-- Migration: 0024_alerts
+-- User-defined alert rules, the notification channels they deliver to, and a
+-- history of every notification sent. Throttling reads the latest history row
+-- for a rule and agent, so history doubles as the throttle state.
+CREATE TABLE IF NOT EXISTS alert_channels (
+  id TEXT PRIMARY KEY,
+  owner_address TEXT NOT NULL,
+  name TEXT NOT NULL,
+  type TEXT NOT NULL,
+  config TEXT NOT NULL,
+  is_active INTEGER NOT NULL DEFAULT 1,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_channels_owner ON alert_channels(owner_address);
+
+CREATE TABLE IF NOT EXISTS alert_rules (
+  id TEXT PRIMARY KEY,
+  owner_address TEXT NOT NULL,
+  agent_id TEXT REFERENCES agents(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  type TEXT NOT NULL,
+  condition TEXT NOT NULL,
+  channel_ids TEXT NOT NULL,
+  throttle_minutes INTEGER NOT NULL DEFAULT 60,
+  is_active INTEGER NOT NULL DEFAULT 1,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_rules_owner ON alert_rules(owner_address, type);
+
+CREATE TABLE IF NOT EXISTS alert_notifications (
+  id TEXT PRIMARY KEY,
+  owner_address TEXT NOT NULL,
+  rule_id TEXT NOT NULL REFERENCES alert_rules(id) ON DELETE CASCADE,
+  agent_id TEXT,
+  rule_type TEXT NOT NULL,
+  message TEXT NOT NULL,
+  context TEXT NOT NULL,
+  deliveries TEXT NOT NULL,
+  status TEXT NOT NULL,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_notifications_rule ON alert_notifications(rule_id, agent_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_alert_notifications_owner ON alert_notifications(owner_address, created_at);
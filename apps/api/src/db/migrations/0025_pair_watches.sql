@@ -0,0 +1,36 @@
+-- Migration: 0025_pair_watches
+-- Price and indicator watch alerts on pairs, independent of agents. The
+-- scheduled job keeps the last reading on the watch so crossings can be
+-- detected between runs; each trigger is stored as an event the web app
+-- shows until the user dismisses it.
+CREATE TABLE IF NOT EXISTS pair_watches (
+  id TEXT PRIMARY KEY,
+  owner_address TEXT NOT NULL,
+  pair TEXT NOT NULL,
+  condition TEXT NOT NULL,
+  repeat INTEGER NOT NULL DEFAULT 0,
+  note TEXT,
+  status TEXT NOT NULL DEFAULT 'active',
+  last_value REAL,
+  last_checked_at TEXT,
+  last_triggered_at TEXT,
+  trigger_count INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_pair_watches_owner ON pair_watches(owner_address);
+CREATE INDEX IF NOT EXISTS idx_pair_watches_status ON pair_watches(status, pair);
+
+CREATE TABLE IF NOT EXISTS pair_watch_events (
+  id TEXT PRIMARY KEY,
+  watch_id TEXT NOT NULL REFERENCES pair_watches(id) ON DELETE CASCADE,
+  owner_address TEXT NOT NULL,
+  pair TEXT NOT NULL,
+  message TEXT NOT NULL,
+  value REAL NOT NULL,
+  seen_at TEXT,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_pair_watch_events_owner ON pair_watch_events(owner_address, seen_at, created_at);
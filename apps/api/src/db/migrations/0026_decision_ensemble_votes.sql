@@ -0,0 +1,4 @@
+-- Migration: 0026_decision_ensemble_votes
+-- Multi-model consensus decisions keep every member's vote (model, action,
+-- confidence, reasoning or error) as JSON. Null on single-model decisions.
+ALTER TABLE agent_decisions ADD COLUMN ensemble_votes TEXT;
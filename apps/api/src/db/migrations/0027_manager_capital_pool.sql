@@ -0,0 +1,5 @@
+-- Migration: 0027_manager_capital_pool
+-- Paper cash a manager holds but has not allocated to any of its agents.
+-- allocate_capital and rebalance actions move cash between this pool and the
+-- managed agents' paper engines.
+ALTER TABLE agent_managers ADD COLUMN capital_pool_usd REAL NOT NULL DEFAULT 0;
@@ -0,0 +1,39 @@
+-- Migration: 0028_manager_memory
+-- Manager memory moves out of the manager DO into D1 so it can be listed and
+-- edited. Hypotheses are free-form notes the prompt carries between cycles;
+-- parameter changes record every modify_agent with a closed-trade baseline,
+-- and the measured outcome is filled in once the evaluation window elapses.
+CREATE TABLE IF NOT EXISTS manager_hypotheses (
+  id TEXT PRIMARY KEY,
+  manager_id TEXT NOT NULL REFERENCES agent_managers(id) ON DELETE CASCADE,
+  description TEXT NOT NULL,
+  outcome TEXT,
+  still_valid INTEGER NOT NULL DEFAULT 1,
+  tested_at TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_manager_hypotheses_manager ON manager_hypotheses(manager_id, created_at);
+
+CREATE TABLE IF NOT EXISTS manager_parameter_changes (
+  id TEXT PRIMARY KEY,
+  manager_id TEXT NOT NULL REFERENCES agent_managers(id) ON DELETE CASCADE,
+  agent_id TEXT NOT NULL,
+  change TEXT NOT NULL,
+  changes TEXT NOT NULL,
+  previous_values TEXT NOT NULL,
+  config_version_id TEXT,
+  evaluation_cycles INTEGER NOT NULL,
+  baseline_metrics TEXT NOT NULL,
+  evaluate_after TEXT NOT NULL,
+  outcome_after_n_cycles TEXT,
+  outcome_metrics TEXT,
+  evaluated_at TEXT,
+  change_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_manager_parameter_changes_manager ON manager_parameter_changes(manager_id, change_at);
+
+ALTER TABLE agent_managers ADD COLUMN market_regime TEXT;
+ALTER TABLE agent_managers ADD COLUMN last_evaluation_at TEXT;
@@ -0,0 +1,5 @@
+-- Migration: 0029_decision_team_transcript
+-- Agent team decisions keep each role's turn (analyst thesis, risk verdict,
+-- executor decision) with its model, latency and tokens as JSON.
+-- Null on single-model and ensemble decisions.
+ALTER TABLE agent_decisions ADD COLUMN team_transcript TEXT;
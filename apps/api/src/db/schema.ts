@@ -66,8 +66,17 @@ export const trades = sqliteTable('trades', {
   reasoning: text('reasoning').notNull(),
   strategyUsed: text('strategy_used').notNull(),
   slippageSimulated: real('slippage_simulated').notNull().default(0.003),
+  /** Swap fees paid on entry + exit (USD); null under the flat fill model. */
+  feeUsd: real('fee_usd'),
+  /** Margin positions only: leverage, liquidation mark price, net funding paid (USD). */
+  leverage: real('leverage'),
+  liquidationPrice: real('liquidation_price'),
+  fundingUsd: real('funding_usd'),
   status: text('status').notNull().default('open'),
   closeReason: text('close_reason'),
+  /** add/reduce rows: the position they scaled into or out of */
+  parentTradeId: text('parent_trade_id'),
+  fillType: text('fill_type'),
   openedAt: text('opened_at').notNull(),
   closedAt: text('closed_at'),
 });
@@ -86,6 +95,12 @@ export const agentDecisions = sqliteTable('agent_decisions', {
   marketDataSnapshot: text('market_data_snapshot').notNull(),
   llmPromptText: text('llm_prompt_text'),
   llmRawResponse: text('llm_raw_response'),
+  /** agent_config_versions.id the decision was made under; null for decisions before versioning */
+  configVersionId: text('config_version_id'),
+  /** JSON EnsembleVote[] on multi-model consensus decisions; null otherwise */
+  ensembleVotes: text('ensemble_votes'),
+  /** JSON TeamTurn[] on agent team decisions; null otherwise */
+  teamTranscript: text('team_transcript'),
   createdAt: text('created_at').notNull(),
 });
 
@@ -98,6 +113,11 @@ export const performanceSnapshots = sqliteTable('performance_snapshots', {
   totalTrades: integer('total_trades').notNull(),
   sharpeRatio: real('sharpe_ratio'),
   maxDrawdown: real('max_drawdown'),
+  /** Cash balance plus open positions valued at current prices; null before mark-to-market snapshots. */
+  equity: real('equity'),
+  unrealizedPnlUsd: real('unrealized_pnl_usd'),
+  /** Open notional at the mark price. */
+  exposureUsd: real('exposure_usd'),
   snapshotAt: text('snapshot_at').notNull(),
 });
 
@@ -109,6 +129,11 @@ export const agentManagers = sqliteTable('agent_managers', {
   status: text('status').notNull().default('stopped'),
   personaMd: text('persona_md'),
   profileId: text('profile_id'),
+  /** Unallocated paper cash; allocate_capital / rebalance move it to and from managed agents. */
+  capitalPoolUsd: real('capital_pool_usd').notNull().default(0),
+  /** JSON ManagerMemory['market_regime'] */
+  marketRegime: text('market_regime'),
+  lastEvaluationAt: text('last_evaluation_at'),
   createdAt: text('created_at')
     .notNull()
     .default(sql`(datetime('now'))`),
@@ -132,6 +157,40 @@ export const agentManagerLogs = sqliteTable('agent_manager_logs', {
     .default(sql`(datetime('now'))`),
 });
 
+export const managerHypotheses = sqliteTable('manager_hypotheses', {
+  id:          text('id').primaryKey(),
+  managerId:   text('manager_id').notNull().references(() => agentManagers.id, { onDelete: 'cascade' }),
+  description: text('description').notNull(),
+  outcome:     text('outcome'),
+  stillValid:  integer('still_valid', { mode: 'boolean' }).notNull().default(true),
+  testedAt:    text('tested_at'),
+  createdAt:   text('created_at').notNull(),
+  updatedAt:   text('updated_at').notNull(),
+});
+
+export const managerParameterChanges = sqliteTable('manager_parameter_changes', {
+  id:                  text('id').primaryKey(),
+  managerId:           text('manager_id').notNull().references(() => agentManagers.id, { onDelete: 'cascade' }),
+  agentId:             text('agent_id').notNull(),
+  /** Human-readable summary, e.g. "stopLossPct 5 → 3" */
+  change:              text('change').notNull(),
+  /** JSON params the manager applied */
+  changes:             text('changes').notNull(),
+  /** JSON config values the changes replaced (null = key was unset) */
+  previousValues:      text('previous_values').notNull(),
+  configVersionId:     text('config_version_id'),
+  /** Agent analysis cycles in each measurement window */
+  evaluationCycles:    integer('evaluation_cycles').notNull(),
+  /** JSON SelfModWindowMetrics over the window before the change */
+  baselineMetrics:     text('baseline_metrics').notNull(),
+  evaluateAfter:       text('evaluate_after').notNull(),
+  /** Filled from measured metrics once evaluateAfter passes */
+  outcomeAfterNCycles: text('outcome_after_n_cycles'),
+  outcomeMetrics:      text('outcome_metrics'),
+  evaluatedAt:         text('evaluated_at'),
+  changeAt:            text('change_at').notNull(),
+});
+
 export const agentSelfModifications = sqliteTable('agent_self_modifications', {
   id:             text('id').primaryKey(),
   agentId:        text('agent_id').notNull().references(() => agents.id, { onDelete: 'cascade' }),
@@ -139,9 +198,144 @@ export const agentSelfModifications = sqliteTable('agent_self_modifications', {
   reason:         text('reason').notNull(),
   changes:        text('changes').notNull(),
   changesApplied: text('changes_applied'),
+  /** pending → applied → kept | reverted; or rejected */
   status:         text('status').notNull().default('pending'),
   appliedAt:      text('applied_at'),
   createdAt:      text('created_at').notNull(),
+  /** Config values the applied changes replaced (null = key was unset) */
+  previousValues: text('previous_values'),
+  baselineMetrics:   text('baseline_metrics'),
+  evaluationMetrics: text('evaluation_metrics'),
+  evaluateAfter:  text('evaluate_after'),
+  evaluatedAt:    text('evaluated_at'),
+  revertedAt:     text('reverted_at'),
+  revertReason:   text('revert_reason'),
+});
+
+export const agentConfigVersions = sqliteTable('agent_config_versions', {
+  id:        text('id').primaryKey(),
+  agentId:   text('agent_id').notNull().references(() => agents.id, { onDelete: 'cascade' }),
+  /** 1-based, increasing per agent; unique per (agent_id, version) */
+  version:   integer('version').notNull(),
+  config:    text('config').notNull(),
+  /** 'user' | 'manager' | 'self_mod' */
+  author:    text('author').notNull(),
+  /** Manager id or self-modification id behind the change */
+  authorRef: text('author_ref'),
+  note:      text('note'),
+  createdAt: text('created_at').notNull(),
+});
+
+export const webhooks = sqliteTable('webhooks', {
+  id:           text('id').primaryKey(),
+  ownerAddress: text('owner_address').notNull(),
+  url:          text('url').notNull(),
+  /** HMAC-SHA256 signing secret; only returned when the webhook is created */
+  secret:       text('secret').notNull(),
+  /** JSON array of subscribed WebhookEventType values */
+  events:       text('events').notNull(),
+  description:  text('description'),
+  isActive:     integer('is_active', { mode: 'boolean' }).notNull().default(true),
+  createdAt:    text('created_at').notNull(),
+  updatedAt:    text('updated_at').notNull(),
+});
+
+export const webhookDeliveries = sqliteTable('webhook_deliveries', {
+  id:             text('id').primaryKey(),
+  webhookId:      text('webhook_id').notNull().references(() => webhooks.id, { onDelete: 'cascade' }),
+  /** Shared by every delivery of the same event */
+  eventId:        text('event_id').notNull(),
+  eventType:      text('event_type').notNull(),
+  /** Exact JSON body that is signed and sent */
+  payload:        text('payload').notNull(),
+  /** pending → delivered | failed */
+  status:         text('status').notNull().default('pending'),
+  attempts:       integer('attempts').notNull().default(0),
+  responseStatus: integer('response_status'),
+  error:          text('error'),
+  createdAt:      text('created_at').notNull(),
+  lastAttemptAt:  text('last_attempt_at'),
+  deliveredAt:    text('delivered_at'),
+});
+
+export const alertChannels = sqliteTable('alert_channels', {
+  id:           text('id').primaryKey(),
+  ownerAddress: text('owner_address').notNull(),
+  name:         text('name').notNull(),
+  /** telegram | discord | email */
+  type:         text('type').notNull(),
+  /** JSON AlertChannelConfig (bot token, webhook URL or address); masked in API responses */
+  config:       text('config').notNull(),
+  isActive:     integer('is_active', { mode: 'boolean' }).notNull().default(true),
+  createdAt:    text('created_at').notNull(),
+  updatedAt:    text('updated_at').notNull(),
+});
+
+export const alertRules = sqliteTable('alert_rules', {
+  id:              text('id').primaryKey(),
+  ownerAddress:    text('owner_address').notNull(),
+  /** null = every agent the owner has */
+  agentId:         text('agent_id').references(() => agents.id, { onDelete: 'cascade' }),
+  name:            text('name').notNull(),
+  /** AlertRuleType, duplicated from condition for filtering */
+  type:            text('type').notNull(),
+  /** JSON AlertCondition */
+  condition:       text('condition').notNull(),
+  /** JSON array of alert_channels ids */
+  channelIds:      text('channel_ids').notNull(),
+  throttleMinutes: integer('throttle_minutes').notNull().default(60),
+  isActive:        integer('is_active', { mode: 'boolean' }).notNull().default(true),
+  createdAt:       text('created_at').notNull(),
+  updatedAt:       text('updated_at').notNull(),
+});
+
+export const alertNotifications = sqliteTable('alert_notifications', {
+  id:           text('id').primaryKey(),
+  ownerAddress: text('owner_address').notNull(),
+  ruleId:       text('rule_id').notNull().references(() => alertRules.id, { onDelete: 'cascade' }),
+  agentId:      text('agent_id'),
+  ruleType:     text('rule_type').notNull(),
+  message:      text('message').notNull(),
+  /** JSON signal values that triggered the rule */
+  context:      text('context').notNull(),
+  /** JSON array of { channelId, type, ok, error } */
+  deliveries:   text('deliveries').notNull(),
+  /** sent | partial | failed */
+  status:       text('status').notNull(),
+  createdAt:    text('created_at').notNull(),
+});
+
+export const pairWatches = sqliteTable('pair_watches', {
+  id:              text('id').primaryKey(),
+  ownerAddress:    text('owner_address').notNull(),
+  /** Normalized with normalizePairForDex */
+  pair:            text('pair').notNull(),
+  /** JSON PairWatchCondition */
+  condition:       text('condition').notNull(),
+  repeat:          integer('repeat', { mode: 'boolean' }).notNull().default(false),
+  note:            text('note'),
+  /** active | paused | triggered (one-shot watch that has fired) */
+  status:          text('status').notNull().default('active'),
+  /** Metric reading from the previous run, for crossing detection */
+  lastValue:       real('last_value'),
+  lastCheckedAt:   text('last_checked_at'),
+  lastTriggeredAt: text('last_triggered_at'),
+  triggerCount:    integer('trigger_count').notNull().default(0),
+  createdAt:       text('created_at').notNull(),
+  updatedAt:       text('updated_at').notNull(),
+});
+
+export const pairWatchEvents = sqliteTable('pair_watch_events', {
+  id:           text('id').primaryKey(),
+  watchId:      text('watch_id').notNull().references(() => pairWatches.id, { onDelete: 'cascade' }),
+  ownerAddress: text('owner_address').notNull(),
+  pair:         text('pair').notNull(),
+  message:      text('message').notNull(),
+  /** Metric reading that fired the watch */
+  value:        real('value').notNull(),
+  /** Set when dismissed in the web app */
+  seenAt:       text('seen_at'),
+  createdAt:    text('created_at').notNull(),
 });
 
 export const behaviorProfiles = sqliteTable('behavior_profiles', {
@@ -159,3 +353,14 @@ export const behaviorProfiles = sqliteTable('behavior_profiles', {
     .notNull()
     .default(sql`(datetime('now'))`),
 });
+
+/** Recorded backtest LLM decisions keyed by sha256(model + full prompt). */
+export const backtestLlmCache = sqliteTable('backtest_llm_cache', {
+  promptHash: text('prompt_hash').primaryKey(),
+  model: text('model').notNull(),
+  promptText: text('prompt_text').notNull(),
+  rawResponse: text('raw_response').notNull(),
+  /** JSON TradeDecision parsed from rawResponse */
+  decision: text('decision').notNull(),
+  createdAt: text('created_at').notNull(),
+});
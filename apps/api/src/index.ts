@@ -7,16 +7,22 @@ import { createAuthMiddleware } from './lib/auth.js';
 import { createRateLimitMiddleware } from './lib/rate-limit.js';
 import healthRoute from './routes/health.js';
 import pairsRoute from './routes/pairs.js';
+import pairWatchesRoute from './routes/pair-watches.js';
 import agentsRoute from './routes/agents.js';
 import tradesRoute from './routes/trades.js';
 import authRoute from './routes/auth.js';
 import { snapshotAllAgents } from './services/snapshot.js';
+import { evaluateScheduledAlerts } from './services/alerts.js';
+import { evaluatePairWatches } from './services/pair-watches.js';
 import { listFreeModels } from './services/llm-router.js';
 import { handleLlmQueueBatch } from './lib/llm-queue.js';
+import { handleWebhookQueueBatch } from './lib/webhook-queue.js';
 import { getSession, parseCookieValue } from './lib/auth.js';
 import comparisonRoute from './routes/comparison.js';
 import managersRoute from './routes/managers.js';
 import profilesRoute from './routes/profiles.js';
+import webhooksRoute from './routes/webhooks.js';
+import alertsRoute from './routes/alerts.js';
 import { ValidationError } from './lib/validation.js';
 import { drizzle } from 'drizzle-orm/d1';
 import { agents } from './db/schema.js';
@@ -95,13 +101,20 @@ app.use(
 
 app.use('*', logger());
 
+const authMiddleware = createAuthMiddleware();
+
+// Watch alerts share the public /api/pairs prefix but are per-user, so they
+// are mounted (with auth) ahead of the public pairs routes.
+app.use('/api/pairs/watches', authMiddleware as any);
+app.use('/api/pairs/watches/*', authMiddleware as any);
+app.route('/api/pairs/watches', pairWatchesRoute);
+
 // Public routes (no auth required)
 app.route('/api/health', healthRoute);
 app.route('/api/pairs', pairsRoute);
 app.route('/api/auth', authRoute);
 
 // Auth middleware for protected routes
-const authMiddleware = createAuthMiddleware();
 app.use('/api/agents', authMiddleware as any);
 app.use('/api/agents/*', authMiddleware as any);
 app.use('/api/trades', authMiddleware as any);
@@ -112,6 +125,10 @@ app.use('/api/managers', authMiddleware as any);
 app.use('/api/managers/*', authMiddleware as any);
 app.use('/api/profiles', authMiddleware as any);
 app.use('/api/profiles/*', authMiddleware as any);
+app.use('/api/webhooks', authMiddleware as any);
+app.use('/api/webhooks/*', authMiddleware as any);
+app.use('/api/alerts', authMiddleware as any);
+app.use('/api/alerts/*', authMiddleware as any);
 
 // Protected routes
 app.route('/api/agents', agentsRoute);
@@ -119,6 +136,8 @@ app.route('/api/trades', tradesRoute);
 app.route('/api/compare', comparisonRoute);
 app.route('/api/managers', managersRoute);
 app.route('/api/profiles', profilesRoute);
+app.route('/api/webhooks', webhooksRoute);
+app.route('/api/alerts', alertsRoute);
 
 /** GET /api/models — list available LLM models from OpenRouter */
 app.get('/api/models', async (c) => {
@@ -175,10 +194,17 @@ app.get('/', (c) =>
       'GET  /api/agents/:id/trades',
       'GET  /api/agents/:id/decisions',
       'GET  /api/agents/:id/performance',
+      'POST /api/agents/:id/backtest',
       'GET  /api/trades',
       'GET  /api/trades/stats',
       'GET  /api/pairs/search?q=',
       'GET  /api/pairs/:chain/:address',
+      'GET  /api/pairs/watches',
+      'POST /api/pairs/watches',
+      'PATCH /api/pairs/watches/:id',
+      'DELETE /api/pairs/watches/:id',
+      'GET  /api/pairs/watches/events',
+      'POST /api/pairs/watches/events/seen',
       'GET  /api/managers',
       'POST /api/managers',
       'GET  /api/managers/:id',
@@ -189,6 +215,27 @@ app.get('/', (c) =>
       'POST /api/managers/:id/pause',
       'GET  /api/managers/:id/logs',
       'GET  /api/managers/:id/agents',
+      'GET  /api/managers/:id/memory',
+      'POST /api/managers/:id/memory/hypotheses',
+      'PATCH /api/managers/:id/memory/hypotheses/:hypothesisId',
+      'DELETE /api/managers/:id/memory/hypotheses/:hypothesisId',
+      'GET  /api/webhooks',
+      'POST /api/webhooks',
+      'GET  /api/webhooks/:id',
+      'PATCH /api/webhooks/:id',
+      'DELETE /api/webhooks/:id',
+      'POST /api/webhooks/:id/ping',
+      'GET  /api/webhooks/:id/deliveries',
+      'GET  /api/alerts/channels',
+      'POST /api/alerts/channels',
+      'PATCH /api/alerts/channels/:id',
+      'DELETE /api/alerts/channels/:id',
+      'POST /api/alerts/channels/:id/test',
+      'GET  /api/alerts/rules',
+      'POST /api/alerts/rules',
+      'PATCH /api/alerts/rules/:id',
+      'DELETE /api/alerts/rules/:id',
+      'GET  /api/alerts/notifications',
     ],
   })
 );
@@ -211,9 +258,17 @@ app.onError((err, c) => {
 
 // Hourly cron — only used for performance snapshots.
 // Agent analysis is driven by DO alarms (self-scheduling), not cron triggers.
-const scheduled: ExportedHandlerScheduledHandler<Env> = async (_event, env, ctx) => {
+/** Must match the second entry of `crons` in wrangler.toml. */
+const PAIR_WATCH_CRON = '*/5 * * * *';
+
+const scheduled: ExportedHandlerScheduledHandler<Env> = async (event, env, ctx) => {
+  if (event.cron === PAIR_WATCH_CRON) {
+    ctx.waitUntil(evaluatePairWatches(env));
+    return;
+  }
   console.log('[cron] Hourly snapshot triggered');
-  ctx.waitUntil(snapshotAllAgents(env));
+  // Alerts run after snapshots so drawdown rules see the fresh equity.
+  ctx.waitUntil(snapshotAllAgents(env).then(() => evaluateScheduledAlerts(env)));
 };
 
 /**
@@ -279,11 +334,14 @@ export default {
     return app.fetch(request, env, ctx);
   },
   scheduled,
-  /** Cloudflare Queues consumer for async LLM processing. */
+  /** Cloudflare Queues consumer for async LLM processing and webhook deliveries. */
   async queue(batch: MessageBatch<unknown>, env: Env): Promise<void> {
     if (batch.queue === 'llm-jobs') {
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       await handleLlmQueueBatch(batch as any, env);
+    } else if (batch.queue === 'webhook-deliveries') {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await handleWebhookQueueBatch(batch as any, env);
     }
   },
 };
@@ -7,7 +7,7 @@
  * These transforms are applied to raw config JSON from D1 before Zod parsing,
  * and must handle any historical config format produced since launch.
  */
-import { TRADING_INTERVALS, normalizeTradingInterval } from '@something-in-loop/shared';
+import { CustomRuleSchema, IndicatorPeriodsSchema, TRADING_INTERVALS, normalizeTradingInterval } from '@something-in-loop/shared';
 
 /** Valid analysis intervals in the current schema. */
 export const VALID_ANALYSIS_INTERVALS = new Set(TRADING_INTERVALS);
@@ -20,6 +20,12 @@ export const VALID_STRATEGIES = new Set([
   'bollinger_bounce',
   'volume_breakout',
   'llm_sentiment',
+  'stochastic_cross',
+  'adx_trend',
+  'vwap_reversion',
+  'obv_trend',
+  'keltner_breakout',
+  'ichimoku_cloud',
   'combined',
 ]);
 
@@ -32,6 +38,9 @@ export const VALID_STRATEGIES = new Set([
  * - Unknown interval values → "1h" (global default)
  * - Legacy/unknown strategy enum values → "combined"
  * - Out-of-range numeric fields → clamped to schema bounds
+ * - Indicator periods longer than the analysed history (e.g. the old 52-bar
+ *   Ichimoku span default) → dropped, so the current default applies
+ * - Custom rules needing more history than analysis sees (they never fired) → dropped
  *
  * This function is PURE (no side effects) — it returns a modified copy.
  */
@@ -55,6 +64,23 @@ export function migrateAgentConfig(rawConfig: Record<string, unknown>): Record<s
     }
   }
 
+  // ── indicatorPeriods ──────────────────────────────────────────────────────
+
+  if (config.indicatorPeriods && typeof config.indicatorPeriods === 'object') {
+    const parsed = IndicatorPeriodsSchema.safeParse(config.indicatorPeriods);
+    if (!parsed.success) {
+      const periods = { ...(config.indicatorPeriods as Record<string, unknown>) };
+      for (const issue of parsed.error.issues) delete periods[String(issue.path[0])];
+      config.indicatorPeriods = periods;
+    }
+  }
+
+  // ── customRules ───────────────────────────────────────────────────────────
+
+  if (Array.isArray(config.customRules)) {
+    config.customRules = config.customRules.filter((rule) => CustomRuleSchema.safeParse(rule).success);
+  }
+
   // ── numeric bounds (clamp to Zod schema limits) ──────────────────────────
 
   config.stopLossPct        = clampIfNumber(config.stopLossPct,        0.5, 50);
@@ -1,6 +1,9 @@
 import { normalizeTradingInterval } from '@something-in-loop/shared';
 import type { CachedAgentRow } from '../agents/trading-agent.js';
 import type { Env } from '../types/env.js';
+import type { PaperEngine } from '../services/paper-engine.js';
+import type { ManagerEntryGuard } from '../agents/agent-loop/manager-guard.js';
+import type { LlmCallBudgetResult } from '../agents/agent-loop/llm-budget.js';
 
 type TradingAgentBindings = Pick<Env, 'TRADING_AGENT'>;
 type AgentManagerBindings = Pick<Env, 'AGENT_MANAGER'>;
@@ -109,6 +112,54 @@ export async function syncTradingAgentConfigDo(
   });
 }
 
+/** Serialized PaperEngine state from the agent's DO; null when the agent has never started. */
+export async function getTradingAgentEngineStateDo(
+  env: TradingAgentBindings,
+  agentId: string,
+): Promise<ReturnType<PaperEngine['serialize']> | null> {
+  const stub = getTradingAgentStub(env, agentId);
+  return fetchDoJson<ReturnType<PaperEngine['serialize']> | null>(stub, '/engine-state');
+}
+
+/** Deposit (+) or withdraw (−) paper cash on an agent's engine; fails while a tick is running. */
+export async function adjustTradingAgentCapitalDo(
+  env: TradingAgentBindings,
+  agentId: string,
+  deltaUsd: number,
+): Promise<{ balanceBefore: number; balanceAfter: number }> {
+  const stub = getTradingAgentStub(env, agentId);
+  return fetchDoJson<{ balanceBefore: number; balanceAfter: number }>(stub, '/adjust-capital', {
+    method: 'POST',
+    body: JSON.stringify({ deltaUsd }),
+  });
+}
+
+/** Replace (or clear, with null) the entry block the agent's manager risk guard applies. */
+export async function setTradingAgentManagerGuardDo(
+  env: TradingAgentBindings,
+  agentId: string,
+  guard: ManagerEntryGuard | null,
+): Promise<void> {
+  const stub = getTradingAgentStub(env, agentId);
+  await fetchDoJson(stub, '/manager-guard', {
+    method: 'POST',
+    body: JSON.stringify({ guard }),
+  });
+}
+
+/** Charge `calls` LLM calls to the agent's hourly budget; nothing is charged when they do not fit. */
+export async function consumeTradingAgentLlmBudgetDo(
+  env: TradingAgentBindings,
+  agentId: string,
+  params: { calls: number; maxPerHour: number },
+): Promise<LlmCallBudgetResult> {
+  const stub = getTradingAgentStub(env, agentId);
+  return fetchDoJson<LlmCallBudgetResult>(stub, '/llm-budget', {
+    method: 'POST',
+    body: JSON.stringify(params),
+  });
+}
+
 export async function startManagerDo(
   env: AgentManagerBindings,
   params: { managerId: string; decisionInterval?: string },
@@ -159,6 +210,12 @@ export async function triggerManagerDo(
   });
 }
 
+/** Run the manager's risk guard outside its decision cycle, e.g. after a managed agent trades. */
+export async function runManagerRiskCheckDo(env: AgentManagerBindings, managerId: string): Promise<void> {
+  const stub = getAgentManagerStub(env, managerId);
+  await fetchDoJson(stub, '/risk-check', { method: 'POST' });
+}
+
 export async function registerSchedulerAgent(
   env: AgentManagerBindings,
   params: { agentId: string; interval: string },
@@ -51,7 +51,8 @@ export class GlobalRateLimiterDO extends DurableObject<Env> {
     const url = new URL(request.url);
 
     if (url.pathname === '/check' && request.method === 'POST') {
-      const result = await this.checkAndIncrement();
+      const cost = Math.max(1, Math.floor(Number(url.searchParams.get('cost') ?? 1)) || 1);
+      const result = await this.checkAndIncrement(cost);
       return Response.json(result, { status: result.allowed ? 200 : 429 });
     }
 
@@ -68,8 +69,8 @@ export class GlobalRateLimiterDO extends DurableObject<Env> {
     return new Response('Not Found', { status: 404 });
   }
 
-  /** Atomically check limits and increment if allowed */
-  private async checkAndIncrement(): Promise<RateLimitCheckResult> {
+  /** Atomically check limits and increment by `cost` if allowed */
+  private async checkAndIncrement(cost: number): Promise<RateLimitCheckResult> {
     const nowSec = Math.floor(Date.now() / 1000);
 
     const [min, hr] = await Promise.all([
@@ -80,7 +81,7 @@ export class GlobalRateLimiterDO extends DurableObject<Env> {
     const minuteResetAt = min.windowStart + MINUTE_WINDOW;
     const hourResetAt   = hr.windowStart  + HOUR_WINDOW;
 
-    if (min.count >= LLM_LIMIT_PER_MINUTE) {
+    if (min.count + cost > LLM_LIMIT_PER_MINUTE) {
       return {
         allowed: false,
         limitedBy: 'minute',
@@ -91,7 +92,7 @@ export class GlobalRateLimiterDO extends DurableObject<Env> {
       };
     }
 
-    if (hr.count >= LLM_LIMIT_PER_HOUR) {
+    if (hr.count + cost > LLM_LIMIT_PER_HOUR) {
       return {
         allowed: false,
         limitedBy: 'hour',
@@ -103,8 +104,8 @@ export class GlobalRateLimiterDO extends DurableObject<Env> {
     }
 
     // Allowed — increment both counters
-    min.count++;
-    hr.count++;
+    min.count += cost;
+    hr.count += cost;
     await Promise.all([
       this.ctx.storage.put('minute', min),
       this.ctx.storage.put('hour', hr),
@@ -179,6 +180,7 @@ export class GlobalRateLimiterDO extends DurableObject<Env> {
 /**
  * Check LLM rate limit for a given userId via GlobalRateLimiterDO.
  * Returns the result; caller decides whether to proceed or return 429.
+ * `cost` is the number of LLM calls to reserve (an ensemble tick makes several).
  *
  * Usage:
  *   const result = await checkLlmRateLimit(env, userId);
@@ -186,9 +188,11 @@ export class GlobalRateLimiterDO extends DurableObject<Env> {
  */
 export async function checkLlmRateLimit(
   env: Env,
-  userId: string
+  userId: string,
+  cost = 1
 ): Promise<RateLimitCheckResult> {
   const stub = env.RATE_LIMITER.get(env.RATE_LIMITER.idFromName(userId));
-  const res = await stub.fetch(new Request('http://do/check', { method: 'POST' }));
+  const query = cost > 1 ? `?cost=${cost}` : '';
+  const res = await stub.fetch(new Request(`http://do/check${query}`, { method: 'POST' }));
   return res.json() as Promise<RateLimitCheckResult>;
 }
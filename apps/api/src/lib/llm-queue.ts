@@ -11,9 +11,10 @@
  */
 import { drizzle } from 'drizzle-orm/d1';
 import { eq } from 'drizzle-orm';
-import { getTradeDecision } from '../services/llm-router.js';
-import type { LlmJobMessage } from '../types/queue-types.js';
-import type { LLMRouterConfig } from '../services/llm-router.js';
+import { TEAM_ROLES } from '@something-in-loop/shared';
+import { getEnsembleTradeDecision, getTeamTradeDecision, getTradeDecision } from '../services/llm-router.js';
+import type { LlmJobConfig, LlmJobMessage } from '../types/queue-types.js';
+import type { EnsembleMember, LLMRouterConfig, TeamMembers } from '../services/llm-router.js';
 import type { Env } from '../types/env.js';
 import { users, agentDecisions } from '../db/schema.js';
 import { resolveStoredOpenRouterKey } from './openrouter-key.js';
@@ -84,12 +85,55 @@ async function resolveApiKey(
   return resolvedKey;
 }
 
+/** Resolve a key per ensemble member; members without one vote as unavailable. */
+async function resolveEnsembleMembers(
+  jobConfig: LlmJobConfig,
+  members: NonNullable<LlmJobMessage['ensemble']>['members'],
+  env: Env
+): Promise<EnsembleMember[]> {
+  const resolved: EnsembleMember[] = [];
+  for (const member of members) {
+    if ('unavailable' in member) {
+      resolved.push(member);
+      continue;
+    }
+    const apiKey = await resolveApiKey(jobConfig.ownerAddress, member.provider, env);
+    resolved.push(
+      apiKey
+        ? { model: member.model, config: { ...jobConfig, apiKey, model: member.model, provider: member.provider, allowFallback: false } }
+        : { model: member.model, unavailable: 'No API key available' }
+    );
+  }
+  return resolved;
+}
+
+/** Resolve a key per team role; null when any role has none, since every role must run. */
+async function resolveTeamMembers(
+  jobConfig: LlmJobConfig,
+  team: NonNullable<LlmJobMessage['team']>,
+  env: Env
+): Promise<TeamMembers | null> {
+  const resolved = {} as TeamMembers;
+  for (const role of TEAM_ROLES) {
+    const member = team[role];
+    const apiKey = await resolveApiKey(jobConfig.ownerAddress, member.provider, env);
+    if (!apiKey) return null;
+    resolved[role] = {
+      model: member.model,
+      roleMd: member.roleMd,
+      config: { ...jobConfig, apiKey, model: member.model, provider: member.provider, allowFallback: false },
+    };
+  }
+  return resolved;
+}
+
 async function insertHoldDecision(
   env: Env,
   agentId: string,
   llmModel: string,
   marketData: unknown,
   reasoning: string,
+  configVersionId: string | null,
 ): Promise<void> {
   try {
     const db = drizzle(env.DB);
@@ -102,6 +146,7 @@ async function insertHoldDecision(
       llmModel,
       llmLatencyMs: 0,
       marketDataSnapshot: JSON.stringify(marketData),
+      configVersionId,
       createdAt: nowIso(),
     });
   } catch (dbErr) {
@@ -113,15 +158,18 @@ async function processLlmJob(
   message: Message<LlmJobMessage>,
   env: Env
 ): Promise<void> {
-  const { agentId, jobId, llmConfig: jobConfig, tradeRequest } = message.body;
+  const { agentId, jobId, llmConfig: jobConfig, tradeRequest, configVersionId = null, ensemble = null, team = null } = message.body;
 
   const isLastAttempt = message.attempts > MAX_LLM_QUEUE_RETRIES;
 
-  const apiKey = await resolveApiKey(jobConfig.ownerAddress, jobConfig.provider, env);
-  if (!apiKey) {
+  const members = ensemble ? await resolveEnsembleMembers(jobConfig, ensemble.members, env) : null;
+  const teamMembers = !members && team ? await resolveTeamMembers(jobConfig, team, env) : null;
+  const apiKey = members || team ? '' : await resolveApiKey(jobConfig.ownerAddress, jobConfig.provider, env);
+  const hasKeys = members ? members.some((member) => 'config' in member) : team ? teamMembers !== null : !!apiKey;
+  if (!hasKeys) {
     console.error(`[llm-queue] Could not resolve API key for agent=${agentId} job=${jobId} attempt=${message.attempts}`);
     if (isLastAttempt) {
-      await insertHoldDecision(env, agentId, jobConfig.model, tradeRequest.marketData, 'No API key available after all retries');
+      await insertHoldDecision(env, agentId, jobConfig.model, tradeRequest.marketData, 'No API key available after all retries', configVersionId);
       message.ack();
     } else {
       message.retry();
@@ -137,7 +185,11 @@ async function processLlmJob(
 
   let decision: Awaited<ReturnType<typeof getTradeDecision>>;
   try {
-    decision = await getTradeDecision(llmConfig, tradeRequest);
+    decision = ensemble && members
+      ? await getEnsembleTradeDecision(members, tradeRequest, ensemble.policy)
+      : teamMembers
+        ? await getTeamTradeDecision(teamMembers, tradeRequest)
+        : await getTradeDecision(llmConfig, tradeRequest);
   } catch (err) {
     console.error(
       `[llm-queue] LLM call failed for agent=${agentId} job=${jobId} attempt=${message.attempts}:`,
@@ -145,7 +197,7 @@ async function processLlmJob(
     );
     if (isLastAttempt) {
       const reason = err instanceof Error ? err.message : String(err);
-      await insertHoldDecision(env, agentId, jobConfig.model, tradeRequest.marketData, `LLM error after all retries: ${reason}`);
+      await insertHoldDecision(env, agentId, jobConfig.model, tradeRequest.marketData, `LLM error after all retries: ${reason}`, configVersionId);
       message.ack();
     } else {
       message.retry();
@@ -2,7 +2,7 @@ import { z } from 'zod';
 import type { Context } from 'hono';
 
 /** Convert Zod flattened field errors to Record<string, string[]> (filter undefined) */
-function toFieldErrors(
+export function toFieldErrors(
   raw: Record<string, string[] | undefined>
 ): Record<string, string[]> {
   const result: Record<string, string[]> = {};
@@ -0,0 +1,38 @@
+/**
+ * Cloudflare Queues consumer for outbound webhook deliveries.
+ *
+ * Each message names a webhook_deliveries row written by emitWebhookEvent.
+ * Failed attempts are retried with exponential backoff until
+ * MAX_WEBHOOK_ATTEMPTS, after which the row is marked failed and the message
+ * acked. The row's attempts/status/error make up the delivery log.
+ */
+import { drizzle } from 'drizzle-orm/d1';
+import { attemptWebhookDelivery, webhookRetryDelaySeconds } from '../services/webhooks.js';
+import type { WebhookDeliveryMessage } from '../types/queue-types.js';
+import type { Env } from '../types/env.js';
+
+/**
+ * Queue consumer handler — processes one batch of webhook deliveries.
+ * Called by the Workers runtime when messages arrive on the "webhook-deliveries" queue.
+ */
+export async function handleWebhookQueueBatch(
+  batch: MessageBatch<WebhookDeliveryMessage>,
+  env: Env
+): Promise<void> {
+  const db = drizzle(env.DB);
+  for (const message of batch.messages) {
+    try {
+      const { outcome, attempts } = await attemptWebhookDelivery(db, message.body.deliveryId, {
+        encryptionSecret: env.KEY_ENCRYPTION_SECRET,
+      });
+      if (outcome === 'retry') {
+        message.retry({ delaySeconds: webhookRetryDelaySeconds(attempts) });
+      } else {
+        message.ack();
+      }
+    } catch (err) {
+      console.error(`[webhook-queue] Delivery ${message.body.deliveryId} errored:`, err);
+      message.retry({ delaySeconds: webhookRetryDelaySeconds(message.attempts) });
+    }
+  }
+}
@@ -0,0 +1,50 @@
+import { eq } from 'drizzle-orm';
+import { trades } from '../../db/schema.js';
+import { computeAnalytics } from '../../services/analytics.js';
+import { parseAgentConfig, withOwnedAgent } from './shared.js';
+import type { AgentsRoute } from './shared.js';
+
+/** ISO timestamp query param → normalized ISO string; undefined when absent, null when invalid. */
+function parseTimestampParam(raw: string | undefined): string | undefined | null {
+  if (raw === undefined || raw === '') return undefined;
+  const ms = Date.parse(raw);
+  return Number.isFinite(ms) ? new Date(ms).toISOString() : null;
+}
+
+export function registerAgentAnalyticsRoutes(agentsRoute: AgentsRoute): void {
+  /** GET /api/agents/:id/analytics?from&to — equity-curve ratios plus per-pair/per-strategy breakdowns */
+  agentsRoute.get('/:id/analytics', async (c) => {
+    return withOwnedAgent(c, async ({ id, db, agent }) => {
+      const from = parseTimestampParam(c.req.query('from'));
+      const to = parseTimestampParam(c.req.query('to'));
+      if (from === null || to === null) {
+        return c.json({ error: '`from` and `to` must be ISO timestamps' }, 400);
+      }
+      if (from && to && from > to) {
+        return c.json({ error: '`from` must be before `to`' }, 400);
+      }
+
+      const config = parseAgentConfig(agent.config);
+      const agentTrades = await db
+        .select({
+          pair: trades.pair,
+          strategyUsed: trades.strategyUsed,
+          status: trades.status,
+          pnlPct: trades.pnlPct,
+          pnlUsd: trades.pnlUsd,
+          openedAt: trades.openedAt,
+          closedAt: trades.closedAt,
+        })
+        .from(trades)
+        .where(eq(trades.agentId, id));
+
+      const analytics = computeAnalytics({
+        trades: agentTrades,
+        initialBalance: typeof config.paperBalance === 'number' ? config.paperBalance : 10_000,
+        from,
+        to,
+      });
+      return c.json({ analytics });
+    });
+  });
+}
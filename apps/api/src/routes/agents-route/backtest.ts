@@ -0,0 +1,32 @@
+import { BacktestRequestSchema } from '@something-in-loop/shared';
+import { validateBody } from '../../lib/validation.js';
+import { parseBacktestAgentConfig, runAgentBacktest } from '../../agents/backtest.js';
+import { parseAgentConfig, withOwnedAgent } from './shared.js';
+import type { AgentsRoute } from './shared.js';
+
+export function registerAgentBacktestRoutes(agentsRoute: AgentsRoute): void {
+  /** POST /api/agents/:id/backtest — replay the agent's config over historical candles */
+  agentsRoute.post('/:id/backtest', async (c) => {
+    return withOwnedAgent(c, async ({ id, agent }) => {
+      const body = await validateBody(c, BacktestRequestSchema);
+      const config = parseBacktestAgentConfig(agent.name, parseAgentConfig(agent.config));
+      const outcome = await runAgentBacktest({
+        env: c.env,
+        agentId: id,
+        agentRow: {
+          name: agent.name,
+          personaMd: agent.personaMd ?? null,
+          profileId: agent.profileId ?? null,
+          ownerAddress: agent.ownerAddress ?? null,
+          llmModel: agent.llmModel ?? null,
+        },
+        config,
+        request: body,
+      });
+      if ('error' in outcome) {
+        return c.json({ error: outcome.error }, outcome.status ?? 422);
+      }
+      return c.json({ backtest: outcome.result });
+    });
+  });
+}
@@ -0,0 +1,150 @@
+import { desc, eq } from 'drizzle-orm';
+import { AgentConfigSchema, DEFAULT_FREE_AGENT_MODEL } from '@something-in-loop/shared';
+import { agentConfigVersions, agents } from '../../db/schema.js';
+import { migrateAgentConfig } from '../../lib/agent-config-migration.js';
+import { setTradingAgentIntervalDo } from '../../lib/do-clients.js';
+import { nowIso } from '../../lib/utils.js';
+import { toFieldErrors, ValidationError } from '../../lib/validation.js';
+import {
+  diffConfigs,
+  getConfigVersion,
+  getLatestConfigVersion,
+  recordConfigVersion,
+} from '../../services/config-versions.js';
+import type { ConfigVersionRow } from '../../services/config-versions.js';
+import {
+  formatAgent,
+  notifyScheduler,
+  parseAgentConfig,
+  pushAgentConfig,
+  stripPaperAgentLiveConfig,
+  withOwnedAgent,
+} from './shared.js';
+import type { AgentsRoute } from './shared.js';
+
+function formatConfigVersion(v: ConfigVersionRow) {
+  return { ...v, config: parseAgentConfig(v.config) };
+}
+
+/** Positive integer version number from a path/query value, or null. */
+function parseVersionNumber(raw: string | undefined): number | null {
+  if (!raw || !/^\d+$/.test(raw)) return null;
+  const version = Number(raw);
+  return version > 0 ? version : null;
+}
+
+export function registerAgentConfigVersionRoutes(agentsRoute: AgentsRoute): void {
+  /** GET /api/agents/:id/config-versions — newest first */
+  agentsRoute.get('/:id/config-versions', async (c) => {
+    return withOwnedAgent(c, async ({ id, db }) => {
+      const versions = await db
+        .select()
+        .from(agentConfigVersions)
+        .where(eq(agentConfigVersions.agentId, id))
+        .orderBy(desc(agentConfigVersions.version));
+      return c.json({ versions: versions.map(formatConfigVersion) });
+    });
+  });
+
+  /** GET /api/agents/:id/config-versions/diff?from=N&to=M — `to` defaults to the latest version */
+  agentsRoute.get('/:id/config-versions/diff', async (c) => {
+    return withOwnedAgent(c, async ({ id, db }) => {
+      const fromVersion = parseVersionNumber(c.req.query('from'));
+      const toParam = c.req.query('to');
+      const toVersion = toParam === undefined ? null : parseVersionNumber(toParam);
+      if (fromVersion === null || (toParam !== undefined && toVersion === null)) {
+        return c.json({ error: '`from` (and optional `to`) must be positive version numbers' }, 400);
+      }
+
+      const from = await getConfigVersion(db, id, fromVersion);
+      const to = toVersion === null ? await getLatestConfigVersion(db, id) : await getConfigVersion(db, id, toVersion);
+      if (!from || !to) return c.json({ error: 'Config version not found' }, 404);
+
+      return c.json({
+        from: { id: from.id, version: from.version, author: from.author, createdAt: from.createdAt },
+        to: { id: to.id, version: to.version, author: to.author, createdAt: to.createdAt },
+        changes: diffConfigs(parseAgentConfig(from.config), parseAgentConfig(to.config)),
+      });
+    });
+  });
+
+  /** GET /api/agents/:id/config-versions/:version */
+  agentsRoute.get('/:id/config-versions/:version', async (c) => {
+    return withOwnedAgent(c, async ({ id, db }) => {
+      const versionNumber = parseVersionNumber(c.req.param('version'));
+      if (versionNumber === null) return c.json({ error: 'Version must be a positive number' }, 400);
+      const version = await getConfigVersion(db, id, versionNumber);
+      if (!version) return c.json({ error: 'Config version not found' }, 404);
+      return c.json(formatConfigVersion(version));
+    });
+  });
+
+  /**
+   * POST /api/agents/:id/config-versions/:version/restore — make an old config
+   * current again, recorded as a new version. Chain and paper mode stay as
+   * they are now; those are switched through PATCH. The old config must still
+   * pass the current AgentConfigSchema (after migration), as the agent loop
+   * would otherwise fail on it every tick.
+   */
+  agentsRoute.post('/:id/config-versions/:version/restore', async (c) => {
+    return withOwnedAgent(c, async ({ id, db, agent: existing }) => {
+      const versionNumber = parseVersionNumber(c.req.param('version'));
+      if (versionNumber === null) return c.json({ error: 'Version must be a positive number' }, 400);
+      const version = await getConfigVersion(db, id, versionNumber);
+      if (!version) return c.json({ error: 'Config version not found' }, 404);
+
+      const existingConfig = parseAgentConfig(existing.config);
+      const restoredBase: Record<string, unknown> = {
+        ...parseAgentConfig(version.config),
+        ...(existing.chain && { chain: existing.chain }),
+      };
+      const restoredConfig = existing.isPaper ? stripPaperAgentLiveConfig(restoredBase) : restoredBase;
+      const validation = AgentConfigSchema.safeParse(migrateAgentConfig({ name: existing.name, ...restoredConfig }));
+      if (!validation.success) {
+        throw new ValidationError(
+          `Config version ${version.version} no longer passes validation`,
+          toFieldErrors(validation.error.flatten().fieldErrors),
+        );
+      }
+      const config = JSON.stringify(restoredConfig);
+
+      await db
+        .update(agents)
+        .set({
+          config,
+          llmModel: (typeof restoredConfig.llmModel === 'string' ? restoredConfig.llmModel : existing.llmModel) || DEFAULT_FREE_AGENT_MODEL,
+          updatedAt: nowIso(),
+        })
+        .where(eq(agents.id, id));
+      const recorded = await recordConfigVersion(db, {
+        agentId: id,
+        config,
+        author: 'user',
+        note: `restore of v${version.version}`,
+      });
+
+      const [updated] = await db.select().from(agents).where(eq(agents.id, id));
+      if (updated) await pushAgentConfig(c, updated, updated.config);
+
+      const nextInterval = restoredConfig.analysisInterval;
+      if (
+        existing.status === 'running' &&
+        typeof nextInterval === 'string' &&
+        nextInterval.trim().length > 0 &&
+        nextInterval !== existingConfig.analysisInterval
+      ) {
+        try {
+          await setTradingAgentIntervalDo(c.env, id, nextInterval);
+        } catch (err) {
+          console.warn(`[agents route] Failed to sync analysisInterval to TRADING_AGENT DO for ${id}:`, err);
+        }
+        await notifyScheduler(c.env, 'register', id, nextInterval);
+      }
+
+      return c.json({
+        agent: formatAgent(updated),
+        version: formatConfigVersion(recorded),
+      });
+    });
+  });
+}
@@ -11,6 +11,7 @@ import { getMaxAgentsPerUser } from '../../lib/entity-limits.js';
 import { normalizePairsForDex } from '../../lib/pairs.js';
 import { nowIso, generateId } from '../../lib/utils.js';
 import { validateBody } from '../../lib/validation.js';
+import { recordConfigVersion } from '../../services/config-versions.js';
 import { setTradingAgentIntervalDo, stopTradingAgentDo, syncTradingAgentConfigDo } from '../../lib/do-clients.js';
 import {
   deleteAgentRelatedRows,
@@ -96,6 +97,7 @@ export function registerAgentCoreRoutes(agentsRoute: AgentsRoute): void {
       createdAt: now,
       updatedAt: now,
     });
+    await recordConfigVersion(db, { agentId: id, config: JSON.stringify(config), author: 'user', note: 'created' });
 
     const [created] = await db.select().from(agents).where(eq(agents.id, id));
     return c.json(formatAgent(created), 201);
@@ -169,6 +171,7 @@ export function registerAgentCoreRoutes(agentsRoute: AgentsRoute): void {
       }
 
       await db.update(agents).set(updates).where(eq(agents.id, id));
+      await recordConfigVersion(db, { agentId: id, config: updates.config ?? existing.config, author: 'user' });
 
       const [updated] = await db.select().from(agents).where(eq(agents.id, id));
 
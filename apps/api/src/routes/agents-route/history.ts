@@ -28,14 +28,15 @@ export function registerAgentHistoryRoutes(agentsRoute: AgentsRoute): void {
     });
   });
 
-  /** GET /api/agents/:id/performance */
+  /** GET /api/agents/:id/performance — `equity` is mark-to-market; older rows fall back to balance */
   agentsRoute.get('/:id/performance', async (c) => {
     return withOwnedAgent(c, async ({ id, db }) => {
-      const snapshots = await db
+      const rows = await db
         .select()
         .from(performanceSnapshots)
         .where(eq(performanceSnapshots.agentId, id))
         .orderBy(desc(performanceSnapshots.snapshotAt));
+      const snapshots = rows.map((s) => ({ ...s, equity: s.equity ?? s.balance }));
       return c.json({ snapshots });
     });
   });
@@ -74,7 +74,7 @@ export function registerAgentPersonaRoutes(agentsRoute: AgentsRoute): void {
 
       const allTrades = await db.select().from(trades).where(eq(trades.agentId, id));
       const openTrades = allTrades.filter((t) => t.status === 'open');
-      const closedTrades = allTrades.filter((t) => t.status !== 'open');
+      const closedTrades = allTrades.filter((t) => t.status === 'closed');
 
       // Enrich open positions with current price + unrealized P&L using the latest market snapshot
       const openPositions = openTrades.map((t) => {
@@ -0,0 +1,41 @@
+import { and, eq } from 'drizzle-orm';
+import { ReplayDecisionRequestSchema } from '@something-in-loop/shared';
+import { agentDecisions } from '../../db/schema.js';
+import { validateBody } from '../../lib/validation.js';
+import { parseBacktestAgentConfig } from '../../agents/backtest.js';
+import { runDecisionReplay } from '../../agents/decision-replay.js';
+import { parseAgentConfig, withOwnedAgent } from './shared.js';
+import type { AgentsRoute } from './shared.js';
+
+export function registerAgentReplayRoutes(agentsRoute: AgentsRoute): void {
+  /**
+   * POST /api/agents/:id/decisions/:decisionId/replay — re-run the stored prompt with
+   * another model, temperature or persona; nothing is recorded, but the call
+   * counts against the rate limit and the agent's hourly LLM call budget
+   */
+  agentsRoute.post('/:id/decisions/:decisionId/replay', async (c) => {
+    return withOwnedAgent(c, async ({ id, agent, db }) => {
+      const body = await validateBody(c, ReplayDecisionRequestSchema);
+      const [decision] = await db
+        .select()
+        .from(agentDecisions)
+        .where(and(eq(agentDecisions.id, c.req.param('decisionId')), eq(agentDecisions.agentId, id)));
+      if (!decision) return c.json({ error: 'Decision not found' }, 404);
+
+      const config = parseBacktestAgentConfig(agent.name, parseAgentConfig(agent.config));
+      const outcome = await runDecisionReplay({
+        env: c.env,
+        agentId: id,
+        agentRow: { ownerAddress: agent.ownerAddress ?? null },
+        decision,
+        temperature: config.temperature,
+        maxLlmCallsPerHour: config.maxLlmCallsPerHour,
+        request: body,
+      });
+      if ('error' in outcome) {
+        return c.json({ error: outcome.error }, outcome.status ?? 422);
+      }
+      return c.json({ replay: outcome.result });
+    });
+  });
+}
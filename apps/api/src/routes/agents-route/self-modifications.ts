@@ -1,12 +1,51 @@
 import { desc, eq } from 'drizzle-orm';
-import { agentSelfModifications, agents } from '../../db/schema.js';
-import { nowIso } from '../../lib/utils.js';
+import { agentSelfModifications } from '../../db/schema.js';
 import { parseJsonRequired } from '../../lib/json.js';
-import { parseAgentConfig, withOwnedAgent } from './shared.js';
-import type { AgentsRoute } from './shared.js';
+import {
+  applySelfModification,
+  findOverlappingLaterModification,
+  revertSelfModification,
+} from '../../services/self-modification.js';
+import type { SelfModWindowMetrics } from '../../services/self-modification.js';
+import { pushAgentConfig, withOwnedAgent } from './shared.js';
+import type { AgentsDb, AgentsRoute } from './shared.js';
+
+type SelfModificationRow = typeof agentSelfModifications.$inferSelect;
+
+function parseMetrics(raw: string | null): SelfModWindowMetrics | null {
+  return raw ? parseJsonRequired<SelfModWindowMetrics>(raw) : null;
+}
+
+function formatModification(m: SelfModificationRow) {
+  const baseline = parseMetrics(m.baselineMetrics);
+  const after = parseMetrics(m.evaluationMetrics);
+  return {
+    ...m,
+    changes: parseJsonRequired<Record<string, unknown>>(m.changes),
+    changesApplied: m.changesApplied ? parseJsonRequired<Record<string, unknown>>(m.changesApplied) : null,
+    previousValues: m.previousValues ? parseJsonRequired<Record<string, unknown>>(m.previousValues) : null,
+    baselineMetrics: baseline,
+    evaluationMetrics: after,
+    comparison: baseline && after
+      ? {
+        winRateDelta: after.winRate - baseline.winRate,
+        pnlPctDelta: after.totalPnlPct - baseline.totalPnlPct,
+        maxDrawdownDelta: (after.maxDrawdown ?? 0) - (baseline.maxDrawdown ?? 0),
+      }
+      : null,
+  };
+}
+
+async function loadModification(db: AgentsDb, agentId: string, modId: string): Promise<SelfModificationRow | null> {
+  const [mod] = await db
+    .select()
+    .from(agentSelfModifications)
+    .where(eq(agentSelfModifications.id, modId));
+  return mod && mod.agentId === agentId ? mod : null;
+}
 
 export function registerAgentSelfModificationRoutes(agentsRoute: AgentsRoute): void {
-  /** GET /api/agents/:id/self-modifications */
+  /** GET /api/agents/:id/self-modifications — includes the before/after comparison once evaluated */
   agentsRoute.get('/:id/self-modifications', async (c) => {
     return withOwnedAgent(c, async ({ id, db }) => {
       const modifications = await db
@@ -15,36 +54,19 @@ export function registerAgentSelfModificationRoutes(agentsRoute: AgentsRoute): v
         .where(eq(agentSelfModifications.agentId, id))
         .orderBy(desc(agentSelfModifications.createdAt));
 
-      return c.json({
-        modifications: modifications.map((m) => ({
-          ...m,
-          changes: parseJsonRequired<Record<string, unknown>>(m.changes),
-          changesApplied: m.changesApplied ? parseJsonRequired<Record<string, unknown>>(m.changesApplied) : null,
-        })),
-      });
+      return c.json({ modifications: modifications.map(formatModification) });
     });
   });
 
-  /** POST /api/agents/:id/self-modifications/:modId/approve */
+  /** POST /api/agents/:id/self-modifications/:modId/approve — apply and start the A/B window */
   agentsRoute.post('/:id/self-modifications/:modId/approve', async (c) => {
     return withOwnedAgent(c, async ({ id, db, agent }) => {
-      const modId = c.req.param('modId');
-
-      const [mod] = await db
-        .select()
-        .from(agentSelfModifications)
-        .where(eq(agentSelfModifications.id, modId));
-      if (!mod || mod.agentId !== id) return c.json({ error: 'Modification not found' }, 404);
-
-      const changes = parseJsonRequired<Record<string, unknown>>(mod.changes);
-      const existingConfig = parseAgentConfig(agent.config);
-      const mergedConfig = { ...existingConfig, ...changes };
+      const mod = await loadModification(db, id, c.req.param('modId'));
+      if (!mod) return c.json({ error: 'Modification not found' }, 404);
+      if (mod.status !== 'pending') return c.json({ error: `Modification is already ${mod.status}` }, 409);
 
-      await db.update(agents).set({ config: JSON.stringify(mergedConfig), updatedAt: nowIso() }).where(eq(agents.id, id));
-      await db
-        .update(agentSelfModifications)
-        .set({ status: 'applied', changesApplied: mod.changes, appliedAt: nowIso() })
-        .where(eq(agentSelfModifications.id, modId));
+      const config = await applySelfModification(c.env, db, agent, mod);
+      await pushAgentConfig(c, agent, config);
 
       return c.json({ ok: true });
     });
@@ -54,12 +76,8 @@ export function registerAgentSelfModificationRoutes(agentsRoute: AgentsRoute): v
   agentsRoute.post('/:id/self-modifications/:modId/reject', async (c) => {
     return withOwnedAgent(c, async ({ id, db }) => {
       const modId = c.req.param('modId');
-
-      const [mod] = await db
-        .select()
-        .from(agentSelfModifications)
-        .where(eq(agentSelfModifications.id, modId));
-      if (!mod || mod.agentId !== id) return c.json({ error: 'Modification not found' }, 404);
+      const mod = await loadModification(db, id, modId);
+      if (!mod) return c.json({ error: 'Modification not found' }, 404);
 
       await db
         .update(agentSelfModifications)
@@ -69,4 +87,23 @@ export function registerAgentSelfModificationRoutes(agentsRoute: AgentsRoute): v
       return c.json({ ok: true });
     });
   });
+
+  /** POST /api/agents/:id/self-modifications/:modId/revert — restore the values the change replaced */
+  agentsRoute.post('/:id/self-modifications/:modId/revert', async (c) => {
+    return withOwnedAgent(c, async ({ id, db, agent }) => {
+      const mod = await loadModification(db, id, c.req.param('modId'));
+      if (!mod) return c.json({ error: 'Modification not found' }, 404);
+      const overriding = await findOverlappingLaterModification(db, mod);
+      if (overriding) {
+        return c.json({ error: `Modification ${overriding.id} changed the same settings later; revert it first` }, 409);
+      }
+
+      const config = await revertSelfModification(c.env, db, agent, mod, { reason: 'manual', author: 'user' });
+      if (!config) return c.json({ error: `Modification is ${mod.status} and cannot be reverted` }, 409);
+      await pushAgentConfig(c, agent, config);
+
+      const [updated] = await db.select().from(agentSelfModifications).where(eq(agentSelfModifications.id, mod.id));
+      return c.json({ ok: true, modification: updated ? formatModification(updated) : null });
+    });
+  });
 }
@@ -3,8 +3,15 @@ import { drizzle } from 'drizzle-orm/d1';
 import { eq } from 'drizzle-orm';
 import type { Env } from '../../types/env.js';
 import type { AuthVariables } from '../../lib/auth.js';
-import { agents, trades, agentDecisions, performanceSnapshots, agentSelfModifications } from '../../db/schema.js';
-import { registerSchedulerAgent, unregisterSchedulerAgent } from '../../lib/do-clients.js';
+import {
+  agents,
+  trades,
+  agentDecisions,
+  performanceSnapshots,
+  agentSelfModifications,
+  agentConfigVersions,
+} from '../../db/schema.js';
+import { registerSchedulerAgent, syncTradingAgentConfigDo, unregisterSchedulerAgent } from '../../lib/do-clients.js';
 import { normalizeInitiaWalletAddress as normalizeInitiaWalletAddressValue } from '../../lib/wallet-address.js';
 import { formatStoredEntity } from '../_shared/format-stored-entity.js';
 import { notFoundJson } from '../_shared/json-response.js';
@@ -76,6 +83,7 @@ export async function deleteAgentRelatedRows(db: AgentsDb, agentId: string): Pro
   await db.delete(agentDecisions).where(eq(agentDecisions.agentId, agentId));
   await db.delete(performanceSnapshots).where(eq(performanceSnapshots.agentId, agentId));
   await db.delete(agentSelfModifications).where(eq(agentSelfModifications.agentId, agentId));
+  await db.delete(agentConfigVersions).where(eq(agentConfigVersions.agentId, agentId));
 }
 
 /** Shared ownership check: agent must belong to the authenticated wallet. */
@@ -134,3 +142,23 @@ export async function notifyScheduler(
     console.warn(`[agents route] scheduler ${action} failed for ${agentId}:`, err);
   }
 }
+
+/** Best-effort: push the new config to the DO cache so the next tick uses it. */
+export async function pushAgentConfig(c: AgentsContext, agent: AgentRow, config: string): Promise<void> {
+  try {
+    await syncTradingAgentConfigDo(c.env, agent.id, {
+      id: agent.id,
+      name: agent.name,
+      status: agent.status,
+      config,
+      ownerAddress: agent.ownerAddress ?? null,
+      llmModel: agent.llmModel ?? null,
+      profileId: agent.profileId ?? null,
+      personaMd: agent.personaMd ?? null,
+      chain: agent.chain ?? null,
+      isPaper: agent.isPaper ?? null,
+    });
+  } catch (err) {
+    console.warn(`[agents route] Failed to push config to TRADING_AGENT DO cache for ${agent.id}:`, err);
+  }
+}
@@ -2,11 +2,15 @@ import { Hono } from 'hono';
 import type { Env } from '../types/env.js';
 import type { AuthVariables } from '../lib/auth.js';
 import { ValidationError } from '../lib/validation.js';
+import { registerAgentAnalyticsRoutes } from './agents-route/analytics.js';
+import { registerAgentBacktestRoutes } from './agents-route/backtest.js';
+import { registerAgentConfigVersionRoutes } from './agents-route/config-versions.js';
 import { registerAgentCoreRoutes } from './agents-route/core.js';
 import { registerAgentHistoryRoutes } from './agents-route/history.js';
 import { registerAgentInitiaRoutes } from './agents-route/initia.js';
 import { registerAgentLifecycleRoutes } from './agents-route/lifecycle.js';
 import { registerAgentPersonaRoutes } from './agents-route/persona.js';
+import { registerAgentReplayRoutes } from './agents-route/replay.js';
 import { registerAgentSelfModificationRoutes } from './agents-route/self-modifications.js';
 
 const agentsRoute = new Hono<{ Bindings: Env; Variables: AuthVariables }>();
@@ -15,8 +19,12 @@ registerAgentCoreRoutes(agentsRoute);
 registerAgentInitiaRoutes(agentsRoute);
 registerAgentLifecycleRoutes(agentsRoute);
 registerAgentHistoryRoutes(agentsRoute);
+registerAgentAnalyticsRoutes(agentsRoute);
 registerAgentPersonaRoutes(agentsRoute);
 registerAgentSelfModificationRoutes(agentsRoute);
+registerAgentConfigVersionRoutes(agentsRoute);
+registerAgentBacktestRoutes(agentsRoute);
+registerAgentReplayRoutes(agentsRoute);
 
 // Error handler
 agentsRoute.onError((err, c) => {
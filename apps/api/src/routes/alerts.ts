@@ -0,0 +1,279 @@
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { drizzle } from 'drizzle-orm/d1';
+import { and, desc, eq, inArray } from 'drizzle-orm';
+import {
+  CreateAlertChannelRequestSchema,
+  CreateAlertRuleRequestSchema,
+  UpdateAlertChannelRequestSchema,
+  UpdateAlertRuleRequestSchema,
+} from '@something-in-loop/shared';
+import type { Env } from '../types/env.js';
+import type { AuthVariables } from '../lib/auth.js';
+import { agents, alertChannels, alertNotifications, alertRules } from '../db/schema.js';
+import { ValidationError, validateBody, validateQuery } from '../lib/validation.js';
+import { generateId, nowIso } from '../lib/utils.js';
+import { maskChannelConfig, sendAlert } from '../services/alert-channels.js';
+import {
+  decryptChannelConfig,
+  encryptChannelConfig,
+  parseAlertCondition,
+  parseChannelIds,
+} from '../services/alerts.js';
+
+const alertsRoute = new Hono<{ Bindings: Env; Variables: AuthVariables }>();
+
+type Db = ReturnType<typeof drizzle>;
+type ChannelRow = typeof alertChannels.$inferSelect;
+type RuleRow = typeof alertRules.$inferSelect;
+type NotificationRow = typeof alertNotifications.$inferSelect;
+
+/** Bot tokens and webhook URLs are write-only; responses carry a masked copy. */
+async function formatChannel({ config, ...ch }: ChannelRow, secret: string | undefined) {
+  const parsed = await decryptChannelConfig(config, secret);
+  return { ...ch, config: parsed ? maskChannelConfig(parsed) : null };
+}
+
+function formatRule({ condition, channelIds, ...rule }: RuleRow) {
+  return { ...rule, condition: parseAlertCondition(condition), channelIds: parseChannelIds(channelIds) };
+}
+
+function formatNotification({ context, deliveries, ...n }: NotificationRow) {
+  return { ...n, context: JSON.parse(context) as unknown, deliveries: JSON.parse(deliveries) as unknown };
+}
+
+async function loadOwnedChannel(db: Db, id: string, walletAddress: string): Promise<ChannelRow | null> {
+  const [channel] = await db
+    .select()
+    .from(alertChannels)
+    .where(and(eq(alertChannels.id, id), eq(alertChannels.ownerAddress, walletAddress)));
+  return channel ?? null;
+}
+
+async function loadOwnedRule(db: Db, id: string, walletAddress: string): Promise<RuleRow | null> {
+  const [rule] = await db
+    .select()
+    .from(alertRules)
+    .where(and(eq(alertRules.id, id), eq(alertRules.ownerAddress, walletAddress)));
+  return rule ?? null;
+}
+
+/** Returns an error message when the rule references an agent or channel the caller does not own. */
+async function checkRuleTargets(
+  db: Db,
+  walletAddress: string,
+  target: { agentId?: string | null; channelIds?: string[] }
+): Promise<string | null> {
+  if (target.agentId) {
+    const [agent] = await db
+      .select({ id: agents.id })
+      .from(agents)
+      .where(and(eq(agents.id, target.agentId), eq(agents.ownerAddress, walletAddress)));
+    if (!agent) return 'Agent not found';
+  }
+  if (target.channelIds) {
+    const ids = [...new Set(target.channelIds)];
+    const owned = await db
+      .select({ id: alertChannels.id })
+      .from(alertChannels)
+      .where(and(inArray(alertChannels.id, ids), eq(alertChannels.ownerAddress, walletAddress)));
+    if (owned.length !== ids.length) return 'Alert channel not found';
+  }
+  return null;
+}
+
+/** GET /api/alerts/channels */
+alertsRoute.get('/channels', async (c) => {
+  const db = drizzle(c.env.DB);
+  const rows = await db
+    .select()
+    .from(alertChannels)
+    .where(eq(alertChannels.ownerAddress, c.get('walletAddress')))
+    .orderBy(desc(alertChannels.createdAt));
+  const secret = c.env.KEY_ENCRYPTION_SECRET;
+  return c.json({ channels: await Promise.all(rows.map((row) => formatChannel(row, secret))) });
+});
+
+/** POST /api/alerts/channels */
+alertsRoute.post('/channels', async (c) => {
+  const body = await validateBody(c, CreateAlertChannelRequestSchema);
+  const db = drizzle(c.env.DB);
+  const id = generateId('ach');
+  const now = nowIso();
+
+  await db.insert(alertChannels).values({
+    id,
+    ownerAddress: c.get('walletAddress'),
+    name: body.name,
+    type: body.channel.type,
+    config: await encryptChannelConfig(body.channel, c.env.KEY_ENCRYPTION_SECRET),
+    isActive: true,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  const [created] = await db.select().from(alertChannels).where(eq(alertChannels.id, id));
+  return c.json(await formatChannel(created, c.env.KEY_ENCRYPTION_SECRET), 201);
+});
+
+/** PATCH /api/alerts/channels/:id — `channel` replaces the whole config, including its type */
+alertsRoute.patch('/channels/:id', async (c) => {
+  const body = await validateBody(c, UpdateAlertChannelRequestSchema);
+  const db = drizzle(c.env.DB);
+  const existing = await loadOwnedChannel(db, c.req.param('id'), c.get('walletAddress'));
+  if (!existing) return c.json({ error: 'Alert channel not found' }, 404);
+
+  const config = body.channel && (await encryptChannelConfig(body.channel, c.env.KEY_ENCRYPTION_SECRET));
+  await db
+    .update(alertChannels)
+    .set({
+      ...(body.name !== undefined && { name: body.name }),
+      ...(body.channel !== undefined && { type: body.channel.type, config }),
+      ...(body.isActive !== undefined && { isActive: body.isActive }),
+      updatedAt: nowIso(),
+    })
+    .where(eq(alertChannels.id, existing.id));
+
+  const [updated] = await db.select().from(alertChannels).where(eq(alertChannels.id, existing.id));
+  return c.json(await formatChannel(updated, c.env.KEY_ENCRYPTION_SECRET));
+});
+
+/** DELETE /api/alerts/channels/:id — rules keep the id but stop delivering to it */
+alertsRoute.delete('/channels/:id', async (c) => {
+  const db = drizzle(c.env.DB);
+  const existing = await loadOwnedChannel(db, c.req.param('id'), c.get('walletAddress'));
+  if (!existing) return c.json({ error: 'Alert channel not found' }, 404);
+
+  await db.delete(alertChannels).where(eq(alertChannels.id, existing.id));
+  return c.json({ ok: true });
+});
+
+/** POST /api/alerts/channels/:id/test — send a test message; not recorded in history */
+alertsRoute.post('/channels/:id/test', async (c) => {
+  const db = drizzle(c.env.DB);
+  const existing = await loadOwnedChannel(db, c.req.param('id'), c.get('walletAddress'));
+  if (!existing) return c.json({ error: 'Alert channel not found' }, 404);
+  const config = await decryptChannelConfig(existing.config, c.env.KEY_ENCRYPTION_SECRET);
+  if (!config) return c.json({ error: 'Alert channel config is invalid' }, 422);
+
+  const result = await sendAlert(
+    { id: existing.id, config },
+    { title: 'Test alert', body: `Alert channel "${existing.name}" is connected.` },
+    { env: c.env }
+  );
+  return c.json({ result }, result.ok ? 200 : 502);
+});
+
+/** GET /api/alerts/rules */
+alertsRoute.get('/rules', async (c) => {
+  const db = drizzle(c.env.DB);
+  const rows = await db
+    .select()
+    .from(alertRules)
+    .where(eq(alertRules.ownerAddress, c.get('walletAddress')))
+    .orderBy(desc(alertRules.createdAt));
+  return c.json({ rules: rows.map(formatRule) });
+});
+
+/** POST /api/alerts/rules */
+alertsRoute.post('/rules', async (c) => {
+  const body = await validateBody(c, CreateAlertRuleRequestSchema);
+  const walletAddress = c.get('walletAddress');
+  const db = drizzle(c.env.DB);
+  const targetError = await checkRuleTargets(db, walletAddress, body);
+  if (targetError) return c.json({ error: targetError }, 400);
+
+  const id = generateId('arule');
+  const now = nowIso();
+  await db.insert(alertRules).values({
+    id,
+    ownerAddress: walletAddress,
+    agentId: body.agentId ?? null,
+    name: body.name,
+    type: body.condition.type,
+    condition: JSON.stringify(body.condition),
+    channelIds: JSON.stringify([...new Set(body.channelIds)]),
+    throttleMinutes: body.throttleMinutes,
+    isActive: true,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  const [created] = await db.select().from(alertRules).where(eq(alertRules.id, id));
+  return c.json(formatRule(created), 201);
+});
+
+/** PATCH /api/alerts/rules/:id */
+alertsRoute.patch('/rules/:id', async (c) => {
+  const body = await validateBody(c, UpdateAlertRuleRequestSchema);
+  const walletAddress = c.get('walletAddress');
+  const db = drizzle(c.env.DB);
+  const existing = await loadOwnedRule(db, c.req.param('id'), walletAddress);
+  if (!existing) return c.json({ error: 'Alert rule not found' }, 404);
+  const targetError = await checkRuleTargets(db, walletAddress, body);
+  if (targetError) return c.json({ error: targetError }, 400);
+
+  await db
+    .update(alertRules)
+    .set({
+      ...(body.name !== undefined && { name: body.name }),
+      ...(body.agentId !== undefined && { agentId: body.agentId }),
+      ...(body.condition !== undefined && { type: body.condition.type, condition: JSON.stringify(body.condition) }),
+      ...(body.channelIds !== undefined && { channelIds: JSON.stringify([...new Set(body.channelIds)]) }),
+      ...(body.throttleMinutes !== undefined && { throttleMinutes: body.throttleMinutes }),
+      ...(body.isActive !== undefined && { isActive: body.isActive }),
+      updatedAt: nowIso(),
+    })
+    .where(eq(alertRules.id, existing.id));
+
+  const [updated] = await db.select().from(alertRules).where(eq(alertRules.id, existing.id));
+  return c.json(formatRule(updated));
+});
+
+/** DELETE /api/alerts/rules/:id — also drops its notification history */
+alertsRoute.delete('/rules/:id', async (c) => {
+  const db = drizzle(c.env.DB);
+  const existing = await loadOwnedRule(db, c.req.param('id'), c.get('walletAddress'));
+  if (!existing) return c.json({ error: 'Alert rule not found' }, 404);
+
+  await db.delete(alertNotifications).where(eq(alertNotifications.ruleId, existing.id));
+  await db.delete(alertRules).where(eq(alertRules.id, existing.id));
+  return c.json({ ok: true });
+});
+
+/** GET /api/alerts/notifications — notification history, newest first */
+alertsRoute.get('/notifications', async (c) => {
+  const query = validateQuery(
+    c,
+    z.object({
+      agentId: z.string().optional(),
+      ruleId: z.string().optional(),
+      status: z.enum(['sent', 'partial', 'failed']).optional(),
+      limit: z.coerce.number().min(1).max(200).default(50),
+    })
+  );
+  const db = drizzle(c.env.DB);
+  const conditions = [eq(alertNotifications.ownerAddress, c.get('walletAddress'))];
+  if (query.agentId) conditions.push(eq(alertNotifications.agentId, query.agentId));
+  if (query.ruleId) conditions.push(eq(alertNotifications.ruleId, query.ruleId));
+  if (query.status) conditions.push(eq(alertNotifications.status, query.status));
+
+  const rows = await db
+    .select()
+    .from(alertNotifications)
+    .where(and(...conditions))
+    .orderBy(desc(alertNotifications.createdAt))
+    .limit(query.limit);
+  return c.json({ notifications: rows.map(formatNotification) });
+});
+
+// Error handler
+alertsRoute.onError((err, c) => {
+  if (err instanceof ValidationError) {
+    return c.json({ error: err.message, fieldErrors: err.fieldErrors }, 400);
+  }
+  console.error('[alerts route]', err);
+  return c.json({ error: 'Internal server error' }, 500);
+});
+
+export default alertsRoute;
@@ -4,6 +4,7 @@ import { eq, desc, inArray } from 'drizzle-orm';
 import type { Env } from '../types/env.js';
 import { agents, trades, performanceSnapshots } from '../db/schema.js';
 import { intToAutonomyLevel } from '../lib/utils.js';
+import { computeAnalytics } from '../services/analytics.js';
 
 const comparison = new Hono<{ Bindings: Env }>();
 
@@ -49,25 +50,18 @@ comparison.get('/', async (c) => {
 
       const agentTrades = await db
         .select({
+          pair: trades.pair,
+          strategyUsed: trades.strategyUsed,
           status: trades.status,
           pnlPct: trades.pnlPct,
           pnlUsd: trades.pnlUsd,
+          openedAt: trades.openedAt,
+          closedAt: trades.closedAt,
         })
         .from(trades)
         .where(eq(trades.agentId, agent.id));
 
-      const closed = agentTrades.filter(
-        (t) => t.status === 'closed'
-      );
-      const open = agentTrades.filter((t) => t.status === 'open');
-
-      const wins = closed.filter((t) => (t.pnlPct ?? 0) > 0).length;
-      const winRate = closed.length > 0 ? (wins / closed.length) * 100 : 0;
-      const totalPnlUsd = closed.reduce((a, t) => a + (t.pnlUsd ?? 0), 0);
-      const totalPnlPct =
-        ((config.paperBalance + totalPnlUsd - config.paperBalance) /
-          config.paperBalance) *
-        100;
+      const analytics = computeAnalytics({ trades: agentTrades, initialBalance: config.paperBalance });
 
       return {
         id: agent.id,
@@ -82,14 +76,19 @@ comparison.get('/', async (c) => {
           paperBalance: config.paperBalance,
         },
         metrics: {
-          balance: snapshot?.balance ?? config.paperBalance,
-          totalPnlPct: snapshot?.totalPnlPct ?? totalPnlPct,
-          totalPnlUsd,
-          winRate: snapshot?.winRate !== undefined ? snapshot.winRate * 100 : winRate,
-          totalTrades: closed.length,
-          openTrades: open.length,
-          sharpeRatio: snapshot?.sharpeRatio ?? null,
-          maxDrawdown: snapshot?.maxDrawdown ?? null,
+          balance: snapshot?.equity ?? snapshot?.balance ?? analytics.endingEquity,
+          totalPnlPct: analytics.totalReturnPct,
+          totalPnlUsd: analytics.pnlUsd,
+          winRate: analytics.winRate * 100,
+          totalTrades: analytics.trades,
+          openTrades: analytics.openTrades,
+          sharpeRatio: analytics.sharpeRatio,
+          sortinoRatio: analytics.sortinoRatio,
+          calmarRatio: analytics.calmarRatio,
+          profitFactor: analytics.profitFactor,
+          expectancyUsd: analytics.expectancyUsd,
+          maxDrawdown: analytics.maxDrawdownPct,
+          timeInMarketPct: analytics.timeInMarketPct,
         },
         createdAt: agent.createdAt,
       };
@@ -1,7 +1,16 @@
 import { desc, eq, inArray } from 'drizzle-orm';
 import { drizzle } from 'drizzle-orm/d1';
 import { CreateManagerRequestSchema, UpdateManagerRequestSchema } from '@something-in-loop/shared';
-import { agentDecisions, agentManagerLogs, agentManagers, agents, performanceSnapshots, trades } from '../../db/schema.js';
+import {
+  agentDecisions,
+  agentManagerLogs,
+  agentManagers,
+  agents,
+  managerHypotheses,
+  managerParameterChanges,
+  performanceSnapshots,
+  trades,
+} from '../../db/schema.js';
 import { getDefaultManagerMaxAgents, getMaxManagersPerUser } from '../../lib/entity-limits.js';
 import { nowIso, generateId } from '../../lib/utils.js';
 import { validateBody } from '../../lib/validation.js';
@@ -66,6 +75,7 @@ export function registerManagerCoreRoutes(managersRoute: ManagersRoute): void {
       config: JSON.stringify(config),
       personaMd: (body as { personaMd?: string | null }).personaMd ?? null,
       profileId: body.profileId ?? null,
+      capitalPoolUsd: body.capitalPoolUsd ?? 0,
       status: 'stopped',
       createdAt: now,
       updatedAt: now,
@@ -107,7 +117,7 @@ export function registerManagerCoreRoutes(managersRoute: ManagersRoute): void {
     const body = await validateBody(c, UpdateManagerRequestSchema);
 
     return withOwnedManager(c, async ({ id, db, manager: existing }) => {
-      const { personaMd, ...configPatch } = body as any;
+      const { personaMd, capitalPoolUsd, ...configPatch } = body as any;
       const existingConfig = parseManagerConfig(existing.config);
       const mergedConfig = { ...existingConfig, ...configPatch };
       const previousDecisionInterval = typeof existingConfig.decisionInterval === 'string' ? existingConfig.decisionInterval : undefined;
@@ -119,6 +129,7 @@ export function registerManagerCoreRoutes(managersRoute: ManagersRoute): void {
         updatedAt: nowIso(),
       };
       if (personaMd !== undefined) updates.personaMd = personaMd;
+      if (capitalPoolUsd !== undefined) updates.capitalPoolUsd = capitalPoolUsd;
       if (body.profileId !== undefined) updates.profileId = body.profileId ?? null;
 
       await db.update(agentManagers).set(updates).where(eq(agentManagers.id, id));
@@ -174,6 +185,8 @@ export function registerManagerCoreRoutes(managersRoute: ManagersRoute): void {
         await db.update(agents).set({ managerId: null }).where(eq(agents.managerId, id));
       }
 
+      await db.delete(managerHypotheses).where(eq(managerHypotheses.managerId, id));
+      await db.delete(managerParameterChanges).where(eq(managerParameterChanges.managerId, id));
       await db.delete(agentManagerLogs).where(eq(agentManagerLogs.managerId, id));
       await db.delete(agentManagers).where(eq(agentManagers.id, id));
       return c.json({ ok: true });
@@ -0,0 +1,112 @@
+import { and, desc, eq } from 'drizzle-orm';
+import {
+  CreateManagerHypothesisRequestSchema,
+  UpdateManagerHypothesisRequestSchema,
+} from '@something-in-loop/shared';
+import { managerHypotheses, managerParameterChanges } from '../../db/schema.js';
+import { generateId, nowIso } from '../../lib/utils.js';
+import { validateBody } from '../../lib/validation.js';
+import { parseStoredJsonObject, parseStoredJsonOrNull } from '../_shared/parse-stored-json.js';
+import { withOwnedManager } from './shared.js';
+import type { ManagersDb, ManagersRoute } from './shared.js';
+
+const PARAMETER_HISTORY_LIMIT = 100;
+
+type ParameterChangeRow = typeof managerParameterChanges.$inferSelect;
+
+function formatParameterChange({ changes, previousValues, baselineMetrics, outcomeMetrics, ...row }: ParameterChangeRow) {
+  return {
+    ...row,
+    changes: parseStoredJsonObject(changes),
+    previousValues: parseStoredJsonObject(previousValues),
+    baselineMetrics: parseStoredJsonOrNull<Record<string, unknown>>(baselineMetrics),
+    outcomeMetrics: parseStoredJsonOrNull<Record<string, unknown>>(outcomeMetrics),
+  };
+}
+
+async function loadHypothesis(db: ManagersDb, managerId: string, hypothesisId: string) {
+  const [hypothesis] = await db
+    .select()
+    .from(managerHypotheses)
+    .where(and(eq(managerHypotheses.id, hypothesisId), eq(managerHypotheses.managerId, managerId)));
+  return hypothesis ?? null;
+}
+
+export function registerManagerMemoryRoutes(managersRoute: ManagersRoute): void {
+  /** GET /api/managers/:id/memory — hypotheses, parameter history with measured outcomes, market regime */
+  managersRoute.get('/:id/memory', async (c) => {
+    return withOwnedManager(c, async ({ id, db, manager }) => {
+      const hypotheses = await db
+        .select()
+        .from(managerHypotheses)
+        .where(eq(managerHypotheses.managerId, id))
+        .orderBy(desc(managerHypotheses.createdAt));
+      const parameterHistory = await db
+        .select()
+        .from(managerParameterChanges)
+        .where(eq(managerParameterChanges.managerId, id))
+        .orderBy(desc(managerParameterChanges.changeAt))
+        .limit(PARAMETER_HISTORY_LIMIT);
+      return c.json({
+        hypotheses,
+        parameterHistory: parameterHistory.map(formatParameterChange),
+        marketRegime: parseStoredJsonOrNull<Record<string, unknown>>(manager.marketRegime),
+        lastEvaluationAt: manager.lastEvaluationAt ?? null,
+      });
+    });
+  });
+
+  /** POST /api/managers/:id/memory/hypotheses */
+  managersRoute.post('/:id/memory/hypotheses', async (c) => {
+    const body = await validateBody(c, CreateManagerHypothesisRequestSchema);
+    return withOwnedManager(c, async ({ id, db }) => {
+      const hypothesisId = generateId('mhyp');
+      const now = nowIso();
+      await db.insert(managerHypotheses).values({
+        id: hypothesisId,
+        managerId: id,
+        description: body.description,
+        outcome: body.outcome ?? null,
+        stillValid: body.stillValid,
+        testedAt: body.testedAt ?? null,
+        createdAt: now,
+        updatedAt: now,
+      });
+      const created = await loadHypothesis(db, id, hypothesisId);
+      return c.json(created, 201);
+    });
+  });
+
+  /** PATCH /api/managers/:id/memory/hypotheses/:hypothesisId */
+  managersRoute.patch('/:id/memory/hypotheses/:hypothesisId', async (c) => {
+    const body = await validateBody(c, UpdateManagerHypothesisRequestSchema);
+    return withOwnedManager(c, async ({ id, db }) => {
+      const existing = await loadHypothesis(db, id, c.req.param('hypothesisId'));
+      if (!existing) return c.json({ error: 'Hypothesis not found' }, 404);
+
+      await db
+        .update(managerHypotheses)
+        .set({
+          ...(body.description !== undefined && { description: body.description }),
+          ...(body.outcome !== undefined && { outcome: body.outcome }),
+          ...(body.stillValid !== undefined && { stillValid: body.stillValid }),
+          ...(body.testedAt !== undefined && { testedAt: body.testedAt }),
+          updatedAt: nowIso(),
+        })
+        .where(eq(managerHypotheses.id, existing.id));
+      const updated = await loadHypothesis(db, id, existing.id);
+      return c.json(updated);
+    });
+  });
+
+  /** DELETE /api/managers/:id/memory/hypotheses/:hypothesisId */
+  managersRoute.delete('/:id/memory/hypotheses/:hypothesisId', async (c) => {
+    return withOwnedManager(c, async ({ id, db }) => {
+      const existing = await loadHypothesis(db, id, c.req.param('hypothesisId'));
+      if (!existing) return c.json({ error: 'Hypothesis not found' }, 404);
+
+      await db.delete(managerHypotheses).where(eq(managerHypotheses.id, existing.id));
+      return c.json({ ok: true });
+    });
+  });
+}
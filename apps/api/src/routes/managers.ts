@@ -4,6 +4,7 @@ import type { AuthVariables } from '../lib/auth.js';
 import { registerManagerCoreRoutes } from './managers-route/core.js';
 import { registerManagerInsightRoutes } from './managers-route/insights.js';
 import { registerManagerLifecycleRoutes } from './managers-route/lifecycle.js';
+import { registerManagerMemoryRoutes } from './managers-route/memory.js';
 import { registerManagerPersonaRoutes } from './managers-route/persona.js';
 import { safeParseManagerLogResult } from './managers-route/shared.js';
 
@@ -13,6 +14,7 @@ registerManagerCoreRoutes(managersRoute);
 registerManagerLifecycleRoutes(managersRoute);
 registerManagerInsightRoutes(managersRoute);
 registerManagerPersonaRoutes(managersRoute);
+registerManagerMemoryRoutes(managersRoute);
 
 export { safeParseManagerLogResult };
 export default managersRoute;
@@ -0,0 +1,160 @@
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { drizzle } from 'drizzle-orm/d1';
+import { and, count, desc, eq, inArray, isNull } from 'drizzle-orm';
+import { CreatePairWatchRequestSchema, UpdatePairWatchRequestSchema } from '@something-in-loop/shared';
+import type { Env } from '../types/env.js';
+import type { AuthVariables } from '../lib/auth.js';
+import { pairWatchEvents, pairWatches } from '../db/schema.js';
+import { ValidationError, validateBody, validateQuery } from '../lib/validation.js';
+import { generateId, nowIso } from '../lib/utils.js';
+import { normalizePairForDex } from '../lib/pairs.js';
+import { MAX_PAIR_WATCHES_PER_USER, describePairWatch, parsePairWatchCondition } from '../services/pair-watches.js';
+
+/**
+ * Pair watch alerts, mounted at /api/pairs/watches. Unlike the rest of
+ * /api/pairs these are per-user, so index.ts puts auth in front of them.
+ */
+const pairWatchesRoute = new Hono<{ Bindings: Env; Variables: AuthVariables }>();
+
+type WatchRow = typeof pairWatches.$inferSelect;
+
+function formatWatch({ condition, ...w }: WatchRow) {
+  const parsed = parsePairWatchCondition(condition);
+  return { ...w, condition: parsed, description: parsed ? describePairWatch(w.pair, parsed) : null };
+}
+
+async function loadOwnedWatch(
+  db: ReturnType<typeof drizzle>,
+  id: string,
+  walletAddress: string
+): Promise<WatchRow | null> {
+  const [watch] = await db
+    .select()
+    .from(pairWatches)
+    .where(and(eq(pairWatches.id, id), eq(pairWatches.ownerAddress, walletAddress)));
+  return watch ?? null;
+}
+
+/** GET /api/pairs/watches */
+pairWatchesRoute.get('/', async (c) => {
+  const db = drizzle(c.env.DB);
+  const rows = await db
+    .select()
+    .from(pairWatches)
+    .where(eq(pairWatches.ownerAddress, c.get('walletAddress')))
+    .orderBy(desc(pairWatches.createdAt));
+  return c.json({ watches: rows.map(formatWatch) });
+});
+
+/** POST /api/pairs/watches */
+pairWatchesRoute.post('/', async (c) => {
+  const body = await validateBody(c, CreatePairWatchRequestSchema);
+  const walletAddress = c.get('walletAddress');
+  const db = drizzle(c.env.DB);
+
+  const [{ total }] = await db
+    .select({ total: count() })
+    .from(pairWatches)
+    .where(eq(pairWatches.ownerAddress, walletAddress));
+  if (total >= MAX_PAIR_WATCHES_PER_USER) {
+    return c.json({ error: `Watch limit reached (${MAX_PAIR_WATCHES_PER_USER})` }, 400);
+  }
+
+  const id = generateId('pw');
+  const now = nowIso();
+  await db.insert(pairWatches).values({
+    id,
+    ownerAddress: walletAddress,
+    pair: normalizePairForDex(body.pair),
+    condition: JSON.stringify(body.condition),
+    repeat: body.repeat,
+    note: body.note ?? null,
+    status: 'active',
+    triggerCount: 0,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  const [created] = await db.select().from(pairWatches).where(eq(pairWatches.id, id));
+  return c.json(formatWatch(created), 201);
+});
+
+/** GET /api/pairs/watches/events — triggered alerts, newest first; `unseen=true` for the in-app feed */
+pairWatchesRoute.get('/events', async (c) => {
+  const query = validateQuery(
+    c,
+    z.object({
+      unseen: z.enum(['true', 'false']).optional(),
+      limit: z.coerce.number().min(1).max(200).default(50),
+    })
+  );
+  const db = drizzle(c.env.DB);
+  const conditions = [eq(pairWatchEvents.ownerAddress, c.get('walletAddress'))];
+  if (query.unseen === 'true') conditions.push(isNull(pairWatchEvents.seenAt));
+
+  const events = await db
+    .select()
+    .from(pairWatchEvents)
+    .where(and(...conditions))
+    .orderBy(desc(pairWatchEvents.createdAt))
+    .limit(query.limit);
+  return c.json({ events });
+});
+
+/** POST /api/pairs/watches/events/seen — body { ids?: string[] }; marks all unseen events when ids is omitted */
+pairWatchesRoute.post('/events/seen', async (c) => {
+  const body = await validateBody(c, z.object({ ids: z.array(z.string()).min(1).max(200).optional() }));
+  const db = drizzle(c.env.DB);
+  const conditions = [eq(pairWatchEvents.ownerAddress, c.get('walletAddress')), isNull(pairWatchEvents.seenAt)];
+  if (body.ids) conditions.push(inArray(pairWatchEvents.id, body.ids));
+
+  await db.update(pairWatchEvents).set({ seenAt: nowIso() }).where(and(...conditions));
+  return c.json({ ok: true });
+});
+
+/** PATCH /api/pairs/watches/:id — changing the condition or re-activating clears the last reading */
+pairWatchesRoute.patch('/:id', async (c) => {
+  const body = await validateBody(c, UpdatePairWatchRequestSchema);
+  const db = drizzle(c.env.DB);
+  const existing = await loadOwnedWatch(db, c.req.param('id'), c.get('walletAddress'));
+  if (!existing) return c.json({ error: 'Watch not found' }, 404);
+
+  const rearm = body.condition !== undefined || (body.status === 'active' && existing.status !== 'active');
+  await db
+    .update(pairWatches)
+    .set({
+      ...(body.condition !== undefined && { condition: JSON.stringify(body.condition) }),
+      ...(body.repeat !== undefined && { repeat: body.repeat }),
+      ...(body.note !== undefined && { note: body.note }),
+      ...(body.status !== undefined && { status: body.status }),
+      ...(rearm && { lastValue: null }),
+      updatedAt: nowIso(),
+    })
+    .where(eq(pairWatches.id, existing.id));
+
+  const [updated] = await db.select().from(pairWatches).where(eq(pairWatches.id, existing.id));
+  return c.json(formatWatch(updated));
+});
+
+/** DELETE /api/pairs/watches/:id — also drops its events */
+pairWatchesRoute.delete('/:id', async (c) => {
+  const db = drizzle(c.env.DB);
+  const existing = await loadOwnedWatch(db, c.req.param('id'), c.get('walletAddress'));
+  if (!existing) return c.json({ error: 'Watch not found' }, 404);
+
+  await db.delete(pairWatchEvents).where(eq(pairWatchEvents.watchId, existing.id));
+  await db.delete(pairWatches).where(eq(pairWatches.id, existing.id));
+  return c.json({ ok: true });
+});
+
+// Error handler
+pairWatchesRoute.onError((err, c) => {
+  if (err instanceof ValidationError) {
+    return c.json({ error: err.message, fieldErrors: err.fieldErrors }, 400);
+  }
+  console.error('[pair-watches route]', err);
+  return c.json({ error: 'Internal server error' }, 500);
+});
+
+export default pairWatchesRoute;
@@ -6,20 +6,14 @@ import {
   filterBaseChainPairs,
 } from '../services/dex-data.js';
 import { createGeckoTerminalService } from '../services/gecko-terminal.js';
-import {
-  resolveIndexedGeckoTerminalMarketContextForPair,
-  resolveCoinGeckoMarketContextForPair,
-  resolveCoinPaprikaMarketContextForPair,
-  resolveDemoMarketContextForPair,
-} from '../services/coingecko-price.js';
 import { resolveCurrentPriceUsd } from '../services/price-resolver.js';
+import { resolvePairPriceHistory, type OhlcvSource } from '../services/price-history.js';
 import { validateQuery } from '../lib/validation.js';
 import { ValidationError } from '../lib/validation.js';
 import { normalizePairForDex } from '../lib/pairs.js';
 import { badRequestJson, internalServerErrorJson, notFoundJson, upstreamFailureJson } from './_shared/json-response.js';
 
 const pairs = new Hono<{ Bindings: Env }>();
-type OhlcvSource = 'coingecko' | 'coinpaprika' | 'geckoterminal' | 'demo' | 'none';
 
 function buildPricesResponse(
   normalizedByInput: Record<string, string>,
@@ -127,50 +121,7 @@ pairs.get('/ohlcv', async (c) => {
   );
 
   const pair = normalizePairForDex(query.pair);
-  const [indexedGecko, coingecko, coinpaprika] = await Promise.all([
-    resolveIndexedGeckoTerminalMarketContextForPair(c.env, pair),
-    resolveCoinGeckoMarketContextForPair(c.env, pair),
-    resolveCoinPaprikaMarketContextForPair(c.env, pair),
-  ]);
-  const demo = resolveDemoMarketContextForPair(pair);
-
-  // Prefer real providers; use demo only when both providers miss a series.
-  const hourlySource: OhlcvSource =
-    (indexedGecko?.hourlyPrices?.length ?? 0) > 0
-      ? 'geckoterminal'
-      : (coingecko?.hourlyPrices?.length ?? 0) > 0
-      ? 'coingecko'
-      : (coinpaprika?.hourlyPrices?.length ?? 0) > 0
-      ? 'coinpaprika'
-      : (demo?.hourlyPrices?.length ?? 0) > 0
-      ? 'demo'
-      : 'none';
-  const dailySource: OhlcvSource =
-    (indexedGecko?.dailyPrices?.length ?? 0) > 0
-      ? 'geckoterminal'
-      : (coingecko?.dailyPrices?.length ?? 0) > 0
-      ? 'coingecko'
-      : (coinpaprika?.dailyPrices?.length ?? 0) > 0
-      ? 'coinpaprika'
-      : (demo?.dailyPrices?.length ?? 0) > 0
-      ? 'demo'
-      : 'none';
-  const hourlyPrices =
-    (indexedGecko?.hourlyPrices?.length ?? 0) > 0
-      ? indexedGecko!.hourlyPrices
-      : (coingecko?.hourlyPrices?.length ?? 0) > 0
-      ? coingecko!.hourlyPrices
-      : (coinpaprika?.hourlyPrices?.length ?? 0) > 0
-      ? coinpaprika!.hourlyPrices
-      : (demo?.hourlyPrices ?? []);
-  const dailyPrices =
-    (indexedGecko?.dailyPrices?.length ?? 0) > 0
-      ? indexedGecko!.dailyPrices
-      : (coingecko?.dailyPrices?.length ?? 0) > 0
-      ? coingecko!.dailyPrices
-      : (coinpaprika?.dailyPrices?.length ?? 0) > 0
-      ? coinpaprika!.dailyPrices
-      : (demo?.dailyPrices ?? []);
+  const { hourlyPrices, dailyPrices, hourlySource, dailySource } = await resolvePairPriceHistory(c.env, pair);
   const source: OhlcvSource = query.timeframe === '1d' ? dailySource : hourlySource;
 
   if (hourlyPrices.length === 0 && dailyPrices.length === 0) {
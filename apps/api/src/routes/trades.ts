@@ -1,11 +1,20 @@
 import { Hono } from 'hono';
 import { z } from 'zod';
 import { drizzle } from 'drizzle-orm/d1';
-import { and, eq, desc, sql, inArray } from 'drizzle-orm';
+import { and, eq, desc, sql, or, gt, gte, lte, asc, ne, isNotNull } from 'drizzle-orm';
+import type { SQL } from 'drizzle-orm';
 import type { Env } from '../types/env.js';
 import type { AuthVariables } from '../lib/auth.js';
-import { agents, trades } from '../db/schema.js';
+import { agentDecisions, agents, trades } from '../db/schema.js';
+import { normalizePairForDex } from '../lib/pairs.js';
 import { validateQuery } from '../lib/validation.js';
+import {
+  REALIZED_GAIN_COLUMNS,
+  encodeExportStream,
+  paginate,
+  realizedGains,
+} from '../services/trade-export.js';
+import type { GainsTrade } from '../services/trade-export.js';
 
 const tradesRoute = new Hono<{ Bindings: Env; Variables: AuthVariables }>();
 
@@ -22,12 +31,24 @@ async function requireAgentOwnership(
   return agent;
 }
 
+/**
+ * Conditions on the joined `agents` table that scope a query to the caller's
+ * agents, optionally paper or live only. Filtering on the join keeps the
+ * query to a fixed number of bind parameters however many agents they own.
+ */
+function ownedAgentConditions(walletAddress: string, isPaper: string | undefined): SQL[] {
+  const conditions = [eq(agents.ownerAddress, walletAddress)];
+  if (isPaper === 'true') conditions.push(eq(agents.isPaper, true));
+  else if (isPaper === 'false') conditions.push(eq(agents.isPaper, false));
+  return conditions;
+}
+
 /** GET /api/trades — trades scoped to the authenticated user's agents */
 tradesRoute.get('/', async (c) => {
   const query = validateQuery(
     c,
     z.object({
-      status: z.enum(['open', 'closed']).optional(),
+      status: z.enum(['open', 'closed', 'merged']).optional(),
       pair: z.string().optional(),
       isPaper: z.enum(['true', 'false']).optional(),
       limit: z.coerce.number().min(1).max(500).default(100),
@@ -37,26 +58,11 @@ tradesRoute.get('/', async (c) => {
   const walletAddress = c.get('walletAddress');
   const db = drizzle(c.env.DB);
 
-  // Look up the caller's agents and scope trades to those IDs to avoid
-  // leaking other users' trade history in multi-tenant deployments.
-  const agentFilter = [eq(agents.ownerAddress, walletAddress)] as ReturnType<typeof eq>[];
-  if (query.isPaper === 'true') agentFilter.push(eq(agents.isPaper, true));
-  else if (query.isPaper === 'false') agentFilter.push(eq(agents.isPaper, false));
-
-  const ownedAgents = await db
-    .select({ id: agents.id })
-    .from(agents)
-    .where(and(...agentFilter));
-
-  if (ownedAgents.length === 0) {
-    return c.json({ trades: [], count: 0 });
-  }
-
-  const agentIds = ownedAgents.map((a) => a.id);
-
-  const conditions = [inArray(trades.agentId, agentIds)];
+  // Scope trades to the caller's agents to avoid leaking other users' trade
+  // history in multi-tenant deployments.
+  const conditions = ownedAgentConditions(walletAddress, query.isPaper);
   if (query.status) conditions.push(eq(trades.status, query.status));
-  if (query.pair) conditions.push(eq(trades.pair, query.pair));
+  if (query.pair) conditions.push(eq(trades.pair, normalizePairForDex(query.pair)));
 
   const results = await db
     .select({
@@ -74,6 +80,10 @@ tradesRoute.get('/', async (c) => {
       confidenceAfter: trades.confidenceAfter,
       reasoning: trades.reasoning,
       strategyUsed: trades.strategyUsed,
+      feeUsd: trades.feeUsd,
+      leverage: trades.leverage,
+      liquidationPrice: trades.liquidationPrice,
+      fundingUsd: trades.fundingUsd,
       slippageSimulated: trades.slippageSimulated,
       status: trades.status,
       closeReason: trades.closeReason,
@@ -91,6 +101,250 @@ tradesRoute.get('/', async (c) => {
   return c.json({ trades: results, count: results.length });
 });
 
+const EXPORT_PAGE_SIZE = 500;
+
+const TRADE_EXPORT_COLUMNS = [
+  'id',
+  'agentId',
+  'agentName',
+  'isPaper',
+  'pair',
+  'dex',
+  'side',
+  'status',
+  'fillType',
+  'parentTradeId',
+  'entryPrice',
+  'exitPrice',
+  'amountUsd',
+  'leverage',
+  'feeUsd',
+  'fundingUsd',
+  'pnlUsd',
+  'pnlPct',
+  'strategyUsed',
+  'closeReason',
+  'confidenceBefore',
+  'confidenceAfter',
+  'reasoning',
+  'openedAt',
+  'closedAt',
+] as const;
+
+const DECISION_EXPORT_COLUMNS = [
+  'id',
+  'agentId',
+  'agentName',
+  'isPaper',
+  'decision',
+  'confidence',
+  'reasoning',
+  'llmModel',
+  'llmLatencyMs',
+  'llmTokensUsed',
+  'configVersionId',
+  'createdAt',
+] as const;
+
+/**
+ * GET /api/trades/export — stream the caller's trade journal across all agents.
+ *
+ * `report=trades` (default) and `report=decisions` export raw rows, filtered
+ * by opened/created date; `report=gains` is a FIFO realized-gains report by
+ * calendar year, filtered by disposal date. `format` is csv or ndjson.
+ */
+tradesRoute.get('/export', async (c) => {
+  const query = validateQuery(
+    c,
+    z.object({
+      report: z.enum(['trades', 'decisions', 'gains']).default('trades'),
+      format: z.enum(['csv', 'ndjson']).default('csv'),
+      isPaper: z.enum(['true', 'false']).optional(),
+      pair: z.string().optional(),
+      from: z.string().datetime().optional(),
+      to: z.string().datetime().optional(),
+    })
+  );
+  if (query.from && query.to && query.from > query.to) {
+    return c.json({ error: '`from` must be before `to`' }, 400);
+  }
+  if (query.report === 'decisions' && query.pair) {
+    return c.json({ error: '`pair` does not apply to decision exports' }, 400);
+  }
+
+  const walletAddress = c.get('walletAddress');
+  const db = drizzle(c.env.DB);
+
+  const ownedAgents = ownedAgentConditions(walletAddress, query.isPaper);
+
+  const headers = {
+    'Content-Type': query.format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson; charset=utf-8',
+    'Content-Disposition': `attachment; filename="${query.report}-export.${query.format}"`,
+    'Cache-Control': 'no-store',
+  };
+  const pairFilter = query.pair ? [eq(trades.pair, normalizePairForDex(query.pair))] : [];
+
+  if (query.report === 'decisions') {
+    const rows = paginate(async (after: { id: string; createdAt: string } | undefined) => {
+      return db
+        .select({
+          id: agentDecisions.id,
+          agentId: agentDecisions.agentId,
+          agentName: agents.name,
+          isPaper: agents.isPaper,
+          decision: agentDecisions.decision,
+          confidence: agentDecisions.confidence,
+          reasoning: agentDecisions.reasoning,
+          llmModel: agentDecisions.llmModel,
+          llmLatencyMs: agentDecisions.llmLatencyMs,
+          llmTokensUsed: agentDecisions.llmTokensUsed,
+          configVersionId: agentDecisions.configVersionId,
+          createdAt: agentDecisions.createdAt,
+        })
+        .from(agentDecisions)
+        .innerJoin(agents, eq(agentDecisions.agentId, agents.id))
+        .where(
+          and(
+            ...ownedAgents,
+            ...(query.from ? [gte(agentDecisions.createdAt, query.from)] : []),
+            ...(query.to ? [lte(agentDecisions.createdAt, query.to)] : []),
+            ...(after
+              ? [or(
+                  gt(agentDecisions.createdAt, after.createdAt),
+                  and(eq(agentDecisions.createdAt, after.createdAt), gt(agentDecisions.id, after.id))
+                )]
+              : [])
+          )
+        )
+        .orderBy(asc(agentDecisions.createdAt), asc(agentDecisions.id))
+        .limit(EXPORT_PAGE_SIZE);
+    }, EXPORT_PAGE_SIZE);
+    return c.body(encodeExportStream(rows, query.format, DECISION_EXPORT_COLUMNS), 200, headers);
+  }
+
+  if (query.report === 'trades') {
+    const rows = paginate(async (after: { id: string; openedAt: string } | undefined) => {
+      return db
+        .select({
+          id: trades.id,
+          agentId: trades.agentId,
+          agentName: agents.name,
+          isPaper: agents.isPaper,
+          pair: trades.pair,
+          dex: trades.dex,
+          side: trades.side,
+          status: trades.status,
+          fillType: trades.fillType,
+          parentTradeId: trades.parentTradeId,
+          entryPrice: trades.entryPrice,
+          exitPrice: trades.exitPrice,
+          amountUsd: trades.amountUsd,
+          leverage: trades.leverage,
+          feeUsd: trades.feeUsd,
+          fundingUsd: trades.fundingUsd,
+          pnlUsd: trades.pnlUsd,
+          pnlPct: trades.pnlPct,
+          strategyUsed: trades.strategyUsed,
+          closeReason: trades.closeReason,
+          confidenceBefore: trades.confidenceBefore,
+          confidenceAfter: trades.confidenceAfter,
+          reasoning: trades.reasoning,
+          openedAt: trades.openedAt,
+          closedAt: trades.closedAt,
+        })
+        .from(trades)
+        .innerJoin(agents, eq(trades.agentId, agents.id))
+        .where(
+          and(
+            ...ownedAgents,
+            ...pairFilter,
+            ...(query.from ? [gte(trades.openedAt, query.from)] : []),
+            ...(query.to ? [lte(trades.openedAt, query.to)] : []),
+            ...(after
+              ? [or(
+                  gt(trades.openedAt, after.openedAt),
+                  and(eq(trades.openedAt, after.openedAt), gt(trades.id, after.id))
+                )]
+              : [])
+          )
+        )
+        .orderBy(asc(trades.openedAt), asc(trades.id))
+        .limit(EXPORT_PAGE_SIZE);
+    }, EXPORT_PAGE_SIZE);
+    return c.body(encodeExportStream(rows, query.format, TRADE_EXPORT_COLUMNS), 200, headers);
+  }
+
+  // Gains: lots must be built from the full history, so only the disposal
+  // cursor is bounded by the date range. Merged rows are scale-in lots already
+  // folded into their position, so they are never acquisitions of their own.
+  const gainsColumns = {
+    id: trades.id,
+    pair: trades.pair,
+    side: trades.side,
+    entryPrice: trades.entryPrice,
+    amountUsd: trades.amountUsd,
+    pnlUsd: trades.pnlUsd,
+    leverage: trades.leverage,
+    openedAt: trades.openedAt,
+    closedAt: trades.closedAt,
+    isPaper: agents.isPaper,
+  };
+  const acquisitions = paginate(async (after: GainsTrade | undefined): Promise<GainsTrade[]> => {
+    return db
+      .select(gainsColumns)
+      .from(trades)
+      .innerJoin(agents, eq(trades.agentId, agents.id))
+      .where(
+        and(
+          ...ownedAgents,
+          ...pairFilter,
+          ne(trades.status, 'merged'),
+          eq(trades.side, 'buy'),
+          ...(query.to ? [lte(trades.openedAt, query.to)] : []),
+          ...(after
+            ? [or(
+                gt(trades.openedAt, after.openedAt),
+                and(eq(trades.openedAt, after.openedAt), gt(trades.id, after.id))
+              )]
+            : [])
+        )
+      )
+      .orderBy(asc(trades.openedAt), asc(trades.id))
+      .limit(EXPORT_PAGE_SIZE);
+  }, EXPORT_PAGE_SIZE);
+  const disposals = paginate(async (after: GainsTrade | undefined): Promise<GainsTrade[]> => {
+    return db
+      .select(gainsColumns)
+      .from(trades)
+      .innerJoin(agents, eq(trades.agentId, agents.id))
+      .where(
+        and(
+          ...ownedAgents,
+          ...pairFilter,
+          eq(trades.status, 'closed'),
+          isNotNull(trades.closedAt),
+          ...(query.to ? [lte(trades.closedAt, query.to)] : []),
+          ...(after
+            ? [or(
+                gt(trades.closedAt, after.closedAt!),
+                and(eq(trades.closedAt, after.closedAt!), gt(trades.id, after.id))
+              )]
+            : [])
+        )
+      )
+      .orderBy(asc(trades.closedAt), asc(trades.id))
+      .limit(EXPORT_PAGE_SIZE);
+  }, EXPORT_PAGE_SIZE);
+
+  const rows = realizedGains({
+    acquisitions,
+    disposals,
+    from: query.from,
+    to: query.to,
+  });
+  return c.body(encodeExportStream(rows, query.format, REALIZED_GAIN_COLUMNS), 200, headers);
+});
+
 /** POST /api/trades/:id/close — manually close an open trade */
 tradesRoute.post('/:id/close', async (c) => {
   const id = c.req.param('id');
@@ -131,32 +385,18 @@ tradesRoute.get('/stats', async (c) => {
   const db = drizzle(c.env.DB);
   const isPaperParam = c.req.query('isPaper');
 
-  const agentFilter = [eq(agents.ownerAddress, walletAddress)] as ReturnType<typeof eq>[];
-  if (isPaperParam === 'true') agentFilter.push(eq(agents.isPaper, true));
-  else if (isPaperParam === 'false') agentFilter.push(eq(agents.isPaper, false));
-
-  const ownedAgents = await db
-    .select({ id: agents.id })
-    .from(agents)
-    .where(and(...agentFilter));
-
-  if (ownedAgents.length === 0) {
-    return c.json({ totalTrades: 0, openTrades: 0, closedTrades: 0, winRate: 0, totalPnlUsd: 0, avgPnlPct: 0 });
-  }
-
-  const agentIds = ownedAgents.map((a) => a.id);
-
   const statsResult = await db
     .select({
       totalTrades: sql<number>`count(*)`,
-      openTrades: sql<number>`sum(case when status = 'open' then 1 else 0 end)`,
-      closedTrades: sql<number>`sum(case when status = 'closed' then 1 else 0 end)`,
-      winningTrades: sql<number>`sum(case when status = 'closed' and pnl_pct > 0 then 1 else 0 end)`,
-      totalPnlUsd: sql<number>`sum(case when status = 'closed' then coalesce(pnl_usd, 0) else 0 end)`,
-      avgPnlPct: sql<number>`avg(case when status = 'closed' then pnl_pct else null end)`,
+      openTrades: sql<number>`sum(case when ${trades.status} = 'open' then 1 else 0 end)`,
+      closedTrades: sql<number>`sum(case when ${trades.status} = 'closed' then 1 else 0 end)`,
+      winningTrades: sql<number>`sum(case when ${trades.status} = 'closed' and ${trades.pnlPct} > 0 then 1 else 0 end)`,
+      totalPnlUsd: sql<number>`sum(case when ${trades.status} = 'closed' then coalesce(${trades.pnlUsd}, 0) else 0 end)`,
+      avgPnlPct: sql<number>`avg(case when ${trades.status} = 'closed' then ${trades.pnlPct} else null end)`,
     })
     .from(trades)
-    .where(inArray(trades.agentId, agentIds));
+    .innerJoin(agents, eq(trades.agentId, agents.id))
+    .where(and(...ownedAgentConditions(walletAddress, isPaperParam)));
 
   const stats = statsResult[0];
   const winRate =
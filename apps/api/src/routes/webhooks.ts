@@ -0,0 +1,170 @@
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { drizzle } from 'drizzle-orm/d1';
+import { and, desc, eq } from 'drizzle-orm';
+import { CreateWebhookRequestSchema, UpdateWebhookRequestSchema } from '@something-in-loop/shared';
+import type { Env } from '../types/env.js';
+import type { AuthVariables } from '../lib/auth.js';
+import { webhookDeliveries, webhooks } from '../db/schema.js';
+import { ValidationError, validateBody, validateQuery } from '../lib/validation.js';
+import { generateId, nowIso } from '../lib/utils.js';
+import { encryptKey } from '../lib/crypto.js';
+import { emitWebhookEvent, generateWebhookSecret, parseWebhookEvents } from '../services/webhooks.js';
+
+const webhooksRoute = new Hono<{ Bindings: Env; Variables: AuthVariables }>();
+
+type WebhookRow = typeof webhooks.$inferSelect;
+type DeliveryRow = typeof webhookDeliveries.$inferSelect;
+
+/** The signing secret is only ever returned by POST /api/webhooks. */
+function formatWebhook({ secret: _secret, ...w }: WebhookRow) {
+  return { ...w, events: parseWebhookEvents(w.events) };
+}
+
+function formatDelivery(d: DeliveryRow) {
+  return { ...d, payload: JSON.parse(d.payload) as unknown };
+}
+
+async function loadOwnedWebhook(
+  db: ReturnType<typeof drizzle>,
+  id: string,
+  walletAddress: string
+): Promise<WebhookRow | null> {
+  const [webhook] = await db
+    .select()
+    .from(webhooks)
+    .where(and(eq(webhooks.id, id), eq(webhooks.ownerAddress, walletAddress)));
+  return webhook ?? null;
+}
+
+/** GET /api/webhooks */
+webhooksRoute.get('/', async (c) => {
+  const db = drizzle(c.env.DB);
+  const rows = await db
+    .select()
+    .from(webhooks)
+    .where(eq(webhooks.ownerAddress, c.get('walletAddress')))
+    .orderBy(desc(webhooks.createdAt));
+  return c.json({ webhooks: rows.map(formatWebhook) });
+});
+
+/**
+ * POST /api/webhooks — the signing secret is stored encrypted and only
+ * returned in this response.
+ */
+webhooksRoute.post('/', async (c) => {
+  const body = await validateBody(c, CreateWebhookRequestSchema);
+  const db = drizzle(c.env.DB);
+  const id = generateId('wh');
+  const now = nowIso();
+  const secret = body.secret ?? generateWebhookSecret();
+
+  await db.insert(webhooks).values({
+    id,
+    ownerAddress: c.get('walletAddress'),
+    url: body.url,
+    secret: await encryptKey(secret, c.env.KEY_ENCRYPTION_SECRET),
+    events: JSON.stringify([...new Set(body.events)]),
+    description: body.description ?? null,
+    isActive: true,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  const [created] = await db.select().from(webhooks).where(eq(webhooks.id, id));
+  return c.json({ ...formatWebhook(created), secret }, 201);
+});
+
+/** GET /api/webhooks/:id */
+webhooksRoute.get('/:id', async (c) => {
+  const db = drizzle(c.env.DB);
+  const webhook = await loadOwnedWebhook(db, c.req.param('id'), c.get('walletAddress'));
+  if (!webhook) return c.json({ error: 'Webhook not found' }, 404);
+  return c.json(formatWebhook(webhook));
+});
+
+/** PATCH /api/webhooks/:id */
+webhooksRoute.patch('/:id', async (c) => {
+  const body = await validateBody(c, UpdateWebhookRequestSchema);
+  const db = drizzle(c.env.DB);
+  const existing = await loadOwnedWebhook(db, c.req.param('id'), c.get('walletAddress'));
+  if (!existing) return c.json({ error: 'Webhook not found' }, 404);
+
+  await db
+    .update(webhooks)
+    .set({
+      ...(body.url !== undefined && { url: body.url }),
+      ...(body.events !== undefined && { events: JSON.stringify([...new Set(body.events)]) }),
+      ...(body.description !== undefined && { description: body.description }),
+      ...(body.isActive !== undefined && { isActive: body.isActive }),
+      updatedAt: nowIso(),
+    })
+    .where(eq(webhooks.id, existing.id));
+
+  const [updated] = await db.select().from(webhooks).where(eq(webhooks.id, existing.id));
+  return c.json(formatWebhook(updated));
+});
+
+/** DELETE /api/webhooks/:id — also drops its delivery log */
+webhooksRoute.delete('/:id', async (c) => {
+  const db = drizzle(c.env.DB);
+  const existing = await loadOwnedWebhook(db, c.req.param('id'), c.get('walletAddress'));
+  if (!existing) return c.json({ error: 'Webhook not found' }, 404);
+
+  await db.delete(webhookDeliveries).where(eq(webhookDeliveries.webhookId, existing.id));
+  await db.delete(webhooks).where(eq(webhooks.id, existing.id));
+  return c.json({ ok: true });
+});
+
+/** POST /api/webhooks/:id/ping — send a signed `ping` event regardless of the event filter */
+webhooksRoute.post('/:id/ping', async (c) => {
+  const db = drizzle(c.env.DB);
+  const existing = await loadOwnedWebhook(db, c.req.param('id'), c.get('walletAddress'));
+  if (!existing) return c.json({ error: 'Webhook not found' }, 404);
+
+  const [deliveryId] = await emitWebhookEvent(c.env, {
+    type: 'ping',
+    webhookId: existing.id,
+    ownerAddress: existing.ownerAddress,
+    data: { message: 'Webhook test' },
+  });
+  if (!deliveryId) return c.json({ error: 'Failed to queue ping' }, 500);
+
+  const [delivery] = await db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, deliveryId));
+  return c.json({ delivery: formatDelivery(delivery) }, 202);
+});
+
+/** GET /api/webhooks/:id/deliveries — delivery log, newest first */
+webhooksRoute.get('/:id/deliveries', async (c) => {
+  const query = validateQuery(
+    c,
+    z.object({
+      status: z.enum(['pending', 'delivered', 'failed']).optional(),
+      limit: z.coerce.number().min(1).max(200).default(50),
+    })
+  );
+  const db = drizzle(c.env.DB);
+  const existing = await loadOwnedWebhook(db, c.req.param('id'), c.get('walletAddress'));
+  if (!existing) return c.json({ error: 'Webhook not found' }, 404);
+
+  const conditions = [eq(webhookDeliveries.webhookId, existing.id)];
+  if (query.status) conditions.push(eq(webhookDeliveries.status, query.status));
+  const rows = await db
+    .select()
+    .from(webhookDeliveries)
+    .where(and(...conditions))
+    .orderBy(desc(webhookDeliveries.createdAt))
+    .limit(query.limit);
+  return c.json({ deliveries: rows.map(formatDelivery) });
+});
+
+// Error handler
+webhooksRoute.onError((err, c) => {
+  if (err instanceof ValidationError) {
+    return c.json({ error: err.message, fieldErrors: err.fieldErrors }, 400);
+  }
+  console.error('[webhooks route]', err);
+  return c.json({ error: 'Internal server error' }, 500);
+});
+
+export default webhooksRoute;
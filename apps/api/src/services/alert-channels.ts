@@ -0,0 +1,141 @@
+/**
+ * Notification channel adapters for alert rules.
+ *
+ * Each adapter turns an alert message into one HTTP call: the Telegram Bot
+ * API, a Discord webhook, or an HTTP SMTP relay for email (Workers cannot
+ * speak SMTP directly). Adapters throw on failure; `sendAlert` catches and
+ * reports the outcome per channel.
+ */
+import type { AlertChannelConfig, AlertChannelType } from '@something-in-loop/shared';
+import type { Env } from '../types/env.js';
+
+const CHANNEL_TIMEOUT_MS = 10_000;
+const ERROR_MAX_CHARS = 300;
+/** Discord rejects message content over 2000 characters. */
+const DISCORD_MAX_CHARS = 2000;
+/** Telegram rejects message text over 4096 characters. */
+const TELEGRAM_MAX_CHARS = 4096;
+
+export interface AlertMessage {
+  /** One-line summary; used as the email subject. */
+  title: string;
+  body: string;
+}
+
+export type AlertChannelContext = {
+  env: Pick<Env, 'EMAIL_RELAY_URL' | 'EMAIL_RELAY_API_KEY' | 'ALERT_EMAIL_FROM'>;
+  fetchImpl?: typeof fetch;
+};
+
+export interface AlertChannelAdapter<T extends AlertChannelType = AlertChannelType> {
+  send(
+    config: Extract<AlertChannelConfig, { type: T }>,
+    message: AlertMessage,
+    context: AlertChannelContext
+  ): Promise<void>;
+  /** Config with secrets hidden, for API responses. */
+  mask(config: Extract<AlertChannelConfig, { type: T }>): Record<string, unknown>;
+}
+
+export type AlertDeliveryResult = {
+  channelId: string;
+  type: AlertChannelType;
+  ok: boolean;
+  error: string | null;
+};
+
+function maskSecret(value: string, visible = 4): string {
+  return value.length <= visible ? '****' : `****${value.slice(-visible)}`;
+}
+
+function truncate(text: string, max: number): string {
+  return text.length <= max ? text : `${text.slice(0, max - 1)}…`;
+}
+
+async function postJson(
+  url: string,
+  payload: unknown,
+  context: AlertChannelContext,
+  headers: Record<string, string> = {}
+): Promise<void> {
+  const res = await (context.fetchImpl ?? fetch)(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(payload),
+    signal: AbortSignal.timeout(CHANNEL_TIMEOUT_MS),
+  });
+  if (!res.ok) {
+    const text = await res.text().catch(() => '');
+    throw new Error(`HTTP ${res.status}${text ? `: ${text}` : ''}`);
+  }
+}
+
+const telegram: AlertChannelAdapter<'telegram'> = {
+  async send(config, message, context) {
+    try {
+      await postJson(`https://api.telegram.org/bot${config.botToken}/sendMessage`, {
+        chat_id: config.chatId,
+        text: truncate(`${message.title}\n\n${message.body}`, TELEGRAM_MAX_CHARS),
+        disable_web_page_preview: true,
+      }, context);
+    } catch (err) {
+      // The token is part of the URL; keep it out of stored delivery errors.
+      const text = err instanceof Error ? err.message : String(err);
+      throw new Error(text.split(config.botToken).join(maskSecret(config.botToken)));
+    }
+  },
+  mask: (config) => ({ type: config.type, chatId: config.chatId, botToken: maskSecret(config.botToken) }),
+};
+
+const discord: AlertChannelAdapter<'discord'> = {
+  async send(config, message, context) {
+    await postJson(config.webhookUrl, {
+      content: truncate(`**${message.title}**\n${message.body}`, DISCORD_MAX_CHARS),
+      allowed_mentions: { parse: [] },
+    }, context);
+  },
+  mask: (config) => {
+    const url = new URL(config.webhookUrl);
+    return { type: config.type, webhookUrl: `${url.origin}${url.pathname.replace(/[^/]+$/, '****')}` };
+  },
+};
+
+const email: AlertChannelAdapter<'email'> = {
+  async send(config, message, context) {
+    const { EMAIL_RELAY_URL, EMAIL_RELAY_API_KEY, ALERT_EMAIL_FROM } = context.env;
+    if (!EMAIL_RELAY_URL) throw new Error('Email relay not configured (EMAIL_RELAY_URL)');
+    await postJson(EMAIL_RELAY_URL, {
+      from: ALERT_EMAIL_FROM ?? 'alerts@localhost',
+      to: config.to,
+      subject: message.title,
+      text: message.body,
+    }, context, EMAIL_RELAY_API_KEY ? { Authorization: `Bearer ${EMAIL_RELAY_API_KEY}` } : {});
+  },
+  mask: (config) => ({ type: config.type, to: config.to }),
+};
+
+const ADAPTERS: { [T in AlertChannelType]: AlertChannelAdapter<T> } = { telegram, discord, email };
+
+export function getAlertChannelAdapter<T extends AlertChannelType>(type: T): AlertChannelAdapter<T> {
+  return ADAPTERS[type];
+}
+
+export function maskChannelConfig(config: AlertChannelConfig): Record<string, unknown> {
+  return (getAlertChannelAdapter(config.type) as AlertChannelAdapter).mask(config);
+}
+
+/** Deliver one message to one channel. Never throws. */
+export async function sendAlert(
+  channel: { id: string; config: AlertChannelConfig },
+  message: AlertMessage,
+  context: AlertChannelContext
+): Promise<AlertDeliveryResult> {
+  const { config } = channel;
+  try {
+    await (getAlertChannelAdapter(config.type) as AlertChannelAdapter).send(config, message, context);
+    return { channelId: channel.id, type: config.type, ok: true, error: null };
+  } catch (err) {
+    const error = (err instanceof Error ? err.message : String(err)).slice(0, ERROR_MAX_CHARS);
+    return { channelId: channel.id, type: config.type, ok: false, error };
+  }
+}
@@ -0,0 +1,310 @@
+/**
+ * Alerting rules engine.
+ *
+ * Signals come from two places: the agent loop reports `llm_fallback` and
+ * `price_miss` as they happen, and the hourly cron evaluates `drawdown` (from
+ * performance snapshots) and `no_decision` (from agent_decisions). Each signal
+ * is matched against the owner's active rules of the same type; matching
+ * rules that are not throttled notify their channels and leave a row in
+ * `alert_notifications`, which is both the history view and the throttle.
+ *
+ * Channel configs hold bot tokens and webhook URLs, so they are stored
+ * encrypted with KEY_ENCRYPTION_SECRET and only decrypted to send or mask.
+ */
+import { drizzle } from 'drizzle-orm/d1';
+import { and, desc, eq, inArray, sql } from 'drizzle-orm';
+import { AlertChannelConfigSchema, AlertConditionSchema, intervalToMs } from '@something-in-loop/shared';
+import type { AlertChannelConfig, AlertCondition, AlertRuleType } from '@something-in-loop/shared';
+import { agentDecisions, agents, alertChannels, alertNotifications, alertRules, performanceSnapshots } from '../db/schema.js';
+import { generateId, nowIso } from '../lib/utils.js';
+import { decryptKey, encryptKey } from '../lib/crypto.js';
+import { sendAlert } from './alert-channels.js';
+import type { AlertDeliveryResult, AlertMessage } from './alert-channels.js';
+import type { Env } from '../types/env.js';
+
+type Db = ReturnType<typeof drizzle>;
+type AlertRuleRow = typeof alertRules.$inferSelect;
+
+export type AlertSignal =
+  | { type: 'drawdown'; drawdownPct: number; equity: number; peakEquity: number }
+  | { type: 'no_decision'; lastDecisionAt: string | null; minutesSinceDecision: number; intervalMinutes: number }
+  | { type: 'llm_fallback'; configuredModel: string; modelUsed: string }
+  | { type: 'price_miss'; positionId: string; pair: string; misses: number };
+
+export type ProcessAlertSignalParams = {
+  agentId: string;
+  signal: AlertSignal;
+  fetchImpl?: typeof fetch;
+  now?: Date;
+};
+
+export function parseAlertCondition(raw: string): AlertCondition | null {
+  try {
+    const parsed = AlertConditionSchema.safeParse(JSON.parse(raw));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+export function parseChannelConfig(raw: string): AlertChannelConfig | null {
+  try {
+    const parsed = AlertChannelConfigSchema.safeParse(JSON.parse(raw));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function encryptChannelConfig(config: AlertChannelConfig, secret: string | undefined): Promise<string> {
+  return encryptKey(JSON.stringify(config), secret);
+}
+
+/** Null when the stored config cannot be decrypted or no longer validates. */
+export async function decryptChannelConfig(
+  stored: string,
+  secret: string | undefined
+): Promise<AlertChannelConfig | null> {
+  try {
+    return parseChannelConfig(await decryptKey(stored, secret));
+  } catch (err) {
+    console.warn('[alerts] Failed to decrypt alert channel config:', err instanceof Error ? err.message : err);
+    return null;
+  }
+}
+
+export function parseChannelIds(raw: string): string[] {
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return Array.isArray(parsed) ? parsed.filter((id): id is string => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+export function ruleMatchesSignal(condition: AlertCondition, signal: AlertSignal): boolean {
+  if (condition.type !== signal.type) return false;
+  switch (signal.type) {
+    case 'drawdown':
+      return signal.drawdownPct > (condition as Extract<AlertCondition, { type: 'drawdown' }>).thresholdPct;
+    case 'no_decision':
+      return signal.minutesSinceDecision >=
+        (condition as Extract<AlertCondition, { type: 'no_decision' }>).intervals * signal.intervalMinutes;
+    case 'llm_fallback':
+      return true;
+    case 'price_miss':
+      return signal.misses >= (condition as Extract<AlertCondition, { type: 'price_miss' }>).misses;
+  }
+}
+
+/** True while the previous notification for the same rule and agent is within the throttle window. */
+export function isThrottled(lastSentAt: string | null, throttleMinutes: number, now: Date = new Date()): boolean {
+  if (!lastSentAt || throttleMinutes <= 0) return false;
+  return now.getTime() - Date.parse(lastSentAt) < throttleMinutes * 60_000;
+}
+
+/** Percent the latest equity sits below its peak; 0 at or above the peak. */
+export function drawdownPct(peakEquity: number, equity: number): number {
+  return peakEquity > 0 && equity < peakEquity ? ((peakEquity - equity) / peakEquity) * 100 : 0;
+}
+
+export function formatAlertMessage(ruleName: string, agentName: string, signal: AlertSignal): AlertMessage {
+  const title = `[${agentName}] ${ruleName}`;
+  switch (signal.type) {
+    case 'drawdown':
+      return {
+        title,
+        body: `Drawdown ${signal.drawdownPct.toFixed(2)}%: equity $${signal.equity.toFixed(2)} vs peak $${signal.peakEquity.toFixed(2)}.`,
+      };
+    case 'no_decision':
+      return {
+        title,
+        body: signal.lastDecisionAt
+          ? `No decision for ${Math.round(signal.minutesSinceDecision)} minutes (interval ${signal.intervalMinutes}m). Last decision at ${signal.lastDecisionAt}.`
+          : `No decision for ${Math.round(signal.minutesSinceDecision)} minutes since the agent started (interval ${signal.intervalMinutes}m).`,
+      };
+    case 'llm_fallback':
+      return { title, body: `Decision made by fallback model ${signal.modelUsed} instead of ${signal.configuredModel}.` };
+    case 'price_miss':
+      return {
+        title,
+        body: `Price for ${signal.pair} failed to resolve ${signal.misses} times in a row; stop-loss and take-profit checks are skipped for position ${signal.positionId}.`,
+      };
+  }
+}
+
+function notificationStatus(results: AlertDeliveryResult[]): 'sent' | 'partial' | 'failed' {
+  const delivered = results.filter((r) => r.ok).length;
+  if (delivered === 0) return 'failed';
+  return delivered === results.length ? 'sent' : 'partial';
+}
+
+async function lastNotificationAt(db: Db, ruleId: string, agentId: string): Promise<string | null> {
+  const [row] = await db
+    .select({ createdAt: alertNotifications.createdAt })
+    .from(alertNotifications)
+    .where(and(eq(alertNotifications.ruleId, ruleId), eq(alertNotifications.agentId, agentId)))
+    .orderBy(desc(alertNotifications.createdAt))
+    .limit(1);
+  return row?.createdAt ?? null;
+}
+
+/**
+ * Notify every matching, unthrottled rule for one agent signal. Never throws —
+ * alerting must not interrupt trading ticks or the cron. Returns the
+ * notification ids recorded.
+ */
+export async function processAlertSignal(env: Env, params: ProcessAlertSignalParams): Promise<string[]> {
+  const { agentId, signal } = params;
+  const now = params.now ?? new Date();
+  try {
+    const db = drizzle(env.DB);
+    const [agent] = await db
+      .select({ name: agents.name, ownerAddress: agents.ownerAddress })
+      .from(agents)
+      .where(eq(agents.id, agentId));
+    if (!agent?.ownerAddress) return [];
+
+    const rules = await db
+      .select()
+      .from(alertRules)
+      .where(and(
+        eq(alertRules.ownerAddress, agent.ownerAddress),
+        eq(alertRules.type, signal.type),
+        eq(alertRules.isActive, true)
+      ));
+    const matching = rules.filter((rule) => {
+      if (rule.agentId && rule.agentId !== agentId) return false;
+      const condition = parseAlertCondition(rule.condition);
+      return condition !== null && ruleMatchesSignal(condition, signal);
+    });
+    if (matching.length === 0) return [];
+
+    const channels = await db
+      .select()
+      .from(alertChannels)
+      .where(and(eq(alertChannels.ownerAddress, agent.ownerAddress), eq(alertChannels.isActive, true)));
+
+    const notificationIds: string[] = [];
+    for (const rule of matching) {
+      if (isThrottled(await lastNotificationAt(db, rule.id, agentId), rule.throttleMinutes, now)) continue;
+
+      const message = formatAlertMessage(rule.name, agent.name, signal);
+      const channelIds = parseChannelIds(rule.channelIds);
+      const results: AlertDeliveryResult[] = [];
+      for (const channel of channels.filter((ch) => channelIds.includes(ch.id))) {
+        const config = await decryptChannelConfig(channel.config, env.KEY_ENCRYPTION_SECRET);
+        if (!config) continue;
+        results.push(await sendAlert({ id: channel.id, config }, message, { env, fetchImpl: params.fetchImpl }));
+      }
+
+      const id = generateId('alert');
+      await db.insert(alertNotifications).values({
+        id,
+        ownerAddress: agent.ownerAddress,
+        ruleId: rule.id,
+        agentId,
+        ruleType: rule.type,
+        message: `${message.title}\n${message.body}`,
+        context: JSON.stringify(signal),
+        deliveries: JSON.stringify(results),
+        status: notificationStatus(results),
+        createdAt: now.toISOString(),
+      });
+      notificationIds.push(id);
+    }
+    return notificationIds;
+  } catch (err) {
+    console.error(`[alerts] Failed to process ${signal.type} for agent ${agentId}:`, err);
+    return [];
+  }
+}
+
+async function drawdownSignal(db: Db, agentId: string): Promise<AlertSignal | null> {
+  const equity = sql<number>`coalesce(${performanceSnapshots.equity}, ${performanceSnapshots.balance})`;
+  const [latest] = await db
+    .select({ equity })
+    .from(performanceSnapshots)
+    .where(eq(performanceSnapshots.agentId, agentId))
+    .orderBy(desc(performanceSnapshots.snapshotAt))
+    .limit(1);
+  if (!latest) return null;
+  const [peak] = await db
+    .select({ peakEquity: sql<number>`max(${equity})` })
+    .from(performanceSnapshots)
+    .where(eq(performanceSnapshots.agentId, agentId));
+  const peakEquity = Number(peak?.peakEquity ?? latest.equity);
+  return { type: 'drawdown', drawdownPct: drawdownPct(peakEquity, latest.equity), equity: latest.equity, peakEquity };
+}
+
+/** `datetime('now')` column defaults are UTC without a zone marker. */
+function parseStoredTimestamp(value: string): string {
+  return /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(value) ? `${value.replace(' ', 'T')}Z` : value;
+}
+
+async function noDecisionSignal(
+  db: Db,
+  agent: { id: string; config: string; updatedAt: string },
+  now: Date
+): Promise<AlertSignal> {
+  let analysisInterval: unknown;
+  try {
+    analysisInterval = (JSON.parse(agent.config) as { analysisInterval?: unknown }).analysisInterval;
+  } catch {
+    analysisInterval = undefined;
+  }
+  const [latest] = await db
+    .select({ createdAt: agentDecisions.createdAt })
+    .from(agentDecisions)
+    .where(eq(agentDecisions.agentId, agent.id))
+    .orderBy(desc(agentDecisions.createdAt))
+    .limit(1);
+  const lastDecisionAt = latest?.createdAt ?? null;
+  // Agents that have not decided yet are measured from their last update.
+  const since = Date.parse(lastDecisionAt ?? parseStoredTimestamp(agent.updatedAt));
+  return {
+    type: 'no_decision',
+    lastDecisionAt,
+    minutesSinceDecision: Math.max(0, (now.getTime() - since) / 60_000),
+    intervalMinutes: intervalToMs(analysisInterval) / 60_000,
+  };
+}
+
+/**
+ * Hourly cron pass over `drawdown` and `no_decision` rules for running
+ * agents. Runs after snapshotAllAgents so drawdown sees the fresh snapshot.
+ */
+export async function evaluateScheduledAlerts(env: Env, now: Date = new Date()): Promise<void> {
+  const db = drizzle(env.DB);
+  const scheduledTypes: AlertRuleType[] = ['drawdown', 'no_decision'];
+  const rules: AlertRuleRow[] = await db
+    .select()
+    .from(alertRules)
+    .where(and(eq(alertRules.isActive, true), inArray(alertRules.type, scheduledTypes)));
+  if (rules.length === 0) return;
+
+  const owners = [...new Set(rules.map((r) => r.ownerAddress))];
+  const runningAgents = await db
+    .select({ id: agents.id, ownerAddress: agents.ownerAddress, config: agents.config, updatedAt: agents.updatedAt })
+    .from(agents)
+    .where(and(eq(agents.status, 'running'), inArray(agents.ownerAddress, owners)));
+
+  let evaluated = 0;
+  for (const agent of runningAgents) {
+    const applicable = rules.filter(
+      (r) => r.ownerAddress === agent.ownerAddress && (!r.agentId || r.agentId === agent.id)
+    );
+    try {
+      for (const type of new Set(applicable.map((r) => r.type))) {
+        const signal = type === 'drawdown'
+          ? await drawdownSignal(db, agent.id)
+          : await noDecisionSignal(db, agent, now);
+        if (signal) await processAlertSignal(env, { agentId: agent.id, signal, now });
+      }
+      if (applicable.length > 0) evaluated += 1;
+    } catch (err) {
+      console.error(`[alerts] Scheduled evaluation failed for agent ${agent.id}:`, err);
+    }
+  }
+  console.log(`[alerts] Evaluated scheduled rules for ${evaluated} agents at ${nowIso()}`);
+}
@@ -0,0 +1,264 @@
+/**
+ * Performance analytics over an agent's trade history.
+ *
+ * Ratios are computed from a realised equity curve (initial balance plus
+ * closed-trade P&L, bucketed into UTC days) rather than per-trade returns, and
+ * annualised over 365 days since markets trade every day. Open trades only
+ * count towards exposure time.
+ */
+import type { trades } from '../db/schema.js';
+
+const DAY_MS = 24 * 60 * 60_000;
+const PERIODS_PER_YEAR = 365;
+
+export type AnalyticsTrade = Pick<
+  typeof trades.$inferSelect,
+  'pair' | 'strategyUsed' | 'status' | 'pnlPct' | 'pnlUsd' | 'openedAt' | 'closedAt'
+>;
+
+/** Win/loss statistics for a set of closed trades. */
+export interface TradeStats {
+  trades: number;
+  wins: number;
+  losses: number;
+  /** 0–1 */
+  winRate: number;
+  pnlUsd: number;
+  grossProfitUsd: number;
+  grossLossUsd: number;
+  /** Gross profit / gross loss; null without losing trades. */
+  profitFactor: number | null;
+  /** Average P&L per trade. */
+  expectancyUsd: number;
+  expectancyPct: number;
+  averageWinUsd: number | null;
+  averageLossUsd: number | null;
+  averageWinPct: number | null;
+  averageLossPct: number | null;
+}
+
+export interface BreakdownRow extends TradeStats {
+  key: string;
+}
+
+export interface EquityPoint {
+  /** UTC day (YYYY-MM-DD) */
+  date: string;
+  equity: number;
+}
+
+export interface PerformanceAnalytics extends TradeStats {
+  from: string;
+  to: string;
+  openTrades: number;
+  startingEquity: number;
+  endingEquity: number;
+  /** Realised return over the period, % of starting equity. */
+  totalReturnPct: number;
+  /** Compounded yearly return, %; null for periods under a day. */
+  annualizedReturnPct: number | null;
+  /** Annualised, from daily equity returns; null under two returns or zero variance. */
+  sharpeRatio: number | null;
+  sortinoRatio: number | null;
+  /** Annualised return / max drawdown; null without a drawdown. */
+  calmarRatio: number | null;
+  /** Largest peak-to-trough fall of the equity curve, % of the peak. */
+  maxDrawdownPct: number;
+  longestWinningStreak: number;
+  longestLosingStreak: number;
+  /** Share of the period with at least one position open, %. */
+  timeInMarketPct: number;
+  equityCurve: EquityPoint[];
+  byPair: BreakdownRow[];
+  byStrategy: BreakdownRow[];
+}
+
+export type ComputeAnalyticsParams = {
+  trades: AnalyticsTrade[];
+  initialBalance: number;
+  /** ISO bounds; default to the first trade and now. */
+  from?: string;
+  to?: string;
+  now?: Date;
+};
+
+function mean(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? mean(values) : null;
+}
+
+export function computeTradeStats(closed: AnalyticsTrade[]): TradeStats {
+  const pnls = closed.map((t) => t.pnlUsd ?? 0);
+  const winners = closed.filter((t) => (t.pnlUsd ?? 0) > 0);
+  const losers = closed.filter((t) => (t.pnlUsd ?? 0) < 0);
+  const grossProfitUsd = winners.reduce((a, t) => a + (t.pnlUsd ?? 0), 0);
+  const grossLossUsd = -losers.reduce((a, t) => a + (t.pnlUsd ?? 0), 0);
+  const pnlUsd = pnls.reduce((a, b) => a + b, 0);
+  return {
+    trades: closed.length,
+    wins: winners.length,
+    losses: losers.length,
+    winRate: closed.length > 0 ? winners.length / closed.length : 0,
+    pnlUsd,
+    grossProfitUsd,
+    grossLossUsd,
+    profitFactor: grossLossUsd > 0 ? grossProfitUsd / grossLossUsd : null,
+    expectancyUsd: closed.length > 0 ? pnlUsd / closed.length : 0,
+    expectancyPct: closed.length > 0 ? mean(closed.map((t) => t.pnlPct ?? 0)) : 0,
+    averageWinUsd: average(winners.map((t) => t.pnlUsd ?? 0)),
+    averageLossUsd: average(losers.map((t) => t.pnlUsd ?? 0)),
+    averageWinPct: average(winners.map((t) => t.pnlPct ?? 0)),
+    averageLossPct: average(losers.map((t) => t.pnlPct ?? 0)),
+  };
+}
+
+function breakdown(closed: AnalyticsTrade[], keyOf: (t: AnalyticsTrade) => string): BreakdownRow[] {
+  const groups = new Map<string, AnalyticsTrade[]>();
+  for (const t of closed) {
+    const key = keyOf(t);
+    groups.set(key, [...(groups.get(key) ?? []), t]);
+  }
+  return [...groups.entries()]
+    .map(([key, group]) => ({ key, ...computeTradeStats(group) }))
+    .sort((a, b) => b.pnlUsd - a.pnlUsd);
+}
+
+function longestStreak(closed: AnalyticsTrade[], predicate: (pnl: number) => boolean): number {
+  let longest = 0;
+  let current = 0;
+  for (const t of closed) {
+    current = predicate(t.pnlUsd ?? 0) ? current + 1 : 0;
+    longest = Math.max(longest, current);
+  }
+  return longest;
+}
+
+/** Daily close-of-day equity from `fromMs` to `toMs`; days without closes carry the previous value. */
+function buildEquityCurve(closed: AnalyticsTrade[], startingEquity: number, fromMs: number, toMs: number): EquityPoint[] {
+  const pnlByDay = new Map<string, number>();
+  for (const t of closed) {
+    const day = t.closedAt!.slice(0, 10);
+    pnlByDay.set(day, (pnlByDay.get(day) ?? 0) + (t.pnlUsd ?? 0));
+  }
+  const curve: EquityPoint[] = [];
+  let equity = startingEquity;
+  const lastDay = new Date(toMs).toISOString().slice(0, 10);
+  for (let ms = Date.parse(new Date(fromMs).toISOString().slice(0, 10)); ; ms += DAY_MS) {
+    const date = new Date(ms).toISOString().slice(0, 10);
+    equity += pnlByDay.get(date) ?? 0;
+    curve.push({ date, equity });
+    if (date >= lastDay) break;
+  }
+  return curve;
+}
+
+function dailyReturns(curve: EquityPoint[], startingEquity: number): number[] {
+  const returns: number[] = [];
+  let previous = startingEquity;
+  for (const point of curve) {
+    if (previous > 0) returns.push(point.equity / previous - 1);
+    previous = point.equity;
+  }
+  return returns;
+}
+
+function maxDrawdownPct(curve: EquityPoint[], startingEquity: number): number {
+  let peak = startingEquity;
+  let worst = 0;
+  for (const { equity } of curve) {
+    peak = Math.max(peak, equity);
+    if (peak > 0) worst = Math.max(worst, ((peak - equity) / peak) * 100);
+  }
+  return worst;
+}
+
+/** Merged length of [openedAt, closedAt ?? to] intervals clipped to the period. */
+function exposureMs(all: AnalyticsTrade[], fromMs: number, toMs: number): number {
+  const intervals = all
+    .map((t) => [Math.max(Date.parse(t.openedAt), fromMs), Math.min(t.closedAt ? Date.parse(t.closedAt) : toMs, toMs)])
+    .filter(([start, end]) => end > start)
+    .sort((a, b) => a[0] - b[0]);
+  let total = 0;
+  let currentStart = -Infinity;
+  let currentEnd = -Infinity;
+  for (const [start, end] of intervals) {
+    if (start > currentEnd) {
+      if (currentEnd > currentStart) total += currentEnd - currentStart;
+      currentStart = start;
+      currentEnd = end;
+    } else {
+      currentEnd = Math.max(currentEnd, end);
+    }
+  }
+  if (currentEnd > currentStart) total += currentEnd - currentStart;
+  return total;
+}
+
+export function computeAnalytics(params: ComputeAnalyticsParams): PerformanceAnalytics {
+  const { initialBalance } = params;
+  const toMs = params.to ? Date.parse(params.to) : (params.now ?? new Date()).getTime();
+  const firstOpenMs = Math.min(...params.trades.map((t) => Date.parse(t.openedAt)));
+  const fromMs = params.from ? Date.parse(params.from) : Number.isFinite(firstOpenMs) ? Math.min(firstOpenMs, toMs) : toMs;
+
+  const closedAll = params.trades
+    .filter((t) => t.status === 'closed' && t.closedAt)
+    .sort((a, b) => a.closedAt!.localeCompare(b.closedAt!));
+  const closedBefore = closedAll.filter((t) => Date.parse(t.closedAt!) < fromMs);
+  const closed = closedAll.filter((t) => {
+    const closedMs = Date.parse(t.closedAt!);
+    return closedMs >= fromMs && closedMs <= toMs;
+  });
+  const inPeriod = params.trades.filter((t) => {
+    const openedMs = Date.parse(t.openedAt);
+    const closedMs = t.closedAt ? Date.parse(t.closedAt) : Infinity;
+    return openedMs <= toMs && closedMs >= fromMs;
+  });
+
+  const stats = computeTradeStats(closed);
+  const startingEquity = initialBalance + closedBefore.reduce((a, t) => a + (t.pnlUsd ?? 0), 0);
+  const endingEquity = startingEquity + stats.pnlUsd;
+  const totalReturnPct = startingEquity > 0 ? (endingEquity / startingEquity - 1) * 100 : 0;
+
+  const equityCurve = buildEquityCurve(closed, startingEquity, fromMs, toMs);
+  const returns = dailyReturns(equityCurve, startingEquity);
+  let sharpeRatio: number | null = null;
+  let sortinoRatio: number | null = null;
+  if (returns.length >= 2) {
+    const avg = mean(returns);
+    const stddev = Math.sqrt(returns.reduce((a, r) => a + (r - avg) ** 2, 0) / (returns.length - 1));
+    const downside = Math.sqrt(returns.reduce((a, r) => a + Math.min(r, 0) ** 2, 0) / returns.length);
+    const annualize = Math.sqrt(PERIODS_PER_YEAR);
+    sharpeRatio = stddev > 0 ? (avg / stddev) * annualize : null;
+    sortinoRatio = downside > 0 ? (avg / downside) * annualize : null;
+  }
+
+  const periodDays = (toMs - fromMs) / DAY_MS;
+  const annualizedReturnPct = periodDays >= 1 && startingEquity > 0 && endingEquity > 0
+    ? ((endingEquity / startingEquity) ** (PERIODS_PER_YEAR / periodDays) - 1) * 100
+    : null;
+  const drawdown = maxDrawdownPct(equityCurve, startingEquity);
+
+  return {
+    from: new Date(fromMs).toISOString(),
+    to: new Date(toMs).toISOString(),
+    ...stats,
+    openTrades: inPeriod.filter((t) => t.status === 'open').length,
+    startingEquity,
+    endingEquity,
+    totalReturnPct,
+    annualizedReturnPct,
+    sharpeRatio,
+    sortinoRatio,
+    calmarRatio: annualizedReturnPct !== null && drawdown > 0 ? annualizedReturnPct / drawdown : null,
+    maxDrawdownPct: drawdown,
+    longestWinningStreak: longestStreak(closed, (pnl) => pnl > 0),
+    longestLosingStreak: longestStreak(closed, (pnl) => pnl < 0),
+    timeInMarketPct: toMs > fromMs ? (exposureMs(inPeriod, fromMs, toMs) / (toMs - fromMs)) * 100 : 0,
+    equityCurve,
+    byPair: breakdown(closed, (t) => t.pair),
+    byStrategy: breakdown(closed, (t) => t.strategyUsed),
+  };
+}
@@ -47,7 +47,7 @@ export async function fetchCoinGeckoSpotUsd(env: Env, coinId: string, options?:
 async function fetchCoinGeckoMarketChart(
   env: Env,
   coinId: string,
-  days: 2 | 30,
+  days: number,
   interval: 'hourly' | 'daily',
   options?: CacheOptions,
 ): Promise<CoinGeckoMarketChartResponse | null> {
@@ -92,6 +92,22 @@ export async function resolveCoinGeckoSpotUsdForPair(env: Env, pairName: string,
   return fetchCoinGeckoSpotUsd(env, coinId, options);
 }
 
+/**
+ * The last `bars` hourly closes, oldest first. CoinGecko returns hourly points
+ * for ranges of 2–90 days, so this covers up to ~2000 bars.
+ */
+export async function resolveCoinGeckoHourlyPricesForPair(
+  env: Env,
+  pairName: string,
+  bars: number,
+  options?: CacheOptions,
+): Promise<number[]> {
+  const coinId = resolveCoinGeckoCoinIdForPair(pairName);
+  if (!coinId) return [];
+  const chart = await fetchCoinGeckoMarketChart(env, coinId, Math.max(2, Math.ceil(bars / 24) + 1), 'hourly', options);
+  return sanitizeSeries(chart?.prices, bars);
+}
+
 export async function resolveCoinGeckoMarketContextForPair(
   env: Env,
   pairName: string,
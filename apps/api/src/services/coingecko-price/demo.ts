@@ -25,6 +25,11 @@ function buildDemoSeries(spot: number, points: number, stepAmplitudePct: number)
   }).map((value) => (value > 0 ? value : spot));
 }
 
+/** `bars` demo hourly closes; [] for unsupported pairs. */
+export function resolveDemoHourlyPricesForPair(pairName: string, bars: number): number[] {
+  return buildDemoSeries(resolveDemoFallbackSpotUsdForPair(pairName), bars, 1.1);
+}
+
 export function resolveDemoMarketContextForPair(pairName: string): CoinGeckoMarketContext | null {
   const spotUsd = resolveDemoFallbackSpotUsdForPair(pairName);
   if (spotUsd <= 0) return null;
@@ -61,6 +61,28 @@ export async function resolveIndexedGeckoTerminalSpotUsdForPair(
   }
 }
 
+/** The last `bars` hourly closes of the pair's deepest stable pool, oldest first; [] when there is none. */
+export async function resolveIndexedGeckoTerminalHourlyPricesForPair(
+  env: Env,
+  pairName: string,
+  bars: number,
+  options?: CacheOptions,
+): Promise<number[]> {
+  try {
+    const network = resolveIndexedGeckoTerminalNetworkForPair(pairName);
+    const pool = await findIndexedGeckoPool(env, pairName, options);
+    if (!network || !pool) return [];
+
+    const geckoSvc = createGeckoTerminalService(env.CACHE, {
+      bypassCache: options?.bypassCache === true,
+      network,
+    });
+    return await geckoSvc.getPoolPriceSeries(pool.address, bars, 'hour');
+  } catch {
+    return [];
+  }
+}
+
 export async function resolveIndexedGeckoTerminalMarketContextForPair(
   env: Env,
   pairName: string,
@@ -6,11 +6,17 @@ export {
   resolveCoinPaprikaCoinIdForPair,
   selectSaneSpotPriceUsd,
 } from './shared.js';
-export { fetchCoinGeckoSpotUsd, resolveCoinGeckoMarketContextForPair, resolveCoinGeckoSpotUsdForPair } from './coingecko.js';
+export {
+  fetchCoinGeckoSpotUsd,
+  resolveCoinGeckoHourlyPricesForPair,
+  resolveCoinGeckoMarketContextForPair,
+  resolveCoinGeckoSpotUsdForPair,
+} from './coingecko.js';
 export { resolveCoinPaprikaMarketContextForPair, resolveCoinPaprikaSpotUsdForPair } from './coinpaprika.js';
-export { resolveDemoFallbackSpotUsdForPair, resolveDemoMarketContextForPair } from './demo.js';
+export { resolveDemoFallbackSpotUsdForPair, resolveDemoHourlyPricesForPair, resolveDemoMarketContextForPair } from './demo.js';
 export type { IndexedGeckoTerminalMarketContext } from './geckoterminal.js';
 export {
+  resolveIndexedGeckoTerminalHourlyPricesForPair,
   resolveIndexedGeckoTerminalMarketContextForPair,
   resolveIndexedGeckoTerminalNetworkForPair,
   resolveIndexedGeckoTerminalSpotUsdForPair,
@@ -0,0 +1,119 @@
+/**
+ * Agent config version history.
+ *
+ * Every write to `agents.config` goes through `recordConfigVersion`, which
+ * appends the new config as the next version (no-op when it matches the
+ * latest). Decisions store the id of the version they were made under so a
+ * trade can be traced back to the exact config that produced it.
+ */
+import { drizzle } from 'drizzle-orm/d1';
+import { and, desc, eq } from 'drizzle-orm';
+import { agentConfigVersions } from '../db/schema.js';
+import { generateId, nowIso } from '../lib/utils.js';
+
+type Db = ReturnType<typeof drizzle>;
+export type ConfigVersionRow = typeof agentConfigVersions.$inferSelect;
+
+export type ConfigVersionAuthor = 'user' | 'manager' | 'self_mod';
+
+export type RecordConfigVersionParams = {
+  agentId: string;
+  /** Stored config JSON, exactly as written to agents.config. */
+  config: string;
+  author: ConfigVersionAuthor;
+  /** Manager id or self-modification id behind the change. */
+  authorRef?: string | null;
+  note?: string | null;
+};
+
+/** One top-level key that differs between two configs; absent keys are undefined. */
+export type ConfigChange = {
+  key: string;
+  from: unknown;
+  to: unknown;
+};
+
+export async function getLatestConfigVersion(db: Db, agentId: string): Promise<ConfigVersionRow | null> {
+  const [latest] = await db
+    .select()
+    .from(agentConfigVersions)
+    .where(eq(agentConfigVersions.agentId, agentId))
+    .orderBy(desc(agentConfigVersions.version))
+    .limit(1);
+  return latest ?? null;
+}
+
+export async function getConfigVersion(db: Db, agentId: string, version: number): Promise<ConfigVersionRow | null> {
+  const [row] = await db
+    .select()
+    .from(agentConfigVersions)
+    .where(and(eq(agentConfigVersions.agentId, agentId), eq(agentConfigVersions.version, version)));
+  return row ?? null;
+}
+
+/** Inserts tried before a version-number race with another writer is given up. */
+const RECORD_VERSION_ATTEMPTS = 3;
+
+/** True when a D1 write failed on a UNIQUE index (drizzle may wrap the D1 error as the cause). */
+function isUniqueConstraintError(err: unknown): boolean {
+  for (let e: unknown = err; e instanceof Error; e = e.cause) {
+    if (/UNIQUE constraint failed/i.test(e.message)) return true;
+  }
+  return false;
+}
+
+/**
+ * Append `config` as the agent's next version. Returns the latest version
+ * unchanged when the config matches it. Version numbers are unique per agent
+ * (idx_agent_config_versions_agent_version), so when a concurrent writer
+ * takes the same number the insert fails and is retried on the new latest.
+ */
+export async function recordConfigVersion(db: Db, params: RecordConfigVersionParams): Promise<ConfigVersionRow> {
+  for (let attempt = 1; ; attempt++) {
+    const latest = await getLatestConfigVersion(db, params.agentId);
+    if (latest && latest.config === params.config) return latest;
+
+    const row: ConfigVersionRow = {
+      id: generateId('cfgv'),
+      agentId: params.agentId,
+      version: (latest?.version ?? 0) + 1,
+      config: params.config,
+      author: params.author,
+      authorRef: params.authorRef ?? null,
+      note: params.note ?? null,
+      createdAt: nowIso(),
+    };
+    try {
+      await db.insert(agentConfigVersions).values(row);
+      return row;
+    } catch (err) {
+      if (!isUniqueConstraintError(err) || attempt >= RECORD_VERSION_ATTEMPTS) throw err;
+    }
+  }
+}
+
+/**
+ * Id of the newest version whose config matches what the agent is running.
+ * The DO cache can briefly lag D1, so this matches on content rather than
+ * taking the latest version; null when no version matches.
+ */
+export async function resolveConfigVersionId(db: Db, agentId: string, config: string): Promise<string | null> {
+  const [row] = await db
+    .select({ id: agentConfigVersions.id })
+    .from(agentConfigVersions)
+    .where(and(eq(agentConfigVersions.agentId, agentId), eq(agentConfigVersions.config, config)))
+    .orderBy(desc(agentConfigVersions.version))
+    .limit(1);
+  return row?.id ?? null;
+}
+
+/** Top-level keys that differ between two configs, sorted by key. Values are compared structurally. */
+export function diffConfigs(from: Record<string, unknown>, to: Record<string, unknown>): ConfigChange[] {
+  const keys = [...new Set([...Object.keys(from), ...Object.keys(to)])].sort();
+  const changes: ConfigChange[] = [];
+  for (const key of keys) {
+    if (JSON.stringify(from[key]) === JSON.stringify(to[key])) continue;
+    changes.push({ key, from: from[key], to: to[key] });
+  }
+  return changes;
+}
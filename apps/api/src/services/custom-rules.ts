@@ -0,0 +1,253 @@
+/**
+ * Evaluates user-defined rules (parsed by the shared rule DSL) against the
+ * computed indicator set. Default-period calls read the precomputed
+ * IndicatorResult; other periods are computed from the bars on demand.
+ */
+import { ADX, ATR, BollingerBands, EMA, RSI, SMA, Stochastic } from 'technicalindicators';
+import { parseRuleExpression } from '@something-in-loop/shared';
+import type { CustomRule, RuleExpr } from '@something-in-loop/shared';
+import type { IndicatorBar, IndicatorResult, SignalResult } from './indicators.js';
+
+export type CustomRuleContext = {
+  rules: CustomRule[];
+  /** Bars the indicators were computed from, oldest first. */
+  bars: IndicatorBar[];
+};
+
+/** Thrown when an input the rule needs is not available yet (too few bars, no volume). */
+class MissingRuleDataError extends Error {}
+
+/**
+ * Parsed `when` per rule object. A parsed config keeps the same rule objects
+ * for every pair and bar it is evaluated on, so each rule is parsed once per
+ * config; null marks a rule that does not parse.
+ */
+const parsedRules = new WeakMap<CustomRule, RuleExpr | null>();
+
+function parseRule(rule: CustomRule): RuleExpr | null {
+  let parsed = parsedRules.get(rule);
+  if (parsed === undefined) {
+    try {
+      parsed = parseRuleExpression(rule.when);
+    } catch {
+      parsed = null;
+    }
+    parsedRules.set(rule, parsed);
+  }
+  return parsed;
+}
+
+type EvalContext = {
+  indicators: IndicatorResult;
+  bars: IndicatorBar[];
+  currentPrice: number;
+};
+
+function latest<T>(arr: T[] | undefined): T | undefined {
+  return arr && arr.length > 0 ? arr[arr.length - 1] : undefined;
+}
+
+function required(value: number | undefined, what: string): number {
+  if (value === undefined || !Number.isFinite(value)) throw new MissingRuleDataError(what);
+  return value;
+}
+
+function periodArg(args: number[], index: number, fallback: number): number {
+  return Math.round(args[index] ?? fallback);
+}
+
+function callFunction(name: string, args: number[], ctx: EvalContext): number {
+  const { indicators, bars } = ctx;
+  const high = () => bars.map((b) => b.h);
+  const low = () => bars.map((b) => b.l);
+  const close = () => bars.map((b) => b.c);
+
+  switch (name) {
+    case 'rsi': {
+      const period = periodArg(args, 0, 14);
+      if (period === 14 && indicators.rsi) return required(latest(indicators.rsi), 'rsi');
+      return required(latest(RSI.calculate({ period, values: close() })), `rsi(${period})`);
+    }
+    case 'ema': {
+      const period = periodArg(args, 0, 9);
+      if (period === 9 && indicators.ema9) return required(latest(indicators.ema9), 'ema');
+      if (period === 21 && indicators.ema21) return required(latest(indicators.ema21), 'ema');
+      return required(latest(EMA.calculate({ period, values: close() })), `ema(${period})`);
+    }
+    case 'sma': {
+      const period = periodArg(args, 0, 20);
+      if (period === 20 && indicators.sma20) return required(latest(indicators.sma20), 'sma');
+      return required(latest(SMA.calculate({ period, values: close() })), `sma(${period})`);
+    }
+    case 'atr': {
+      if (args.length === 0) return required(latest(indicators.atr), 'atr');
+      const period = periodArg(args, 0, 14);
+      if (bars.length <= period) throw new MissingRuleDataError(`atr(${period})`);
+      return required(latest(ATR.calculate({ period, high: high(), low: low(), close: close() })), `atr(${period})`);
+    }
+    case 'adx':
+    case 'pdi':
+    case 'mdi': {
+      const key = name === 'adx' ? 'adx' : name;
+      const value = args.length === 0
+        ? latest(indicators.adx)
+        : bars.length > periodArg(args, 0, 14) * 2
+          ? latest(ADX.calculate({ period: periodArg(args, 0, 14), high: high(), low: low(), close: close() }))
+          : undefined;
+      return required(value?.[key as 'adx' | 'pdi' | 'mdi'], name);
+    }
+    case 'stoch_k':
+    case 'stoch_d': {
+      const value = args.length === 0
+        ? latest(indicators.stochastic)
+        : latest(Stochastic.calculate({ period: periodArg(args, 0, 14), signalPeriod: 3, high: high(), low: low(), close: close() }));
+      return required(name === 'stoch_k' ? value?.k : value?.d, name);
+    }
+    case 'macd':
+      return required(latest(indicators.macd)?.MACD, 'macd');
+    case 'macd_signal':
+      return required(latest(indicators.macd)?.signal, 'macd_signal');
+    case 'macd_hist': {
+      const macd = latest(indicators.macd);
+      return required(macd?.MACD, 'macd') - required(macd?.signal, 'macd_signal');
+    }
+    case 'bb_upper':
+    case 'bb_middle':
+    case 'bb_lower': {
+      const period = periodArg(args, 0, 20);
+      const stdDev = args[1] ?? 2;
+      const band = period === 20 && stdDev === 2 && indicators.bollingerBands
+        ? latest(indicators.bollingerBands)
+        : latest(BollingerBands.calculate({ period, stdDev, values: close() }));
+      const key = name === 'bb_upper' ? 'upper' : name === 'bb_middle' ? 'middle' : 'lower';
+      return required(band?.[key], name);
+    }
+    case 'keltner_upper':
+      return required(latest(indicators.keltner)?.upper, name);
+    case 'keltner_lower':
+      return required(latest(indicators.keltner)?.lower, name);
+    case 'vwap':
+      return required(latest(indicators.vwap), 'vwap');
+    case 'obv':
+      return required(latest(indicators.obv), 'obv');
+    case 'change': {
+      const period = periodArg(args, 0, 1);
+      if (bars.length <= period) throw new MissingRuleDataError(`change(${period})`);
+      const then = bars[bars.length - 1 - period].c;
+      if (!(then > 0)) throw new MissingRuleDataError(`change(${period})`);
+      return ((bars[bars.length - 1].c - then) / then) * 100;
+    }
+    case 'highest':
+    case 'lowest': {
+      const window = bars.slice(-periodArg(args, 0, 1));
+      if (window.length === 0) throw new MissingRuleDataError(name);
+      return name === 'highest' ? Math.max(...window.map((b) => b.h)) : Math.min(...window.map((b) => b.l));
+    }
+    case 'abs':
+      return Math.abs(args[0]);
+    case 'min':
+      return Math.min(args[0], args[1]);
+    case 'max':
+      return Math.max(args[0], args[1]);
+    default:
+      throw new MissingRuleDataError(`unknown function ${name}`);
+  }
+}
+
+function evaluateNumber(expr: RuleExpr, ctx: EvalContext): number {
+  switch (expr.kind) {
+    case 'number':
+      return expr.value;
+    case 'variable': {
+      const bar = latest(ctx.bars);
+      if (expr.name === 'price') return ctx.currentPrice;
+      if (!bar) throw new MissingRuleDataError(expr.name);
+      if (expr.name === 'close') return bar.c;
+      if (expr.name === 'high') return bar.h;
+      if (expr.name === 'low') return bar.l;
+      return required(bar.v, 'volume');
+    }
+    case 'call':
+      return callFunction(expr.name, expr.args.map((arg) => evaluateNumber(arg, ctx)), ctx);
+    case 'negate':
+      return -evaluateNumber(expr.operand, ctx);
+    case 'arithmetic': {
+      const left = evaluateNumber(expr.left, ctx);
+      const right = evaluateNumber(expr.right, ctx);
+      if (expr.op === '+') return left + right;
+      if (expr.op === '-') return left - right;
+      if (expr.op === '*') return left * right;
+      return required(right === 0 ? undefined : left / right, 'division');
+    }
+    default:
+      throw new MissingRuleDataError('expected a number');
+  }
+}
+
+/** True/false for a parsed rule; throws MissingRuleDataError when an input is unavailable. */
+function evaluateCondition(expr: RuleExpr, ctx: EvalContext): boolean {
+  switch (expr.kind) {
+    case 'compare': {
+      const left = evaluateNumber(expr.left, ctx);
+      const right = evaluateNumber(expr.right, ctx);
+      switch (expr.op) {
+        case '<': return left < right;
+        case '<=': return left <= right;
+        case '>': return left > right;
+        case '>=': return left >= right;
+        case '==': return left === right;
+        default: return left !== right;
+      }
+    }
+    case 'not':
+      return !evaluateCondition(expr.operand, ctx);
+    case 'logical':
+      return expr.op === 'and'
+        ? evaluateCondition(expr.left, ctx) && evaluateCondition(expr.right, ctx)
+        : evaluateCondition(expr.left, ctx) || evaluateCondition(expr.right, ctx);
+    default:
+      throw new MissingRuleDataError('expected a condition');
+  }
+}
+
+/**
+ * Evaluate a rule expression (source or already parsed): true/false, or null
+ * when the data it needs is not there yet. Syntax errors are rejected when the
+ * config is saved, so one that slips through (e.g. a hand-edited row) also
+ * yields null.
+ */
+export function evaluateRuleExpression(
+  source: string | RuleExpr,
+  indicators: IndicatorResult,
+  bars: IndicatorBar[],
+  currentPrice: number,
+): boolean | null {
+  try {
+    const expr = typeof source === 'string' ? parseRuleExpression(source) : source;
+    return evaluateCondition(expr, { indicators, bars, currentPrice });
+  } catch {
+    return null;
+  }
+}
+
+/** One signal per custom rule, strategy `custom:<name>`, shaped like the built-in signals. */
+export function evaluateCustomRules(
+  indicators: IndicatorResult,
+  currentPrice: number,
+  context: CustomRuleContext,
+): SignalResult[] {
+  return context.rules.map((rule) => {
+    const strategy = `custom:${rule.name}`;
+    const expr = parseRule(rule);
+    const fired = expr ? evaluateRuleExpression(expr, indicators, context.bars, currentPrice) : null;
+    if (fired) {
+      return { strategy, signal: rule.side, confidence: rule.confidence, reason: `Rule "${rule.name}" triggered (${rule.when})` };
+    }
+    return {
+      strategy,
+      signal: 'hold' as const,
+      confidence: 0.5,
+      reason: fired === null ? `Rule "${rule.name}" skipped — not enough data` : `Rule "${rule.name}" not triggered`,
+    };
+  });
+}
@@ -0,0 +1,76 @@
+/**
+ * Paper fill model — price impact and swap fees for simulated DEX fills.
+ *
+ * `flat` keeps the legacy behaviour: a fixed slippageSimulation % and no fees.
+ * `liquidity` derives impact from pool TVL and order size (constant-product
+ * approximation) and charges the DEX's swap fee tier on entry and exit.
+ */
+
+export type FillModel = 'flat' | 'liquidity';
+
+export interface FillQuote {
+  /** Price impact applied to the fill price, in % (PaperEngine slippagePct). */
+  slippagePct: number;
+  /** Swap fee charged on each leg, in % of notional. */
+  feePct: number;
+}
+
+const STABLE_SYMBOLS = new Set(['USD', 'USDC', 'USDBC', 'USDT', 'DAI', 'EURC']);
+const MAJOR_SYMBOLS = new Set(['WETH', 'ETH', 'CBBTC', 'WBTC', 'CBETH', 'WSTETH', ...STABLE_SYMBOLS]);
+
+/** Fee tiers in %: stable/stable, majors, everything else. */
+const DEX_FEE_TIERS: Record<string, { stable: number; major: number; other: number }> = {
+  // Aerodrome: stable pools 0.05%, volatile pools 0.3%
+  aerodrome: { stable: 0.05, major: 0.3, other: 0.3 },
+  // Uniswap v3: 0.01% stable, 0.05% blue-chip, 0.3% long tail
+  'uniswap-v3': { stable: 0.01, major: 0.05, other: 0.3 },
+};
+const DEFAULT_FEE_TIERS = DEX_FEE_TIERS['uniswap-v3'];
+
+/** Cap so a missing-liquidity edge case cannot produce an absurd fill. */
+const MAX_IMPACT_PCT = 50;
+
+function pairSymbols(pair: string): string[] {
+  return pair.split('/').map((s) => s.trim().toUpperCase()).filter(Boolean);
+}
+
+/** Swap fee (%) for `pair` on `dex`, picked from the DEX's fee tiers. */
+export function resolveSwapFeePct(dex: string, pair: string): number {
+  const tiers = DEX_FEE_TIERS[dex] ?? DEFAULT_FEE_TIERS;
+  const symbols = pairSymbols(pair);
+  if (symbols.length === 2 && symbols.every((s) => STABLE_SYMBOLS.has(s))) return tiers.stable;
+  if (symbols.length === 2 && symbols.every((s) => MAJOR_SYMBOLS.has(s))) return tiers.major;
+  return tiers.other;
+}
+
+/**
+ * Price impact (%) of swapping `amountUsd` through a pool with `liquidityUsd` TVL.
+ * Treats half the TVL as the reserve on the side being bought (x·y = k):
+ * impact = amount / (reserve + amount).
+ */
+export function estimatePriceImpactPct(amountUsd: number, liquidityUsd: number): number {
+  if (!(amountUsd > 0) || !(liquidityUsd > 0)) return 0;
+  const reserveUsd = liquidityUsd / 2;
+  return Math.min(MAX_IMPACT_PCT, (amountUsd / (reserveUsd + amountUsd)) * 100);
+}
+
+/**
+ * Quote impact + fee for one fill. Under `liquidity`, pools without a known
+ * TVL fall back to the flat slippage for impact but still pay the swap fee.
+ */
+export function quoteFill(params: {
+  model: FillModel;
+  dex: string;
+  pair: string;
+  amountUsd: number;
+  liquidityUsd?: number;
+  flatSlippagePct: number;
+}): FillQuote {
+  if (params.model === 'flat') {
+    return { slippagePct: params.flatSlippagePct, feePct: 0 };
+  }
+  const slippagePct = params.liquidityUsd && params.liquidityUsd > 0
+    ? estimatePriceImpactPct(params.amountUsd, params.liquidityUsd)
+    : params.flatSlippagePct;
+  return { slippagePct, feePct: resolveSwapFeePct(params.dex, params.pair) };
+}
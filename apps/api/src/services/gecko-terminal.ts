@@ -139,6 +139,8 @@ export interface OHLCVCandle {
   h: number;
   l: number;
   c: number;
+  /** Volume in USD over the candle. */
+  v?: number;
 }
 
 // ─── Client ───────────────────────────────────────────────────────────────────
@@ -230,19 +232,30 @@ export function createGeckoTerminalService(
   }
 
   /**
-   * Fetch OHLCV close prices for a pool.
-   * @param timeframe 'hour' (default) or 'day'
-   * Returns close prices oldest→newest (ready for technicalindicators).
+   * Fetch OHLCV candles for agent analysis (oldest→newest). Cached under the
+   * agent `gecko:ohlcv:*` key at MARKET_DATA_CACHE_TTL_SECONDS, shared with
+   * getPoolPriceSeries — not the chart-display key.
    */
-  async function getPoolPriceSeries(address: string, limit = 48, timeframe: 'hour' | 'day' = 'hour'): Promise<number[]> {
+  async function getPoolCandles(address: string, limit = 48, timeframe: 'hour' | 'day' = 'hour'): Promise<OHLCVCandle[]> {
     const cacheKey = geckoOhlcvKey(address, timeframe, limit, network);
     const url =
       `${GECKO_BASE}/networks/${encodeURIComponent(network)}/pools/${address}`
       + `/ohlcv/${timeframe}?limit=${limit}&currency=usd`;
     const data = await cachedFetch(cacheKey, url, GeckoOHLCVSchema);
     // ohlcv_list is newest-first; reverse to oldest-first for TA libraries
-    const closes = data.data.attributes.ohlcv_list.map(([, , , , close]) => close).reverse();
-    return closes;
+    return data.data.attributes.ohlcv_list
+      .map(([t, o, h, l, c, v]) => ({ t: t * 1000, o, h, l, c, v }))
+      .reverse();
+  }
+
+  /**
+   * Fetch OHLCV close prices for a pool.
+   * @param timeframe 'hour' (default) or 'day'
+   * Returns close prices oldest→newest (ready for technicalindicators).
+   */
+  async function getPoolPriceSeries(address: string, limit = 48, timeframe: 'hour' | 'day' = 'hour'): Promise<number[]> {
+    const candles = await getPoolCandles(address, limit, timeframe);
+    return candles.map((candle) => candle.c);
   }
 
   /**
@@ -260,9 +273,9 @@ export function createGeckoTerminalService(
       + `/ohlcv/${timeframe}?limit=${limit}&currency=usd`;
     const data = await cachedFetch(cacheKey, url, GeckoOHLCVSchema, CHART_DISPLAY_CACHE_TTL_SECONDS);
     return data.data.attributes.ohlcv_list
-      .map(([t, o, h, l, c]) => ({ t: t * 1000, o, h, l, c }))
+      .map(([t, o, h, l, c, v]) => ({ t: t * 1000, o, h, l, c, v }))
       .reverse(); // oldest first
   }
 
-  return { searchPools, getPoolPriceSeries, getPoolOHLCV };
+  return { searchPools, getPoolCandles, getPoolPriceSeries, getPoolOHLCV };
 }
@@ -8,7 +8,47 @@ import {
   MACD,
   BollingerBands,
   SMA,
+  ATR,
+  VWAP,
+  Stochastic,
+  ADX,
+  OBV,
+  IchimokuCloud,
+  KeltnerChannels,
 } from 'technicalindicators';
+import { IndicatorPeriodsSchema } from '@something-in-loop/shared';
+import type { IndicatorPeriods } from '@something-in-loop/shared';
+import { evaluateCustomRules } from './custom-rules.js';
+import type { CustomRuleContext } from './custom-rules.js';
+
+export const DEFAULT_INDICATOR_PERIODS: IndicatorPeriods = IndicatorPeriodsSchema.parse({});
+
+/**
+ * Strategies read from the OHLCV indicators. Their signals count toward a
+ * verdict only when the agent lists them by name: `combined` keeps meaning the
+ * original RSI/EMA/MACD/Bollinger set, so existing agents trade as before.
+ */
+export const OHLCV_STRATEGIES: ReadonlySet<string> = new Set([
+  'stochastic_cross',
+  'adx_trend',
+  'vwap_reversion',
+  'obv_trend',
+  'keltner_breakout',
+  'ichimoku_cloud',
+]);
+
+/** Drop OHLCV-indicator signals the agent has not opted into (see OHLCV_STRATEGIES). */
+export function dropUnlistedOhlcvSignals(signals: SignalResult[], strategies: readonly string[] = []): SignalResult[] {
+  return signals.filter((signal) => !OHLCV_STRATEGIES.has(signal.strategy) || strategies.includes(signal.strategy));
+}
+
+/** One OHLCV bar; `v` (volume) is optional because close-only sources have none. */
+export interface IndicatorBar {
+  h: number;
+  l: number;
+  c: number;
+  v?: number;
+}
 
 export interface IndicatorResult {
   rsi?: number[];
@@ -17,6 +57,15 @@ export interface IndicatorResult {
   macd?: MACDResult[];
   bollingerBands?: BollingerResult[];
   sma20?: number[];
+  atr?: number[];
+  /** Cumulative VWAP over the window; volume-bearing bars only. */
+  vwap?: number[];
+  stochastic?: StochasticResult[];
+  adx?: AdxResult[];
+  /** On-balance volume; volume-bearing bars only. */
+  obv?: number[];
+  ichimoku?: IchimokuResult[];
+  keltner?: KeltnerResult[];
 }
 
 export interface MACDResult {
@@ -32,6 +81,30 @@ export interface BollingerResult {
   pb?: number; // percent bandwidth
 }
 
+export interface StochasticResult {
+  k: number;
+  d: number;
+}
+
+export interface AdxResult {
+  adx: number;
+  pdi: number;
+  mdi: number;
+}
+
+export interface IchimokuResult {
+  conversion: number;
+  base: number;
+  spanA: number;
+  spanB: number;
+}
+
+export interface KeltnerResult {
+  middle: number;
+  upper: number;
+  lower: number;
+}
+
 export interface SignalResult {
   strategy: string;
   signal: 'buy' | 'sell' | 'hold';
@@ -40,14 +113,25 @@ export interface SignalResult {
 }
 
 /**
- * Compute all configured indicators from a price series.
- * Requires at least 26 prices for MACD; fewer returns partial results.
+ * Compute all configured indicators from a close series or OHLCV bars.
+ * Close-only input is treated as h = l = c, and VWAP/OBV need volume on every
+ * bar. Each indicator is skipped until the series covers its period (26 prices
+ * for MACD, 52 bars for the default Ichimoku span), so short series return
+ * partial results.
  */
-export function computeIndicators(prices: number[]): IndicatorResult {
-  if (prices.length < 2) {
+export function computeIndicators(
+  series: number[] | IndicatorBar[],
+  periodOverrides: Partial<IndicatorPeriods> = {},
+): IndicatorResult {
+  if (series.length < 2) {
     return {};
   }
 
+  const bars: IndicatorBar[] = series.map((point) => (typeof point === 'number' ? { h: point, l: point, c: point } : point));
+  const prices = bars.map((b) => b.c);
+  const high = bars.map((b) => b.h);
+  const low = bars.map((b) => b.l);
+  const periods = { ...DEFAULT_INDICATOR_PERIODS, ...periodOverrides };
   const result: IndicatorResult = {};
 
   // RSI (period 14 — needs 15+ prices)
@@ -89,9 +173,82 @@ export function computeIndicators(prices: number[]): IndicatorResult {
     result.sma20 = SMA.calculate({ period: 20, values: prices });
   }
 
+  // ATR
+  if (bars.length > periods.atr) {
+    result.atr = ATR.calculate({ period: periods.atr, high, low, close: prices });
+  }
+
+  // Stochastic %K / %D
+  if (bars.length >= periods.stochastic + periods.stochasticSignal) {
+    result.stochastic = Stochastic.calculate({
+      period: periods.stochastic,
+      signalPeriod: periods.stochasticSignal,
+      high,
+      low,
+      close: prices,
+    }).filter((s) => Number.isFinite(s.k) && Number.isFinite(s.d));
+  }
+
+  // ADX / DMI (Wilder smoothing twice — needs two periods)
+  if (bars.length > periods.adx * 2) {
+    result.adx = ADX.calculate({ period: periods.adx, high, low, close: prices });
+  }
+
+  // Keltner Channels (EMA middle, ATR bands)
+  if (bars.length > Math.max(periods.keltner, periods.atr)) {
+    result.keltner = KeltnerChannels.calculate({
+      maPeriod: periods.keltner,
+      atrPeriod: periods.atr,
+      useSMA: false,
+      multiplier: periods.keltnerMultiplier,
+      high,
+      low,
+      close: prices,
+    });
+  }
+
+  // Ichimoku (unshifted lines; the cloud is read against the current price)
+  const ichimokuBars = Math.max(periods.ichimokuConversion, periods.ichimokuBase, periods.ichimokuSpan);
+  if (bars.length >= ichimokuBars) {
+    result.ichimoku = IchimokuCloud.calculate({
+      conversionPeriod: periods.ichimokuConversion,
+      basePeriod: periods.ichimokuBase,
+      spanPeriod: periods.ichimokuSpan,
+      displacement: periods.ichimokuBase,
+      high,
+      low,
+    });
+  }
+
+  // Volume-weighted indicators
+  if (bars.every((b) => b.v !== undefined && b.v >= 0)) {
+    const volume = bars.map((b) => b.v ?? 0);
+    result.vwap = VWAP.calculate({ high, low, close: prices, volume });
+    result.obv = OBV.calculate({ close: prices, volume });
+  }
+
   return result;
 }
 
+/**
+ * Latest Average True Range (Wilder, default period 14) from OHLC bars.
+ * Close-only series can pass h = l = c, which reduces the true range to the
+ * absolute close-to-close move. Returns undefined with too few bars.
+ */
+export function computeAtr(
+  bars: Array<{ h: number; l: number; c: number }>,
+  period = 14,
+): number | undefined {
+  if (bars.length <= period) return undefined;
+  const values = ATR.calculate({
+    period,
+    high: bars.map((b) => b.h),
+    low: bars.map((b) => b.l),
+    close: bars.map((b) => b.c),
+  });
+  return latest(values);
+}
+
 /** Get the latest value from an array (or undefined if empty) */
 function latest<T>(arr: T[] | undefined): T | undefined {
   return arr && arr.length > 0 ? arr[arr.length - 1] : undefined;
@@ -99,11 +256,12 @@ function latest<T>(arr: T[] | undefined): T | undefined {
 
 /**
  * Evaluate signals from computed indicators.
- * Returns one signal per strategy.
+ * Returns one signal per strategy, plus one per custom rule when given.
  */
 export function evaluateSignals(
   indicators: IndicatorResult,
-  currentPrice: number
+  currentPrice: number,
+  customRules?: CustomRuleContext,
 ): SignalResult[] {
   const signals: SignalResult[] = [];
 
@@ -244,6 +402,172 @@ export function evaluateSignals(
     }
   }
 
+  // Stochastic %K/%D turn in the extreme zones
+  const stoch = latest(indicators.stochastic);
+  if (stoch !== undefined) {
+    if (stoch.k < 20 && stoch.k > stoch.d) {
+      signals.push({
+        strategy: 'stochastic_cross',
+        signal: 'buy',
+        confidence: 0.68,
+        reason: `Stochastic %K ${stoch.k.toFixed(1)} turning up through %D ${stoch.d.toFixed(1)} below 20`,
+      });
+    } else if (stoch.k > 80 && stoch.k < stoch.d) {
+      signals.push({
+        strategy: 'stochastic_cross',
+        signal: 'sell',
+        confidence: 0.68,
+        reason: `Stochastic %K ${stoch.k.toFixed(1)} turning down through %D ${stoch.d.toFixed(1)} above 80`,
+      });
+    } else {
+      signals.push({
+        strategy: 'stochastic_cross',
+        signal: 'hold',
+        confidence: 0.5,
+        reason: `Stochastic %K ${stoch.k.toFixed(1)} / %D ${stoch.d.toFixed(1)} — no extreme-zone turn`,
+      });
+    }
+  }
+
+  // ADX trend strength with DMI direction
+  const adx = latest(indicators.adx);
+  if (adx !== undefined) {
+    if (adx.adx >= 25 && adx.pdi !== adx.mdi) {
+      const bullish = adx.pdi > adx.mdi;
+      signals.push({
+        strategy: 'adx_trend',
+        signal: bullish ? 'buy' : 'sell',
+        confidence: Math.min(0.85, 0.6 + (adx.adx - 25) / 100),
+        reason: `ADX ${adx.adx.toFixed(1)} — strong ${bullish ? 'up' : 'down'}trend (+DI ${adx.pdi.toFixed(1)} / -DI ${adx.mdi.toFixed(1)})`,
+      });
+    } else {
+      signals.push({
+        strategy: 'adx_trend',
+        signal: 'hold',
+        confidence: 0.5,
+        reason: `ADX ${adx.adx.toFixed(1)} below 25 — no established trend`,
+      });
+    }
+  }
+
+  // VWAP mean reversion, measured in ATRs
+  const vwap = latest(indicators.vwap);
+  const atr = latest(indicators.atr);
+  if (vwap !== undefined && atr !== undefined && atr > 0) {
+    const deviation = (currentPrice - vwap) / atr;
+    if (deviation <= -2) {
+      signals.push({
+        strategy: 'vwap_reversion',
+        signal: 'buy',
+        confidence: 0.65,
+        reason: `Price ${Math.abs(deviation).toFixed(1)} ATR below VWAP ${vwap.toFixed(4)}`,
+      });
+    } else if (deviation >= 2) {
+      signals.push({
+        strategy: 'vwap_reversion',
+        signal: 'sell',
+        confidence: 0.65,
+        reason: `Price ${deviation.toFixed(1)} ATR above VWAP ${vwap.toFixed(4)}`,
+      });
+    } else {
+      signals.push({
+        strategy: 'vwap_reversion',
+        signal: 'hold',
+        confidence: 0.5,
+        reason: `Price within 2 ATR of VWAP (${deviation >= 0 ? '+' : ''}${deviation.toFixed(2)} ATR)`,
+      });
+    }
+  }
+
+  // OBV against its own 10-bar average — accumulation vs distribution
+  if (indicators.obv && indicators.obv.length >= 10) {
+    const obv = indicators.obv[indicators.obv.length - 1];
+    const obvAvg = indicators.obv.slice(-10).reduce((sum, v) => sum + v, 0) / 10;
+    const spread = Math.abs(obvAvg) > 0 ? (obv - obvAvg) / Math.abs(obvAvg) : 0;
+    if (spread > 0.05) {
+      signals.push({
+        strategy: 'obv_trend',
+        signal: 'buy',
+        confidence: 0.6,
+        reason: `OBV ${(spread * 100).toFixed(1)}% above its 10-bar average — accumulation`,
+      });
+    } else if (spread < -0.05) {
+      signals.push({
+        strategy: 'obv_trend',
+        signal: 'sell',
+        confidence: 0.6,
+        reason: `OBV ${(-spread * 100).toFixed(1)}% below its 10-bar average — distribution`,
+      });
+    } else {
+      signals.push({
+        strategy: 'obv_trend',
+        signal: 'hold',
+        confidence: 0.5,
+        reason: 'OBV flat against its 10-bar average',
+      });
+    }
+  }
+
+  // Keltner Channel breakout
+  const keltner = latest(indicators.keltner);
+  if (keltner !== undefined) {
+    if (currentPrice > keltner.upper) {
+      signals.push({
+        strategy: 'keltner_breakout',
+        signal: 'buy',
+        confidence: 0.7,
+        reason: `Price broke above upper Keltner Channel (${keltner.upper.toFixed(4)})`,
+      });
+    } else if (currentPrice < keltner.lower) {
+      signals.push({
+        strategy: 'keltner_breakout',
+        signal: 'sell',
+        confidence: 0.7,
+        reason: `Price broke below lower Keltner Channel (${keltner.lower.toFixed(4)})`,
+      });
+    } else {
+      signals.push({
+        strategy: 'keltner_breakout',
+        signal: 'hold',
+        confidence: 0.5,
+        reason: 'Price inside the Keltner Channel',
+      });
+    }
+  }
+
+  // Ichimoku: price vs cloud, confirmed by conversion/base
+  const ichimoku = latest(indicators.ichimoku);
+  if (ichimoku !== undefined) {
+    const cloudTop = Math.max(ichimoku.spanA, ichimoku.spanB);
+    const cloudBottom = Math.min(ichimoku.spanA, ichimoku.spanB);
+    if (currentPrice > cloudTop && ichimoku.conversion > ichimoku.base) {
+      signals.push({
+        strategy: 'ichimoku_cloud',
+        signal: 'buy',
+        confidence: 0.72,
+        reason: `Price above Ichimoku cloud with conversion > base (${ichimoku.conversion.toFixed(4)} > ${ichimoku.base.toFixed(4)})`,
+      });
+    } else if (currentPrice < cloudBottom && ichimoku.conversion < ichimoku.base) {
+      signals.push({
+        strategy: 'ichimoku_cloud',
+        signal: 'sell',
+        confidence: 0.72,
+        reason: `Price below Ichimoku cloud with conversion < base (${ichimoku.conversion.toFixed(4)} < ${ichimoku.base.toFixed(4)})`,
+      });
+    } else {
+      signals.push({
+        strategy: 'ichimoku_cloud',
+        signal: 'hold',
+        confidence: 0.5,
+        reason: 'Price inside the Ichimoku cloud or lines disagree',
+      });
+    }
+  }
+
+  if (customRules && customRules.rules.length > 0) {
+    signals.push(...evaluateCustomRules(indicators, currentPrice, customRules));
+  }
+
   return signals;
 }
 
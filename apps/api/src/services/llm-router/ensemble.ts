@@ -0,0 +1,65 @@
+import type { EnsemblePolicy, TradeDecision } from '@something-in-loop/shared';
+import type { LLMRouterConfig } from './types.js';
+
+/** Prefix of the llmModel recorded on ensemble decisions, e.g. `ensemble:majority`. */
+export const ENSEMBLE_MODEL_PREFIX = 'ensemble:';
+
+/** Fewest answering members a consensus may be built from. */
+export const ENSEMBLE_QUORUM = 2;
+
+/** A member with resolved credentials, or one that is skipped this tick (e.g. no API key). */
+export type EnsembleMember = { model: string; config: LLMRouterConfig } | { model: string; unavailable: string };
+
+export type EnsembleBallot = { model: string; decision: TradeDecision };
+
+const PAIR_ACTIONS = new Set<TradeDecision['action']>(['buy', 'sell', 'add', 'reduce']);
+
+export function ensembleModelLabel(policy: EnsemblePolicy): string {
+  return `${ENSEMBLE_MODEL_PREFIX}${policy}`;
+}
+
+/** Votes only agree when they pick the same action on the same pair; `close` and `hold` ignore the pair. */
+function ballotKey(decision: TradeDecision): string {
+  if (!PAIR_ACTIONS.has(decision.action)) return decision.action;
+  return `${decision.action} ${decision.targetPair?.trim().toUpperCase() ?? ''}`.trim();
+}
+
+/**
+ * Aggregate member decisions by policy. The winning group's most confident
+ * member supplies the sizing and order fields; confidence is the group's mean.
+ * `unanimous` needs a ballot from each of `memberCount` members, so a member
+ * that failed to answer blocks it. Without consensus the ensemble holds.
+ */
+export function aggregateEnsembleDecisions(
+  ballots: EnsembleBallot[],
+  policy: EnsemblePolicy,
+  memberCount = ballots.length,
+): TradeDecision {
+  const groups = new Map<string, EnsembleBallot[]>();
+  for (const ballot of ballots) {
+    const key = ballotKey(ballot.decision);
+    groups.set(key, [...(groups.get(key) ?? []), ballot]);
+  }
+  const weight = (group: EnsembleBallot[]) => group.reduce((sum, b) => sum + b.decision.confidence, 0);
+  const ranked = [...groups.values()].sort((a, b) =>
+    policy === 'confidence_weighted' ? weight(b) - weight(a) : b.length - a.length || weight(b) - weight(a),
+  );
+  const tally = [...groups.entries()].map(([key, group]) => `${key} ×${group.length}`).join(', ');
+
+  let winner: EnsembleBallot[] | null = null;
+  const [top, runnerUp] = ranked;
+  if (policy === 'majority' && top && top.length * 2 > ballots.length) winner = top;
+  if (policy === 'confidence_weighted' && top && (!runnerUp || weight(top) > weight(runnerUp))) winner = top;
+  if (policy === 'unanimous' && ranked.length === 1 && ballots.length === memberCount) winner = top;
+
+  if (!winner) {
+    const across = ballots.length < memberCount ? `${ballots.length}/${memberCount}` : `${ballots.length}`;
+    return { action: 'hold', confidence: 0, reasoning: `No ${policy} consensus across ${across} models (${tally}).` };
+  }
+  const lead = winner.reduce((best, b) => (b.decision.confidence > best.decision.confidence ? b : best));
+  return {
+    ...lead.decision,
+    confidence: weight(winner) / winner.length,
+    reasoning: `Ensemble ${policy}: ${winner.length}/${ballots.length} models agree (${tally}). ${lead.model}: ${lead.decision.reasoning}`,
+  };
+}
@@ -1,4 +1,5 @@
 import { generateText } from 'ai';
+import type { EnsemblePolicy, TeamRole } from '@something-in-loop/shared';
 import { sleep } from '../../lib/utils.js';
 import { classifyLlmError } from '../../lib/agent-errors.js';
 import {
@@ -11,21 +12,39 @@ import {
 import {
   buildPerpJsonSchemaInstruction,
   buildPerpTradeDecisionPrompt,
+  buildTeamAnalystPrompt,
+  buildTeamExecutorPrompt,
+  buildTeamRiskOfficerPrompt,
   buildTradeDecisionPrompt,
   previewPromptForLogs,
 } from './request-builders.js';
-import { parsePerpTradeDecisionResponse, parseTradeDecisionResponse } from './response-parsers.js';
+import {
+  parseAnalystThesisResponse,
+  parsePerpTradeDecisionResponse,
+  parseRiskVerdictResponse,
+  parseTradeDecisionResponse,
+} from './response-parsers.js';
+import { aggregateEnsembleDecisions, ENSEMBLE_QUORUM, ensembleModelLabel } from './ensemble.js';
+import type { EnsembleBallot, EnsembleMember } from './ensemble.js';
+import { applyRiskVerdict, formatAnalystThesis, formatRiskVerdict, teamModelLabel } from './team.js';
+import type { TeamMembers } from './team.js';
 import type {
+  EnsembleVote,
   LLMRouterConfig,
   LlmDecisionMetadata,
   PerpTradeDecisionRequest,
   PerpTradeDecisionResult,
+  TeamTurn,
   TradeDecisionRequest,
   TradeDecisionResult,
 } from './types.js';
 
-export type { LLMRouterConfig, PerpTradeDecisionRequest, TradeDecisionRequest } from './types.js';
+export type { EnsembleVote, LLMRouterConfig, PerpTradeDecisionRequest, TeamTurn, TradeDecisionRequest } from './types.js';
 export { buildPerpJsonSchemaInstruction } from './request-builders.js';
+export { aggregateEnsembleDecisions, ENSEMBLE_MODEL_PREFIX, ensembleModelLabel } from './ensemble.js';
+export type { EnsembleBallot, EnsembleMember } from './ensemble.js';
+export { applyRiskVerdict, TEAM_LLM_CALLS, TEAM_MODEL_PREFIX, teamModelLabel } from './team.js';
+export type { TeamMember, TeamMembers } from './team.js';
 
 const MODEL_HEALTH_ECHO = 'model-health-check';
 
@@ -52,6 +71,166 @@ export async function getTradeDecision(
   return result as TradeDecisionResult;
 }
 
+/**
+ * Multi-model consensus: ask every ensemble member in parallel (no per-member
+ * fallback) and aggregate their decisions by policy. Throws when fewer than
+ * ENSEMBLE_QUORUM members answer.
+ */
+export async function getEnsembleTradeDecision(
+  members: EnsembleMember[],
+  request: TradeDecisionRequest,
+  policy: EnsemblePolicy,
+): Promise<TradeDecisionResult> {
+  const startTime = Date.now();
+  const answers = await Promise.all(
+    members.map(async (member) => {
+      if ('unavailable' in member) return { model: member.model, error: member.unavailable };
+      try {
+        return { model: member.model, result: await getTradeDecision(member.config, request) };
+      } catch (err) {
+        return { model: member.model, error: err instanceof Error ? err.message : String(err) };
+      }
+    }),
+  );
+
+  const votes: EnsembleVote[] = answers.map((answer) => ({
+    model: answer.model,
+    action: answer.result?.action ?? null,
+    targetPair: answer.result?.targetPair ?? null,
+    confidence: answer.result?.confidence ?? null,
+    reasoning: answer.result?.reasoning ?? null,
+    latencyMs: answer.result?.latencyMs ?? 0,
+    tokensUsed: answer.result?.tokensUsed ?? null,
+    error: answer.error ?? null,
+  }));
+  const results = answers.flatMap((answer) => (answer.result ? [answer.result] : []));
+  if (results.length < ENSEMBLE_QUORUM) {
+    const failures = votes.filter((v) => v.error).map((v) => `${v.model}: ${v.error}`).join('; ');
+    throw new Error(`Ensemble quorum not met (${results.length}/${members.length} models answered). ${failures}`);
+  }
+
+  const ballots: EnsembleBallot[] = results.map((result) => ({ model: result.modelUsed, decision: result }));
+  const decision = aggregateEnsembleDecisions(ballots, policy, members.length);
+
+  return {
+    ...decision,
+    latencyMs: Date.now() - startTime,
+    ...sumTokenUsage(results),
+    modelUsed: ensembleModelLabel(policy),
+    llmPromptText: results[0].llmPromptText,
+    llmRawResponse: JSON.stringify(decision),
+    ensembleVotes: votes,
+  };
+}
+
+/**
+ * Agent team decision: analyst, risk officer and executor answer in turn, each
+ * with its own model and role text. The risk verdict is enforced on the
+ * executor's answer (applyRiskVerdict). A failed role fails the decision; the
+ * stored prompt and raw response are the executor's.
+ */
+export async function getTeamTradeDecision(
+  members: TeamMembers,
+  request: TradeDecisionRequest,
+): Promise<TradeDecisionResult> {
+  const startTime = Date.now();
+  const turns: Array<LlmDecisionMetadata & { role: TeamRole; content: string }> = [];
+  const runRole = async <TParsed>(
+    role: TeamRole,
+    prompt: { fullPrompt: string; userPrompt: string },
+    parseResponse: (text: string) => TParsed,
+  ): Promise<TParsed & LlmDecisionMetadata> => {
+    const member = members[role];
+    try {
+      return await runStructuredDecision({
+        config: member.config,
+        fullPrompt: prompt.fullPrompt,
+        userPrompt: prompt.userPrompt,
+        logPrefix: `[llm-router:team:${role}]`,
+        parseResponse,
+      });
+    } catch (err) {
+      throw new Error(`Team ${role} (${member.model}) failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const analyst = await runRole('analyst', buildTeamAnalystPrompt(request, members.analyst.roleMd), parseAnalystThesisResponse);
+  const thesis = formatAnalystThesis(analyst);
+  turns.push({ ...analyst, role: 'analyst', content: thesis });
+
+  const riskOfficer = await runRole(
+    'riskOfficer',
+    buildTeamRiskOfficerPrompt(request, members.riskOfficer.roleMd, thesis),
+    parseRiskVerdictResponse,
+  );
+  const verdict = formatRiskVerdict(riskOfficer);
+  turns.push({ ...riskOfficer, role: 'riskOfficer', content: verdict });
+
+  const executor = await runRole(
+    'executor',
+    buildTeamExecutorPrompt(request, members.executor.roleMd, { thesis, verdict }),
+    parseTradeDecisionResponse,
+  );
+  const { decision, sizeCapPct } = applyRiskVerdict(executor, riskOfficer);
+  const sizeNote = sizeCapPct !== undefined ? ` (capped at ${sizeCapPct}%)` : '';
+  turns.push({
+    ...executor,
+    role: 'executor',
+    content: `${decision.action}${decision.targetPair ? ` ${decision.targetPair}` : ''}${sizeNote} @ ${decision.confidence.toFixed(2)}: ${decision.reasoning}`,
+  });
+
+  const transcript: TeamTurn[] = turns.map((turn) => ({
+    role: turn.role,
+    model: turn.modelUsed,
+    content: turn.content,
+    latencyMs: turn.latencyMs,
+    tokensUsed: turn.tokensUsed ?? null,
+    tokensIn: turn.tokensIn ?? null,
+    tokensOut: turn.tokensOut ?? null,
+  }));
+
+  return {
+    ...decision,
+    latencyMs: Date.now() - startTime,
+    ...sumTokenUsage(turns),
+    modelUsed: teamModelLabel(members.executor.model),
+    llmPromptText: executor.llmPromptText,
+    llmRawResponse: executor.llmRawResponse,
+    teamTranscript: transcript,
+    riskSizeCapPct: sizeCapPct,
+  };
+}
+
+/** Token totals across several calls; a total stays undefined when no call reported it. */
+function sumTokenUsage(calls: Array<Pick<LlmDecisionMetadata, 'tokensUsed' | 'tokensIn' | 'tokensOut'>>) {
+  const sum = (values: Array<number | undefined>) =>
+    values.some((v) => v !== undefined) ? values.reduce<number>((total, v) => total + (v ?? 0), 0) : undefined;
+  return {
+    tokensUsed: sum(calls.map((c) => c.tokensUsed)),
+    tokensIn: sum(calls.map((c) => c.tokensIn)),
+    tokensOut: sum(calls.map((c) => c.tokensOut)),
+  };
+}
+
+/**
+ * Re-run a previously stored trade decision prompt (`llmPromptText`) verbatim.
+ * Same parsing and retry strategy as getTradeDecision.
+ */
+export async function replayTradeDecisionPrompt(
+  config: LLMRouterConfig,
+  fullPrompt: string,
+): Promise<TradeDecisionResult> {
+  const result = await runStructuredDecision({
+    config,
+    fullPrompt,
+    userPrompt: fullPrompt,
+    logPrefix: '[llm-router:replay]',
+    parseResponse: parseTradeDecisionResponse,
+  });
+
+  return result as TradeDecisionResult;
+}
+
 /**
  * Get a structured perpetual trade decision from the LLM.
  * Uses PerpTradeDecisionSchema.
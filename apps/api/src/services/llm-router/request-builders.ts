@@ -1,5 +1,13 @@
 import { buildJsonSchemaInstruction } from '@something-in-loop/shared';
-import { BASE_AGENT_PROMPT, buildAnalysisPrompt, buildPerpAnalysisPrompt } from '../../agents/prompts.js';
+import { TEAM_ROLE_SECTIONS } from '@something-in-loop/shared';
+import {
+  BASE_AGENT_PROMPT,
+  buildAnalysisPrompt,
+  buildAnalystThesisPrompt,
+  buildPerpAnalysisPrompt,
+  buildRiskReviewPrompt,
+  buildTeamDeliberationSection,
+} from '../../agents/prompts.js';
 import type { PerpTradeDecisionRequest, TradeDecisionRequest } from './types.js';
 
 const LLM_LOG_PROMPT_PREVIEW_MAX_CHARS = 800;
@@ -19,6 +27,25 @@ The JSON must match this schema exactly:
 Do NOT include calldata, token addresses, function selectors, or deadlines - the backend generates those.`;
 }
 
+const ANALYST_JSON_INSTRUCTION = `
+IMPORTANT: Respond with ONLY a valid JSON object - no markdown, no code blocks, no explanation.
+The JSON must match this schema exactly:
+{
+  "bias": "bullish" | "bearish" | "neutral",
+  "targetPair": "<string or null - the allowed pair with the clearest setup>",
+  "conviction": <number 0.0-1.0>,
+  "thesis": "<string - 2-4 sentences: the setup, the indicators behind it, what would invalidate it>"
+}`;
+
+const RISK_OFFICER_JSON_INSTRUCTION = `
+IMPORTANT: Respond with ONLY a valid JSON object - no markdown, no code blocks, no explanation.
+The JSON must match this schema exactly:
+{
+  "verdict": "approve" | "resize" | "veto",
+  "maxPositionSizePct": <number 0-100 or null - for resize, the most of the balance a new entry may use>,
+  "reasoning": "<string - 1-2 sentences>"
+}`;
+
 export function previewPromptForLogs(text: string): string {
   if (text.length <= LLM_LOG_PROMPT_PREVIEW_MAX_CHARS) return text;
   return `${text.slice(0, LLM_LOG_PROMPT_PREVIEW_MAX_CHARS)}\n...[truncated ${text.length - LLM_LOG_PROMPT_PREVIEW_MAX_CHARS} chars]`;
@@ -32,6 +59,7 @@ export function buildTradeDecisionPrompt(request: TradeDecisionRequest): {
   const userPrompt = buildAnalysisPrompt({
     portfolioState: request.portfolioState,
     openPositions: request.openPositions,
+    pendingOrders: request.pendingOrders,
     marketData: request.marketData,
     lastDecisions: request.lastDecisions,
     config: request.config,
@@ -39,6 +67,7 @@ export function buildTradeDecisionPrompt(request: TradeDecisionRequest): {
     personaMd: request.personaMd,
     behaviorMd: request.behaviorMd,
     roleMd: request.roleMd,
+    asOf: request.asOf,
   });
 
   return {
@@ -69,3 +98,60 @@ export function buildPerpTradeDecisionPrompt(request: PerpTradeDecisionRequest):
     fullPrompt: `${systemPrompt}\n\n${userPrompt}`,
   };
 }
+
+export function buildTeamAnalystPrompt(request: TradeDecisionRequest, roleMd: string | null): {
+  userPrompt: string;
+  fullPrompt: string;
+} {
+  const systemPrompt = BASE_AGENT_PROMPT + ANALYST_JSON_INSTRUCTION;
+  const userPrompt = buildAnalystThesisPrompt({
+    openPositions: request.openPositions,
+    marketData: request.marketData,
+    pairs: request.config.pairs,
+    behavior: request.behavior,
+    personaMd: request.personaMd,
+    behaviorMd: request.behaviorMd,
+    roleMd,
+    asOf: request.asOf,
+  });
+
+  return {
+    userPrompt,
+    fullPrompt: `${systemPrompt}\n\n${userPrompt}`,
+  };
+}
+
+export function buildTeamRiskOfficerPrompt(request: TradeDecisionRequest, roleMd: string | null, thesis: string): {
+  userPrompt: string;
+  fullPrompt: string;
+} {
+  const systemPrompt = BASE_AGENT_PROMPT + RISK_OFFICER_JSON_INSTRUCTION;
+  const userPrompt = buildRiskReviewPrompt({
+    portfolioState: request.portfolioState,
+    openPositions: request.openPositions,
+    config: request.config,
+    thesis,
+    roleMd,
+    asOf: request.asOf,
+  });
+
+  return {
+    userPrompt,
+    fullPrompt: `${systemPrompt}\n\n${userPrompt}`,
+  };
+}
+
+/** The regular trade decision prompt, with the deliberation appended to the executor's role. */
+export function buildTeamExecutorPrompt(
+  request: TradeDecisionRequest,
+  roleMd: string | null,
+  deliberation: { thesis: string; verdict: string },
+): {
+  userPrompt: string;
+  fullPrompt: string;
+} {
+  return buildTradeDecisionPrompt({
+    ...request,
+    roleMd: `${roleMd || TEAM_ROLE_SECTIONS.executor}\n\n${buildTeamDeliberationSection(deliberation.thesis, deliberation.verdict)}`,
+  });
+}
@@ -1,5 +1,7 @@
 import { PerpTradeDecisionSchema, TradeDecisionSchema } from '@something-in-loop/shared';
 import type { PerpTradeDecision, TradeDecision } from '@something-in-loop/shared';
+import { AnalystThesisSchema, RiskVerdictSchema } from './team.js';
+import type { AnalystThesis, RiskVerdict } from './team.js';
 
 /**
  * Extract a JSON object from raw LLM text.
@@ -33,6 +35,14 @@ export function parsePerpTradeDecisionResponse(text: string): PerpTradeDecision
   return PerpTradeDecisionSchema.parse(parsed);
 }
 
+export function parseAnalystThesisResponse(text: string): AnalystThesis {
+  return AnalystThesisSchema.parse(parseJsonText(text));
+}
+
+export function parseRiskVerdictResponse(text: string): RiskVerdict {
+  return RiskVerdictSchema.parse(parseJsonText(text));
+}
+
 function parseJsonText(text: string): unknown {
   const json = extractJson(text);
   if (!json.trim()) {
@@ -0,0 +1,66 @@
+import { z } from 'zod';
+import type { TeamRole, TradeDecision } from '@something-in-loop/shared';
+import type { LLMRouterConfig } from './types.js';
+
+/** Prefix of the llmModel recorded on team decisions, followed by the executor's model, e.g. `team:openai/gpt-4o`. */
+export const TEAM_MODEL_PREFIX = 'team:';
+
+/** Calls one team decision makes, charged against the agent's hourly budget. */
+export const TEAM_LLM_CALLS = 3;
+
+/** A team role with resolved credentials; `roleMd` null means the default role text. */
+export type TeamMember = { model: string; roleMd: string | null; config: LLMRouterConfig };
+
+export type TeamMembers = Record<TeamRole, TeamMember>;
+
+export const AnalystThesisSchema = z.object({
+  bias: z.enum(['bullish', 'bearish', 'neutral']),
+  targetPair: z.string().nullable().optional(),
+  conviction: z.number().min(0).max(1),
+  thesis: z.string().min(1),
+});
+export type AnalystThesis = z.infer<typeof AnalystThesisSchema>;
+
+export const RiskVerdictSchema = z.object({
+  verdict: z.enum(['approve', 'resize', 'veto']),
+  /** For `resize`: the most of the balance a new entry may use. */
+  maxPositionSizePct: z.number().min(0).max(100).nullable().optional(),
+  reasoning: z.string().min(1),
+});
+export type RiskVerdict = z.infer<typeof RiskVerdictSchema>;
+
+const ENTRY_ACTIONS = new Set<TradeDecision['action']>(['buy', 'sell', 'add']);
+
+export function teamModelLabel(executorModel: string): string {
+  return `${TEAM_MODEL_PREFIX}${executorModel}`;
+}
+
+export function formatAnalystThesis(thesis: AnalystThesis): string {
+  return `${thesis.bias} on ${thesis.targetPair ?? 'no pair'} (conviction ${thesis.conviction.toFixed(2)}): ${thesis.thesis}`;
+}
+
+export function formatRiskVerdict(verdict: RiskVerdict): string {
+  const cap = verdict.verdict === 'resize' && verdict.maxPositionSizePct != null ? ` to ${verdict.maxPositionSizePct}%` : '';
+  return `${verdict.verdict}${cap}: ${verdict.reasoning}`;
+}
+
+/**
+ * Enforce the risk officer's verdict on the executor's decision, whatever the
+ * executor answered: a veto (or a resize to 0%) turns a new entry
+ * (buy/sell/add) into a hold, and a resize returns the size cap that execution
+ * applies on top of maxPositionSizePct. Exits and holds pass through.
+ */
+export function applyRiskVerdict(
+  decision: TradeDecision,
+  verdict: RiskVerdict,
+): { decision: TradeDecision; sizeCapPct?: number } {
+  if (!ENTRY_ACTIONS.has(decision.action)) return { decision };
+  const cap = verdict.verdict === 'resize' ? verdict.maxPositionSizePct ?? undefined : undefined;
+  if (verdict.verdict === 'veto' || cap === 0) {
+    const entry = `${decision.action} ${decision.targetPair ?? ''}`.trim();
+    return {
+      decision: { action: 'hold', confidence: decision.confidence, reasoning: `Risk officer vetoed ${entry}: ${verdict.reasoning}` },
+    };
+  }
+  return { decision, sizeCapPct: cap };
+}
@@ -1,4 +1,5 @@
-import type { AgentBehaviorConfig, PerpTradeDecision, TradeDecision } from '@something-in-loop/shared';
+import type { AgentBehaviorConfig, PerpTradeDecision, TeamRole, TradeDecision } from '@something-in-loop/shared';
+import type { MarketRegime, PairRegimes } from '../market-regime.js';
 
 /** When true, if the primary model fails we try the user-configured fallback model. No automatic emergency fallbacks. */
 export interface LLMRouterConfig {
@@ -30,6 +31,18 @@ export interface TradeDecisionRequest {
     openedAt: string;
     slPct: number;
     tpPct: number;
+    trailingStopPrice?: number;
+    /** Margin positions only. */
+    leverage?: number;
+    liquidationPrice?: number;
+  }>;
+  /** Resting limit/stop entries that have not filled yet. */
+  pendingOrders?: Array<{
+    pair: string;
+    side: 'buy' | 'sell';
+    type: 'limit' | 'stop';
+    triggerPrice: number;
+    expiresAt: string;
   }>;
   marketData: Array<{
     pair: string;
@@ -37,8 +50,10 @@ export interface TradeDecisionRequest {
     priceChange: Record<string, number | undefined>;
     volume24h?: number;
     liquidity?: number;
+    atr?: number;
     indicatorText: string;
     dailyIndicatorText?: string;
+    regimes?: PairRegimes;
   }>;
   lastDecisions: Array<{
     decision: string;
@@ -51,11 +66,18 @@ export interface TradeDecisionRequest {
     maxOpenPositions: number;
     stopLossPct: number;
     takeProfitPct: number;
+    maxLeverage?: number;
+    /** Set when a non-fixed sizing mode overrides suggestedPositionSizePct: mode plus per-pair size notes. */
+    sizing?: { mode: string; notes: Array<{ pair: string; note: string }> };
+    /** Entries only execute when the pair's 1h regime is this one. */
+    regimeGate?: MarketRegime;
   };
   behavior?: Partial<AgentBehaviorConfig>;
   personaMd?: string | null;
   behaviorMd?: string | null;
   roleMd?: string | null;
+  /** Reference time for the prompt; defaults to now. Backtests pass the replayed bar time. */
+  asOf?: string;
 }
 
 export interface PerpTradeDecisionRequest {
@@ -74,6 +96,7 @@ export interface PerpTradeDecisionRequest {
     liquidity?: number;
     indicatorText: string;
     dailyIndicatorText?: string;
+    regimes?: PairRegimes;
   }>;
   lastDecisions: Array<{
     decision: string;
@@ -100,5 +123,36 @@ export type LlmDecisionMetadata = {
   llmRawResponse: string;
 };
 
-export type TradeDecisionResult = TradeDecision & LlmDecisionMetadata;
+/** One ensemble member's answer; `error` is set (and the decision fields null) when the model failed. */
+export type EnsembleVote = {
+  model: string;
+  action: TradeDecision['action'] | null;
+  targetPair: string | null;
+  confidence: number | null;
+  reasoning: string | null;
+  latencyMs: number;
+  tokensUsed: number | null;
+  error: string | null;
+};
+
+/** One role's turn in an agent team deliberation, in call order. */
+export type TeamTurn = {
+  role: TeamRole;
+  model: string;
+  /** The role's answer: thesis, risk verdict, or the final decision after the verdict is enforced. */
+  content: string;
+  latencyMs: number;
+  tokensUsed: number | null;
+  tokensIn: number | null;
+  tokensOut: number | null;
+};
+
+export type TradeDecisionResult = TradeDecision & LlmDecisionMetadata & {
+  /** Set on multi-model consensus decisions. */
+  ensembleVotes?: EnsembleVote[];
+  /** Set on agent team decisions. */
+  teamTranscript?: TeamTurn[];
+  /** Risk officer's cap on a new entry's size, applied below maxPositionSizePct. */
+  riskSizeCapPct?: number;
+};
 export type PerpTradeDecisionResult = PerpTradeDecision & LlmDecisionMetadata;
@@ -0,0 +1,207 @@
+/**
+ * Deterministic market-regime classification from OHLCV bars.
+ *
+ * Three measurements, no LLM:
+ * - ADX (Wilder, period 14) for trend strength;
+ * - realized volatility — the latest rolling stdev of log returns, ranked
+ *   against the earlier rolling windows of the same series;
+ * - a Hurst exponent from rescaled-range (R/S) analysis of log returns:
+ *   above 0.5 moves persist, below 0.5 they mean-revert.
+ *
+ * Volatility outranks trend: a pair in the top volatility quintile is
+ * `volatile` whatever its ADX. Otherwise a strong ADX that returns do not
+ * contradict is `trending`, and everything else is `ranging`.
+ */
+import { ADX } from 'technicalindicators';
+import type { IndicatorBar } from './indicators.js';
+
+export type MarketRegime = 'trending' | 'ranging' | 'volatile';
+/** Bar size the regime was measured on; agents fetch hourly and daily candles. */
+export type RegimeTimeframe = '1h' | '1d';
+
+export interface RegimeClassification {
+  regime: MarketRegime;
+  /** Latest ADX; null with too few bars. */
+  adx: number | null;
+  /** Rank of the latest realized volatility among the series' rolling windows, 0–1. */
+  volatilityPercentile: number | null;
+  /** Stdev of log returns over the latest window, % per bar. */
+  realizedVolPct: number | null;
+  hurst: number | null;
+  reasoning: string;
+}
+
+export type PairRegimes = Partial<Record<RegimeTimeframe, RegimeClassification>>;
+
+export const REGIME_THRESHOLDS = {
+  /** ADX at or above this is a trend. */
+  trendAdx: 25,
+  /** Volatility percentile at or above this is `volatile`. */
+  volatilePercentile: 0.8,
+  /** Hurst below this contradicts an ADX trend (returns mean-revert). */
+  meanRevertingHurst: 0.45,
+  /** Hurst at or above this counts as trending when ADX is unavailable. */
+  persistentHurst: 0.55,
+};
+
+const ADX_PERIOD = 14;
+const VOL_WINDOW = 10;
+/** Earlier rolling windows needed before a percentile means anything. */
+const MIN_VOL_WINDOWS = 5;
+const MIN_HURST_CHUNK = 6;
+/** Chunks with a smaller return stdev are flat; float noise would fake a range. */
+const FLAT_STDEV = 1e-12;
+/** Fewer bars than this and no regime is reported. */
+export const MIN_REGIME_BARS = 20;
+
+function toBars(series: number[] | IndicatorBar[]): IndicatorBar[] {
+  return series.map((point) => (typeof point === 'number' ? { h: point, l: point, c: point } : point));
+}
+
+function logReturns(closes: number[]): number[] {
+  const returns: number[] = [];
+  for (let i = 1; i < closes.length; i++) {
+    if (closes[i - 1] > 0 && closes[i] > 0) returns.push(Math.log(closes[i] / closes[i - 1]));
+  }
+  return returns;
+}
+
+function stdev(values: number[]): number {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length);
+}
+
+/** Latest rolling volatility and its percentile among the earlier windows. */
+export function realizedVolatility(returns: number[], window = VOL_WINDOW): { latest: number; percentile: number } | null {
+  if (returns.length < window + MIN_VOL_WINDOWS) return null;
+  const vols: number[] = [];
+  for (let end = window; end <= returns.length; end++) vols.push(stdev(returns.slice(end - window, end)));
+  const latest = vols[vols.length - 1];
+  const earlier = vols.slice(0, -1);
+  return { latest, percentile: earlier.filter((v) => v <= latest).length / earlier.length };
+}
+
+/**
+ * Hurst exponent by rescaled-range analysis: the slope of log(R/S) against
+ * log(chunk size) over chunk sizes doubling from MIN_HURST_CHUNK. Null when
+ * the series fits fewer than two chunk sizes or is flat.
+ */
+export function hurstExponent(returns: number[]): number | null {
+  const points: Array<[number, number]> = [];
+  for (let size = MIN_HURST_CHUNK; size <= returns.length / 2; size *= 2) {
+    const ratios: number[] = [];
+    for (let start = 0; start + size <= returns.length; start += size) {
+      const chunk = returns.slice(start, start + size);
+      const mean = chunk.reduce((sum, v) => sum + v, 0) / size;
+      let cumulative = 0;
+      let max = -Infinity;
+      let min = Infinity;
+      for (const r of chunk) {
+        cumulative += r - mean;
+        max = Math.max(max, cumulative);
+        min = Math.min(min, cumulative);
+      }
+      const sd = stdev(chunk);
+      if (sd > FLAT_STDEV) ratios.push((max - min) / sd);
+    }
+    if (ratios.length > 0) points.push([Math.log(size), Math.log(ratios.reduce((sum, v) => sum + v, 0) / ratios.length)]);
+  }
+  if (points.length < 2) return null;
+  const meanX = points.reduce((sum, [x]) => sum + x, 0) / points.length;
+  const meanY = points.reduce((sum, [, y]) => sum + y, 0) / points.length;
+  const covariance = points.reduce((sum, [x, y]) => sum + (x - meanX) * (y - meanY), 0);
+  const variance = points.reduce((sum, [x]) => sum + (x - meanX) ** 2, 0);
+  return variance > 0 ? covariance / variance : null;
+}
+
+/** Classify a close series or OHLCV bars (oldest first); null under MIN_REGIME_BARS. */
+export function classifyMarketRegime(series: number[] | IndicatorBar[]): RegimeClassification | null {
+  if (series.length < MIN_REGIME_BARS) return null;
+  const bars = toBars(series);
+  const closes = bars.map((b) => b.c);
+  const returns = logReturns(closes);
+
+  const adxSeries = bars.length > ADX_PERIOD * 2
+    ? ADX.calculate({ period: ADX_PERIOD, high: bars.map((b) => b.h), low: bars.map((b) => b.l), close: closes })
+    : [];
+  const adx = adxSeries.at(-1)?.adx ?? null;
+  const volatility = realizedVolatility(returns);
+  const hurst = hurstExponent(returns);
+  if (adx === null && volatility === null && hurst === null) return null;
+
+  const t = REGIME_THRESHOLDS;
+  let regime: MarketRegime;
+  let why: string;
+  if (volatility && volatility.percentile >= t.volatilePercentile) {
+    regime = 'volatile';
+    why = `realized volatility in its top ${Math.round((1 - t.volatilePercentile) * 100)}%`;
+  } else if (adx !== null && adx >= t.trendAdx && (hurst === null || hurst >= t.meanRevertingHurst)) {
+    regime = 'trending';
+    why = `ADX at or above ${t.trendAdx}`;
+  } else if (adx === null && hurst !== null && hurst >= t.persistentHurst) {
+    regime = 'trending';
+    why = 'persistent returns';
+  } else {
+    regime = 'ranging';
+    why = adx !== null && adx >= t.trendAdx ? 'ADX trend contradicted by mean-reverting returns' : `ADX below ${t.trendAdx}`;
+  }
+
+  const classification: Omit<RegimeClassification, 'reasoning'> = {
+    regime,
+    adx: adx === null ? null : Math.round(adx * 10) / 10,
+    volatilityPercentile: volatility ? Math.round(volatility.percentile * 100) / 100 : null,
+    realizedVolPct: volatility ? Math.round(volatility.latest * 100 * 1000) / 1000 : null,
+    hurst: hurst === null ? null : Math.round(hurst * 100) / 100,
+  };
+  return { ...classification, reasoning: `${why} (${describeMeasurements(classification)})` };
+}
+
+/** Classify each timeframe that has enough data; undefined when none does. */
+export function classifyPairRegimes(
+  series: Partial<Record<RegimeTimeframe, number[] | IndicatorBar[] | null>>,
+): PairRegimes | undefined {
+  const regimes: PairRegimes = {};
+  for (const timeframe of ['1h', '1d'] as const) {
+    const data = series[timeframe];
+    const classification = data ? classifyMarketRegime(data) : null;
+    if (classification) regimes[timeframe] = classification;
+  }
+  return Object.keys(regimes).length > 0 ? regimes : undefined;
+}
+
+function describeMeasurements(c: Pick<RegimeClassification, 'adx' | 'volatilityPercentile' | 'hurst'>): string {
+  const parts: string[] = [];
+  if (c.adx !== null) parts.push(`ADX ${c.adx.toFixed(1)}`);
+  if (c.volatilityPercentile !== null) parts.push(`volatility ${Math.round(c.volatilityPercentile * 100)}th pct`);
+  if (c.hurst !== null) parts.push(`Hurst ${c.hurst.toFixed(2)}`);
+  return parts.join(', ');
+}
+
+/** One prompt line per pair, e.g. "1h trending (ADX 31.2, ...) · 1d ranging (...)". */
+export function formatPairRegimes(regimes: PairRegimes | undefined): string | null {
+  const parts = (['1h', '1d'] as const)
+    .filter((tf) => regimes?.[tf])
+    .map((tf) => `${tf} ${regimes![tf]!.regime} (${describeMeasurements(regimes![tf]!)})`);
+  return parts.length > 0 ? parts.join(' · ') : null;
+}
+
+/**
+ * The prevailing regime across pairs on one timeframe: the most common label,
+ * ties broken toward `volatile`, then `trending`. Null when no pair has one.
+ */
+export function dominantRegime(
+  pairs: Array<{ pair: string; regimes?: PairRegimes }>,
+  timeframe: RegimeTimeframe,
+): { regime: MarketRegime; reasoning: string } | null {
+  const labelled = pairs.filter((p) => p.regimes?.[timeframe]);
+  if (labelled.length === 0) return null;
+  const order: MarketRegime[] = ['volatile', 'trending', 'ranging'];
+  const counts = new Map<MarketRegime, number>();
+  for (const p of labelled) {
+    const regime = p.regimes![timeframe]!.regime;
+    counts.set(regime, (counts.get(regime) ?? 0) + 1);
+  }
+  const regime = order.reduce((best, r) => ((counts.get(r) ?? 0) > (counts.get(best) ?? 0) ? r : best), order[0]);
+  const reasoning = labelled.map((p) => `${p.pair}: ${p.regimes![timeframe]!.regime}`).join(', ');
+  return { regime, reasoning: `${counts.get(regime)}/${labelled.length} pairs ${regime} on ${timeframe} (${reasoning})` };
+}
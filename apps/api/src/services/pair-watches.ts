@@ -0,0 +1,180 @@
+/**
+ * Pair watch alerts: price and indicator conditions on a pair, independent
+ * of any agent. `evaluatePairWatches` runs from the 5-minute cron; it prices
+ * each watched pair once, computes indicators once per pair and timeframe,
+ * and records a `pair_watch_events` row for every watch that fires.
+ */
+import { drizzle } from 'drizzle-orm/d1';
+import { eq, sql } from 'drizzle-orm';
+import { PAIR_WATCH_TIMEFRAME_BARS, PairWatchConditionSchema } from '@something-in-loop/shared';
+import type { PairWatchCondition, TradingInterval } from '@something-in-loop/shared';
+import { pairWatchEvents, pairWatches } from '../db/schema.js';
+import { generateId } from '../lib/utils.js';
+import { computeIndicators } from './indicators.js';
+import { resolveCurrentPriceUsd } from './price-resolver.js';
+import { resolvePairHourlyHistory, resolvePairPriceHistory } from './price-history.js';
+import type { PairPriceHistory } from './price-history.js';
+import type { Env } from '../types/env.js';
+
+/** Per-user cap on watches, active or not. */
+export const MAX_PAIR_WATCHES_PER_USER = 50;
+
+/** Hourly closes loaded for 4h watches, enough for PAIR_WATCH_TIMEFRAME_BARS['4h'] bars. */
+const FOUR_HOUR_HOURLY_BARS = PAIR_WATCH_TIMEFRAME_BARS['4h'] * 4;
+
+const METRIC_LABELS: Record<PairWatchCondition['metric'], string> = {
+  price: 'price',
+  rsi: 'RSI',
+  ema9: 'EMA 9',
+  ema21: 'EMA 21',
+};
+
+export function parsePairWatchCondition(raw: string): PairWatchCondition | null {
+  try {
+    const parsed = PairWatchConditionSchema.safeParse(JSON.parse(raw));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Closes for an indicator timeframe; 4h takes every fourth hourly close,
+ * ending at the latest, so it needs the longer hourly run loaded for 4h.
+ */
+export function closesForTimeframe(history: Pick<PairPriceHistory, 'hourlyPrices' | 'dailyPrices'>, timeframe: TradingInterval): number[] {
+  if (timeframe === '1d') return history.dailyPrices;
+  if (timeframe === '1h') return history.hourlyPrices;
+  const closes = history.hourlyPrices;
+  return closes.filter((_, i) => (closes.length - 1 - i) % 4 === 0);
+}
+
+/** Latest value of an indicator metric, or undefined while the series is too short. */
+export function latestIndicatorValue(metric: Exclude<PairWatchCondition['metric'], 'price'>, closes: number[]): number | undefined {
+  const clean = closes.filter((c) => Number.isFinite(c) && c > 0);
+  return computeIndicators(clean)[metric]?.at(-1);
+}
+
+/**
+ * Whether a reading fires the condition. Level operators fire on entering the
+ * zone, so a repeating watch does not fire again until the metric leaves it.
+ */
+export function pairWatchFires(condition: PairWatchCondition, previous: number | null, current: number): boolean {
+  const { operator, value } = condition;
+  const above = (v: number) => v > value;
+  const below = (v: number) => v < value;
+  switch (operator) {
+    case 'above':
+      return above(current) && !(previous !== null && above(previous));
+    case 'below':
+      return below(current) && !(previous !== null && below(previous));
+    case 'crosses_above':
+      return previous !== null && previous <= value && above(current);
+    case 'crosses_below':
+      return previous !== null && previous >= value && below(current);
+    case 'crosses':
+      return previous !== null && ((previous <= value && above(current)) || (previous >= value && below(current)));
+  }
+}
+
+function formatMetricValue(value: number): string {
+  return String(Number(value.toPrecision(6)));
+}
+
+export function describePairWatch(pair: string, condition: PairWatchCondition): string {
+  const metric = condition.metric === 'price'
+    ? 'price'
+    : `${METRIC_LABELS[condition.metric]} (${condition.timeframe})`;
+  return `${pair} ${metric} ${condition.operator.replace('_', ' ')} ${formatMetricValue(condition.value)}`;
+}
+
+export function formatPairWatchMessage(pair: string, condition: PairWatchCondition, current: number): string {
+  return `${describePairWatch(pair, condition)} — now ${formatMetricValue(current)}`;
+}
+
+export type PairWatchRunSummary = { checked: number; triggered: number; skipped: number };
+
+/**
+ * Evaluate every active watch. Watches whose metric cannot be resolved this
+ * run keep their previous reading. One-shot watches move to `triggered`
+ * after firing; repeating watches stay active.
+ */
+export async function evaluatePairWatches(env: Env, now: Date = new Date()): Promise<PairWatchRunSummary> {
+  const db = drizzle(env.DB);
+  const watches = await db.select().from(pairWatches).where(eq(pairWatches.status, 'active'));
+  const summary: PairWatchRunSummary = { checked: 0, triggered: 0, skipped: 0 };
+  if (watches.length === 0) return summary;
+
+  const prices = new Map<string, number>();
+  const histories = new Map<string, Promise<PairPriceHistory>>();
+  const fourHourCloses = new Map<string, Promise<number[]>>();
+  const checkedAt = now.toISOString();
+
+  for (const watch of watches) {
+    try {
+      const condition = parsePairWatchCondition(watch.condition);
+      if (!condition) {
+        summary.skipped += 1;
+        continue;
+      }
+
+      let current: number | undefined;
+      if (condition.metric === 'price') {
+        if (!prices.has(watch.pair)) prices.set(watch.pair, await resolveCurrentPriceUsd(env, watch.pair));
+        const price = prices.get(watch.pair) ?? 0;
+        current = price > 0 ? price : undefined;
+      } else if (condition.timeframe === '4h') {
+        if (!fourHourCloses.has(watch.pair)) {
+          fourHourCloses.set(
+            watch.pair,
+            resolvePairHourlyHistory(env, watch.pair, FOUR_HOUR_HOURLY_BARS).then(({ prices: hourlyPrices }) =>
+              closesForTimeframe({ hourlyPrices, dailyPrices: [] }, '4h'),
+            ),
+          );
+        }
+        current = latestIndicatorValue(condition.metric, await fourHourCloses.get(watch.pair)!);
+      } else {
+        if (!histories.has(watch.pair)) histories.set(watch.pair, resolvePairPriceHistory(env, watch.pair));
+        const history = await histories.get(watch.pair)!;
+        current = latestIndicatorValue(condition.metric, closesForTimeframe(history, condition.timeframe));
+      }
+      if (current === undefined || !Number.isFinite(current)) {
+        summary.skipped += 1;
+        continue;
+      }
+
+      summary.checked += 1;
+      const fired = pairWatchFires(condition, watch.lastValue, current);
+      if (fired) {
+        await db.insert(pairWatchEvents).values({
+          id: generateId('pwe'),
+          watchId: watch.id,
+          ownerAddress: watch.ownerAddress,
+          pair: watch.pair,
+          message: formatPairWatchMessage(watch.pair, condition, current),
+          value: current,
+          createdAt: checkedAt,
+        });
+        summary.triggered += 1;
+      }
+      await db
+        .update(pairWatches)
+        .set({
+          lastValue: current,
+          lastCheckedAt: checkedAt,
+          ...(fired && {
+            lastTriggeredAt: checkedAt,
+            triggerCount: sql`${pairWatches.triggerCount} + 1`,
+            status: watch.repeat ? 'active' : 'triggered',
+          }),
+        })
+        .where(eq(pairWatches.id, watch.id));
+    } catch (err) {
+      summary.skipped += 1;
+      console.error(`[pair-watches] Failed to evaluate watch ${watch.id} (${watch.pair}):`, err);
+    }
+  }
+
+  console.log(`[pair-watches] ${summary.checked} checked, ${summary.triggered} triggered, ${summary.skipped} skipped`);
+  return summary;
+}
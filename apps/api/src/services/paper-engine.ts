@@ -3,6 +3,14 @@ import type { PerpPositionState } from '../agents/perp-state-machine.js';
 
 const MAX_PRICE_SCALE_RATIO = 1_000_000;
 
+/** Mirrors MockPerpDEX: leverage is capped at 10x. */
+export const MAX_LEVERAGE = 10;
+/**
+ * Equity share of margin below which a position is liquidated. MockPerpDEX
+ * liquidates once losses exceed 90% of collateral, i.e. a 10% maintenance margin.
+ */
+export const MAINTENANCE_MARGIN_PCT = 10;
+
 function isPositiveFiniteNumber(value: number | undefined): value is number {
   return typeof value === 'number' && Number.isFinite(value) && value > 0;
 }
@@ -12,6 +20,20 @@ function hasComparablePriceScale(referencePrice: number, marketPrice: number): b
   return Math.abs(Math.log(referencePrice) - Math.log(marketPrice)) <= Math.log(MAX_PRICE_SCALE_RATIO);
 }
 
+export type PositionCloseReason = 'stop_loss' | 'take_profit' | 'trailing_stop' | 'liquidation' | 'manual' | 'llm_decision';
+
+/** How far a trailing stop sits behind the best price: a fixed % or a multiple of ATR (price units, fixed at entry). */
+export type TrailingStopConfig =
+  | { type: 'pct'; distancePct: number }
+  | { type: 'atr'; atrMultiple: number; atr: number };
+
+export interface TrailingStopState {
+  config: TrailingStopConfig;
+  /** Best price seen since entry — highest for longs, lowest for shorts. */
+  extremePrice: number;
+  stopPrice: number;
+}
+
 export interface Position {
   id: string;
   agentId: string;
@@ -19,15 +41,37 @@ export interface Position {
   dex: string;
   side: 'buy' | 'sell';
   entryPrice: number;
-  effectiveEntryPrice: number; // after slippage
-  amountUsd: number;
-  tokenAmount: number; // how many tokens bought
+  effectiveEntryPrice: number; // after slippage (price impact)
+  amountUsd: number; // margin for leveraged positions; notional = amountUsd × leverage
+  tokenAmount: number; // how many tokens bought (notional for leveraged positions)
   confidenceBefore: number;
   reasoning: string;
   strategyUsed: string;
-  slippageSimulated: number;
-  status: 'open' | 'closed';
-  closeReason?: 'stop_loss' | 'take_profit' | 'manual' | 'llm_decision';
+  slippageSimulated: number; // price impact fraction, applied on entry and exit
+  /** Swap fee rate charged on each leg, in % (liquidity fill model only). */
+  feePct?: number;
+  /** Swap fees paid so far in USD — entry, plus exit once closed. */
+  feeUsd?: number;
+  /**
+   * Set on margin positions only — any short, or a long above 1x. Spot longs
+   * leave these unset and can neither be liquidated nor pay funding. Shorts
+   * opened before margin simulation are restored at 1x without a liquidation
+   * price or funding clock, so neither applies to them.
+   */
+  leverage?: number;
+  /** Mark price at which equity falls to the maintenance margin. */
+  liquidationPrice?: number;
+  /** Net funding paid in USD (negative = received). */
+  fundingUsd?: number;
+  /** Funding is settled in whole hours up to this timestamp. */
+  fundingAccruedAt?: string;
+  /** `merged` marks a scale-in lot that was folded into its parent position. */
+  status: 'open' | 'closed' | 'merged';
+  closeReason?: PositionCloseReason;
+  trailingStop?: TrailingStopState;
+  /** Set on add/reduce records: the open position they scaled into or out of. */
+  parentPositionId?: string;
+  fillType?: 'add' | 'reduce';
   openedAt: string;
   closedAt?: string;
   exitPrice?: number;
@@ -50,15 +94,66 @@ export interface OpenPositionParams {
   reasoning: string;
   strategyUsed: string;
   slippagePct?: number;
+  /** Swap fee per leg in %; omitted/0 = no fees (flat fill model). */
+  feePct?: number;
+  /** 1–MAX_LEVERAGE, default 1. `amountUsd` is the margin posted. */
+  leverage?: number;
+  trailingStop?: TrailingStopConfig;
 }
 
 export interface ClosePositionParams {
   price: number;
   confidence?: number;
   reason?: string;
-  closeReason?: 'stop_loss' | 'take_profit' | 'manual' | 'llm_decision';
+  closeReason?: PositionCloseReason;
+}
+
+export interface ReducePositionParams extends ClosePositionParams {
+  /** Share of the position to close, 0–100. 100 (or more) closes it entirely. */
+  pct: number;
+}
+
+export interface AddToPositionParams {
+  price: number;
+  amountUsd: number;
+  maxPositionSizePct: number;
+  confidence: number;
+  reasoning: string;
+  slippagePct?: number;
+  /** Defaults to the position's fee rate. */
+  feePct?: number;
+}
+
+export type PendingOrderType = 'limit' | 'stop';
+
+/**
+ * A resting entry order. Limit orders fill at or better than the trigger
+ * (buy ≤ trigger, sell ≥ trigger); stop orders fill once price breaks through
+ * it (buy ≥ trigger, sell ≤ trigger). Size is a % of the balance at fill time.
+ */
+export interface PendingOrder {
+  id: string;
+  agentId: string;
+  pair: string;
+  dex: string;
+  side: 'buy' | 'sell';
+  type: PendingOrderType;
+  triggerPrice: number;
+  positionSizePct: number;
+  maxPositionSizePct: number;
+  confidence: number;
+  reasoning: string;
+  strategyUsed: string;
+  slippagePct?: number;
+  feePct?: number;
+  leverage?: number;
+  trailingStop?: TrailingStopConfig;
+  createdAt: string;
+  expiresAt: string;
 }
 
+export type PlaceOrderParams = Omit<PendingOrder, 'id' | 'createdAt'>;
+
 export interface PaperEngineState {
   balance: number;
   initialBalance: number;
@@ -66,6 +161,20 @@ export interface PaperEngineState {
   closedPositions: Position[];
   dailyStartBalance: number;
   lastDailyReset: string;
+  pendingOrders: Map<string, PendingOrder>;
+}
+
+/** Open positions valued at current prices; see PaperEngine.markToMarket. */
+export interface MarkToMarket {
+  /** Cash balance. */
+  balance: number;
+  /** Cash plus what every open position would return if closed now. */
+  equity: number;
+  unrealizedPnlUsd: number;
+  /** Notional of open positions at the mark price (margin × leverage for margin positions). */
+  exposureUsd: number;
+  /** Positions without a usable price, carried at their posted margin. */
+  unpricedPositions: number;
 }
 
 export function hasValidPositionPricing(position: Pick<Position, 'entryPrice' | 'effectiveEntryPrice' | 'tokenAmount'>): boolean {
@@ -83,21 +192,65 @@ export function isPositionPricingSaneForMarket(
     && hasComparablePriceScale(position.effectiveEntryPrice, marketPrice);
 }
 
+/** True when `marketPrice` satisfies the order's trigger condition. */
+export function isOrderTriggered(order: Pick<PendingOrder, 'side' | 'type' | 'triggerPrice'>, marketPrice: number): boolean {
+  if (!isPositiveFiniteNumber(marketPrice)) return false;
+  const buyTriggers = order.type === 'limit' ? marketPrice <= order.triggerPrice : marketPrice >= order.triggerPrice;
+  const sellTriggers = order.type === 'limit' ? marketPrice >= order.triggerPrice : marketPrice <= order.triggerPrice;
+  return order.side === 'buy' ? buyTriggers : sellTriggers;
+}
+
+/**
+ * Mark price at which a margin position's equity (margin + unrealized P&L −
+ * funding) drops to MAINTENANCE_MARGIN_PCT of its margin.
+ */
+export function computeLiquidationPrice(
+  position: Pick<Position, 'side' | 'effectiveEntryPrice' | 'amountUsd' | 'tokenAmount' | 'fundingUsd'>,
+): number {
+  const lossBufferUsd = position.amountUsd * (1 - MAINTENANCE_MARGIN_PCT / 100) - (position.fundingUsd ?? 0);
+  const priceBuffer = lossBufferUsd / position.tokenAmount;
+  return position.side === 'buy'
+    ? Math.max(0, position.effectiveEntryPrice - priceBuffer)
+    : position.effectiveEntryPrice + priceBuffer;
+}
+
+function trailingDistance(config: TrailingStopConfig, extremePrice: number): number {
+  return config.type === 'pct' ? (extremePrice * config.distancePct) / 100 : config.atr * config.atrMultiple;
+}
+
+function initTrailingStop(config: TrailingStopConfig, side: 'buy' | 'sell', price: number): TrailingStopState {
+  const distance = trailingDistance(config, price);
+  return {
+    config,
+    extremePrice: price,
+    stopPrice: side === 'buy' ? price - distance : price + distance,
+  };
+}
+
 export class PaperEngine {
   private state: PaperEngineState;
   private slippagePct: number;
   private mode: 'long-short' | 'spot-only';
+  /** Timestamp source; backtests inject the replayed bar time here. */
+  private now: () => string;
 
-  constructor(params: { balance: number; slippage: number; mode?: 'long-short' | 'spot-only' }) {
+  constructor(params: {
+    balance: number;
+    slippage: number;
+    mode?: 'long-short' | 'spot-only';
+    clock?: () => string;
+  }) {
     this.slippagePct = params.slippage / 100; // convert 0.3% → 0.003
     this.mode = params.mode ?? 'long-short';
+    this.now = params.clock ?? nowIso;
     this.state = {
       balance: params.balance,
       initialBalance: params.balance,
       openPositions: new Map(),
       closedPositions: [],
       dailyStartBalance: params.balance,
-      lastDailyReset: nowIso().slice(0, 10),
+      lastDailyReset: this.now().slice(0, 10),
+      pendingOrders: new Map(),
     };
   }
 
@@ -113,6 +266,10 @@ export class PaperEngine {
     return this.state.closedPositions;
   }
 
+  get pendingOrders(): PendingOrder[] {
+    return Array.from(this.state.pendingOrders.values());
+  }
+
   /** Returns LONG, SHORT or FLAT based on open positions. */
   getCurrentPositionState(pair: string): PerpPositionState {
     const openBuy = Array.from(this.state.openPositions.values()).find(
@@ -154,6 +311,14 @@ export class PaperEngine {
       throw new Error('Position price must be a positive finite number');
     }
 
+    const leverage = params.leverage ?? 1;
+    if (!(leverage >= 1 && leverage <= MAX_LEVERAGE)) {
+      throw new Error(`Leverage must be between 1 and ${MAX_LEVERAGE}`);
+    }
+    if (this.mode === 'spot-only' && leverage > 1) {
+      throw new Error('spot-only mode: leveraged positions are not allowed');
+    }
+
     // Apply slippage (buy at slightly higher price, sell at slightly lower)
     const slippage = params.slippagePct !== undefined
       ? params.slippagePct / 100
@@ -168,12 +333,24 @@ export class PaperEngine {
       throw new Error('Effective entry price must be a positive finite number');
     }
 
-    const tokenAmount = params.amountUsd / effectiveEntryPrice;
+    const tokenAmount = (params.amountUsd * leverage) / effectiveEntryPrice;
 
     if (!isPositiveFiniteNumber(tokenAmount)) {
       throw new Error('Position token amount must be a positive finite number');
     }
 
+    if (params.trailingStop && !isPositiveFiniteNumber(trailingDistance(params.trailingStop, params.price))) {
+      throw new Error('Trailing stop distance must be a positive finite number');
+    }
+
+    const feePct = params.feePct ?? 0;
+    const feeUsd = (params.amountUsd * leverage * feePct) / 100;
+    if (params.amountUsd + feeUsd > this.state.balance) {
+      throw new Error(
+        `Insufficient balance for fees: $${this.state.balance.toFixed(2)} < $${(params.amountUsd + feeUsd).toFixed(2)}`
+      );
+    }
+
     const position: Position = {
       id: generateId('pos'),
       agentId: params.agentId,
@@ -188,12 +365,20 @@ export class PaperEngine {
       reasoning: params.reasoning,
       strategyUsed: params.strategyUsed,
       slippageSimulated: slippage,
+      ...(feePct > 0 ? { feePct, feeUsd } : {}),
       status: 'open',
-      openedAt: nowIso(),
+      ...(params.trailingStop ? { trailingStop: initTrailingStop(params.trailingStop, params.side, params.price) } : {}),
+      openedAt: this.now(),
     };
+    if (params.side === 'sell' || leverage > 1) {
+      position.leverage = leverage;
+      position.fundingUsd = 0;
+      position.fundingAccruedAt = position.openedAt;
+      position.liquidationPrice = computeLiquidationPrice(position);
+    }
 
     // Deduct from balance
-    this.state.balance -= params.amountUsd;
+    this.state.balance -= params.amountUsd + feeUsd;
     this.state.openPositions.set(position.id, position);
 
     return position;
@@ -213,23 +398,163 @@ export class PaperEngine {
       throw new Error('Close price must be a positive finite number');
     }
 
+    const { closed, proceedsUsd } = this.settle(position, params);
+
+    // Return proceeds to balance
+    this.state.balance += proceedsUsd;
+    this.state.openPositions.delete(positionId);
+    this.state.closedPositions.push(closed);
+
+    return closed;
+  }
+
+  /**
+   * Close `pct`% of an open position. The closed slice becomes its own closed
+   * record (new id, parentPositionId → the position) with proportional P&L;
+   * the position keeps its entry price with amount and tokens scaled down.
+   */
+  reducePosition(positionId: string, params: ReducePositionParams): Position {
+    const position = this.state.openPositions.get(positionId);
+    if (!position) {
+      throw new Error(`Position ${positionId} not found or already closed`);
+    }
+
+    if (!isPositiveFiniteNumber(params.pct)) {
+      throw new Error('Reduce percentage must be positive');
+    }
+
+    if (params.pct >= 100) {
+      return this.closePosition(positionId, params);
+    }
+
+    if (!isPositiveFiniteNumber(params.price)) {
+      throw new Error('Close price must be a positive finite number');
+    }
+
+    const fraction = params.pct / 100;
+    const slice: Position = {
+      ...position,
+      id: generateId('pos'),
+      amountUsd: position.amountUsd * fraction,
+      tokenAmount: position.tokenAmount * fraction,
+      ...(position.feeUsd !== undefined ? { feeUsd: position.feeUsd * fraction } : {}),
+      ...(position.fundingUsd !== undefined ? { fundingUsd: position.fundingUsd * fraction } : {}),
+      trailingStop: undefined,
+      parentPositionId: position.id,
+      fillType: 'reduce',
+    };
+    const { closed, proceedsUsd } = this.settle(slice, params);
+
+    position.amountUsd -= slice.amountUsd;
+    position.tokenAmount -= slice.tokenAmount;
+    if (position.feeUsd !== undefined) position.feeUsd -= slice.feeUsd ?? 0;
+    if (position.fundingUsd !== undefined) position.fundingUsd -= slice.fundingUsd ?? 0;
+    this.state.balance += proceedsUsd;
+    this.state.closedPositions.push(closed);
+
+    return closed;
+  }
+
+  /**
+   * Scale into an open position at `price`. The position's entry prices become
+   * token-weighted averages; the returned `merged` record logs the added lot.
+   * The position's total size must stay within maxPositionSizePct of equity at cost.
+   */
+  addToPosition(positionId: string, params: AddToPositionParams): Position {
+    const position = this.state.openPositions.get(positionId);
+    if (!position) {
+      throw new Error(`Position ${positionId} not found or already closed`);
+    }
+
+    if (params.amountUsd <= 0) {
+      throw new Error('Position amount must be positive');
+    }
+
+    const leverage = position.leverage ?? 1;
+    const feePct = params.feePct ?? position.feePct ?? 0;
+    const feeUsd = (params.amountUsd * leverage * feePct) / 100;
+    if (params.amountUsd + feeUsd > this.state.balance) {
+      throw new Error(
+        `Insufficient balance: $${this.state.balance.toFixed(2)} < $${(params.amountUsd + feeUsd).toFixed(2)}`
+      );
+    }
+
+    const equityAtCost = this.state.balance + position.amountUsd;
+    const maxAllowed = (equityAtCost * params.maxPositionSizePct) / 100;
+    if (position.amountUsd + params.amountUsd > maxAllowed) {
+      throw new Error(
+        `Position size $${(position.amountUsd + params.amountUsd).toFixed(2)} would exceed max allowed ` +
+          `$${maxAllowed.toFixed(2)} (${params.maxPositionSizePct}%)`
+      );
+    }
+
+    if (!isPositiveFiniteNumber(params.price)) {
+      throw new Error('Position price must be a positive finite number');
+    }
+
+    const slippage = params.slippagePct !== undefined
+      ? params.slippagePct / 100
+      : this.slippagePct;
+    const effectiveEntryPrice =
+      position.side === 'buy'
+        ? params.price * (1 + slippage)
+        : params.price * (1 - slippage);
+    const tokenAmount = (params.amountUsd * leverage) / effectiveEntryPrice;
+    if (!isPositiveFiniteNumber(tokenAmount)) {
+      throw new Error('Position token amount must be a positive finite number');
+    }
+
+    const lot: Position = {
+      ...position,
+      id: generateId('pos'),
+      entryPrice: params.price,
+      effectiveEntryPrice,
+      amountUsd: params.amountUsd,
+      tokenAmount,
+      confidenceBefore: params.confidence,
+      reasoning: params.reasoning,
+      slippageSimulated: slippage,
+      ...(feePct > 0 ? { feePct, feeUsd } : {}),
+      status: 'merged',
+      trailingStop: undefined,
+      parentPositionId: position.id,
+      fillType: 'add',
+      openedAt: this.now(),
+    };
+
+    const totalTokens = position.tokenAmount + tokenAmount;
+    position.entryPrice = (position.entryPrice * position.tokenAmount + params.price * tokenAmount) / totalTokens;
+    position.amountUsd += params.amountUsd;
+    position.tokenAmount = totalTokens;
+    position.effectiveEntryPrice = (position.amountUsd * leverage) / totalTokens;
+    if (feePct > 0) {
+      position.feePct = position.feePct ?? feePct;
+      position.feeUsd = (position.feeUsd ?? 0) + feeUsd;
+    }
+    if (position.liquidationPrice !== undefined) position.liquidationPrice = computeLiquidationPrice(position);
+    this.state.balance -= params.amountUsd + feeUsd;
+
+    return lot;
+  }
+
+  /** P&L and proceeds for closing `position` at `params.price`; does not touch engine state. */
+  private settle(position: Position, params: ClosePositionParams): { closed: Position; proceedsUsd: number } {
     if (!isPositionPricingSaneForMarket(position, params.price)) {
-      const closed: Position = {
-        ...position,
-        status: 'closed',
-        closeReason: params.closeReason,
-        exitPrice: params.price,
-        effectiveExitPrice: params.price,
-        pnlPct: 0,
-        pnlUsd: 0,
-        confidenceAfter: params.confidence,
-        closedAt: nowIso(),
+      return {
+        closed: {
+          ...position,
+          status: 'closed',
+          closeReason: params.closeReason,
+          exitPrice: params.price,
+          effectiveExitPrice: params.price,
+          pnlPct: 0,
+          pnlUsd: 0,
+          confidenceAfter: params.confidence,
+          closedAt: this.now(),
+        },
+        // Flat repair: refund the stake and any entry fee.
+        proceedsUsd: position.amountUsd + (position.feeUsd ?? 0),
       };
-
-      this.state.balance += position.amountUsd;
-      this.state.openPositions.delete(positionId);
-      this.state.closedPositions.push(closed);
-      return closed;
     }
 
     // Apply slippage on exit (inverse of entry)
@@ -242,44 +567,197 @@ export class PaperEngine {
     let pnlPct: number;
     let proceedsUsd: number;
 
-    if (position.side === 'buy') {
-      // Bought tokens, now selling
+    if (position.leverage === undefined) {
+      // Spot long: bought tokens, now selling
       proceedsUsd = position.tokenAmount * effectiveExitPrice;
       pnlPct =
         ((effectiveExitPrice - position.effectiveEntryPrice) /
           position.effectiveEntryPrice) *
         100;
     } else {
-      // Shorted (sold), now buying back
-      const buyBackCost = position.tokenAmount * effectiveExitPrice;
-      // Clamp to 0: if price rose past 2× entry the collateral is fully lost, balance cannot go negative
-      proceedsUsd = Math.max(0, position.amountUsd * 2 - buyBackCost);
-      pnlPct =
-        ((position.effectiveEntryPrice - effectiveExitPrice) /
-          position.effectiveEntryPrice) *
-        100;
+      // Margin position: margin back plus the move on the full notional.
+      // Clamp to 0: losses beyond the posted margin are not charged to the balance.
+      const direction = position.side === 'buy' ? 1 : -1;
+      const priceMovePct =
+        (direction * (effectiveExitPrice - position.effectiveEntryPrice)) /
+        position.effectiveEntryPrice;
+      proceedsUsd = Math.max(
+        0,
+        position.amountUsd + direction * position.tokenAmount * (effectiveExitPrice - position.effectiveEntryPrice),
+      );
+      pnlPct = priceMovePct * position.leverage * 100;
     }
 
-    const pnlUsd = proceedsUsd - position.amountUsd;
+    // Swap fees: exit fee on the exit notional, entry fee already paid at open.
+    const entryFeeUsd = position.feeUsd ?? 0;
+    let exitFeeUsd = (position.tokenAmount * effectiveExitPrice * (position.feePct ?? 0)) / 100;
+    proceedsUsd = Math.max(0, proceedsUsd - exitFeeUsd);
+    // Funding comes out of the margin.
+    const fundingUsd = position.fundingUsd ?? 0;
+    proceedsUsd = Math.max(0, proceedsUsd - fundingUsd);
+    if (params.closeReason === 'liquidation') {
+      // As on MockPerpDEX, whatever collateral remains is forfeited.
+      proceedsUsd = 0;
+      exitFeeUsd = 0;
+    }
+    const feeUsd = entryFeeUsd + exitFeeUsd;
 
-    const closed: Position = {
-      ...position,
-      status: 'closed',
-      closeReason: params.closeReason,
-      exitPrice: params.price,
-      effectiveExitPrice,
-      pnlPct,
-      pnlUsd,
-      confidenceAfter: params.confidence,
-      closedAt: nowIso(),
+    const pnlUsd = proceedsUsd - position.amountUsd - entryFeeUsd;
+    if (params.closeReason === 'liquidation') {
+      pnlPct = (pnlUsd / position.amountUsd) * 100;
+    } else {
+      if (feeUsd > 0) pnlPct -= (feeUsd / position.amountUsd) * 100;
+      if (fundingUsd !== 0) pnlPct -= (fundingUsd / position.amountUsd) * 100;
+    }
+
+    return {
+      closed: {
+        ...position,
+        status: 'closed',
+        closeReason: params.closeReason,
+        exitPrice: params.price,
+        effectiveExitPrice,
+        pnlPct,
+        pnlUsd,
+        ...(position.feePct !== undefined ? { feeUsd } : {}),
+        confidenceAfter: params.confidence,
+        closedAt: this.now(),
+      },
+      proceedsUsd,
     };
+  }
 
-    // Return proceeds to balance
-    this.state.balance += proceedsUsd;
-    this.state.openPositions.delete(positionId);
-    this.state.closedPositions.push(closed);
+  /** Rest a limit or stop entry order until it triggers, expires or is cancelled. Throws if invalid. */
+  placeOrder(params: PlaceOrderParams): PendingOrder {
+    if (this.mode === 'spot-only' && params.side === 'sell') {
+      throw new Error('spot-only mode: short positions are not allowed');
+    }
 
-    return closed;
+    if (!isPositiveFiniteNumber(params.triggerPrice)) {
+      throw new Error('Order trigger price must be a positive finite number');
+    }
+
+    if (!isPositiveFiniteNumber(params.positionSizePct)) {
+      throw new Error('Order size must be positive');
+    }
+
+    const order: PendingOrder = {
+      ...params,
+      id: generateId('ord'),
+      createdAt: this.now(),
+    };
+    this.state.pendingOrders.set(order.id, order);
+    return order;
+  }
+
+  /** Cancel a resting order. Returns false when it is no longer pending. */
+  cancelOrder(orderId: string): boolean {
+    return this.state.pendingOrders.delete(orderId);
+  }
+
+  /**
+   * Fill a resting order at `price`. The order is consumed even when the
+   * engine rejects the open (insufficient balance etc.) — the error is rethrown.
+   */
+  fillOrder(orderId: string, price: number): Position {
+    const order = this.state.pendingOrders.get(orderId);
+    if (!order) {
+      throw new Error(`Order ${orderId} not found or no longer pending`);
+    }
+    this.state.pendingOrders.delete(orderId);
+
+    return this.openPosition({
+      agentId: order.agentId,
+      pair: order.pair,
+      dex: order.dex,
+      side: order.side,
+      price,
+      amountUsd: (this.state.balance * Math.min(order.positionSizePct, order.maxPositionSizePct)) / 100,
+      maxPositionSizePct: order.maxPositionSizePct,
+      balance: this.state.balance,
+      confidence: order.confidence,
+      reasoning: order.reasoning,
+      strategyUsed: order.strategyUsed,
+      slippagePct: order.slippagePct,
+      feePct: order.feePct,
+      leverage: order.leverage,
+      trailingStop: order.trailingStop,
+    });
+  }
+
+  /** Drop orders whose expiry has passed. Returns the expired orders. */
+  expireOrders(): PendingOrder[] {
+    const now = this.now();
+    const expired = this.pendingOrders.filter((order) => order.expiresAt <= now);
+    for (const order of expired) this.state.pendingOrders.delete(order.id);
+    return expired;
+  }
+
+  /**
+   * Ratchet a position's trailing stop toward `currentPrice` and report
+   * whether price has crossed it. No-op (false) without a trailing stop.
+   */
+  updateTrailingStop(position: Position, currentPrice: number): boolean {
+    const trailing = position.trailingStop;
+    if (!trailing || !isPositiveFiniteNumber(currentPrice)) return false;
+
+    const improved = position.side === 'buy'
+      ? currentPrice > trailing.extremePrice
+      : currentPrice < trailing.extremePrice;
+    if (improved) {
+      const distance = trailingDistance(trailing.config, currentPrice);
+      const candidate = position.side === 'buy' ? currentPrice - distance : currentPrice + distance;
+      trailing.extremePrice = currentPrice;
+      // The stop only ever moves in the position's favour.
+      trailing.stopPrice = position.side === 'buy'
+        ? Math.max(trailing.stopPrice, candidate)
+        : Math.min(trailing.stopPrice, candidate);
+    }
+
+    return position.side === 'buy'
+      ? currentPrice <= trailing.stopPrice
+      : currentPrice >= trailing.stopPrice;
+  }
+
+  /**
+   * Settle funding on margin positions for every whole hour since the last
+   * accrual: entry notional × fundingRatePct / 8 per hour, paid by longs and
+   * received by shorts (reversed when the rate is negative). Liquidation
+   * prices move with the funding balance. Returns the positions charged.
+   */
+  accrueFunding(fundingRatePct: number): Position[] {
+    const nowMs = Date.parse(this.now());
+    const charged: Position[] = [];
+    for (const position of this.state.openPositions.values()) {
+      if (position.leverage === undefined || position.fundingAccruedAt === undefined) continue;
+      const sinceMs = Date.parse(position.fundingAccruedAt);
+      const hours = Math.floor((nowMs - sinceMs) / 3_600_000);
+      if (!(hours >= 1)) continue;
+      const notionalUsd = position.tokenAmount * position.effectiveEntryPrice;
+      const direction = position.side === 'buy' ? 1 : -1;
+      position.fundingUsd = (position.fundingUsd ?? 0) + (direction * notionalUsd * fundingRatePct * hours) / 800;
+      position.fundingAccruedAt = new Date(sinceMs + hours * 3_600_000).toISOString();
+      position.liquidationPrice = computeLiquidationPrice(position);
+      charged.push(position);
+    }
+    return charged;
+  }
+
+  /** True when the mark price has reached a margin position's liquidation price. */
+  checkLiquidation(position: Position, currentPrice: number): boolean {
+    if (position.liquidationPrice === undefined || !isPositiveFiniteNumber(currentPrice)) return false;
+    return position.side === 'buy'
+      ? currentPrice <= position.liquidationPrice
+      : currentPrice >= position.liquidationPrice;
+  }
+
+  /** Liquidate a margin position: it closes at `price` and the remaining margin is forfeited. */
+  liquidatePosition(positionId: string, price: number): Position {
+    return this.closePosition(positionId, {
+      price,
+      reason: 'Liquidated: equity fell below maintenance margin',
+      closeReason: 'liquidation',
+    });
   }
 
   /** Stop out a position (closes with stop_loss reason) */
@@ -339,9 +817,63 @@ export class PaperEngine {
     }
   }
 
+  /**
+   * Value open positions at `prices` (pair → USD) as if closed now, including
+   * exit slippage, exit fees and funding. Positions without a sane price count
+   * at their posted margin with no unrealized P&L.
+   */
+  markToMarket(prices: Map<string, number>): MarkToMarket {
+    let positionValueUsd = 0;
+    let unrealizedPnlUsd = 0;
+    let exposureUsd = 0;
+    let unpricedPositions = 0;
+    for (const position of this.state.openPositions.values()) {
+      const price = prices.get(position.pair);
+      if (price === undefined || !isPositionPricingSaneForMarket(position, price)) {
+        positionValueUsd += position.amountUsd;
+        exposureUsd += position.amountUsd * (position.leverage ?? 1);
+        unpricedPositions += 1;
+        continue;
+      }
+      const { closed, proceedsUsd } = this.settle(position, { price });
+      positionValueUsd += proceedsUsd;
+      unrealizedPnlUsd += closed.pnlUsd ?? 0;
+      exposureUsd += position.tokenAmount * price;
+    }
+    return {
+      balance: this.state.balance,
+      equity: this.state.balance + positionValueUsd,
+      unrealizedPnlUsd,
+      exposureUsd,
+      unpricedPositions,
+    };
+  }
+
+  /**
+   * Move cash into (+) or out of (−) the account. The P&L baselines shift by the
+   * same amount so a transfer never reads as profit or loss. Returns the new balance.
+   */
+  adjustCapital(deltaUsd: number): number {
+    if (!Number.isFinite(deltaUsd) || deltaUsd === 0) {
+      throw new Error(`Invalid capital adjustment: ${deltaUsd}`);
+    }
+    if (this.state.balance + deltaUsd < 0) {
+      throw new Error(
+        `Insufficient balance: $${this.state.balance.toFixed(2)} < $${Math.abs(deltaUsd).toFixed(2)}`
+      );
+    }
+    if (this.state.initialBalance + deltaUsd <= 0) {
+      throw new Error('Capital adjustment would leave the account with no starting capital');
+    }
+    this.state.balance += deltaUsd;
+    this.state.initialBalance += deltaUsd;
+    this.state.dailyStartBalance += deltaUsd;
+    return this.state.balance;
+  }
+
   /** Reset daily tracking if the calendar date has changed. Call once per tick before reading getDailyPnlPct(). */
   resetDailyTrackingIfNeeded(): void {
-    const today = nowIso().slice(0, 10);
+    const today = this.now().slice(0, 10);
     if (today !== this.state.lastDailyReset) {
       this.state.dailyStartBalance = this.state.balance;
       this.state.lastDailyReset = today;
@@ -384,6 +916,7 @@ export class PaperEngine {
     lastDailyReset: string;
     slippagePct: number;
     mode: 'long-short' | 'spot-only';
+    pendingOrders: PendingOrder[];
   } {
     return {
       balance: this.state.balance,
@@ -394,6 +927,7 @@ export class PaperEngine {
       lastDailyReset: this.state.lastDailyReset,
       slippagePct: this.slippagePct * 100,
       mode: this.mode,
+      pendingOrders: this.pendingOrders,
     };
   }
 
@@ -409,8 +943,15 @@ export class PaperEngine {
     engine.state.lastDailyReset = data.lastDailyReset;
     engine.state.closedPositions = data.closedPositions;
     for (const pos of data.positions) {
+      // Shorts persisted before margin simulation settle as 1x margin positions
+      // (the same P&L as the old short math), but without funding or liquidation.
+      if (pos.side === 'sell' && pos.leverage === undefined) pos.leverage = 1;
       engine.state.openPositions.set(pos.id, pos);
     }
+    // State persisted before resting orders existed has no pendingOrders.
+    for (const order of data.pendingOrders ?? []) {
+      engine.state.pendingOrders.set(order.id, order);
+    }
     return engine;
   }
 }
@@ -0,0 +1,77 @@
+/**
+ * Hourly and daily close history for a pair by name, for pairs without an
+ * on-chain pool address. Providers are tried in order — indexed
+ * GeckoTerminal, CoinGecko, CoinPaprika — and the demo series is only used
+ * when all of them miss.
+ */
+import type { Env } from '../types/env.js';
+import {
+  resolveIndexedGeckoTerminalHourlyPricesForPair,
+  resolveIndexedGeckoTerminalMarketContextForPair,
+  resolveCoinGeckoHourlyPricesForPair,
+  resolveCoinGeckoMarketContextForPair,
+  resolveCoinPaprikaMarketContextForPair,
+  resolveDemoHourlyPricesForPair,
+  resolveDemoMarketContextForPair,
+} from './coingecko-price.js';
+
+export type OhlcvSource = 'coingecko' | 'coinpaprika' | 'geckoterminal' | 'demo' | 'none';
+
+export interface PairPriceHistory {
+  hourlyPrices: number[];
+  dailyPrices: number[];
+  hourlySource: OhlcvSource;
+  dailySource: OhlcvSource;
+}
+
+function firstSeries(candidates: Array<[OhlcvSource, number[] | undefined]>): { prices: number[]; source: OhlcvSource } {
+  for (const [source, prices] of candidates) {
+    if ((prices?.length ?? 0) > 0) return { prices: prices!, source };
+  }
+  return { prices: [], source: 'none' };
+}
+
+/** `pair` must already be normalized with normalizePairForDex. */
+export async function resolvePairPriceHistory(env: Env, pair: string): Promise<PairPriceHistory> {
+  const [indexedGecko, coingecko, coinpaprika] = await Promise.all([
+    resolveIndexedGeckoTerminalMarketContextForPair(env, pair),
+    resolveCoinGeckoMarketContextForPair(env, pair),
+    resolveCoinPaprikaMarketContextForPair(env, pair),
+  ]);
+  const demo = resolveDemoMarketContextForPair(pair);
+
+  const hourly = firstSeries([
+    ['geckoterminal', indexedGecko?.hourlyPrices],
+    ['coingecko', coingecko?.hourlyPrices],
+    ['coinpaprika', coinpaprika?.hourlyPrices],
+    ['demo', demo?.hourlyPrices],
+  ]);
+  const daily = firstSeries([
+    ['geckoterminal', indexedGecko?.dailyPrices],
+    ['coingecko', coingecko?.dailyPrices],
+    ['coinpaprika', coinpaprika?.dailyPrices],
+    ['demo', demo?.dailyPrices],
+  ]);
+  return { hourlyPrices: hourly.prices, dailyPrices: daily.prices, hourlySource: hourly.source, dailySource: daily.source };
+}
+
+/**
+ * A longer run of hourly closes than resolvePairPriceHistory keeps, for
+ * indicators on bars built from several hours. CoinPaprika is not tried: its
+ * hourly history stops at 24 points. `pair` must already be normalized.
+ */
+export async function resolvePairHourlyHistory(
+  env: Env,
+  pair: string,
+  bars: number,
+): Promise<{ prices: number[]; source: OhlcvSource }> {
+  const [indexedGecko, coingecko] = await Promise.all([
+    resolveIndexedGeckoTerminalHourlyPricesForPair(env, pair, bars),
+    resolveCoinGeckoHourlyPricesForPair(env, pair, bars),
+  ]);
+  return firstSeries([
+    ['geckoterminal', indexedGecko],
+    ['coingecko', coingecko],
+    ['demo', resolveDemoHourlyPricesForPair(pair, bars)],
+  ]);
+}
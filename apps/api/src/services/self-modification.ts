@@ -0,0 +1,346 @@
+/**
+ * Self-modification A/B evaluation.
+ *
+ * Applying a modification records the config values it replaces and a
+ * baseline of closed-trade metrics over the window before it. Once the agent
+ * has logged `selfModEvaluationCycles` decisions after it, the window up to the
+ * last of them is measured; if PnL or drawdown degraded beyond
+ * `selfModRevertThresholdPct` the previous values are restored automatically.
+ * Counting decisions rather than elapsed time keeps a paused agent's idle
+ * stretch out of the after window.
+ */
+import { drizzle } from 'drizzle-orm/d1';
+import { and, eq, gt, gte, inArray, lte } from 'drizzle-orm';
+import { AgentConfigSchema, intervalToMs } from '@something-in-loop/shared';
+import { agentDecisions, agentSelfModifications, agents, trades } from '../db/schema.js';
+import { parseJsonRequired } from '../lib/json.js';
+import { nowIso } from '../lib/utils.js';
+import { computeMetrics } from './snapshot.js';
+import { recordConfigVersion } from './config-versions.js';
+import type { ConfigVersionAuthor } from './config-versions.js';
+import { emitWebhookEvent } from './webhooks.js';
+import type { Env } from '../types/env.js';
+
+type Db = ReturnType<typeof drizzle>;
+type SelfModificationRow = typeof agentSelfModifications.$inferSelect;
+
+/** Closed-trade metrics over one side of the A/B window. */
+export interface SelfModWindowMetrics {
+  from: string;
+  to: string;
+  totalTrades: number;
+  winRate: number;
+  pnlUsd: number;
+  /** Window PnL as % of paper balance. */
+  totalPnlPct: number;
+  /** Peak-to-trough of cumulative trade PnL %; null under two trades. */
+  maxDrawdown: number | null;
+}
+
+const EvaluationSettingsSchema = AgentConfigSchema.pick({
+  analysisInterval: true,
+  paperBalance: true,
+  selfModEvaluationCycles: true,
+  selfModRevertThresholdPct: true,
+});
+
+type EvaluationSettings = ReturnType<typeof EvaluationSettingsSchema.parse>;
+
+/** Evaluation knobs from a stored (raw) agent config, falling back to defaults. */
+export function evaluationSettingsFromConfig(config: Record<string, unknown>): EvaluationSettings {
+  const parsed = EvaluationSettingsSchema.safeParse(config);
+  return parsed.success ? parsed.data : EvaluationSettingsSchema.parse({});
+}
+
+/** Length of each A/B window: N analysis cycles at the agent's interval. */
+export function evaluationWindowMs(settings: EvaluationSettings): number {
+  return settings.selfModEvaluationCycles * intervalToMs(settings.analysisInterval);
+}
+
+/** The current values of every key the modification changes; null marks keys that were unset. */
+export function pickPreviousValues(
+  config: Record<string, unknown>,
+  changes: Record<string, unknown>,
+): Record<string, unknown> {
+  const previous: Record<string, unknown> = {};
+  for (const key of Object.keys(changes)) {
+    previous[key] = config[key] === undefined ? null : config[key];
+  }
+  return previous;
+}
+
+/** Restore previously recorded values; null removes the key so the schema default applies again. */
+export function restorePreviousValues(
+  config: Record<string, unknown>,
+  previousValues: Record<string, unknown>,
+): Record<string, unknown> {
+  const restored = { ...config };
+  for (const [key, value] of Object.entries(previousValues)) {
+    if (value === null) delete restored[key];
+    else restored[key] = value;
+  }
+  return restored;
+}
+
+export function computeWindowMetrics(
+  closedTrades: Array<{ pnlPct: number | null; pnlUsd: number | null }>,
+  paperBalance: number,
+  window: { from: string; to: string },
+): SelfModWindowMetrics {
+  const pnlUsd = closedTrades.reduce((sum, t) => sum + (t.pnlUsd ?? 0), 0);
+  const metrics = computeMetrics(closedTrades, paperBalance, paperBalance + pnlUsd);
+  return {
+    from: window.from,
+    to: window.to,
+    totalTrades: metrics.totalTrades,
+    winRate: metrics.winRate,
+    pnlUsd,
+    totalPnlPct: paperBalance > 0 ? metrics.totalPnlPct : 0,
+    maxDrawdown: metrics.maxDrawdown,
+  };
+}
+
+/**
+ * Why the modification should be rolled back, or null to keep it. An after
+ * window without closed trades is inconclusive and keeps the change.
+ */
+export function findDegradation(
+  baseline: SelfModWindowMetrics,
+  after: SelfModWindowMetrics,
+  thresholdPct: number,
+): string | null {
+  if (after.totalTrades === 0) return null;
+  const pnlDrop = baseline.totalPnlPct - after.totalPnlPct;
+  if (pnlDrop > thresholdPct) {
+    return `PnL ${after.totalPnlPct.toFixed(2)}% vs ${baseline.totalPnlPct.toFixed(2)}% before (−${pnlDrop.toFixed(2)} pts > ${thresholdPct})`;
+  }
+  const drawdownRise = (after.maxDrawdown ?? 0) - (baseline.maxDrawdown ?? 0);
+  if (drawdownRise > thresholdPct) {
+    return `max drawdown ${(after.maxDrawdown ?? 0).toFixed(2)}% vs ${(baseline.maxDrawdown ?? 0).toFixed(2)}% before (+${drawdownRise.toFixed(2)} pts > ${thresholdPct})`;
+  }
+  return null;
+}
+
+/** Closed-trade metrics for an agent over `window` (by close time). */
+export async function loadWindowMetrics(
+  db: Db,
+  agentId: string,
+  paperBalance: number,
+  window: { from: string; to: string },
+): Promise<SelfModWindowMetrics> {
+  const closed = await db
+    .select({ pnlPct: trades.pnlPct, pnlUsd: trades.pnlUsd })
+    .from(trades)
+    .where(and(
+      eq(trades.agentId, agentId),
+      eq(trades.status, 'closed'),
+      gte(trades.closedAt, window.from),
+      lte(trades.closedAt, window.to),
+    ))
+    .orderBy(trades.closedAt);
+  return computeWindowMetrics(closed, paperBalance, window);
+}
+
+/**
+ * Merge a pending modification into the agent config, recording the values
+ * it replaces, the baseline window and when to evaluate it, and emit
+ * `self_modification.applied`. Returns the new config JSON so callers can push
+ * it to the agent's DO cache.
+ */
+export async function applySelfModification(
+  env: Env,
+  db: Db,
+  agent: { id: string; config: string },
+  mod: SelfModificationRow,
+  now = new Date(),
+): Promise<string> {
+  const changes = parseJsonRequired<Record<string, unknown>>(mod.changes);
+  const config = parseJsonRequired<Record<string, unknown>>(agent.config);
+  const settings = evaluationSettingsFromConfig({ ...config, ...changes });
+  const windowMs = evaluationWindowMs(settings);
+  const appliedAt = now.toISOString();
+  const baseline = await loadWindowMetrics(db, agent.id, settings.paperBalance, {
+    from: new Date(now.getTime() - windowMs).toISOString(),
+    to: appliedAt,
+  });
+
+  const previousValues = pickPreviousValues(config, changes);
+  const mergedConfig = JSON.stringify({ ...config, ...changes });
+  await db.update(agents).set({ config: mergedConfig, updatedAt: appliedAt }).where(eq(agents.id, agent.id));
+  await recordConfigVersion(db, {
+    agentId: agent.id,
+    config: mergedConfig,
+    author: 'self_mod',
+    authorRef: mod.id,
+    note: mod.reason,
+  });
+  await db
+    .update(agentSelfModifications)
+    .set({
+      status: 'applied',
+      changesApplied: mod.changes,
+      appliedAt,
+      previousValues: JSON.stringify(previousValues),
+      baselineMetrics: JSON.stringify(baseline),
+      evaluateAfter: new Date(now.getTime() + windowMs).toISOString(),
+    })
+    .where(eq(agentSelfModifications.id, mod.id));
+  await emitWebhookEvent(env, {
+    type: 'self_modification.applied',
+    agentId: agent.id,
+    data: { modificationId: mod.id, reason: mod.reason, changes, previousValues, baselineMetrics: baseline },
+  });
+  return mergedConfig;
+}
+
+export type RevertSelfModificationOptions = {
+  reason: string;
+  /** 'self_mod' for automatic reverts, 'user' for manual ones. */
+  author: ConfigVersionAuthor;
+  evaluationMetrics?: SelfModWindowMetrics;
+};
+
+/**
+ * A modification applied after `mod` that is still in effect and changed one
+ * of the keys `mod` would restore. Reverting `mod` over it would silently undo
+ * the later change, so it has to be reverted first.
+ */
+export async function findOverlappingLaterModification(
+  db: Db,
+  mod: SelfModificationRow,
+): Promise<SelfModificationRow | null> {
+  if (!mod.appliedAt || !mod.previousValues) return null;
+  const keys = Object.keys(parseJsonRequired<Record<string, unknown>>(mod.previousValues));
+  const later = await db
+    .select()
+    .from(agentSelfModifications)
+    .where(and(
+      eq(agentSelfModifications.agentId, mod.agentId),
+      inArray(agentSelfModifications.status, ['applied', 'kept']),
+      gt(agentSelfModifications.appliedAt, mod.appliedAt),
+    ))
+    .orderBy(agentSelfModifications.appliedAt);
+  return later.find((other) => {
+    if (other.id === mod.id || !other.changesApplied) return false;
+    const changed = parseJsonRequired<Record<string, unknown>>(other.changesApplied);
+    return keys.some((key) => key in changed);
+  }) ?? null;
+}
+
+/**
+ * Restore the values an applied modification replaced and emit
+ * `self_modification.reverted`. Returns the new config JSON, or null when the
+ * modification was never applied with recorded values or a later modification
+ * still in effect changed the same keys.
+ */
+export async function revertSelfModification(
+  env: Env,
+  db: Db,
+  agent: { id: string; config: string },
+  mod: SelfModificationRow,
+  options: RevertSelfModificationOptions,
+): Promise<string | null> {
+  const { reason, author, evaluationMetrics } = options;
+  if (!mod.previousValues || (mod.status !== 'applied' && mod.status !== 'kept')) return null;
+  if (await findOverlappingLaterModification(db, mod)) return null;
+  const config = parseJsonRequired<Record<string, unknown>>(agent.config);
+  const previousValues = parseJsonRequired<Record<string, unknown>>(mod.previousValues);
+  const restored = JSON.stringify(restorePreviousValues(config, previousValues));
+  const now = nowIso();
+  await db.update(agents).set({ config: restored, updatedAt: now }).where(eq(agents.id, agent.id));
+  await recordConfigVersion(db, {
+    agentId: agent.id,
+    config: restored,
+    author,
+    authorRef: mod.id,
+    note: `revert: ${reason}`,
+  });
+  await db
+    .update(agentSelfModifications)
+    .set({
+      status: 'reverted',
+      revertedAt: now,
+      revertReason: reason,
+      ...(evaluationMetrics && { evaluationMetrics: JSON.stringify(evaluationMetrics), evaluatedAt: now }),
+    })
+    .where(eq(agentSelfModifications.id, mod.id));
+  await emitWebhookEvent(env, {
+    type: 'self_modification.reverted',
+    agentId: agent.id,
+    data: {
+      modificationId: mod.id,
+      reason,
+      author,
+      restoredValues: previousValues,
+      evaluationMetrics: evaluationMetrics ?? null,
+    },
+  });
+  return restored;
+}
+
+/**
+ * Evaluate every applied modification the agent has run its evaluation cycles
+ * since: keep it, or revert it when performance degraded. evaluateAfter is only
+ * the earliest such time; a modification followed by fewer decisions stays
+ * applied. A degraded modification that a later one overrides is kept, since
+ * restoring it would undo the later change. Returns the agent's config JSON
+ * when a revert changed it, otherwise null.
+ */
+export async function evaluateDueSelfModifications(
+  env: Env,
+  db: Db,
+  agentId: string,
+  now = new Date(),
+): Promise<string | null> {
+  const nowStr = now.toISOString();
+  const due = await db
+    .select()
+    .from(agentSelfModifications)
+    .where(and(
+      eq(agentSelfModifications.agentId, agentId),
+      eq(agentSelfModifications.status, 'applied'),
+      lte(agentSelfModifications.evaluateAfter, nowStr),
+    ))
+    .orderBy(agentSelfModifications.appliedAt);
+  if (due.length === 0) return null;
+
+  const [agent] = await db.select({ id: agents.id, config: agents.config }).from(agents).where(eq(agents.id, agentId));
+  if (!agent) return null;
+
+  let configChanged: string | null = null;
+  for (const mod of due) {
+    if (!mod.appliedAt || !mod.baselineMetrics) continue;
+    const settings = evaluationSettingsFromConfig(parseJsonRequired<Record<string, unknown>>(agent.config));
+    const cycles = await db
+      .select({ createdAt: agentDecisions.createdAt })
+      .from(agentDecisions)
+      .where(and(eq(agentDecisions.agentId, agentId), gt(agentDecisions.createdAt, mod.appliedAt)))
+      .orderBy(agentDecisions.createdAt)
+      .limit(settings.selfModEvaluationCycles);
+    if (cycles.length < settings.selfModEvaluationCycles) continue;
+
+    const after = await loadWindowMetrics(db, agentId, settings.paperBalance, {
+      from: mod.appliedAt,
+      to: cycles[cycles.length - 1].createdAt,
+    });
+    const baseline = parseJsonRequired<SelfModWindowMetrics>(mod.baselineMetrics);
+    const degradation = findDegradation(baseline, after, settings.selfModRevertThresholdPct);
+    if (degradation) {
+      const restored = await revertSelfModification(env, db, agent, mod, {
+        reason: `auto: ${degradation}`,
+        author: 'self_mod',
+        evaluationMetrics: after,
+      });
+      if (restored) {
+        agent.config = restored;
+        configChanged = restored;
+        continue;
+      }
+    }
+    await db
+      .update(agentSelfModifications)
+      .set({ status: 'kept', evaluationMetrics: JSON.stringify(after), evaluatedAt: nowStr })
+      .where(eq(agentSelfModifications.id, mod.id));
+  }
+  return configChanged;
+}
@@ -1,13 +1,18 @@
 /**
  * Performance snapshot service.
  * Called by the hourly Cron Trigger to compute and persist snapshots
- * for all running agents.
+ * for all running agents. Open positions are marked to market from the
+ * agent's PaperEngine state, so equity moves with unrealized P&L.
  */
 import { drizzle } from 'drizzle-orm/d1';
 import { and, eq } from 'drizzle-orm';
 import { agents, trades, performanceSnapshots } from '../db/schema.js';
+import { getTradingAgentEngineStateDo } from '../lib/do-clients.js';
 import { generateId, nowIso } from '../lib/utils.js';
 import type { Env } from '../types/env.js';
+import { PaperEngine } from './paper-engine.js';
+import type { MarkToMarket } from './paper-engine.js';
+import { resolveCurrentPriceUsd } from './price-resolver.js';
 
 /** Compute performance metrics for a single agent from its trade records */
 export interface AgentPerformanceMetrics {
@@ -73,6 +78,28 @@ export function isSnapshotEligibleAgent(agent: {
   }
 }
 
+/**
+ * Mark an agent's open PaperEngine positions to market. `priceCache` is shared
+ * across agents in one cron run so each pair is priced once. Returns null when
+ * the DO has no engine state.
+ */
+export async function valueAgentPositions(
+  env: Env,
+  agentId: string,
+  priceCache: Map<string, number>,
+): Promise<MarkToMarket | null> {
+  const state = await getTradingAgentEngineStateDo(env, agentId);
+  if (!state) return null;
+  const engine = PaperEngine.deserialize(state);
+  const prices = new Map<string, number>();
+  for (const pair of new Set(engine.openPositions.map((p) => p.pair))) {
+    if (!priceCache.has(pair)) priceCache.set(pair, await resolveCurrentPriceUsd(env, pair));
+    const price = priceCache.get(pair) ?? 0;
+    if (price > 0) prices.set(pair, price);
+  }
+  return engine.markToMarket(prices);
+}
+
 /**
  * Save performance snapshots for all agents.
  * Called from the hourly Cron Trigger.
@@ -83,6 +110,7 @@ export async function snapshotAllAgents(env: Env): Promise<void> {
   const PAGE_SIZE = 50;
   let offset = 0;
   let totalProcessed = 0;
+  const priceCache = new Map<string, number>();
 
   for (;;) {
     const batch = await db
@@ -104,6 +132,8 @@ export async function snapshotAllAgents(env: Env): Promise<void> {
           .select({
             pnlPct: trades.pnlPct,
             pnlUsd: trades.pnlUsd,
+            amountUsd: trades.amountUsd,
+            leverage: trades.leverage,
             status: trades.status,
           })
           .from(trades)
@@ -112,20 +142,37 @@ export async function snapshotAllAgents(env: Env): Promise<void> {
         const closed = agentTrades.filter(
           (t) => t.status === 'closed'
         );
-        const openPnl = agentTrades
-          .filter((t) => t.status === 'open')
-          .reduce((acc, t) => acc + (t.pnlUsd ?? 0), 0);
+        const open = agentTrades.filter((t) => t.status === 'open');
 
-        // Approximate current balance from initial + closed P&L + open P&L
-        const closedPnl = closed.reduce((acc, t) => acc + (t.pnlUsd ?? 0), 0);
-        const currentBalance = config.paperBalance + closedPnl + openPnl;
+        let valuation: MarkToMarket | null = null;
+        try {
+          valuation = await valueAgentPositions(env, agent.id, priceCache);
+        } catch (err) {
+          console.warn(`[snapshot] Mark-to-market failed for agent ${agent.id}, using trade records:`, err);
+        }
+        if (!valuation) {
+          // Approximate from initial + closed P&L + last recorded open P&L
+          const closedPnl = closed.reduce((acc, t) => acc + (t.pnlUsd ?? 0), 0);
+          const openPnl = open.reduce((acc, t) => acc + (t.pnlUsd ?? 0), 0);
+          const equity = config.paperBalance + closedPnl + openPnl;
+          valuation = {
+            balance: equity,
+            equity,
+            unrealizedPnlUsd: openPnl,
+            exposureUsd: open.reduce((acc, t) => acc + t.amountUsd * (t.leverage ?? 1), 0),
+            unpricedPositions: open.length,
+          };
+        }
 
-        const metrics = computeMetrics(closed, config.paperBalance, currentBalance);
+        const metrics = computeMetrics(closed, config.paperBalance, valuation.equity);
 
         await db.insert(performanceSnapshots).values({
           id: generateId('snap'),
           agentId: agent.id,
-          balance: metrics.balance,
+          balance: valuation.balance,
+          equity: valuation.equity,
+          unrealizedPnlUsd: valuation.unrealizedPnlUsd,
+          exposureUsd: valuation.exposureUsd,
           totalPnlPct: metrics.totalPnlPct,
           winRate: metrics.winRate,
           totalTrades: metrics.totalTrades,
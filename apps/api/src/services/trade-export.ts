@@ -0,0 +1,317 @@
+/**
+ * Trade journal export: CSV / NDJSON encoding and a FIFO realized-gains report.
+ *
+ * Everything here works on async iterables so the route can page rows out of
+ * D1 and stream them to the client without holding a user's full history in
+ * Worker memory. Only the FIFO lot queues (open acquisitions) are buffered.
+ */
+import type { trades } from '../db/schema.js';
+
+export type ExportFormat = 'csv' | 'ndjson';
+
+const DAY_MS = 24 * 60 * 60_000;
+/** Holdings longer than this count as long-term. */
+const LONG_TERM_DAYS = 365;
+/** Lot quantities below this are treated as fully consumed (float dust). */
+const QUANTITY_EPSILON = 1e-12;
+
+export type GainsTrade = Pick<
+  typeof trades.$inferSelect,
+  'id' | 'pair' | 'side' | 'entryPrice' | 'amountUsd' | 'pnlUsd' | 'leverage' | 'openedAt' | 'closedAt'
+> & { isPaper: boolean };
+
+export interface RealizedGainRow {
+  recordType: 'lot' | 'year_total';
+  taxYear: number;
+  isPaper: boolean;
+  pair: string | null;
+  /** Closing trade for `lot` rows. */
+  tradeId: string | null;
+  /** Trade whose acquisition the lot was matched against; null for position-basis rows. */
+  acquiredTradeId: string | null;
+  quantity: number | null;
+  acquiredAt: string | null;
+  disposedAt: string | null;
+  holdingDays: number | null;
+  term: 'short' | 'long';
+  costBasisUsd: number;
+  proceedsUsd: number;
+  gainUsd: number;
+  /** `fifo` for spot longs matched against earlier buys; `position` for shorts and leveraged trades. */
+  basis: 'fifo' | 'position' | null;
+}
+
+export const REALIZED_GAIN_COLUMNS = [
+  'recordType',
+  'taxYear',
+  'isPaper',
+  'pair',
+  'tradeId',
+  'acquiredTradeId',
+  'quantity',
+  'acquiredAt',
+  'disposedAt',
+  'holdingDays',
+  'term',
+  'costBasisUsd',
+  'proceedsUsd',
+  'gainUsd',
+  'basis',
+] as const satisfies readonly (keyof RealizedGainRow)[];
+
+/** Spot longs are matched FIFO; shorts and leveraged positions are realised per position. */
+export function isFifoTrade(trade: Pick<GainsTrade, 'side' | 'leverage'>): boolean {
+  return trade.side === 'buy' && (trade.leverage ?? 1) <= 1;
+}
+
+function tradeQuantity(trade: GainsTrade): number {
+  return trade.entryPrice > 0 ? (trade.amountUsd * (trade.leverage ?? 1)) / trade.entryPrice : 0;
+}
+
+function holding(acquiredAt: string, disposedAt: string): { holdingDays: number; term: 'short' | 'long' } {
+  const holdingDays = Math.max(0, Math.floor((Date.parse(disposedAt) - Date.parse(acquiredAt)) / DAY_MS));
+  return { holdingDays, term: holdingDays > LONG_TERM_DAYS ? 'long' : 'short' };
+}
+
+interface OpenLot {
+  tradeId: string;
+  acquiredAt: string;
+  quantity: number;
+  costPerUnit: number;
+}
+
+/**
+ * Per-book FIFO lot queues. Books are keyed by paper/live and pair so paper
+ * fills never consume live acquisitions.
+ */
+export class FifoLedger {
+  private books = new Map<string, OpenLot[]>();
+
+  private book(trade: Pick<GainsTrade, 'isPaper' | 'pair'>): OpenLot[] {
+    const key = `${trade.isPaper ? 'paper' : 'live'}:${trade.pair}`;
+    let lots = this.books.get(key);
+    if (!lots) {
+      lots = [];
+      this.books.set(key, lots);
+    }
+    return lots;
+  }
+
+  /**
+   * Record a spot buy; other trades are ignored. Scale-in lots are already
+   * folded into their position by the engine, at the position's open time.
+   */
+  acquire(trade: GainsTrade): void {
+    const quantity = tradeQuantity(trade);
+    if (!isFifoTrade(trade) || quantity <= 0) return;
+    this.book(trade).push({
+      tradeId: trade.id,
+      acquiredAt: trade.openedAt,
+      quantity,
+      costPerUnit: trade.amountUsd / quantity,
+    });
+  }
+
+  /**
+   * Realise a closed trade. Spot longs consume the oldest open lots and split
+   * the trade's net proceeds across them by quantity; anything the queue cannot
+   * cover (or any short / leveraged trade) is realised against its own cost.
+   */
+  dispose(trade: GainsTrade): RealizedGainRow[] {
+    const disposedAt = trade.closedAt ?? trade.openedAt;
+    const taxYear = new Date(disposedAt).getUTCFullYear();
+    const proceedsUsd = trade.amountUsd + (trade.pnlUsd ?? 0);
+    const positionRow = (quantity: number, costBasisUsd: number, proceeds: number, basis: 'fifo' | 'position'): RealizedGainRow => ({
+      recordType: 'lot',
+      taxYear,
+      isPaper: trade.isPaper,
+      pair: trade.pair,
+      tradeId: trade.id,
+      acquiredTradeId: basis === 'fifo' ? trade.id : null,
+      quantity,
+      acquiredAt: trade.openedAt,
+      disposedAt,
+      ...holding(trade.openedAt, disposedAt),
+      costBasisUsd,
+      proceedsUsd: proceeds,
+      gainUsd: proceeds - costBasisUsd,
+      basis,
+    });
+
+    const totalQuantity = tradeQuantity(trade);
+    if (!isFifoTrade(trade) || totalQuantity <= 0) {
+      return [positionRow(totalQuantity, trade.amountUsd, proceedsUsd, 'position')];
+    }
+
+    const lots = this.book(trade);
+    const rows: RealizedGainRow[] = [];
+    let remaining = totalQuantity;
+    while (remaining > QUANTITY_EPSILON && lots.length > 0) {
+      const lot = lots[0];
+      const quantity = Math.min(lot.quantity, remaining);
+      const proceeds = (proceedsUsd * quantity) / totalQuantity;
+      const costBasisUsd = lot.costPerUnit * quantity;
+      rows.push({
+        ...positionRow(quantity, costBasisUsd, proceeds, 'fifo'),
+        acquiredTradeId: lot.tradeId,
+        acquiredAt: lot.acquiredAt,
+        ...holding(lot.acquiredAt, disposedAt),
+      });
+      lot.quantity -= quantity;
+      remaining -= quantity;
+      if (lot.quantity <= QUANTITY_EPSILON) lots.shift();
+    }
+    if (remaining > QUANTITY_EPSILON) {
+      const share = remaining / totalQuantity;
+      rows.push(positionRow(remaining, trade.amountUsd * share, proceedsUsd * share, 'fifo'));
+    }
+    return rows;
+  }
+}
+
+export type RealizedGainsParams = {
+  /** Spot buys (open or closed) ordered by openedAt. */
+  acquisitions: AsyncIterable<GainsTrade>;
+  /** Closed trades ordered by closedAt. */
+  disposals: AsyncIterable<GainsTrade>;
+  /** ISO bounds on the disposal date; earlier disposals still consume lots. */
+  from?: string;
+  to?: string;
+};
+
+/** Running `year_total` rows for one calendar year, keyed by book and term. */
+function addToYearTotals(totals: Map<string, RealizedGainRow>, row: RealizedGainRow): void {
+  const key = `${row.isPaper}:${row.term}`;
+  const total = totals.get(key) ?? {
+    recordType: 'year_total',
+    taxYear: row.taxYear,
+    isPaper: row.isPaper,
+    pair: null,
+    tradeId: null,
+    acquiredTradeId: null,
+    quantity: null,
+    acquiredAt: null,
+    disposedAt: null,
+    holdingDays: null,
+    term: row.term,
+    costBasisUsd: 0,
+    proceedsUsd: 0,
+    gainUsd: 0,
+    basis: null,
+  };
+  total.costBasisUsd += row.costBasisUsd;
+  total.proceedsUsd += row.proceedsUsd;
+  total.gainUsd += row.gainUsd;
+  totals.set(key, total);
+}
+
+/**
+ * Realized gains per lot in disposal order, followed after each calendar year
+ * by one `year_total` row per paper/live book and holding term. Acquisitions
+ * are pulled lazily, only as far as the current disposal's close time.
+ */
+export async function* realizedGains(params: RealizedGainsParams): AsyncGenerator<RealizedGainRow> {
+  const ledger = new FifoLedger();
+  const acquisitions = params.acquisitions[Symbol.asyncIterator]();
+  let nextAcquisition = await acquisitions.next();
+  let currentYear: number | null = null;
+  let yearTotals = new Map<string, RealizedGainRow>();
+
+  try {
+    for await (const disposal of params.disposals) {
+      const disposedAt = disposal.closedAt ?? disposal.openedAt;
+      if (params.to && disposedAt > params.to) break;
+      while (!nextAcquisition.done && nextAcquisition.value.openedAt <= disposedAt) {
+        ledger.acquire(nextAcquisition.value);
+        nextAcquisition = await acquisitions.next();
+      }
+
+      const rows = ledger.dispose(disposal);
+      if (params.from && disposedAt < params.from) continue;
+
+      const taxYear = rows[0]?.taxYear ?? new Date(disposedAt).getUTCFullYear();
+      if (currentYear !== null && taxYear !== currentYear) {
+        yield* yearTotals.values();
+        yearTotals = new Map();
+      }
+      currentYear = taxYear;
+      for (const row of rows) {
+        addToYearTotals(yearTotals, row);
+        yield row;
+      }
+    }
+    yield* yearTotals.values();
+  } finally {
+    await acquisitions.return?.();
+  }
+}
+
+/**
+ * Keyset-paginate a query: `fetchPage` receives the last row of the previous
+ * page (undefined for the first) and returns up to `pageSize` rows.
+ */
+export async function* paginate<T>(
+  fetchPage: (after: T | undefined) => Promise<T[]>,
+  pageSize: number
+): AsyncGenerator<T> {
+  let after: T | undefined;
+  for (;;) {
+    const page = await fetchPage(after);
+    yield* page;
+    if (page.length < pageSize) return;
+    after = page[page.length - 1];
+  }
+}
+
+/**
+ * Quote a CSV field when needed. Text starting with a spreadsheet formula
+ * character is prefixed with `'` so reasoning strings can't run as formulas.
+ */
+export function csvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  let text = typeof value === 'string' ? value : String(value);
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function csvRow(values: readonly unknown[]): string {
+  return `${values.map(csvField).join(',')}\r\n`;
+}
+
+/** Encode rows as a byte stream, pulling one row per read so memory stays flat. */
+export function encodeExportStream<T extends object>(
+  rows: AsyncIterable<T>,
+  format: ExportFormat,
+  columns: readonly (keyof T & string)[]
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const iterator = rows[Symbol.asyncIterator]();
+  let headerSent = format !== 'csv';
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (!headerSent) {
+        headerSent = true;
+        controller.enqueue(encoder.encode(csvRow(columns)));
+        return;
+      }
+      try {
+        const next = await iterator.next();
+        if (next.done) {
+          controller.close();
+          return;
+        }
+        const line = format === 'csv'
+          ? csvRow(columns.map((column) => next.value[column]))
+          : `${JSON.stringify(next.value)}\n`;
+        controller.enqueue(encoder.encode(line));
+      } catch (err) {
+        console.error('[trade export] stream failed:', err);
+        controller.error(err);
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
@@ -0,0 +1,262 @@
+/**
+ * Outbound webhooks.
+ *
+ * `emitWebhookEvent` fans an agent or manager event out to the owner's
+ * matching webhooks: one `webhook_deliveries` row per webhook holding the
+ * exact JSON body, then a WEBHOOK_QUEUE message per row. The queue consumer
+ * (lib/webhook-queue.ts) calls `attemptWebhookDelivery` and retries with
+ * backoff. Without the queue binding each delivery is attempted once inline.
+ *
+ * Requests carry `X-Webhook-Signature: t=<unix seconds>,v1=<hex>` where v1 is
+ * HMAC-SHA256(secret, `${t}.${body}`). The secret is stored encrypted with
+ * KEY_ENCRYPTION_SECRET and decrypted per attempt.
+ */
+import { drizzle } from 'drizzle-orm/d1';
+import { and, eq } from 'drizzle-orm';
+import type { WebhookEventType } from '@something-in-loop/shared';
+import { agents, webhookDeliveries, webhooks } from '../db/schema.js';
+import { decryptKey } from '../lib/crypto.js';
+import { generateId, nowIso } from '../lib/utils.js';
+import type { Position } from './paper-engine.js';
+import type { Env } from '../types/env.js';
+
+type Db = ReturnType<typeof drizzle>;
+type WebhookRow = typeof webhooks.$inferSelect;
+
+/** Matches max_retries in wrangler.toml — Cloudflare delivers max_retries+1 times total. */
+export const MAX_WEBHOOK_ATTEMPTS = 8;
+const WEBHOOK_TIMEOUT_MS = 10_000;
+const RETRY_BASE_DELAY_SECONDS = 30;
+/** Cloudflare Queues caps retry delays at 12 hours. */
+const RETRY_MAX_DELAY_SECONDS = 12 * 60 * 60;
+const ERROR_MAX_CHARS = 500;
+
+/** `ping` is only sent by the test route and bypasses event filters. */
+export type WebhookEventName = WebhookEventType | 'ping';
+
+export interface WebhookPayload {
+  /** Shared by every webhook that receives this event. */
+  id: string;
+  type: WebhookEventName;
+  createdAt: string;
+  agentId: string | null;
+  managerId: string | null;
+  data: Record<string, unknown>;
+}
+
+export type EmitWebhookEventParams = {
+  type: WebhookEventName;
+  /** Resolved from the agent when omitted. */
+  ownerAddress?: string | null;
+  agentId?: string | null;
+  managerId?: string | null;
+  data: Record<string, unknown>;
+  /** Deliver to this webhook only (test pings). */
+  webhookId?: string;
+};
+
+export type WebhookDeliveryOutcome = {
+  outcome: 'delivered' | 'retry' | 'failed';
+  attempts: number;
+};
+
+/** Trade fields included in trade.* event payloads. */
+export function tradeEventData(position: Position): Record<string, unknown> {
+  return {
+    tradeId: position.id,
+    pair: position.pair,
+    side: position.side,
+    status: position.status,
+    fillType: position.fillType ?? null,
+    amountUsd: position.amountUsd,
+    entryPrice: position.entryPrice,
+    exitPrice: position.exitPrice ?? null,
+    leverage: position.leverage ?? null,
+    pnlUsd: position.pnlUsd ?? null,
+    pnlPct: position.pnlPct ?? null,
+    closeReason: position.closeReason ?? null,
+    openedAt: position.openedAt,
+    closedAt: position.closedAt ?? null,
+  };
+}
+
+export function parseWebhookEvents(raw: string): WebhookEventType[] {
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return Array.isArray(parsed) ? parsed.filter((e): e is WebhookEventType => typeof e === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Random signing secret for webhooks created without one. */
+export function generateWebhookSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return `whsec_${Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('')}`;
+}
+
+export async function signWebhookPayload(secret: string, timestamp: number, body: string): Promise<string> {
+  const enc = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', enc.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, enc.encode(`${timestamp}.${body}`));
+  return Array.from(new Uint8Array(signature), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** Queue retry delay after `attempts` failed attempts: 30s, 90s, 4.5m, … capped at 12h. */
+export function webhookRetryDelaySeconds(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_SECONDS * 3 ** Math.max(0, attempts - 1), RETRY_MAX_DELAY_SECONDS);
+}
+
+async function findTargetWebhooks(db: Db, params: EmitWebhookEventParams): Promise<WebhookRow[]> {
+  if (params.webhookId) {
+    return db.select().from(webhooks).where(eq(webhooks.id, params.webhookId));
+  }
+
+  let ownerAddress = params.ownerAddress ?? null;
+  if (!ownerAddress && params.agentId) {
+    const [agent] = await db
+      .select({ ownerAddress: agents.ownerAddress })
+      .from(agents)
+      .where(eq(agents.id, params.agentId));
+    ownerAddress = agent?.ownerAddress ?? null;
+  }
+  if (!ownerAddress) return [];
+
+  const rows = await db
+    .select()
+    .from(webhooks)
+    .where(and(eq(webhooks.ownerAddress, ownerAddress), eq(webhooks.isActive, true)));
+  return rows.filter((w) => parseWebhookEvents(w.events).includes(params.type as WebhookEventType));
+}
+
+/**
+ * Record and dispatch one event to every matching webhook. Never throws —
+ * webhook trouble must not interrupt trading ticks or manager cycles.
+ * Returns the delivery ids created.
+ */
+export async function emitWebhookEvent(env: Env, params: EmitWebhookEventParams): Promise<string[]> {
+  try {
+    const db = drizzle(env.DB);
+    const targets = await findTargetWebhooks(db, params);
+    if (targets.length === 0) return [];
+
+    const payload: WebhookPayload = {
+      id: generateId('evt'),
+      type: params.type,
+      createdAt: nowIso(),
+      agentId: params.agentId ?? null,
+      managerId: params.managerId ?? null,
+      data: params.data,
+    };
+    const body = JSON.stringify(payload);
+
+    const deliveryIds: string[] = [];
+    for (const webhook of targets) {
+      const deliveryId = generateId('whd');
+      await db.insert(webhookDeliveries).values({
+        id: deliveryId,
+        webhookId: webhook.id,
+        eventId: payload.id,
+        eventType: payload.type,
+        payload: body,
+        status: 'pending',
+        attempts: 0,
+        createdAt: payload.createdAt,
+      });
+      deliveryIds.push(deliveryId);
+
+      if (env.WEBHOOK_QUEUE) {
+        await env.WEBHOOK_QUEUE.send({ deliveryId });
+      } else {
+        const { outcome } = await attemptWebhookDelivery(db, deliveryId, {
+          encryptionSecret: env.KEY_ENCRYPTION_SECRET,
+          finalAttempt: true,
+        });
+        if (outcome !== 'delivered') {
+          console.warn(`[webhooks] Inline delivery ${deliveryId} to ${webhook.id} failed (no WEBHOOK_QUEUE, not retried)`);
+        }
+      }
+    }
+    return deliveryIds;
+  } catch (err) {
+    console.error(`[webhooks] Failed to emit ${params.type}:`, err);
+    return [];
+  }
+}
+
+/**
+ * Make one delivery attempt and record its outcome on the delivery row.
+ * `retry` means the attempt failed and the caller should try again later;
+ * after MAX_WEBHOOK_ATTEMPTS (or with `finalAttempt`) failures become `failed`.
+ */
+export async function attemptWebhookDelivery(
+  db: Db,
+  deliveryId: string,
+  options: { encryptionSecret: string | undefined; finalAttempt?: boolean; fetchImpl?: typeof fetch },
+): Promise<WebhookDeliveryOutcome> {
+  const [row] = await db
+    .select({ delivery: webhookDeliveries, webhook: webhooks })
+    .from(webhookDeliveries)
+    .innerJoin(webhooks, eq(webhookDeliveries.webhookId, webhooks.id))
+    .where(eq(webhookDeliveries.id, deliveryId));
+  if (!row) return { outcome: 'failed', attempts: 0 };
+
+  const { delivery, webhook } = row;
+  if (delivery.status !== 'pending') {
+    return { outcome: delivery.status === 'delivered' ? 'delivered' : 'failed', attempts: delivery.attempts };
+  }
+  // Ping deliveries are explicit requests, so they go out even while disabled.
+  if (!webhook.isActive && delivery.eventType !== 'ping') {
+    await db
+      .update(webhookDeliveries)
+      .set({ status: 'failed', error: 'Webhook disabled' })
+      .where(eq(webhookDeliveries.id, deliveryId));
+    return { outcome: 'failed', attempts: delivery.attempts };
+  }
+
+  const attempts = delivery.attempts + 1;
+  const attemptedAt = nowIso();
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+  try {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const secret = await decryptKey(webhook.secret, options.encryptionSecret);
+    const signature = await signWebhookPayload(secret, timestamp, delivery.payload);
+    const res = await (options.fetchImpl ?? fetch)(webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'something-in-loop-webhooks/1',
+        'X-Webhook-Id': webhook.id,
+        'X-Webhook-Delivery': delivery.id,
+        'X-Webhook-Event': delivery.eventType,
+        'X-Webhook-Signature': `t=${timestamp},v1=${signature}`,
+      },
+      body: delivery.payload,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    responseStatus = res.status;
+    if (!res.ok) {
+      const text = await res.text().catch(() => '');
+      error = `HTTP ${res.status}${text ? `: ${text}` : ''}`.slice(0, ERROR_MAX_CHARS);
+    }
+  } catch (err) {
+    error = (err instanceof Error ? err.message : String(err)).slice(0, ERROR_MAX_CHARS);
+  }
+
+  const outcome: WebhookDeliveryOutcome['outcome'] = error === null
+    ? 'delivered'
+    : options.finalAttempt || attempts >= MAX_WEBHOOK_ATTEMPTS ? 'failed' : 'retry';
+  await db
+    .update(webhookDeliveries)
+    .set({
+      status: outcome === 'retry' ? 'pending' : outcome,
+      attempts,
+      responseStatus,
+      error,
+      lastAttemptAt: attemptedAt,
+      deliveredAt: outcome === 'delivered' ? attemptedAt : null,
+    })
+    .where(eq(webhookDeliveries.id, deliveryId));
+  return { outcome, attempts };
+}
@@ -1,7 +1,7 @@
 import type { TradingAgentDO } from '../agents/trading-agent.js';
 import type { AgentManagerDO } from '../agents/agent-manager.js';
 import type { GlobalRateLimiterDO } from '../lib/global-rate-limiter.js';
-import type { LlmJobMessage } from './queue-types.js';
+import type { LlmJobMessage, WebhookDeliveryMessage } from './queue-types.js';
 
 /** Cloudflare Worker environment bindings */
 export interface Env {
@@ -16,7 +16,21 @@ export interface Env {
    * Optional — if absent, the agent-loop falls back to the synchronous inline path.
    */
   LLM_QUEUE?: Queue<LlmJobMessage>;
+  /**
+   * Cloudflare Queue binding for outbound webhook deliveries (retried with backoff).
+   * Optional — if absent, each delivery is attempted once inline.
+   */
+  WEBHOOK_QUEUE?: Queue<WebhookDeliveryMessage>;
   OPENROUTER_API_KEY: string;
+  /**
+   * HTTP endpoint of an SMTP relay used by email alert channels. Receives
+   * POST { from, to, subject, text } as JSON. Email channels fail until set.
+   */
+  EMAIL_RELAY_URL?: string;
+  /** Optional bearer token sent to EMAIL_RELAY_URL. */
+  EMAIL_RELAY_API_KEY?: string;
+  /** Sender address for alert emails. Falls back to alerts@localhost. */
+  ALERT_EMAIL_FROM?: string;
   ANTHROPIC_API_KEY?: string;
   /** Optional comma-separated origins for CORS (e.g. production Pages URL). Merged with default allowlist. */
   CORS_ORIGINS?: string;
@@ -1,3 +1,4 @@
+import type { EnsemblePolicy, TeamRole } from '@something-in-loop/shared';
 import type { LLMRouterConfig, TradeDecisionRequest } from '../services/llm-router.js';
 
 /**
@@ -19,4 +20,19 @@ export type LlmJobMessage = {
   llmConfig: LlmJobConfig;
   /** Full trade context built from market data fetch this tick. */
   tradeRequest: TradeDecisionRequest;
+  /** Config version the tick ran under; recorded on the hold decision if the job fails. */
+  configVersionId?: string | null;
+  /** Ensemble members (keys re-resolved per provider); replaces the single-model call when set. */
+  ensemble?: {
+    policy: EnsemblePolicy;
+    members: Array<{ model: string; provider: 'openrouter' | 'anthropic' } | { model: string; unavailable: string }>;
+  } | null;
+  /** Team roles (keys re-resolved per provider); replaces the single-model call when set. */
+  team?: Record<TeamRole, { model: string; provider: 'openrouter' | 'anthropic'; roleMd: string | null }> | null;
+};
+
+/** Message enqueued per webhook delivery; the payload itself stays in D1. */
+export type WebhookDeliveryMessage = {
+  /** webhook_deliveries.id */
+  deliveryId: string;
 };
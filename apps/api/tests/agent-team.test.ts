@@ -0,0 +1,159 @@
+/**
+ * Agent team tests.
+ *
+ * generateText is stubbed to answer per model, so getTeamTradeDecision runs the
+ * real structured-decision path for the analyst, risk officer and executor.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { TeamRole, TradeDecision } from '@something-in-loop/shared';
+import type { TeamMembers, TradeDecisionRequest } from '../src/services/llm-router.js';
+
+const answers = new Map<string, object>();
+const prompts = new Map<string, string>();
+
+vi.mock('ai', () => ({
+  generateText: vi.fn(async ({ model, prompt }: { model: string; prompt: string }) => {
+    const answer = answers.get(model);
+    if (!answer) throw new Error(`No stub answer for ${model}`);
+    prompts.set(model, prompt);
+    return { text: JSON.stringify(answer), usage: { totalTokens: 100, inputTokens: 80, outputTokens: 20 } };
+  }),
+}));
+vi.mock('../src/services/llm-router/provider-selection.js', async () => {
+  const actual = await vi.importActual<typeof import('../src/services/llm-router/provider-selection.js')>(
+    '../src/services/llm-router/provider-selection.js',
+  );
+  return {
+    ...actual,
+    createModelResolver: () => ({ isAnthropic: false, resolveModel: (modelId: string) => modelId }),
+  };
+});
+
+const { applyRiskVerdict, getTeamTradeDecision } = await import('../src/services/llm-router.js');
+const { parseAnalystThesisResponse, parseRiskVerdictResponse } = await import(
+  '../src/services/llm-router/response-parsers.js'
+);
+const { buildRiskReviewPrompt } = await import('../src/agents/prompts.js');
+
+const MODELS: Record<TeamRole, string> = {
+  analyst: 'test/analyst',
+  riskOfficer: 'test/risk',
+  executor: 'test/executor',
+};
+
+function team(roleMd: Partial<Record<TeamRole, string>> = {}): TeamMembers {
+  const member = (role: TeamRole) => ({
+    model: MODELS[role],
+    roleMd: roleMd[role] ?? null,
+    config: { apiKey: 'sk-test', model: MODELS[role], allowFallback: false, timeoutMs: 1_000 },
+  });
+  return { analyst: member('analyst'), riskOfficer: member('riskOfficer'), executor: member('executor') };
+}
+
+const request: TradeDecisionRequest = {
+  portfolioState: { balance: 1000, openPositions: 0, dailyPnlPct: 0, totalPnlPct: 0 },
+  openPositions: [],
+  marketData: [{ pair: 'WETH/USDC', priceUsd: 3200, priceChange: { h1: 0.5 }, indicatorText: 'RSI 48' }],
+  lastDecisions: [],
+  config: { pairs: ['WETH/USDC'], maxPositionSizePct: 10, maxOpenPositions: 2, stopLossPct: 5, takeProfitPct: 10 },
+};
+
+const buy: TradeDecision = { action: 'buy', targetPair: 'WETH/USDC', confidence: 0.8, positionSizePct: 8, reasoning: 'breakout' };
+const thesis = { bias: 'bullish', targetPair: 'WETH/USDC', conviction: 0.7, thesis: 'Higher lows above the 50 EMA' };
+
+beforeEach(() => {
+  answers.clear();
+  prompts.clear();
+});
+
+describe('applyRiskVerdict', () => {
+  it('turns a vetoed entry into a hold', () => {
+    const { decision, sizeCapPct } = applyRiskVerdict(buy, { verdict: 'veto', reasoning: 'daily loss limit close' });
+    expect(decision).toMatchObject({ action: 'hold', confidence: 0.8 });
+    expect(decision.reasoning).toBe('Risk officer vetoed buy WETH/USDC: daily loss limit close');
+    expect(sizeCapPct).toBeUndefined();
+  });
+
+  it('returns the cap on a resize and treats a resize to 0% as a veto', () => {
+    expect(applyRiskVerdict(buy, { verdict: 'resize', maxPositionSizePct: 3, reasoning: 'volatile' })).toEqual({
+      decision: buy,
+      sizeCapPct: 3,
+    });
+    expect(applyRiskVerdict(buy, { verdict: 'resize', maxPositionSizePct: 0, reasoning: 'no room' }).decision.action).toBe('hold');
+  });
+
+  it('lets exits and holds through a veto', () => {
+    const close: TradeDecision = { action: 'close', targetPair: 'WETH/USDC', confidence: 0.9, reasoning: 'stop hit' };
+    expect(applyRiskVerdict(close, { verdict: 'veto', reasoning: 'no new risk' })).toEqual({ decision: close });
+  });
+});
+
+describe('team response parsers', () => {
+  it('parses a thesis and a verdict out of fenced JSON', () => {
+    expect(parseAnalystThesisResponse('```json\n' + JSON.stringify(thesis) + '\n```')).toMatchObject({ bias: 'bullish', conviction: 0.7 });
+    expect(parseRiskVerdictResponse('{"verdict":"resize","maxPositionSizePct":4,"reasoning":"thin book"}')).toMatchObject({
+      verdict: 'resize',
+      maxPositionSizePct: 4,
+    });
+  });
+
+  it('rejects answers outside the schema', () => {
+    expect(() => parseAnalystThesisResponse('{"bias":"up","conviction":2,"thesis":"x"}')).toThrow();
+    expect(() => parseRiskVerdictResponse('{"verdict":"maybe","reasoning":"x"}')).toThrow();
+  });
+});
+
+describe('getTeamTradeDecision', () => {
+  it('runs the roles in turn and enforces a resize as a size cap', async () => {
+    answers.set(MODELS.analyst, thesis);
+    answers.set(MODELS.riskOfficer, { verdict: 'resize', maxPositionSizePct: 4, reasoning: 'one position already open' });
+    answers.set(MODELS.executor, buy);
+
+    const result = await getTeamTradeDecision(team({ executor: '## Your Role\nYou place the orders.' }), request);
+
+    expect(result).toMatchObject({ action: 'buy', targetPair: 'WETH/USDC', riskSizeCapPct: 4, modelUsed: 'team:test/executor' });
+    expect(result.tokensUsed).toBe(300);
+    expect(result.teamTranscript?.map((t) => [t.role, t.model])).toEqual([
+      ['analyst', MODELS.analyst],
+      ['riskOfficer', MODELS.riskOfficer],
+      ['executor', MODELS.executor],
+    ]);
+    expect(result.teamTranscript?.[2].content).toMatch(/^buy WETH\/USDC \(capped at 4%\)/);
+
+    expect(prompts.get(MODELS.riskOfficer)).toContain('bullish on WETH/USDC (conviction 0.70): Higher lows above the 50 EMA');
+    const executorPrompt = prompts.get(MODELS.executor)!;
+    expect(executorPrompt).toContain('You place the orders.');
+    expect(executorPrompt).toContain('Risk officer verdict: resize to 4%: one position already open');
+  });
+
+  it('holds when the risk officer vetoes', async () => {
+    answers.set(MODELS.analyst, thesis);
+    answers.set(MODELS.riskOfficer, { verdict: 'veto', reasoning: 'drawdown limit' });
+    answers.set(MODELS.executor, buy);
+
+    const result = await getTeamTradeDecision(team(), request);
+    expect(result.action).toBe('hold');
+    expect(result.reasoning).toContain('Risk officer vetoed buy WETH/USDC: drawdown limit');
+    expect(result.riskSizeCapPct).toBeUndefined();
+  });
+
+  it('fails the whole decision when a role fails', async () => {
+    answers.set(MODELS.analyst, thesis);
+    await expect(getTeamTradeDecision(team(), request)).rejects.toThrow(/^Team riskOfficer \(test\/risk\) failed/);
+    expect(prompts.has(MODELS.executor)).toBe(false);
+  });
+});
+
+describe('buildRiskReviewPrompt', () => {
+  it('shows the thesis and the agent risk limits', () => {
+    const prompt = buildRiskReviewPrompt({
+      portfolioState: request.portfolioState,
+      openPositions: [],
+      config: { ...request.config, regimeGate: 'trending' },
+      thesis: 'bullish on WETH/USDC',
+    });
+    expect(prompt).toContain('## Analyst Thesis\nbullish on WETH/USDC');
+    expect(prompt).toContain('Max position size: 10% of balance');
+    expect(prompt).toContain('Regime gate: new entries only on pairs whose 1h regime is trending');
+  });
+});
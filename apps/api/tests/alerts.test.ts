@@ -0,0 +1,231 @@
+/**
+ * Alerting rules engine tests.
+ *
+ * Channel adapters run against a fake fetch; processAlertSignal uses a small
+ * in-memory D1 stand-in covering the queries it makes.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { agents, alertChannels, alertNotifications, alertRules } from '../src/db/schema.js';
+
+type RuleRow = typeof alertRules.$inferSelect;
+type ChannelRow = typeof alertChannels.$inferSelect;
+type NotificationRow = typeof alertNotifications.$inferSelect;
+
+const state = {
+  rules: [] as RuleRow[],
+  channels: [] as ChannelRow[],
+  notifications: [] as NotificationRow[],
+};
+
+function rowsFor(table: unknown): unknown[] {
+  if (table === agents) return [{ name: 'Scalper', ownerAddress: '0xowner' }];
+  if (table === alertRules) return state.rules;
+  if (table === alertChannels) return state.channels;
+  // Throttle lookup: latest notification first.
+  return [...state.notifications].reverse();
+}
+
+const mockDb = {
+  select: () => ({
+    from: (table: unknown) => ({
+      where: () => {
+        const rows = Promise.resolve(rowsFor(table));
+        return Object.assign(rows, { orderBy: () => ({ limit: async (n: number) => rowsFor(table).slice(0, n) }) });
+      },
+    }),
+  }),
+  insert: () => ({
+    values: async (row: NotificationRow) => {
+      state.notifications.push(row);
+    },
+  }),
+};
+
+vi.mock('drizzle-orm/d1', () => ({ drizzle: () => mockDb }));
+
+const {
+  decryptChannelConfig,
+  drawdownPct,
+  encryptChannelConfig,
+  formatAlertMessage,
+  isThrottled,
+  processAlertSignal,
+  ruleMatchesSignal,
+} = await import('../src/services/alerts.js');
+const { maskChannelConfig, sendAlert } = await import('../src/services/alert-channels.js');
+
+const KEY_ENCRYPTION_SECRET = 'c'.repeat(64);
+const discordConfig = { type: 'discord' as const, webhookUrl: 'https://discord.com/api/webhooks/1/secret-token' };
+
+function okFetch() {
+  return vi.fn(async (_url: string | URL | Request, _init?: RequestInit) => new Response('{}', { status: 200 }));
+}
+
+beforeEach(async () => {
+  state.notifications = [];
+  state.channels = [{
+    id: 'ach_1',
+    ownerAddress: '0xowner',
+    name: 'Ops',
+    type: 'discord',
+    config: await encryptChannelConfig(discordConfig, KEY_ENCRYPTION_SECRET),
+    isActive: true,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+  }];
+  state.rules = [{
+    id: 'arule_1',
+    ownerAddress: '0xowner',
+    agentId: null,
+    name: 'Prices stuck',
+    type: 'price_miss',
+    condition: JSON.stringify({ type: 'price_miss', misses: 3 }),
+    channelIds: JSON.stringify(['ach_1']),
+    throttleMinutes: 30,
+    isActive: true,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+  }];
+});
+
+describe('rule evaluation', () => {
+  it('matches each signal against its threshold', () => {
+    const drawdown = { type: 'drawdown' as const, drawdownPct: 9, equity: 910, peakEquity: 1000 };
+    expect(ruleMatchesSignal({ type: 'drawdown', thresholdPct: 8 }, drawdown)).toBe(true);
+    expect(ruleMatchesSignal({ type: 'drawdown', thresholdPct: 10 }, drawdown)).toBe(false);
+
+    const idle = { type: 'no_decision' as const, lastDecisionAt: null, minutesSinceDecision: 180, intervalMinutes: 60 };
+    expect(ruleMatchesSignal({ type: 'no_decision', intervals: 3 }, idle)).toBe(true);
+    expect(ruleMatchesSignal({ type: 'no_decision', intervals: 4 }, idle)).toBe(false);
+
+    const miss = { type: 'price_miss' as const, positionId: 'p1', pair: 'WETH/USDC', misses: 2 };
+    expect(ruleMatchesSignal({ type: 'price_miss', misses: 3 }, miss)).toBe(false);
+    expect(ruleMatchesSignal({ type: 'llm_fallback' }, miss)).toBe(false);
+  });
+
+  it('throttles within the window and measures drawdown from the peak', () => {
+    const now = new Date('2025-01-01T01:00:00.000Z');
+    expect(isThrottled('2025-01-01T00:45:00.000Z', 30, now)).toBe(true);
+    expect(isThrottled('2025-01-01T00:15:00.000Z', 30, now)).toBe(false);
+    expect(isThrottled('2025-01-01T00:59:00.000Z', 0, now)).toBe(false);
+    expect(isThrottled(null, 30, now)).toBe(false);
+
+    expect(drawdownPct(1000, 900)).toBeCloseTo(10, 6);
+    expect(drawdownPct(1000, 1100)).toBe(0);
+  });
+
+  it('formats a message naming the agent and rule', () => {
+    const message = formatAlertMessage('Fallback', 'Scalper', {
+      type: 'llm_fallback',
+      configuredModel: 'anthropic/claude-sonnet',
+      modelUsed: 'meta-llama/llama-3.3-70b-instruct:free',
+    });
+    expect(message.title).toBe('[Scalper] Fallback');
+    expect(message.body).toContain('meta-llama/llama-3.3-70b-instruct:free');
+  });
+});
+
+describe('channel adapters', () => {
+  const message = { title: 'Drawdown', body: 'Equity down 9%' };
+
+  it('posts to the Telegram Bot API and Discord webhooks', async () => {
+    const fetchImpl = okFetch();
+    await sendAlert(
+      { id: 'a', config: { type: 'telegram', botToken: '123456:ABCDEFGHIJ', chatId: '-100' } },
+      message,
+      { env: {}, fetchImpl }
+    );
+    const [url, init] = fetchImpl.mock.calls[0];
+    expect(url).toBe('https://api.telegram.org/bot123456:ABCDEFGHIJ/sendMessage');
+    expect(JSON.parse(String(init?.body))).toMatchObject({ chat_id: '-100', text: 'Drawdown\n\nEquity down 9%' });
+
+    await sendAlert(
+      { id: 'b', config: { type: 'discord', webhookUrl: 'https://discord.com/api/webhooks/1/tok' } },
+      { title: 'Long', body: 'x'.repeat(5000) },
+      { env: {}, fetchImpl }
+    );
+    const discordBody = JSON.parse(String(fetchImpl.mock.calls[1][1]?.body)) as { content: string };
+    expect(discordBody.content.length).toBe(2000);
+  });
+
+  it('sends email through the relay and reports failures without throwing', async () => {
+    const fetchImpl = okFetch();
+    const email = { id: 'c', config: { type: 'email' as const, to: 'ops@example.com' } };
+
+    const unconfigured = await sendAlert(email, message, { env: {}, fetchImpl });
+    expect(unconfigured).toMatchObject({ ok: false, error: expect.stringContaining('EMAIL_RELAY_URL') });
+
+    const env = { EMAIL_RELAY_URL: 'https://relay.example/send', EMAIL_RELAY_API_KEY: 'k', ALERT_EMAIL_FROM: 'bot@example.com' };
+    expect(await sendAlert(email, message, { env, fetchImpl })).toMatchObject({ ok: true, error: null });
+    const [url, init] = fetchImpl.mock.calls[0];
+    expect(url).toBe('https://relay.example/send');
+    expect((init?.headers as Record<string, string>).Authorization).toBe('Bearer k');
+    expect(JSON.parse(String(init?.body))).toEqual({ from: 'bot@example.com', to: 'ops@example.com', subject: 'Drawdown', text: 'Equity down 9%' });
+
+    const failing = vi.fn(async () => new Response('bad token', { status: 401 }));
+    const failed = await sendAlert(
+      { id: 'd', config: { type: 'telegram', botToken: '123456:SECRETTOKEN', chatId: '1' } },
+      message,
+      { env: {}, fetchImpl: failing }
+    );
+    expect(failed).toEqual({ channelId: 'd', type: 'telegram', ok: false, error: 'HTTP 401: bad token' });
+  });
+
+  it('masks secrets in channel configs', () => {
+    expect(maskChannelConfig({ type: 'telegram', botToken: '123456:ABCDEFGHIJ', chatId: '-100' }))
+      .toEqual({ type: 'telegram', chatId: '-100', botToken: '****GHIJ' });
+    expect(maskChannelConfig({ type: 'discord', webhookUrl: 'https://discord.com/api/webhooks/1/secret' }))
+      .toEqual({ type: 'discord', webhookUrl: 'https://discord.com/api/webhooks/1/****' });
+  });
+});
+
+describe('processAlertSignal', () => {
+  const signal = { type: 'price_miss' as const, positionId: 'pos_1', pair: 'WETH/USDC', misses: 3 };
+
+  it('notifies matching rules, records history and throttles repeats', async () => {
+    const fetchImpl = okFetch();
+    const env = { DB: {}, KEY_ENCRYPTION_SECRET } as any;
+
+    const first = await processAlertSignal(env, { agentId: 'agent_1', signal, fetchImpl, now: new Date('2025-01-01T00:00:00.000Z') });
+    expect(first).toHaveLength(1);
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+    expect(state.notifications[0]).toMatchObject({ ruleId: 'arule_1', agentId: 'agent_1', ruleType: 'price_miss', status: 'sent' });
+    expect(JSON.parse(state.notifications[0].deliveries)).toEqual([
+      { channelId: 'ach_1', type: 'discord', ok: true, error: null },
+    ]);
+
+    const throttled = await processAlertSignal(env, { agentId: 'agent_1', signal, fetchImpl, now: new Date('2025-01-01T00:10:00.000Z') });
+    expect(throttled).toEqual([]);
+
+    const later = await processAlertSignal(env, { agentId: 'agent_1', signal, fetchImpl, now: new Date('2025-01-01T00:31:00.000Z') });
+    expect(later).toHaveLength(1);
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+  });
+
+  it('ignores rules scoped to other agents or below threshold', async () => {
+    const fetchImpl = okFetch();
+    state.rules.push({ ...state.rules[0], id: 'arule_2', agentId: 'agent_2', condition: JSON.stringify({ type: 'price_miss', misses: 1 }) });
+
+    const ids = await processAlertSignal({ DB: {}, KEY_ENCRYPTION_SECRET } as any, { agentId: 'agent_1', signal: { ...signal, misses: 2 }, fetchImpl });
+    expect(ids).toEqual([]);
+    expect(fetchImpl).not.toHaveBeenCalled();
+  });
+});
+
+describe('channel config encryption', () => {
+  it('stores channel secrets encrypted and round-trips them', async () => {
+    const stored = await encryptChannelConfig(discordConfig, KEY_ENCRYPTION_SECRET);
+    expect(stored).not.toContain('secret-token');
+    expect(await decryptChannelConfig(stored, KEY_ENCRYPTION_SECRET)).toEqual(discordConfig);
+  });
+
+  it('skips channels whose config cannot be decrypted', async () => {
+    const fetchImpl = okFetch();
+    const signal = { type: 'price_miss' as const, positionId: 'pos_1', pair: 'WETH/USDC', misses: 3 };
+
+    const ids = await processAlertSignal({ DB: {}, KEY_ENCRYPTION_SECRET: 'd'.repeat(64) } as any, { agentId: 'agent_1', signal, fetchImpl });
+    expect(ids).toHaveLength(1);
+    expect(fetchImpl).not.toHaveBeenCalled();
+    expect(state.notifications[0].status).toBe('failed');
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Performance analytics tests.
+ */
+import { describe, it, expect } from 'vitest';
+import { computeAnalytics, computeTradeStats } from '../src/services/analytics.js';
+import type { AnalyticsTrade } from '../src/services/analytics.js';
+
+function trade(overrides: Partial<AnalyticsTrade> & Pick<AnalyticsTrade, 'openedAt'>): AnalyticsTrade {
+  return {
+    pair: 'WETH/USDC',
+    strategyUsed: 'combined',
+    status: 'closed',
+    pnlPct: null,
+    pnlUsd: null,
+    closedAt: null,
+    ...overrides,
+  };
+}
+
+const history: AnalyticsTrade[] = [
+  trade({ openedAt: '2025-01-01T00:00:00.000Z', closedAt: '2025-01-01T12:00:00.000Z', pnlUsd: 200, pnlPct: 4 }),
+  trade({ openedAt: '2025-01-02T00:00:00.000Z', closedAt: '2025-01-02T12:00:00.000Z', pnlUsd: -100, pnlPct: -2, pair: 'AERO/USDC' }),
+  trade({ openedAt: '2025-01-03T00:00:00.000Z', closedAt: '2025-01-03T12:00:00.000Z', pnlUsd: -50, pnlPct: -1, strategyUsed: 'rsi_oversold' }),
+  trade({ openedAt: '2025-01-04T00:00:00.000Z', closedAt: '2025-01-04T12:00:00.000Z', pnlUsd: 150, pnlPct: 3 }),
+  trade({ openedAt: '2025-01-04T06:00:00.000Z', status: 'open' }),
+];
+
+describe('computeTradeStats', () => {
+  it('computes profit factor, expectancy and average win/loss', () => {
+    const stats = computeTradeStats(history.filter((t) => t.status === 'closed'));
+    expect(stats).toMatchObject({ trades: 4, wins: 2, losses: 2, winRate: 0.5, pnlUsd: 200 });
+    expect(stats.profitFactor).toBeCloseTo(350 / 150, 6);
+    expect(stats.expectancyUsd).toBe(50);
+    expect(stats.averageWinUsd).toBe(175);
+    expect(stats.averageLossUsd).toBe(-75);
+    expect(computeTradeStats([]).profitFactor).toBeNull();
+  });
+});
+
+describe('computeAnalytics', () => {
+  it('builds a daily equity curve and derives drawdown, streaks and ratios from it', () => {
+    const analytics = computeAnalytics({
+      trades: history,
+      initialBalance: 10_000,
+      from: '2025-01-01T00:00:00.000Z',
+      to: '2025-01-05T00:00:00.000Z',
+    });
+    expect(analytics.equityCurve.map((p) => p.equity)).toEqual([10_200, 10_100, 10_050, 10_200, 10_200]);
+    expect(analytics.endingEquity).toBe(10_200);
+    expect(analytics.totalReturnPct).toBeCloseTo(2, 6);
+    expect(analytics.maxDrawdownPct).toBeCloseTo((150 / 10_200) * 100, 6);
+    expect(analytics.longestLosingStreak).toBe(2);
+    expect(analytics.openTrades).toBe(1);
+    expect(analytics.sharpeRatio).toBeGreaterThan(0);
+    expect(analytics.sortinoRatio).toBeGreaterThan(analytics.sharpeRatio!);
+    expect(analytics.calmarRatio).toBeCloseTo(analytics.annualizedReturnPct! / analytics.maxDrawdownPct, 6);
+    // Three closed half-days, then Jan 4 fully covered by the overlapping closed and open trades.
+    expect(analytics.timeInMarketPct).toBeCloseTo(((36 + 24) / 96) * 100, 6);
+    expect(analytics.byPair.map((r) => [r.key, r.pnlUsd])).toEqual([['WETH/USDC', 300], ['AERO/USDC', -100]]);
+    expect(analytics.byStrategy.find((r) => r.key === 'rsi_oversold')?.trades).toBe(1);
+  });
+
+  it('starts a later window from the equity realised before it', () => {
+    const analytics = computeAnalytics({
+      trades: history,
+      initialBalance: 10_000,
+      from: '2025-01-03T00:00:00.000Z',
+      to: '2025-01-05T00:00:00.000Z',
+    });
+    expect(analytics.startingEquity).toBe(10_100);
+    expect(analytics.trades).toBe(2);
+    expect(analytics.pnlUsd).toBe(100);
+  });
+});
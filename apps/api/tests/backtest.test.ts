@@ -0,0 +1,370 @@
+/**
+ * Backtest replay tests.
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { AgentConfigSchema, BACKTEST_LLM_MAX_BARS, BacktestRequestSchema } from '@something-in-loop/shared';
+import type { TradeDecision } from '@something-in-loop/shared';
+import {
+  BacktestLlmLimitError,
+  createLlmDecisionProvider,
+  createMemoryDecisionCache,
+  createRuleDecisionProvider,
+  replayBacktest,
+} from '../src/agents/backtest.js';
+import type { BacktestDecisionProvider, BacktestLlmCaller } from '../src/agents/backtest.js';
+import type { OHLCVCandle } from '../src/services/gecko-terminal.js';
+import { computeMetrics } from '../src/services/snapshot.js';
+import { PaperEngine } from '../src/services/paper-engine.js';
+
+// Stub cloudflare:workers (DurableObject base class) — not available in Vitest/Node
+vi.mock('cloudflare:workers', () => ({
+  DurableObject: class {
+    constructor(_state: unknown, _env: unknown) {}
+  },
+}));
+
+const HOUR_MS = 60 * 60_000;
+const START_MS = Date.UTC(2025, 0, 1, 0, 0, 0);
+
+function candlesFromCloses(closes: number[], startMs = START_MS): OHLCVCandle[] {
+  return closes.map((c, i) => ({ t: startMs + i * HOUR_MS, o: c, h: c, l: c, c }));
+}
+
+function makeConfig(overrides: Record<string, unknown> = {}) {
+  return AgentConfigSchema.parse({
+    name: 'Backtest Agent',
+    pairs: ['WETH/USDC'],
+    paperBalance: 10_000,
+    maxPositionSizePct: 20,
+    maxOpenPositions: 1,
+    stopLossPct: 5,
+    takeProfitPct: 10,
+    slippageSimulation: 0,
+    cooldownAfterLossMinutes: 0,
+    maxDailyLossPct: 50,
+    ...overrides,
+  });
+}
+
+/** Emits the scripted decision at the given bar indexes, hold otherwise. */
+function scripted(script: Record<number, Partial<TradeDecision>>): BacktestDecisionProvider {
+  return async ({ barIndex }) => ({
+    action: 'hold',
+    confidence: 0.9,
+    reasoning: 'scripted',
+    targetPair: 'WETH/USDC',
+    suggestedPositionSizePct: 20,
+    ...script[barIndex],
+  });
+}
+
+/** Deterministic oscillating series: long enough for RSI/EMA/MACD/BB to fire both ways. */
+function oscillatingCloses(bars: number): number[] {
+  return Array.from({ length: bars }, (_, i) => 2000 + 300 * Math.sin(i / 6) + i * 0.5);
+}
+
+describe('backtest replay', () => {
+  it('closes a losing long via stop loss at the bar where the threshold is crossed', async () => {
+    const result = await replayBacktest({
+      config: makeConfig(),
+      candles: { 'WETH/USDC': candlesFromCloses([100, 100, 98, 96, 94, 94]) },
+      decide: scripted({ 0: { action: 'buy' } }),
+    });
+
+    expect(result.trades).toHaveLength(1);
+    const trade = result.trades[0];
+    expect(trade.closeReason).toBe('stop_loss');
+    expect(trade.exitPrice).toBe(94);
+    expect(trade.openedAt).toBe(new Date(START_MS).toISOString());
+    expect(trade.closedAt).toBe(new Date(START_MS + 4 * HOUR_MS).toISOString());
+    expect(result.metrics.balance).toBeCloseTo(10_000 - 2000 * 0.06, 6);
+  });
+
+  it('takes profit and closes leftovers at the final bar when closeOpenAtEnd is set', async () => {
+    const result = await replayBacktest({
+      config: makeConfig({ maxOpenPositions: 2 }),
+      candles: {
+        'WETH/USDC': candlesFromCloses([100, 105, 111, 111]),
+        'AERO/USDC': candlesFromCloses([1, 1, 1.02, 1.03]),
+      },
+      decide: scripted({
+        0: { action: 'buy' },
+        1: { action: 'buy', targetPair: 'AERO/USDC' },
+      }),
+    });
+
+    // AERO/USDC is not in config.pairs, so only WETH/USDC is replayed.
+    expect(result.trades.map((t) => [t.pair, t.closeReason])).toEqual([['WETH/USDC', 'take_profit']]);
+
+    const multi = await replayBacktest({
+      config: makeConfig({ pairs: ['WETH/USDC', 'AERO/USDC'], maxOpenPositions: 2 }),
+      candles: {
+        'WETH/USDC': candlesFromCloses([100, 105, 111, 111]),
+        'AERO/USDC': candlesFromCloses([1, 1, 1.02, 1.03]),
+      },
+      decide: scripted({
+        0: { action: 'buy' },
+        1: { action: 'buy', targetPair: 'AERO/USDC' },
+      }),
+    });
+    expect(multi.trades.map((t) => [t.pair, t.closeReason])).toEqual([
+      ['WETH/USDC', 'take_profit'],
+      ['AERO/USDC', 'manual'],
+    ]);
+    expect(multi.openPositions).toHaveLength(0);
+  });
+
+  it('skips decisions below the behavior confidence threshold', async () => {
+    const result = await replayBacktest({
+      config: makeConfig({ behavior: { confidenceThreshold: 95 } }),
+      candles: { 'WETH/USDC': candlesFromCloses([100, 120, 140]) },
+      decide: scripted({ 0: { action: 'buy', confidence: 0.9 } }),
+    });
+    expect(result.trades).toHaveLength(0);
+  });
+
+  it('halts like the live loop once the daily loss limit is hit', async () => {
+    const result = await replayBacktest({
+      config: makeConfig({ maxDailyLossPct: 10 }),
+      candles: { 'WETH/USDC': candlesFromCloses([100, 100, 100]) },
+      decide: scripted({ 0: { action: 'buy' } }),
+    });
+    // Daily P&L is cash-based, so deploying 20% of the balance breaches a 10% limit on the next tick.
+    expect(result.halted).toEqual({ reason: 'daily_loss_limit', at: new Date(START_MS + HOUR_MS).toISOString() });
+    expect(result.trades).toHaveLength(0);
+    expect(result.openPositions).toHaveLength(1);
+  });
+
+  it('skips risk checks and decisions while the stop-out cooldown is active', async () => {
+    const result = await replayBacktest({
+      config: makeConfig({ cooldownAfterLossMinutes: 120 }),
+      candles: { 'WETH/USDC': candlesFromCloses([100, 90, 80, 80, 80]) },
+      decide: async ({ engine }) => ({
+        action: engine.openPositions.length === 0 ? 'buy' : 'hold',
+        confidence: 0.9,
+        reasoning: 'always in',
+        targetPair: 'WETH/USDC',
+        suggestedPositionSizePct: 20,
+      }),
+      closeOpenAtEnd: false,
+    });
+    // Stop-out at bar 1 (re-entry at 90), bar 2 is inside the 120m cooldown, bar 3 stops out again.
+    expect(result.trades.map((t) => t.closedAt)).toEqual([
+      new Date(START_MS + HOUR_MS).toISOString(),
+      new Date(START_MS + 3 * HOUR_MS).toISOString(),
+    ]);
+    expect(result.openPositions).toHaveLength(1);
+    expect(result.openPositions[0].openedAt).toBe(new Date(START_MS + 3 * HOUR_MS).toISOString());
+  });
+
+  it('rule-only mode is reproducible and reports snapshot-compatible metrics', async () => {
+    const config = makeConfig({ maxPositionSizePct: 10, stopLossPct: 3, takeProfitPct: 4 });
+    const candles = { 'WETH/USDC': candlesFromCloses(oscillatingCloses(240)) };
+
+    const first = await replayBacktest({ config, candles, decide: createRuleDecisionProvider() });
+    const second = await replayBacktest({ config, candles, decide: createRuleDecisionProvider() });
+
+    const strip = (r: typeof first) => r.trades.map(({ id: _id, ...rest }) => rest);
+    expect(first.trades.length).toBeGreaterThan(0);
+    expect(strip(second)).toEqual(strip(first));
+    expect(second.metrics).toEqual(first.metrics);
+
+    const closedPnl = first.trades.reduce((acc, t) => acc + (t.pnlUsd ?? 0), 0);
+    expect(first.metrics).toEqual(
+      computeMetrics(
+        first.trades.map((t) => ({ pnlPct: t.pnlPct ?? null, pnlUsd: t.pnlUsd ?? null })),
+        10_000,
+        10_000 + closedPnl,
+      ),
+    );
+    expect(first.bars).toBe(240);
+    expect(first.mode).toBe('rules');
+  });
+
+  it('rule provider exits only the pair whose signal flips and skips pairs without indicator history', async () => {
+    const config = makeConfig({ pairs: ['WETH/USDC', 'cbBTC/USDC'], maxOpenPositions: 2 });
+    const engine = new PaperEngine({ balance: 10_000, slippage: 0 });
+    for (const pair of ['WETH/USDC', 'cbBTC/USDC']) {
+      engine.openPosition({
+        agentId: 'backtest',
+        pair,
+        dex: 'aerodrome',
+        side: 'buy',
+        price: 2000,
+        amountUsd: 1000,
+        maxPositionSizePct: 20,
+        balance: engine.balance,
+        confidence: 0.8,
+        reasoning: 'test',
+        strategyUsed: 'combined',
+      });
+    }
+    // Falling leg of a sine wave: the combined signal turns bearish here.
+    const bearish = candlesFromCloses(Array.from({ length: 44 }, (_, i) => 2000 + 300 * Math.sin(i / 6)));
+    const bar = (pair: string, series: OHLCVCandle[]) => ({
+      pair,
+      candle: series[series.length - 1],
+      closes: series.map((c) => c.c),
+      candles: series,
+      atr: 0,
+    });
+    const decide = createRuleDecisionProvider();
+    const context = { barIndex: 43, timestamp: '', barIntervalMs: HOUR_MS, engine, config };
+
+    expect(await decide({ ...context, bars: [bar('cbBTC/USDC', bearish.slice(-13)), bar('WETH/USDC', bearish)] })).toMatchObject({
+      action: 'reduce',
+      reducePct: 100,
+      targetPair: 'WETH/USDC',
+    });
+    expect(await decide({ ...context, bars: [bar('WETH/USDC', bearish.slice(-13))] })).toMatchObject({ action: 'hold' });
+  });
+});
+
+describe('backtest request', () => {
+  it('defaults the candle limit by mode and caps explicit LLM limits', () => {
+    expect(BacktestRequestSchema.parse({}).limit).toBe(500);
+    expect(BacktestRequestSchema.parse({ mode: 'llm' }).limit).toBe(BACKTEST_LLM_MAX_BARS);
+    expect(BacktestRequestSchema.safeParse({ mode: 'llm', limit: 500 }).success).toBe(false);
+  });
+});
+
+describe('LLM backtest decision cache', () => {
+  const llmConfig = { apiKey: 'test-key', model: 'stub/model' };
+  const agentRow = { name: 'Backtest Agent', personaMd: null, profileId: null };
+
+  /** Offline stand-in for the llm-router: buys when flat, closes once a position is 2% up. */
+  function makeStubLlm(): BacktestLlmCaller & { calls: number } {
+    const stub = Object.assign(
+      async (_config: unknown, request: Parameters<BacktestLlmCaller>[1]) => {
+        stub.calls++;
+        const open = request.openPositions[0];
+        const action = !open ? 'buy' : open.unrealizedPct >= 2 ? 'close' : 'hold';
+        const decision = { action, confidence: 0.8, reasoning: `stub ${action}`, targetPair: 'WETH/USDC' } as const;
+        return {
+          ...decision,
+          latencyMs: 1,
+          modelUsed: 'stub/model',
+          llmPromptText: '',
+          llmRawResponse: JSON.stringify(decision),
+        };
+      },
+      { calls: 0 },
+    );
+    return stub;
+  }
+
+  const candles = { 'WETH/USDC': candlesFromCloses([100, 101, 103, 102, 100, 101, 104, 104]) };
+
+  it('records every prompt on the first run and replays them without calling the LLM', async () => {
+    const cache = createMemoryDecisionCache();
+    const stubLlm = makeStubLlm();
+
+    const first = createLlmDecisionProvider({ llmConfig, agentRow, cache, callLlm: stubLlm });
+    const firstRun = await replayBacktest({ config: makeConfig(), candles, decide: first.decide, mode: 'llm' });
+    expect(first.stats).toEqual({ llmCalls: 8, cacheHits: 0, failures: 0 });
+    expect(cache.size()).toBe(8);
+
+    const second = createLlmDecisionProvider({ llmConfig, agentRow, cache, callLlm: stubLlm });
+    const secondRun = await replayBacktest({ config: makeConfig(), candles, decide: second.decide, mode: 'llm' });
+    expect(second.stats).toEqual({ llmCalls: 0, cacheHits: 8, failures: 0 });
+    expect(stubLlm.calls).toBe(8);
+
+    const strip = (r: typeof firstRun) => r.trades.map(({ id: _id, ...rest }) => rest);
+    expect(firstRun.trades.length).toBeGreaterThan(0);
+    expect(strip(secondRun)).toEqual(strip(firstRun));
+    expect(secondRun.mode).toBe('llm');
+  });
+
+  it('keys the cache by prompt, so a different persona misses', async () => {
+    const cache = createMemoryDecisionCache();
+    const stubLlm = makeStubLlm();
+    const base = createLlmDecisionProvider({ llmConfig, agentRow, cache, callLlm: stubLlm });
+    await replayBacktest({ config: makeConfig(), candles, decide: base.decide, mode: 'llm' });
+
+    const persona = createLlmDecisionProvider({
+      llmConfig,
+      agentRow: { ...agentRow, personaMd: 'You are a cautious contrarian.' },
+      cache,
+      callLlm: stubLlm,
+    });
+    await replayBacktest({ config: makeConfig(), candles, decide: persona.decide, mode: 'llm' });
+    expect(persona.stats.cacheHits).toBe(0);
+    expect(persona.stats.llmCalls).toBe(8);
+  });
+
+  it('keys the cache by temperature, so a run at another temperature misses', async () => {
+    const cache = createMemoryDecisionCache();
+    const stubLlm = makeStubLlm();
+    const cool = createLlmDecisionProvider({ llmConfig: { ...llmConfig, temperature: 0.2 }, agentRow, cache, callLlm: stubLlm });
+    await replayBacktest({ config: makeConfig(), candles, decide: cool.decide, mode: 'llm' });
+
+    const warm = createLlmDecisionProvider({ llmConfig: { ...llmConfig, temperature: 0.9 }, agentRow, cache, callLlm: stubLlm });
+    await replayBacktest({ config: makeConfig(), candles, decide: warm.decide, mode: 'llm' });
+    expect(warm.stats).toEqual({ llmCalls: 8, cacheHits: 0, failures: 0 });
+  });
+
+  it('reserves each cache miss and stops the run when a reservation is refused', async () => {
+    const cache = createMemoryDecisionCache();
+    const stubLlm = makeStubLlm();
+    let reserved = 0;
+    const reserveLlmCall = async () => (++reserved > 3 ? 'Hourly LLM call budget reached (3/3 used). Resets in 60m.' : null);
+
+    const limited = createLlmDecisionProvider({ llmConfig, agentRow, cache, callLlm: stubLlm, reserveLlmCall });
+    await expect(replayBacktest({ config: makeConfig(), candles, decide: limited.decide, mode: 'llm' })).rejects.toThrow(
+      new BacktestLlmLimitError('Hourly LLM call budget reached (3/3 used). Resets in 60m.'),
+    );
+    expect(stubLlm.calls).toBe(3);
+
+    reserved = -100;
+    const cached = createLlmDecisionProvider({ llmConfig, agentRow, cache, callLlm: stubLlm, reserveLlmCall });
+    await replayBacktest({ config: makeConfig(), candles, decide: cached.decide, mode: 'llm' });
+    expect(cached.stats).toEqual({ llmCalls: 5, cacheHits: 3, failures: 0 });
+    expect(reserved).toBe(-95);
+  });
+
+  it('holds on LLM errors without recording them', async () => {
+    const cache = createMemoryDecisionCache();
+    const failing: BacktestLlmCaller = async () => {
+      throw new Error('Model request timed out after 90s');
+    };
+    const provider = createLlmDecisionProvider({ llmConfig, agentRow, cache, callLlm: failing });
+    const result = await replayBacktest({ config: makeConfig(), candles, decide: provider.decide, mode: 'llm' });
+
+    expect(provider.stats).toEqual({ llmCalls: 8, cacheHits: 0, failures: 8 });
+    expect(cache.size()).toBe(0);
+    expect(result.trades).toHaveLength(0);
+  });
+});
+
+describe('backtest position scaling', () => {
+  it('only averages down into a losing position when behavior.averageDown is set', async () => {
+    const candles = { 'WETH/USDC': candlesFromCloses([100, 97, 97, 97]) };
+    const decide = scripted({ 0: { action: 'buy', suggestedPositionSizePct: 10 }, 1: { action: 'add', suggestedPositionSizePct: 10 } });
+
+    const strict = await replayBacktest({ config: makeConfig(), candles, decide, closeOpenAtEnd: false });
+    expect(strict.openPositions[0].amountUsd).toBeCloseTo(1000, 6);
+
+    const averaging = await replayBacktest({
+      config: makeConfig({ behavior: { averageDown: true } }),
+      candles,
+      decide,
+      closeOpenAtEnd: false,
+    });
+    expect(averaging.openPositions[0].amountUsd).toBeCloseTo(1000 + 900, 6);
+    expect(averaging.openPositions[0].entryPrice).toBeLessThan(100);
+  });
+
+  it('records a reduce as a separate closed trade and keeps the rest open', async () => {
+    const result = await replayBacktest({
+      config: makeConfig(),
+      candles: { 'WETH/USDC': candlesFromCloses([100, 104, 104]) },
+      decide: scripted({ 0: { action: 'buy' }, 1: { action: 'reduce', reducePct: 25 } }),
+      closeOpenAtEnd: false,
+    });
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0].fillType).toBe('reduce');
+    expect(result.trades[0].amountUsd).toBeCloseTo(500, 6);
+    expect(result.trades[0].pnlUsd).toBeCloseTo(20, 6);
+    expect(result.openPositions[0].amountUsd).toBeCloseTo(1500, 6);
+  });
+});
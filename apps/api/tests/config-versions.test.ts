@@ -0,0 +1,87 @@
+/**
+ * Agent config version history tests.
+ */
+import { describe, it, expect } from 'vitest';
+import { diffConfigs, recordConfigVersion } from '../src/services/config-versions.js';
+import type { ConfigVersionRow } from '../src/services/config-versions.js';
+
+type Db = Parameters<typeof recordConfigVersion>[0];
+
+/**
+ * Stand-in for D1 covering recordConfigVersion's latest-version read and
+ * insert, with the (agent_id, version) unique index. `beforeInsert` runs
+ * ahead of each insert to simulate a concurrent writer.
+ */
+function versionsDb(rows: ConfigVersionRow[], beforeInsert?: () => void): Db {
+  const latest = () => [...rows].sort((a, b) => b.version - a.version).slice(0, 1);
+  return {
+    select: () => ({ from: () => ({ where: () => ({ orderBy: () => ({ limit: async () => latest() }) }) }) }),
+    insert: () => ({
+      values: async (row: ConfigVersionRow) => {
+        beforeInsert?.();
+        if (rows.some((r) => r.agentId === row.agentId && r.version === row.version)) {
+          throw new Error('Failed query', {
+            cause: new Error('D1_ERROR: UNIQUE constraint failed: agent_config_versions.agent_id, agent_config_versions.version'),
+          });
+        }
+        rows.push(row);
+      },
+    }),
+  } as unknown as Db;
+}
+
+function versionRow(version: number, config: string): ConfigVersionRow {
+  return { id: `cfgv_${version}`, agentId: 'agent_1', version, config, author: 'user', authorRef: null, note: null, createdAt: '2025-01-01T00:00:00.000Z' };
+}
+
+describe('diffConfigs', () => {
+  it('lists added, removed and changed keys in key order', () => {
+    const changes = diffConfigs(
+      { stopLossPct: 5, pairs: ['WETH/USDC'], temperature: 0.7, maxLeverage: 2 },
+      { stopLossPct: 3, pairs: ['WETH/USDC'], temperature: 0.7, trailingStopPct: 1.5 },
+    );
+    expect(changes).toEqual([
+      { key: 'maxLeverage', from: 2, to: undefined },
+      { key: 'stopLossPct', from: 5, to: 3 },
+      { key: 'trailingStopPct', from: undefined, to: 1.5 },
+    ]);
+  });
+
+  it('compares nested values structurally', () => {
+    expect(diffConfigs({ behavior: { riskAppetite: 'moderate' } }, { behavior: { riskAppetite: 'moderate' } })).toEqual([]);
+    expect(diffConfigs({ pairs: ['WETH/USDC'] }, { pairs: ['WETH/USDC', 'AERO/USDC'] })).toEqual([
+      { key: 'pairs', from: ['WETH/USDC'], to: ['WETH/USDC', 'AERO/USDC'] },
+    ]);
+  });
+});
+
+describe('recordConfigVersion', () => {
+  it('returns the latest version when the config is unchanged', async () => {
+    const rows = [versionRow(1, '{"a":1}')];
+    const recorded = await recordConfigVersion(versionsDb(rows), { agentId: 'agent_1', config: '{"a":1}', author: 'user' });
+    expect(recorded.id).toBe('cfgv_1');
+    expect(rows).toHaveLength(1);
+  });
+
+  it('retries on the next number when a concurrent writer takes the version', async () => {
+    const rows = [versionRow(1, '{"a":1}')];
+    let raced = false;
+    const db = versionsDb(rows, () => {
+      if (raced) return;
+      raced = true;
+      rows.push(versionRow(2, '{"a":2}'));
+    });
+
+    const recorded = await recordConfigVersion(db, { agentId: 'agent_1', config: '{"a":3}', author: 'manager', authorRef: 'mgr_1' });
+
+    expect(recorded).toMatchObject({ version: 3, config: '{"a":3}', author: 'manager', authorRef: 'mgr_1' });
+    expect(rows.map((r) => r.version)).toEqual([1, 2, 3]);
+  });
+
+  it('gives up after repeated conflicts', async () => {
+    const rows = [versionRow(1, '{"a":1}')];
+    let next = 2;
+    const db = versionsDb(rows, () => rows.push(versionRow(next++, `{"other":${next}}`)));
+    await expect(recordConfigVersion(db, { agentId: 'agent_1', config: '{"a":9}', author: 'user' })).rejects.toThrow('Failed query');
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Custom rule DSL tests.
+ */
+import { describe, it, expect } from 'vitest';
+import { RuleSyntaxError, UpdateAgentRequestSchema, parseRuleExpression, ruleHistoryBars } from '@something-in-loop/shared';
+import { evaluateRuleExpression } from '../src/services/custom-rules.js';
+import { computeIndicators, evaluateSignals } from '../src/services/indicators.js';
+
+/** 60 rising bars with a pullback over the last five. */
+const bars = Array.from({ length: 60 }, (_, i) => {
+  const c = i < 55 ? 100 + i : 154 - (i - 55) * 3;
+  return { h: c + 1, l: c - 1, c, v: 1000 };
+});
+
+describe('custom rule DSL', () => {
+  it('parses with precedence and rejects bad rules with a position', () => {
+    const expr = parseRuleExpression('rsi(14) < 28 and close > ema(50) or not change(3) > 1');
+    expect(expr).toMatchObject({ kind: 'logical', op: 'or', left: { kind: 'logical', op: 'and' } });
+
+    expect(() => parseRuleExpression('close > ')).toThrow(RuleSyntaxError);
+    expect(() => parseRuleExpression('close + 1')).toThrow(/Expected a condition/);
+    expect(() => parseRuleExpression('rsi(close) < 30')).toThrow(/period must be a number/);
+    expect(() => parseRuleExpression('foo(3) > 1')).toThrow(/Unknown function "foo"/);
+    expect(() => parseRuleExpression('ema() > 1')).toThrow(/takes 1 argument/);
+    expect(() => parseRuleExpression('close > 1; drop')).toThrow(/Unexpected character ";" at position 10/);
+  });
+
+  it('rejects invalid rules when the agent config is saved', () => {
+    const bad = UpdateAgentRequestSchema.safeParse({
+      customRules: [{ name: 'dip', side: 'buy', when: 'rsi(14) < and close > 1' }],
+    });
+    expect(bad.success).toBe(false);
+    expect(JSON.stringify(bad.error?.flatten().fieldErrors.customRules)).toMatch(/position/);
+
+    const duplicate = UpdateAgentRequestSchema.safeParse({
+      customRules: [
+        { name: 'dip', side: 'buy', when: 'close < 1' },
+        { name: 'dip', side: 'sell', when: 'close > 1' },
+      ],
+    });
+    expect(duplicate.success).toBe(false);
+
+    const ok = UpdateAgentRequestSchema.safeParse({
+      customRules: [{ name: 'dip', side: 'buy', when: 'rsi(14) < 28 and close > ema(40)' }],
+    });
+    expect(ok.success).toBe(true);
+  });
+
+  it('rejects rules needing more history than analysis sees', () => {
+    expect(ruleHistoryBars(parseRuleExpression('rsi(14) < 28 and close > ema(50)'))).toBe(50);
+    expect(ruleHistoryBars(parseRuleExpression('adx(20) > 25 or rsi() < 30'))).toBe(41);
+
+    const tooLong = UpdateAgentRequestSchema.safeParse({
+      customRules: [{ name: 'trend', side: 'buy', when: 'close > ema(50)' }],
+    });
+    expect(tooLong.success).toBe(false);
+    expect(JSON.stringify(tooLong.error?.flatten().fieldErrors.customRules)).toMatch(/needs 50 bars of history; analysis only sees 48/);
+  });
+
+  it('evaluates against indicators and bars, returning null when data is missing', () => {
+    const indicators = computeIndicators(bars);
+    const price = bars.at(-1)!.c;
+    expect(evaluateRuleExpression('close > ema(50) and change(5) < 0', indicators, bars, price)).toBe(true);
+    expect(evaluateRuleExpression('close < sma(20) - 3 * atr()', indicators, bars, price)).toBe(false);
+    expect(evaluateRuleExpression('highest(10) - lowest(10) > 10', indicators, bars, price)).toBe(true);
+    expect(evaluateRuleExpression('ema(200) > 1', indicators, bars, price)).toBeNull();
+  });
+
+  it('runs custom rules alongside the built-in strategies', () => {
+    const indicators = computeIndicators(bars);
+    const signals = evaluateSignals(indicators, bars.at(-1)!.c, {
+      rules: [
+        { name: 'pullback', side: 'buy', when: 'close > ema(50) and change(5) < 0', confidence: 0.8 },
+        { name: 'breakdown', side: 'sell', when: 'close < lowest(20)', confidence: 0.7 },
+      ],
+      bars,
+    });
+    expect(signals.some((s) => s.strategy === 'rsi_oversold')).toBe(true);
+    expect(signals.find((s) => s.strategy === 'custom:pullback')).toMatchObject({ signal: 'buy', confidence: 0.8 });
+    expect(signals.find((s) => s.strategy === 'custom:breakdown')?.signal).toBe('hold');
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * Decision replay tests.
+ *
+ * The LLM is a stub and D1 is a small in-memory stand-in covering the queries
+ * loadDecisionOutcome makes.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { agentDecisions, trades } from '../src/db/schema.js';
+import type { TradeDecisionRequest } from '../src/services/llm-router.js';
+
+type DecisionRow = typeof agentDecisions.$inferSelect;
+type TradeRow = typeof trades.$inferSelect;
+
+const state = {
+  decisions: [] as DecisionRow[],
+  trades: [] as TradeRow[],
+  /** Replay calls already charged to the agent's hourly budget. */
+  budgetUsed: 0,
+};
+
+const mockDb = {
+  select: () => ({
+    from: (table: unknown) => ({
+      where: () => {
+        const rows = table === trades ? state.trades : state.decisions;
+        return Object.assign(Promise.resolve(rows), {
+          orderBy: () => ({ limit: async (n: number) => rows.slice(0, n) }),
+        });
+      },
+    }),
+  }),
+};
+
+vi.mock('cloudflare:workers', () => ({
+  DurableObject: class {
+    constructor(_state: unknown, _env: unknown) {}
+  },
+}));
+vi.mock('drizzle-orm/d1', () => ({ drizzle: () => mockDb }));
+vi.mock('../src/agents/agent-loop/llm-config.js', async () => ({
+  ...(await vi.importActual<typeof import('../src/agents/agent-loop/llm-config.js')>('../src/agents/agent-loop/llm-config.js')),
+  resolveLlmCredentials: vi.fn(async () => ({ llmApiKey: 'sk-test', llmProvider: 'openrouter' })),
+}));
+vi.mock('../src/lib/do-clients.js', () => ({
+  consumeTradingAgentLlmBudgetDo: vi.fn(async (_env: unknown, _agentId: string, { calls, maxPerHour }: { calls: number; maxPerHour: number }) => {
+    const allowed = state.budgetUsed + calls <= maxPerHour;
+    if (allowed) state.budgetUsed += calls;
+    return { allowed, used: state.budgetUsed, resetAt: Date.now() + 60_000 };
+  }),
+}));
+
+const { buildTradeDecisionPrompt } = await import('../src/services/llm-router/request-builders.js');
+const {
+  isReplayableDecision,
+  replacePersonaSection,
+  runDecisionReplay,
+  selectDecisionTrades,
+} = await import('../src/agents/decision-replay.js');
+
+const DECIDED_AT = '2025-01-01T12:00:00.000Z';
+
+function promptWithPersona(personaMd?: string): string {
+  const request: TradeDecisionRequest = {
+    portfolioState: { balance: 1000, openPositions: 0, dailyPnlPct: 0, totalPnlPct: 0 },
+    openPositions: [],
+    marketData: [{ pair: 'WETH/USDC', priceUsd: 3200, priceChange: { h1: 0.5 }, indicatorText: 'RSI 48' }],
+    lastDecisions: [],
+    config: { pairs: ['WETH/USDC'], maxPositionSizePct: 10, maxOpenPositions: 2, stopLossPct: 5, takeProfitPct: 10 },
+    personaMd,
+  };
+  return buildTradeDecisionPrompt(request).fullPrompt;
+}
+
+function decision(overrides: Partial<DecisionRow> = {}): DecisionRow {
+  return {
+    id: 'dec_1',
+    agentId: 'agent_1',
+    decision: 'buy',
+    confidence: 0.8,
+    reasoning: 'Breakout',
+    llmModel: 'model/original',
+    llmLatencyMs: 1200,
+    llmTokensUsed: 900,
+    llmPromptTokens: null,
+    llmCompletionTokens: null,
+    marketDataSnapshot: '[]',
+    llmPromptText: promptWithPersona('Momentum trader.'),
+    llmRawResponse: JSON.stringify({ action: 'buy', confidence: 0.8, reasoning: 'Breakout', targetPair: 'WETH/USDC' }),
+    configVersionId: null,
+    ensembleVotes: null,
+    createdAt: DECIDED_AT,
+    ...overrides,
+  };
+}
+
+function trade(overrides: Partial<TradeRow> & Pick<TradeRow, 'id'>): TradeRow {
+  return {
+    agentId: 'agent_1',
+    pair: 'WETH/USDC',
+    dex: 'aerodrome',
+    side: 'buy',
+    entryPrice: 3200,
+    exitPrice: null,
+    amountUsd: 100,
+    pnlPct: null,
+    pnlUsd: null,
+    confidenceBefore: 0.8,
+    confidenceAfter: null,
+    reasoning: 'Breakout',
+    strategyUsed: 'combined',
+    slippageSimulated: 0.003,
+    feeUsd: null,
+    leverage: null,
+    liquidationPrice: null,
+    fundingUsd: null,
+    status: 'open',
+    closeReason: null,
+    parentTradeId: null,
+    fillType: null,
+    openedAt: '2025-01-01T12:00:01.000Z',
+    closedAt: null,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  state.decisions = [];
+  state.trades = [];
+  state.budgetUsed = 0;
+});
+
+describe('replacePersonaSection', () => {
+  it('rewrites the stored prompt exactly as if it had been built with the new persona', () => {
+    const stored = promptWithPersona('Momentum trader.');
+    expect(replacePersonaSection(stored, 'Patient mean-reversion trader.')).toBe(promptWithPersona('Patient mean-reversion trader.'));
+    expect(replacePersonaSection(stored, '')).toBe(promptWithPersona());
+    expect(replacePersonaSection(promptWithPersona(), 'Scalper.')).toBe(promptWithPersona('Scalper.'));
+  });
+
+  it('only replays spot prompts that have a constraints section', () => {
+    expect(replacePersonaSection('## Perpetual Trading Rules\n...', 'x')).toBeNull();
+    expect(isReplayableDecision(decision())).toBe(true);
+    expect(isReplayableDecision(decision({ decision: 'open_long' }))).toBe(false);
+    expect(isReplayableDecision(decision({ decision: 'hold', llmPromptText: '## Perpetual Trading Rules' }))).toBe(false);
+  });
+});
+
+describe('selectDecisionTrades', () => {
+  const window = { from: DECIDED_AT, to: '2025-01-01T12:05:00.000Z' };
+
+  it('matches entries by side and closes by reason inside the window', () => {
+    const rows = [
+      trade({ id: 'pos_buy' }),
+      trade({ id: 'pos_late', openedAt: '2025-01-01T12:06:00.000Z' }),
+      trade({ id: 'pos_lot', parentTradeId: 'pos_old', fillType: 'add', status: 'merged' }),
+      trade({ id: 'pos_closed', openedAt: '2025-01-01T08:00:00.000Z', status: 'closed', closeReason: 'llm_decision', closedAt: '2025-01-01T12:00:02.000Z' }),
+      trade({ id: 'pos_stopped', openedAt: '2025-01-01T08:00:00.000Z', status: 'closed', closeReason: 'stop_loss', closedAt: '2025-01-01T12:00:02.000Z' }),
+    ];
+    expect(selectDecisionTrades('buy', rows, window).map((t) => t.id)).toEqual(['pos_buy']);
+    expect(selectDecisionTrades('sell', rows, window)).toEqual([]);
+    expect(selectDecisionTrades('add', rows, window).map((t) => t.id)).toEqual(['pos_lot']);
+    expect(selectDecisionTrades('close', rows, window).map((t) => t.id)).toEqual(['pos_closed']);
+    expect(selectDecisionTrades('hold', rows, window)).toEqual([]);
+  });
+});
+
+describe('runDecisionReplay', () => {
+  const env = { DB: {} } as any;
+
+  it('replays the edited prompt on the requested model and attaches the original outcome', async () => {
+    state.trades = [trade({ id: 'pos_buy', status: 'closed', exitPrice: 3100, pnlUsd: -3.1, pnlPct: -3.1, closedAt: '2025-01-01T15:00:00.000Z' })];
+    const callLlm = vi.fn(async (_config: unknown, _prompt: string) => ({
+      action: 'hold' as const,
+      confidence: 0.4,
+      reasoning: 'Not convinced',
+      latencyMs: 800,
+      tokensUsed: 700,
+      modelUsed: 'model/other',
+      llmPromptText: '',
+      llmRawResponse: '{"action":"hold"}',
+    }));
+
+    const outcome = await runDecisionReplay({
+      env,
+      agentId: 'agent_1',
+      agentRow: { ownerAddress: '0xowner' },
+      decision: decision(),
+      temperature: 0.7,
+      maxLlmCallsPerHour: 12,
+      request: { model: 'model/other', personaMd: 'Cautious.' },
+      callLlm,
+    });
+    if (!('result' in outcome)) throw new Error(outcome.error);
+
+    const [config, prompt] = callLlm.mock.calls[0];
+    expect(config).toMatchObject({ model: 'model/other', allowFallback: false, temperature: 0.7 });
+    expect(prompt).toBe(promptWithPersona('Cautious.'));
+    expect(outcome.result).toMatchObject({
+      original: { action: 'buy', targetPair: 'WETH/USDC', model: 'model/original' },
+      replayed: { action: 'hold', model: 'model/other', temperature: 0.7 },
+      overrides: { model: true, temperature: false, persona: true },
+      sameAction: false,
+      outcome: { realizedPnlUsd: -3.1, openTrades: 0 },
+    });
+    expect(outcome.result.outcome.trades.map((t) => t.id)).toEqual(['pos_buy']);
+  });
+
+  it('refuses decisions without a replayable prompt and reports model failures', async () => {
+    const base = { env, agentId: 'agent_1', agentRow: { ownerAddress: null }, temperature: 0.7, maxLlmCallsPerHour: 12, request: {} };
+    expect(await runDecisionReplay({ ...base, decision: decision({ llmPromptText: null }) }))
+      .toEqual({ error: 'Decision has no stored prompt to replay' });
+
+    const failing = vi.fn(async () => { throw new Error('Model "model/original" is unavailable.'); });
+    expect(await runDecisionReplay({ ...base, decision: decision(), callLlm: failing }))
+      .toEqual({ error: 'Replay failed: Model "model/original" is unavailable.' });
+  });
+
+  it('charges the replay to the hourly call budget and refuses once it is spent', async () => {
+    const callLlm = vi.fn();
+    const base = { env, agentId: 'agent_1', agentRow: { ownerAddress: null }, temperature: 0.7, maxLlmCallsPerHour: 2, request: {} };
+    state.budgetUsed = 2;
+
+    const outcome = await runDecisionReplay({ ...base, decision: decision(), callLlm });
+    expect(outcome).toMatchObject({ status: 429 });
+    expect('error' in outcome && outcome.error).toMatch(/^Hourly LLM call budget reached \(2\/2 used\)/);
+    expect(callLlm).not.toHaveBeenCalled();
+  });
+});
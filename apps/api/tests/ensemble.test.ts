@@ -0,0 +1,144 @@
+/**
+ * Ensemble decision tests.
+ *
+ * generateText is stubbed to answer per model, so getEnsembleTradeDecision runs
+ * the real single-model path for every member.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { TradeDecision } from '@something-in-loop/shared';
+import type { EnsembleBallot, EnsembleMember, TradeDecisionRequest } from '../src/services/llm-router.js';
+
+const answers = new Map<string, Partial<TradeDecision> | Error>();
+
+vi.mock('ai', () => ({
+  generateText: vi.fn(async ({ model }: { model: string }) => {
+    const answer = answers.get(model);
+    if (!answer) throw new Error(`No stub answer for ${model}`);
+    if (answer instanceof Error) throw answer;
+    return { text: JSON.stringify(answer), usage: { totalTokens: 100, inputTokens: 80, outputTokens: 20 } };
+  }),
+}));
+vi.mock('../src/services/llm-router/provider-selection.js', async () => {
+  const actual = await vi.importActual<typeof import('../src/services/llm-router/provider-selection.js')>(
+    '../src/services/llm-router/provider-selection.js',
+  );
+  return {
+    ...actual,
+    createModelResolver: () => ({ isAnthropic: false, resolveModel: (modelId: string) => modelId }),
+  };
+});
+
+const { aggregateEnsembleDecisions, getEnsembleTradeDecision } = await import('../src/services/llm-router.js');
+const { chargeLlmCallWindow } = await import('../src/agents/agent-loop/llm-budget.js');
+
+function ballot(model: string, decision: Partial<TradeDecision> & Pick<TradeDecision, 'action'>): EnsembleBallot {
+  return { model, decision: { confidence: 0.6, reasoning: `${model} says ${decision.action}`, ...decision } };
+}
+
+function member(model: string): EnsembleMember {
+  return { model, config: { apiKey: 'sk-test', model, allowFallback: false, timeoutMs: 1_000 } };
+}
+
+const request: TradeDecisionRequest = {
+  portfolioState: { balance: 1000, openPositions: 0, dailyPnlPct: 0, totalPnlPct: 0 },
+  openPositions: [],
+  marketData: [{ pair: 'WETH/USDC', priceUsd: 3200, priceChange: { h1: 0.5 }, indicatorText: 'RSI 48' }],
+  lastDecisions: [],
+  config: { pairs: ['WETH/USDC'], maxPositionSizePct: 10, maxOpenPositions: 2, stopLossPct: 5, takeProfitPct: 10 },
+};
+
+beforeEach(() => {
+  answers.clear();
+});
+
+describe('aggregateEnsembleDecisions', () => {
+  it('majority acts on a strict majority of the same action and pair', () => {
+    const result = aggregateEnsembleDecisions(
+      [
+        ballot('a', { action: 'buy', targetPair: 'WETH/USDC', confidence: 0.9, positionSizePct: 8 }),
+        ballot('b', { action: 'buy', targetPair: 'weth/usdc', confidence: 0.7 }),
+        ballot('c', { action: 'hold', confidence: 0.8 }),
+      ],
+      'majority',
+    );
+    expect(result).toMatchObject({ action: 'buy', targetPair: 'WETH/USDC', positionSizePct: 8 });
+    expect(result.confidence).toBeCloseTo(0.8);
+    expect(result.reasoning).toMatch(/^Ensemble majority: 2\/3 models agree/);
+
+    const split = aggregateEnsembleDecisions(
+      [ballot('a', { action: 'buy', targetPair: 'WETH/USDC' }), ballot('b', { action: 'buy', targetPair: 'AERO/USDC' })],
+      'majority',
+    );
+    expect(split).toMatchObject({ action: 'hold', confidence: 0 });
+    expect(split.reasoning).toContain('No majority consensus across 2 models');
+  });
+
+  it('confidence_weighted picks the heaviest group even when it is outnumbered', () => {
+    const ballots = [
+      ballot('a', { action: 'sell', targetPair: 'WETH/USDC', confidence: 0.95 }),
+      ballot('b', { action: 'hold', confidence: 0.3 }),
+      ballot('c', { action: 'hold', confidence: 0.4 }),
+    ];
+    expect(aggregateEnsembleDecisions(ballots, 'confidence_weighted').action).toBe('sell');
+    expect(aggregateEnsembleDecisions(ballots, 'majority').action).toBe('hold');
+  });
+
+  it('unanimous only acts when every member agrees', () => {
+    const agree = [ballot('a', { action: 'close', targetPair: 'WETH/USDC' }), ballot('b', { action: 'close', targetPair: 'AERO/USDC' })];
+    expect(aggregateEnsembleDecisions(agree, 'unanimous').action).toBe('close');
+
+    const disagree = [...agree, ballot('c', { action: 'hold', confidence: 0.9 })];
+    expect(aggregateEnsembleDecisions(disagree, 'unanimous')).toMatchObject({ action: 'hold', confidence: 0 });
+
+    // A member that did not answer is not a vote in favour.
+    const missing = aggregateEnsembleDecisions(agree, 'unanimous', 3);
+    expect(missing).toMatchObject({ action: 'hold', confidence: 0 });
+    expect(missing.reasoning).toContain('No unanimous consensus across 2/3 models');
+  });
+});
+
+describe('getEnsembleTradeDecision', () => {
+  it('queries every member and records each vote, including failures', async () => {
+    answers.set('model/a', { action: 'buy', targetPair: 'WETH/USDC', confidence: 0.8, reasoning: 'Breakout' });
+    answers.set('model/b', { action: 'buy', targetPair: 'WETH/USDC', confidence: 0.6, reasoning: 'Trend' });
+    answers.set('model/c', new Error('Bad request'));
+
+    const result = await getEnsembleTradeDecision(
+      [member('model/a'), member('model/b'), member('model/c'), { model: 'claude-x', unavailable: 'No API key' }],
+      request,
+      'majority',
+    );
+
+    expect(result).toMatchObject({ action: 'buy', targetPair: 'WETH/USDC', modelUsed: 'ensemble:majority', tokensUsed: 200 });
+    expect(result.ensembleVotes?.map((v) => [v.model, v.action, v.error])).toEqual([
+      ['model/a', 'buy', null],
+      ['model/b', 'buy', null],
+      ['model/c', null, 'Model "model/c" is unavailable. Error: Bad request'],
+      ['claude-x', null, 'No API key'],
+    ]);
+  });
+
+  it('fails when fewer than two members answer', async () => {
+    answers.set('model/a', { action: 'hold', confidence: 0.5, reasoning: 'Quiet' });
+    await expect(
+      getEnsembleTradeDecision([member('model/a'), { model: 'model/b', unavailable: 'No API key' }], request, 'unanimous'),
+    ).rejects.toThrow('Ensemble quorum not met (1/2 models answered). model/b: No API key');
+  });
+});
+
+describe('chargeLlmCallWindow', () => {
+  const hour = 3_600_000;
+
+  it('charges calls within the hour and resets on the next one', () => {
+    const first = chargeLlmCallWindow(undefined, 3, 5, 10 * hour + 60_000);
+    expect(first).toEqual({ window: { windowStart: 10 * hour, count: 3 }, allowed: true });
+
+    const over = chargeLlmCallWindow(first.window, 3, 5, 10 * hour + 120_000);
+    expect(over).toEqual({ window: first.window, allowed: false });
+
+    expect(chargeLlmCallWindow(first.window, 3, 5, 11 * hour)).toEqual({
+      window: { windowStart: 11 * hour, count: 3 },
+      allowed: true,
+    });
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Fill model tests.
+ */
+import { describe, it, expect } from 'vitest';
+import { estimatePriceImpactPct, quoteFill, resolveSwapFeePct } from '../src/services/fill-model.js';
+import { PaperEngine } from '../src/services/paper-engine.js';
+
+describe('fill model', () => {
+  it('picks the DEX fee tier from the pair', () => {
+    expect(resolveSwapFeePct('aerodrome', 'USDC/USDT')).toBe(0.05);
+    expect(resolveSwapFeePct('aerodrome', 'WETH/USDC')).toBe(0.3);
+    expect(resolveSwapFeePct('uniswap-v3', 'USDC/DAI')).toBe(0.01);
+    expect(resolveSwapFeePct('uniswap-v3', 'WETH/USDC')).toBe(0.05);
+    expect(resolveSwapFeePct('uniswap-v3', 'PEPE/WETH')).toBe(0.3);
+  });
+
+  it('grows price impact with order size relative to pool liquidity', () => {
+    const small = estimatePriceImpactPct(1_000, 10_000_000);
+    const large = estimatePriceImpactPct(100_000, 10_000_000);
+    expect(small).toBeCloseTo(0.02, 3);
+    expect(large).toBeGreaterThan(small * 50);
+    expect(estimatePriceImpactPct(1_000_000_000, 1_000)).toBe(50);
+    expect(estimatePriceImpactPct(1_000, 0)).toBe(0);
+  });
+
+  it('keeps the flat model unchanged and feeless', () => {
+    expect(quoteFill({
+      model: 'flat',
+      dex: 'aerodrome',
+      pair: 'WETH/USDC',
+      amountUsd: 1_000,
+      liquidityUsd: 10_000,
+      flatSlippagePct: 0.3,
+    })).toEqual({ slippagePct: 0.3, feePct: 0 });
+  });
+
+  it('falls back to flat impact but still charges fees when liquidity is unknown', () => {
+    const quote = quoteFill({
+      model: 'liquidity',
+      dex: 'aerodrome',
+      pair: 'WETH/USDC',
+      amountUsd: 1_000,
+      flatSlippagePct: 0.3,
+    });
+    expect(quote).toEqual({ slippagePct: 0.3, feePct: 0.3 });
+  });
+
+  it('charges entry and exit fees in the engine and records them on the trade', () => {
+    const params = {
+      agentId: 'test-agent',
+      pair: 'WETH/USDC',
+      dex: 'aerodrome',
+      side: 'buy' as const,
+      price: 2500,
+      amountUsd: 1000,
+      maxPositionSizePct: 20,
+      balance: 10000,
+      confidence: 0.8,
+      reasoning: 'test',
+      strategyUsed: 'combined',
+      slippagePct: 0,
+    };
+    const flat = new PaperEngine({ balance: 10000, slippage: 0 });
+    const feeless = flat.openPosition(params);
+    const feelessClosed = flat.closePosition(feeless.id, { price: 2500 });
+    expect(feelessClosed.pnlUsd).toBeCloseTo(0, 6);
+    expect(feelessClosed.feeUsd).toBeUndefined();
+
+    const engine = new PaperEngine({ balance: 10000, slippage: 0 });
+    const position = engine.openPosition({ ...params, feePct: 0.3 });
+    expect(position.feeUsd).toBeCloseTo(3, 6);
+    expect(engine.balance).toBeCloseTo(8997, 6);
+
+    const closed = engine.closePosition(position.id, { price: 2500 });
+    expect(closed.feeUsd).toBeCloseTo(6, 6);
+    expect(closed.pnlUsd).toBeCloseTo(-6, 6);
+    expect(closed.pnlPct).toBeCloseTo(-0.6, 6);
+    expect(engine.balance).toBeCloseTo(9994, 6);
+  });
+});
@@ -2,8 +2,10 @@
  * Indicator and market-data helper tests.
  */
 import { describe, it, expect } from 'vitest';
+import { INDICATOR_HISTORY_BARS, IndicatorPeriodsSchema } from '@something-in-loop/shared';
 import {
   computeIndicators,
+  dropUnlistedOhlcvSignals,
   evaluateSignals,
   combineSignals,
 } from '../src/services/indicators.js';
@@ -63,9 +65,63 @@ describe('technical indicators', () => {
     expect(result.rsi).toBeUndefined();
     expect(result.ema9).toBeUndefined();
   });
+
+  it('computes OHLCV indicators from candles and skips volume ones on close-only input', () => {
+    const bars = prices30.map((c, i) => ({ h: c * 1.01, l: c * 0.99, c, v: 1000 + i * 10 }));
+    const result = computeIndicators(bars);
+    expect(result.atr?.at(-1)).toBeGreaterThan(0);
+    expect(result.stochastic?.at(-1)?.k).toBeGreaterThanOrEqual(0);
+    expect(result.adx?.at(-1)?.adx).toBeGreaterThan(0);
+    expect(result.keltner?.at(-1)?.upper).toBeGreaterThan(result.keltner!.at(-1)!.lower);
+    expect(result.vwap?.length).toBe(bars.length);
+    expect(result.obv?.length).toBeGreaterThan(0);
+    // 35 bars is short of the default 48-bar span.
+    expect(result.ichimoku).toBeUndefined();
+    expect(computeIndicators(bars, { ichimokuSpan: 30 }).ichimoku?.length).toBeGreaterThan(0);
+
+    const closeOnly = computeIndicators(prices30);
+    expect(closeOnly.vwap).toBeUndefined();
+    expect(closeOnly.obv).toBeUndefined();
+  });
 });
 
 describe('signal evaluation', () => {
+  it('evaluates the OHLCV strategies', () => {
+    const signals = evaluateSignals({
+      stochastic: [{ k: 12, d: 8 }],
+      adx: [{ adx: 35, pdi: 10, mdi: 30 }],
+      atr: [1],
+      vwap: [105],
+      keltner: [{ middle: 100, upper: 99, lower: 95 }],
+      ichimoku: [{ conversion: 98, base: 96, spanA: 97, spanB: 95 }],
+    }, 100);
+    const byStrategy = (strategy: string) => signals.find((s) => s.strategy === strategy)?.signal;
+    expect(byStrategy('stochastic_cross')).toBe('buy');
+    expect(byStrategy('adx_trend')).toBe('sell');
+    expect(byStrategy('vwap_reversion')).toBe('buy');
+    expect(byStrategy('keltner_breakout')).toBe('buy');
+    expect(byStrategy('ichimoku_cloud')).toBe('buy');
+    expect(byStrategy('obv_trend')).toBeUndefined();
+
+    // `combined` keeps the original indicator set; OHLCV strategies are opt-in by name.
+    expect(dropUnlistedOhlcvSignals(signals, ['combined'])).toEqual([]);
+    expect(dropUnlistedOhlcvSignals(signals, ['combined', 'ichimoku_cloud']).map((s) => s.strategy)).toEqual(['ichimoku_cloud']);
+  });
+
+  it('computes every default OHLCV indicator from the live history and rejects longer periods', () => {
+    const bars = Array.from({ length: INDICATOR_HISTORY_BARS }, (_, i) => {
+      const c = 100 + i + Math.sin(i);
+      return { h: c * 1.01, l: c * 0.99, c };
+    });
+    const result = computeIndicators(bars);
+    expect(result.ichimoku?.length).toBeGreaterThan(0);
+    expect(result.adx?.length).toBeGreaterThan(0);
+
+    const rejected = IndicatorPeriodsSchema.safeParse({ ichimokuSpan: 52, adx: 30 });
+    expect(rejected.success).toBe(false);
+    expect(rejected.error?.issues.map((issue) => issue.path[0]).sort()).toEqual(['adx', 'ichimokuSpan']);
+  });
+
   it('evaluates RSI oversold as buy signal', () => {
     const signals = evaluateSignals({ rsi: [50, 45, 35, 25] }, 100);
     const rsiSignal = signals.find((s) => s.strategy === 'rsi_oversold');
@@ -0,0 +1,291 @@
+/**
+ * Manager capital allocation tests.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { agentManagers, agents } from '../src/db/schema.js';
+import { PaperEngine } from '../src/services/paper-engine.js';
+import type { AgentHolding } from '../src/agents/manager-loop/capital.js';
+
+const doClientMocks = vi.hoisted(() => ({
+  getTradingAgentEngineStateDo: vi.fn(),
+  adjustTradingAgentCapitalDo: vi.fn(),
+  startTradingAgentDo: vi.fn(),
+  stopTradingAgentDo: vi.fn(),
+  pauseTradingAgentDo: vi.fn(),
+  setTradingAgentIntervalDo: vi.fn(),
+  syncTradingAgentConfigDo: vi.fn(),
+}));
+
+const recordConfigVersion = vi.hoisted(() => vi.fn());
+
+vi.mock('../src/lib/do-clients.js', () => doClientMocks);
+vi.mock('../src/services/config-versions.js', () => ({ recordConfigVersion }));
+
+const { checkCapitalAllocation, holdingFromEngineState, managerCapitalLimits, planRebalance } = await import(
+  '../src/agents/manager-loop/capital.js'
+);
+const { executeManagerAction } = await import('../src/agents/manager-loop.js');
+
+const limits = managerCapitalLimits({});
+
+function holding(agentId: string, equityUsd: number, totalPnlPct: number, cashUsd = equityUsd): AgentHolding {
+  return { agentId, cashUsd, equityUsd, totalPnlPct };
+}
+
+function engineState(balance: number, initialBalance = balance) {
+  const engine = new PaperEngine({ balance: initialBalance, slippage: 0 });
+  const state = engine.serialize();
+  return { ...state, balance };
+}
+
+/** The number bound into an `sql` increment such as `round(col + ${delta}, 2)`. */
+function sqlDelta(value: unknown): number {
+  const chunks = (value as { queryChunks: unknown[] }).queryChunks;
+  return chunks.find((chunk): chunk is number => typeof chunk === 'number')!;
+}
+
+/** The id bound into `eq(table.id, id)`. */
+function whereId(condition: unknown): string {
+  const chunks = (condition as { queryChunks: Array<{ value?: unknown }> }).queryChunks;
+  return chunks.find((chunk) => typeof chunk?.value === 'string')!.value as string;
+}
+
+function createCapitalDb(poolUsd: number) {
+  const managerUpdates: number[] = [];
+  const agentRows = ['agent_a', 'agent_b'].map((id) => ({
+    id,
+    name: id,
+    status: 'running',
+    ownerAddress: 'owner_addr',
+    managerId: 'manager_001',
+    isPaper: true,
+    config: JSON.stringify({ isPaper: true, paperBalance: 5000 }),
+  }));
+  const managerRow = {
+    id: 'manager_001',
+    ownerAddress: 'owner_addr',
+    capitalPoolUsd: poolUsd,
+    config: JSON.stringify({
+      riskParams: { maxTotalDrawdown: 0.2, maxAgents: 3, maxCorrelatedPositions: 3, maxAgentAllocation: 0.8 },
+    }),
+  };
+  return {
+    managerUpdates,
+    agentRows,
+    db: {
+      select: () => ({
+        from: (table: unknown) => ({
+          where: async () => (table === agentManagers ? [managerRow] : table === agents ? agentRows : []),
+        }),
+      }),
+      update: (table: unknown) => ({
+        set: (values: Record<string, unknown>) => ({
+          where: (condition: unknown) => ({
+            returning: async () => {
+              if (table === agentManagers) {
+                const delta = sqlDelta(values.capitalPoolUsd);
+                if (managerRow.capitalPoolUsd + delta < 0) return [];
+                managerUpdates.push(delta);
+                managerRow.capitalPoolUsd = Math.round((managerRow.capitalPoolUsd + delta) * 100) / 100;
+                return [{ capitalPoolUsd: managerRow.capitalPoolUsd }];
+              }
+              const agent = agentRows.find((row) => row.id === whereId(condition))!;
+              const config = JSON.parse(agent.config) as { paperBalance: number };
+              agent.config = JSON.stringify({ ...config, paperBalance: config.paperBalance + sqlDelta(values.config) });
+              return [agent];
+            },
+          }),
+        }),
+      }),
+    } as any,
+  };
+}
+
+beforeEach(() => {
+  Object.values(doClientMocks).forEach((mock) => mock.mockReset());
+  recordConfigVersion.mockReset();
+});
+
+describe('PaperEngine.adjustCapital', () => {
+  it('moves cash without registering it as profit or loss', () => {
+    const engine = new PaperEngine({ balance: 1000, slippage: 0 });
+    expect(engine.adjustCapital(500)).toBe(1500);
+    expect(engine.getTotalPnlPct()).toBe(0);
+    expect(engine.getDailyPnlPct()).toBe(0);
+    expect(engine.adjustCapital(-1200)).toBe(300);
+    expect(() => engine.adjustCapital(-301)).toThrow('Insufficient balance');
+  });
+});
+
+describe('holdingFromEngineState', () => {
+  it('marks open positions to market and keeps unpriced pairs at cost', () => {
+    const engine = new PaperEngine({ balance: 1000, slippage: 0 });
+    engine.openPosition({
+      agentId: 'a',
+      pair: 'WETH/USDC',
+      dex: 'aerodrome',
+      side: 'buy',
+      price: 2000,
+      amountUsd: 400,
+      maxPositionSizePct: 100,
+      balance: 1000,
+      confidence: 0.8,
+      reasoning: 'test',
+      strategyUsed: 'combined',
+    });
+    const state = engine.serialize();
+
+    expect(holdingFromEngineState('a', state, new Map([['WETH/USDC', 2500]]))).toMatchObject({ cashUsd: 600, equityUsd: 1100 });
+    expect(holdingFromEngineState('a', state).equityUsd).toBe(1000);
+  });
+});
+
+describe('checkCapitalAllocation', () => {
+  const base = { poolUsd: 2000, totalCapitalUsd: 10_000, limits };
+
+  it('enforces the pool, the per-agent cap and the per-action cap', () => {
+    expect(checkCapitalAllocation({ ...base, holding: holding('a', 2000, 0), amountUsd: 1500 })).toBeNull();
+    expect(checkCapitalAllocation({ ...base, poolUsd: 1000, holding: holding('a', 2000, 0), amountUsd: 1500 }))
+      .toContain('Capital pool has $1000.00');
+    expect(checkCapitalAllocation({ ...base, holding: holding('a', 4000, 0), amountUsd: 1500 }))
+      .toContain('above the $5000.00 cap (50% of managed capital)');
+    expect(checkCapitalAllocation({ ...base, poolUsd: 5000, holding: holding('a', 0, 0), amountUsd: 3000 }))
+      .toContain('per-action limit of $2500.00');
+  });
+
+  it('only withdraws free cash above the minimum balance', () => {
+    const invested = holding('a', 3000, 0, 600);
+    expect(checkCapitalAllocation({ ...base, holding: invested, amountUsd: -500 })).toBeNull();
+    expect(checkCapitalAllocation({ ...base, holding: invested, amountUsd: -501 })).toContain('can release at most $500.00');
+    expect(checkCapitalAllocation({ ...base, holding: invested, amountUsd: 0 })).toContain('non-zero');
+  });
+});
+
+describe('planRebalance', () => {
+  it('moves cash from the weaker agent to the stronger one within the caps', () => {
+    const holdings = [holding('loser', 5000, -20), holding('winner', 5000, 20)];
+    const uncapped = { ...limits, maxAgentAllocation: 1 };
+    expect(planRebalance(holdings, 10_000, uncapped)).toEqual([
+      { agentId: 'loser', deltaUsd: -1000 },
+      { agentId: 'winner', deltaUsd: 1000 },
+    ]);
+    expect(planRebalance(holdings, 10_000, limits)).toEqual([]);
+
+    const capped = planRebalance(holdings, 10_000, { ...uncapped, maxRebalanceShare: 0.02 });
+    expect(capped).toEqual([
+      { agentId: 'loser', deltaUsd: -200 },
+      { agentId: 'winner', deltaUsd: 200 },
+    ]);
+  });
+
+  it('keeps totals unchanged and skips agents without free cash', () => {
+    const holdings = [holding('a', 3000, -30, 100), holding('b', 3000, -10), holding('c', 3000, 40)];
+    const transfers = planRebalance(holdings, 9000, limits);
+    expect(transfers.find((t) => t.agentId === 'a')).toBeUndefined();
+    expect(transfers.reduce((sum, t) => sum + t.deltaUsd, 0)).toBeCloseTo(0, 6);
+    expect(transfers.map((t) => t.agentId)).toEqual(['b', 'c']);
+
+    expect(planRebalance([holding('a', 5000, 5), holding('b', 5000, 5)], 10_000, limits)).toEqual([]);
+  });
+});
+
+describe('executeManagerAction capital actions', () => {
+  it('allocates from the pool and logs before/after balances', async () => {
+    const { db, managerUpdates, agentRows } = createCapitalDb(3000);
+    doClientMocks.getTradingAgentEngineStateDo.mockImplementation(async () => engineState(4000));
+    doClientMocks.adjustTradingAgentCapitalDo.mockResolvedValue({ balanceBefore: 4000, balanceAfter: 5000 });
+
+    const result = await executeManagerAction(
+      { action: 'allocate_capital', agentId: 'agent_a', params: { amountUsd: 1000 }, reasoning: 'fund winner' },
+      db,
+      {} as any,
+      'manager_001',
+      'owner_addr',
+    );
+
+    expect(result).toMatchObject({
+      success: true,
+      capital: {
+        poolBefore: 3000,
+        poolAfter: 2000,
+        transfers: [{ agentId: 'agent_a', deltaUsd: 1000, balanceBefore: 4000, balanceAfter: 5000 }],
+      },
+    });
+    expect(doClientMocks.adjustTradingAgentCapitalDo).toHaveBeenCalledWith({}, 'agent_a', 1000);
+    expect(managerUpdates).toEqual([-1000]);
+    expect(JSON.parse(agentRows[0].config).paperBalance).toBe(6000);
+    expect(recordConfigVersion).toHaveBeenCalledWith(
+      db,
+      expect.objectContaining({ agentId: 'agent_a', author: 'manager', authorRef: 'manager_001', note: 'capital transfer +$1000.00' }),
+    );
+    expect(doClientMocks.syncTradingAgentConfigDo).toHaveBeenCalledWith({}, 'agent_a', expect.objectContaining({ id: 'agent_a' }));
+  });
+
+  it('refunds the pool when the agent cannot take the deposit', async () => {
+    const { db, managerUpdates, agentRows } = createCapitalDb(3000);
+    doClientMocks.getTradingAgentEngineStateDo.mockImplementation(async () => engineState(4000));
+    doClientMocks.adjustTradingAgentCapitalDo.mockRejectedValue(new Error('Agent engine not initialized'));
+
+    const result = await executeManagerAction(
+      { action: 'allocate_capital', agentId: 'agent_a', params: { amountUsd: 1000 }, reasoning: 'fund' },
+      db,
+      {} as any,
+      'manager_001',
+      'owner_addr',
+    );
+
+    expect(result.capital).toMatchObject({
+      poolBefore: 3000,
+      poolAfter: 3000,
+      transfers: [{ agentId: 'agent_a', deltaUsd: 1000, error: 'Agent engine not initialized' }],
+    });
+    expect(managerUpdates).toEqual([-1000, 1000]);
+    expect(JSON.parse(agentRows[0].config).paperBalance).toBe(5000);
+    expect(recordConfigVersion).not.toHaveBeenCalled();
+  });
+
+  it('rejects allocations the limits forbid without touching any engine', async () => {
+    const { db, managerUpdates } = createCapitalDb(500);
+    doClientMocks.getTradingAgentEngineStateDo.mockImplementation(async () => engineState(4000));
+
+    const result = await executeManagerAction(
+      { action: 'allocate_capital', agentId: 'agent_a', params: { amountUsd: 1000 }, reasoning: 'fund' },
+      db,
+      {} as any,
+      'manager_001',
+      'owner_addr',
+    );
+
+    expect(result).toEqual({ success: false, error: 'Capital pool has $500.00, cannot allocate $1000.00' });
+    expect(doClientMocks.adjustTradingAgentCapitalDo).not.toHaveBeenCalled();
+    expect(managerUpdates).toEqual([]);
+  });
+
+  it('rebalances between agents through the pool and ends where it started', async () => {
+    const { db, managerUpdates, agentRows } = createCapitalDb(0);
+    doClientMocks.getTradingAgentEngineStateDo.mockImplementation(async (_env: unknown, agentId: string) =>
+      agentId === 'agent_a' ? engineState(5000, 10_000) : engineState(5000, 2500),
+    );
+    doClientMocks.adjustTradingAgentCapitalDo.mockImplementation(async (_env: unknown, _agentId: string, deltaUsd: number) => ({
+      balanceBefore: 5000,
+      balanceAfter: 5000 + deltaUsd,
+    }));
+
+    const result = await executeManagerAction(
+      { action: 'rebalance', reasoning: 'tilt to performance' },
+      db,
+      {} as any,
+      'manager_001',
+      'owner_addr',
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.capital?.transfers.map((t) => [t.agentId, t.deltaUsd])).toEqual([
+      ['agent_a', -2500],
+      ['agent_b', 2500],
+    ]);
+    expect(result.capital).toMatchObject({ poolBefore: 0, poolAfter: 0 });
+    expect(managerUpdates).toEqual([2500, -2500]);
+    expect(agentRows.map((row) => JSON.parse(row.config).paperBalance)).toEqual([2500, 7500]);
+  });
+});
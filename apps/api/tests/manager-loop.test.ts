@@ -7,7 +7,7 @@ import {
 } from '../src/agents/manager-loop.js';
 import type { ManagedAgentSnapshot, ManagerMemory, ManagerDecision } from '../src/agents/manager-loop.js';
 import { AGENT_PAID_MODEL_IDS, DEFAULT_FREE_AGENT_MODEL } from '@something-in-loop/shared';
-import { agentManagers, agents } from '../src/db/schema.js';
+import { agentConfigVersions, agentManagers, agents } from '../src/db/schema.js';
 
 const doClientMocks = vi.hoisted(() => ({
   startTradingAgentDo: vi.fn(),
@@ -94,6 +94,7 @@ function createMockDb(
   const insertSpy = vi.fn(async (values: Record<string, unknown>) => {
     rows.push({ ...values });
   });
+  const configVersions: Array<Record<string, unknown>> = [];
   const updateCalls: Array<Record<string, unknown>> = [];
   const updateSpy = vi.fn((values: Record<string, unknown>) => {
     updateCalls.push({ ...values });
@@ -108,18 +109,24 @@ function createMockDb(
     managers,
     insertSpy,
     updateCalls,
+    configVersions,
     db: {
       select: () => ({
         from: (table: unknown) => ({
-          where: async () => {
-            if (table === agents) return rows;
-            if (table === agentManagers) return managers;
-            return [];
-          },
+          where: (() => {
+            if (table === agentConfigVersions) {
+              return { orderBy: () => ({ limit: async () => configVersions.slice(-1) }) };
+            }
+            if (table === agents) return Promise.resolve(rows);
+            if (table === agentManagers) return Promise.resolve(managers);
+            return Promise.resolve([]);
+          }),
         }),
       }),
-      insert: () => ({
-        values: insertSpy,
+      insert: (table: unknown) => ({
+        values: table === agentConfigVersions
+          ? async (values: Record<string, unknown>) => { configVersions.push({ ...values }); }
+          : insertSpy,
       }),
       update: () => ({
         set: updateSpy,
@@ -227,6 +234,42 @@ describe('buildManagerPrompt', () => {
     expect(prompt).toContain('Lower temp helps');
   });
 
+  it('includes parameter history with measured outcomes', () => {
+    const prompt = buildManagerPrompt({
+      agents: [mockAgent],
+      marketData: [],
+      memory: {
+        ...mockMemory,
+        parameter_history: [
+          { agent_id: 'agent_001', change: 'stopLossPct 5 → 3', change_at: '2026-01-01T00:00:00.000Z', outcome_after_n_cycles: 'After 10 cycles: 4 trades, win rate 75%, P&L +1.20% (before: 3 trades, win rate 33%, P&L -0.80%)' },
+          { agent_id: 'agent_001', change: 'temperature 0.7 → 0.4', change_at: '2026-01-02T00:00:00.000Z', outcome_after_n_cycles: null },
+        ],
+      },
+      managerConfig: mockManagerConfig,
+    });
+    expect(prompt).toContain('stopLossPct 5 → 3 → After 10 cycles: 4 trades');
+    expect(prompt).toContain('temperature 0.7 → 0.4 → outcome pending');
+  });
+
+  it('includes per-pair and prevailing market regimes', () => {
+    const prompt = buildManagerPrompt({
+      agents: [mockAgent],
+      marketData: [{
+        pair: 'WETH/USDC',
+        priceUsd: 3000,
+        priceChange: { h1: 0.5, h24: 2 },
+        regimes: { '1h': { regime: 'trending', adx: 31.2, volatilityPercentile: 0.45, realizedVolPct: 0.4, hurst: 0.62, reasoning: 'ADX at or above 25' } },
+      }],
+      memory: {
+        ...mockMemory,
+        market_regime: { detected_at: '2026-01-02T00:00:00.000Z', regime: 'trending', reasoning: '1/1 pairs trending on 1h (WETH/USDC: trending)' },
+      },
+      managerConfig: mockManagerConfig,
+    });
+    expect(prompt).toContain('WETH/USDC: $3000 (1h: 0.5%, 24h: 2%)\n  Regime: 1h trending (ADX 31.2, volatility 45th pct, Hurst 0.62)');
+    expect(prompt).toContain('Prevailing regime (deterministic, 2026-01-02T00:00:00.000Z): trending — 1/1 pairs trending on 1h');
+  });
+
   it('includes all valid action types in prompt', () => {
     const prompt = buildManagerPrompt({
       agents: [mockAgent],
@@ -238,6 +281,8 @@ describe('buildManagerPrompt', () => {
     expect(prompt).toContain('pause_agent');
     expect(prompt).toContain('modify_agent');
     expect(prompt).toContain('terminate_agent');
+    expect(prompt).toContain('allocate_capital');
+    expect(prompt).toContain('rebalance');
     expect(prompt).toContain('hold');
   });
 
@@ -474,7 +519,7 @@ describe('executeManagerAction', () => {
   });
 
   it('keeps manager-modified agents in paper mode and strips live fields', async () => {
-    const { db, updateCalls } = createMockDb([
+    const { db, updateCalls, configVersions } = createMockDb([
       {
         id: 'agent_001',
         name: 'Managed Paper Agent',
@@ -523,6 +568,9 @@ describe('executeManagerAction', () => {
     expect(config.initiaWalletAddress).toBeUndefined();
     expect(config.analysisInterval).toBe('4h');
     expect(config.paperBalance).toBe(25000);
+    expect(configVersions).toEqual([
+      expect.objectContaining({ version: 1, author: 'manager', authorRef: 'manager_001', config: updateCalls[0].config }),
+    ]);
   });
 
   it('rejects manager actions against non-paper agents', async () => {
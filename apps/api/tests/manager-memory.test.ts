@@ -0,0 +1,189 @@
+/**
+ * Manager memory tests.
+ */
+import { describe, it, expect } from 'vitest';
+import { agentDecisions, agents, managerHypotheses, managerParameterChanges, trades } from '../src/db/schema.js';
+import {
+  PARAMETER_OUTCOME_CYCLES,
+  changedParams,
+  describeParameterChange,
+  describeParameterOutcome,
+  evaluateDueParameterChanges,
+  loadManagerMemory,
+  recordManagerParameterChange,
+} from '../src/agents/manager-loop/memory.js';
+import { computeWindowMetrics } from '../src/services/self-modification.js';
+
+const window = { from: '2026-01-01T00:00:00.000Z', to: '2026-01-02T00:00:00.000Z' };
+
+/** Every query resolves to the rows stored for its table, whatever the filter. */
+function createMemoryDb(tables: Map<unknown, unknown[]>) {
+  const inserts: Array<{ table: unknown; values: Record<string, unknown> }> = [];
+  const updates: Array<Record<string, unknown>> = [];
+  const rowsFor = (table: unknown) => {
+    const rows = tables.get(table) ?? [];
+    return Object.assign(Promise.resolve(rows), {
+      orderBy: () => Object.assign(Promise.resolve(rows), { limit: async () => rows }),
+    });
+  };
+  return {
+    inserts,
+    updates,
+    db: {
+      select: () => ({ from: (table: unknown) => ({ where: () => rowsFor(table) }) }),
+      insert: (table: unknown) => ({
+        values: async (values: Record<string, unknown>) => {
+          inserts.push({ table, values });
+        },
+      }),
+      update: () => ({
+        set: (values: Record<string, unknown>) => {
+          updates.push(values);
+          return { where: async () => undefined };
+        },
+      }),
+    } as any,
+  };
+}
+
+describe('parameter change descriptions', () => {
+  it('keeps only keys that change and summarizes them', () => {
+    const config = { stopLossPct: 5, pairs: ['WETH/USDC'], temperature: 0.7 };
+    const changes = changedParams(config, { stopLossPct: 3, temperature: 0.7, maxLeverage: 2 });
+    expect(changes).toEqual({ stopLossPct: 3, maxLeverage: 2 });
+    expect(describeParameterChange(config, changes)).toBe('stopLossPct 5 → 3; maxLeverage unset → 2');
+    expect(describeParameterChange({ personaMd: 'old' }, { personaMd: 'new persona' })).toBe('personaMd rewritten');
+  });
+
+  it('states the measured outcome against the baseline', () => {
+    const baseline = computeWindowMetrics([{ pnlPct: -2, pnlUsd: -200 }], 10_000, window);
+    const after = computeWindowMetrics([{ pnlPct: 3, pnlUsd: 300 }, { pnlPct: -1, pnlUsd: -100 }], 10_000, window);
+    expect(describeParameterOutcome(baseline, after, 10)).toBe(
+      'After 10 cycles: 2 trades, win rate 50%, P&L +2.00% (before: 1 trades, win rate 0%, P&L -2.00%)',
+    );
+    expect(describeParameterOutcome(baseline, computeWindowMetrics([], 10_000, window), 10)).toMatch(
+      /^No trades closed in 10 cycles/,
+    );
+  });
+});
+
+describe('recordManagerParameterChange', () => {
+  it('stores the change with a baseline and an evaluation time N cycles out', async () => {
+    const { db, inserts } = createMemoryDb(new Map([[trades, [{ pnlPct: 2, pnlUsd: 200 }]]]));
+    const now = new Date('2026-03-01T00:00:00.000Z');
+
+    await recordManagerParameterChange(db, {
+      managerId: 'manager_001',
+      agent: { id: 'agent_001', config: JSON.stringify({ analysisInterval: '1h', stopLossPct: 5 }), personaMd: null },
+      changes: { stopLossPct: 3 },
+      configVersionId: 'cfgv_1',
+      now,
+    });
+
+    expect(inserts).toHaveLength(1);
+    expect(inserts[0].table).toBe(managerParameterChanges);
+    expect(inserts[0].values).toMatchObject({
+      managerId: 'manager_001',
+      agentId: 'agent_001',
+      change: 'stopLossPct 5 → 3',
+      previousValues: JSON.stringify({ stopLossPct: 5 }),
+      configVersionId: 'cfgv_1',
+      evaluationCycles: PARAMETER_OUTCOME_CYCLES,
+      changeAt: now.toISOString(),
+      evaluateAfter: new Date(now.getTime() + PARAMETER_OUTCOME_CYCLES * 3_600_000).toISOString(),
+    });
+    expect(JSON.parse(String(inserts[0].values.baselineMetrics))).toMatchObject({ totalTrades: 1, pnlUsd: 200 });
+  });
+
+  it('records nothing when the params match the current config', async () => {
+    const { db, inserts } = createMemoryDb(new Map());
+    await recordManagerParameterChange(db, {
+      managerId: 'manager_001',
+      agent: { id: 'agent_001', config: JSON.stringify({ stopLossPct: 5 }), personaMd: 'same' },
+      changes: { stopLossPct: 5, personaMd: 'same' },
+    });
+    expect(inserts).toHaveLength(0);
+  });
+});
+
+describe('evaluateDueParameterChanges', () => {
+  const dueChange = {
+    id: 'mpc_1',
+    managerId: 'manager_001',
+    agentId: 'agent_001',
+    change: 'stopLossPct 5 → 3',
+    evaluationCycles: 10,
+    baselineMetrics: JSON.stringify(computeWindowMetrics([], 10_000, window)),
+    evaluateAfter: '2026-03-01T10:00:00.000Z',
+    changeAt: '2026-03-01T00:00:00.000Z',
+  };
+
+  const decisionsAfter = (count: number) =>
+    Array.from({ length: count }, (_, i) => ({ createdAt: new Date(Date.parse(dueChange.changeAt) + (i + 1) * 3_600_000).toISOString() }));
+
+  it('fills the outcome from trades closed after the change', async () => {
+    const { db, updates } = createMemoryDb(new Map<unknown, unknown[]>([
+      [managerParameterChanges, [dueChange]],
+      [agents, [{ config: JSON.stringify({ paperBalance: 10_000 }) }]],
+      [agentDecisions, decisionsAfter(10)],
+      [trades, [{ pnlPct: 5, pnlUsd: 500 }]],
+    ]));
+
+    expect(await evaluateDueParameterChanges(db, 'manager_001', new Date('2026-03-02T00:00:00.000Z'))).toBe(1);
+    expect(updates).toHaveLength(1);
+    expect(updates[0].outcomeAfterNCycles).toBe(
+      'After 10 cycles: 1 trades, win rate 100%, P&L +5.00% (before: 0 trades, win rate 0%, P&L +0.00%)',
+    );
+    expect(JSON.parse(String(updates[0].outcomeMetrics))).toMatchObject({ totalTrades: 1, pnlUsd: 500 });
+    expect(updates[0].evaluatedAt).toEqual(expect.any(String));
+  });
+
+  it('waits until the agent has run the evaluation cycles, however long that takes', async () => {
+    const { db, updates } = createMemoryDb(new Map<unknown, unknown[]>([
+      [managerParameterChanges, [dueChange]],
+      [agents, [{ config: JSON.stringify({ paperBalance: 10_000 }) }]],
+      [agentDecisions, decisionsAfter(3)],
+      [trades, [{ pnlPct: 5, pnlUsd: 500 }]],
+    ]));
+
+    expect(await evaluateDueParameterChanges(db, 'manager_001', new Date('2026-03-05T00:00:00.000Z'))).toBe(0);
+    expect(updates).toHaveLength(0);
+  });
+
+  it('closes out changes to agents that no longer exist', async () => {
+    const { db, updates } = createMemoryDb(new Map<unknown, unknown[]>([[managerParameterChanges, [dueChange]]]));
+    await evaluateDueParameterChanges(db, 'manager_001');
+    expect(updates[0]).toMatchObject({
+      outcomeAfterNCycles: 'Agent was deleted before the change could be measured',
+      outcomeMetrics: null,
+    });
+  });
+});
+
+describe('loadManagerMemory', () => {
+  it('maps D1 rows to the prompt memory shape', async () => {
+    const { db } = createMemoryDb(new Map<unknown, unknown[]>([
+      [managerHypotheses, [{ description: 'Tighter stops help in chop', outcome: null, stillValid: true, testedAt: null }]],
+      [
+        managerParameterChanges,
+        [{ agentId: 'agent_001', change: 'stopLossPct 5 → 3', changeAt: '2026-03-01T00:00:00.000Z', outcomeAfterNCycles: null }],
+      ],
+    ]));
+    const regime = { detected_at: '2026-03-01T00:00:00.000Z', regime: 'ranging', reasoning: 'low ADX' };
+
+    const memory = await loadManagerMemory(db, {
+      id: 'manager_001',
+      marketRegime: JSON.stringify(regime),
+      lastEvaluationAt: null,
+    });
+
+    expect(memory).toEqual({
+      hypotheses: [{ description: 'Tighter stops help in chop', tested_at: 'untested', outcome: 'pending', still_valid: true }],
+      parameter_history: [
+        { agent_id: 'agent_001', change: 'stopLossPct 5 → 3', change_at: '2026-03-01T00:00:00.000Z', outcome_after_n_cycles: null },
+      ],
+      market_regime: regime,
+      last_evaluation_at: '',
+    });
+  });
+});
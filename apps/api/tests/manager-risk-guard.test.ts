@@ -0,0 +1,255 @@
+/**
+ * Manager risk guard tests.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { agentManagerLogs, agentManagers, agents } from '../src/db/schema.js';
+import { PaperEngine } from '../src/services/paper-engine.js';
+import { managerGuardVeto } from '../src/agents/agent-loop/manager-guard.js';
+import type { GuardedAgent, ManagerRiskGuardState } from '../src/agents/manager-loop/risk-guard.js';
+
+const doClientMocks = vi.hoisted(() => ({
+  getTradingAgentEngineStateDo: vi.fn(),
+  pauseTradingAgentDo: vi.fn(),
+  setTradingAgentManagerGuardDo: vi.fn(),
+}));
+
+vi.mock('../src/lib/do-clients.js', () => doClientMocks);
+vi.mock('../src/services/price-resolver.js', () => ({ resolveCurrentPriceUsd: vi.fn(async () => 100) }));
+
+const { evaluateManagerRisk, managerRiskLimits, runManagerRiskGuard, RISK_GUARD_STATE_KEY } = await import(
+  '../src/agents/manager-loop/risk-guard.js'
+);
+const { processPendingOrders } = await import('../src/agents/agent-loop/orders.js');
+const { pendingOrderFillVeto } = await import('../src/agents/agent-loop/risk-controls.js');
+
+const limits = managerRiskLimits({ maxTotalDrawdown: 0.2, maxCorrelatedPositions: 2 });
+
+function guarded(
+  agentId: string,
+  equityUsd: number,
+  capitalBaseUsd: number,
+  positions: GuardedAgent['positions'] = [],
+): GuardedAgent {
+  return { agentId, status: 'running', equityUsd, capitalBaseUsd, positions };
+}
+
+/** Engine with one WETH long opened at $100 for `marginUsd`, marked at $100. */
+function engineState(balance: number, marginUsd = 0) {
+  const engine = new PaperEngine({ balance, slippage: 0 });
+  if (marginUsd > 0) {
+    engine.openPosition({
+      agentId: 'agent',
+      pair: 'WETH/USDC',
+      dex: 'aerodrome',
+      side: 'buy',
+      price: 100,
+      amountUsd: marginUsd,
+      maxPositionSizePct: 100,
+      balance,
+      confidence: 0.8,
+      reasoning: 'test',
+      strategyUsed: 'combined',
+    });
+  }
+  return engine.serialize();
+}
+
+function createGuardDb(agentRows: Array<{ id: string; status: string }>, riskParams: Record<string, unknown>) {
+  const inserts: Array<{ table: unknown; values: Record<string, unknown> }> = [];
+  const updates: Array<Record<string, unknown>> = [];
+  const managerRow = {
+    id: 'manager_001',
+    ownerAddress: 'owner_addr',
+    capitalPoolUsd: 0,
+    config: JSON.stringify({ riskParams }),
+  };
+  const rows = agentRows.map((r) => ({ ...r, ownerAddress: 'owner_addr', managerId: 'manager_001' }));
+  return {
+    inserts,
+    updates,
+    db: {
+      select: () => ({
+        from: (table: unknown) => ({
+          where: async () => (table === agentManagers ? [managerRow] : table === agents ? rows : []),
+        }),
+      }),
+      update: () => ({
+        set: (values: Record<string, unknown>) => {
+          updates.push(values);
+          return { where: async () => undefined };
+        },
+      }),
+      insert: (table: unknown) => ({
+        values: async (values: Record<string, unknown>) => {
+          inserts.push({ table, values });
+        },
+      }),
+    } as any,
+  };
+}
+
+function createStorage(initial?: ManagerRiskGuardState) {
+  const data = new Map<string, unknown>(initial ? [[RISK_GUARD_STATE_KEY, initial]] : []);
+  return {
+    data,
+    storage: {
+      get: async (key: string) => data.get(key),
+      put: async (key: string, value: unknown) => {
+        data.set(key, value);
+      },
+    } as unknown as DurableObjectStorage,
+  };
+}
+
+beforeEach(() => {
+  Object.values(doClientMocks).forEach((mock) => mock.mockReset());
+});
+
+describe('evaluateManagerRisk', () => {
+  it('measures drawdown from the peak return index, not from raw equity', () => {
+    const first = evaluateManagerRisk({
+      agents: [guarded('a', 12_000, 10_000), guarded('b', 10_000, 10_000)],
+      poolUsd: 0,
+      limits,
+    });
+    expect(first).toMatchObject({ peakIndex: 1.1, drawdown: 0, drawdownBreached: false });
+
+    // Moving $5k from b to the pool changes equity and base equally: no drawdown.
+    const afterTransfer = evaluateManagerRisk({
+      agents: [guarded('a', 12_000, 10_000), guarded('b', 5_000, 5_000)],
+      poolUsd: 5_000,
+      limits,
+      previous: { peakIndex: first.peakIndex, drawdownBreached: false, blockedExposures: [] },
+    });
+    expect(afterTransfer.drawdown).toBe(0);
+
+    const slump = evaluateManagerRisk({
+      agents: [guarded('a', 8_000, 10_000), guarded('b', 9_600, 10_000)],
+      poolUsd: 0,
+      limits,
+      previous: { peakIndex: 1.1, drawdownBreached: false, blockedExposures: [] },
+    });
+    expect(slump).toMatchObject({ peakIndex: 1.1, drawdown: 0.2, drawdownBreached: true });
+  });
+
+  it('counts directional exposure across agents', () => {
+    const result = evaluateManagerRisk({
+      agents: [
+        guarded('a', 10_000, 10_000, [{ pair: 'WETH/USDC', side: 'buy' }]),
+        guarded('b', 10_000, 10_000, [{ pair: 'cbBTC/WETH', side: 'sell' }, { pair: 'AERO/USDC', side: 'buy' }]),
+      ],
+      poolUsd: 0,
+      limits,
+    });
+    expect(result.correlated).toEqual([{ exposure: 'WETH:long', positions: 2 }]);
+  });
+});
+
+describe('managerGuardVeto', () => {
+  const guard = {
+    managerId: 'manager_001',
+    maxCorrelatedPositions: 2,
+    blocked: [{ exposure: 'WETH:long', positions: 2 }],
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+
+  it('vetoes only entries that add to a blocked exposure', () => {
+    expect(managerGuardVeto(guard, { pair: 'WETH/USDC', side: 'buy' })).toBe(
+      'manager risk guard: 2 long WETH positions open across managed agents (max 2)',
+    );
+    expect(managerGuardVeto(guard, { pair: 'cbBTC/WETH', side: 'sell' })).not.toBeNull();
+    expect(managerGuardVeto(guard, { pair: 'WETH/USDC', side: 'sell' })).toBeNull();
+    expect(managerGuardVeto(null, { pair: 'WETH/USDC', side: 'buy' })).toBeNull();
+  });
+
+  it('stops a resting entry placed before the block from filling after it', () => {
+    const engine = new PaperEngine({ balance: 10_000, slippage: 0 });
+    const order = {
+      agentId: 'agent_a',
+      dex: 'aerodrome',
+      type: 'stop' as const,
+      triggerPrice: 2500,
+      positionSizePct: 10,
+      maxPositionSizePct: 20,
+      confidence: 0.8,
+      reasoning: 'breakout',
+      strategyUsed: 'combined',
+      expiresAt: '2099-01-01T00:00:00.000Z',
+    };
+    engine.placeOrder({ ...order, pair: 'WETH/USDC', side: 'buy' });
+    engine.placeOrder({ ...order, pair: 'AERO/USDC', side: 'buy' });
+
+    const outcome = processPendingOrders(engine, () => 2600, 3, (pending) =>
+      pendingOrderFillVeto(engine, pending, { marketData: [], managerGuard: guard }),
+    );
+    expect(outcome.filled.map((p) => p.pair)).toEqual(['AERO/USDC']);
+    expect(outcome.rejected.map((r) => r.error)).toEqual([
+      'manager risk guard: 2 long WETH positions open across managed agents (max 2)',
+    ]);
+    expect(engine.pendingOrders).toHaveLength(0);
+  });
+});
+
+describe('runManagerRiskGuard', () => {
+  it('pauses running agents on a drawdown breach and logs an automatic action', async () => {
+    const { db, inserts, updates } = createGuardDb(
+      [
+        { id: 'agent_a', status: 'running' },
+        { id: 'agent_b', status: 'paused' },
+      ],
+      { maxTotalDrawdown: 0.1, maxCorrelatedPositions: 3 },
+    );
+    const { storage, data } = createStorage();
+    doClientMocks.getTradingAgentEngineStateDo.mockImplementation(async () => ({
+      ...engineState(10_000),
+      balance: 8_500,
+    }));
+
+    const outcome = await runManagerRiskGuard({ env: {} as any, db, storage, managerId: 'manager_001', trigger: 'trade' });
+
+    expect(outcome).toMatchObject({ drawdownBreached: true, drawdown: 0.15, pausedAgentIds: ['agent_a'], logged: true });
+    expect(doClientMocks.pauseTradingAgentDo).toHaveBeenCalledTimes(1);
+    expect(doClientMocks.pauseTradingAgentDo).toHaveBeenCalledWith({}, 'agent_a');
+    expect(updates).toEqual([expect.objectContaining({ status: 'paused' })]);
+    expect(inserts).toHaveLength(1);
+    expect(inserts[0].table).toBe(agentManagerLogs);
+    expect(inserts[0].values).toMatchObject({ action: 'risk_guard', llmPromptTokens: null });
+    expect(String(inserts[0].values.reasoning)).toMatch(/^Automatic risk guard \(no LLM\)\. Paused 1 agent\(s\)/);
+    expect(JSON.parse(String(inserts[0].values.result))).toMatchObject({ automatic: true, trigger: 'trade' });
+    expect(data.get(RISK_GUARD_STATE_KEY)).toEqual({ peakIndex: 1, drawdownBreached: true, blockedExposures: [] });
+  });
+
+  it('pushes and lifts correlated entry blocks, logging only on change', async () => {
+    const rows = [
+      { id: 'agent_a', status: 'running' },
+      { id: 'agent_b', status: 'running' },
+    ];
+    const riskParams = { maxTotalDrawdown: 0.5, maxCorrelatedPositions: 2 };
+    const { storage } = createStorage();
+    doClientMocks.getTradingAgentEngineStateDo.mockImplementation(async () => engineState(10_000, 1_000));
+
+    const first = createGuardDb(rows, riskParams);
+    await runManagerRiskGuard({ env: {} as any, db: first.db, storage, managerId: 'manager_001', trigger: 'trade' });
+    expect(doClientMocks.setTradingAgentManagerGuardDo).toHaveBeenCalledWith(
+      {},
+      'agent_a',
+      expect.objectContaining({ maxCorrelatedPositions: 2, blocked: [{ exposure: 'WETH:long', positions: 2 }] }),
+    );
+    expect(first.inserts).toHaveLength(1);
+
+    // Same block on a trade-triggered run: nothing to push or log.
+    doClientMocks.setTradingAgentManagerGuardDo.mockClear();
+    const repeat = createGuardDb(rows, riskParams);
+    await runManagerRiskGuard({ env: {} as any, db: repeat.db, storage, managerId: 'manager_001', trigger: 'trade' });
+    expect(doClientMocks.setTradingAgentManagerGuardDo).not.toHaveBeenCalled();
+    expect(repeat.inserts).toHaveLength(0);
+
+    doClientMocks.getTradingAgentEngineStateDo.mockImplementation(async (_env: unknown, agentId: string) =>
+      engineState(10_000, agentId === 'agent_a' ? 1_000 : 0),
+    );
+    const lifted = createGuardDb(rows, riskParams);
+    await runManagerRiskGuard({ env: {} as any, db: lifted.db, storage, managerId: 'manager_001', trigger: 'trade' });
+    expect(doClientMocks.setTradingAgentManagerGuardDo).toHaveBeenCalledWith({}, 'agent_b', null);
+    expect(String(lifted.inserts[0].values.reasoning)).toContain('Lifted correlated-position entry blocks');
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Market regime tests.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  classifyMarketRegime,
+  classifyPairRegimes,
+  dominantRegime,
+  formatPairRegimes,
+  hurstExponent,
+  type PairRegimes,
+  type RegimeClassification,
+} from '../src/services/market-regime.js';
+import { regimeGateFromConfig, regimeGateVeto } from '../src/agents/agent-loop/regime-gate.js';
+import { pendingOrderFillVeto } from '../src/agents/agent-loop/risk-controls.js';
+import { PaperEngine } from '../src/services/paper-engine.js';
+import { buildAnalysisPrompt } from '../src/agents/prompts.js';
+import type { MarketDataItem } from '../src/agents/agent-loop/types.js';
+
+/** 1% drift per bar plus seeded uniform noise, so runs are repeatable. */
+function uptrend(length: number, seed = 42): number[] {
+  let state = seed;
+  let price = 100;
+  return Array.from({ length }, () => {
+    state = (state * 1_103_515_245 + 12_345) % 2 ** 31;
+    price *= 1.01 + 0.01 * (state / 2 ** 31 - 0.5);
+    return price;
+  });
+}
+
+/** Oscillation around a flat level. */
+function oscillation(length: number, amplitude = 0.02): number[] {
+  return Array.from({ length }, (_, i) => 100 * (1 + amplitude * Math.sin((i * Math.PI) / 3)));
+}
+
+function regime(label: RegimeClassification['regime']): PairRegimes {
+  return { '1h': { regime: label, adx: 30, volatilityPercentile: 0.5, realizedVolPct: 1, hurst: 0.6, reasoning: 'test' } };
+}
+
+describe('classifyMarketRegime', () => {
+  it('labels a steady climb as trending', () => {
+    const result = classifyMarketRegime(uptrend(60));
+    expect(result?.regime).toBe('trending');
+    expect(result?.adx).toBeGreaterThanOrEqual(25);
+    expect(result?.reasoning).toMatch(/ADX/);
+  });
+
+  it('labels a flat oscillation as ranging', () => {
+    const result = classifyMarketRegime(oscillation(60));
+    expect(result?.regime).toBe('ranging');
+    expect(result?.hurst).toBeLessThan(0.45);
+  });
+
+  it('labels a late volatility spike as volatile whatever the trend', () => {
+    const calm = oscillation(50, 0.002);
+    const spike = Array.from({ length: 10 }, (_, i) => 100 * (1 + (i % 2 === 0 ? 0.08 : -0.08)));
+    const result = classifyMarketRegime([...calm, ...spike]);
+    expect(result?.regime).toBe('volatile');
+    expect(result?.volatilityPercentile).toBe(1);
+  });
+
+  it('reports nothing with too few bars', () => {
+    expect(classifyMarketRegime(uptrend(10))).toBeNull();
+    expect(classifyPairRegimes({ '1h': uptrend(10), '1d': [] })).toBeUndefined();
+    expect(Object.keys(classifyPairRegimes({ '1h': uptrend(60), '1d': uptrend(10) }) ?? {})).toEqual(['1h']);
+  });
+});
+
+describe('hurstExponent', () => {
+  it('is below 0.5 for alternating returns and null on short or flat input', () => {
+    const alternating = Array.from({ length: 64 }, (_, i) => (i % 2 === 0 ? 0.01 : -0.01));
+    expect(hurstExponent(alternating)).toBeLessThan(0.5);
+    expect(hurstExponent([0.01, -0.01, 0.02])).toBeNull();
+    expect(hurstExponent(Array(64).fill(0.01))).toBeNull();
+  });
+});
+
+describe('regime summaries', () => {
+  it('formats each timeframe on one line', () => {
+    const line = formatPairRegimes(classifyPairRegimes({ '1h': uptrend(60), '1d': oscillation(60) }));
+    expect(line).toMatch(/^1h trending \(ADX [\d.]+.*\) · 1d ranging \(/);
+    expect(formatPairRegimes(undefined)).toBeNull();
+  });
+
+  it('picks the most common label, breaking ties toward volatile', () => {
+    expect(
+      dominantRegime(
+        [
+          { pair: 'WETH/USDC', regimes: regime('trending') },
+          { pair: 'cbBTC/USDC', regimes: regime('trending') },
+          { pair: 'AERO/USDC', regimes: regime('ranging') },
+          { pair: 'DEGEN/USDC' },
+        ],
+        '1h',
+      ),
+    ).toEqual({
+      regime: 'trending',
+      reasoning: '2/3 pairs trending on 1h (WETH/USDC: trending, cbBTC/USDC: trending, AERO/USDC: ranging)',
+    });
+    expect(
+      dominantRegime([{ pair: 'A/USDC', regimes: regime('ranging') }, { pair: 'B/USDC', regimes: regime('volatile') }], '1h')?.regime,
+    ).toBe('volatile');
+    expect(dominantRegime([{ pair: 'A/USDC' }], '1h')).toBeNull();
+  });
+});
+
+describe('regime gate', () => {
+  const marketData = [
+    { pair: 'WETH/USDC', regimes: regime('trending') },
+    { pair: 'AERO/USDC', regimes: regime('ranging') },
+    { pair: 'DEGEN/USDC' },
+  ] as MarketDataItem[];
+
+  it('is off unless enabled with a specific preferred regime', () => {
+    expect(regimeGateFromConfig({ regimeGate: true, behavior: { preferredConditions: 'trending' } })).toBe('trending');
+    expect(regimeGateFromConfig({ regimeGate: false, behavior: { preferredConditions: 'trending' } })).toBeUndefined();
+    expect(regimeGateFromConfig({ regimeGate: true, behavior: { preferredConditions: 'any' } })).toBeUndefined();
+    expect(regimeGateFromConfig({ regimeGate: true })).toBeUndefined();
+  });
+
+  it('vetoes entries on pairs outside the preferred regime or without one', () => {
+    expect(regimeGateVeto('trending', 'WETH/USDC', marketData)).toBeNull();
+    expect(regimeGateVeto('trending', 'AERO/USDC', marketData)).toMatch(/AERO\/USDC is ranging on 1h/);
+    expect(regimeGateVeto('trending', 'DEGEN/USDC', marketData)).toMatch(/no 1h regime/);
+    expect(regimeGateVeto(undefined, 'AERO/USDC', marketData)).toBeNull();
+  });
+
+  it('gates resting orders when they fill, on the regime of that tick', () => {
+    const engine = new PaperEngine({ balance: 10_000, slippage: 0 });
+    const order = engine.placeOrder({
+      agentId: 'agent',
+      pair: 'AERO/USDC',
+      dex: 'aerodrome',
+      side: 'buy',
+      type: 'limit',
+      triggerPrice: 1,
+      positionSizePct: 10,
+      maxPositionSizePct: 20,
+      confidence: 0.8,
+      reasoning: 'dip',
+      strategyUsed: 'combined',
+      expiresAt: '2099-01-01T00:00:00.000Z',
+    });
+    expect(pendingOrderFillVeto(engine, order, { marketData, regimeGate: 'trending' })).toMatch(/AERO\/USDC is ranging on 1h/);
+    expect(pendingOrderFillVeto(engine, order, { marketData, regimeGate: 'ranging' })).toBeNull();
+  });
+
+  it('shows the regime and the gate in the agent prompt', () => {
+    const prompt = buildAnalysisPrompt({
+      portfolioState: { balance: 10_000, openPositions: 0, dailyPnlPct: 0, totalPnlPct: 0 },
+      openPositions: [],
+      marketData: [{ pair: 'WETH/USDC', priceUsd: 3000, priceChange: {}, indicatorText: '', regimes: regime('ranging') }],
+      lastDecisions: [],
+      config: {
+        pairs: ['WETH/USDC'],
+        maxPositionSizePct: 5,
+        maxOpenPositions: 3,
+        stopLossPct: 5,
+        takeProfitPct: 7,
+        regimeGate: 'trending',
+      },
+    });
+    expect(prompt).toContain('Regime (deterministic): 1h ranging (ADX 30.0, volatility 50th pct, Hurst 0.60)');
+    expect(prompt).toContain('Regime gate: new entries (buy/sell/add) only execute on pairs whose 1h regime is trending');
+  });
+});
@@ -204,6 +204,19 @@ describe('migrateAgentConfig — numeric clamping', () => {
   });
 });
 
+describe('migrateAgentConfig — indicatorPeriods', () => {
+  it('drops periods longer than the analysed history and keeps the rest', () => {
+    const result = migrateAgentConfig({ indicatorPeriods: { atr: 10, ichimokuBase: 26, ichimokuSpan: 52 } });
+    expect(result.indicatorPeriods).toEqual({ atr: 10, ichimokuBase: 26 });
+  });
+
+  it('drops custom rules needing more history than analysis sees', () => {
+    const keep = { name: 'dip', side: 'buy', when: 'rsi(14) < 28', confidence: 0.7 };
+    const result = migrateAgentConfig({ customRules: [keep, { ...keep, name: 'trend', when: 'close > ema(50)' }] });
+    expect(result.customRules).toEqual([keep]);
+  });
+});
+
 describe('migrateAgentConfig — pure function contract', () => {
   it('does not mutate the original config object', () => {
     const original = { analysisInterval: '1m', stopLossPct: 0.1 };
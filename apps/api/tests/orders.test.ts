@@ -0,0 +1,302 @@
+/**
+ * Limit, stop and trailing-stop order tests.
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { AgentConfigSchema, TradeDecisionSchema } from '@something-in-loop/shared';
+import type { TradeDecision } from '@something-in-loop/shared';
+import { PaperEngine, isOrderTriggered } from '../src/services/paper-engine.js';
+import type { PlaceOrderParams } from '../src/services/paper-engine.js';
+import { processPendingOrders, resolveTrailingStopConfig } from '../src/agents/agent-loop/orders.js';
+import { evaluatePositionRisk } from '../src/agents/agent-loop/risk-controls.js';
+import { replayBacktest } from '../src/agents/backtest.js';
+import type { BacktestDecisionProvider } from '../src/agents/backtest.js';
+import type { OHLCVCandle } from '../src/services/gecko-terminal.js';
+
+// Stub cloudflare:workers (DurableObject base class) — not available in Vitest/Node
+vi.mock('cloudflare:workers', () => ({
+  DurableObject: class {
+    constructor(_state: unknown, _env: unknown) {}
+  },
+}));
+
+const HOUR_MS = 60 * 60_000;
+const START_MS = Date.UTC(2025, 0, 1, 0, 0, 0);
+
+const orderParams: PlaceOrderParams = {
+  agentId: 'test-agent',
+  pair: 'WETH/USDC',
+  dex: 'aerodrome',
+  side: 'buy',
+  type: 'limit',
+  triggerPrice: 2400,
+  positionSizePct: 10,
+  maxPositionSizePct: 20,
+  confidence: 0.8,
+  reasoning: 'buy the dip',
+  strategyUsed: 'combined',
+  slippagePct: 0,
+  expiresAt: '2099-01-01T00:00:00.000Z',
+};
+
+const positionParams = {
+  agentId: 'test-agent',
+  pair: 'WETH/USDC',
+  dex: 'aerodrome',
+  price: 100,
+  amountUsd: 1000,
+  maxPositionSizePct: 20,
+  balance: 10_000,
+  confidence: 0.8,
+  reasoning: 'trend',
+  strategyUsed: 'combined',
+  slippagePct: 0,
+};
+
+describe('order triggers', () => {
+  it('fills limits at or better than the trigger and stops on a break through it', () => {
+    expect(isOrderTriggered({ side: 'buy', type: 'limit', triggerPrice: 100 }, 99)).toBe(true);
+    expect(isOrderTriggered({ side: 'buy', type: 'limit', triggerPrice: 100 }, 101)).toBe(false);
+    expect(isOrderTriggered({ side: 'sell', type: 'limit', triggerPrice: 100 }, 101)).toBe(true);
+    expect(isOrderTriggered({ side: 'buy', type: 'stop', triggerPrice: 100 }, 101)).toBe(true);
+    expect(isOrderTriggered({ side: 'buy', type: 'stop', triggerPrice: 100 }, 99)).toBe(false);
+    expect(isOrderTriggered({ side: 'sell', type: 'stop', triggerPrice: 100 }, 99)).toBe(true);
+    expect(isOrderTriggered({ side: 'buy', type: 'limit', triggerPrice: 100 }, 0)).toBe(false);
+  });
+});
+
+describe('resting orders', () => {
+  it('rests a limit buy until price reaches the trigger, then opens at the market price', () => {
+    const engine = new PaperEngine({ balance: 10_000, slippage: 0 });
+    engine.placeOrder(orderParams);
+    expect(engine.pendingOrders).toHaveLength(1);
+    expect(engine.balance).toBe(10_000);
+
+    let outcome = processPendingOrders(engine, () => 2500, 3);
+    expect(outcome.filled).toHaveLength(0);
+    expect(engine.pendingOrders).toHaveLength(1);
+
+    outcome = processPendingOrders(engine, () => 2390, 3);
+    expect(outcome.filled).toHaveLength(1);
+    expect(outcome.filled[0].entryPrice).toBe(2390);
+    expect(outcome.filled[0].amountUsd).toBeCloseTo(1000, 6);
+    expect(engine.pendingOrders).toHaveLength(0);
+    expect(engine.openPositions).toHaveLength(1);
+  });
+
+  it('keeps a triggered order resting while at max open positions', () => {
+    const engine = new PaperEngine({ balance: 10_000, slippage: 0 });
+    engine.openPosition({ ...positionParams, pair: 'AERO/USDC', side: 'buy' });
+    engine.placeOrder(orderParams);
+
+    const outcome = processPendingOrders(engine, () => 2300, 1);
+    expect(outcome.filled).toHaveLength(0);
+    expect(engine.pendingOrders).toHaveLength(1);
+  });
+
+  it('cancels a triggered order the fill-time veto refuses and reports why', () => {
+    const engine = new PaperEngine({ balance: 10_000, slippage: 0 });
+    engine.placeOrder(orderParams);
+
+    const outcome = processPendingOrders(engine, () => 2390, 3, (order) => `vetoed ${order.pair}`);
+    expect(outcome.filled).toHaveLength(0);
+    expect(outcome.rejected.map((r) => r.error)).toEqual(['vetoed WETH/USDC']);
+    expect(engine.pendingOrders).toHaveLength(0);
+    expect(engine.openPositions).toHaveLength(0);
+  });
+
+  it('expires orders past their expiry and supports cancellation', () => {
+    let now = '2025-01-01T00:00:00.000Z';
+    const engine = new PaperEngine({ balance: 10_000, slippage: 0, clock: () => now });
+    const keep = engine.placeOrder({ ...orderParams, expiresAt: '2025-01-03T00:00:00.000Z' });
+    engine.placeOrder({ ...orderParams, expiresAt: '2025-01-02T00:00:00.000Z' });
+
+    now = '2025-01-02T00:00:00.000Z';
+    const outcome = processPendingOrders(engine, () => 2500, 3);
+    expect(outcome.expired).toHaveLength(1);
+    expect(engine.pendingOrders.map((o) => o.id)).toEqual([keep.id]);
+
+    expect(engine.cancelOrder(keep.id)).toBe(true);
+    expect(engine.cancelOrder(keep.id)).toBe(false);
+  });
+
+  it('rejects shorts in spot-only mode and non-positive triggers', () => {
+    const spot = new PaperEngine({ balance: 10_000, slippage: 0, mode: 'spot-only' });
+    expect(() => spot.placeOrder({ ...orderParams, side: 'sell' })).toThrow('spot-only');
+    const engine = new PaperEngine({ balance: 10_000, slippage: 0 });
+    expect(() => engine.placeOrder({ ...orderParams, triggerPrice: 0 })).toThrow('trigger price');
+  });
+});
+
+describe('trailing stops', () => {
+  it('ratchets a long trailing stop up with price and never back down', () => {
+    const engine = new PaperEngine({ balance: 10_000, slippage: 0 });
+    const position = engine.openPosition({
+      ...positionParams,
+      side: 'buy',
+      trailingStop: { type: 'pct', distancePct: 5 },
+    });
+    expect(position.trailingStop?.stopPrice).toBeCloseTo(95, 6);
+
+    expect(engine.updateTrailingStop(position, 120)).toBe(false);
+    expect(position.trailingStop?.stopPrice).toBeCloseTo(114, 6);
+    expect(engine.updateTrailingStop(position, 116)).toBe(false);
+    expect(position.trailingStop?.stopPrice).toBeCloseTo(114, 6);
+    expect(engine.updateTrailingStop(position, 113.5)).toBe(true);
+  });
+
+  it('trails shorts from below using a fixed ATR distance', () => {
+    const engine = new PaperEngine({ balance: 10_000, slippage: 0 });
+    const position = engine.openPosition({
+      ...positionParams,
+      side: 'sell',
+      trailingStop: { type: 'atr', atrMultiple: 2, atr: 3 },
+    });
+    expect(position.trailingStop?.stopPrice).toBe(106);
+    expect(engine.updateTrailingStop(position, 90)).toBe(false);
+    expect(position.trailingStop?.stopPrice).toBe(96);
+    expect(engine.updateTrailingStop(position, 96)).toBe(true);
+  });
+
+  it('reports trailing_stop from evaluatePositionRisk before take profit', () => {
+    const engine = new PaperEngine({ balance: 10_000, slippage: 0 });
+    const position = engine.openPosition({
+      ...positionParams,
+      side: 'buy',
+      trailingStop: { type: 'pct', distancePct: 2 },
+    });
+    expect(evaluatePositionRisk(engine, position, 110, { stopLossPct: 5, takeProfitPct: 50 })).toBeNull();
+    expect(evaluatePositionRisk(engine, position, 107, { stopLossPct: 5, takeProfitPct: 50 })).toBe('trailing_stop');
+  });
+});
+
+describe('order persistence', () => {
+  it('round-trips pending orders and trailing state through serialize()', () => {
+    const engine = new PaperEngine({ balance: 10_000, slippage: 0 });
+    const order = engine.placeOrder(orderParams);
+    const position = engine.openPosition({
+      ...positionParams,
+      side: 'buy',
+      trailingStop: { type: 'pct', distancePct: 5 },
+    });
+    engine.updateTrailingStop(position, 130);
+
+    const restored = PaperEngine.deserialize(JSON.parse(JSON.stringify(engine.serialize())));
+    expect(restored.pendingOrders).toEqual([order]);
+    expect(restored.openPositions[0].trailingStop?.stopPrice).toBeCloseTo(123.5, 6);
+  });
+
+  it('restores state saved before pending orders existed', () => {
+    const legacy = new PaperEngine({ balance: 5_000, slippage: 0.3 }).serialize() as Record<string, unknown>;
+    delete legacy.pendingOrders;
+    const restored = PaperEngine.deserialize(legacy as ReturnType<PaperEngine['serialize']>);
+    expect(restored.pendingOrders).toEqual([]);
+    expect(restored.balance).toBe(5_000);
+  });
+});
+
+describe('order decisions', () => {
+  it('requires a trigger price for limit and stop orders', () => {
+    const base = { action: 'buy', confidence: 0.8, reasoning: 'x' };
+    expect(TradeDecisionSchema.safeParse({ ...base, order: { type: 'limit' } }).success).toBe(false);
+    expect(TradeDecisionSchema.safeParse({ ...base, order: { type: 'stop', triggerPrice: 10 } }).success).toBe(true);
+    expect(TradeDecisionSchema.safeParse({ ...base, order: { trailingStopPct: 3 } }).success).toBe(true);
+    expect(TradeDecisionSchema.safeParse({ ...base, order: null }).success).toBe(true);
+  });
+
+  it('resolves trailing stops from the decision first, then the trailing exit strategy', () => {
+    const defaults = { exitStrategy: 'trailing', stopLossPct: 4 };
+    expect(resolveTrailingStopConfig({ type: 'market', trailingStopAtr: 2 }, 1.5, defaults)).toEqual({
+      type: 'atr',
+      atrMultiple: 2,
+      atr: 1.5,
+    });
+    expect(resolveTrailingStopConfig({ type: 'market', trailingStopAtr: 2, trailingStopPct: 3 }, undefined, defaults))
+      .toEqual({ type: 'pct', distancePct: 3 });
+    expect(resolveTrailingStopConfig(null, undefined, defaults)).toEqual({ type: 'pct', distancePct: 4 });
+    expect(resolveTrailingStopConfig(null, undefined, { exitStrategy: 'signal_based', stopLossPct: 4 })).toBeUndefined();
+  });
+});
+
+describe('orders in backtest replay', () => {
+  function candlesFromCloses(closes: number[]): OHLCVCandle[] {
+    return closes.map((c, i) => ({ t: START_MS + i * HOUR_MS, o: c, h: c, l: c, c }));
+  }
+
+  function makeConfig(overrides: Record<string, unknown> = {}) {
+    return AgentConfigSchema.parse({
+      name: 'Backtest Agent',
+      pairs: ['WETH/USDC'],
+      paperBalance: 10_000,
+      maxPositionSizePct: 20,
+      maxOpenPositions: 1,
+      stopLossPct: 5,
+      takeProfitPct: 50,
+      slippageSimulation: 0,
+      cooldownAfterLossMinutes: 0,
+      maxDailyLossPct: 50,
+      ...overrides,
+    });
+  }
+
+  function scripted(script: Record<number, Partial<TradeDecision>>): BacktestDecisionProvider {
+    return async ({ barIndex }) => ({
+      action: 'hold',
+      confidence: 0.9,
+      reasoning: 'scripted',
+      targetPair: 'WETH/USDC',
+      suggestedPositionSizePct: 20,
+      ...script[barIndex],
+    });
+  }
+
+  it('backs exitStrategy trailing with a mechanical trailing stop', async () => {
+    const result = await replayBacktest({
+      config: makeConfig({ behavior: { exitStrategy: 'trailing' } }),
+      candles: { 'WETH/USDC': candlesFromCloses([100, 110, 120, 113, 112]) },
+      decide: scripted({ 0: { action: 'buy' } }),
+    });
+
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0].closeReason).toBe('trailing_stop');
+    expect(result.trades[0].exitPrice).toBe(113);
+  });
+
+  it('fills a limit entry on a later bar and drops unfilled orders at expiry', async () => {
+    const result = await replayBacktest({
+      config: makeConfig(),
+      candles: { 'WETH/USDC': candlesFromCloses([100, 99, 96, 97, 98]) },
+      decide: scripted({
+        0: { action: 'buy', order: { type: 'limit', triggerPrice: 97 } },
+      }),
+      closeOpenAtEnd: false,
+    });
+
+    expect(result.openPositions).toHaveLength(1);
+    expect(result.openPositions[0].entryPrice).toBe(96);
+    expect(result.openPositions[0].openedAt).toBe(new Date(START_MS + 2 * HOUR_MS).toISOString());
+
+    const expired = await replayBacktest({
+      config: makeConfig(),
+      candles: { 'WETH/USDC': candlesFromCloses([100, 99, 98, 96]) },
+      decide: scripted({
+        0: { action: 'buy', order: { type: 'limit', triggerPrice: 97, expiresInHours: 2 } },
+      }),
+      closeOpenAtEnd: false,
+    });
+    expect(expired.openPositions).toHaveLength(0);
+  });
+
+  it('re-checks portfolio limits when a resting order fills', async () => {
+    const result = await replayBacktest({
+      config: makeConfig({ maxOpenPositions: 2, maxAssetGrossExposurePct: 25 }),
+      candles: { 'WETH/USDC': candlesFromCloses([100, 99, 96, 95]) },
+      decide: scripted({
+        0: { action: 'buy', order: { type: 'limit', triggerPrice: 97 } },
+        1: { action: 'buy' },
+      }),
+      closeOpenAtEnd: false,
+    });
+
+    expect(result.openPositions.map((p) => p.entryPrice)).toEqual([99]);
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Pair watch alert tests.
+ *
+ * Prices and history are mocked; D1 is replaced by a small in-memory stand-in
+ * covering the queries evaluatePairWatches makes.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PAIR_WATCH_METRIC_BARS, PairWatchConditionSchema, TRADING_INTERVALS } from '@something-in-loop/shared';
+import type { PairWatchCondition } from '@something-in-loop/shared';
+import { pairWatches } from '../src/db/schema.js';
+
+type WatchRow = typeof pairWatches.$inferSelect;
+type EventRow = { watchId: string; message: string; value: number };
+
+const state = {
+  watches: [] as WatchRow[],
+  events: [] as EventRow[],
+  prices: {} as Record<string, number>,
+  hourly: [] as number[],
+  /** Longer hourly run returned for 4h watches. */
+  extendedHourly: [] as number[],
+};
+
+const mockDb = {
+  select: () => ({ from: () => ({ where: async () => state.watches.filter((w) => w.status === 'active') }) }),
+  insert: () => ({ values: async (row: EventRow) => { state.events.push(row); } }),
+  // Updates apply to the watch being evaluated, which the test tracks via `current`.
+  update: () => ({
+    set: (patch: Partial<WatchRow> & { triggerCount?: unknown }) => ({
+      where: async () => {
+        const watch = state.watches.find((w) => w.id === current)!;
+        const { triggerCount, ...rest } = patch;
+        Object.assign(watch, rest);
+        if (triggerCount !== undefined) watch.triggerCount += 1;
+      },
+    }),
+  }),
+};
+let current = '';
+
+vi.mock('drizzle-orm/d1', () => ({ drizzle: () => mockDb }));
+vi.mock('../src/services/price-resolver.js', () => ({
+  resolveCurrentPriceUsd: vi.fn(async (_env: unknown, pair: string) => state.prices[pair] ?? 0),
+}));
+vi.mock('../src/services/price-history.js', () => ({
+  resolvePairPriceHistory: vi.fn(async () => ({
+    hourlyPrices: state.hourly,
+    dailyPrices: [],
+    hourlySource: 'demo',
+    dailySource: 'none',
+  })),
+  resolvePairHourlyHistory: vi.fn(async (_env: unknown, _pair: string, bars: number) => ({
+    prices: state.extendedHourly.slice(-bars),
+    source: 'demo',
+  })),
+}));
+
+const {
+  closesForTimeframe,
+  evaluatePairWatches,
+  formatPairWatchMessage,
+  latestIndicatorValue,
+  pairWatchFires,
+} = await import('../src/services/pair-watches.js');
+
+function condition(overrides: Partial<PairWatchCondition>): PairWatchCondition {
+  return { metric: 'price', operator: 'crosses', value: 3200, timeframe: '1h', ...overrides };
+}
+
+function watch(overrides: Partial<WatchRow> & Pick<WatchRow, 'id' | 'condition'>): WatchRow {
+  return {
+    ownerAddress: '0xowner',
+    pair: 'WETH/USDC',
+    repeat: false,
+    note: null,
+    status: 'active',
+    lastValue: null,
+    lastCheckedAt: null,
+    lastTriggeredAt: null,
+    triggerCount: 0,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  state.watches = [];
+  state.events = [];
+  state.prices = {};
+  state.hourly = [];
+  state.extendedHourly = [];
+});
+
+describe('pairWatchFires', () => {
+  it('needs a previous reading on the other side to cross', () => {
+    const crosses = condition({ operator: 'crosses' });
+    expect(pairWatchFires(crosses, null, 3300)).toBe(false);
+    expect(pairWatchFires(crosses, 3100, 3300)).toBe(true);
+    expect(pairWatchFires(crosses, 3300, 3100)).toBe(true);
+    expect(pairWatchFires(crosses, 3250, 3300)).toBe(false);
+    expect(pairWatchFires(condition({ operator: 'crosses_above' }), 3300, 3100)).toBe(false);
+    expect(pairWatchFires(condition({ operator: 'crosses_below' }), 3200, 3199)).toBe(true);
+  });
+
+  it('fires level conditions on entering the zone only', () => {
+    const below = condition({ metric: 'rsi', operator: 'below', value: 25 });
+    expect(pairWatchFires(below, null, 20)).toBe(true);
+    expect(pairWatchFires(below, 22, 20)).toBe(false);
+    expect(pairWatchFires(below, 30, 20)).toBe(true);
+    expect(pairWatchFires(condition({ operator: 'above' }), null, 3100)).toBe(false);
+  });
+});
+
+describe('indicator inputs', () => {
+  it('builds 4h closes from every fourth hourly close ending at the latest', () => {
+    const hourly = [1, 2, 3, 4, 5, 6, 7, 8, 9];
+    expect(closesForTimeframe({ hourlyPrices: hourly, dailyPrices: [] }, '4h')).toEqual([1, 5, 9]);
+    expect(closesForTimeframe({ hourlyPrices: hourly, dailyPrices: [10] }, '1d')).toEqual([10]);
+  });
+
+  it('accepts each indicator metric on every timeframe watches load', () => {
+    for (const metric of Object.keys(PAIR_WATCH_METRIC_BARS) as Array<keyof typeof PAIR_WATCH_METRIC_BARS>) {
+      for (const timeframe of TRADING_INTERVALS) {
+        expect(PairWatchConditionSchema.safeParse({ metric, operator: 'below', value: 25, timeframe }).success).toBe(true);
+      }
+    }
+  });
+
+  it('reads the latest RSI once the series is long enough', () => {
+    expect(latestIndicatorValue('rsi', [1, 2, 3])).toBeUndefined();
+    const falling = Array.from({ length: 30 }, (_, i) => 100 - i);
+    expect(latestIndicatorValue('rsi', falling)).toBeLessThan(25);
+  });
+
+  it('describes the condition in the message', () => {
+    expect(formatPairWatchMessage('AERO/USDC', condition({ metric: 'rsi', operator: 'below', value: 25, timeframe: '4h' }), 21.123456))
+      .toBe('AERO/USDC RSI (4h) below 25 — now 21.1235');
+  });
+});
+
+describe('evaluatePairWatches', () => {
+  it('records events, stores readings and retires one-shot watches', async () => {
+    state.prices['WETH/USDC'] = 3250;
+    state.watches = [
+      watch({ id: 'pw_cross', condition: JSON.stringify(condition({ operator: 'crosses_above' })), lastValue: 3150 }),
+    ];
+    current = 'pw_cross';
+
+    const summary = await evaluatePairWatches({ DB: {} } as any, new Date('2025-01-02T00:00:00.000Z'));
+    expect(summary).toEqual({ checked: 1, triggered: 1, skipped: 0 });
+    expect(state.events[0]).toMatchObject({ watchId: 'pw_cross', value: 3250 });
+    expect(state.watches[0]).toMatchObject({
+      status: 'triggered',
+      lastValue: 3250,
+      triggerCount: 1,
+      lastTriggeredAt: '2025-01-02T00:00:00.000Z',
+    });
+
+    // Triggered watches are no longer evaluated.
+    expect(await evaluatePairWatches({ DB: {} } as any)).toEqual({ checked: 0, triggered: 0, skipped: 0 });
+  });
+
+  it('keeps repeating watches active and skips unresolved readings', async () => {
+    state.hourly = Array.from({ length: 30 }, (_, i) => 100 - i);
+    state.watches = [
+      watch({ id: 'pw_rsi', pair: 'AERO/USDC', repeat: true, condition: JSON.stringify(condition({ metric: 'rsi', operator: 'below', value: 25 })) }),
+    ];
+    current = 'pw_rsi';
+    expect(await evaluatePairWatches({ DB: {} } as any)).toMatchObject({ triggered: 1 });
+    expect(state.watches[0].status).toBe('active');
+
+    // Still oversold on the next run: no new event.
+    expect(await evaluatePairWatches({ DB: {} } as any)).toMatchObject({ checked: 1, triggered: 0 });
+
+    state.watches.push(watch({ id: 'pw_price', pair: 'NOPE/USDC', condition: JSON.stringify(condition({})) }));
+    expect(await evaluatePairWatches({ DB: {} } as any)).toMatchObject({ skipped: 1 });
+  });
+
+  it('evaluates 4h RSI and EMA 21 from the longer hourly history', async () => {
+    // The 48 hourly closes alone give 12 four-hour bars, too few for either.
+    state.hourly = Array.from({ length: 48 }, (_, i) => 100 - i);
+    state.extendedHourly = Array.from({ length: 160 }, (_, i) => 200 - i);
+    state.watches = [
+      watch({ id: 'pw_rsi_4h', pair: 'AERO/USDC', condition: JSON.stringify(condition({ metric: 'rsi', operator: 'below', value: 25, timeframe: '4h' })) }),
+      watch({ id: 'pw_ema_4h', pair: 'AERO/USDC', condition: JSON.stringify(condition({ metric: 'ema21', operator: 'above', value: 1000, timeframe: '4h' })) }),
+    ];
+    current = 'pw_rsi_4h';
+
+    expect(await evaluatePairWatches({ DB: {} } as any)).toEqual({ checked: 2, triggered: 1, skipped: 0 });
+    expect(state.events[0]).toMatchObject({ watchId: 'pw_rsi_4h' });
+    expect(state.events[0].message).toMatch(/^AERO\/USDC RSI \(4h\) below 25/);
+  });
+});
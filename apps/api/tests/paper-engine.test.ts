@@ -176,3 +176,222 @@ describe('paper engine short positions', () => {
     expect(closed.pnlPct).toBeGreaterThan(0);
   });
 });
+
+describe('paper engine partial closes and scale-in', () => {
+  const params = {
+    agentId: 'test',
+    pair: 'WETH/USDC',
+    dex: 'aerodrome',
+    side: 'buy' as const,
+    price: 100,
+    amountUsd: 1000,
+    maxPositionSizePct: 30,
+    balance: 10000,
+    confidence: 0.8,
+    reasoning: 'entry',
+    strategyUsed: 'combined',
+    slippagePct: 0,
+  };
+
+  it('closes a share of a position as its own record with proportional PnL', () => {
+    const engine = new PaperEngine({ balance: 10000, slippage: 0 });
+    const position = engine.openPosition(params);
+
+    const slice = engine.reducePosition(position.id, { pct: 40, price: 110, closeReason: 'llm_decision' });
+    expect(slice.id).not.toBe(position.id);
+    expect(slice.parentPositionId).toBe(position.id);
+    expect(slice.fillType).toBe('reduce');
+    expect(slice.status).toBe('closed');
+    expect(slice.amountUsd).toBeCloseTo(400, 6);
+    expect(slice.pnlUsd).toBeCloseTo(40, 6);
+    expect(slice.pnlPct).toBeCloseTo(10, 6);
+
+    const [remaining] = engine.openPositions;
+    expect(remaining.amountUsd).toBeCloseTo(600, 6);
+    expect(remaining.tokenAmount).toBeCloseTo(6, 6);
+    expect(engine.balance).toBeCloseTo(9000 + 440, 6);
+    expect(engine.closedPositions).toEqual([slice]);
+  });
+
+  it('closes the whole position when reducing by 100%', () => {
+    const engine = new PaperEngine({ balance: 10000, slippage: 0 });
+    const position = engine.openPosition(params);
+    const closed = engine.reducePosition(position.id, { pct: 100, price: 90 });
+    expect(closed.id).toBe(position.id);
+    expect(engine.openPositions).toHaveLength(0);
+  });
+
+  it('scales into a position at a token-weighted average entry', () => {
+    const engine = new PaperEngine({ balance: 10000, slippage: 0 });
+    const position = engine.openPosition(params);
+
+    const lot = engine.addToPosition(position.id, {
+      price: 125,
+      amountUsd: 1000,
+      maxPositionSizePct: 30,
+      confidence: 0.9,
+      reasoning: 'add to winner',
+    });
+    expect(lot.status).toBe('merged');
+    expect(lot.fillType).toBe('add');
+    expect(lot.parentPositionId).toBe(position.id);
+    expect(lot.tokenAmount).toBeCloseTo(8, 6);
+
+    const [merged] = engine.openPositions;
+    expect(merged.amountUsd).toBeCloseTo(2000, 6);
+    expect(merged.tokenAmount).toBeCloseTo(18, 6);
+    expect(merged.entryPrice).toBeCloseTo(2000 / 18, 6);
+    expect(engine.balance).toBeCloseTo(8000, 6);
+
+    const closed = engine.closePosition(position.id, { price: 125 });
+    expect(closed.pnlUsd).toBeCloseTo(18 * 125 - 2000, 6);
+  });
+
+  it('rejects a scale-in that would push the position past the size cap', () => {
+    const engine = new PaperEngine({ balance: 10000, slippage: 0 });
+    const position = engine.openPosition(params);
+    expect(() =>
+      engine.addToPosition(position.id, {
+        price: 100,
+        amountUsd: 2500,
+        maxPositionSizePct: 30,
+        confidence: 0.9,
+        reasoning: 'too big',
+      }),
+    ).toThrow('exceed max allowed');
+  });
+});
+
+describe('paper engine margin positions', () => {
+  const params = {
+    agentId: 'test',
+    pair: 'WETH/USDC',
+    dex: 'aerodrome',
+    side: 'buy' as const,
+    price: 100,
+    amountUsd: 1000,
+    maxPositionSizePct: 30,
+    balance: 10000,
+    confidence: 0.8,
+    reasoning: 'entry',
+    strategyUsed: 'combined',
+    slippagePct: 0,
+  };
+
+  it('leaves spot longs without a liquidation price', () => {
+    const engine = new PaperEngine({ balance: 10000, slippage: 0 });
+    const position = engine.openPosition(params);
+    expect(position.leverage).toBeUndefined();
+    expect(position.liquidationPrice).toBeUndefined();
+    expect(engine.checkLiquidation(position, 1)).toBe(false);
+  });
+
+  it('scales P&L by leverage and liquidates at the maintenance margin', () => {
+    const engine = new PaperEngine({ balance: 10000, slippage: 0 });
+    const position = engine.openPosition({ ...params, leverage: 5 });
+    expect(position.tokenAmount).toBeCloseTo(50, 6);
+    // 90% of margin lost at an 18% adverse move on 5x.
+    expect(position.liquidationPrice).toBeCloseTo(82, 6);
+    expect(engine.checkLiquidation(position, 83)).toBe(false);
+    expect(engine.checkLiquidation(position, 82)).toBe(true);
+
+    const closed = engine.liquidatePosition(position.id, 81);
+    expect(closed.closeReason).toBe('liquidation');
+    expect(closed.pnlUsd).toBeCloseTo(-1000, 6);
+    expect(engine.balance).toBeCloseTo(9000, 6);
+
+    const winner = engine.openPosition({ ...params, leverage: 5 });
+    const won = engine.closePosition(winner.id, { price: 110 });
+    expect(won.pnlPct).toBeCloseTo(50, 6);
+    expect(won.pnlUsd).toBeCloseTo(500, 6);
+  });
+
+  it('treats unleveraged shorts as margin positions', () => {
+    const engine = new PaperEngine({ balance: 10000, slippage: 0 });
+    const position = engine.openPosition({ ...params, side: 'sell' });
+    expect(position.leverage).toBe(1);
+    expect(position.liquidationPrice).toBeCloseTo(190, 6);
+  });
+
+  it('restores shorts persisted before margin simulation with their original P&L', () => {
+    let now = '2026-01-01T00:00:00.000Z';
+    const engine = new PaperEngine({ balance: 10000, slippage: 0, clock: () => now });
+    const state = engine.serialize();
+    // A pre-margin short: no leverage, liquidation price or funding fields.
+    state.positions.push({
+      id: 'legacy-short',
+      agentId: 'test',
+      pair: 'WETH/USDC',
+      dex: 'aerodrome',
+      side: 'sell',
+      entryPrice: 100,
+      effectiveEntryPrice: 100,
+      amountUsd: 1000,
+      tokenAmount: 10,
+      confidenceBefore: 0.8,
+      reasoning: 'entry',
+      strategyUsed: 'combined',
+      slippageSimulated: 0,
+      status: 'open',
+      openedAt: now,
+    });
+    state.balance = 9000;
+
+    const restored = PaperEngine.deserialize(JSON.parse(JSON.stringify(state)));
+    const [position] = restored.openPositions;
+    expect(position.leverage).toBe(1);
+    expect(restored.markToMarket(new Map([['WETH/USDC', 90]])).unrealizedPnlUsd).toBeCloseTo(100, 6);
+
+    now = '2026-01-02T00:00:00.000Z';
+    expect(restored.accrueFunding(0.08)).toHaveLength(0);
+    expect(restored.checkLiquidation(position, 500)).toBe(false);
+
+    const again = PaperEngine.deserialize(JSON.parse(JSON.stringify(restored.serialize())));
+    const closed = again.closePosition('legacy-short', { price: 90 });
+    expect(closed.pnlPct).toBeCloseTo(10, 6);
+    expect(closed.pnlUsd).toBeCloseTo(100, 6);
+    expect(again.balance).toBeCloseTo(10100, 6);
+  });
+
+  it('accrues hourly funding that longs pay and shorts receive', () => {
+    let now = '2026-01-01T00:00:00.000Z';
+    const engine = new PaperEngine({ balance: 10000, slippage: 0, clock: () => now });
+    const long = engine.openPosition({ ...params, leverage: 2 });
+    const short = engine.openPosition({ ...params, side: 'sell', leverage: 2 });
+    const liqBefore = long.liquidationPrice!;
+
+    now = '2026-01-01T00:30:00.000Z';
+    expect(engine.accrueFunding(0.08)).toHaveLength(0);
+
+    now = '2026-01-01T08:30:00.000Z';
+    expect(engine.accrueFunding(0.08)).toHaveLength(2);
+    // $2000 notional × 0.08% per 8h × 8h
+    expect(long.fundingUsd).toBeCloseTo(1.6, 6);
+    expect(short.fundingUsd).toBeCloseTo(-1.6, 6);
+    expect(long.fundingAccruedAt).toBe('2026-01-01T08:00:00.000Z');
+    expect(long.liquidationPrice!).toBeGreaterThan(liqBefore);
+
+    const closed = engine.closePosition(long.id, { price: 100 });
+    expect(closed.pnlUsd).toBeCloseTo(-1.6, 6);
+  });
+
+  it('rejects leverage in spot-only mode', () => {
+    const engine = new PaperEngine({ balance: 10000, slippage: 0, mode: 'spot-only' });
+    expect(() => engine.openPosition({ ...params, leverage: 3 })).toThrow('spot-only');
+  });
+  it('marks open positions to market without closing them', () => {
+    const engine = new PaperEngine({ balance: 10000, slippage: 0 });
+    engine.openPosition(params);
+    engine.openPosition({ ...params, pair: 'AERO/USDC', side: 'sell', leverage: 2 });
+    engine.openPosition({ ...params, pair: 'DEGEN/USDC' });
+
+    const mark = engine.markToMarket(new Map([['WETH/USDC', 90], ['AERO/USDC', 90]]));
+    expect(mark.balance).toBeCloseTo(7000, 6);
+    // Spot long -$100, 2x short +$200, DEGEN unpriced and carried at cost.
+    expect(mark.unrealizedPnlUsd).toBeCloseTo(100, 6);
+    expect(mark.equity).toBeCloseTo(10100, 6);
+    expect(mark.exposureUsd).toBeCloseTo(900 + 1800 + 1000, 6);
+    expect(mark.unpricedPositions).toBe(1);
+    expect(engine.openPositions).toHaveLength(3);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Portfolio risk tests.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  computeAssetExposure,
+  computeHistoricalVarUsd,
+  computeReturnCorrelation,
+  evaluateEntryRisk,
+  riskLimitsFromConfig,
+  toReturns,
+  type PortfolioRiskLimits,
+} from '../src/agents/agent-loop/portfolio-risk.js';
+import { PaperEngine } from '../src/services/paper-engine.js';
+
+const looseLimits: PortfolioRiskLimits = {
+  maxAssetGrossExposurePct: 1000,
+  maxAssetNetExposurePct: 1000,
+  maxPairCorrelation: 1,
+  maxPortfolioVarPct: 100,
+};
+
+/** Deterministic zig-zag closes with a given step size. */
+function zigzag(length: number, step: number, start = 100): number[] {
+  return Array.from({ length }, (_, i) => start * (1 + (i % 2 === 0 ? 0 : step) + (i % 3 === 0 ? -step / 2 : 0)));
+}
+
+function openLong(engine: PaperEngine, pair: string, amountUsd: number) {
+  return engine.openPosition({
+    agentId: 'test',
+    pair,
+    dex: 'aerodrome',
+    side: 'buy',
+    price: 100,
+    amountUsd,
+    maxPositionSizePct: 100,
+    balance: engine.balance,
+    confidence: 0.8,
+    reasoning: 'test',
+    strategyUsed: 'combined',
+    slippagePct: 0,
+  });
+}
+
+describe('portfolio risk', () => {
+  it('nets an asset across the pairs it appears in', () => {
+    const exposure = computeAssetExposure([
+      { pair: 'WETH/USDC', side: 'buy', notionalUsd: 1000 },
+      { pair: 'cbBTC/WETH', side: 'buy', notionalUsd: 400 },
+    ]);
+    const weth = exposure.find((e) => e.asset === 'WETH');
+    expect(weth).toEqual({ asset: 'WETH', grossUsd: 1400, netUsd: 600 });
+    expect(exposure.find((e) => e.asset === 'CBBTC')?.netUsd).toBe(400);
+    expect(exposure.some((e) => e.asset === 'USDC')).toBe(false);
+  });
+
+  it('measures return correlation and needs enough samples', () => {
+    const a = toReturns(zigzag(40, 0.02));
+    const b = a.map((r) => r * 2);
+    const inverse = a.map((r) => -r);
+    expect(computeReturnCorrelation(a, b)).toBeCloseTo(1, 6);
+    expect(computeReturnCorrelation(a, inverse)).toBeCloseTo(-1, 6);
+    expect(computeReturnCorrelation(a.slice(0, 5), b.slice(0, 5))).toBeNull();
+  });
+
+  it('computes historical VaR from replayed returns', () => {
+    const returns = Array.from({ length: 20 }, (_, i) => (i === 0 ? -0.1 : i === 1 ? -0.05 : 0.01));
+    const varUsd = computeHistoricalVarUsd(
+      [{ pair: 'WETH/USDC', side: 'buy', notionalUsd: 1000 }],
+      new Map([['WETH/USDC', returns]]),
+    );
+    // 5th percentile of 20 samples is the second-worst bar.
+    expect(varUsd).toBeCloseTo(50, 6);
+    const shortVar = computeHistoricalVarUsd(
+      [{ pair: 'WETH/USDC', side: 'sell', notionalUsd: 1000 }],
+      new Map([['WETH/USDC', returns]]),
+    );
+    // A short loses on the common +1% bars.
+    expect(shortVar).toBeCloseTo(10, 6);
+  });
+
+  it('vetoes entries that breach exposure, correlation or VaR limits', () => {
+    const engine = new PaperEngine({ balance: 10000, slippage: 0 });
+    openLong(engine, 'WETH/USDC', 3000);
+    const closes = zigzag(48, 0.03);
+    const closesByPair = new Map([
+      ['WETH/USDC', closes],
+      ['WETH/USDT', closes.map((c) => c * 1.01)],
+    ]);
+    const candidate = { pair: 'WETH/USDT', side: 'buy' as const, notionalUsd: 3000 };
+
+    expect(evaluateEntryRisk(engine, candidate, closesByPair, looseLimits)).toBeNull();
+    expect(
+      evaluateEntryRisk(engine, candidate, closesByPair, { ...looseLimits, maxAssetGrossExposurePct: 50 }),
+    ).toMatch(/gross WETH exposure 59\.5%/); // $6000 over equity marked at the last close of 103
+    expect(
+      evaluateEntryRisk(engine, candidate, closesByPair, { ...looseLimits, maxPairCorrelation: 0.9 }),
+    ).toMatch(/correlation 1\.00 with open buy on WETH\/USDC/);
+    expect(
+      evaluateEntryRisk(engine, candidate, closesByPair, { ...looseLimits, maxPortfolioVarPct: 0.5 }),
+    ).toMatch(/VaR/);
+    // Unset limits are not enforced.
+    expect(evaluateEntryRisk(engine, candidate, closesByPair, { maxPortfolioVarPct: 100 })).toBeNull();
+    // The opposite side hedges instead of stacking the same risk.
+    expect(
+      evaluateEntryRisk(engine, { ...candidate, side: 'sell' }, closesByPair, { ...looseLimits, maxPairCorrelation: 0.9 }),
+    ).toBeNull();
+  });
+
+  it('is off for configs without limits and counts unrealized P&L in equity', () => {
+    expect(riskLimitsFromConfig({})).toBeUndefined();
+    expect(riskLimitsFromConfig({ maxPairCorrelation: 0.8 })).toEqual({ maxPairCorrelation: 0.8 });
+
+    const engine = new PaperEngine({ balance: 10000, slippage: 0 });
+    openLong(engine, 'WETH/USDC', 5000);
+    const candidate = { pair: 'WETH/USDT', side: 'buy' as const, notionalUsd: 1000 };
+    const limits = { maxAssetGrossExposurePct: 60 };
+    // At cost: $6000 of $10000 equity. After WETH doubles: $6000 of $15000.
+    expect(evaluateEntryRisk(engine, candidate, new Map([['WETH/USDC', [100, 100]]]), { maxAssetGrossExposurePct: 59 })).toMatch(/60\.0%/);
+    expect(evaluateEntryRisk(engine, candidate, new Map([['WETH/USDC', [100, 200]]]), limits)).toBeNull();
+  });
+});
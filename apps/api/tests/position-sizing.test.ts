@@ -0,0 +1,97 @@
+/**
+ * Position sizing tests.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  MIN_KELLY_TRADES,
+  computeKellyFraction,
+  computePositionSizePct,
+  computeScaleInSizePct,
+  type PositionSizingConfig,
+} from '../src/agents/agent-loop/position-sizing.js';
+
+const sizing = (overrides: Partial<PositionSizingConfig>): PositionSizingConfig => ({
+  sizingMode: 'fixed',
+  targetVolatilityPct: 0.1,
+  kellyFraction: 0.25,
+  riskPerTradePct: 1,
+  ...overrides,
+});
+
+const base = {
+  suggestedPct: 8,
+  maxPositionSizePct: 20,
+  priceUsd: 100,
+  stopLossPct: 5,
+  closedPositions: [],
+};
+
+/** `wins` trades at +winPct then `losses` trades at -lossPct. */
+function history(wins: number, winPct: number, losses: number, lossPct: number) {
+  return [
+    ...Array.from({ length: wins }, () => ({ pnlPct: winPct, status: 'closed' as const })),
+    ...Array.from({ length: losses }, () => ({ pnlPct: -lossPct, status: 'closed' as const })),
+  ];
+}
+
+describe('position sizing', () => {
+  it('uses the capped suggested size in fixed mode or without a sizing config', () => {
+    expect(computePositionSizePct({ ...base, sizing: sizing({}) }).sizePct).toBe(8);
+    expect(computePositionSizePct({ ...base, suggestedPct: 50 }).sizePct).toBe(20);
+    expect(computePositionSizePct({ ...base, suggestedPct: null }).sizePct).toBe(10);
+  });
+
+  it('targets volatility per ATR and scales down with leverage', () => {
+    const volatility = sizing({ sizingMode: 'volatility', targetVolatilityPct: 0.1 });
+    // ATR is 1% of price → 0.1 / 1 = 10% of balance.
+    expect(computePositionSizePct({ ...base, sizing: volatility, atr: 1 }).sizePct).toBeCloseTo(10, 6);
+    expect(computePositionSizePct({ ...base, sizing: volatility, atr: 1, leverage: 2 }).sizePct).toBeCloseTo(5, 6);
+    expect(computePositionSizePct({ ...base, sizing: volatility, atr: 0.1 }).sizePct).toBe(20);
+    const noAtr = computePositionSizePct({ ...base, sizing: volatility });
+    expect(noAtr.sizePct).toBe(8);
+    expect(noAtr.note).toMatch(/no ATR/);
+  });
+
+  it('sizes fixed-risk entries so the stop loss costs the risk budget', () => {
+    const fixedRisk = sizing({ sizingMode: 'fixed_risk', riskPerTradePct: 0.5 });
+    expect(computePositionSizePct({ ...base, sizing: fixedRisk }).sizePct).toBeCloseTo(10, 6);
+    expect(computePositionSizePct({ ...base, sizing: fixedRisk, leverage: 4 }).sizePct).toBeCloseTo(2.5, 6);
+  });
+
+  it('bets fractional Kelly from closed trades and declines without an edge', () => {
+    // 60% wins at +10%, 40% losses at -5% → 0.6 - 0.4 / 2 = 0.4.
+    const edge = history(6, 10, 4, 5);
+    expect(computeKellyFraction(edge)).toBeCloseTo(0.4, 6);
+    expect(computeKellyFraction(edge.slice(0, MIN_KELLY_TRADES - 1))).toBeNull();
+
+    const kelly = sizing({ sizingMode: 'kelly', kellyFraction: 0.25 });
+    expect(computePositionSizePct({ ...base, sizing: kelly, closedPositions: edge }).sizePct).toBeCloseTo(10, 6);
+
+    const young = computePositionSizePct({ ...base, sizing: kelly, closedPositions: edge.slice(0, 3) });
+    expect(young.sizePct).toBe(8);
+    expect(young.note).toMatch(/3\/10 closed trades/);
+
+    const losing = computePositionSizePct({ ...base, sizing: kelly, closedPositions: history(3, 5, 7, 5) });
+    expect(losing.sizePct).toBe(0);
+    expect(losing.note).toMatch(/no edge/);
+  });
+});
+
+describe('scale-in sizing', () => {
+  const fixedRisk = sizing({ sizingMode: 'fixed_risk', riskPerTradePct: 0.5 });
+
+  it('adds the capped suggested size in fixed mode', () => {
+    const add = computeScaleInSizePct({ ...base, sizing: sizing({}), balance: 9000, positionAmountUsd: 1000 });
+    expect(add.sizePct).toBe(8);
+  });
+
+  it('only tops a position up to the policy size in the other modes', () => {
+    // fixed_risk → 10% of balance + margin ($10,000) = $1,000 for the whole position.
+    const small = computeScaleInSizePct({ ...base, sizing: fixedRisk, balance: 9800, positionAmountUsd: 200 });
+    expect((small.sizePct / 100) * 9800).toBeCloseTo(800, 6);
+
+    const full = computeScaleInSizePct({ ...base, sizing: fixedRisk, balance: 9000, positionAmountUsd: 1000 });
+    expect(full.sizePct).toBe(0);
+    expect(full.note).toMatch(/already at the policy size/);
+  });
+});
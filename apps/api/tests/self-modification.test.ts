@@ -0,0 +1,201 @@
+/**
+ * Self-modification A/B evaluation tests.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { agentDecisions, agentSelfModifications, agents, trades } from '../src/db/schema.js';
+
+const { emitWebhookEvent } = vi.hoisted(() => ({ emitWebhookEvent: vi.fn(async () => []) }));
+vi.mock('../src/services/webhooks.js', () => ({ emitWebhookEvent }));
+
+import {
+  computeWindowMetrics,
+  applySelfModification,
+  evaluateDueSelfModifications,
+  evaluationSettingsFromConfig,
+  evaluationWindowMs,
+  findDegradation,
+  findOverlappingLaterModification,
+  pickPreviousValues,
+  restorePreviousValues,
+  revertSelfModification,
+} from '../src/services/self-modification.js';
+
+const window = { from: '2025-01-01T00:00:00.000Z', to: '2025-01-02T00:00:00.000Z' };
+
+/** Every query resolves to the rows stored for its table, whatever the filter. */
+function createSelfModDb(tables: Map<unknown, unknown[]>) {
+  const updates: Array<Record<string, unknown>> = [];
+  const rowsFor = (table: unknown) => {
+    const rows = tables.get(table) ?? [];
+    return Object.assign(Promise.resolve(rows), {
+      orderBy: () => Object.assign(Promise.resolve(rows), { limit: async () => rows }),
+    });
+  };
+  return {
+    updates,
+    db: {
+      select: () => ({ from: (table: unknown) => ({ where: () => rowsFor(table) }) }),
+      insert: () => ({ values: async () => undefined }),
+      update: () => ({
+        set: (values: Record<string, unknown>) => {
+          updates.push(values);
+          return { where: async () => undefined };
+        },
+      }),
+    } as any,
+  };
+}
+
+const appliedMod = {
+  id: 'mod_1',
+  agentId: 'agent_001',
+  status: 'applied',
+  changes: JSON.stringify({ stopLossPct: 3 }),
+  changesApplied: JSON.stringify({ stopLossPct: 3 }),
+  previousValues: JSON.stringify({ stopLossPct: 5 }),
+  baselineMetrics: JSON.stringify(computeWindowMetrics([{ pnlPct: 2, pnlUsd: 200 }], 10_000, window)),
+  appliedAt: '2026-03-01T00:00:00.000Z',
+  evaluateAfter: '2026-03-01T04:00:00.000Z',
+} as any;
+
+const env = {} as any;
+
+beforeEach(() => {
+  emitWebhookEvent.mockClear();
+});
+
+const decisionsAfter = (count: number) =>
+  Array.from({ length: count }, (_, i) => ({ createdAt: new Date(Date.parse(appliedMod.appliedAt) + (i + 1) * 3_600_000).toISOString() }));
+
+describe('self-modification evaluation', () => {
+  it('records replaced values and restores them, dropping keys that were unset', () => {
+    const config = { stopLossPct: 5, takeProfitPct: 10 };
+    const changes = { stopLossPct: 3, maxLeverage: 3 };
+    const previous = pickPreviousValues(config, changes);
+    expect(previous).toEqual({ stopLossPct: 5, maxLeverage: null });
+
+    const restored = restorePreviousValues({ ...config, ...changes, temperature: 0.2 }, previous);
+    expect(restored).toEqual({ stopLossPct: 5, takeProfitPct: 10, temperature: 0.2 });
+  });
+
+  it('sizes the window from cycles and interval', () => {
+    const settings = evaluationSettingsFromConfig({ analysisInterval: '4h', selfModEvaluationCycles: 6 });
+    expect(evaluationWindowMs(settings)).toBe(24 * 60 * 60_000);
+    expect(evaluationSettingsFromConfig({ selfModEvaluationCycles: -1 }).selfModEvaluationCycles).toBe(24);
+  });
+
+  it('measures win rate, PnL and drawdown over a window', () => {
+    const metrics = computeWindowMetrics(
+      [
+        { pnlPct: 4, pnlUsd: 40 },
+        { pnlPct: -6, pnlUsd: -60 },
+        { pnlPct: 1, pnlUsd: 10 },
+      ],
+      1000,
+      window,
+    );
+    expect(metrics.totalTrades).toBe(3);
+    expect(metrics.winRate).toBeCloseTo(2 / 3, 6);
+    expect(metrics.pnlUsd).toBe(-10);
+    expect(metrics.totalPnlPct).toBeCloseTo(-1, 6);
+    expect(metrics.maxDrawdown).toBe(6);
+  });
+
+  it('reverts only when PnL or drawdown degrade past the threshold', () => {
+    const baseline = computeWindowMetrics([{ pnlPct: 2, pnlUsd: 200 }, { pnlPct: 1, pnlUsd: 100 }], 10_000, window);
+    const similar = computeWindowMetrics([{ pnlPct: 1, pnlUsd: 100 }, { pnlPct: 0.5, pnlUsd: 50 }], 10_000, window);
+    const worse = computeWindowMetrics([{ pnlPct: -2, pnlUsd: -200 }, { pnlPct: -1, pnlUsd: -100 }], 10_000, window);
+    const noTrades = computeWindowMetrics([], 10_000, window);
+
+    expect(findDegradation(baseline, similar, 2)).toBeNull();
+    expect(findDegradation(baseline, noTrades, 2)).toBeNull();
+    expect(findDegradation(baseline, worse, 10)).toBeNull();
+    expect(findDegradation(baseline, worse, 2)).toMatch(/^PnL -3\.00% vs 3\.00% before/);
+
+    const deeper = computeWindowMetrics([{ pnlPct: 2, pnlUsd: 200 }, { pnlPct: -5, pnlUsd: 0 }, { pnlPct: 4, pnlUsd: 100 }], 10_000, window);
+    expect(findDegradation(baseline, deeper, 2)).toMatch(/^max drawdown 5\.00%/);
+  });
+});
+
+describe('applySelfModification', () => {
+  it('merges the changes, records what they replaced and emits self_modification.applied', async () => {
+    const { db, updates } = createSelfModDb(new Map());
+    const pending = { ...appliedMod, status: 'pending', changesApplied: null, previousValues: null, appliedAt: null };
+
+    const merged = await applySelfModification(env, db, { id: 'agent_001', config: JSON.stringify({ stopLossPct: 5 }) }, pending);
+    expect(JSON.parse(merged)).toEqual({ stopLossPct: 3 });
+    expect(updates.at(-1)).toMatchObject({ status: 'applied', previousValues: JSON.stringify({ stopLossPct: 5 }) });
+    expect(emitWebhookEvent).toHaveBeenCalledWith(env, expect.objectContaining({
+      type: 'self_modification.applied',
+      agentId: 'agent_001',
+      data: expect.objectContaining({ modificationId: 'mod_1', changes: { stopLossPct: 3 }, previousValues: { stopLossPct: 5 } }),
+    }));
+  });
+});
+
+describe('evaluateDueSelfModifications', () => {
+  const agentRow = { id: 'agent_001', config: JSON.stringify({ paperBalance: 10_000, selfModEvaluationCycles: 4 }) };
+
+  it('waits until the agent has logged the evaluation cycles, however long that takes', async () => {
+    const { db, updates } = createSelfModDb(new Map<unknown, unknown[]>([
+      [agentSelfModifications, [appliedMod]],
+      [agents, [agentRow]],
+      [agentDecisions, decisionsAfter(2)],
+      [trades, [{ pnlPct: -5, pnlUsd: -500 }]],
+    ]));
+
+    expect(await evaluateDueSelfModifications(env, db, 'agent_001', new Date('2026-03-10T00:00:00.000Z'))).toBeNull();
+    expect(updates).toHaveLength(0);
+  });
+
+  it('ends the after window at the last evaluation cycle', async () => {
+    const { db, updates } = createSelfModDb(new Map<unknown, unknown[]>([
+      [agentSelfModifications, [appliedMod]],
+      [agents, [agentRow]],
+      [agentDecisions, decisionsAfter(4)],
+      [trades, [{ pnlPct: 2, pnlUsd: 200 }]],
+    ]));
+
+    expect(await evaluateDueSelfModifications(env, db, 'agent_001', new Date('2026-03-10T00:00:00.000Z'))).toBeNull();
+    expect(updates).toHaveLength(1);
+    expect(updates[0].status).toBe('kept');
+    expect(JSON.parse(String(updates[0].evaluationMetrics))).toMatchObject({
+      from: appliedMod.appliedAt,
+      to: '2026-03-01T04:00:00.000Z',
+    });
+  });
+});
+
+describe('revertSelfModification', () => {
+  const agentRow = { id: 'agent_001', config: JSON.stringify({ stopLossPct: 2 }) };
+  const laterMod = {
+    ...appliedMod,
+    id: 'mod_2',
+    changesApplied: JSON.stringify({ stopLossPct: 2 }),
+    previousValues: JSON.stringify({ stopLossPct: 3 }),
+    appliedAt: '2026-03-02T00:00:00.000Z',
+  };
+
+  it('refuses to restore keys a later modification still in effect changed', async () => {
+    const { db, updates } = createSelfModDb(new Map<unknown, unknown[]>([[agentSelfModifications, [appliedMod, laterMod]]]));
+
+    expect((await findOverlappingLaterModification(db, appliedMod))?.id).toBe('mod_2');
+    expect(await revertSelfModification(env, db, agentRow, appliedMod, { reason: 'manual', author: 'user' })).toBeNull();
+    expect(updates).toHaveLength(0);
+    expect(emitWebhookEvent).not.toHaveBeenCalled();
+  });
+
+  it('restores the previous values when no later modification touched them', async () => {
+    const unrelated = { ...laterMod, changesApplied: JSON.stringify({ takeProfitPct: 8 }) };
+    const { db, updates } = createSelfModDb(new Map<unknown, unknown[]>([[agentSelfModifications, [appliedMod, unrelated]]]));
+
+    const restored = await revertSelfModification(env, db, agentRow, appliedMod, { reason: 'manual', author: 'user' });
+    expect(JSON.parse(String(restored))).toEqual({ stopLossPct: 5 });
+    expect(updates.at(-1)).toMatchObject({ status: 'reverted', revertReason: 'manual' });
+    expect(emitWebhookEvent).toHaveBeenCalledWith(env, {
+      type: 'self_modification.reverted',
+      agentId: 'agent_001',
+      data: { modificationId: 'mod_1', reason: 'manual', author: 'user', restoredValues: { stopLossPct: 5 }, evaluationMetrics: null },
+    });
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Trade journal export tests.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  csvField,
+  encodeExportStream,
+  paginate,
+  realizedGains,
+} from '../src/services/trade-export.js';
+import type { GainsTrade, RealizedGainRow } from '../src/services/trade-export.js';
+
+function trade(overrides: Partial<GainsTrade> & Pick<GainsTrade, 'id' | 'openedAt'>): GainsTrade {
+  return {
+    pair: 'WETH/USDC',
+    side: 'buy',
+    entryPrice: 1000,
+    amountUsd: 1000,
+    pnlUsd: null,
+    leverage: null,
+    closedAt: null,
+    isPaper: false,
+    ...overrides,
+  };
+}
+
+async function* iterate<T>(items: T[]): AsyncGenerator<T> {
+  yield* items;
+}
+
+async function collect<T>(rows: AsyncIterable<T>): Promise<T[]> {
+  const out: T[] = [];
+  for await (const row of rows) out.push(row);
+  return out;
+}
+
+// Two 1-token buys at $1000 then $2000; the later position is closed first at $3000.
+const first = trade({ id: 't1', openedAt: '2024-01-10T00:00:00.000Z', closedAt: '2025-03-01T00:00:00.000Z', pnlUsd: 500 });
+const second = trade({
+  id: 't2',
+  openedAt: '2024-06-01T00:00:00.000Z',
+  closedAt: '2024-12-01T00:00:00.000Z',
+  entryPrice: 2000,
+  amountUsd: 2000,
+  pnlUsd: 1000,
+});
+const short = trade({
+  id: 't3',
+  side: 'sell',
+  leverage: 2,
+  openedAt: '2025-02-01T00:00:00.000Z',
+  closedAt: '2025-02-10T00:00:00.000Z',
+  pnlUsd: -200,
+});
+
+describe('realizedGains', () => {
+  it('matches disposals against the oldest lots and totals each calendar year', async () => {
+    const rows = await collect(realizedGains({
+      acquisitions: iterate([first, second, short]),
+      disposals: iterate([second, short, first]),
+    }));
+    const lots = rows.filter((r) => r.recordType === 'lot');
+
+    // Closing t2 (1 token, $3000 net proceeds) consumes t1's older lot first.
+    expect(lots[0]).toMatchObject({ tradeId: 't2', acquiredTradeId: 't1', taxYear: 2024, basis: 'fifo', costBasisUsd: 1000, proceedsUsd: 3000, gainUsd: 2000 });
+    expect(lots[1]).toMatchObject({ tradeId: 't3', acquiredTradeId: null, basis: 'position', costBasisUsd: 1000, gainUsd: -200 });
+    expect(lots[2]).toMatchObject({ tradeId: 't1', acquiredTradeId: 't2', taxYear: 2025, costBasisUsd: 2000, proceedsUsd: 1500, gainUsd: -500 });
+    expect(lots.reduce((sum, r) => sum + r.gainUsd, 0)).toBeCloseTo(500 + 1000 - 200, 6);
+
+    const totals = rows.filter((r) => r.recordType === 'year_total');
+    expect(totals.map((r) => [r.taxYear, r.term, r.gainUsd])).toEqual([
+      [2024, 'short', 2000],
+      [2025, 'short', -700],
+    ]);
+    // Totals for 2024 are emitted before any 2025 lot.
+    expect(rows.indexOf(totals[0])).toBeLessThan(rows.indexOf(lots[1]));
+  });
+
+  it('keeps paper and live books apart and only reports disposals in range', async () => {
+    const paperBuy = trade({ id: 'p1', isPaper: true, openedAt: '2023-01-01T00:00:00.000Z', entryPrice: 100, amountUsd: 100 });
+    const liveClose = trade({ id: 'l1', openedAt: '2024-01-01T00:00:00.000Z', closedAt: '2024-02-01T00:00:00.000Z', pnlUsd: 100 });
+    const rows = await collect(realizedGains({
+      acquisitions: iterate([paperBuy, liveClose]),
+      disposals: iterate([liveClose]),
+    }));
+    expect(rows[0]).toMatchObject<Partial<RealizedGainRow>>({ acquiredTradeId: 'l1', isPaper: false, costBasisUsd: 1000 });
+
+    const filtered = await collect(realizedGains({
+      acquisitions: iterate([first, second]),
+      disposals: iterate([second, first]),
+      from: '2025-01-01T00:00:00.000Z',
+    }));
+    // t2's earlier disposal still consumed t1's lot even though it is not reported.
+    expect(filtered.filter((r) => r.recordType === 'lot')).toEqual([
+      expect.objectContaining({ tradeId: 't1', acquiredTradeId: 't2', term: 'short' }),
+    ]);
+  });
+});
+
+describe('export encoding', () => {
+  it('quotes CSV fields and neutralises formulas', () => {
+    expect(csvField(null)).toBe('');
+    expect(csvField(-1.5)).toBe('-1.5');
+    expect(csvField('buy, then "hold"')).toBe('"buy, then ""hold"""');
+    expect(csvField('=HYPERLINK("x")')).toBe(`"'=HYPERLINK(""x"")"`);
+  });
+
+  it('streams CSV with a header row and NDJSON one object per line', async () => {
+    const rows = [{ id: 'a', pnlUsd: 1 }, { id: 'b', pnlUsd: null }];
+    const csv = await new Response(encodeExportStream(iterate(rows), 'csv', ['id', 'pnlUsd'])).text();
+    expect(csv).toBe('id,pnlUsd\r\na,1\r\nb,\r\n');
+    const ndjson = await new Response(encodeExportStream(iterate(rows), 'ndjson', ['id'])).text();
+    expect(ndjson.trim().split('\n').map((line) => JSON.parse(line))).toEqual(rows);
+  });
+
+  it('pages until a short page, passing the last row as the cursor', async () => {
+    const cursors: (number | undefined)[] = [];
+    const rows = await collect(paginate(async (after: number | undefined) => {
+      cursors.push(after);
+      const start = (after ?? 0) + 1;
+      return [start, start + 1].filter((n) => n <= 5);
+    }, 2));
+    expect(rows).toEqual([1, 2, 3, 4, 5]);
+    expect(cursors).toEqual([undefined, 2, 4]);
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Outbound webhook tests.
+ *
+ * Deliveries go to a local HTTP stub; D1 is replaced by a small in-memory
+ * stand-in covering the queries emitWebhookEvent / attemptWebhookDelivery make.
+ */
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { agents, webhookDeliveries, webhooks } from '../src/db/schema.js';
+import { encryptKey } from '../src/lib/crypto.js';
+
+type WebhookRow = typeof webhooks.$inferSelect;
+type DeliveryRow = typeof webhookDeliveries.$inferSelect;
+
+const state = {
+  agents: [{ ownerAddress: '0xowner' }],
+  webhooks: [] as WebhookRow[],
+  deliveries: [] as DeliveryRow[],
+};
+
+const mockDb = {
+  select: () => ({
+    from: (table: unknown) => {
+      const chain = {
+        innerJoin: () => chain,
+        where: async () => {
+          if (table === agents) return state.agents;
+          if (table === webhooks) return state.webhooks;
+          return state.deliveries.map((delivery) => ({
+            delivery,
+            webhook: state.webhooks.find((w) => w.id === delivery.webhookId)!,
+          }));
+        },
+      };
+      return chain;
+    },
+  }),
+  insert: () => ({
+    values: async (row: DeliveryRow) => {
+      state.deliveries.push({ responseStatus: null, error: null, lastAttemptAt: null, deliveredAt: null, ...row });
+    },
+  }),
+  // Tests keep a single delivery, so updates apply to it.
+  update: () => ({
+    set: (patch: Partial<DeliveryRow>) => ({
+      where: async () => {
+        Object.assign(state.deliveries[0], patch);
+      },
+    }),
+  }),
+};
+
+vi.mock('drizzle-orm/d1', () => ({ drizzle: () => mockDb }));
+
+const { emitWebhookEvent, signWebhookPayload, webhookRetryDelaySeconds, MAX_WEBHOOK_ATTEMPTS } = await import(
+  '../src/services/webhooks.js'
+);
+const { handleWebhookQueueBatch } = await import('../src/lib/webhook-queue.js');
+
+const KEY_ENCRYPTION_SECRET = 'a'.repeat(64);
+
+type ReceivedRequest = { headers: Record<string, string | string[] | undefined>; body: string };
+const received: ReceivedRequest[] = [];
+const responseStatuses: number[] = [];
+let server: Server;
+let stubUrl = '';
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => { body += chunk; });
+    req.on('end', () => {
+      received.push({ headers: req.headers, body });
+      res.statusCode = responseStatuses.shift() ?? 200;
+      res.end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  stubUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(async () => {
+  received.length = 0;
+  responseStatuses.length = 0;
+  state.deliveries = [];
+  state.webhooks = [{
+    id: 'wh_1',
+    ownerAddress: '0xowner',
+    url: stubUrl,
+    secret: await encryptKey('whsec_test_secret_value', KEY_ENCRYPTION_SECRET),
+    events: JSON.stringify(['trade.closed', 'trade.stop_loss']),
+    description: null,
+    isActive: true,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+  }];
+});
+
+function makeMessage(deliveryId: string, attempts = 1): any {
+  return { body: { deliveryId }, attempts, ack: vi.fn(), retry: vi.fn() };
+}
+
+describe('emitWebhookEvent', () => {
+  it('records a delivery per subscribed webhook and enqueues it', async () => {
+    const send = vi.fn();
+    const env = { DB: {}, KEY_ENCRYPTION_SECRET, WEBHOOK_QUEUE: { send } } as any;
+
+    const ids = await emitWebhookEvent(env, { type: 'trade.closed', agentId: 'agent_1', data: { pnlUsd: 12 } });
+
+    expect(ids).toHaveLength(1);
+    expect(send).toHaveBeenCalledWith({ deliveryId: ids[0] });
+    expect(state.deliveries[0]).toMatchObject({ webhookId: 'wh_1', eventType: 'trade.closed', status: 'pending', attempts: 0 });
+    expect(JSON.parse(state.deliveries[0].payload)).toMatchObject({ type: 'trade.closed', agentId: 'agent_1', data: { pnlUsd: 12 } });
+  });
+
+  it('skips webhooks not subscribed to the event', async () => {
+    const send = vi.fn();
+    const ids = await emitWebhookEvent({ DB: {}, KEY_ENCRYPTION_SECRET, WEBHOOK_QUEUE: { send } } as any, {
+      type: 'trade.opened',
+      agentId: 'agent_1',
+      data: {},
+    });
+    expect(ids).toEqual([]);
+    expect(send).not.toHaveBeenCalled();
+    expect(state.deliveries).toEqual([]);
+  });
+
+  it('delivers inline exactly once without a queue binding', async () => {
+    responseStatuses.push(503);
+    await emitWebhookEvent({ DB: {}, KEY_ENCRYPTION_SECRET } as any, { type: 'trade.stop_loss', agentId: 'agent_1', data: {} });
+    expect(received).toHaveLength(1);
+    expect(state.deliveries[0]).toMatchObject({ status: 'failed', attempts: 1, responseStatus: 503 });
+  });
+});
+
+describe('handleWebhookQueueBatch', () => {
+  it('signs the body, retries with backoff on failure and logs the outcome', async () => {
+    const env = { DB: {}, KEY_ENCRYPTION_SECRET, WEBHOOK_QUEUE: { send: vi.fn() } } as any;
+    const [deliveryId] = await emitWebhookEvent(env, { type: 'trade.closed', agentId: 'agent_1', data: { pnlUsd: -4 } });
+
+    responseStatuses.push(500);
+    const first = makeMessage(deliveryId, 1);
+    await handleWebhookQueueBatch({ queue: 'webhook-deliveries', messages: [first] } as any, env);
+    expect(first.retry).toHaveBeenCalledWith({ delaySeconds: 30 });
+    expect(state.deliveries[0]).toMatchObject({ status: 'pending', attempts: 1, responseStatus: 500, error: 'HTTP 500' });
+
+    const second = makeMessage(deliveryId, 2);
+    await handleWebhookQueueBatch({ queue: 'webhook-deliveries', messages: [second] } as any, env);
+    expect(second.ack).toHaveBeenCalled();
+    expect(state.deliveries[0]).toMatchObject({ status: 'delivered', attempts: 2, responseStatus: 200, error: null });
+
+    const request = received[1];
+    expect(request.body).toBe(state.deliveries[0].payload);
+    expect(request.headers['x-webhook-event']).toBe('trade.closed');
+    expect(request.headers['x-webhook-delivery']).toBe(deliveryId);
+    const [, t, v1] = /^t=(\d+),v1=([0-9a-f]{64})$/.exec(String(request.headers['x-webhook-signature']))!;
+    expect(v1).toBe(await signWebhookPayload('whsec_test_secret_value', Number(t), request.body));
+  });
+
+  it('marks the delivery failed once attempts run out', async () => {
+    const env = { DB: {}, KEY_ENCRYPTION_SECRET, WEBHOOK_QUEUE: { send: vi.fn() } } as any;
+    const [deliveryId] = await emitWebhookEvent(env, { type: 'trade.closed', agentId: 'agent_1', data: {} });
+    state.deliveries[0].attempts = MAX_WEBHOOK_ATTEMPTS - 1;
+
+    responseStatuses.push(502);
+    const message = makeMessage(deliveryId, MAX_WEBHOOK_ATTEMPTS);
+    await handleWebhookQueueBatch({ queue: 'webhook-deliveries', messages: [message] } as any, env);
+    expect(message.ack).toHaveBeenCalled();
+    expect(message.retry).not.toHaveBeenCalled();
+    expect(state.deliveries[0]).toMatchObject({ status: 'failed', attempts: MAX_WEBHOOK_ATTEMPTS });
+  });
+
+  it('fails the attempt without sending when the secret cannot be decrypted', async () => {
+    const env = { DB: {}, KEY_ENCRYPTION_SECRET: 'b'.repeat(64), WEBHOOK_QUEUE: { send: vi.fn() } } as any;
+    const [deliveryId] = await emitWebhookEvent(env, { type: 'trade.closed', agentId: 'agent_1', data: {} });
+
+    const message = makeMessage(deliveryId, 1);
+    await handleWebhookQueueBatch({ queue: 'webhook-deliveries', messages: [message] } as any, env);
+    expect(received).toHaveLength(0);
+    expect(state.deliveries[0]).toMatchObject({ status: 'pending', attempts: 1, responseStatus: null });
+  });
+});
+
+describe('webhookRetryDelaySeconds', () => {
+  it('backs off exponentially up to the queue maximum', () => {
+    expect([1, 2, 3].map(webhookRetryDelaySeconds)).toEqual([30, 90, 270]);
+    expect(webhookRetryDelaySeconds(20)).toBe(12 * 60 * 60);
+  });
+});
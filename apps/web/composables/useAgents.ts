@@ -18,12 +18,26 @@ export interface Agent {
     pairs: string[];
     paperBalance: number;
     strategies: string[];
+    indicatorPeriods?: Record<string, number>;
+    customRules?: Array<{ name: string; side: 'buy' | 'sell'; when: string; confidence: number }>;
     analysisInterval: string;
     maxPositionSizePct: number;
     stopLossPct: number;
     takeProfitPct: number;
     maxOpenPositions: number;
     slippageSimulation: number;
+    fillModel?: 'flat' | 'liquidity';
+    maxLeverage?: number;
+    fundingRatePct?: number;
+    sizingMode?: 'fixed' | 'volatility' | 'kelly' | 'fixed_risk';
+    targetVolatilityPct?: number;
+    kellyFraction?: number;
+    riskPerTradePct?: number;
+    maxAssetGrossExposurePct?: number;
+    maxAssetNetExposurePct?: number;
+    maxPairCorrelation?: number;
+    maxPortfolioVarPct?: number;
+    regimeGate?: boolean;
     temperature: number;
     allowFallback?: boolean;
     behavior?: Record<string, unknown>;
@@ -51,6 +65,8 @@ export interface CreateAgentPayload {
   llmModel?: string;
   allowFallback?: boolean;
   temperature?: number;
+  ensemble?: { models: string[]; policy: 'majority' | 'confidence_weighted' | 'unanimous' } | null;
+  team?: Record<'analyst' | 'riskOfficer' | 'executor', { model?: string; roleMd?: string }> | null;
   behavior?: Record<string, unknown>;
   profileId?: string;
   personaMd?: string;
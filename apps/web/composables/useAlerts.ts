@@ -0,0 +1,148 @@
+import type { AlertChannelConfig, AlertChannelType, AlertCondition, AlertRuleType } from '@something-in-loop/shared';
+
+export interface AlertChannel {
+  id: string;
+  ownerAddress: string;
+  name: string;
+  type: AlertChannelType;
+  /** Secrets are masked by the API. */
+  config: Record<string, unknown> | null;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AlertRule {
+  id: string;
+  ownerAddress: string;
+  agentId: string | null;
+  name: string;
+  type: AlertRuleType;
+  condition: AlertCondition | null;
+  channelIds: string[];
+  throttleMinutes: number;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AlertDelivery {
+  channelId: string;
+  type: AlertChannelType;
+  ok: boolean;
+  error: string | null;
+}
+
+export interface AlertNotification {
+  id: string;
+  ownerAddress: string;
+  ruleId: string;
+  agentId: string | null;
+  ruleType: AlertRuleType;
+  message: string;
+  context: Record<string, unknown>;
+  deliveries: AlertDelivery[];
+  status: 'sent' | 'partial' | 'failed';
+  createdAt: string;
+}
+
+export interface CreateAlertRulePayload {
+  name: string;
+  agentId?: string | null;
+  condition: AlertCondition;
+  channelIds: string[];
+  throttleMinutes?: number;
+}
+
+export function useAlerts() {
+  const { request } = useApi();
+
+  const channels = ref<AlertChannel[]>([]);
+  const rules = ref<AlertRule[]>([]);
+  const notifications = ref<AlertNotification[]>([]);
+  const loading = ref(false);
+
+  async function fetchChannels() {
+    const data = await request<{ channels: AlertChannel[] }>('/api/alerts/channels');
+    channels.value = data.channels;
+  }
+
+  async function createChannel(payload: { name: string; channel: AlertChannelConfig }) {
+    const created = await request<AlertChannel>('/api/alerts/channels', { method: 'POST', body: payload });
+    channels.value = [created, ...channels.value];
+    return created;
+  }
+
+  async function updateChannel(
+    id: string,
+    payload: { name?: string; channel?: AlertChannelConfig; isActive?: boolean },
+  ) {
+    const updated = await request<AlertChannel>(`/api/alerts/channels/${id}`, { method: 'PATCH', body: payload });
+    channels.value = channels.value.map((ch) => (ch.id === id ? updated : ch));
+    return updated;
+  }
+
+  async function deleteChannel(id: string) {
+    await request(`/api/alerts/channels/${id}`, { method: 'DELETE' });
+    channels.value = channels.value.filter((ch) => ch.id !== id);
+  }
+
+  async function testChannel(id: string) {
+    const data = await request<{ result: AlertDelivery }>(`/api/alerts/channels/${id}/test`, { method: 'POST' });
+    return data.result;
+  }
+
+  async function fetchRules() {
+    const data = await request<{ rules: AlertRule[] }>('/api/alerts/rules');
+    rules.value = data.rules;
+  }
+
+  async function createRule(payload: CreateAlertRulePayload) {
+    const created = await request<AlertRule>('/api/alerts/rules', { method: 'POST', body: payload });
+    rules.value = [created, ...rules.value];
+    return created;
+  }
+
+  async function updateRule(id: string, payload: Partial<CreateAlertRulePayload> & { isActive?: boolean }) {
+    const updated = await request<AlertRule>(`/api/alerts/rules/${id}`, { method: 'PATCH', body: payload });
+    rules.value = rules.value.map((r) => (r.id === id ? updated : r));
+    return updated;
+  }
+
+  async function deleteRule(id: string) {
+    await request(`/api/alerts/rules/${id}`, { method: 'DELETE' });
+    rules.value = rules.value.filter((r) => r.id !== id);
+  }
+
+  async function fetchNotifications(params: { agentId?: string; ruleId?: string; status?: AlertNotification['status']; limit?: number } = {}) {
+    loading.value = true;
+    try {
+      const query = new URLSearchParams();
+      for (const [key, value] of Object.entries(params)) {
+        if (value !== undefined && value !== '') query.set(key, String(value));
+      }
+      const qs = query.toString();
+      const data = await request<{ notifications: AlertNotification[] }>(`/api/alerts/notifications${qs ? `?${qs}` : ''}`);
+      notifications.value = data.notifications;
+    } finally {
+      loading.value = false;
+    }
+  }
+
+  return {
+    channels,
+    rules,
+    notifications,
+    loading,
+    fetchChannels,
+    createChannel,
+    updateChannel,
+    deleteChannel,
+    testChannel,
+    fetchRules,
+    createRule,
+    updateRule,
+    deleteRule,
+    fetchNotifications,
+  };
+}
@@ -0,0 +1,64 @@
+import type { Agent } from './useAgents';
+
+export interface ConfigVersion {
+  id: string;
+  agentId: string;
+  version: number;
+  config: Record<string, unknown>;
+  author: 'user' | 'manager' | 'self_mod';
+  authorRef: string | null;
+  note: string | null;
+  createdAt: string;
+}
+
+export interface ConfigChange {
+  key: string;
+  from?: unknown;
+  to?: unknown;
+}
+
+export interface ConfigVersionDiff {
+  from: Pick<ConfigVersion, 'id' | 'version' | 'author' | 'createdAt'>;
+  to: Pick<ConfigVersion, 'id' | 'version' | 'author' | 'createdAt'>;
+  changes: ConfigChange[];
+}
+
+export function useConfigVersions() {
+  const { request } = useApi();
+
+  const versions = ref<ConfigVersion[]>([]);
+  const loading = ref(false);
+
+  async function fetchVersions(agentId: string) {
+    loading.value = true;
+    try {
+      const data = await request<{ versions: ConfigVersion[] }>(`/api/agents/${agentId}/config-versions`);
+      versions.value = data.versions;
+    } finally {
+      loading.value = false;
+    }
+  }
+
+  /** Diff two versions; `to` defaults to the latest. */
+  async function diff(agentId: string, from: number, to?: number) {
+    const query = to === undefined ? `from=${from}` : `from=${from}&to=${to}`;
+    return request<ConfigVersionDiff>(`/api/agents/${agentId}/config-versions/diff?${query}`);
+  }
+
+  async function restore(agentId: string, version: number) {
+    const data = await request<{ agent: Agent; version: ConfigVersion }>(
+      `/api/agents/${agentId}/config-versions/${version}/restore`,
+      { method: 'POST' },
+    );
+    if (!versions.value.some((v) => v.id === data.version.id)) versions.value.unshift(data.version);
+    return data.agent;
+  }
+
+  return {
+    versions,
+    loading,
+    fetchVersions,
+    diff,
+    restore,
+  };
+}
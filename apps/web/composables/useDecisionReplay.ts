@@ -0,0 +1,78 @@
+export interface DecisionReplayRequest {
+  model?: string;
+  temperature?: number;
+  /** Replaces the persona section of the stored prompt; an empty string removes it. */
+  personaMd?: string;
+}
+
+export interface DecisionOutcomeTrade {
+  id: string;
+  pair: string;
+  side: string;
+  entryPrice: number;
+  exitPrice: number | null;
+  amountUsd: number;
+  pnlPct: number | null;
+  pnlUsd: number | null;
+  status: string;
+  closeReason: string | null;
+  fillType: string | null;
+  openedAt: string;
+  closedAt: string | null;
+}
+
+export interface DecisionReplay {
+  original: {
+    id: string;
+    action: string;
+    confidence: number;
+    reasoning: string;
+    targetPair: string | null;
+    model: string;
+    createdAt: string;
+  };
+  replayed: {
+    action: string;
+    confidence: number;
+    reasoning: string;
+    targetPair: string | null;
+    suggestedPositionSizePct: number | null;
+    model: string;
+    temperature: number;
+    latencyMs: number;
+    tokensUsed: number | null;
+    rawResponse: string;
+  };
+  overrides: { model: boolean; temperature: boolean; persona: boolean };
+  sameAction: boolean;
+  outcome: {
+    trades: DecisionOutcomeTrade[];
+    realizedPnlUsd: number | null;
+    openTrades: number;
+  };
+}
+
+export function useDecisionReplay() {
+  const { request } = useApi();
+
+  const replaying = ref(false);
+
+  /** Re-run a stored decision prompt; nothing is recorded on the agent. */
+  async function replayDecision(agentId: string, decisionId: string, body: DecisionReplayRequest) {
+    replaying.value = true;
+    try {
+      const data = await request<{ replay: DecisionReplay }>(
+        `/api/agents/${agentId}/decisions/${decisionId}/replay`,
+        { method: 'POST', body },
+      );
+      return data.replay;
+    } finally {
+      replaying.value = false;
+    }
+  }
+
+  return {
+    replaying,
+    replayDecision,
+  };
+}
@@ -4,6 +4,7 @@ const MANAGER_DETAIL_PREFIX = 'manager:detail:';
 const MANAGER_AGENTS_PREFIX = 'manager:agents:';
 const MANAGER_LOGS_PREFIX = 'manager:logs:';
 const MANAGER_TOKEN_USAGE_PREFIX = 'manager:token-usage:';
+const MANAGER_MEMORY_PREFIX = 'manager:memory:';
 
 export interface ManagerSummary {
   id: string;
@@ -21,8 +22,13 @@ export interface ManagerSummary {
       maxTotalDrawdown?: number;
       maxAgents?: number;
       maxCorrelatedPositions?: number;
+      maxAgentAllocation?: number;
+      maxRebalanceShare?: number;
+      minAgentBalanceUsd?: number;
     };
   } | null;
+  /** Unallocated paper cash the manager can move to its agents. */
+  capitalPoolUsd?: number;
 }
 
 export interface ManagerDetail extends ManagerSummary {
@@ -59,6 +65,45 @@ export interface ManagerLogEntry {
   llmCompletionTokens?: number | null;
 }
 
+export interface ManagerHypothesis {
+  id: string;
+  description: string;
+  outcome: string | null;
+  stillValid: boolean;
+  testedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ManagerParameterChange {
+  id: string;
+  agentId: string;
+  change: string;
+  changes: Record<string, unknown>;
+  previousValues: Record<string, unknown>;
+  configVersionId: string | null;
+  evaluationCycles: number;
+  evaluateAfter: string;
+  /** Measured after `evaluationCycles` agent cycles; null until then. */
+  outcomeAfterNCycles: string | null;
+  evaluatedAt: string | null;
+  changeAt: string;
+}
+
+export interface ManagerMemory {
+  hypotheses: ManagerHypothesis[];
+  parameterHistory: ManagerParameterChange[];
+  marketRegime: { detected_at: string; regime: string; reasoning: string } | null;
+  lastEvaluationAt: string | null;
+}
+
+export interface ManagerHypothesisPayload {
+  description?: string;
+  outcome?: string | null;
+  stillValid?: boolean;
+  testedAt?: string | null;
+}
+
 export function useManagers() {
   const { request } = useApi();
   const cache = useClientCache();
@@ -166,6 +211,7 @@ export function useManagers() {
     cache.invalidate(`${MANAGER_AGENTS_PREFIX}${id}`);
     cache.invalidatePrefix(`${MANAGER_LOGS_PREFIX}${id}`);
     cache.invalidate(`${MANAGER_TOKEN_USAGE_PREFIX}${id}`);
+    cache.invalidate(`${MANAGER_MEMORY_PREFIX}${id}`);
     managers.value = managers.value.filter((m) => m.id !== id);
   }
 
@@ -193,6 +239,45 @@ export function useManagers() {
     cache.invalidatePrefix(`${MANAGER_LOGS_PREFIX}${id}`);
   }
 
+  async function getManagerMemory(id: string, opts?: { force?: boolean }): Promise<ManagerMemory> {
+    const key = `${MANAGER_MEMORY_PREFIX}${id}`;
+    const cached = opts?.force ? null : cache.get<ManagerMemory>(key);
+    if (cached && !opts?.force) return cached;
+
+    const res = await request<ManagerMemory>(`/api/managers/${id}/memory`, {
+      ...(opts?.force ? { fresh: true } : {}),
+    });
+    cache.set(key, res, 30_000);
+    return res;
+  }
+
+  async function createManagerHypothesis(id: string, payload: ManagerHypothesisPayload): Promise<ManagerHypothesis> {
+    const hypothesis = await request<ManagerHypothesis>(`/api/managers/${id}/memory/hypotheses`, {
+      method: 'POST',
+      body: payload,
+    });
+    cache.invalidate(`${MANAGER_MEMORY_PREFIX}${id}`);
+    return hypothesis;
+  }
+
+  async function updateManagerHypothesis(
+    id: string,
+    hypothesisId: string,
+    payload: ManagerHypothesisPayload,
+  ): Promise<ManagerHypothesis> {
+    const hypothesis = await request<ManagerHypothesis>(`/api/managers/${id}/memory/hypotheses/${hypothesisId}`, {
+      method: 'PATCH',
+      body: payload,
+    });
+    cache.invalidate(`${MANAGER_MEMORY_PREFIX}${id}`);
+    return hypothesis;
+  }
+
+  async function deleteManagerHypothesis(id: string, hypothesisId: string): Promise<void> {
+    await request(`/api/managers/${id}/memory/hypotheses/${hypothesisId}`, { method: 'DELETE' });
+    cache.invalidate(`${MANAGER_MEMORY_PREFIX}${id}`);
+  }
+
   return {
     managers,
     loading,
@@ -209,5 +294,9 @@ export function useManagers() {
     stopManager,
     pauseManager,
     triggerManager,
+    getManagerMemory,
+    createManagerHypothesis,
+    updateManagerHypothesis,
+    deleteManagerHypothesis,
   };
 }
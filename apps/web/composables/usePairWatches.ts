@@ -0,0 +1,99 @@
+import type { PairWatchCondition } from '@something-in-loop/shared';
+
+export interface PairWatch {
+  id: string;
+  ownerAddress: string;
+  pair: string;
+  condition: PairWatchCondition | null;
+  /** e.g. "AERO/USDC RSI (4h) below 25" */
+  description: string | null;
+  repeat: boolean;
+  note: string | null;
+  status: 'active' | 'paused' | 'triggered';
+  lastValue: number | null;
+  lastCheckedAt: string | null;
+  lastTriggeredAt: string | null;
+  triggerCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PairWatchEvent {
+  id: string;
+  watchId: string;
+  pair: string;
+  message: string;
+  value: number;
+  seenAt: string | null;
+  createdAt: string;
+}
+
+export interface CreatePairWatchPayload {
+  pair: string;
+  condition: Omit<PairWatchCondition, 'timeframe'> & Partial<Pick<PairWatchCondition, 'timeframe'>>;
+  repeat?: boolean;
+  note?: string;
+}
+
+export function usePairWatches() {
+  const { request } = useApi();
+
+  const watches = ref<PairWatch[]>([]);
+  /** Unseen events, shared so NotificationsPanel and pages see the same feed. */
+  const unseenEvents = useState<PairWatchEvent[]>('pair-watch-events', () => []);
+  const loading = ref(false);
+
+  async function fetchWatches() {
+    loading.value = true;
+    try {
+      const data = await request<{ watches: PairWatch[] }>('/api/pairs/watches');
+      watches.value = data.watches;
+    } finally {
+      loading.value = false;
+    }
+  }
+
+  async function createWatch(payload: CreatePairWatchPayload) {
+    const created = await request<PairWatch>('/api/pairs/watches', { method: 'POST', body: payload });
+    watches.value = [created, ...watches.value];
+    return created;
+  }
+
+  async function updateWatch(
+    id: string,
+    payload: { condition?: PairWatchCondition; repeat?: boolean; note?: string | null; status?: 'active' | 'paused' },
+  ) {
+    const updated = await request<PairWatch>(`/api/pairs/watches/${id}`, { method: 'PATCH', body: payload });
+    watches.value = watches.value.map((w) => (w.id === id ? updated : w));
+    return updated;
+  }
+
+  async function deleteWatch(id: string) {
+    await request(`/api/pairs/watches/${id}`, { method: 'DELETE' });
+    watches.value = watches.value.filter((w) => w.id !== id);
+    unseenEvents.value = unseenEvents.value.filter((e) => e.watchId !== id);
+  }
+
+  async function fetchUnseenEvents() {
+    const data = await request<{ events: PairWatchEvent[] }>('/api/pairs/watches/events?unseen=true&limit=20');
+    unseenEvents.value = data.events;
+  }
+
+  /** Dismiss events; omit ids to dismiss all. Dismissed events stay in the history. */
+  async function markEventsSeen(ids?: string[]) {
+    await request('/api/pairs/watches/events/seen', { method: 'POST', body: ids ? { ids } : {} });
+    unseenEvents.value = ids ? unseenEvents.value.filter((e) => !ids.includes(e.id)) : [];
+  }
+
+  return {
+    watches,
+    unseenEvents,
+    loading,
+    fetchWatches,
+    createWatch,
+    updateWatch,
+    deleteWatch,
+    fetchUnseenEvents,
+    markEventsSeen,
+  };
+}
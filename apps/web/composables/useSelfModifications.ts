@@ -1,3 +1,13 @@
+export interface SelfModWindowMetrics {
+  from: string;
+  to: string;
+  totalTrades: number;
+  winRate: number;
+  pnlUsd: number;
+  totalPnlPct: number;
+  maxDrawdown: number | null;
+}
+
 export interface SelfModification {
   id: string;
   agentId: string;
@@ -5,9 +15,17 @@ export interface SelfModification {
   reason: string;
   changes: Record<string, unknown>;
   changesApplied: Record<string, unknown> | null;
-  status: 'pending' | 'applied' | 'rejected';
+  status: 'pending' | 'applied' | 'kept' | 'reverted' | 'rejected';
   appliedAt: string | null;
   createdAt: string;
+  previousValues: Record<string, unknown> | null;
+  baselineMetrics: SelfModWindowMetrics | null;
+  evaluationMetrics: SelfModWindowMetrics | null;
+  evaluateAfter: string | null;
+  evaluatedAt: string | null;
+  revertedAt: string | null;
+  revertReason: string | null;
+  comparison: { winRateDelta: number; pnlPctDelta: number; maxDrawdownDelta: number } | null;
 }
 
 export function useSelfModifications() {
@@ -44,6 +62,15 @@ export function useSelfModifications() {
     if (mod) mod.status = 'rejected';
   }
 
+  async function revert(agentId: string, modId: string) {
+    const data = await request<{ modification: SelfModification | null }>(
+      `/api/agents/${agentId}/self-modifications/${modId}/revert`,
+      { method: 'POST' },
+    );
+    const index = modifications.value.findIndex((m) => m.id === modId);
+    if (index >= 0 && data.modification) modifications.value[index] = data.modification;
+  }
+
   const pendingModifications = computed(() =>
     modifications.value.filter((m) => m.status === 'pending'),
   );
@@ -60,5 +87,6 @@ export function useSelfModifications() {
     fetchModifications,
     approve,
     reject,
+    revert,
   };
 }
@@ -27,8 +27,17 @@ export interface Trade {
   confidenceBefore: number;
   reasoning: string;
   strategyUsed: string;
-  status: 'open' | 'closed';
-  closeReason?: 'stop_loss' | 'take_profit' | 'manual' | 'llm_decision';
+  status: 'open' | 'closed' | 'merged';
+  closeReason?: 'stop_loss' | 'take_profit' | 'trailing_stop' | 'liquidation' | 'manual' | 'llm_decision';
+  /** add/reduce rows: the position they scaled into or out of */
+  parentTradeId?: string | null;
+  fillType?: 'add' | 'reduce' | null;
+  /** Swap fees paid (liquidity fill model only) */
+  feeUsd?: number | null;
+  /** Margin positions only (shorts and leveraged longs) */
+  leverage?: number | null;
+  liquidationPrice?: number | null;
+  fundingUsd?: number | null;
   openedAt: string;
   closedAt?: string;
 }
@@ -0,0 +1,92 @@
+import type { WebhookEventType } from '@something-in-loop/shared';
+
+export interface Webhook {
+  id: string;
+  ownerAddress: string;
+  url: string;
+  events: WebhookEventType[];
+  description: string | null;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  eventId: string;
+  eventType: WebhookEventType | 'ping';
+  payload: Record<string, unknown>;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  createdAt: string;
+  lastAttemptAt: string | null;
+  deliveredAt: string | null;
+}
+
+export interface CreateWebhookPayload {
+  url: string;
+  events: WebhookEventType[];
+  secret?: string;
+  description?: string;
+}
+
+export function useWebhooks() {
+  const { request } = useApi();
+
+  const webhooks = ref<Webhook[]>([]);
+  const loading = ref(false);
+
+  async function fetchWebhooks() {
+    loading.value = true;
+    try {
+      const data = await request<{ webhooks: Webhook[] }>('/api/webhooks');
+      webhooks.value = data.webhooks;
+    } finally {
+      loading.value = false;
+    }
+  }
+
+  /** The returned secret is only available from this call. */
+  async function createWebhook(payload: CreateWebhookPayload) {
+    const created = await request<Webhook & { secret: string }>('/api/webhooks', { method: 'POST', body: payload });
+    const { secret: _secret, ...webhook } = created;
+    webhooks.value = [webhook, ...webhooks.value];
+    return created;
+  }
+
+  async function updateWebhook(id: string, payload: Partial<Pick<Webhook, 'url' | 'events' | 'description' | 'isActive'>>) {
+    const updated = await request<Webhook>(`/api/webhooks/${id}`, { method: 'PATCH', body: payload });
+    webhooks.value = webhooks.value.map((w) => (w.id === id ? updated : w));
+    return updated;
+  }
+
+  async function deleteWebhook(id: string) {
+    await request(`/api/webhooks/${id}`, { method: 'DELETE' });
+    webhooks.value = webhooks.value.filter((w) => w.id !== id);
+  }
+
+  async function ping(id: string) {
+    const data = await request<{ delivery: WebhookDelivery }>(`/api/webhooks/${id}/ping`, { method: 'POST' });
+    return data.delivery;
+  }
+
+  async function fetchDeliveries(id: string, status?: WebhookDelivery['status']) {
+    const query = status ? `?status=${status}` : '';
+    const data = await request<{ deliveries: WebhookDelivery[] }>(`/api/webhooks/${id}/deliveries${query}`);
+    return data.deliveries;
+  }
+
+  return {
+    webhooks,
+    loading,
+    fetchWebhooks,
+    createWebhook,
+    updateWebhook,
+    deleteWebhook,
+    ping,
+    fetchDeliveries,
+  };
+}
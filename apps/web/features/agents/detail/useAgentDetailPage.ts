@@ -18,12 +18,19 @@ export interface AgentDecision {
   marketDataSnapshot?: string;
   llmPromptText?: string;
   llmRawResponse?: string;
+  /** Config version the decision was made under (see useConfigVersions). */
+  configVersionId?: string | null;
   createdAt: string;
 }
 
 export interface PerformanceSnapshot {
   id: string;
+  /** Cash balance. */
   balance: number;
+  /** Cash plus open positions at current prices. */
+  equity: number;
+  unrealizedPnlUsd?: number | null;
+  exposureUsd?: number | null;
   totalPnlPct: number;
   winRate: number;
   totalTrades: number;
@@ -702,7 +709,7 @@ export function useAgentDetailPage(id: string) {
 
   // Display Computeds
   const openTrades = computed(() => trades.value.filter((t) => t.status === 'open'));
-  const closedTrades = computed(() => trades.value.filter((t) => t.status !== 'open'));
+  const closedTrades = computed(() => trades.value.filter((t) => t.status === 'closed'));
 
   const winRate = computed(() => {
     if (closedTrades.value.length === 0) return 0;
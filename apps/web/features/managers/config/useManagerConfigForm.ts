@@ -43,7 +43,11 @@ export function useManagerConfigForm(props: {
       maxTotalDrawdown: props.initial?.riskParams?.maxTotalDrawdown ?? 0.2,
       maxAgents: props.initial?.riskParams?.maxAgents ?? defaultManagerMaxAgents,
       maxCorrelatedPositions: props.initial?.riskParams?.maxCorrelatedPositions ?? 3,
+      maxAgentAllocation: props.initial?.riskParams?.maxAgentAllocation ?? 0.5,
+      maxRebalanceShare: props.initial?.riskParams?.maxRebalanceShare ?? 0.25,
+      minAgentBalanceUsd: props.initial?.riskParams?.minAgentBalanceUsd ?? 100,
     },
+    capitalPoolUsd: 0,
   });
 
   const submitting = ref(false);
@@ -285,6 +289,8 @@ Valid actions:
 - "pause_agent": pause an underperforming paper agent (provide agentId)
 - "modify_agent": change paper-agent parameters (provide agentId + params). Params can include: name, pairs, llmModel, temperature, analysisInterval (1h|4h|1d), strategies, paperBalance, stopLossPct, takeProfitPct, maxPositionSizePct, maxOpenPositions, personaMd (markdown), profileId, etc. Never include live/onchain fields or any non-paper transition.
 - "terminate_agent": permanently stop a paper agent (provide agentId)
+- "allocate_capital": move paper cash between the capital pool and a running or paused agent (provide agentId + params.amountUsd; positive funds the agent from the pool, negative returns its cash to the pool)
+- "rebalance": shift cash from weaker to stronger managed agents by performance (no params)
 - "hold": no action needed (provide agentId, or omit for portfolio-level hold)
 
 IMPORTANT: Respond with ONLY a valid JSON array — no markdown, no explanation.
@@ -16,6 +16,8 @@ export type ManagerLog = import('~/composables/useManagers').ManagerLogEntry & {
 };
 export type ManagerDetail = import('~/composables/useManagers').ManagerDetail;
 export type ManagedAgent = import('~/composables/useManagers').ManagedAgentSummary;
+export type ManagerMemory = import('~/composables/useManagers').ManagerMemory;
+export type ManagerHypothesisPayload = import('~/composables/useManagers').ManagerHypothesisPayload;
 
 export function useManagerDetailPage(id: string) {
   const router = useRouter();
@@ -25,6 +27,10 @@ export function useManagerDetailPage(id: string) {
     getManagerAgents,
     getManagerLogs,
     getManagerTokenUsage,
+    getManagerMemory,
+    createManagerHypothesis,
+    updateManagerHypothesis,
+    deleteManagerHypothesis,
     startManager,
     stopManager,
     triggerManager,
@@ -65,6 +71,33 @@ export function useManagerDetailPage(id: string) {
     totalTokensUsed.value = await getManagerTokenUsage(id, { force: true });
   }
 
+  const memory = ref<ManagerMemory | null>(null);
+  const memoryError = ref<string | null>(null);
+  async function refreshMemory() {
+    memory.value = await getManagerMemory(id, { force: true });
+  }
+
+  async function saveHypothesis(hypothesisId: string | null, payload: ManagerHypothesisPayload) {
+    memoryError.value = null;
+    try {
+      if (hypothesisId) await updateManagerHypothesis(id, hypothesisId, payload);
+      else await createManagerHypothesis(id, payload);
+      await refreshMemory();
+    } catch (err) {
+      memoryError.value = extractApiError(err);
+    }
+  }
+
+  async function removeHypothesis(hypothesisId: string) {
+    memoryError.value = null;
+    try {
+      await deleteManagerHypothesis(id, hypothesisId);
+      await refreshMemory();
+    } catch (err) {
+      memoryError.value = extractApiError(err);
+    }
+  }
+
   const showMdPreview = ref(false);
   const expandedSections = ref<Record<string, Set<string>>>({});
 
@@ -113,7 +146,7 @@ export function useManagerDetailPage(id: string) {
       && nowLastDecisionAt !== prevLastDecisionAt
     );
     if (cycleCompleted) {
-      await Promise.all([refreshLogsPage(1, 20), refreshAgents(), refreshTokenUsage()]);
+      await Promise.all([refreshLogsPage(1, 20), refreshAgents(), refreshTokenUsage(), refreshMemory()]);
     }
     prevDeciding = nowDeciding;
     prevLastDecisionAt = nowLastDecisionAt;
@@ -212,6 +245,7 @@ export function useManagerDetailPage(id: string) {
       refreshAgents(),
       refreshLogsPage(1, 20),
       refreshTokenUsage(),
+      refreshMemory(),
     ]);
     pending.value = false;
   };
@@ -241,6 +275,8 @@ export function useManagerDetailPage(id: string) {
     if (action === 'create_agent') return 'badge-running';
     if (action === 'pause_agent' || action === 'terminate_agent') return 'badge-stopped';
     if (action === 'modify_agent') return 'badge-paused';
+    if (action === 'allocate_capital' || action === 'rebalance') return 'badge-running';
+    if (action === 'risk_guard') return 'badge-paused';
     return 'badge-stopped';
   }
 
@@ -251,6 +287,8 @@ export function useManagerDetailPage(id: string) {
     managedAgents,
     logs,
     totalTokensUsed,
+    memory,
+    memoryError,
     actionLoading,
     showDeleteModal,
     deleteAgentsChoice,
@@ -269,6 +307,9 @@ export function useManagerDetailPage(id: string) {
     refreshAgents,
     refreshLogsPage,
     refreshTokenUsage,
+    refreshMemory,
+    saveHypothesis,
+    removeHypothesis,
     triggerDecision,
     doDelete,
     doAction,
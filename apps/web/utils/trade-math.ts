@@ -36,8 +36,9 @@ export function computeTradeExitBounds(
   };
 }
 
+/** Unrealized return on the position's margin — the price move times leverage. */
 export function computeTradeUnrealizedPnl(
-  trade: Pick<Trade, 'entryPrice' | 'side'>,
+  trade: Pick<Trade, 'entryPrice' | 'side'> & Partial<Pick<Trade, 'leverage'>>,
   livePrice: number | null | undefined,
   slippageSimulation = 0.3,
 ): { pnlPct: number; currentPrice: number } | null {
@@ -46,15 +47,15 @@ export function computeTradeUnrealizedPnl(
     ? trade.entryPrice * (1 + slippageSimulation / 100)
     : trade.entryPrice * (1 - slippageSimulation / 100);
   if (!isPositiveFiniteNumber(effectiveEntry)) return null;
-  const pnlPct = trade.side === 'buy'
+  const pnlPct = (trade.side === 'buy'
     ? ((livePrice - effectiveEntry) / effectiveEntry) * 100
-    : ((effectiveEntry - livePrice) / effectiveEntry) * 100;
+    : ((effectiveEntry - livePrice) / effectiveEntry) * 100) * (trade.leverage ?? 1);
   if (!Number.isFinite(pnlPct)) return null;
   return { pnlPct, currentPrice: livePrice };
 }
 
 export function computeTradeUnrealizedPnlUsd(
-  trade: Pick<Trade, 'entryPrice' | 'side' | 'amountUsd'>,
+  trade: Pick<Trade, 'entryPrice' | 'side' | 'amountUsd'> & Partial<Pick<Trade, 'leverage'>>,
   livePrice: number | null | undefined,
   slippageSimulation = 0.3,
 ): number | null {
@@ -7,3 +7,4 @@ export * from './profiles/templates.js';
 export * from './prompts.js';
 export * from './model-catalog.js';
 export * from './intervals.js';
+export * from './rule-dsl.js';
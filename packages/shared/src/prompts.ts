@@ -1,5 +1,6 @@
 import { AgentBehaviorConfigSchema } from './validation.js';
 import type { AgentBehaviorConfig } from './validation.js';
+import type { TeamRole } from './types.js';
 
 /**
  * Base system prompt shared by all agents.
@@ -17,11 +18,24 @@ export const AGENT_ROLE_SECTION = `## Your Role
 You are a crypto trading agent operating on Base chain DEXes.
 Analyze the provided market data, portfolio state, and recent decision history, then make a trading decision.`;
 
+/** Default role text per team member, used when the role has no roleMd. */
+export const TEAM_ROLE_SECTIONS: Record<TeamRole, string> = {
+  analyst: `## Your Role
+You are the technical analyst of a crypto trading team on Base chain DEXes.
+Read the indicators and write a thesis for the team: market bias, the pair with the clearest setup, and what would invalidate it. You do not size or place trades.`,
+  riskOfficer: `## Your Role
+You are the risk officer of a crypto trading team on Base chain DEXes.
+Review the analyst's thesis against the portfolio and the risk limits. Approve it, cap the position size, or veto new entries. Protect capital first.`,
+  executor: `## Your Role
+You are the executor of a crypto trading team on Base chain DEXes.
+Turn the analyst's thesis and the risk officer's verdict into one trading decision. Do not open a position the risk officer vetoed or exceed the size it allowed.`,
+};
+
 /**
  * Builds the JSON schema instruction appended to the system prompt.
  */
 export function buildJsonSchemaInstruction(): string {
-  return `\nIMPORTANT: Respond with ONLY a valid JSON object — no markdown, no code blocks, no explanation.\nThe JSON must match this schema exactly:\n{\n  "action": "buy" | "sell" | "hold" | "close",\n  "confidence": <number 0.0–1.0>,\n  "reasoning": "<string>",\n  "targetPair": "<string, optional>",\n  "suggestedPositionSizePct": <number 0–100, optional>\n}`;
+  return `\nIMPORTANT: Respond with ONLY a valid JSON object — no markdown, no code blocks, no explanation.\nThe JSON must match this schema exactly:\n{\n  "action": "buy" | "sell" | "hold" | "close" | "reduce" | "add",\n  "confidence": <number 0.0–1.0>,\n  "reasoning": "<string>",\n  "targetPair": "<string, optional — for reduce/add, the pair of the open position>",\n  "suggestedPositionSizePct": <number 0–100, optional — % of balance for buy/sell/add>,\n  "reducePct": <number 1–100, for reduce — % of the open position to close, default 50>,\n  "leverage": <number 1–10, optional — for buy/sell, capped at the agent's max leverage, default 1>,\n  "order": {\n    "type": "market" | "limit" | "stop",\n    "triggerPrice": <number, required for limit/stop — limit buys below / stop buys above the current price>,\n    "trailingStopPct": <number, optional — trail the stop this % behind the best price>,\n    "trailingStopAtr": <number, optional — trail the stop this many ATRs behind the best price>,\n    "expiresInHours": <number, optional — cancel an unfilled limit/stop after this long>\n  } (optional, omit for a plain market order)\n}`;
 }
 
 /** Build a human-readable behavior section to inject into prompts */
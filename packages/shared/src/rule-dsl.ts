@@ -0,0 +1,336 @@
+/**
+ * Custom rule expression language.
+ *
+ * A rule is a boolean expression over indicator functions and bar fields,
+ * e.g. `rsi(14) < 28 and close > ema(21)`. This module only parses and
+ * type-checks (so bad rules are rejected when the config is saved); the API
+ * evaluates the resulting AST against computed indicators. Nothing is ever
+ * passed to `eval`/`Function`.
+ *
+ * Grammar (lowest to highest precedence):
+ *   or      := and ('or' and)*
+ *   and     := not ('and' not)*
+ *   not     := 'not' not | compare
+ *   compare := sum (('<' | '<=' | '>' | '>=' | '==' | '!=') sum)?
+ *   sum     := product (('+' | '-') product)*
+ *   product := unary (('*' | '/') unary)*
+ *   unary   := '-' unary | primary
+ *   primary := number | name | name '(' (sum (',' sum)*)? ')' | '(' or ')'
+ */
+
+export const RULE_MAX_LENGTH = 500;
+
+/** Bar fields usable as bare names; `price` is the current spot price. */
+export const RULE_VARIABLES = ['price', 'close', 'high', 'low', 'volume'] as const;
+
+/** Functions with their allowed argument counts. Period arguments must be numeric literals. */
+export const RULE_FUNCTIONS: Record<string, { minArgs: number; maxArgs: number; periodArgs: number }> = {
+  rsi: { minArgs: 0, maxArgs: 1, periodArgs: 1 },
+  ema: { minArgs: 1, maxArgs: 1, periodArgs: 1 },
+  sma: { minArgs: 1, maxArgs: 1, periodArgs: 1 },
+  atr: { minArgs: 0, maxArgs: 1, periodArgs: 1 },
+  adx: { minArgs: 0, maxArgs: 1, periodArgs: 1 },
+  pdi: { minArgs: 0, maxArgs: 1, periodArgs: 1 },
+  mdi: { minArgs: 0, maxArgs: 1, periodArgs: 1 },
+  stoch_k: { minArgs: 0, maxArgs: 1, periodArgs: 1 },
+  stoch_d: { minArgs: 0, maxArgs: 1, periodArgs: 1 },
+  macd: { minArgs: 0, maxArgs: 0, periodArgs: 0 },
+  macd_signal: { minArgs: 0, maxArgs: 0, periodArgs: 0 },
+  macd_hist: { minArgs: 0, maxArgs: 0, periodArgs: 0 },
+  bb_upper: { minArgs: 0, maxArgs: 2, periodArgs: 2 },
+  bb_middle: { minArgs: 0, maxArgs: 2, periodArgs: 2 },
+  bb_lower: { minArgs: 0, maxArgs: 2, periodArgs: 2 },
+  keltner_upper: { minArgs: 0, maxArgs: 0, periodArgs: 0 },
+  keltner_lower: { minArgs: 0, maxArgs: 0, periodArgs: 0 },
+  vwap: { minArgs: 0, maxArgs: 0, periodArgs: 0 },
+  obv: { minArgs: 0, maxArgs: 0, periodArgs: 0 },
+  /** % change of the close over n bars. */
+  change: { minArgs: 1, maxArgs: 1, periodArgs: 1 },
+  /** Highest high / lowest low over the last n bars. */
+  highest: { minArgs: 1, maxArgs: 1, periodArgs: 1 },
+  lowest: { minArgs: 1, maxArgs: 1, periodArgs: 1 },
+  abs: { minArgs: 1, maxArgs: 1, periodArgs: 0 },
+  min: { minArgs: 2, maxArgs: 2, periodArgs: 0 },
+  max: { minArgs: 2, maxArgs: 2, periodArgs: 0 },
+};
+
+export type RuleCompareOp = '<' | '<=' | '>' | '>=' | '==' | '!=';
+export type RuleArithmeticOp = '+' | '-' | '*' | '/';
+
+export type RuleExpr =
+  | { kind: 'number'; value: number }
+  | { kind: 'variable'; name: (typeof RULE_VARIABLES)[number] }
+  | { kind: 'call'; name: string; args: RuleExpr[] }
+  | { kind: 'negate'; operand: RuleExpr }
+  | { kind: 'arithmetic'; op: RuleArithmeticOp; left: RuleExpr; right: RuleExpr }
+  | { kind: 'compare'; op: RuleCompareOp; left: RuleExpr; right: RuleExpr }
+  | { kind: 'not'; operand: RuleExpr }
+  | { kind: 'logical'; op: 'and' | 'or'; left: RuleExpr; right: RuleExpr };
+
+export class RuleSyntaxError extends Error {
+  constructor(
+    message: string,
+    /** 0-based character offset into the source. */
+    public readonly position: number,
+  ) {
+    super(`${message} at position ${position + 1}`);
+    this.name = 'RuleSyntaxError';
+  }
+}
+
+type Token =
+  | { type: 'number'; value: number; pos: number }
+  | { type: 'name'; value: string; pos: number }
+  | { type: 'op'; value: string; pos: number }
+  | { type: 'end'; pos: number };
+
+const OPERATORS = ['<=', '>=', '==', '!=', '<', '>', '+', '-', '*', '/', '(', ')', ','];
+const VARIABLE_SET = new Set<string>(RULE_VARIABLES);
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    const numberMatch = /^(\d+(\.\d+)?|\.\d+)/.exec(source.slice(i));
+    if (numberMatch) {
+      tokens.push({ type: 'number', value: Number(numberMatch[0]), pos: i });
+      i += numberMatch[0].length;
+      continue;
+    }
+    const nameMatch = /^[a-zA-Z_][a-zA-Z0-9_]*/.exec(source.slice(i));
+    if (nameMatch) {
+      tokens.push({ type: 'name', value: nameMatch[0].toLowerCase(), pos: i });
+      i += nameMatch[0].length;
+      continue;
+    }
+    const op = OPERATORS.find((candidate) => source.startsWith(candidate, i));
+    if (!op) throw new RuleSyntaxError(`Unexpected character "${ch}"`, i);
+    tokens.push({ type: 'op', value: op, pos: i });
+    i += op.length;
+  }
+  tokens.push({ type: 'end', pos: source.length });
+  return tokens;
+}
+
+function isBoolean(expr: RuleExpr): boolean {
+  return expr.kind === 'compare' || expr.kind === 'not' || expr.kind === 'logical';
+}
+
+/**
+ * Parse and type-check a rule. Throws RuleSyntaxError with the offending
+ * position; the result is always a boolean expression.
+ */
+export function parseRuleExpression(source: string): RuleExpr {
+  if (source.length > RULE_MAX_LENGTH) {
+    throw new RuleSyntaxError(`Rule is longer than ${RULE_MAX_LENGTH} characters`, RULE_MAX_LENGTH);
+  }
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const isOp = (value: string) => {
+    const token = peek();
+    return token.type === 'op' && token.value === value;
+  };
+  const isKeyword = (value: string) => {
+    const token = peek();
+    return token.type === 'name' && token.value === value;
+  };
+  const expectOp = (value: string) => {
+    if (!isOp(value)) throw new RuleSyntaxError(`Expected "${value}"`, peek().pos);
+    index++;
+  };
+  const requireNumeric = (expr: RuleExpr, pos: number) => {
+    if (isBoolean(expr)) throw new RuleSyntaxError('Expected a number, got a condition', pos);
+    return expr;
+  };
+  const requireBoolean = (expr: RuleExpr, pos: number) => {
+    if (!isBoolean(expr)) throw new RuleSyntaxError('Expected a condition (comparison), got a number', pos);
+    return expr;
+  };
+
+  function parseOr(): RuleExpr {
+    const pos = peek().pos;
+    let left = parseAnd();
+    while (isKeyword('or')) {
+      const opPos = peek().pos;
+      index++;
+      left = { kind: 'logical', op: 'or', left: requireBoolean(left, pos), right: requireBoolean(parseAnd(), opPos) };
+    }
+    return left;
+  }
+
+  function parseAnd(): RuleExpr {
+    const pos = peek().pos;
+    let left = parseNot();
+    while (isKeyword('and')) {
+      const opPos = peek().pos;
+      index++;
+      left = { kind: 'logical', op: 'and', left: requireBoolean(left, pos), right: requireBoolean(parseNot(), opPos) };
+    }
+    return left;
+  }
+
+  function parseNot(): RuleExpr {
+    if (isKeyword('not')) {
+      const pos = peek().pos;
+      index++;
+      return { kind: 'not', operand: requireBoolean(parseNot(), pos) };
+    }
+    return parseCompare();
+  }
+
+  function parseCompare(): RuleExpr {
+    const pos = peek().pos;
+    const left = parseSum();
+    const token = peek();
+    if (token.type === 'op' && ['<', '<=', '>', '>=', '==', '!='].includes(token.value)) {
+      index++;
+      const right = parseSum();
+      return {
+        kind: 'compare',
+        op: token.value as RuleCompareOp,
+        left: requireNumeric(left, pos),
+        right: requireNumeric(right, token.pos),
+      };
+    }
+    return left;
+  }
+
+  function parseSum(): RuleExpr {
+    const pos = peek().pos;
+    let left = parseProduct();
+    while (isOp('+') || isOp('-')) {
+      const token = peek() as { value: RuleArithmeticOp; pos: number };
+      index++;
+      left = { kind: 'arithmetic', op: token.value, left: requireNumeric(left, pos), right: requireNumeric(parseProduct(), token.pos) };
+    }
+    return left;
+  }
+
+  function parseProduct(): RuleExpr {
+    const pos = peek().pos;
+    let left = parseUnary();
+    while (isOp('*') || isOp('/')) {
+      const token = peek() as { value: RuleArithmeticOp; pos: number };
+      index++;
+      left = { kind: 'arithmetic', op: token.value, left: requireNumeric(left, pos), right: requireNumeric(parseUnary(), token.pos) };
+    }
+    return left;
+  }
+
+  function parseUnary(): RuleExpr {
+    if (isOp('-')) {
+      const pos = peek().pos;
+      index++;
+      return { kind: 'negate', operand: requireNumeric(parseUnary(), pos) };
+    }
+    return parsePrimary();
+  }
+
+  function parsePrimary(): RuleExpr {
+    const token = peek();
+    if (token.type === 'number') {
+      index++;
+      return { kind: 'number', value: token.value };
+    }
+    if (token.type === 'op' && token.value === '(') {
+      index++;
+      const inner = parseOr();
+      expectOp(')');
+      return inner;
+    }
+    if (token.type === 'name') {
+      index++;
+      if (isOp('(')) return parseCall(token.value, token.pos);
+      if (VARIABLE_SET.has(token.value)) {
+        return { kind: 'variable', name: token.value as (typeof RULE_VARIABLES)[number] };
+      }
+      if (RULE_FUNCTIONS[token.value]) {
+        throw new RuleSyntaxError(`Function "${token.value}" needs parentheses`, token.pos);
+      }
+      throw new RuleSyntaxError(`Unknown name "${token.value}"`, token.pos);
+    }
+    if (token.type === 'end') throw new RuleSyntaxError('Unexpected end of rule', token.pos);
+    throw new RuleSyntaxError(`Unexpected "${token.value}"`, token.pos);
+  }
+
+  function parseCall(name: string, pos: number): RuleExpr {
+    const spec = RULE_FUNCTIONS[name];
+    if (!spec) throw new RuleSyntaxError(`Unknown function "${name}"`, pos);
+    expectOp('(');
+    const args: RuleExpr[] = [];
+    if (!isOp(')')) {
+      for (;;) {
+        const argPos = peek().pos;
+        const arg = requireNumeric(parseSum(), argPos);
+        if (args.length < spec.periodArgs && (arg.kind !== 'number' || !(arg.value > 0) || arg.value > 500)) {
+          throw new RuleSyntaxError(`${name}() period must be a number between 1 and 500`, argPos);
+        }
+        args.push(arg);
+        if (!isOp(',')) break;
+        index++;
+      }
+    }
+    expectOp(')');
+    if (args.length < spec.minArgs || args.length > spec.maxArgs) {
+      const expected = spec.minArgs === spec.maxArgs ? `${spec.minArgs}` : `${spec.minArgs}-${spec.maxArgs}`;
+      throw new RuleSyntaxError(`${name}() takes ${expected} argument(s), got ${args.length}`, pos);
+    }
+    return { kind: 'call', name, args };
+  }
+
+  if (peek().type === 'end') throw new RuleSyntaxError('Rule is empty', 0);
+  const expr = parseOr();
+  if (peek().type !== 'end') throw new RuleSyntaxError('Unexpected trailing input', peek().pos);
+  return requireBoolean(expr, 0);
+}
+
+/** Bars a call needs before it yields a value, given its period argument (see custom-rules.ts). */
+const RULE_BARS_NEEDED: Partial<Record<string, (period: number) => number>> = {
+  rsi: (p) => p + 1,
+  ema: (p) => p,
+  sma: (p) => p,
+  atr: (p) => p + 1,
+  adx: (p) => p * 2 + 1,
+  pdi: (p) => p * 2 + 1,
+  mdi: (p) => p * 2 + 1,
+  stoch_k: (p) => p,
+  stoch_d: (p) => p + 2,
+  bb_upper: (p) => p,
+  bb_middle: (p) => p,
+  bb_lower: (p) => p,
+  change: (p) => p + 1,
+  highest: (p) => p,
+  lowest: (p) => p,
+};
+
+/**
+ * Most bars any call with an explicit period in the rule needs, e.g. 50 for
+ * `close > ema(50)`. Calls without a period read the agent's precomputed
+ * indicators and are not counted.
+ */
+export function ruleHistoryBars(expr: RuleExpr): number {
+  switch (expr.kind) {
+    case 'call': {
+      const period = expr.args[0];
+      const needed = RULE_BARS_NEEDED[expr.name];
+      const own = needed && period?.kind === 'number' ? needed(Math.round(period.value)) : 0;
+      return Math.max(own, ...expr.args.map(ruleHistoryBars));
+    }
+    case 'negate':
+    case 'not':
+      return ruleHistoryBars(expr.operand);
+    case 'arithmetic':
+    case 'compare':
+    case 'logical':
+      return Math.max(ruleHistoryBars(expr.left), ruleHistoryBars(expr.right));
+    default:
+      return 0;
+  }
+}
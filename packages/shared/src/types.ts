@@ -30,22 +30,78 @@ export type Strategy =
   | 'bollinger_bounce'
   | 'volume_breakout'
   | 'llm_sentiment'
+  | 'stochastic_cross'
+  | 'adx_trend'
+  | 'vwap_reversion'
+  | 'obv_trend'
+  | 'keltner_breakout'
+  | 'ichimoku_cloud'
   | 'combined';
 
+/** User-defined signal rule (see rule-dsl.ts for the expression language). */
+export interface CustomRule {
+  name: string;
+  side: TradeSide;
+  when: string;
+  confidence: number;
+}
+
+/** Lookback periods for the OHLCV indicators (see IndicatorPeriodsSchema). */
+export interface IndicatorPeriods {
+  atr: number;
+  stochastic: number;
+  stochasticSignal: number;
+  adx: number;
+  keltner: number;
+  keltnerMultiplier: number;
+  ichimokuConversion: number;
+  ichimokuBase: number;
+  ichimokuSpan: number;
+}
+
 /** Trade side */
 export type TradeSide = 'buy' | 'sell';
 
 /** Trade status */
-export type TradeStatus = 'open' | 'closed';
+/** `merged` rows record a scale-in lot that was folded into its parent position. */
+export type TradeStatus = 'open' | 'closed' | 'merged';
+
+/** Partial fills against an existing position */
+export type TradeFillType = 'add' | 'reduce';
 
 /** Why a trade was closed */
-export type CloseReason = 'stop_loss' | 'take_profit' | 'manual' | 'llm_decision';
+export type CloseReason = 'stop_loss' | 'take_profit' | 'trailing_stop' | 'liquidation' | 'manual' | 'llm_decision';
+
+/** Paper fill simulation: fixed slippage, or liquidity-derived impact + swap fees */
+export type FillModel = 'flat' | 'liquidity';
+
+/** How entry size is chosen, before the maxPositionSizePct cap */
+export type SizingMode = 'fixed' | 'volatility' | 'kelly' | 'fixed_risk';
+
+/** Aggregation policy for multi-model consensus (see EnsembleConfigSchema). */
+export type EnsemblePolicy = 'majority' | 'confidence_weighted' | 'unanimous';
+
+export interface EnsembleConfig {
+  models: string[];
+  policy: EnsemblePolicy;
+}
+
+/** Role in an agent team, in deliberation order (see AgentTeamConfigSchema). */
+export type TeamRole = 'analyst' | 'riskOfficer' | 'executor';
+
+export interface TeamRoleConfig {
+  /** Defaults to the agent's llmModel. */
+  model?: string;
+  roleMd?: string;
+}
+
+export type AgentTeamConfig = Record<TeamRole, TeamRoleConfig>;
 
 /** Agent status */
 export type AgentStatus = 'running' | 'stopped' | 'paused';
 
 /** Trade decision from LLM */
-export type TradeAction = 'buy' | 'sell' | 'hold' | 'close';
+export type TradeAction = 'buy' | 'sell' | 'hold' | 'close' | 'reduce' | 'add';
 
 /** Agent configuration */
 export interface AgentConfig {
@@ -58,6 +114,10 @@ export interface AgentConfig {
   llmFallback: string;
   maxLlmCallsPerHour: number;
   temperature: number;
+  /** Multi-model consensus; replaces llmModel when set. */
+  ensemble?: EnsembleConfig | null;
+  /** Analyst → risk officer → executor deliberation; ignored when ensemble is set. */
+  team?: AgentTeamConfig | null;
   chain: Chain;
   dexes: Dex[];
   pairs: string[];
@@ -67,10 +127,30 @@ export interface AgentConfig {
   stopLossPct: number;
   takeProfitPct: number;
   slippageSimulation: number;
+  fillModel?: FillModel;
+  /** Highest leverage the LLM may request on an entry (1 = unleveraged). */
+  maxLeverage?: number;
+  /** Paper funding rate per 8h in %, paid by longs (received by shorts) on margin positions. */
+  fundingRatePct?: number;
+  /** Entry sizing policy; `fixed` = the LLM's suggested size. */
+  sizingMode?: SizingMode;
+  targetVolatilityPct?: number;
+  kellyFraction?: number;
+  riskPerTradePct?: number;
   analysisInterval: AnalysisInterval;
   strategies: Strategy[];
+  indicatorPeriods?: Partial<IndicatorPeriods>;
+  customRules?: CustomRule[];
   maxDailyLossPct: number;
   cooldownAfterLossMinutes: number;
+  selfModEvaluationCycles?: number;
+  selfModRevertThresholdPct?: number;
+  maxAssetGrossExposurePct?: number;
+  maxAssetNetExposurePct?: number;
+  maxPairCorrelation?: number;
+  maxPortfolioVarPct?: number;
+  /** Only enter when the pair's detected regime matches behavior.preferredConditions. */
+  regimeGate?: boolean;
 }
 
 /** Trade record */
@@ -90,8 +170,16 @@ export interface Trade {
   reasoning: string;
   strategyUsed: string;
   slippageSimulated: number;
+  feeUsd?: number;
+  /** Margin positions (leveraged or short): leverage, liquidation mark price and funding paid. */
+  leverage?: number;
+  liquidationPrice?: number;
+  fundingUsd?: number;
   status: TradeStatus;
   closeReason?: CloseReason;
+  /** Set on add/reduce rows: the position they scaled into or out of. */
+  parentTradeId?: string;
+  fillType?: TradeFillType;
   openedAt: string;
   closedAt?: string;
 }
@@ -126,6 +214,18 @@ export interface PerformanceSnapshot {
   snapshotAt: string;
 }
 
+/** Order types an agent can request for an entry */
+export type TradeOrderType = 'market' | 'limit' | 'stop';
+
+/** Entry order + trailing-stop instructions attached to a buy/sell decision */
+export interface TradeOrder {
+  type: TradeOrderType;
+  triggerPrice?: number | null;
+  trailingStopPct?: number | null;
+  trailingStopAtr?: number | null;
+  expiresInHours?: number | null;
+}
+
 /** Trade decision from LLM */
 export interface TradeDecision {
   action: TradeAction;
@@ -133,6 +233,10 @@ export interface TradeDecision {
   reasoning: string;
   targetPair?: string | null;
   suggestedPositionSizePct?: number | null;
+  reducePct?: number | null;
+  /** For buy/sell: requested leverage, capped at the agent's maxLeverage. */
+  leverage?: number | null;
+  order?: TradeOrder | null;
   selfModification?: {
     reason: string;
     changes: {
@@ -5,6 +5,8 @@ import {
   CreateAgentRequestSchema,
   InitiaLinkRequestSchema,
   InitiaSyncRequestSchema,
+  CreateWebhookRequestSchema,
+  WEBHOOK_EVENT_TYPES,
 } from './validation.js';
 import { filterSupportedBasePairs } from './pairs.js';
 
@@ -130,3 +132,37 @@ describe('Initia agent schemas', () => {
     expect(result.success).toBe(true);
   });
 });
+
+describe('CreateWebhookRequestSchema', () => {
+  const parseUrl = (url: string) => CreateWebhookRequestSchema.safeParse({ url, events: ['trade.closed'] }).success;
+
+  it('accepts public https URLs', () => {
+    expect(parseUrl('https://hooks.example.com/trading')).toBe(true);
+    expect(parseUrl('https://203.0.113.7/hook')).toBe(true);
+  });
+
+  it('rejects plain http and local, private or link-local hosts', () => {
+    for (const url of [
+      'http://hooks.example.com/trading',
+      'https://localhost:8080/hook',
+      'https://app.localhost/hook',
+      'https://127.0.0.1/hook',
+      'https://2130706433/hook',
+      'https://10.1.2.3/hook',
+      'https://172.20.0.5/hook',
+      'https://192.168.1.10/hook',
+      'https://169.254.169.254/latest/meta-data',
+      'https://[::1]/hook',
+      'https://[fe80::1]/hook',
+      'https://[fd12:3456::1]/hook',
+      'https://[::ffff:127.0.0.1]/hook',
+    ]) {
+      expect(parseUrl(url), url).toBe(false);
+    }
+  });
+
+  it('accepts the self-modification events', () => {
+    expect(WEBHOOK_EVENT_TYPES).toContain('self_modification.applied');
+    expect(WEBHOOK_EVENT_TYPES).toContain('self_modification.reverted');
+  });
+});
@@ -1,6 +1,7 @@
 import { z } from 'zod';
 import { DEFAULT_FREE_AGENT_MODEL } from './model-catalog.js';
 import { TRADING_INTERVALS } from './intervals.js';
+import { RULE_MAX_LENGTH, RuleSyntaxError, parseRuleExpression, ruleHistoryBars } from './rule-dsl.js';
 
 const CHAIN_SCHEMA = z.enum(['base', 'initia']);
 
@@ -58,6 +59,115 @@ const EntityNameSchema = z
   .min(1, 'Name is required')
   .max(ENTITY_NAME_MAX_CHARS, `Name must be at most ${ENTITY_NAME_MAX_CHARS} characters`);
 
+/** Hourly candles live analysis (and rule backtests) feed into the indicators per tick. */
+export const INDICATOR_HISTORY_BARS = 48;
+
+/**
+ * Lookback periods for the OHLCV indicators. Live analysis sees
+ * INDICATOR_HISTORY_BARS hourly bars, so periods needing more history than
+ * that are rejected rather than left silently uncomputed — the classic 52-bar
+ * Ichimoku span is one.
+ */
+export const IndicatorPeriodsSchema = z
+  .object({
+    atr: z.number().int().min(2).max(100).default(14),
+    stochastic: z.number().int().min(2).max(100).default(14),
+    stochasticSignal: z.number().int().min(1).max(20).default(3),
+    adx: z.number().int().min(2).max(50).default(14),
+    keltner: z.number().int().min(2).max(100).default(20),
+    keltnerMultiplier: z.number().min(0.5).max(5).default(2),
+    ichimokuConversion: z.number().int().min(2).max(100).default(9),
+    ichimokuBase: z.number().int().min(2).max(100).default(26),
+    ichimokuSpan: z.number().int().min(2).max(200).default(INDICATOR_HISTORY_BARS),
+  })
+  .superRefine((periods, ctx) => {
+    // Bars each indicator needs before it yields a value (see computeIndicators).
+    const needed: Array<[keyof typeof periods, number]> = [
+      ['atr', periods.atr + 1],
+      ['stochastic', periods.stochastic + periods.stochasticSignal],
+      ['adx', periods.adx * 2 + 1],
+      ['keltner', periods.keltner + 1],
+      ['ichimokuConversion', periods.ichimokuConversion],
+      ['ichimokuBase', periods.ichimokuBase],
+      ['ichimokuSpan', periods.ichimokuSpan],
+    ];
+    for (const [path, bars] of needed) {
+      if (bars > INDICATOR_HISTORY_BARS) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [path],
+          message: `Needs ${bars} bars; analysis only sees ${INDICATOR_HISTORY_BARS}`,
+        });
+      }
+    }
+  });
+
+/** A user-defined signal: emits `side` whenever the `when` expression (see rule-dsl.ts) holds. */
+export const CustomRuleSchema = z.object({
+  name: z.string().trim().min(1).max(40).regex(/^[a-zA-Z0-9_-]+$/, 'Use letters, digits, "_" or "-"'),
+  side: z.enum(['buy', 'sell']),
+  when: z.string().trim().min(1).max(RULE_MAX_LENGTH).superRefine((source, ctx) => {
+    try {
+      const bars = ruleHistoryBars(parseRuleExpression(source));
+      if (bars > INDICATOR_HISTORY_BARS) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Rule needs ${bars} bars of history; analysis only sees ${INDICATOR_HISTORY_BARS}`,
+        });
+      }
+    } catch (err) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: err instanceof RuleSyntaxError ? err.message : 'Invalid rule expression',
+      });
+    }
+  }),
+  confidence: z.number().min(0.5).max(0.95).default(0.7),
+});
+
+export const CustomRulesSchema = z
+  .array(CustomRuleSchema)
+  .max(10)
+  .refine((rules) => new Set(rules.map((rule) => rule.name)).size === rules.length, {
+    message: 'Custom rule names must be unique',
+  });
+
+/**
+ * Multi-model consensus. Every tick asks each model in parallel and aggregates the
+ * answers: `majority` acts on an action more than half the responding models chose,
+ * `confidence_weighted` on the action with the highest summed confidence, and
+ * `unanimous` only when every configured model answers and agrees. Anything else holds.
+ */
+export const ENSEMBLE_POLICIES = ['majority', 'confidence_weighted', 'unanimous'] as const;
+
+export const EnsembleConfigSchema = z.object({
+  models: z
+    .array(z.string().trim().min(1))
+    .min(2)
+    .max(5)
+    .refine((models) => new Set(models).size === models.length, { message: 'Ensemble models must be unique' }),
+  policy: z.enum(ENSEMBLE_POLICIES).default('majority'),
+});
+
+/**
+ * Agent team: one decision flows through three role calls. The analyst writes a
+ * thesis from the indicators, the risk officer approves, resizes or vetoes it
+ * against the agent's risk limits, and the executor returns the final decision.
+ * A role without `model` uses the agent's llmModel; without `roleMd`, the default role text.
+ */
+export const TEAM_ROLES = ['analyst', 'riskOfficer', 'executor'] as const;
+
+export const TeamRoleConfigSchema = z.object({
+  model: z.string().trim().min(1).optional(),
+  roleMd: z.string().max(4000).optional(),
+});
+
+export const AgentTeamConfigSchema = z.object({
+  analyst: TeamRoleConfigSchema.default({}),
+  riskOfficer: TeamRoleConfigSchema.default({}),
+  executor: TeamRoleConfigSchema.default({}),
+});
+
 export const AgentConfigSchema = z.object({
   // Identity
   name: EntityNameSchema,
@@ -70,6 +180,10 @@ export const AgentConfigSchema = z.object({
   allowFallback: z.boolean().default(false),
   maxLlmCallsPerHour: z.number().min(1).max(60).default(12),
   temperature: z.number().min(0).max(2).default(0.7),
+  /** Replaces llmModel/llmFallback on Base agents when set; each member counts against maxLlmCallsPerHour. */
+  ensemble: EnsembleConfigSchema.nullable().optional(),
+  /** Analyst → risk officer → executor on Base agents; three calls against maxLlmCallsPerHour. Ignored when ensemble is set. */
+  team: AgentTeamConfigSchema.nullable().optional(),
 
   // Trading
   chain: CHAIN_SCHEMA.default('base'),
@@ -88,6 +202,22 @@ export const AgentConfigSchema = z.object({
   stopLossPct: z.number().min(0.5).max(50).default(5),
   takeProfitPct: z.number().min(0.5).max(100).default(7),
   slippageSimulation: z.number().min(0).max(5).default(0.3),
+  /** `flat` = fixed slippageSimulation, no fees. `liquidity` = pool-size price impact + per-DEX swap fees. */
+  fillModel: z.enum(['flat', 'liquidity']).default('flat'),
+  /** Highest leverage an entry may use. 1 keeps positions unleveraged (MockPerpDEX caps at 10x). */
+  maxLeverage: z.number().int().min(1).max(10).default(1),
+  /** Paper funding rate per 8h in %; longs pay it and shorts receive it on margin positions. */
+  fundingRatePct: z.number().min(-1).max(1).default(0.01),
+  /**
+   * Entry sizing policy, always capped at maxPositionSizePct. `fixed` uses the LLM's
+   * suggestedPositionSizePct; `volatility` targets targetVolatilityPct of equity per
+   * hourly ATR; `kelly` bets kellyFraction × Kelly from closed trades; `fixed_risk`
+   * loses riskPerTradePct of equity if the stop loss is hit.
+   */
+  sizingMode: z.enum(['fixed', 'volatility', 'kelly', 'fixed_risk']).default('fixed'),
+  targetVolatilityPct: z.number().min(0.01).max(10).default(0.1),
+  kellyFraction: z.number().min(0.05).max(1).default(0.25),
+  riskPerTradePct: z.number().min(0.1).max(10).default(1),
 
   // Timeframe
   analysisInterval: z.enum(TRADING_INTERVALS).default('1h'),
@@ -102,15 +232,41 @@ export const AgentConfigSchema = z.object({
         'bollinger_bounce',
         'volume_breakout',
         'llm_sentiment',
+        'stochastic_cross',
+        'adx_trend',
+        'vwap_reversion',
+        'obv_trend',
+        'keltner_breakout',
+        'ichimoku_cloud',
         'combined',
       ])
     )
     .default(['combined']),
+  indicatorPeriods: IndicatorPeriodsSchema.default({}),
+  customRules: CustomRulesSchema.default([]),
 
   // Risk
   maxDailyLossPct: z.number().min(1).max(50).default(10),
   cooldownAfterLossMinutes: z.number().min(0).max(1440).default(30),
 
+  // Self-modification A/B — applied changes are re-evaluated and rolled back on degradation
+  /** Analysis cycles an applied self-modification runs before it is compared with the same-length window before it. */
+  selfModEvaluationCycles: z.number().int().min(1).max(500).default(24),
+  /** Revert when window PnL falls, or drawdown grows, by more than this many % of paper balance. */
+  selfModRevertThresholdPct: z.number().min(0.1).max(100).default(2),
+
+  // Portfolio risk — new entries that would breach these are vetoed; each limit is off until set
+  /** Gross exposure to one asset across all pairs (e.g. WETH in WETH/USDC and cbBTC/WETH), % of equity. */
+  maxAssetGrossExposurePct: z.number().min(1).max(1000).optional(),
+  /** Net long-minus-short exposure to one asset, % of equity. */
+  maxAssetNetExposurePct: z.number().min(1).max(1000).optional(),
+  /** Direction-adjusted return correlation allowed with an open position on another pair. */
+  maxPairCorrelation: z.number().min(0).max(1).optional(),
+  /** 95% historical VaR over one hourly bar, % of equity. */
+  maxPortfolioVarPct: z.number().min(0.1).max(100).optional(),
+  /** Veto new entries unless the pair's detected 1h regime matches behavior.preferredConditions ('any' never gates). */
+  regimeGate: z.boolean().default(false),
+
   // Initia extension metadata (optional)
   initiaWalletAddress: z.string().trim().min(3).max(128).optional(),
   initiaMetadataHash: z.string().trim().min(8).max(256).optional(),
@@ -133,12 +289,37 @@ export const AgentConfigSchema = z.object({
 export type AgentConfigInput = z.input<typeof AgentConfigSchema>;
 export type AgentConfigOutput = z.output<typeof AgentConfigSchema>;
 
+/** Execution instructions for a buy/sell decision. Omitted = market order, fixed SL/TP only. */
+export const TradeOrderSchema = z
+  .object({
+    type: z.enum(['market', 'limit', 'stop']).default('market'),
+    /** Limit/stop entry price; required unless type is market. */
+    triggerPrice: z.number().positive().nullable().optional(),
+    /** Trailing stop distance as % of the best price since entry. */
+    trailingStopPct: z.number().min(0.1).max(50).nullable().optional(),
+    /** Trailing stop distance as a multiple of the pair's ATR. */
+    trailingStopAtr: z.number().min(0.5).max(10).nullable().optional(),
+    /** Resting limit/stop orders are cancelled after this many hours (default 24). */
+    expiresInHours: z.number().min(1).max(168).nullable().optional(),
+  })
+  .refine((order) => order.type === 'market' || (order.triggerPrice ?? 0) > 0, {
+    message: 'triggerPrice is required for limit and stop orders',
+    path: ['triggerPrice'],
+  });
+
+export type TradeOrderInput = z.input<typeof TradeOrderSchema>;
+
 export const TradeDecisionSchema = z.object({
-  action: z.enum(['buy', 'sell', 'hold', 'close']),
+  action: z.enum(['buy', 'sell', 'hold', 'close', 'reduce', 'add']),
   confidence: z.number().min(0).max(1),
   reasoning: z.string(),
   targetPair: z.string().nullable().optional(),
   suggestedPositionSizePct: z.number().min(0).max(100).nullable().optional(),
+  /** For `reduce`: share of the open position on targetPair to close. */
+  reducePct: z.number().min(1).max(100).nullable().optional(),
+  /** For buy/sell: leverage multiple, capped at the agent's maxLeverage. */
+  leverage: z.number().min(1).max(10).nullable().optional(),
+  order: TradeOrderSchema.nullable().optional(),
 });
 
 export const PerpTradeDecisionSchema = z.object({
@@ -164,6 +345,10 @@ export const CreateAgentRequestSchema = z.object({
   allowFallback: z.boolean().default(false),
   maxLlmCallsPerHour: z.number().min(1).max(60).default(12),
   temperature: z.number().min(0).max(2).default(0.7),
+  /** Replaces llmModel/llmFallback on Base agents when set; each member counts against maxLlmCallsPerHour. */
+  ensemble: EnsembleConfigSchema.nullable().optional(),
+  /** Analyst → risk officer → executor on Base agents; three calls against maxLlmCallsPerHour. Ignored when ensemble is set. */
+  team: AgentTeamConfigSchema.nullable().optional(),
   chain: CHAIN_SCHEMA.default('base'),
   isPaper: z.boolean().default(false),
   dexes: z
@@ -180,6 +365,22 @@ export const CreateAgentRequestSchema = z.object({
   stopLossPct: z.number().min(0.5).max(50).default(5),
   takeProfitPct: z.number().min(0.5).max(100).default(7),
   slippageSimulation: z.number().min(0).max(5).default(0.3),
+  /** `flat` = fixed slippageSimulation, no fees. `liquidity` = pool-size price impact + per-DEX swap fees. */
+  fillModel: z.enum(['flat', 'liquidity']).default('flat'),
+  /** Highest leverage an entry may use. 1 keeps positions unleveraged (MockPerpDEX caps at 10x). */
+  maxLeverage: z.number().int().min(1).max(10).default(1),
+  /** Paper funding rate per 8h in %; longs pay it and shorts receive it on margin positions. */
+  fundingRatePct: z.number().min(-1).max(1).default(0.01),
+  /**
+   * Entry sizing policy, always capped at maxPositionSizePct. `fixed` uses the LLM's
+   * suggestedPositionSizePct; `volatility` targets targetVolatilityPct of equity per
+   * hourly ATR; `kelly` bets kellyFraction × Kelly from closed trades; `fixed_risk`
+   * loses riskPerTradePct of equity if the stop loss is hit.
+   */
+  sizingMode: z.enum(['fixed', 'volatility', 'kelly', 'fixed_risk']).default('fixed'),
+  targetVolatilityPct: z.number().min(0.01).max(10).default(0.1),
+  kellyFraction: z.number().min(0.05).max(1).default(0.25),
+  riskPerTradePct: z.number().min(0.1).max(10).default(1),
   analysisInterval: z.enum(TRADING_INTERVALS).default('1h'),
   strategies: z
     .array(
@@ -190,13 +391,39 @@ export const CreateAgentRequestSchema = z.object({
         'bollinger_bounce',
         'volume_breakout',
         'llm_sentiment',
+        'stochastic_cross',
+        'adx_trend',
+        'vwap_reversion',
+        'obv_trend',
+        'keltner_breakout',
+        'ichimoku_cloud',
         'combined',
       ])
     )
     .default(['combined']),
+  indicatorPeriods: IndicatorPeriodsSchema.default({}),
+  customRules: CustomRulesSchema.default([]),
   maxDailyLossPct: z.number().min(1).max(50).default(10),
   cooldownAfterLossMinutes: z.number().min(0).max(1440).default(30),
 
+  // Self-modification A/B — applied changes are re-evaluated and rolled back on degradation
+  /** Analysis cycles an applied self-modification runs before it is compared with the same-length window before it. */
+  selfModEvaluationCycles: z.number().int().min(1).max(500).default(24),
+  /** Revert when window PnL falls, or drawdown grows, by more than this many % of paper balance. */
+  selfModRevertThresholdPct: z.number().min(0.1).max(100).default(2),
+
+  // Portfolio risk — new entries that would breach these are vetoed; each limit is off until set
+  /** Gross exposure to one asset across all pairs (e.g. WETH in WETH/USDC and cbBTC/WETH), % of equity. */
+  maxAssetGrossExposurePct: z.number().min(1).max(1000).optional(),
+  /** Net long-minus-short exposure to one asset, % of equity. */
+  maxAssetNetExposurePct: z.number().min(1).max(1000).optional(),
+  /** Direction-adjusted return correlation allowed with an open position on another pair. */
+  maxPairCorrelation: z.number().min(0).max(1).optional(),
+  /** 95% historical VaR over one hourly bar, % of equity. */
+  maxPortfolioVarPct: z.number().min(0.1).max(100).optional(),
+  /** Veto new entries unless the pair's detected 1h regime matches behavior.preferredConditions ('any' never gates). */
+  regimeGate: z.boolean().default(false),
+
   // Initia extension metadata (optional)
   initiaWalletAddress: z.string().trim().min(3).max(128).optional(),
   initiaMetadataHash: z.string().trim().min(8).max(256).optional(),
@@ -212,6 +439,56 @@ export const CreateAgentRequestSchema = z.object({
 
 export const UpdateAgentRequestSchema = CreateAgentRequestSchema.partial();
 
+/** LLM backtests call the model once per uncached bar, so their history is capped tighter. */
+export const BACKTEST_LLM_MAX_BARS = 168;
+
+export const BacktestRequestSchema = z
+  .object({
+    /**
+     * `rules` replays indicator signals only — no LLM calls, fully reproducible.
+     * `llm` asks the agent's model per bar and records each prompt/response so re-runs replay offline.
+     */
+    mode: z.enum(['rules', 'llm']).default('rules'),
+    timeframe: z.enum(['hour', 'day']).default('hour'),
+    /**
+     * Number of candles to replay per pair (GeckoTerminal caps OHLCV at 1000).
+     * Defaults to 500, or BACKTEST_LLM_MAX_BARS in `llm` mode.
+     */
+    limit: z.number().int().min(30).max(1000).optional(),
+    /** Subset of the agent's pairs to replay; defaults to all configured pairs. */
+    pairs: z.array(z.string()).min(1).max(10).optional(),
+    closeOpenAtEnd: z.boolean().default(true),
+    /** Fill model override, e.g. to see how a flat-slippage agent fares with pool impact and fees. */
+    fillModel: z.enum(['flat', 'liquidity']).optional(),
+
+    // LLM mode overrides — compare personas/models over the same history
+    llmModel: z.string().optional(),
+    profileId: z.string().optional(),
+    personaMd: z.string().max(4000).optional(),
+    behavior: AgentBehaviorConfigSchema.optional(),
+  })
+  .refine((req) => req.mode !== 'llm' || req.limit === undefined || req.limit <= BACKTEST_LLM_MAX_BARS, {
+    message: `LLM backtests replay at most ${BACKTEST_LLM_MAX_BARS} candles`,
+    path: ['limit'],
+  })
+  .transform((req) => ({ ...req, limit: req.limit ?? (req.mode === 'llm' ? BACKTEST_LLM_MAX_BARS : 500) }));
+
+export type BacktestRequest = z.infer<typeof BacktestRequestSchema>;
+
+/**
+ * Re-run a stored decision prompt with one or more changes. Omitted fields keep
+ * the original: the model that answered, the agent's temperature, the persona
+ * embedded in the stored prompt.
+ */
+export const ReplayDecisionRequestSchema = z.object({
+  model: z.string().trim().min(1).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  /** Replaces the prompt's persona section; an empty string removes it. */
+  personaMd: z.string().max(4000).optional(),
+});
+
+export type ReplayDecisionRequest = z.infer<typeof ReplayDecisionRequestSchema>;
+
 export const InitiaMetadataPointerSchema = z.object({
   agentId: z.string().min(1).max(128),
   version: z.number().int().min(1).max(10_000),
@@ -252,6 +529,12 @@ export const ManagerRiskParamsSchema = z.object({
   maxTotalDrawdown: z.number().min(0.01).max(1).default(0.2),
   maxAgents: z.number().min(1).max(20).default(3),
   maxCorrelatedPositions: z.number().min(1).max(10).default(3),
+  /** Largest share of managed capital (pool + agents) a single agent may hold. */
+  maxAgentAllocation: z.number().min(0.05).max(1).default(0.5),
+  /** Largest share of managed capital one allocate/rebalance action may move. */
+  maxRebalanceShare: z.number().min(0.01).max(1).default(0.25),
+  /** Cash an agent keeps when capital is withdrawn from it. */
+  minAgentBalanceUsd: z.number().min(0).max(1_000_000).default(100),
 });
 
 export const ManagerConfigSchema = z.object({
@@ -274,6 +557,8 @@ export const CreateManagerRequestSchema = z.object({
   temperature: z.number().min(0).max(2).default(0.7),
   decisionInterval: z.enum(TRADING_INTERVALS).default('1h'),
   riskParams: ManagerRiskParamsSchema.optional(),
+  /** Unallocated paper cash the manager can hand to its agents. */
+  capitalPoolUsd: z.number().min(0).max(10_000_000).optional(),
 
   // Behavior (optional — falls back to defaults / profile)
   behavior: ManagerBehaviorConfigSchema.optional(),
@@ -283,6 +568,21 @@ export const CreateManagerRequestSchema = z.object({
 
 export const UpdateManagerRequestSchema = CreateManagerRequestSchema.partial();
 
+/** A hypothesis in the manager's memory; the prompt shows it every cycle. */
+export const CreateManagerHypothesisRequestSchema = z.object({
+  description: z.string().trim().min(1).max(500),
+  outcome: z.string().max(500).optional(),
+  stillValid: z.boolean().default(true),
+  testedAt: z.string().datetime().optional(),
+});
+
+export const UpdateManagerHypothesisRequestSchema = z.object({
+  description: z.string().trim().min(1).max(500).optional(),
+  outcome: z.string().max(500).nullable().optional(),
+  stillValid: z.boolean().optional(),
+  testedAt: z.string().datetime().nullable().optional(),
+});
+
 export const CreateBehaviorProfileSchema = z.object({
   name: EntityNameSchema,
   emoji: z.string().default('🤖'),
@@ -294,3 +594,208 @@ export const CreateBehaviorProfileSchema = z.object({
 export const UpdatePersonaSchema = z.object({
   personaMd: z.string().max(4000),
 });
+
+/** Agent and manager events a webhook can subscribe to. */
+export const WEBHOOK_EVENT_TYPES = [
+  'trade.opened',
+  'trade.closed',
+  'trade.stop_loss',
+  'agent.daily_loss_paused',
+  'manager.action_executed',
+  'self_modification.applied',
+  'self_modification.reverted',
+] as const;
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+function isPrivateIpv4(host: string): boolean {
+  const match = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/.exec(host);
+  if (!match) return false;
+  const [a, b] = [Number(match[1]), Number(match[2])];
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168)
+  );
+}
+
+function isPrivateIpv6(host: string): boolean {
+  if (!host.startsWith('[')) return false;
+  const address = host.slice(1, -1).toLowerCase();
+  if (address === '::' || address === '::1') return true;
+  // IPv4-mapped (::ffff:a.b.c.d, normalized by URL to hex) could point anywhere.
+  if (address.startsWith('::ffff:')) return true;
+  // fc00::/7 unique local, fe80::/10 link-local
+  return /^f[cd][0-9a-f]{0,2}:/.test(address) || /^fe[89ab][0-9a-f]?:/.test(address);
+}
+
+/** Hosts a webhook must not target: loopback, private, link-local and local-only names. */
+export function isPrivateWebhookHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  if (host === 'localhost' || /\.(localhost|local|internal)$/.test(host)) return true;
+  return isPrivateIpv4(host) || isPrivateIpv6(host);
+}
+
+function parseUrl(url: string): URL | null {
+  try {
+    return new URL(url);
+  } catch {
+    return null;
+  }
+}
+
+const WebhookUrlSchema = z
+  .string()
+  .url()
+  .max(2048)
+  .refine((url) => parseUrl(url)?.protocol === 'https:', 'Webhook URL must use https')
+  .refine((url) => {
+    const parsed = parseUrl(url);
+    return !parsed || !isPrivateWebhookHost(parsed.hostname);
+  }, 'Webhook URL must point to a public host');
+
+export const CreateWebhookRequestSchema = z.object({
+  url: WebhookUrlSchema,
+  /** HMAC signing secret; generated when omitted. */
+  secret: z.string().min(16).max(256).optional(),
+  events: z.array(z.enum(WEBHOOK_EVENT_TYPES)).min(1),
+  description: z.string().max(500).optional(),
+});
+
+export const UpdateWebhookRequestSchema = z.object({
+  url: WebhookUrlSchema.optional(),
+  events: z.array(z.enum(WEBHOOK_EVENT_TYPES)).min(1).optional(),
+  description: z.string().max(500).nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const ALERT_RULE_TYPES = ['drawdown', 'no_decision', 'llm_fallback', 'price_miss'] as const;
+export type AlertRuleType = (typeof ALERT_RULE_TYPES)[number];
+
+/** What an alert rule watches for. */
+export const AlertConditionSchema = z.discriminatedUnion('type', [
+  /** Equity below its snapshot peak by more than thresholdPct (hourly cron). */
+  z.object({ type: z.literal('drawdown'), thresholdPct: z.number().min(0.1).max(100) }),
+  /** A running agent made no decision for this many analysis intervals (hourly cron). */
+  z.object({ type: z.literal('no_decision'), intervals: z.number().int().min(1).max(100).default(3) }),
+  /** A decision came from a fallback model instead of the configured one (agent loop). */
+  z.object({ type: z.literal('llm_fallback') }),
+  /** An open position's price failed to resolve this many ticks in a row (agent loop). */
+  z.object({ type: z.literal('price_miss'), misses: z.number().int().min(1).max(100).default(3) }),
+]);
+export type AlertCondition = z.infer<typeof AlertConditionSchema>;
+
+export const ALERT_CHANNEL_TYPES = ['telegram', 'discord', 'email'] as const;
+export type AlertChannelType = (typeof ALERT_CHANNEL_TYPES)[number];
+
+export const AlertChannelConfigSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('telegram'), botToken: z.string().min(10).max(200), chatId: z.string().min(1).max(100) }),
+  z.object({
+    type: z.literal('discord'),
+    webhookUrl: z
+      .string()
+      .url()
+      .refine(
+        (url) => /^https:\/\/(discord\.com|discordapp\.com)\/api\/webhooks\//.test(url),
+        'Must be a Discord webhook URL'
+      ),
+  }),
+  z.object({ type: z.literal('email'), to: z.string().email() }),
+]);
+export type AlertChannelConfig = z.infer<typeof AlertChannelConfigSchema>;
+
+export const CreateAlertChannelRequestSchema = z.object({
+  name: EntityNameSchema,
+  channel: AlertChannelConfigSchema,
+});
+
+export const UpdateAlertChannelRequestSchema = z.object({
+  name: EntityNameSchema.optional(),
+  channel: AlertChannelConfigSchema.optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const CreateAlertRuleRequestSchema = z.object({
+  name: EntityNameSchema,
+  /** Omit to watch every agent the user owns. */
+  agentId: z.string().nullable().optional(),
+  condition: AlertConditionSchema,
+  channelIds: z.array(z.string()).min(1).max(10),
+  /** Minimum gap between notifications for the same rule and agent. */
+  throttleMinutes: z.number().int().min(0).max(7 * 24 * 60).default(60),
+});
+
+export const UpdateAlertRuleRequestSchema = z.object({
+  name: EntityNameSchema.optional(),
+  agentId: z.string().nullable().optional(),
+  condition: AlertConditionSchema.optional(),
+  channelIds: z.array(z.string()).min(1).max(10).optional(),
+  throttleMinutes: z.number().int().min(0).max(7 * 24 * 60).optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const PAIR_WATCH_METRICS = ['price', 'rsi', 'ema9', 'ema21'] as const;
+export type PairWatchMetric = (typeof PAIR_WATCH_METRICS)[number];
+
+/**
+ * `above` / `below` fire when the metric moves onto that side of `value`
+ * (including on the first check); `crosses_*` need a previous reading on the
+ * other side.
+ */
+export const PAIR_WATCH_OPERATORS = ['above', 'below', 'crosses_above', 'crosses_below', 'crosses'] as const;
+export type PairWatchOperator = (typeof PAIR_WATCH_OPERATORS)[number];
+
+/** Closes an indicator metric needs before it has a value. */
+export const PAIR_WATCH_METRIC_BARS: Record<Exclude<PairWatchMetric, 'price'>, number> = {
+  rsi: 15,
+  ema9: 9,
+  ema21: 21,
+};
+
+/** Closes pair watches load per indicator timeframe; 4h bars are built from hourly closes. */
+export const PAIR_WATCH_TIMEFRAME_BARS: Record<(typeof TRADING_INTERVALS)[number], number> = {
+  '1h': INDICATOR_HISTORY_BARS,
+  '4h': 40,
+  '1d': 30,
+};
+
+export const PairWatchConditionSchema = z
+  .object({
+    metric: z.enum(PAIR_WATCH_METRICS),
+    operator: z.enum(PAIR_WATCH_OPERATORS),
+    value: z.number().finite(),
+    /** Candle timeframe for indicator metrics; ignored for `price`. */
+    timeframe: z.enum(TRADING_INTERVALS).default('1h'),
+  })
+  .superRefine((condition, ctx) => {
+    if (condition.metric === 'price') return;
+    const needed = PAIR_WATCH_METRIC_BARS[condition.metric];
+    const available = PAIR_WATCH_TIMEFRAME_BARS[condition.timeframe];
+    if (needed > available) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['timeframe'],
+        message: `${condition.metric} needs ${needed} ${condition.timeframe} bars; watches only load ${available}`,
+      });
+    }
+  });
+export type PairWatchCondition = z.infer<typeof PairWatchConditionSchema>;
+
+export const CreatePairWatchRequestSchema = z.object({
+  pair: z.string().min(3).max(40),
+  condition: PairWatchConditionSchema,
+  /** Re-arm after firing instead of stopping at the first trigger. */
+  repeat: z.boolean().default(false),
+  note: z.string().max(200).optional(),
+});
+
+export const UpdatePairWatchRequestSchema = z.object({
+  condition: PairWatchConditionSchema.optional(),
+  repeat: z.boolean().optional(),
+  note: z.string().max(200).nullable().optional(),
+  /** `active` re-arms a paused or triggered watch. */
+  status: z.enum(['active', 'paused']).optional(),
+});